@@ -0,0 +1,152 @@
+import { redirect } from "next/navigation";
+import { getAdminApiUser } from "@/lib/auth/require-admin";
+import { runCycleReminders } from "@/lib/email/cycle-reminder-runner";
+import type { CycleReminderRunResult } from "@/lib/email/cycle-reminder-runner";
+import type {
+  CycleReminderRateeKind,
+  CycleReminderSkipReason,
+} from "@/lib/email/cycle-reminder-plan";
+import type { CycleReminderSend } from "@/lib/email/cycle-reminder";
+import { getEvaluationPeriodShortLabel } from "@/lib/constants";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+export const dynamic = "force-dynamic";
+
+const SEND_LABELS: Record<CycleReminderSend, string> = {
+  supervisor_soon: "Due to supervisor",
+  chief_soon: "Due to chief",
+  catchup: "Catch-up",
+};
+
+const RATEE_LABELS: Record<CycleReminderRateeKind, string> = {
+  self: "Own EPB",
+  subordinate: "Subordinate",
+  managed_member: "Managed member",
+};
+
+const SKIP_LABELS: Record<CycleReminderSkipReason, string> = {
+  opted_out: "Opted out",
+  mil_email: ".mil address",
+  no_email: "No email",
+  already_sent: "Already sent",
+};
+
+export default async function AdminCycleRemindersPage() {
+  // Authenticate in the page itself — layout gates can race with page data
+  // fetches in the App Router when the browser session is already dead.
+  const admin = await getAdminApiUser();
+  if (!admin.ok) {
+    redirect(admin.status === 401 ? "/login" : "/dashboard");
+  }
+
+  let result: CycleReminderRunResult;
+  try {
+    result = await runCycleReminders({
+      dryRun: true,
+      siteUrl: process.env.NEXT_PUBLIC_SITE_URL || "https://myepbuddy.com",
+    });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "Unable to plan cycle reminders.";
+    return (
+      <div className="space-y-2">
+        <h1 className="text-2xl font-bold tracking-tight">Cycle Reminders</h1>
+        <p className="text-sm text-destructive" role="alert">
+          {message}
+        </p>
+      </div>
+    );
+  }
+
+  const skippedEntries = Object.entries(result.skipped) as [CycleReminderSkipReason, number][];
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-1">
+        <h1 className="text-2xl font-bold tracking-tight">Cycle Reminders</h1>
+        <p className="text-sm text-muted-foreground">
+          Dry run of today&apos;s scheduled send. Nothing is emailed from this page;
+          the daily cron sends the same plan and logs each email so it goes out once.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <Badge>{result.planned.length} to send</Badge>
+        {skippedEntries.map(([reason, count]) => (
+          <Badge key={reason} variant="secondary">
+            {SKIP_LABELS[reason]}: {count}
+          </Badge>
+        ))}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Planned emails</CardTitle>
+          <CardDescription>
+            One row per recipient and ratee. Ratees follow their rank SCOD or
+            their custom evaluation period.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {result.planned.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              No reminders are due today.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Recipient</TableHead>
+                  <TableHead>Ratee</TableHead>
+                  <TableHead>Send</TableHead>
+                  <TableHead>Close-out</TableHead>
+                  <TableHead className="text-right">Days left</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {result.planned.map((item) => (
+                  <TableRow key={item.dedupeKey}>
+                    <TableCell className="font-mono text-xs">{item.recipientEmail}</TableCell>
+                    <TableCell>
+                      <span className="block">{item.rateeName ?? item.rank}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {RATEE_LABELS[item.rateeKind]}
+                      </span>
+                    </TableCell>
+                    <TableCell>{SEND_LABELS[item.send]}</TableCell>
+                    <TableCell>
+                      {item.closeoutDate}
+                      {item.periodReason && (
+                        <Badge variant="outline" className="ml-2">
+                          {getEvaluationPeriodShortLabel(item.periodReason)}
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right tabular-nums">
+                      {item.daysUntilCloseout}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
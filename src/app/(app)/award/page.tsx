@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useEffect, useCallback, useMemo } from "react";
-import { useRouter } from "next/navigation";
+import { useRouter, useSearchParams } from "next/navigation";
 import { createClient } from "@/lib/supabase/client";
 import { isAbortError, logUnlessAborted } from "@/lib/supabase/abort";
 import { getFullName } from "@/lib/utils";
@@ -142,6 +142,7 @@ function calculatePeriodDates(
 
 export default function AwardPage() {
   const router = useRouter();
+  const searchParams = useSearchParams();
   const supabase = createClient();
   const { profile, subordinates, managedMembers } = useUserStore();
 
@@ -407,6 +408,21 @@ export default function AwardPage() {
     return () => controller.abort();
   }, [loadAwards]);
 
+  // Open a shell directly if ?open=<id> (from workspace search)
+  const openParam = searchParams.get("open");
+  useEffect(() => {
+    if (!openParam || isLoading) return;
+    const target = awards.find((item) => item.id === openParam);
+    if (target) {
+      setSelectedAward(target);
+      setShowWorkspaceDialog(true);
+    } else {
+      toast.error("That award package is not available");
+    }
+    router.replace("/award");
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- only react to the param and the loaded list
+  }, [openParam, isLoading, awards]);
+
   // ============================================================================
   // Derived: filtered awards + available years
   // ============================================================================
@@ -21,7 +21,7 @@ import {
   Plus,
   TrendingUp,
 } from "lucide-react";
-import { SUPERVISOR_RANKS, getActiveCycleYear, isOfficer, isCivilian } from "@/lib/constants";
+import { SUPERVISOR_RANKS, getActiveCycleYear, getCyclePeriodOverride, isOfficer, isCivilian } from "@/lib/constants";
 import { CyclePeriodLabel } from "@/components/evaluation/cycle-period-label";
 import { PendingLinksCard } from "@/components/dashboard/pending-links-card";
 import { EmailMismatchInvitesCard } from "@/components/dashboard/email-mismatch-invites-card";
@@ -38,9 +38,10 @@ export default function DashboardPage() {
 
   const supabase = createClient();
   
-  // Cycle year and SCOD are computed from the user's rank
+  // Cycle year and SCOD are computed from the user's rank (or their custom period)
   const userRank = profile?.rank as Rank | null;
-  const cycleYear = getActiveCycleYear(userRank);
+  const cycleOverride = getCyclePeriodOverride(profile);
+  const cycleYear = getActiveCycleYear(userRank, cycleOverride);
 
   // Check if user is a supervisor rank
   const isSupervisorRank =
@@ -90,13 +91,13 @@ export default function DashboardPage() {
             "Supervisor mode — generate EPBs and OPBs for your team"
           ) : userIsOfficer ? (
             userRank ? (
-              <>OPR period: <CyclePeriodLabel rank={userRank} /></>
+              <>OPR period: <CyclePeriodLabel rank={userRank} override={cycleOverride} /></>
             ) : (
               "Team Management Mode"
             )
           ) : (
             <>
-              EPB period: <CyclePeriodLabel rank={userRank} />
+              EPB period: <CyclePeriodLabel rank={userRank} override={cycleOverride} />
             </>
           )}
         </p>
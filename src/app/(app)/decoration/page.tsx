@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useEffect, useCallback, useMemo } from "react";
-import { useRouter } from "next/navigation";
+import { useRouter, useSearchParams } from "next/navigation";
 import { createClient } from "@/lib/supabase/client";
 import { isAbortError, logUnlessAborted } from "@/lib/supabase/abort";
 import { useUserStore } from "@/stores/user-store";
@@ -71,10 +71,10 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { DecorationWorkspaceDialog } from "@/components/decoration/decoration-workspace-dialog";
-import { DECORATION_TYPES, DECORATION_REASONS } from "@/features/decorations/constants";
+import { DECORATION_REASONS } from "@/features/decorations/constants";
+import { getServiceProfile } from "@/lib/service-profiles";
 import { cn, getFullName } from "@/lib/utils";
 import {
-  ENLISTED_RANKS,
   OFFICER_RANKS,
   CIVILIAN_RANK,
   isOfficer,
@@ -108,10 +108,14 @@ interface RateeOption {
 
 type RecipientMode = "member" | "manual";
 
-function getAvailableSubordinateRanks(supervisorRank: Rank | null | undefined) {
+// Enlisted grades follow the supervisor's service
+function getAvailableSubordinateRanks(
+  supervisorRank: Rank | null | undefined,
+  service: string | null | undefined
+) {
   const supervisorIsOfficer = isOfficer(supervisorRank ?? null);
   return {
-    enlisted: ENLISTED_RANKS,
+    enlisted: getServiceProfile(service).enlistedRanks,
     officers: supervisorIsOfficer ? OFFICER_RANKS : [],
     civilian: CIVILIAN_RANK,
   };
@@ -145,6 +149,7 @@ interface DecorationShellWithDetails {
 
 export default function DecorationPage() {
   const router = useRouter();
+  const searchParams = useSearchParams();
   const supabase = createClient();
   const { profile, subordinates, managedMembers, addManagedMember } = useUserStore();
 
@@ -206,8 +211,8 @@ export default function DecorationPage() {
   ];
 
   const availableSubordinateRanks = useMemo(
-    () => getAvailableSubordinateRanks(profile?.rank as Rank | null),
-    [profile?.rank]
+    () => getAvailableSubordinateRanks(profile?.rank as Rank | null, profile?.service),
+    [profile?.rank, profile?.service]
   );
 
   const resetManualRecipientFields = () => {
@@ -349,6 +354,22 @@ export default function DecorationPage() {
     return () => controller.abort();
   }, [loadDecorations]);
 
+  // Open a shell directly if ?open=<id> (from workspace search)
+  const openParam = searchParams.get("open");
+  useEffect(() => {
+    if (!openParam || isLoading) return;
+    const target = decorations.find((item) => item.id === openParam);
+    if (target) {
+      resetDecorationStore();
+      setSelectedDecoration(target);
+      setShowWorkspaceDialog(true);
+    } else {
+      toast.error("That decoration is not available");
+    }
+    router.replace("/decoration");
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- only react to the param and the loaded list
+  }, [openParam, isLoading, decorations]);
+
   // ============================================================================
   // Handlers
   // ============================================================================
@@ -520,9 +541,10 @@ export default function DecorationPage() {
     setShowWorkspaceDialog(true);
   };
 
-  // Get decoration config by key
+  // Get decoration config by key (medal names follow the user's service)
+  const decorationTypes = getServiceProfile(profile?.service).decorations;
   const getDecorationConfig = (awardType: DecorationAwardType) => {
-    return DECORATION_TYPES.find((d) => d.key === awardType);
+    return decorationTypes.find((d) => d.key === awardType);
   };
 
   // Get reason label
@@ -900,7 +922,7 @@ export default function DecorationPage() {
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  {DECORATION_TYPES.map((type) => (
+                  {decorationTypes.map((type) => (
                     <SelectItem key={type.key} value={type.key}>
                       <div className="flex items-center gap-2">
                         <Badge variant="outline" className="font-mono text-xs">
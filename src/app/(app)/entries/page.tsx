@@ -49,10 +49,10 @@ import { Analytics } from "@/lib/analytics";
 import { deleteAccomplishment } from "@/app/actions/accomplishments";
 import { evaluateEpbGenerationReadiness } from "@/lib/epb-generation-readiness";
 import { Filter, FileText, LayoutList, CalendarDays, Sparkles } from "lucide-react";
-import { ENTRY_MGAS, AWARD_QUARTERS, getQuarterDateRange, getFiscalQuarterDateRange, getActiveCycleYear, isEnlisted } from "@/lib/constants";
+import { ENTRY_MGAS, AWARD_QUARTERS, getQuarterDateRange, getFiscalQuarterDateRange, getActiveCycleYear, getCyclePeriodOverride, isEnlisted } from "@/lib/constants";
 import { EPBProgressCard } from "@/components/epb/epb-progress-card";
 import { SupervisorFeedbackPanel } from "@/components/entries/supervisor-feedback-panel";
-import type { Rank } from "@/types/database";
+import type { EPBWorkflowState, Rank } from "@/types/database";
 import type { SelectedRatee } from "@/stores/epb-shell-store";
 import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -82,6 +82,7 @@ function EntriesContent() {
   const [selectedUser, setSelectedUser] = useState<string>("self");
   const [selectedMPA, setSelectedMPA] = useState<string>("all");
   const [deleteId, setDeleteId] = useState<string | null>(null);
+  const [rateeWorkflowState, setRateeWorkflowState] = useState<EPBWorkflowState | null>(null);
   const [creatorProfiles, setCreatorProfiles] = useState<Record<string, { full_name: string | null; rank: string | null }>>({});
   
   // View mode: list (chronological) or quarterly
@@ -147,6 +148,37 @@ function EntriesContent() {
     }
   }, [searchParams]);
 
+  // Open a specific entry if ?entry=<id> (from workspace search)
+  const entryParam = searchParams.get("entry");
+  const profileId = profile?.id;
+  useEffect(() => {
+    if (!entryParam || !profileId) return;
+    let cancelled = false;
+    void (async () => {
+      const { data, error } = await supabase
+        .from("accomplishments")
+        .select("*")
+        .eq("id", entryParam)
+        .maybeSingle();
+      if (cancelled) return;
+      if (error || !data) {
+        toast.error("That entry is no longer available");
+        return;
+      }
+      const entry = data as unknown as Accomplishment;
+      if (entry.team_member_id) {
+        setSelectedUser(`managed:${entry.team_member_id}`);
+      } else {
+        setSelectedUser(entry.user_id === profileId ? "self" : entry.user_id);
+      }
+      setEditingEntry(entry);
+      setDialogOpen(true);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [entryParam, profileId, supabase]);
+
   // Check if selected user is a managed member (starts with "managed:")
   const isManagedMember = selectedUser.startsWith("managed:");
   const managedMemberId = isManagedMember ? selectedUser.replace("managed:", "") : null;
@@ -161,6 +193,38 @@ function EntriesContent() {
     return (profile?.rank ?? null) as Rank | null;
   }, [selectedUser, isManagedMember, managedMemberId, managedMembers, subordinates, profile?.rank]);
 
+  // Custom evaluation period (ANG/AFR cycle, CRO) for the same ratee
+  const rateeOverride = useMemo(() => {
+    if (isManagedMember && managedMemberId) {
+      return getCyclePeriodOverride(managedMembers.find((m) => m.id === managedMemberId));
+    }
+    if (selectedUser !== "self") {
+      return getCyclePeriodOverride(subordinates.find((s) => s.id === selectedUser));
+    }
+    return getCyclePeriodOverride(profile);
+  }, [selectedUser, isManagedMember, managedMemberId, managedMembers, subordinates, profile]);
+
+  // Routing step of the ratee's active EPB shell, for the progress card suspense
+  useEffect(() => {
+    const controller = new AbortController();
+    void (async () => {
+      if (!profile) return;
+      let query = supabase
+        .from("epb_shells")
+        .select("workflow_state" as never)
+        .neq("status", "archived")
+        .order("updated_at", { ascending: false });
+      query =
+        isManagedMember && managedMemberId
+          ? query.eq("team_member_id", managedMemberId)
+          : query.eq("user_id", selectedUser === "self" ? profile.id : selectedUser).is("team_member_id", null);
+      const { data } = await query.limit(1).abortSignal(controller.signal).maybeSingle();
+      if (controller.signal.aborted) return;
+      setRateeWorkflowState((data as { workflow_state: EPBWorkflowState } | null)?.workflow_state ?? null);
+    })();
+    return () => controller.abort();
+  }, [profile, selectedUser, isManagedMember, managedMemberId, supabase]);
+
   // Load accomplishments
   useEffect(() => {
     const controller = new AbortController();
@@ -378,8 +442,12 @@ function EntriesContent() {
 
   // Full-EPB generation readiness (content-based; the plan step selects entries).
   const epbReadiness = useMemo(
-    () => evaluateEpbGenerationReadiness(accomplishments, { rank: rateeRank }),
-    [accomplishments, rateeRank]
+    () =>
+      evaluateEpbGenerationReadiness(accomplishments, {
+        rank: rateeRank,
+        period: rateeOverride,
+      }),
+    [accomplishments, rateeRank, rateeOverride]
   );
   const showGenerateEpb = !!fuseRatee && isEnlisted(fuseRatee.rank);
 
@@ -470,7 +538,7 @@ function EntriesContent() {
           <h1 className="text-2xl font-bold tracking-tight">Accomplishments</h1>
         </div>
         <div className="flex items-center gap-2">
-          <SupervisorFeedbackPanel />
+          <SupervisorFeedbackPanel autoOpen={searchParams.get("feedback") === "supervisor"} />
           {showGenerateEpb && (
             <TooltipProvider>
               <Tooltip>
@@ -507,6 +575,8 @@ function EntriesContent() {
           rank={rateeRank}
           entries={accomplishments}
           viewerRole={selectedUser === "self" ? "self" : "rater"}
+          override={rateeOverride}
+          workflowState={rateeWorkflowState}
         />
       )}
 
@@ -1,9 +1,11 @@
 "use client";
 
 import { useState, useEffect, useCallback, useMemo } from "react";
+import { useSearchParams } from "next/navigation";
 import { createClient } from "@/lib/supabase/client";
 import { useUserStore } from "@/stores/user-store";
 import { useEPBShellStore } from "@/stores/epb-shell-store";
+import { useOPBShellStore, type OfficerInfo } from "@/stores/opb-shell-store";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -23,7 +25,7 @@ import { Separator } from "@/components/ui/separator";
 import { Label } from "@/components/ui/label";
 import { toast } from "@/components/ui/sonner";
 import { scanStatementText, getScanSummary } from "@/lib/sensitive-data-scanner";
-import { AI_MODELS, STANDARD_MGAS, getActiveCycleYear, getCyclePeriodForYear, isOfficer, isEnlisted, isCivilian, isPriorCycleShell } from "@/lib/constants";
+import { AI_MODELS, OPB_MPA_DESCRIPTIONS, STANDARD_MGAS, getActiveCycleYear, getCycleCloseoutTitle, getCyclePeriodForYear, getCyclePeriodOverride, isOfficer, isEnlisted, isCivilian, isPriorCycleShell } from "@/lib/constants";
 import { CyclePeriodLabel } from "@/components/evaluation/cycle-period-label";
 import { ModelSelector } from "@/components/model-selector";
 import {
@@ -37,6 +39,7 @@ import {
   User,
   UserPlus,
   Shield,
+  GraduationCap,
   Settings2,
   ChevronDown,
   ChevronUp,
@@ -55,6 +58,7 @@ import { MpaDescriptionPanel } from "@/components/epb/mpa-description-editor";
 import { getEpbZenChromeClassName, handleEpbZenPointerDown } from "@/components/epb/epb-zen-mode";
 import { EPBShellShareDialog } from "@/components/epb/epb-shell-share-dialog";
 import { OPBShellForm } from "@/components/opb/opb-shell-form";
+import { OPBShellShareDialog } from "@/components/opb/opb-shell-share-dialog";
 import { CreateReviewLinkDialog } from "@/components/review/create-review-link-dialog";
 import { ReviewLinksManager } from "@/components/review/review-links-manager";
 import { FeedbackListDialog } from "@/components/feedback/feedback-list-dialog";
@@ -65,12 +69,21 @@ import { MemberRankInsignia } from "@/components/rank/rank-insignia";
 export default function GeneratePage() {
   const { profile, subordinates, managedMembers } = useUserStore();
   const { selectedRatee, setSelectedRatee, currentShell, setCurrentShell, sections: shellSections, updateSection, resetShellData, zenModeMpaKey } = useEPBShellStore();
+  const opbShell = useOPBShellStore((state) => state.currentShell);
+  const opbSections = useOPBShellStore((state) => state.sections);
+  const setOpbCurrentShell = useOPBShellStore((state) => state.setCurrentShell);
+  const updateOpbSection = useOPBShellStore((state) => state.updateSection);
+  const updateOpbSectionState = useOPBShellStore((state) => state.updateSectionState);
+  const searchParams = useSearchParams();
   
   const [selectedModel, setSelectedModel] = useState<string>(() =>
     getStoredModelPreference(EPB_MODEL_PREFERENCE_STORAGE_KEY),
   );
   const [writingStyle, setWritingStyle] = useState<WritingStyle>("personal");
   const [hasChain, setHasChain] = useState(false); // Whether user has a supervisor chain
+  // Personas from mentors who reviewed this user's work (null until loaded)
+  const [mentorPersonas, setMentorPersonas] = useState<{ id: string; display_name: string }[] | null>(null);
+  const [mentorPersonaId, setMentorPersonaId] = useState<string | null>(null);
   const [communityMpaFilter, setCommunityMpaFilter] = useState<string>("all");
   const [communityAfscFilter, setCommunityAfscFilter] = useState<string>("my-afsc");
   const [availableAfscs, setAvailableAfscs] = useState<string[]>([]);
@@ -83,8 +96,11 @@ export default function GeneratePage() {
   const [selectedFeedbackSessionId, setSelectedFeedbackSessionId] = useState<string | null>(null);
   const [feedbackBadgeRefreshKey, setFeedbackBadgeRefreshKey] = useState(0);
   
-  // Officer workspace mode: "opb" for personal OPB, "epb" for team EPBs
+  // Officer workspace mode: "opb" for own/team OPBs, "epb" for team EPBs
   const [officerWorkspaceMode, setOfficerWorkspaceMode] = useState<"opb" | "epb">("epb");
+  // Officer OPB picker: "self", a subordinate profile id, or "managed:<team_member_id>"
+  const [opbRateeValue, setOpbRateeValue] = useState("self");
+  const [showOpbShareDialog, setShowOpbShareDialog] = useState(false);
 
   // Accomplishment data for EPB shell form
   const [accomplishments, setAccomplishments] = useState<Accomplishment[]>([]);
@@ -118,32 +134,101 @@ export default function GeneratePage() {
     !userIsOfficer ||
     (userIsOfficer && officerWorkspaceMode === "epb");
 
+  // Officers write OPBs for themselves and for subordinate officers / managed members
+  const opbRateeOptions = useMemo(() => {
+    if (!userIsOfficer || !profile) return [];
+    return [
+      {
+        value: "self",
+        label: `Myself (${profile.rank} ${profile.full_name})`,
+        group: "self" as const,
+        ratee: {
+          id: profile.id,
+          fullName: profile.full_name,
+          rank: profile.rank,
+          afsc: profile.afsc,
+          isManagedMember: false,
+        } satisfies OfficerInfo,
+      },
+      ...subordinates
+        .filter((sub) => isOfficer(sub.rank))
+        .map((sub) => ({
+          value: sub.id,
+          label: `${sub.rank} ${sub.full_name}`,
+          group: "team" as const,
+          ratee: {
+            id: sub.id,
+            fullName: sub.full_name,
+            rank: sub.rank,
+            afsc: sub.afsc,
+            isManagedMember: false,
+          } satisfies OfficerInfo,
+        })),
+      ...managedMembers
+        .filter((member) => isOfficer(member.rank))
+        .map((member) => ({
+          value: `managed:${member.id}`,
+          label: `${member.rank} ${member.full_name}`,
+          group: "managed" as const,
+          ratee: {
+            id: member.id,
+            fullName: member.full_name,
+            rank: member.rank,
+            afsc: member.afsc,
+            isManagedMember: true,
+          } satisfies OfficerInfo,
+        })),
+    ];
+  }, [userIsOfficer, profile, subordinates, managedMembers]);
+
+  const opbRatee = useMemo((): OfficerInfo | null => {
+    if (userIsCivilian) {
+      return selectedRatee && selectedRateeIsOfficer
+        ? { ...selectedRatee, rank: selectedRatee.rank as Rank | null }
+        : null;
+    }
+    const option =
+      opbRateeOptions.find((o) => o.value === opbRateeValue) ?? opbRateeOptions[0];
+    return option?.ratee ?? null;
+  }, [userIsCivilian, selectedRatee, selectedRateeIsOfficer, opbRateeOptions, opbRateeValue]);
+
   const rateeRankForCycle = useMemo((): Rank | null => {
     if (userIsOfficer && officerWorkspaceMode === "opb") {
-      return profile?.rank ?? null;
+      return opbRatee?.rank ?? profile?.rank ?? null;
     }
     if (userIsCivilian && selectedRatee?.rank) {
       return selectedRatee.rank as Rank;
     }
     return (selectedRatee?.rank ?? profile?.rank ?? null) as Rank | null;
-  }, [userIsOfficer, userIsCivilian, officerWorkspaceMode, selectedRatee?.rank, profile?.rank]);
+  }, [userIsOfficer, userIsCivilian, officerWorkspaceMode, opbRatee?.rank, selectedRatee?.rank, profile?.rank]);
+
+  // Custom evaluation period (ANG/AFR cycle, CRO) of the same member the cycle rank comes from
+  const cycleOverride = useMemo(() => {
+    const ratee = userIsOfficer && officerWorkspaceMode === "opb" ? opbRatee : selectedRatee;
+    if (!ratee || ratee.id === profile?.id) return getCyclePeriodOverride(profile);
+    return getCyclePeriodOverride(
+      ratee.isManagedMember
+        ? managedMembers.find((m) => m.id === ratee.id)
+        : subordinates.find((s) => s.id === ratee.id)
+    );
+  }, [userIsOfficer, officerWorkspaceMode, opbRatee, selectedRatee, profile, managedMembers, subordinates]);
 
   const cycleYear = useMemo(
-    () => getActiveCycleYear(rateeRankForCycle),
-    [rateeRankForCycle],
+    () => getActiveCycleYear(rateeRankForCycle, cycleOverride),
+    [rateeRankForCycle, cycleOverride],
   );
 
   const workspaceCycleYear = currentShell?.cycle_year ?? cycleYear;
 
   const workspaceCyclePeriod = useMemo(
-    () => getCyclePeriodForYear(rateeRankForCycle, workspaceCycleYear),
-    [rateeRankForCycle, workspaceCycleYear],
+    () => getCyclePeriodForYear(rateeRankForCycle, workspaceCycleYear, cycleOverride),
+    [rateeRankForCycle, workspaceCycleYear, cycleOverride],
   );
 
   const showPriorCycleBadge =
     currentShell &&
     rateeRankForCycle &&
-    isPriorCycleShell(currentShell.cycle_year, rateeRankForCycle);
+    isPriorCycleShell(currentShell.cycle_year, rateeRankForCycle, cycleOverride);
 
   const selectedRateeStorageKey = profile ? `epb-selected-ratee-${profile.id}` : null;
 
@@ -236,12 +321,43 @@ export default function GeneratePage() {
 
   // Get display name for the page title
   const getMemberDisplayName = () => {
-    if (!selectedRatee) return "";
-    const rank = selectedRatee.rank || "";
-    const name = selectedRatee.fullName || "";
+    const member = showOpbWorkspace ? opbRatee : selectedRatee;
+    if (!member) return "";
+    const rank = member.rank || "";
+    const name = member.fullName || "";
     return `${rank} ${name}`.trim();
   };
 
+  // Notification deep link: /generate?feedback=<feedback session id> opens that review
+  const feedbackParam = searchParams.get("feedback");
+  const hasWorkspaceShell = !!(currentShell || opbShell);
+  useEffect(() => {
+    if (!feedbackParam || !hasWorkspaceShell) return;
+    setSelectedFeedbackSessionId(feedbackParam);
+    setShowFeedbackViewerDialog(true);
+  }, [feedbackParam, hasWorkspaceShell]);
+
+  // Deep link from the team page: /generate?opb=<profile id | managed:<team_member_id>>
+  const opbParam = searchParams.get("opb");
+  useEffect(() => {
+    if (!opbParam || !profile) return;
+    if (userIsOfficer) {
+      if (opbRateeOptions.some((o) => o.value === opbParam)) {
+        setOfficerWorkspaceMode("opb");
+        setOpbRateeValue(opbParam);
+      }
+      return;
+    }
+    if (userIsCivilian) {
+      const option = rateeOptions.find((o) => o.value === opbParam);
+      if (option) {
+        setSelectedRatee(option.ratee as Parameters<typeof setSelectedRatee>[0]);
+      }
+    }
+    // Only react to the link itself, not to later picker changes
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [opbParam, profile?.id, userIsOfficer, userIsCivilian, opbRateeOptions.length, rateeOptions.length]);
+
   // Load user's writing style preference
   useEffect(() => {
     if (profile?.writing_style) {
@@ -249,11 +365,39 @@ export default function GeneratePage() {
       // If user had chain_of_command saved but no chain exists, fall back to personal
       if (saved === "chain_of_command" && !hasChain) {
         setWritingStyle("personal");
+      } else if (saved === "mentor") {
+        // Wait for personas; fall back to personal if the mentor revoked theirs
+        if (!mentorPersonas) return;
+        const savedPersonaId = profile.writing_mentor_persona_id;
+        if (savedPersonaId && mentorPersonas.some((p) => p.id === savedPersonaId)) {
+          setMentorPersonaId(savedPersonaId);
+          setWritingStyle("mentor");
+        } else {
+          setWritingStyle("personal");
+        }
       } else {
         setWritingStyle(saved);
       }
     }
-  }, [profile, hasChain]);
+  }, [profile, hasChain, mentorPersonas]);
+
+  // Load mentor personas this user may write with (RLS limits to mentors who reviewed their work)
+  useEffect(() => {
+    if (!profile) return;
+
+    const controller = new AbortController();
+    void (async () => {
+      const { data, error } = await supabase
+        .from("mentor_personas" as never)
+        .select("id, display_name")
+        .order("display_name")
+        .abortSignal(controller.signal);
+
+      if (controller.signal.aborted) return;
+      setMentorPersonas(error ? [] : ((data || []) as { id: string; display_name: string }[]));
+    })();
+    return () => controller.abort();
+  }, [profile, supabase]);
 
   // Check if user has a supervision chain (any supervisor above them)
   useEffect(() => {
@@ -342,17 +486,29 @@ export default function GeneratePage() {
     return () => controller.abort();
   }, [selectedRatee, profile, currentShell?.cycle_year, cycleYear, supabase]);
 
-  async function updateWritingStyle(style: WritingStyle) {
+  async function updateWritingStyle(style: WritingStyle, personaId: string | null = null) {
     if (!profile) return;
     
     setWritingStyle(style);
+    setMentorPersonaId(personaId);
     
     await supabase
       .from("profiles")
-      .update({ writing_style: style } as never)
+      .update({ writing_style: style, writing_mentor_persona_id: personaId } as never)
       .eq("id", profile.id);
   }
 
+  function handleWritingStyleChange(value: string) {
+    if (value.startsWith("mentor:")) {
+      void updateWritingStyle("mentor", value.slice("mentor:".length));
+    } else {
+      void updateWritingStyle(value as WritingStyle);
+    }
+  }
+
+  const selectedMentorPersona =
+    writingStyle === "mentor" ? mentorPersonas?.find((p) => p.id === mentorPersonaId) ?? null : null;
+
   // Handle applying a mentor suggestion to the EPB
   const handleApplySuggestion = useCallback(async (sectionKey: string, newText: string) => {
     if (!profile || !currentShell) return;
@@ -413,6 +569,67 @@ export default function GeneratePage() {
     }
   }, [profile, currentShell, shellSections, supabase, setCurrentShell, updateSection]);
 
+  // Handle applying a mentor suggestion to the OPB
+  const handleApplyOpbSuggestion = useCallback(async (sectionKey: string, newText: string) => {
+    if (!profile || !opbShell) return;
+
+    const matches = scanStatementText(newText);
+    if (matches.length > 0) {
+      toast.error(getScanSummary(matches), { duration: 10000 });
+      return;
+    }
+
+    try {
+      if (sectionKey === "duty_description") {
+        const { error } = await supabase
+          .from("opb_shells")
+          .update({
+            duty_description: newText,
+            updated_at: new Date().toISOString(),
+          } as never)
+          .eq("id", opbShell.id);
+
+        if (error) throw error;
+
+        setOpbCurrentShell({
+          ...opbShell,
+          duty_description: newText,
+          sections: Object.values(opbSections),
+        });
+        toast.success("Duty description updated from suggestion");
+      } else {
+        const section = opbSections[sectionKey];
+        if (!section) {
+          toast.error("Section not found");
+          return;
+        }
+
+        const { error } = await supabase
+          .from("opb_shell_sections")
+          .update({
+            statement_text: newText,
+            last_edited_by: profile.id,
+            updated_at: new Date().toISOString(),
+          } as never)
+          .eq("id", section.id);
+
+        if (error) throw error;
+
+        updateOpbSection(sectionKey, {
+          statement_text: newText,
+          last_edited_by: profile.id,
+          updated_at: new Date().toISOString(),
+        });
+        // Section cards render from their draft, so keep it in step
+        updateOpbSectionState(sectionKey, { draftText: newText, isDirty: false });
+        toast.success("Statement updated from suggestion");
+      }
+    } catch (error) {
+      console.error("Apply suggestion error:", error);
+      toast.error("Failed to apply suggestion");
+    }
+  }, [profile, opbShell, opbSections, supabase, setOpbCurrentShell, updateOpbSection, updateOpbSectionState]);
+
   const selectedModelInfo = AI_MODELS.find((m) => m.id === selectedModel);
   const handleModelSelectionChange = useCallback((model: string) => {
     setSelectedModel(model);
@@ -490,7 +707,7 @@ export default function GeneratePage() {
                 )}
               >
                 <User className="size-3.5" />
-                My OPB
+                {opbRateeOptions.length > 1 ? "OPBs" : "My OPB"}
                 <span className="text-[9px] px-1 py-0.5 rounded bg-blue-200 dark:bg-blue-800 text-blue-700 dark:text-blue-300 font-semibold">
                   BETA
                 </span>
@@ -510,6 +727,36 @@ export default function GeneratePage() {
               </button>
             </div>
           )}
+          {opbShell && showOpbWorkspace && (
+            <>
+              <FeedbackBadge
+                shellType="opb"
+                shellId={opbShell.id}
+                onClick={() => setShowFeedbackListDialog(true)}
+                refreshKey={feedbackBadgeRefreshKey}
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowLinksManager(true)}
+                className="h-8 px-3 shrink-0"
+                title="Manage Review Links"
+              >
+                <MessageSquareText className="size-4" />
+                <span className="hidden sm:inline ml-1.5">Get Feedback</span>
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowOpbShareDialog(true)}
+                className="h-8 px-3 shrink-0"
+                title="Share OPB"
+              >
+                <Share2 className="size-4" />
+                <span className="hidden sm:inline ml-1.5">Share</span>
+              </Button>
+            </>
+          )}
           {currentShell && showEpbWorkspace && (
             <>
               <FeedbackBadge
@@ -563,6 +810,40 @@ export default function GeneratePage() {
         </Card>
       )}
 
+      {userIsOfficer && officerWorkspaceMode === "opb" && opbRateeOptions.length > 1 && (
+        <Card className="bg-muted/30 overflow-hidden">
+          <CardContent className="py-3 sm:py-4 px-4 sm:px-6">
+            <div className="flex flex-col gap-2 md:flex-row md:items-center md:gap-4">
+              <span className="text-xs sm:text-sm text-muted-foreground shrink-0">
+                Viewing OPB for:
+              </span>
+              <Select
+                value={opbRateeOptions.some((o) => o.value === opbRateeValue) ? opbRateeValue : "self"}
+                onValueChange={setOpbRateeValue}
+              >
+                <SelectTrigger className="bg-background h-8 sm:h-9 text-xs sm:text-sm w-full max-w-full min-w-0 sm:w-auto sm:max-w-[240px] md:max-w-sm">
+                  <SelectValue placeholder="Select officer..." />
+                </SelectTrigger>
+                <SelectContent>
+                  {opbRateeOptions.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      <span className="flex items-center gap-2">
+                        {option.group === "team" ? (
+                          <Users className="size-4" />
+                        ) : (
+                          <User className={cn("size-4", option.group === "managed" && "opacity-60")} />
+                        )}
+                        {option.label}
+                      </span>
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {userIsOfficer && officerWorkspaceMode === "epb" && (
         <Card className="border-blue-200 dark:border-blue-800 bg-blue-50/50 dark:bg-blue-900/20">
           <CardContent className="py-4">
@@ -635,6 +916,92 @@ export default function GeneratePage() {
         />
       )}
 
+      {opbShell && showOpbWorkspace && (
+        <OPBShellShareDialog
+          shellId={opbShell.id}
+          isOpen={showOpbShareDialog}
+          onClose={() => setShowOpbShareDialog(false)}
+          ratee={opbRatee}
+        />
+      )}
+
+      {/* OPB mentor review links and feedback */}
+      {opbShell && showOpbWorkspace && (
+        <>
+          <ReviewLinksManager
+            open={showLinksManager}
+            onOpenChange={setShowLinksManager}
+            shellType="opb"
+            shellId={opbShell.id}
+            onCreateNew={() => {
+              setShowLinksManager(false);
+              setShowReviewLinkDialog(true);
+            }}
+          />
+          <CreateReviewLinkDialog
+            open={showReviewLinkDialog}
+            onOpenChange={setShowReviewLinkDialog}
+            shellType="opb"
+            shellId={opbShell.id}
+            rateeName={opbRatee?.fullName || profile?.full_name || "Unknown"}
+            rateeRank={opbRatee?.rank || profile?.rank || undefined}
+            contentSnapshot={{
+              description: opbShell.duty_description || undefined,
+              cycleYear: opbShell.cycle_year,
+              sections: Object.values(opbSections).map((s) => ({
+                key: s.mpa,
+                label: OPB_MPA_DESCRIPTIONS[s.mpa]?.title || s.mpa,
+                content: s.statement_text,
+              })),
+              // Same shape get_opb_shell_for_review reads back
+              _rawForApi: {
+                duty_description: opbShell.duty_description || null,
+                cycle_year: opbShell.cycle_year,
+                sections: Object.values(opbSections).map((s) => ({
+                  mpa: s.mpa,
+                  statement_text: s.statement_text,
+                })),
+              },
+            }}
+          />
+          <FeedbackListDialog
+            open={showFeedbackListDialog}
+            onOpenChange={setShowFeedbackListDialog}
+            shellType="opb"
+            shellId={opbShell.id}
+            onViewSession={(sessionId) => {
+              setSelectedFeedbackSessionId(sessionId);
+              setShowFeedbackListDialog(false);
+              setShowFeedbackViewerDialog(true);
+            }}
+          />
+          <FeedbackViewerDialog
+            open={showFeedbackViewerDialog}
+            onOpenChange={(open) => {
+              setShowFeedbackViewerDialog(open);
+              if (!open) {
+                setFeedbackBadgeRefreshKey(k => k + 1);
+              }
+            }}
+            sessionId={selectedFeedbackSessionId}
+            shellType="opb"
+            shellId={opbShell.id}
+            onBack={() => {
+              setShowFeedbackViewerDialog(false);
+              setShowFeedbackListDialog(true);
+              setFeedbackBadgeRefreshKey(k => k + 1);
+            }}
+            onApplySuggestion={handleApplyOpbSuggestion}
+            getCurrentText={(sectionKey) => {
+              if (sectionKey === "duty_description") {
+                return opbShell.duty_description || "";
+              }
+              return opbSections[sectionKey]?.statement_text || "";
+            }}
+          />
+        </>
+      )}
+
       {/* Review Links Manager */}
       {currentShell && showEpbWorkspace && (
         <ReviewLinksManager
@@ -826,6 +1193,7 @@ export default function GeneratePage() {
                     <CyclePeriodLabel
                       rank={rateeRankForCycle}
                       cycleYear={currentShell ? currentShell.cycle_year : undefined}
+                      override={cycleOverride}
                       className="truncate"
                     />
                   </Badge>
@@ -863,7 +1231,11 @@ export default function GeneratePage() {
                     <CardTitle className="text-base">AI Configuration</CardTitle>
                     {!configOpen && (
                       <p className="text-xs text-muted-foreground mt-0.5">
-                        {selectedModelInfo?.name} • {writingStyle === "chain_of_command" ? "chain of command" : writingStyle} style
+                        {selectedModelInfo?.name} • {writingStyle === "chain_of_command"
+                          ? "chain of command style"
+                          : selectedMentorPersona
+                            ? `${selectedMentorPersona.display_name} mentor style`
+                            : `${writingStyle} style`}
                       </p>
                     )}
                   </div>
@@ -892,7 +1264,10 @@ export default function GeneratePage() {
                 {/* Writing Style */}
                 <div className="space-y-2">
                   <Label>Writing Style</Label>
-                  <Select value={writingStyle} onValueChange={(v) => updateWritingStyle(v as WritingStyle)}>
+                  <Select
+                    value={writingStyle === "mentor" && mentorPersonaId ? `mentor:${mentorPersonaId}` : writingStyle}
+                    onValueChange={handleWritingStyleChange}
+                  >
                     <SelectTrigger aria-label="Select writing style">
                       <SelectValue />
                     </SelectTrigger>
@@ -917,6 +1292,14 @@ export default function GeneratePage() {
                           </div>
                         </SelectItem>
                       )}
+                      {mentorPersonas?.map((persona) => (
+                        <SelectItem key={persona.id} value={`mentor:${persona.id}`}>
+                          <div className="flex items-center gap-2">
+                            <GraduationCap className="size-4" />
+                            <span className="truncate">Mentor: {persona.display_name}</span>
+                          </div>
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -924,16 +1307,17 @@ export default function GeneratePage() {
                 {/* Evaluation period (ratee SCOD window) */}
                 <div className="space-y-2 sm:col-span-1">
                   <Label>
-                    {currentShell ? "EPB Evaluation Period" : "Current SCOD Window"}
+                    {currentShell ? "EPB Evaluation Period" : cycleOverride ? "Current Evaluation Period" : "Current SCOD Window"}
                   </Label>
                   <div className="min-h-9 px-3 py-2 rounded-md border bg-muted/50 text-xs sm:text-sm leading-snug">
                     <CyclePeriodLabel
                       rank={rateeRankForCycle}
                       cycleYear={currentShell ? currentShell.cycle_year : undefined}
+                      override={cycleOverride}
                     />
                     {workspaceCyclePeriod && (
                       <p className="text-muted-foreground text-[10px] sm:text-xs mt-0.5">
-                        SCOD: {workspaceCyclePeriod.closeoutLabel}
+                        {getCycleCloseoutTitle(workspaceCyclePeriod)}
                         {showPriorCycleBadge && " · archive when finished to start the next period"}
                       </p>
                     )}
@@ -961,6 +1345,12 @@ export default function GeneratePage() {
                     <span><strong>Chain of Command:</strong> Generates statements matching the writing style of the highest-ranking member in your supervision chain. Reduces corrections during the routing process.</span>
                   </p>
                 )}
+                {selectedMentorPersona && (
+                  <p className="flex items-start gap-1.5">
+                    <GraduationCap className="size-4 shrink-0 mt-0.5" />
+                    <span><strong>Mentor Style:</strong> Writes the way {selectedMentorPersona.display_name} edits statements, learned from the review feedback you accepted from them. Your own statements still supply the examples.</span>
+                  </p>
+                )}
               </div>
 
               {/* Community Filters - only show when using community style */}
@@ -1020,11 +1410,12 @@ export default function GeneratePage() {
 
       </div>
 
-      {/* OPB Shell Form - officers (self) or civilians (officer ratees) */}
+      {/* OPB Shell Form - officers (self or officer team members) or civilians (officer ratees) */}
       {profile && showOpbWorkspace && (
         <OPBShellForm
           cycleYear={cycleYear}
           model={selectedModel}
+          ratee={opbRatee}
         />
       )}
 
@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useEffect, useCallback, useMemo } from "react";
+import { useSearchParams } from "next/navigation";
 import { createClient } from "@/lib/supabase/client";
 import { useUserStore } from "@/stores/user-store";
 import { Button } from "@/components/ui/button";
@@ -71,6 +72,8 @@ interface ArchivedEPBOption {
 
 export default function LibraryPage() {
   const { profile } = useUserStore();
+  // ?q= and ?archived= prefill the filters (links from workspace search)
+  const searchParams = useSearchParams();
   const [activeTab, setActiveTab] = useState<"my" | "shared" | "community">("my");
   const [myStatements, setMyStatements] = useState<RefinedStatement[]>([]);
   const [myStatementShares, setMyStatementShares] = useState<Record<string, StatementShare[]>>({});
@@ -120,6 +123,15 @@ export default function LibraryPage() {
   // Combine statements dialog
   const [isCombineDialogOpen, setIsCombineDialogOpen] = useState(false);
 
+  useEffect(() => {
+    const q = searchParams.get("q");
+    const archived = searchParams.get("archived");
+    if (q === null && archived === null) return;
+    setActiveTab("my");
+    setSearchQuery(q ?? "");
+    setFilterArchivedEPB(archived ?? "all");
+  }, [searchParams]);
+
   const supabase = createClient();
   const mgas = STANDARD_MGAS;
   // Always use hardcoded MAX_STATEMENT_CHARACTERS - user settings deprecated
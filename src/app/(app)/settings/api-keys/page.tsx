@@ -1,4 +1,5 @@
 import { getModelCatalogForSettings } from "@/app/actions/ai-models";
+import { getLocalEndpointSettings } from "@/app/actions/api-keys";
 import { ModelSettingsForm } from "@/components/settings/model-settings-form";
 import { redirect } from "next/navigation";
 import { createClient } from "@/lib/supabase/server";
@@ -13,9 +14,10 @@ export default async function APIKeysPage() {
     redirect("/login");
   }
 
-  const [{ data: profile }, data] = await Promise.all([
+  const [{ data: profile }, data, localEndpoint] = await Promise.all([
     supabase.from("profiles").select("role").eq("id", user.id).maybeSingle(),
     getModelCatalogForSettings(),
+    getLocalEndpointSettings(),
   ]);
 
   const isAdmin = (profile as { role: string } | null)?.role === "admin";
@@ -28,6 +30,7 @@ export default async function APIKeysPage() {
       initialAvailableModels={data.availableModels}
       initialCatalogSyncedAt={data.catalogSyncedAt}
       initialKeyStatus={data.keyStatus}
+      initialLocalEndpoint={localEndpoint}
     />
   );
 }
@@ -87,12 +87,14 @@ import {
   Sparkles,
 } from "lucide-react";
 import type { UserLLMSettings, Acronym, Abbreviation, RankVerbProgression, MPADescriptions, Rank } from "@/types/database";
-import { STANDARD_MGAS, DEFAULT_AWARD_SENTENCES, DEFAULT_MPA_DESCRIPTIONS, ENTRY_MGAS, getStaticCloseoutDate, getActiveCycleYear, getActiveCyclePeriod, isOfficer, isCivilian, ENLISTED_RANKS, OFFICER_RANKS, DEFAULT_OPB_SYSTEM_PROMPT, DEFAULT_OPB_STYLE_GUIDELINES } from "@/lib/constants";
+import { STANDARD_MGAS, DEFAULT_AWARD_SENTENCES, DEFAULT_MPA_DESCRIPTIONS, ENTRY_MGAS, getStaticCloseoutDate, getActiveCycleYear, getActiveCyclePeriod, getCyclePeriodOverride, isOfficer, isCivilian, ENLISTED_RANKS, OFFICER_RANKS, DEFAULT_OPB_SYSTEM_PROMPT, DEFAULT_OPB_STYLE_GUIDELINES } from "@/lib/constants";
 import { CyclePeriodLabel } from "@/components/evaluation/cycle-period-label";
 import Link from "next/link";
 import { Award, Medal } from "lucide-react";
 import { usePromptRulesMode } from "@/lib/feature-flags";
 import { PromptRulesManager } from "@/components/settings/prompt-rules-manager";
+import { PromptRulePacksManager } from "@/components/settings/prompt-rule-packs-manager";
+import { MentorPersonaSection } from "@/components/settings/mentor-persona-section";
 import { PROMPT_RULE_CONTEXT_DESCRIPTIONS } from "@/lib/prompt-rules/constants";
 
 // Default award system prompt (AF Form 1206)
@@ -751,11 +753,13 @@ export default function LLMSettingsPage() {
 
   // SCOD date and cycle year are computed from the user's rank
   // These are standardized by AFI and should not be manually configured
+  // A custom evaluation period (ANG/AFR cycle, CRO) from profile settings replaces the SCOD
   const userRank = profile?.rank as Rank | null;
-  const scodInfo = getStaticCloseoutDate(userRank);
+  const cycleOverride = getCyclePeriodOverride(profile);
+  const scodInfo = getStaticCloseoutDate(userRank, cycleOverride);
   const computedScodDate = scodInfo?.label || null;
-  const computedCycleYear = getActiveCycleYear(userRank);
-  const computedCyclePeriod = getActiveCyclePeriod(userRank);
+  const computedCycleYear = getActiveCycleYear(userRank, cycleOverride);
+  const computedCyclePeriod = getActiveCyclePeriod(userRank, cycleOverride);
   
   // Check if user is an officer (ACA rubrics don't apply to officers)
   const userIsOfficer = isOfficer(userRank);
@@ -1252,10 +1256,12 @@ export default function LLMSettingsPage() {
                   <div className="space-y-1.5">
                     <Label className="text-xs sm:text-sm">Evaluation Period</Label>
                     <div className="flex items-center min-h-9 px-3 py-2 rounded-md border bg-muted/50">
-                      <CyclePeriodLabel rank={userRank} className="text-sm font-medium" />
+                      <CyclePeriodLabel rank={userRank} override={cycleOverride} className="text-sm font-medium" />
                     </div>
                     <p className="text-[10px] sm:text-xs text-muted-foreground">
-                      {computedCyclePeriod
+                      {computedCyclePeriod?.overrideReason
+                        ? `Custom period ending ${computedCyclePeriod.closeoutLabel} (set in Profile Settings)`
+                        : computedCyclePeriod
                         ? `Approximately 365 days ending ${computedCyclePeriod.closeoutLabel}`
                         : "Set your rank to see your evaluation period"}
                     </p>
@@ -1364,9 +1370,18 @@ export default function LLMSettingsPage() {
                 </Button>
               </div>
 
+              <Separator />
+
+              <MentorPersonaSection />
+
             
             </CardContent>
           </Card>
+          {usePromptRulesModeEnabled && (
+            <div className="mt-4">
+              <PromptRulePacksManager />
+            </div>
+          )}
         </TabsContent>
 
         {/* EPB System Prompt / Rules */}
@@ -23,19 +23,23 @@ import {
 import { AvatarCropDialog } from "@/components/settings/avatar-crop-dialog";
 import { toast } from "@/components/ui/sonner";
 import { Analytics } from "@/lib/analytics";
+import { DataExportSection } from "@/components/settings/data-export-section";
 import { DeleteAccountSection } from "@/components/settings/delete-account-section";
 import { EmailPreferencesCard } from "@/components/settings/email-preferences-card";
+import { NotificationSettingsCard } from "@/components/settings/notification-settings-card";
+import { EvaluationPeriodCard } from "@/components/settings/evaluation-period-card";
 import { ProfileAvatar } from "@/components/profile/profile-avatar";
 import { RankInsignia } from "@/components/rank/rank-insignia";
 import { 
-  ENLISTED_RANKS,
-  OFFICER_RANKS,
   CIVILIAN_RANK,
+  getCyclePeriodOverride,
+  getEvaluationPeriodShortLabel,
   getStaticCloseoutDate, 
   getDaysUntilCloseout, 
   getCycleProgress,
   RANK_TO_TIER,
-  isOfficer 
+  isOfficer,
+  type CyclePeriodOverride,
 } from "@/lib/constants";
 import { Loader2, User, Calendar, Clock, Camera, X, RotateCcw, Smartphone, CheckCircle2, Link as LinkIcon, Mail, Medal } from "lucide-react";
 import {
@@ -47,13 +51,19 @@ import { Progress } from "@/components/ui/progress";
 import { PhoneInput } from "@/components/ui/phone-input";
 import { formatLongMonthDay } from "@/lib/format";
 import { hasRankInsignia } from "@/lib/rank-insignia";
+import {
+  DEFAULT_SERVICE,
+  SERVICE_OPTIONS,
+  getServiceProfile,
+  isRankInService,
+} from "@/lib/service-profiles";
 import {
   getStorageAvatarPath,
   isRankInsigniaAvatar,
   isStorageAvatarUrl,
   RANK_INSIGNIA_AVATAR_URL,
 } from "@/lib/profile-avatar";
-import type { Rank, Profile } from "@/types/database";
+import type { Rank, Profile, ServiceBranch } from "@/types/database";
 
 export default function SettingsPage() {
   const { profile, setProfile } = useUserStore();
@@ -67,9 +77,11 @@ export default function SettingsPage() {
     first_name: "",
     last_name: "",
     rank: "" as Rank | "",
+    service: DEFAULT_SERVICE as ServiceBranch,
     afsc: "",
     unit: "",
   });
+  const serviceProfile = getServiceProfile(form.service);
 
   // Phone number management state
   const [userPhone, setUserPhone] = useState<string | null>(null);
@@ -113,7 +125,9 @@ export default function SettingsPage() {
     (hasCustomUploadAvatar ||
       isRankInsigniaAvatar(profile?.avatar_url) ||
       !profile?.avatar_url);
-  const canUseRankInsignia = hasRankInsignia(profile?.rank);
+  // Insignia assets are Air Force stripes
+  const canUseRankInsignia =
+    hasRankInsignia(profile?.rank) && getServiceProfile(profile?.service).key === "usaf";
   const isUsingRankInsignia = isRankInsigniaAvatar(profile?.avatar_url);
 
   // When user selects a file, show the crop dialog
@@ -335,6 +349,7 @@ export default function SettingsPage() {
         first_name: profile.first_name || "",
         last_name: profile.last_name || "",
         rank: profile.rank || "",
+        service: getServiceProfile(profile.service).key,
         afsc: profile.afsc || "",
         unit: profile.unit || "",
       });
@@ -371,6 +386,7 @@ export default function SettingsPage() {
         last_name: string | null;
         full_name: string | null;
         rank: Rank | null;
+        service: ServiceBranch;
         afsc: string | null;
         unit: string | null;
         avatar_url?: null;
@@ -379,6 +395,7 @@ export default function SettingsPage() {
         last_name: form.last_name || null,
         full_name: fullName,
         rank: nextRank,
+        service: form.service,
         afsc: form.afsc || null,
         unit: form.unit || null,
       };
@@ -767,10 +784,37 @@ export default function SettingsPage() {
                 />
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="service">Service</Label>
+                <Select
+                  value={form.service}
+                  onValueChange={(value) => {
+                    const service = value as ServiceBranch;
+                    // Spc1-Sgt don't exist in the Air Force (and vice versa for AB-SSgt)
+                    const rank = isRankInService(form.rank, service) ? form.rank : "";
+                    setForm({ ...form, service, rank });
+                  }}
+                >
+                  <SelectTrigger id="service" aria-label="Select service">
+                    <SelectValue placeholder="Select service" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SERVICE_OPTIONS.map((s) => (
+                      <SelectItem key={s.value} value={s.value}>
+                        {s.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">
+                  Sets your rank list, MPA competencies and decoration names
+                </p>
+              </div>
+
               <div className="space-y-2">
                 <Label htmlFor="rank">Rank</Label>
                 <Select
-                  value={form.rank || profile?.rank || ""}
+                  value={form.rank}
                   onValueChange={(value) =>
                     setForm({ ...form, rank: value as Rank })
                   }
@@ -782,7 +826,7 @@ export default function SettingsPage() {
                     <div className="px-2 py-1.5 text-xs font-semibold text-muted-foreground">
                       Enlisted
                     </div>
-                    {ENLISTED_RANKS.map((r) => (
+                    {serviceProfile.enlistedRanks.map((r) => (
                       <SelectItem key={r.value} value={r.value}>
                         {r.label}
                       </SelectItem>
@@ -790,7 +834,7 @@ export default function SettingsPage() {
                     <div className="px-2 py-1.5 text-xs font-semibold text-muted-foreground border-t mt-1 pt-1">
                       Officer
                     </div>
-                    {OFFICER_RANKS.map((r) => (
+                    {serviceProfile.officerRanks.map((r) => (
                       <SelectItem key={r.value} value={r.value}>
                         {r.label}
                       </SelectItem>
@@ -810,7 +854,7 @@ export default function SettingsPage() {
 
             <div className="grid gap-4 sm:grid-cols-2">
               <div className="space-y-2">
-                <Label htmlFor="afsc">AFSC</Label>
+                <Label htmlFor="afsc">{serviceProfile.specialtyCodeLabel}</Label>
                 <Input
                   id="afsc"
                   value={form.afsc}
@@ -818,7 +862,7 @@ export default function SettingsPage() {
                     setForm({ ...form, afsc: e.target.value.toUpperCase() })
                   }
                   placeholder="1N0X1"
-                  aria-label="Air Force Specialty Code"
+                  aria-label={`${serviceProfile.name} Specialty Code`}
                 />
               </div>
 
@@ -1146,21 +1190,36 @@ export default function SettingsPage() {
       </Card>
 
       {/* EPB Close-out Date Card */}
-      <EPBCloseoutCard rank={profile?.rank || null} />
+      <EPBCloseoutCard rank={profile?.rank || null} override={getCyclePeriodOverride(profile)} />
+
+      <EvaluationPeriodCard />
 
       <EmailPreferencesCard />
 
+      <NotificationSettingsCard />
+
+      <DataExportSection />
+
       <DeleteAccountSection userEmail={userEmail} />
     </div>
   );
 }
 
 // EPB Close-out Information Card
-function EPBCloseoutCard({ rank }: { rank: Rank | null }) {
+function EPBCloseoutCard({
+  rank,
+  override,
+}: {
+  rank: Rank | null;
+  override: CyclePeriodOverride | null;
+}) {
   const tier = rank ? RANK_TO_TIER[rank] : null;
-  const closeout = getStaticCloseoutDate(rank);
-  const daysUntil = getDaysUntilCloseout(rank);
-  const cycleProgress = getCycleProgress(rank);
+  const closeout = getStaticCloseoutDate(rank, override);
+  const daysUntil = getDaysUntilCloseout(rank, override);
+  const cycleProgress = getCycleProgress(rank, override);
+  const closeoutDescription = override
+    ? `${getEvaluationPeriodShortLabel(override.reason)} close-out from your evaluation period`
+    : `Static close-out date for ${rank}`;
   
   // Calculate submission deadline (60 days before closeout)
   const submissionDeadline = closeout ? new Date(closeout.date) : null;
@@ -1224,7 +1283,7 @@ function EPBCloseoutCard({ rank }: { rank: Rank | null }) {
             <div>
               <CardTitle>OPR Close-out Date</CardTitle>
               <CardDescription>
-                Static close-out date for {rank}
+                {closeoutDescription}
               </CardDescription>
             </div>
           </div>
@@ -1307,7 +1366,7 @@ function EPBCloseoutCard({ rank }: { rank: Rank | null }) {
     );
   }
 
-  if (!rank || !tier || !closeout) {
+  if (!rank || (!tier && !override) || !closeout) {
     return (
       <Card>
         <CardHeader>
@@ -1342,7 +1401,7 @@ function EPBCloseoutCard({ rank }: { rank: Rank | null }) {
           <div>
             <CardTitle>EPB Close-out Date</CardTitle>
             <CardDescription>
-              Static close-out date for {rank}
+              {closeoutDescription}
             </CardDescription>
           </div>
         </div>
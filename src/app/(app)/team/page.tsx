@@ -78,6 +78,8 @@ import {
   Target,
   Copy,
   Mail,
+  Gauge,
+  Route,
 } from "lucide-react";
 import {
   DropdownMenu,
@@ -103,6 +105,7 @@ import { AddAwardDialog } from "@/components/team/add-award-dialog";
 import { AwardBadges } from "@/components/team/award-badges";
 import { AwardsPanel } from "@/components/team/awards-panel";
 import { AwardRequestsPanel } from "@/components/team/award-requests-panel";
+import { EPBSuspenseBoard } from "@/components/team/epb-suspense-board";
 import { MemberStatementsDialog } from "@/components/team/member-statements-dialog";
 import { EntryFormDialog } from "@/components/entries/entry-form-dialog";
 import { AddTeamAccomplishmentDialog } from "@/components/team/add-team-accomplishment-dialog";
@@ -145,7 +148,9 @@ import {
   SUPERVISOR_RANKS,
   isOfficer,
   isEnlisted,
+  isCivilian,
 } from "@/lib/constants";
+import { createOpbShell } from "@/lib/opb-shell-create";
 
 // All ranks in order for chain display (Officers first by seniority, then Enlisted)
 const RANK_ORDER = [
@@ -274,10 +279,21 @@ export default function TeamPage() {
   const [searchedProfile, setSearchedProfile] = useState<Profile | null>(null);
   const [isSearching, setIsSearching] = useState(false);
   
+  const [activeTab, setActiveTab] = useState(() =>
+    searchParams.get("tab") === "awards" ? "awards" : "chain"
+  );
+  const [focusPendingRequests, setFocusPendingRequests] = useState(false);
+
   // Handle URL query params to open modals directly
   useEffect(() => {
     const action = searchParams.get("action");
-    if (action === "add-member") {
+    if (searchParams.get("tab") === "awards") {
+      setActiveTab("awards");
+      router.replace("/team", { scroll: false });
+    } else if (action === "pending-requests") {
+      setFocusPendingRequests(true);
+      router.replace("/team", { scroll: false });
+    } else if (action === "add-member") {
       setShowAddMemberDialog(true);
       // Clear the query param
       router.replace("/team", { scroll: false });
@@ -291,6 +307,13 @@ export default function TeamPage() {
     }
   }, [searchParams, router]);
 
+  // Bell notification deep link: bring the pending requests card into view once loaded
+  useEffect(() => {
+    if (!focusPendingRequests || pendingRequests.length === 0) return;
+    document.getElementById("pending-requests")?.scrollIntoView({ behavior: "smooth", block: "start" });
+    setFocusPendingRequests(false);
+  }, [focusPendingRequests, pendingRequests.length]);
+
   // Member removal confirmation state
   const [confirmDeleteMember, setConfirmDeleteMember] = useState<{ 
     id: string; 
@@ -316,6 +339,7 @@ export default function TeamPage() {
   const [editStartDate, setEditStartDate] = useState("");
   const [editEndDate, setEditEndDate] = useState("");
   const [isSavingDates, setIsSavingDates] = useState(false);
+  const [isOpeningOpb, setIsOpeningOpb] = useState(false);
   const [subordinateStatements, setSubordinateStatements] = useState<{
     mpa: string;
     statement: string;
@@ -1516,6 +1540,38 @@ export default function TeamPage() {
     }
   }
 
+  // Officer ratees: open (or create) their OPB for the active cycle, then jump to the workspace
+  async function openSubordinateOpb() {
+    if (!selectedSubordinate || !profile) return;
+
+    setIsOpeningOpb(true);
+    try {
+      const result = await createOpbShell(supabase, {
+        ratee: {
+          id: selectedSubordinate.id,
+          isManagedMember: selectedSubordinate.isManagedMember,
+        },
+        profileId: profile.id,
+        cycleYear: getActiveCycleYear(selectedSubordinate.rank),
+      });
+
+      if (result.status === "created") {
+        toast.success(`OPB started for ${selectedSubordinate.rank || ""} ${selectedSubordinate.name}`.trim());
+      }
+
+      const opbParam = selectedSubordinate.isManagedMember
+        ? `managed:${selectedSubordinate.id}`
+        : selectedSubordinate.id;
+      setSelectedSubordinate(null);
+      router.push(`/generate?opb=${encodeURIComponent(opbParam)}`);
+    } catch (error) {
+      console.error("Error opening OPB:", error);
+      toast.error("Failed to open OPB");
+    } finally {
+      setIsOpeningOpb(false);
+    }
+  }
+
   async function saveSupervisionDates() {
     if (!selectedSubordinate) return;
     
@@ -2417,6 +2473,14 @@ export default function TeamPage() {
             <div className="flex flex-col sm:flex-row gap-2">
           {canSupervise(profile?.rank) && (
             <>
+              <Button 
+                variant="outline" 
+                className="w-full sm:w-auto shrink-0"
+                onClick={() => router.push("/team/unit")}
+              >
+                <Gauge className="size-4 mr-2" />
+                Unit Dashboard
+              </Button>
               <Button 
                 variant="outline" 
                 className="w-full sm:w-auto shrink-0"
@@ -2740,7 +2804,7 @@ export default function TeamPage() {
                 </div>
               </div>
 
-              {/* EPB Due Date */}
+              {/* EPB/OPB Due Date */}
               {selectedSubordinate?.rank && (() => {
                 const daysUntil = getDaysUntilCloseout(selectedSubordinate.rank);
                 if (daysUntil === null) return null;
@@ -2762,7 +2826,7 @@ export default function TeamPage() {
                         "text-sm font-medium",
                         isUrgent ? "text-red-700 dark:text-red-400" : isWarning ? "text-amber-700 dark:text-amber-400" : ""
                       )}>
-                        EPB Due in {daysUntil} days
+                        {isOfficer(selectedSubordinate.rank) ? "OPB" : "EPB"} Due in {daysUntil} days
                       </p>
                       <p className="text-xs text-muted-foreground">
                         Close-out: {getStaticCloseoutDate(selectedSubordinate.rank)?.label || "N/A"}
@@ -2961,6 +3025,27 @@ export default function TeamPage() {
                   </Badge>
                 </Button>
               )}
+              {/* OPB workspace — officer ratees, for officer and civilian raters */}
+              {selectedSubordinate &&
+                isOfficer(selectedSubordinate.rank) &&
+                (isOfficer(profile?.rank ?? null) || isCivilian(profile?.rank ?? null)) &&
+                (selectedSubordinate.isManagedMember
+                  ? managedMembers.some((m) => m.id === selectedSubordinate.id)
+                  : subordinates.some((s) => s.id === selectedSubordinate.id)) && (
+                <Button
+                  variant="outline"
+                  className="w-full sm:w-auto gap-2"
+                  onClick={() => void openSubordinateOpb()}
+                  disabled={isOpeningOpb}
+                >
+                  {isOpeningOpb ? (
+                    <Loader2 className="size-4 animate-spin" />
+                  ) : (
+                    <FileText className="size-4" />
+                  )}
+                  Open OPB
+                </Button>
+              )}
               <Button variant="outline" onClick={() => setSelectedSubordinate(null)}>
                 Cancel
               </Button>
@@ -2981,7 +3066,7 @@ export default function TeamPage() {
 
       {/* Pending Requests */}
       {pendingRequests.length > 0 && (
-        <Card className="border-amber-300 dark:border-amber-600/50 bg-amber-50/50 dark:bg-amber-900/10">
+        <Card id="pending-requests" className="scroll-mt-20 border-amber-300 dark:border-amber-600/50 bg-amber-50/50 dark:bg-amber-900/10">
           <CardHeader className="p-4 sm:p-6">
             <CardTitle className="flex items-center gap-2 text-amber-700 dark:text-amber-400 text-base sm:text-lg">
               <Clock className="size-4 sm:size-5 shrink-0" />
@@ -3083,7 +3168,7 @@ export default function TeamPage() {
         </div>
       </div> */}
 
-      <Tabs defaultValue="chain" className="w-full">
+      <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
         <TabsList className="w-full h-auto flex flex-wrap justify-start gap-1 p-1 bg-muted/50">
           <TabsTrigger value="chain" className="gap-1 text-[10px] sm:text-xs px-2 sm:px-3 py-1.5">
             <Users className="size-3 sm:size-3.5 shrink-0" />
@@ -3126,6 +3211,12 @@ export default function TeamPage() {
               )}
             </TabsTrigger>
           )}
+          {canSupervise(profile?.rank) && (subordinates.length > 0 || managedMembers.length > 0) && (
+            <TabsTrigger value="suspense" className="gap-1 text-[10px] sm:text-xs px-2 sm:px-3 py-1.5">
+              <Route className="size-3 sm:size-3.5 shrink-0" />
+              <span className="hidden sm:inline">Suspense</span>
+            </TabsTrigger>
+          )}
         </TabsList>
 
         {/* Full Chain Tab with Tree Visualization */}
@@ -3909,6 +4000,13 @@ export default function TeamPage() {
             />
           </TabsContent>
         )}
+
+        {/* EPB Suspense Tab */}
+        {canSupervise(profile?.rank) && (subordinates.length > 0 || managedMembers.length > 0) && (
+          <TabsContent value="suspense" className="mt-3 sm:mt-4 space-y-4">
+            <EPBSuspenseBoard />
+          </TabsContent>
+        )}
       </Tabs>
 
       {/* Add Award Dialog */}
@@ -0,0 +1,36 @@
+import { redirect } from "next/navigation";
+import { createClient } from "@/lib/supabase/server";
+import { loadUnitDashboard } from "@/lib/unit-dashboard-loader";
+import type { UnitMemberRow } from "@/lib/unit-dashboard";
+import { UnitDashboard } from "@/components/team/unit-dashboard";
+
+export const dynamic = "force-dynamic";
+
+export default async function UnitDashboardPage() {
+  // Authenticate in the page itself — layout gates can race with page data
+  // fetches in the App Router when the browser session is already dead.
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) {
+    redirect("/login");
+  }
+
+  let rows: UnitMemberRow[];
+  try {
+    rows = await loadUnitDashboard(user.id);
+  } catch (error) {
+    console.error("[unit-dashboard] Load error:", error);
+    return (
+      <div className="space-y-2">
+        <h1 className="text-2xl font-bold tracking-tight">Unit Dashboard</h1>
+        <p className="text-sm text-destructive" role="alert">
+          Unable to load your unit right now. Please try again.
+        </p>
+      </div>
+    );
+  }
+
+  return <UnitDashboard rows={rows} />;
+}
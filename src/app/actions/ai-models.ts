@@ -14,6 +14,7 @@ import {
   resolveAvailableModels,
   userHasOwnApiKey,
 } from "@/lib/ai-models/catalog";
+import { buildUserLocalCatalogRows } from "@/lib/ai-models/local-endpoint";
 import { runModelCatalogSync } from "@/lib/ai-models/run-catalog-sync";
 import { acquireCatalogSyncLock } from "@/lib/ai-models/sync-lock";
 import type {
@@ -36,18 +37,23 @@ async function isUserAdmin(userId: string): Promise<boolean> {
   return (data as { role: string } | null)?.role === "admin";
 }
 
-async function loadUserModelContext(userId: string): Promise<{
+interface UserModelContext {
   keyStatus: KeyStatus;
+  /** Model IDs last discovered on the user's own local endpoint. */
+  localModels: string[];
+  localModelsSyncedAt: string | null;
   preferences: UserModelPreferences;
   creditBalance: number;
   preferCreditsFirst: boolean;
-}> {
+}
+
+async function loadUserModelContext(userId: string): Promise<UserModelContext> {
   const supabase = await createClient();
 
   const [keysResult, settingsResult, creditsResult] = await Promise.all([
     supabase
       .from("user_api_keys")
-      .select("openai_key, anthropic_key, google_key, grok_key")
+      .select("openai_key, anthropic_key, google_key, grok_key, local_base_url, local_models, updated_at")
       .eq("user_id", userId)
       .maybeSingle(),
     supabase
@@ -73,14 +79,16 @@ async function loadUserModelContext(userId: string): Promise<{
       .maybeSingle(),
   ]);
 
-  const keyStatus = keyStatusFromRow(
-    (keysResult.data as {
-      openai_key: string | null;
-      anthropic_key: string | null;
-      google_key: string | null;
-      grok_key: string | null;
-    } | null) ?? null,
-  );
+  const keysRow = (keysResult.data as unknown as {
+    openai_key: string | null;
+    anthropic_key: string | null;
+    google_key: string | null;
+    grok_key: string | null;
+    local_base_url: string | null;
+    local_models: string[] | null;
+    updated_at: string;
+  } | null) ?? null;
+  const keyStatus = keyStatusFromRow(keysRow);
 
   const preferences =
     settingsResult.error || !settingsResult.data
@@ -93,6 +101,8 @@ async function loadUserModelContext(userId: string): Promise<{
 
   return {
     keyStatus,
+    localModels: keyStatus.local_base_url ? (keysRow?.local_models ?? []) : [],
+    localModelsSyncedAt: keysRow?.updated_at ?? null,
     preferences,
     creditBalance: credits?.balance ?? 0,
     // Default to true when no row/column yet — matches the DB column default.
@@ -100,6 +110,24 @@ async function loadUserModelContext(userId: string): Promise<{
   };
 }
 
+/** Shared catalog plus the models on the user's own local endpoint. */
+function withUserLocalModels(
+  catalogRows: CatalogModelRow[],
+  userContext: UserModelContext | null,
+): CatalogModelRow[] {
+  if (!userContext || userContext.localModels.length === 0) return catalogRows;
+
+  const existingIds = new Set(catalogRows.map((row) => row.id));
+  return [
+    ...catalogRows,
+    ...buildUserLocalCatalogRows(
+      userContext.localModels,
+      existingIds,
+      userContext.localModelsSyncedAt ?? new Date().toISOString(),
+    ),
+  ];
+}
+
 export async function getAvailableModels(
   context?: ModelContext,
 ): Promise<{
@@ -115,11 +143,12 @@ export async function getAvailableModels(
     data: { user },
   } = await supabase.auth.getUser();
 
-  const [catalogRows, userContext] = await Promise.all([
+  const [sharedCatalogRows, userContext] = await Promise.all([
     getCachedCatalogRows(),
     user ? loadUserModelContext(user.id) : Promise.resolve(null),
   ]);
 
+  const catalogRows = withUserLocalModels(sharedCatalogRows, userContext);
   const keyStatus = userContext?.keyStatus ?? EMPTY_KEY_STATUS;
   const preferences = userContext?.preferences ?? EMPTY_MODEL_PREFERENCES;
 
@@ -147,7 +176,7 @@ export async function getAvailableModels(
     defaultModelId,
     preferences,
     keyStatus,
-    catalogSyncedAt: getCatalogSyncedAt(catalogRows),
+    catalogSyncedAt: getCatalogSyncedAt(sharedCatalogRows),
     creditsFirstActive,
   };
 }
@@ -270,11 +299,12 @@ export async function getModelCatalogForSettings(): Promise<{
     data: { user },
   } = await supabase.auth.getUser();
 
-  const [catalogRows, userContext] = await Promise.all([
+  const [sharedCatalogRows, userContext] = await Promise.all([
     getCachedCatalogRows(),
     user ? loadUserModelContext(user.id) : Promise.resolve(null),
   ]);
 
+  const catalogRows = withUserLocalModels(sharedCatalogRows, userContext);
   const keyStatus = userContext?.keyStatus ?? EMPTY_KEY_STATUS;
   const preferences = userContext?.preferences ?? EMPTY_MODEL_PREFERENCES;
 
@@ -288,6 +318,6 @@ export async function getModelCatalogForSettings(): Promise<{
     availableModels,
     preferences,
     keyStatus,
-    catalogSyncedAt: getCatalogSyncedAt(catalogRows),
+    catalogSyncedAt: getCatalogSyncedAt(sharedCatalogRows),
   };
 }
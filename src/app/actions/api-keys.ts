@@ -3,23 +3,37 @@
 import { createClient } from "@/lib/supabase/server";
 import { encrypt, safeDecrypt } from "@/lib/encryption";
 import { EMPTY_KEY_STATUS, keyStatusFromRow } from "@/lib/api-key-status";
+import {
+  normalizeLocalBaseUrl,
+  resolveLocalEndpoint,
+  userLocalEndpointsAllowed,
+} from "@/lib/ai-models/local-endpoint";
+import { fetchLocalEndpointModels } from "@/lib/ai-models/provider-sync";
 
 export type KeyStatus = {
   openai_key: boolean;
   anthropic_key: boolean;
   google_key: boolean;
   grok_key: boolean;
+  /** User has their own local / OpenAI-compatible endpoint saved. */
+  local_base_url: boolean;
 };
 
-export type KeyName = keyof KeyStatus;
+/** Hosted-provider keys. The local endpoint is managed by saveLocalEndpoint. */
+export type KeyName = Exclude<keyof KeyStatus, "local_base_url">;
 
 interface UserApiKeysRow {
   openai_key: string | null;
   anthropic_key: string | null;
   google_key: string | null;
   grok_key: string | null;
+  local_base_url: string | null;
+  local_key: string | null;
 }
 
+const USER_API_KEYS_SELECT =
+  "openai_key, anthropic_key, google_key, grok_key, local_base_url, local_key";
+
 /**
  * Get which API keys are set for the current user.
  * Only returns boolean flags - never the actual keys.
@@ -28,11 +42,11 @@ export async function getKeyStatusForUserId(userId: string): Promise<KeyStatus>
   const supabase = await createClient();
   const { data } = await supabase
     .from("user_api_keys")
-    .select("openai_key, anthropic_key, google_key, grok_key")
+    .select(USER_API_KEYS_SELECT)
     .eq("user_id", userId)
     .maybeSingle();
 
-  return keyStatusFromRow((data as UserApiKeysRow | null) ?? null);
+  return keyStatusFromRow((data as unknown as UserApiKeysRow | null) ?? null);
 }
 
 export async function getKeyStatus(): Promise<KeyStatus> {
@@ -65,35 +79,11 @@ export async function saveApiKey(
     return { success: false, error: "API key cannot be empty" };
   }
 
-  // Verify encryption key is configured before attempting to save
-  if (!process.env.ENCRYPTION_KEY) {
-    console.error("ENCRYPTION_KEY environment variable is not set");
-    return { 
-      success: false, 
-      error: "Server encryption is not configured. Please contact the administrator." 
-    };
-  }
-
-  // Encrypt the API key before storing
-  let encryptedKey: string;
-  try {
-    encryptedKey = encrypt(keyValue.trim());
-  } catch (error) {
-    console.error("Failed to encrypt API key:", error);
-    return { 
-      success: false, 
-      error: "Failed to encrypt API key. Server configuration error." 
-    };
-  }
-  
-  // Safety check: ensure encryption actually produced a different value
-  if (encryptedKey === keyValue.trim()) {
-    console.error("Encryption failed - output matches input");
-    return { 
-      success: false, 
-      error: "Encryption verification failed. Please contact the administrator." 
-    };
+  const encrypted = encryptForStorage(keyValue.trim());
+  if ("error" in encrypted) {
+    return { success: false, error: encrypted.error };
   }
+  const encryptedKey = encrypted.value;
 
   // Check if user already has a row
   const { data: existing } = await supabase
@@ -129,6 +119,34 @@ export async function saveApiKey(
   return { success: true };
 }
 
+/**
+ * Encrypt a secret for user_api_keys, refusing to store it if encryption is
+ * not configured or did not change the value.
+ */
+function encryptForStorage(plaintext: string): { value: string } | { error: string } {
+  // Verify encryption key is configured before attempting to save
+  if (!process.env.ENCRYPTION_KEY) {
+    console.error("ENCRYPTION_KEY environment variable is not set");
+    return { error: "Server encryption is not configured. Please contact the administrator." };
+  }
+
+  let encrypted: string;
+  try {
+    encrypted = encrypt(plaintext);
+  } catch (error) {
+    console.error("Failed to encrypt API key:", error);
+    return { error: "Failed to encrypt API key. Server configuration error." };
+  }
+
+  // Safety check: ensure encryption actually produced a different value
+  if (encrypted === plaintext) {
+    console.error("Encryption failed - output matches input");
+    return { error: "Encryption verification failed. Please contact the administrator." };
+  }
+
+  return { value: encrypted };
+}
+
 /**
  * Delete a single API key for the current user.
  */
@@ -337,6 +355,8 @@ export interface DecryptedApiKeys {
   anthropic_key: string | null;
   google_key: string | null;
   grok_key: string | null;
+  local_base_url: string | null;
+  local_key: string | null;
 }
 
 /**
@@ -354,7 +374,7 @@ export async function getDecryptedApiKeys(): Promise<DecryptedApiKeys | null> {
 
   const { data } = await supabase
     .from("user_api_keys")
-    .select("openai_key, anthropic_key, google_key, grok_key")
+    .select(USER_API_KEYS_SELECT)
     .eq("user_id", user.id)
     .maybeSingle();
 
@@ -370,6 +390,191 @@ export async function getDecryptedApiKeys(): Promise<DecryptedApiKeys | null> {
     anthropic_key: typedData.anthropic_key ? safeDecrypt(typedData.anthropic_key) : null,
     google_key: typedData.google_key ? safeDecrypt(typedData.google_key) : null,
     grok_key: typedData.grok_key ? safeDecrypt(typedData.grok_key) : null,
+    local_base_url: typedData.local_base_url ? safeDecrypt(typedData.local_base_url) : null,
+    local_key: typedData.local_key ? safeDecrypt(typedData.local_key) : null,
+  };
+}
+
+
+export interface LocalEndpointSettings {
+  /** Whether this deployment lets users save their own endpoint. */
+  userEndpointsAllowed: boolean;
+  /** Whether an admin endpoint is configured for everyone. */
+  serverEndpointConfigured: boolean;
+  /** The user's saved base URL (their own value, shown back for editing). */
+  baseUrl: string | null;
+  hasKey: boolean;
+  models: string[];
+}
+
+export async function getLocalEndpointSettings(): Promise<LocalEndpointSettings> {
+  const supabase = await createClient();
+  const settings: LocalEndpointSettings = {
+    userEndpointsAllowed: userLocalEndpointsAllowed(),
+    serverEndpointConfigured: resolveLocalEndpoint(null, null) !== null,
+    baseUrl: null,
+    hasKey: false,
+    models: [],
+  };
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return settings;
+
+  const { data } = await supabase
+    .from("user_api_keys")
+    .select("local_base_url, local_key, local_models")
+    .eq("user_id", user.id)
+    .maybeSingle();
+
+  const row = data as unknown as {
+    local_base_url: string | null;
+    local_key: string | null;
+    local_models: string[] | null;
+  } | null;
+  if (!row?.local_base_url) return settings;
+
+  return {
+    ...settings,
+    baseUrl: safeDecrypt(row.local_base_url),
+    hasKey: !!row.local_key,
+    models: row.local_models ?? [],
   };
 }
 
+/**
+ * Save the user's own OpenAI-compatible endpoint. The endpoint is checked by
+ * listing its models, and the discovered list is stored for the model pickers.
+ */
+export async function saveLocalEndpoint(
+  baseUrl: string,
+  apiKey?: string,
+): Promise<{ success: boolean; error?: string; models?: string[] }> {
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  if (!userLocalEndpointsAllowed()) {
+    return { success: false, error: "Custom model endpoints are not enabled on this server." };
+  }
+
+  const normalized = normalizeLocalBaseUrl(baseUrl);
+  if (!normalized) {
+    return { success: false, error: "Enter a valid http(s) URL, e.g. http://localhost:11434/v1" };
+  }
+
+  const discovery = await discoverLocalModels(normalized, apiKey?.trim() || null);
+  if ("error" in discovery) {
+    return { success: false, error: discovery.error };
+  }
+
+  const encryptedUrl = encryptForStorage(normalized);
+  if ("error" in encryptedUrl) {
+    return { success: false, error: encryptedUrl.error };
+  }
+  let encryptedKey: string | null = null;
+  if (apiKey?.trim()) {
+    const encrypted = encryptForStorage(apiKey.trim());
+    if ("error" in encrypted) {
+      return { success: false, error: encrypted.error };
+    }
+    encryptedKey = encrypted.value;
+  }
+
+  const { error } = await supabase
+    .from("user_api_keys")
+    .upsert(
+      {
+        user_id: user.id,
+        local_base_url: encryptedUrl.value,
+        local_key: encryptedKey,
+        local_models: discovery.models,
+      } as never,
+      { onConflict: "user_id" },
+    );
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  return { success: true, models: discovery.models };
+}
+
+/** Re-list models on the user's saved endpoint (after pulling or removing models). */
+export async function refreshLocalEndpointModels(): Promise<{
+  success: boolean;
+  error?: string;
+  models?: string[];
+}> {
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  const keys = await getDecryptedApiKeys();
+  const endpoint = userLocalEndpointsAllowed() && keys?.local_base_url
+    ? resolveLocalEndpoint(keys.local_base_url, keys.local_key)
+    : null;
+  if (!endpoint) {
+    return { success: false, error: "No local endpoint saved" };
+  }
+
+  const discovery = await discoverLocalModels(endpoint.baseUrl, endpoint.apiKey);
+  if ("error" in discovery) {
+    return { success: false, error: discovery.error };
+  }
+
+  const { error } = await supabase
+    .from("user_api_keys")
+    .update({ local_models: discovery.models } as never)
+    .eq("user_id", user.id);
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  return { success: true, models: discovery.models };
+}
+
+export async function deleteLocalEndpoint(): Promise<{ success: boolean; error?: string }> {
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) {
+    return { success: false, error: "Not authenticated" };
+  }
+
+  const { error } = await supabase
+    .from("user_api_keys")
+    .update({ local_base_url: null, local_key: null, local_models: [] } as never)
+    .eq("user_id", user.id);
+
+  if (error) {
+    return { success: false, error: error.message };
+  }
+
+  return { success: true };
+}
+
+async function discoverLocalModels(
+  baseUrl: string,
+  apiKey: string | null,
+): Promise<{ models: string[] } | { error: string }> {
+  try {
+    const discovered = await fetchLocalEndpointModels({ baseUrl, apiKey });
+    if (discovered.length === 0) {
+      return { error: `No chat models found at ${baseUrl}/models. Check the URL, key, and that a model is loaded.` };
+    }
+    return { models: discovered.map((model) => model.id) };
+  } catch (error) {
+    if (error instanceof DOMException && (error.name === "TimeoutError" || error.name === "AbortError")) {
+      return { error: "Connection timed out. Make sure the endpoint is reachable from this server." };
+    }
+    const msg = error instanceof Error ? error.message : "Unknown error";
+    return { error: `Unable to reach the endpoint: ${msg}` };
+  }
+}
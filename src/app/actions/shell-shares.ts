@@ -5,6 +5,7 @@ import type {
   AwardShellShare,
   DecorationShellShare,
   EPBShellShare,
+  OPBShellShare,
   Profile,
 } from "@/types/database";
 
@@ -15,6 +16,7 @@ type ShareActionResult<T> =
 type AwardShareRow = AwardShellShare & { shared_with_profile?: Profile };
 type DecorationShareRow = DecorationShellShare & { shared_with_profile?: Profile };
 type EpbShareRow = EPBShellShare & { shared_with_profile?: Profile };
+type OpbShareRow = OPBShellShare & { shared_with_profile?: Profile };
 
 async function requireAuthedClient() {
   const supabase = await createClient();
@@ -124,3 +126,35 @@ export async function shareEpbShellWithUser(
 
   return { ok: true, data: data as EpbShareRow };
 }
+
+export async function shareOpbShellWithUser(
+  shellId: string,
+  sharedWithId: string,
+): Promise<ShareActionResult<OpbShareRow>> {
+  const { supabase, user } = await requireAuthedClient();
+  if (!user) {
+    return { ok: false, error: "Unauthorized" };
+  }
+
+  const { data, error } = await supabase
+    .from("opb_shell_shares")
+    .insert({
+      shell_id: shellId,
+      owner_id: user.id,
+      share_type: "user",
+      shared_with_id: sharedWithId,
+    } as never)
+    .select(`
+      *,
+      shared_with_profile:profiles!opb_shell_shares_shared_with_id_fkey(
+        id, full_name, rank, afsc, email
+      )
+    `)
+    .single();
+
+  if (error) {
+    return { ok: false, error: error.message };
+  }
+
+  return { ok: true, data: data as OpbShareRow };
+}
@@ -2,8 +2,11 @@
 
 import { revalidatePath } from "next/cache";
 import { ENTRY_MGAS } from "@/lib/constants";
+import { getAcaWorksheetRubric, normalizeAcaWorksheet } from "@/lib/aca-worksheet";
+import { RECEIVED_FEEDBACK_COLUMNS } from "@/lib/received-feedback";
 import { createClient } from "@/lib/supabase/server";
 import type {
+  AcaWorksheet,
   Accomplishment,
   SupervisorFeedback,
   FeedbackType,
@@ -119,6 +122,7 @@ export async function getFeedback(
           ? rest.session_settings
           : ""
         : "",
+      aca_worksheet: isSupervisor ? (rest.aca_worksheet ?? null) : null,
       supervisor_name: supervisor?.full_name || null,
       supervisor_rank: supervisor?.rank || null,
     };
@@ -148,20 +152,7 @@ export async function getMyReceivedFeedbacks(
   let query = (supabase as any)
     .from("supervisor_feedbacks")
     .select(`
-      id,
-      supervisor_id,
-      subordinate_id,
-      team_member_id,
-      feedback_type,
-      cycle_year,
-      content,
-      reviewed_accomplishment_ids,
-      status,
-      shared_at,
-      supervision_start_date,
-      supervision_end_date,
-      created_at,
-      updated_at,
+      ${RECEIVED_FEEDBACK_COLUMNS.join(",\n      ")},
       supervisor:profiles!supervisor_feedbacks_supervisor_id_fkey(full_name, rank)
     `)
     .eq("subordinate_id", user.id)
@@ -180,10 +171,11 @@ export async function getMyReceivedFeedbacks(
     return { data: [], error: error.message };
   }
 
-  // Transform the joined data — session_settings is private rater prep; never expose to ratees
+  // Transform the joined data — session_settings and aca_worksheet are private rater prep; never expose to ratees
   const feedbacks: SupervisorFeedback[] = (data || []).map((fb: Record<string, unknown>) => ({
     ...fb,
     session_settings: "",
+    aca_worksheet: null,
     supervisor_name: (fb.supervisor as Record<string, unknown>)?.full_name || null,
     supervisor_rank: (fb.supervisor as Record<string, unknown>)?.rank || null,
   }));
@@ -234,6 +226,66 @@ export async function saveFeedback(
   return { data: { id: data }, error: null };
 }
 
+/**
+ * Save the private ACA worksheet on an existing feedback. Levels and
+ * subcategories are checked against the ratee's current 931/932 rubric.
+ */
+export async function saveFeedbackWorksheet(
+  feedbackId: string,
+  worksheet: AcaWorksheet
+): Promise<{ data: AcaWorksheet | null; error: string | null }> {
+  const supabase = await createClient();
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return { data: null, error: "Not authenticated" };
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data: feedback, error: feedbackError } = await (supabase as any)
+    .from("supervisor_feedbacks")
+    .select("id, subordinate_id, team_member_id")
+    .eq("id", feedbackId)
+    .eq("supervisor_id", user.id)
+    .maybeSingle();
+
+  if (feedbackError || !feedback) {
+    return { data: null, error: "Feedback not found" };
+  }
+
+  const { subordinate_id, team_member_id } = feedback as {
+    subordinate_id: string | null;
+    team_member_id: string | null;
+  };
+  const { data: ratee } = team_member_id
+    ? await supabase.from("team_members").select("rank").eq("id", team_member_id).maybeSingle()
+    : await supabase.from("profiles").select("rank").eq("id", subordinate_id!).maybeSingle();
+
+  const rubric = getAcaWorksheetRubric((ratee as { rank: string | null } | null)?.rank ?? null);
+  if (!rubric) {
+    return { data: null, error: "No ACA form applies to this ratee's grade" };
+  }
+
+  const normalized = normalizeAcaWorksheet(worksheet, rubric);
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { error } = await (supabase as any)
+    .from("supervisor_feedbacks")
+    .update({ aca_worksheet: normalized })
+    .eq("id", feedbackId)
+    .eq("supervisor_id", user.id);
+
+  if (error) {
+    console.error("Save feedback worksheet error:", error);
+    return { data: null, error: error.message };
+  }
+
+  revalidatePath("/team");
+  return { data: normalized, error: null };
+}
+
 /**
  * Share a feedback with the subordinate
  */
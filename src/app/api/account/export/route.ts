@@ -0,0 +1,168 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  buildAccountExportArchive,
+  getAccountExportFileName,
+  type AccountExportData,
+} from "@/lib/account-export";
+import { RECEIVED_FEEDBACK_COLUMNS } from "@/lib/received-feedback";
+
+const MAX_EXPORTS_PER_HOUR = 5;
+const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000;
+// PostgREST caps each response at 1000 rows by default.
+const PAGE_SIZE = 1000;
+
+type RateLimitRecord = {
+  count: number;
+  resetAt: number;
+};
+
+type ExportRecord = Record<string, unknown>;
+
+const exportRateLimits = new Map<string, RateLimitRecord>();
+
+function checkRateLimit(userId: string): boolean {
+  const now = Date.now();
+  const record = exportRateLimits.get(userId);
+
+  if (!record || now > record.resetAt) {
+    exportRateLimits.set(userId, {
+      count: 1,
+      resetAt: now + RATE_LIMIT_WINDOW_MS,
+    });
+    return true;
+  }
+
+  if (record.count >= MAX_EXPORTS_PER_HOUR) {
+    return false;
+  }
+
+  record.count += 1;
+  return true;
+}
+
+/** Pages through a query until a short page comes back. */
+async function fetchAllRows(
+  label: string,
+  page: (from: number, to: number) => PromiseLike<{ data: unknown; error: { message: string } | null }>,
+): Promise<ExportRecord[]> {
+  const rows: ExportRecord[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(`${label}: ${error.message}`);
+    const batch = (data ?? []) as ExportRecord[];
+    rows.push(...batch);
+    if (batch.length < PAGE_SIZE) return rows;
+  }
+}
+
+// GET: ZIP of everything the signed-in user owns (see lib/account-export.ts for the schema)
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!checkRateLimit(user.id)) {
+      return NextResponse.json(
+        { error: "Too many exports. Please try again later." },
+        { status: 429 },
+      );
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const from = (table: string) => supabase.from(table as never) as any;
+    const ownedBy = (table: string, select: string, orderBy = "created_at") =>
+      fetchAllRows(table, (start, end) =>
+        from(table)
+          .select(select)
+          .eq("user_id", user.id)
+          .order(orderBy, { ascending: true })
+          .order("id", { ascending: true })
+          .range(start, end),
+      );
+
+    const [
+      profileResult,
+      balanceResult,
+      accomplishments,
+      refinedStatements,
+      epbShells,
+      opbShells,
+      awardShells,
+      decorationShells,
+      supervisorFeedbacks,
+      transactions,
+    ] = await Promise.all([
+      from("profiles").select("*").eq("id", user.id).maybeSingle(),
+      from("user_credits").select("*").eq("user_id", user.id).maybeSingle(),
+      ownedBy("accomplishments", "*", "date"),
+      ownedBy("refined_statements", "*"),
+      ownedBy(
+        "epb_shells",
+        "*, sections:epb_shell_sections(*, snapshots:epb_shell_snapshots(*)), duty_description_snapshots:epb_duty_description_snapshots(*)",
+      ),
+      ownedBy(
+        "opb_shells",
+        "*, sections:opb_shell_sections(*, snapshots:opb_shell_snapshots(*)), duty_description_snapshots:opb_duty_description_snapshots(*)",
+      ),
+      ownedBy("award_shells", "*, sections:award_shell_sections(*, snapshots:award_shell_snapshots(*))"),
+      ownedBy("decoration_shells", "*, snapshots:decoration_shell_snapshots(*)"),
+      // RLS already hides drafts; the status filter keeps the file honest if that ever changes
+      fetchAllRows("supervisor_feedbacks", (start, end) =>
+        from("supervisor_feedbacks")
+          .select(RECEIVED_FEEDBACK_COLUMNS.join(", "))
+          .eq("subordinate_id", user.id)
+          .eq("status", "shared")
+          .order("created_at", { ascending: true })
+          .range(start, end),
+      ),
+      fetchAllRows("credit_transactions", (start, end) =>
+        from("credit_transactions")
+          .select("*")
+          .eq("user_id", user.id)
+          .order("created_at", { ascending: false })
+          .range(start, end),
+      ),
+    ]);
+
+    if (profileResult.error) {
+      throw new Error(`profiles: ${profileResult.error.message}`);
+    }
+
+    const data: AccountExportData = {
+      profile: (profileResult.data as ExportRecord | null) ?? null,
+      accomplishments,
+      refined_statements: refinedStatements,
+      epb_shells: epbShells,
+      opb_shells: opbShells,
+      award_shells: awardShells,
+      decoration_shells: decorationShells,
+      supervisor_feedbacks: supervisorFeedbacks,
+      credits: {
+        balance: (balanceResult.data as ExportRecord | null) ?? null,
+        transactions,
+      },
+    };
+
+    const exportedAt = new Date();
+    const archive = buildAccountExportArchive(user.id, data, exportedAt);
+
+    return new NextResponse(Buffer.from(archive), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/zip",
+        "Content-Disposition": `attachment; filename="${getAccountExportFileName(exportedAt)}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Account export error:", error);
+    return NextResponse.json({ error: "Failed to export your data" }, { status: 500 });
+  }
+}
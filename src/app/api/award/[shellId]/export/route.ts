@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  buildAward1206Layout,
+  getAward1206FileName,
+  getAward1206OverflowCount,
+  renderAward1206Pdf,
+  type Award1206ExportShell,
+} from "@/lib/award-1206-export";
+import type { UserAwardCategory } from "@/types/database";
+
+interface ExportAwardShellRow extends Omit<Award1206ExportShell, "sections"> {
+  id: string;
+  user_id: string;
+  team_member_id: string | null;
+  sections: {
+    category: string;
+    slot_index: number;
+    statement_text: string | null;
+    lines_per_statement: number | null;
+  }[] | null;
+}
+
+interface NomineeRow {
+  full_name: string | null;
+  rank: string | null;
+  afsc: string | null;
+  unit: string | null;
+}
+
+// GET: Render the award shell as an AF Form 1206 PDF with a per-slot line fit report
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ shellId: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { shellId } = await params;
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // RLS limits this to shells the caller owns, created, supervises, or was shared
+    const { data: shellData, error: shellError } = await supabase
+      .from("award_shells")
+      .select(`
+        id,
+        user_id,
+        team_member_id,
+        cycle_year,
+        title,
+        award_level,
+        award_category,
+        award_period_type,
+        quarter,
+        is_fiscal_year,
+        period_start_date,
+        period_end_date,
+        is_team_award,
+        sections:award_shell_sections(category, slot_index, statement_text, lines_per_statement)
+      `)
+      .eq("id", shellId)
+      .maybeSingle();
+
+    if (shellError || !shellData) {
+      return NextResponse.json({ error: "Award package not found" }, { status: 404 });
+    }
+
+    const shell = shellData as unknown as ExportAwardShellRow;
+
+    const nomineeResult = shell.team_member_id
+      ? await supabase
+          .from("team_members")
+          .select("full_name, rank, afsc, unit")
+          .eq("id", shell.team_member_id)
+          .maybeSingle()
+      : await supabase
+          .from("profiles")
+          .select("full_name, rank, afsc, unit")
+          .eq("id", shell.user_id)
+          .maybeSingle();
+
+    const nomineeRow = nomineeResult.data as unknown as NomineeRow | null;
+    const nomineeName = [nomineeRow?.rank, nomineeRow?.full_name?.trim()].filter(Boolean).join(" ");
+
+    // Custom category labels are per-user; use the caller's so the header matches their workspace
+    const { data: categoryRows } = await supabase
+      .from("user_award_categories")
+      .select("category_key, label")
+      .eq("user_id", user.id);
+
+    const layout = buildAward1206Layout(
+      {
+        ...shell,
+        sections: (shell.sections ?? []).map((s) => ({
+          ...s,
+          statement_text: s.statement_text ?? "",
+        })),
+      },
+      {
+        // Team awards are written for the team/office named in the title
+        name: shell.is_team_award
+          ? shell.title?.trim() || "Team Nomination"
+          : nomineeName || "Unknown Nominee",
+        afsc: shell.is_team_award ? null : nomineeRow?.afsc ?? null,
+        unit: nomineeRow?.unit ?? null,
+      },
+      (categoryRows ?? []) as Pick<UserAwardCategory, "category_key" | "label">[]
+    );
+
+    const pdf = await renderAward1206Pdf(layout);
+    const fileName = getAward1206FileName(layout, shell.cycle_year);
+
+    return new NextResponse(Buffer.from(pdf), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Cache-Control": "no-store",
+        // Lets the workspace warn about overflowing slots without parsing the PDF
+        "X-Overflow-Slots": String(getAward1206OverflowCount(layout)),
+      },
+    });
+  } catch (error) {
+    console.error("Award 1206 export error:", error);
+    return NextResponse.json(
+      { error: "Failed to export award package" },
+      { status: 500 }
+    );
+  }
+}
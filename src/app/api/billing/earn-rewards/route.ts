@@ -23,7 +23,8 @@ export async function GET() {
     keyStatus.openai_key ||
     keyStatus.anthropic_key ||
     keyStatus.google_key ||
-    keyStatus.grok_key;
+    keyStatus.grok_key ||
+    keyStatus.local_base_url;
 
   return NextResponse.json({
     eligible: !hasOwnKey,
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { getAdminApiUser } from "@/lib/auth/require-admin";
+import { runCycleReminders } from "@/lib/email/cycle-reminder-runner";
+
+export const maxDuration = 300;
+
+function isAuthorizedCron(request: Request): boolean {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) return false;
+
+  const authHeader = request.headers.get("authorization");
+  return authHeader === `Bearer ${cronSecret}`;
+}
+
+function getSiteUrl(): string {
+  return (
+    process.env.NEXT_PUBLIC_SITE_URL ||
+    process.env.NEXT_PUBLIC_APP_URL ||
+    "https://myepbuddy.com"
+  );
+}
+
+// GET: daily cycle reminder send. `?dryRun=1` plans without sending; signed-in
+// admins always get a dry run.
+export async function GET(request: Request) {
+  let dryRun = new URL(request.url).searchParams.get("dryRun") === "1";
+
+  if (!isAuthorizedCron(request)) {
+    const admin = await getAdminApiUser();
+    if (!admin.ok) {
+      return NextResponse.json({ error: admin.error }, { status: admin.status });
+    }
+    dryRun = true;
+  }
+
+  try {
+    const result = await runCycleReminders({ dryRun, siteUrl: getSiteUrl() });
+    return NextResponse.json(result, { status: result.failed.length > 0 ? 207 : 200 });
+  } catch (error) {
+    console.error("[cycle-reminders] Run failed:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Cycle reminder run failed" },
+      { status: 500 },
+    );
+  }
+}
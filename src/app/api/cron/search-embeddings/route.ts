@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import { runSearchEmbeddings } from "@/lib/search-embedding-runner";
+
+export const maxDuration = 300;
+
+function isAuthorizedCron(request: Request): boolean {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) return false;
+
+  const authHeader = request.headers.get("authorization");
+  return authHeader === `Bearer ${cronSecret}`;
+}
+
+// GET: embed new and edited rows for workspace search (hourly, see vercel.json)
+export async function GET(request: Request) {
+  if (!isAuthorizedCron(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    return NextResponse.json(await runSearchEmbeddings());
+  } catch (error) {
+    console.error("[search-embeddings] Run failed:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Search embedding run failed" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { runSupervisorDigest } from "@/lib/email/supervisor-digest-runner";
+
+export const maxDuration = 300;
+
+function isAuthorizedCron(request: Request): boolean {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret) return false;
+
+  const authHeader = request.headers.get("authorization");
+  return authHeader === `Bearer ${cronSecret}`;
+}
+
+function getSiteUrl(): string {
+  return (
+    process.env.NEXT_PUBLIC_SITE_URL ||
+    process.env.NEXT_PUBLIC_APP_URL ||
+    "https://myepbuddy.com"
+  );
+}
+
+// GET: weekly supervisor digest (Monday morning, see vercel.json)
+export async function GET(request: Request) {
+  if (!isAuthorizedCron(request)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await runSupervisorDigest({ siteUrl: getSiteUrl() });
+    return NextResponse.json(result, { status: result.failed.length > 0 ? 207 : 200 });
+  } catch (error) {
+    console.error("[supervisor-digest] Run failed:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Supervisor digest run failed" },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  buildDecorationCitationLayout,
+  buildMyDecsPasteBlock,
+  getDecorationCitationFileName,
+  renderDecorationCitationPdf,
+  type DecorationCitationExportShell,
+} from "@/lib/decoration-citation-export";
+
+interface ExportDecorationShellRow extends DecorationCitationExportShell {
+  id: string;
+  user_id: string;
+  team_member_id: string | null;
+  recipient_name: string | null;
+}
+
+interface RecipientRow {
+  full_name: string | null;
+  rank: string | null;
+}
+
+interface OwnerRow extends RecipientRow {
+  service: string | null;
+}
+
+// GET: Render the decoration citation as a PDF (default) or a MyDecs paste block (?format=txt)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ shellId: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { shellId } = await params;
+    const format = request.nextUrl.searchParams.get("format") === "txt" ? "txt" : "pdf";
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // RLS limits this to shells the caller owns, created, supervises, or was shared
+    const { data: shellData, error: shellError } = await supabase
+      .from("decoration_shells")
+      .select(`
+        id,
+        user_id,
+        team_member_id,
+        recipient_name,
+        award_type,
+        reason,
+        duty_title,
+        unit,
+        office,
+        squadron,
+        group_name,
+        wing,
+        base_name,
+        location,
+        start_date,
+        end_date,
+        citation_text
+      `)
+      .eq("id", shellId)
+      .maybeSingle();
+
+    if (shellError || !shellData) {
+      return NextResponse.json({ error: "Decoration not found" }, { status: 404 });
+    }
+
+    const shell = shellData as unknown as ExportDecorationShellRow;
+
+    // The owner's service stands in for managed and typed-in recipients.
+    // profiles.service is newer than the generated Supabase types.
+    const { data: ownerData } = await supabase
+      .from("profiles")
+      .select("full_name, rank, service")
+      .eq("id", shell.user_id)
+      .maybeSingle();
+    const owner = ownerData as unknown as OwnerRow | null;
+
+    // Same precedence as the workspace: managed member, then a typed-in recipient, then the owner
+    let recipientRow: RecipientRow | null = null;
+    if (shell.team_member_id) {
+      const { data } = await supabase
+        .from("team_members")
+        .select("full_name, rank")
+        .eq("id", shell.team_member_id)
+        .maybeSingle();
+      recipientRow = data as unknown as RecipientRow | null;
+    } else if (shell.recipient_name?.trim()) {
+      recipientRow = { full_name: shell.recipient_name, rank: null };
+    } else {
+      recipientRow = owner;
+    }
+
+    const layout = buildDecorationCitationLayout(shell, {
+      rank: recipientRow?.rank ?? null,
+      name: recipientRow?.full_name?.trim() || "Unknown Recipient",
+      service: owner?.service ?? null,
+    });
+    const fileName = getDecorationCitationFileName(layout, format);
+    const headers = {
+      "Content-Disposition": `attachment; filename="${fileName}"`,
+      "Cache-Control": "no-store",
+      // Lets the workspace report the fit without parsing the file
+      "X-Citation-Characters": String(layout.fit.charCount),
+      "X-Citation-Max-Characters": String(layout.fit.maxCharacters),
+      "X-Citation-Lines": String(layout.fit.lineCount),
+    };
+
+    if (format === "txt") {
+      return new NextResponse(buildMyDecsPasteBlock(layout), {
+        status: 200,
+        headers: { ...headers, "Content-Type": "text/plain; charset=utf-8" },
+      });
+    }
+
+    const pdf = await renderDecorationCitationPdf(layout);
+    return new NextResponse(Buffer.from(pdf), {
+      status: 200,
+      headers: { ...headers, "Content-Type": "application/pdf" },
+    });
+  } catch (error) {
+    console.error("Decoration citation export error:", error);
+    return NextResponse.json(
+      { error: "Failed to export citation" },
+      { status: 500 }
+    );
+  }
+}
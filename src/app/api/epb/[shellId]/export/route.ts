@@ -0,0 +1,127 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import {
+  buildEpbFormLayout,
+  getEpbExportFileName,
+  renderEpbFormPdf,
+  type EpbFormExportRatee,
+} from "@/lib/epb-form-export";
+import type { Rank } from "@/types/database";
+
+interface ExportShellRow {
+  id: string;
+  user_id: string;
+  team_member_id: string | null;
+  cycle_year: number;
+  duty_description: string | null;
+  sections: { mpa: string; statement_text: string | null }[] | null;
+}
+
+interface RateeRow {
+  full_name: string | null;
+  first_name?: string | null;
+  last_name?: string | null;
+  rank: string | null;
+  afsc: string | null;
+  unit: string | null;
+}
+
+function formatFormName(row: RateeRow): string {
+  if (row.last_name && row.first_name) {
+    return `${row.last_name}, ${row.first_name}`;
+  }
+  return row.full_name?.trim() || "Unknown Ratee";
+}
+
+// GET: Render the whole EPB shell as a print-ready PDF (myEval EPB layout)
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ shellId: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { shellId } = await params;
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // RLS limits this to shells the caller owns, created, supervises, or was shared
+    const { data: shellData, error: shellError } = await supabase
+      .from("epb_shells")
+      .select(`
+        id,
+        user_id,
+        team_member_id,
+        cycle_year,
+        duty_description,
+        sections:epb_shell_sections(mpa, statement_text)
+      `)
+      .eq("id", shellId)
+      .maybeSingle();
+
+    if (shellError || !shellData) {
+      return NextResponse.json({ error: "EPB shell not found" }, { status: 404 });
+    }
+
+    const shell = shellData as unknown as ExportShellRow;
+
+    const rateeResult = shell.team_member_id
+      ? await supabase
+          .from("team_members")
+          .select("full_name, rank, afsc, unit")
+          .eq("id", shell.team_member_id)
+          .maybeSingle()
+      : await supabase
+          .from("profiles")
+          .select("full_name, first_name, last_name, rank, afsc, unit")
+          .eq("id", shell.user_id)
+          .maybeSingle();
+
+    const rateeRow = rateeResult.data as RateeRow | null;
+    if (!rateeRow) {
+      return NextResponse.json({ error: "Ratee not found" }, { status: 404 });
+    }
+
+    const ratee: EpbFormExportRatee = {
+      name: formatFormName(rateeRow),
+      rank: (rateeRow.rank as Rank | null) ?? null,
+      afsc: rateeRow.afsc,
+      unit: rateeRow.unit,
+    };
+
+    const layout = buildEpbFormLayout(
+      {
+        cycle_year: shell.cycle_year,
+        duty_description: shell.duty_description ?? "",
+        sections: (shell.sections ?? []).map((s) => ({
+          mpa: s.mpa,
+          statement_text: s.statement_text ?? "",
+        })),
+      },
+      ratee
+    );
+
+    const pdf = await renderEpbFormPdf(layout);
+    const fileName = getEpbExportFileName(layout, shell.cycle_year);
+
+    return new NextResponse(Buffer.from(pdf), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("EPB export error:", error);
+    return NextResponse.json(
+      { error: "Failed to export EPB" },
+      { status: 500 }
+    );
+  }
+}
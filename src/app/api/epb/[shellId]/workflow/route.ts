@@ -0,0 +1,209 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAdminClient, createClient } from "@/lib/supabase/server";
+import { getCyclePeriodOverride } from "@/lib/constants";
+import {
+  canTransitionEPBWorkflow,
+  getEPBWorkflowRole,
+  getEPBWorkflowSuspense,
+  isEPBWorkflowState,
+} from "@/lib/epb-workflow";
+import type {
+  EPBShellWorkflowTransition,
+  EPBWorkflowState,
+  EvaluationPeriodFields,
+  Rank,
+} from "@/types/database";
+
+const HISTORY_LIMIT = 50;
+
+type ServerClient = Awaited<ReturnType<typeof createClient>>;
+
+interface WorkflowShellRow {
+  id: string;
+  user_id: string;
+  team_member_id: string | null;
+  workflow_state: EPBWorkflowState;
+  workflow_state_changed_at: string;
+}
+
+type RateeRow = EvaluationPeriodFields & { rank: string | null };
+
+// RLS limits this to shells the caller owns, created, supervises, or was shared
+async function loadShell(supabase: ServerClient, shellId: string): Promise<WorkflowShellRow | null> {
+  const { data } = await supabase
+    .from("epb_shells")
+    .select("id, user_id, team_member_id, workflow_state, workflow_state_changed_at" as never)
+    .eq("id", shellId)
+    .maybeSingle();
+  return (data as WorkflowShellRow | null) ?? null;
+}
+
+async function buildWorkflowResponse(supabase: ServerClient, shell: WorkflowShellRow, userId: string) {
+  const periodColumns = "rank, eval_period_start, eval_period_end, eval_period_reason";
+  const [rateeResult, historyResult] = await Promise.all([
+    shell.team_member_id
+      ? supabase.from("team_members").select(periodColumns as never).eq("id", shell.team_member_id).maybeSingle()
+      : supabase.from("profiles").select(periodColumns as never).eq("id", shell.user_id).maybeSingle(),
+    supabase
+      .from("epb_shell_workflow_transitions" as never)
+      .select("id, shell_id, from_state, to_state, changed_by, created_at")
+      .eq("shell_id" as never, shell.id as never)
+      .order("created_at" as never, { ascending: false })
+      .limit(HISTORY_LIMIT),
+  ]);
+
+  const ratee = rateeResult.data as RateeRow | null;
+  const history = (historyResult.data ?? []) as unknown as EPBShellWorkflowTransition[];
+
+  // Names of whoever moved the shell; the rows above already passed RLS
+  const actorIds = [...new Set(history.map((t) => t.changed_by).filter((id): id is string => !!id))];
+  const names = new Map<string, string>();
+  if (actorIds.length > 0) {
+    const { data: actors } = await createAdminClient()
+      .from("profiles")
+      .select("id, full_name, rank")
+      .in("id", actorIds);
+    for (const actor of (actors ?? []) as { id: string; full_name: string | null; rank: string | null }[]) {
+      names.set(actor.id, [actor.rank, actor.full_name?.trim()].filter(Boolean).join(" ") || "Unknown user");
+    }
+  }
+
+  const suspense = getEPBWorkflowSuspense(
+    shell.workflow_state,
+    (ratee?.rank as Rank | null) ?? null,
+    ratee ? getCyclePeriodOverride(ratee) : null
+  );
+
+  return {
+    state: shell.workflow_state,
+    role: getEPBWorkflowRole(shell, userId),
+    changedAt: shell.workflow_state_changed_at,
+    suspense: suspense && {
+      dueDate: suspense.dueDate.toISOString(),
+      daysFromNow: suspense.daysFromNow,
+      isOverdue: suspense.isOverdue,
+      milestoneLabel: suspense.milestoneLabel,
+    },
+    history: history.map((t) => ({
+      id: t.id,
+      fromState: t.from_state,
+      toState: t.to_state,
+      changedByName: t.changed_by ? names.get(t.changed_by) ?? "Unknown user" : "Unknown user",
+      createdAt: t.created_at,
+    })),
+  };
+}
+
+// GET: Current routing step, its suspense and the transition history
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ shellId: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { shellId } = await params;
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const shell = await loadShell(supabase, shellId);
+    if (!shell) {
+      return NextResponse.json({ error: "EPB shell not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(await buildWorkflowResponse(supabase, shell, user.id));
+  } catch (error) {
+    console.error("[epb-workflow] Load error:", error);
+    return NextResponse.json({ error: "Failed to load EPB workflow" }, { status: 500 });
+  }
+}
+
+// PATCH: Move the shell to the next step or return it to an earlier one
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ shellId: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { shellId } = await params;
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = (await request.json().catch(() => ({}))) as { state?: unknown; from?: unknown };
+    if (!isEPBWorkflowState(body.state)) {
+      return NextResponse.json({ error: "Invalid workflow state" }, { status: 400 });
+    }
+
+    const shell = await loadShell(supabase, shellId);
+    if (!shell) {
+      return NextResponse.json({ error: "EPB shell not found" }, { status: 404 });
+    }
+
+    // The caller acted on a stale view; someone else moved it first
+    if (isEPBWorkflowState(body.from) && body.from !== shell.workflow_state) {
+      return NextResponse.json(
+        { error: "Someone else already moved this EPB. Refresh to see its current step." },
+        { status: 409 }
+      );
+    }
+
+    if (!canTransitionEPBWorkflow(shell.workflow_state, body.state, "supervisor")) {
+      return NextResponse.json(
+        { error: "EPBs move one step forward or back to an earlier step" },
+        { status: 400 }
+      );
+    }
+
+    // The ratee hands off at their review; the supervision chain routes from there
+    if (!canTransitionEPBWorkflow(shell.workflow_state, body.state, getEPBWorkflowRole(shell, user.id))) {
+      return NextResponse.json(
+        { error: "Only your supervision chain can route this EPB past ratee review" },
+        { status: 403 }
+      );
+    }
+
+    // The trigger stamps who/when and writes the history row
+    const { data: updated, error: updateError } = await supabase
+      .from("epb_shells")
+      .update({ workflow_state: body.state } as never)
+      .eq("id", shellId)
+      .eq("workflow_state" as never, shell.workflow_state as never)
+      .select("id, user_id, team_member_id, workflow_state, workflow_state_changed_at" as never);
+
+    if (updateError) {
+      console.error("[epb-workflow] Update error:", updateError);
+      return NextResponse.json({ error: "Failed to update EPB workflow" }, { status: 500 });
+    }
+
+    const row = (updated as WorkflowShellRow[] | null)?.[0];
+    if (!row) {
+      const current = await loadShell(supabase, shellId);
+      if (current && current.workflow_state !== shell.workflow_state) {
+        return NextResponse.json(
+          { error: "Someone else already moved this EPB. Refresh to see its current step." },
+          { status: 409 }
+        );
+      }
+      return NextResponse.json(
+        { error: "You don't have permission to route this EPB" },
+        { status: 403 }
+      );
+    }
+
+    return NextResponse.json(await buildWorkflowResponse(supabase, row, user.id));
+  } catch (error) {
+    console.error("[epb-workflow] Update error:", error);
+    return NextResponse.json({ error: "Failed to update EPB workflow" }, { status: 500 });
+  }
+}
@@ -24,7 +24,7 @@ function getSiteUrl(): string {
 }
 
 function parseShellType(value: string | null | undefined): ReviewShellType {
-  if (value === "award" || value === "decoration" || value === "epb") {
+  if (value === "award" || value === "decoration" || value === "epb" || value === "opb") {
     return value;
   }
   return "epb";
@@ -118,6 +118,31 @@ async function notifyOwnerOfFeedback(params: {
   }
 }
 
+/** Best-effort: stamp the signed-in reviewer on the session. Never fails the submit. */
+async function recordSignedInReviewer(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  sessionId: string
+): Promise<void> {
+  try {
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+    if (!user) return;
+
+    // feedback_sessions is owner-only under RLS and reviewer_user_id is
+    // missing from generated Database types.
+    const admin = createAdminClient();
+    await admin
+      .from("feedback_sessions" as never)
+      .update({ reviewer_user_id: user.id } as never)
+      .eq("id" as never, sessionId)
+      // Reviewing your own package never counts toward a persona
+      .neq("user_id" as never, user.id);
+  } catch (err) {
+    console.error("Mentor feedback reviewer stamp failed:", err);
+  }
+}
+
 // POST: Submit mentor feedback (public - no auth required)
 export async function POST(request: NextRequest) {
   try {
@@ -251,6 +276,12 @@ export async function POST(request: NextRequest) {
       };
     }
 
+    // Signed-in reviewers are remembered so their accepted feedback can back
+    // an opt-in mentor persona. Anonymous review links stay anonymous.
+    if (successPayload.sessionId) {
+      await recordSignedInReviewer(supabase, successPayload.sessionId);
+    }
+
     // Fire-and-forget owner email via Resend (does not block / fail submit)
     void notifyOwnerOfFeedback({
       token: typeof token === "string" ? token : String(token),
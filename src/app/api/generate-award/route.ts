@@ -20,6 +20,11 @@ import { checkAndTrackUsage } from "@/lib/usage-tracker";
 import { resolvePromptWithRulesMode, appendUserRulesToPrompt } from "@/lib/prompt-rules/server";
 import { getAppFeatureFlags } from "@/lib/feature-flags/server";
 import type { AppFeatureFlags } from "@/lib/feature-flags";
+import {
+  AF_STEWARDSHIP_IMPACT_BRIEF,
+  parseImpactAssessment,
+  type ImpactAssessmentResponse,
+} from "@/lib/impact-booster";
 
 // Allow up to 60s for LLM calls
 export const maxDuration = 60;
@@ -78,6 +83,8 @@ interface ClarifyingQuestionResponse {
   question: string;
   category: "impact" | "scope" | "leadership" | "recognition" | "metrics" | "general";
   hint?: string;
+  /** Impact Booster lever this question targets */
+  lever?: "time" | "money" | "resources";
 }
 
 const AWARD_CLARIFYING_QUESTION_GUIDANCE = `
@@ -103,6 +110,15 @@ You MUST include 2-3 clarifying questions. Award statements are almost ALWAYS mi
 - Ask about what is MISSING from the statement, not what is already there
 - Focus on details that would make the biggest difference in statement impact
 - Be specific in your questions (not generic "tell me more")
+- Set "lever" to "time" | "money" | "resources" on questions that target a stewardship lever
+
+**IMPACT ASSESSMENT (REQUIRED)**
+${AF_STEWARDSHIP_IMPACT_BRIEF}
+
+Include an "impactAssessment" object:
+- strength: 0-100 (how well the draft shows stewardship payoff + mission cascade)
+- missingLevers: subset of ["time","money","resources"] that are weak or absent — omit levers already well quantified
+- summary: one short sentence on what's weak, in AF terms (do NOT invent metrics)
 
 Include questions in a "clarifyingQuestions" field in your JSON response.
 `;
@@ -511,7 +527,12 @@ export async function POST(request: Request) {
     // Fetch user-curated award examples
     const awardExamples = await fetchAwardExampleStatements(supabase, user.id);
 
-    const results: { category: string; statementGroups: StatementGroup[]; clarifyingQuestions?: ClarifyingQuestionResponse[] }[] = [];
+    const results: {
+      category: string;
+      statementGroups: StatementGroup[];
+      clarifyingQuestions?: ClarifyingQuestionResponse[];
+      impactAssessment?: ImpactAssessmentResponse;
+    }[] = [];
     const levelGuidance = getAwardLevelGuidance(awardLevel);
 
     // Filter categories to generate
@@ -586,8 +607,9 @@ ${AWARD_CLARIFYING_QUESTION_GUIDANCE}
 Format as JSON object (EACH statement must start with "- "):
 {
   "statements": ["- Version A", "- Version B", "- Version C"],
+  "impactAssessment": {"strength": 50, "missingLevers": ["money"], "summary": "One short sentence on what's weak"},
   "clarifyingQuestions": [
-    {"question": "Question text?", "category": "impact", "hint": "Brief hint"}
+    {"question": "Question text?", "category": "impact", "hint": "Brief hint", "lever": "money"}
   ]
 }` : `
 Format as JSON array (EACH statement must start with "- "):
@@ -602,11 +624,13 @@ Format as JSON array (EACH statement must start with "- "):
 
           let versions: string[] = [];
           let clarifyingQuestions: ClarifyingQuestionResponse[] = [];
+          let impactAssessment: ImpactAssessmentResponse | null = null;
 
           const jsonObjMatch = text.match(/\{[\s\S]*"statements"[\s\S]*\}/);
           if (jsonObjMatch) {
             const parsed = JSON.parse(jsonObjMatch[0]);
             versions = parsed.statements || [];
+            impactAssessment = parseImpactAssessment(parsed.impactAssessment);
             if (Array.isArray(parsed.clarifyingQuestions)) {
               clarifyingQuestions = parsed.clarifyingQuestions.filter(
                 (q: Record<string, unknown>) => typeof q.question === "string" && (q.question as string).length > 10
@@ -627,6 +651,7 @@ Format as JSON array (EACH statement must start with "- "):
                 sourceAccomplishmentIds: [],
               }],
               ...(clarifyingQuestions.length > 0 && { clarifyingQuestions }),
+              ...(impactAssessment && { impactAssessment }),
             });
           }
         } catch (error) {
@@ -729,8 +754,9 @@ ${AWARD_CLARIFYING_QUESTION_GUIDANCE}
 Format as JSON object (EACH statement must start with "- "):
 {
   "statements": ["- Version A", "- Version B", "- Version C"],
+  "impactAssessment": {"strength": 50, "missingLevers": ["money"], "summary": "One short sentence on what's weak"},
   "clarifyingQuestions": [
-    {"question": "Question text?", "category": "impact", "hint": "Brief hint"}
+    {"question": "Question text?", "category": "impact", "hint": "Brief hint", "lever": "money"}
   ]
 }` : `
 Format as JSON array (EACH statement must start with "- "):
@@ -747,12 +773,14 @@ Format as JSON array (EACH statement must start with "- "):
 
           let versions: string[] = [];
           let clarifyingQuestions: ClarifyingQuestionResponse[] = [];
+          let impactAssessment: ImpactAssessmentResponse | null = null;
 
           // Try to parse as JSON object with statements and clarifyingQuestions
           const jsonObjMatch = text.match(/\{[\s\S]*"statements"[\s\S]*\}/);
           if (jsonObjMatch) {
             const parsed = JSON.parse(jsonObjMatch[0]);
             versions = parsed.statements || [];
+            impactAssessment = parseImpactAssessment(parsed.impactAssessment);
             if (Array.isArray(parsed.clarifyingQuestions)) {
               clarifyingQuestions = parsed.clarifyingQuestions.filter(
                 (q: Record<string, unknown>) => typeof q.question === "string" && (q.question as string).length > 10
@@ -774,6 +802,7 @@ Format as JSON array (EACH statement must start with "- "):
                 sourceAccomplishmentIds: [],
               }],
               ...(clarifyingQuestions.length > 0 && { clarifyingQuestions }),
+              ...(impactAssessment && { impactAssessment }),
             });
           }
         } catch (parseError) {
@@ -828,6 +857,7 @@ Format as JSON array (EACH statement must start with "- "):
 
       const categoryResults: StatementGroup[] = [];
       let categoryClarifyingQuestions: ClarifyingQuestionResponse[] = [];
+      let categoryImpactAssessment: ImpactAssessmentResponse | null = null;
 
       if (combineEntries) {
         // Build revision-specific instructions for accomplishments mode
@@ -924,8 +954,9 @@ Format as JSON object (EACH statement must start with "- "):
   "statements": [
     ["- Version A of statement 1", "- Version B of statement 1", "- Version C of statement 1"]
   ],
+  "impactAssessment": {"strength": 50, "missingLevers": ["money"], "summary": "One short sentence on what's weak"},
   "clarifyingQuestions": [
-    {"question": "Question text?", "category": "impact", "hint": "Brief hint"}
+    {"question": "Question text?", "category": "impact", "hint": "Brief hint", "lever": "money"}
   ]
 }` : `
 Format as JSON array of arrays (EACH statement must start with "- "):
@@ -949,6 +980,7 @@ Format as JSON array of arrays (EACH statement must start with "- "):
           const jsonObjMatch = text.match(/\{[\s\S]*"statements"[\s\S]*\}/);
           if (jsonObjMatch) {
             const parsed = JSON.parse(jsonObjMatch[0]);
+            categoryImpactAssessment = parseImpactAssessment(parsed.impactAssessment);
             const statementsData = parsed.statements || [];
             const parsedVersions = parseStatementResponse(JSON.stringify(statementsData), statementsPerEntry);
             for (const versions of parsedVersions) {
@@ -1064,8 +1096,9 @@ Format as JSON object (EACH statement must start with "- "):
   "statements": [
     ["- Version A of statement 1", "- Version B of statement 1", "- Version C of statement 1"]
   ],
+  "impactAssessment": {"strength": 50, "missingLevers": ["money"], "summary": "One short sentence on what's weak"},
   "clarifyingQuestions": [
-    {"question": "Question text?", "category": "impact", "hint": "Brief hint"}
+    {"question": "Question text?", "category": "impact", "hint": "Brief hint", "lever": "money"}
   ]
 }` : `
 Format as JSON array of arrays (EACH statement must start with "- "):
@@ -1089,6 +1122,7 @@ Format as JSON array of arrays (EACH statement must start with "- "):
             const jsonObjMatch = text.match(/\{[\s\S]*"statements"[\s\S]*\}/);
             if (jsonObjMatch) {
               const parsedObj = JSON.parse(jsonObjMatch[0]);
+              categoryImpactAssessment ??= parseImpactAssessment(parsedObj.impactAssessment);
               const statementsData = parsedObj.statements || [];
               const parsedVersions = parseStatementResponse(JSON.stringify(statementsData), statementsPerEntry);
               for (const versions of parsedVersions) {
@@ -1126,6 +1160,7 @@ Format as JSON array of arrays (EACH statement must start with "- "):
           category: category.key,
           statementGroups: categoryResults,
           ...(categoryClarifyingQuestions.length > 0 && { clarifyingQuestions: categoryClarifyingQuestions }),
+          ...(categoryImpactAssessment && { impactAssessment: categoryImpactAssessment }),
         });
       }
     }
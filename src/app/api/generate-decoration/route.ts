@@ -18,7 +18,7 @@ import {
   expandAbbreviations,
 } from "@/lib/decoration-prompts";
 import type { DecorationAwardType, DecorationReason } from "@/lib/decoration-constants";
-import { DECORATION_TYPES } from "@/lib/decoration-constants";
+import { getServiceDecoration, getServiceProfile, resolveServiceForRank } from "@/lib/service-profiles";
 import type { UserLLMSettings } from "@/types/database";
 import { scanTextForLLM } from "@/lib/sensitive-data-scanner";
 import { checkAndTrackUsage } from "@/lib/usage-tracker";
@@ -124,8 +124,19 @@ export async function POST(request: Request) {
       }
     }
     
+    // Ratee's service picks the medal names and closing sentence. Managed members
+    // have no profile row, so they follow their rank, then the writer's service.
+    // profiles.service is newer than the generated Supabase types.
+    const { data: serviceRows } = await supabase
+      .from("profiles")
+      .select("id, service")
+      .in("id", [user.id, body.rateeId].filter(Boolean));
+    const rows = (serviceRows ?? []) as { id: string; service?: string }[];
+    const storedService = (rows.find((r) => r.id === body.rateeId) ?? rows.find((r) => r.id === user.id))?.service;
+    const serviceProfile = getServiceProfile(resolveServiceForRank(body.rateeRank, storedService));
+
     // Get decoration config
-    const decorationConfig = DECORATION_TYPES.find(d => d.key === body.awardType);
+    const decorationConfig = getServiceDecoration(serviceProfile.key, body.awardType);
     if (!decorationConfig) {
       return NextResponse.json(
         { error: "Invalid award type" },
@@ -218,6 +229,9 @@ export async function POST(request: Request) {
         gender: body.rateeGender,
         maxCharacters: decorationConfig.maxCharacters,
         approvedAbbreviations: abbreviationsText,
+        decorationConfig,
+        serviceName: serviceProfile.name,
+        serviceFullName: serviceProfile.fullName,
       });
     }
 
@@ -12,7 +12,7 @@ import {
 } from "@/lib/billing/billable-request";
 import { handleLLMError } from "@/lib/llm-error-handler";
 import { enforceUsageGate } from "@/lib/usage-gate";
-import { scanAccomplishmentsForLLM } from "@/lib/sensitive-data-scanner";
+import { scanAccomplishmentsForLLM, scanTextForLLM } from "@/lib/sensitive-data-scanner";
 import { resolveRequestedModel } from "@/app/actions/ai-models";
 import { checkAndTrackUsage } from "@/lib/usage-tracker";
 import { appendUserRulesToPrompt } from "@/lib/prompt-rules/server";
@@ -41,6 +41,8 @@ interface GenerateSlotRequest {
   rateeAfsc: string;
   rateeId?: string;
   cycleYear?: number;
+  // Impact Booster details saved on the section (see buildImpactBoosterContext)
+  clarifyingContext?: string;
 }
 
 // Banned overused verbs
@@ -66,7 +68,7 @@ export async function POST(request: Request) {
     }
 
     const body: GenerateSlotRequest = await request.json();
-    const { accomplishments, targetChars, model, mpa, rateeRank, rateeAfsc, rateeId, cycleYear } = body;
+    const { accomplishments, targetChars, model, mpa, rateeRank, rateeAfsc, rateeId, cycleYear, clarifyingContext } = body;
     const fillMin = withinLimitTargetMin(targetChars);
 
     if (!accomplishments || accomplishments.length === 0) {
@@ -82,6 +84,14 @@ export async function POST(request: Request) {
       );
     }
 
+    const boosterContext = clarifyingContext?.trim() || "";
+    if (boosterContext && scanTextForLLM(boosterContext).blocked) {
+      return NextResponse.json(
+        { error: "Impact Booster details contain sensitive data (PII, CUI, or classification markings) that cannot be sent to AI providers. Please remove it before generating." },
+        { status: 400 }
+      );
+    }
+
     // Get user API keys (decrypted)
     const apiKeys = await getDecryptedApiKeys();
     modelId = await resolveRequestedModel(model, "generate");
@@ -144,7 +154,11 @@ BAD EXAMPLE (run-on, laundry list):
 "Directed 12 Amn rebuilding 8 servers, advancing completion by 29 days, crafted assessment, fixed errors, purged data, averting outage, streamlining access"
 
 TARGET LENGTH: ${targetChars} characters maximum (aim for ${fillMin}-${targetChars}, within 5% of the max)
-${verbVarietyBlock}
+${verbVarietyBlock}${boosterContext ? `
+${boosterContext}
+
+Use the IMPACT BOOSTER details above to quantify AF impact (man-hours, funds/cost avoidance, equipment or manpower) cascading to readiness or mission outcomes. Do NOT invent numbers that are not in the user-provided details.
+` : ""}
 Output ONLY the statement (no period at the end).`;
 
     const systemPrompt = await appendUserRulesToPrompt(
@@ -0,0 +1,258 @@
+import { createClient } from "@/lib/supabase/server";
+import { generateText } from "ai";
+import { NextResponse } from "next/server";
+import { getDecryptedApiKeys } from "@/app/actions/api-keys";
+import { scanAccomplishmentsForLLM } from "@/lib/sensitive-data-scanner";
+import { getModelProvider } from "@/lib/llm-provider";
+import {
+  cacheBillableJson,
+  createBillableRequestContext,
+  getReplayedBillableResponse,
+  handleBillableLLMError,
+  refundAndError,
+  type BillableRequestContext,
+} from "@/lib/billing/billable-request";
+import { handleLLMError } from "@/lib/llm-error-handler";
+import { enforceUsageGate } from "@/lib/usage-gate";
+import { DEFAULT_APP_MODEL_ID } from "@/lib/constants";
+import { formatWeekRange } from "@/lib/format";
+import { resolveRequestedModel } from "@/app/actions/ai-models";
+import { checkAndTrackUsage } from "@/lib/usage-tracker";
+import { isPromptRulesMode } from "@/lib/feature-flags";
+import { getAppFeatureFlags } from "@/lib/feature-flags/server";
+import { appendUserRulesToPrompt } from "@/lib/prompt-rules/server";
+import {
+  DEFAULT_WAR_CATEGORIES,
+  type WARCategory,
+  type WARReport,
+  type WARReportItem,
+} from "@/lib/war-report";
+import {
+  buildWARRollupPrompt,
+  dedupeWARRollupItems,
+  flattenWARReportsForRollup,
+  resolveWARRollupItem,
+  type WARRollupSourceReport,
+} from "@/lib/war-rollup";
+
+// Allow up to 60s for LLM calls
+export const maxDuration = 60;
+
+const MAX_ROLLUP_REPORTS = 25;
+
+interface GenerateWARRollupRequest {
+  reportIds: string[];
+  preparedBy: string;
+  model?: string;
+}
+
+interface SourceReportRow {
+  id: string;
+  user_id: string;
+  week_start: string;
+  week_end: string;
+  prepared_by: string;
+  unit_office_symbol: string | null;
+  content: WARRollupSourceReport["content"];
+}
+
+export async function POST(request: Request) {
+  let modelId: string | undefined;
+  let billableCtx: BillableRequestContext | null = null;
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser();
+
+    if (authError || !user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body: GenerateWARRollupRequest = await request.json();
+    const reportIds = [...new Set(Array.isArray(body.reportIds) ? body.reportIds : [])];
+
+    if (reportIds.length < 2) {
+      return NextResponse.json(
+        { error: "Select at least two reports to roll up" },
+        { status: 400 }
+      );
+    }
+    if (reportIds.length > MAX_ROLLUP_REPORTS) {
+      return NextResponse.json(
+        { error: `A roll-up can include at most ${MAX_ROLLUP_REPORTS} reports` },
+        { status: 400 }
+      );
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data: reportData, error: reportError } = await (supabase.from("war_reports") as any)
+      .select("id, user_id, week_start, week_end, prepared_by, unit_office_symbol, content")
+      .in("id", reportIds);
+
+    const reports = (reportData ?? []) as SourceReportRow[];
+    if (reportError || reports.length !== reportIds.length) {
+      return NextResponse.json({ error: "One or more reports were not found" }, { status: 404 });
+    }
+
+    // RLS already scopes reads; re-check so only the caller's own and subtree reports roll up
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data: chainData } = await (supabase as any).rpc("get_subordinate_chain", {
+      supervisor_uuid: user.id,
+    });
+    const allowedAuthors = new Set<string>([
+      user.id,
+      ...((chainData ?? []) as { subordinate_id: string }[]).map((c) => c.subordinate_id),
+    ]);
+    if (reports.some((r) => !allowedAuthors.has(r.user_id))) {
+      return NextResponse.json(
+        { error: "You can only roll up reports from your supervision chain" },
+        { status: 403 }
+      );
+    }
+
+    const weekStart = reports[0].week_start;
+    const weekEnd = reports[0].week_end;
+    if (reports.some((r) => r.week_start !== weekStart)) {
+      return NextResponse.json(
+        { error: "All reports in a roll-up must cover the same week" },
+        { status: 400 }
+      );
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data: linkData } = await (supabase.from("war_accomplishments") as any)
+      .select("war_id, accomplishment_id, category, display_order")
+      .in("war_id", reportIds);
+    const links = (linkData ?? []) as {
+      war_id: string;
+      accomplishment_id: string;
+      category: string;
+      display_order: number;
+    }[];
+
+    // Keep the order the caller picked so earlier reports win ties when de-duplicating
+    const orderedReports = reportIds.map((id) => reports.find((r) => r.id === id)!);
+    const flattened = flattenWARReportsForRollup(
+      orderedReports.map((r) => ({
+        id: r.id,
+        prepared_by: r.prepared_by,
+        unit_office_symbol: r.unit_office_symbol,
+        content: r.content,
+        links: links.filter((l) => l.war_id === r.id),
+      }))
+    );
+    const items = dedupeWARRollupItems(flattened);
+
+    if (items.length === 0) {
+      return NextResponse.json(
+        { error: "The selected reports have no bullets to roll up" },
+        { status: 400 }
+      );
+    }
+
+    const itemScan = scanAccomplishmentsForLLM(items.map((item) => ({ details: item.text })));
+    if (itemScan.blocked) {
+      return NextResponse.json(
+        { error: "Reports contain sensitive data (PII, CUI, or classification markings) that cannot be sent to AI providers. Please remove it before generating." },
+        { status: 400 }
+      );
+    }
+
+    // Re-categorize against the roll-up author's own WAR settings
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data: settingsData } = await (supabase.from("war_settings") as any)
+      .select("categories, unit_office_symbol, synthesis_instructions")
+      .eq("user_id", user.id)
+      .maybeSingle();
+    const categories: WARCategory[] = settingsData?.categories?.length
+      ? settingsData.categories
+      : DEFAULT_WAR_CATEGORIES;
+
+    const userKeys = await getDecryptedApiKeys();
+    modelId = await resolveRequestedModel(body.model || DEFAULT_APP_MODEL_ID, "generate");
+
+    billableCtx = {
+      ...(await createBillableRequestContext(request, user.id)),
+      usageCheck: null,
+    };
+
+    const replayed = await getReplayedBillableResponse(billableCtx);
+    if (replayed) return replayed;
+
+    const usageCheck = await checkAndTrackUsage(user.id, "generate_war", modelId, userKeys, billableCtx.idempotencyKey);
+    billableCtx.usageCheck = usageCheck;
+    if (!usageCheck.allowed) {
+      return enforceUsageGate(usageCheck);
+    }
+
+    const modelProvider = getModelProvider(usageCheck.effectiveModel, userKeys, usageCheck.tracking);
+
+    const featureFlags = await getAppFeatureFlags();
+    const synthesisInstructions = isPromptRulesMode(featureFlags)
+      ? null
+      : settingsData?.synthesis_instructions ?? null;
+    const prompt = await appendUserRulesToPrompt(
+      buildWARRollupPrompt(items, categories, synthesisInstructions),
+      user.id,
+      "war",
+    );
+
+    const { text } = await generateText({
+      model: modelProvider,
+      prompt,
+      temperature: 0.3,
+      maxOutputTokens: 3000,
+    });
+
+    let parsedResponse: { categories: { key: string; label: string; items: unknown[] }[] };
+    try {
+      const jsonMatch = text.match(/\{[\s\S]*\}/);
+      if (!jsonMatch) {
+        throw new Error("No JSON found in response");
+      }
+      parsedResponse = JSON.parse(jsonMatch[0]);
+    } catch (parseError) {
+      console.error("Error parsing WAR roll-up response:", parseError, "\nRaw text:", text);
+      return refundAndError(billableCtx, { error: "Failed to parse AI response. Please try again." }, { status: 500 });
+    }
+
+    if (!parsedResponse.categories || !Array.isArray(parsedResponse.categories)) {
+      return refundAndError(billableCtx, { error: "Invalid response structure from AI" }, { status: 500 });
+    }
+
+    const report: WARReport = {
+      header: {
+        date_range: formatWeekRange(new Date(`${weekStart}T00:00:00`), new Date(`${weekEnd}T00:00:00`)),
+        unit_office_symbol: settingsData?.unit_office_symbol ?? null,
+        prepared_by: body.preparedBy,
+      },
+      categories: parsedResponse.categories.map((c) => ({
+        key: c.key,
+        label: c.label,
+        items: (Array.isArray(c.items) ? c.items : [])
+          .map((item) => resolveWARRollupItem(item, items))
+          .filter((item): item is WARReportItem => item !== null),
+      })),
+    };
+
+    return cacheBillableJson(
+      billableCtx,
+      {
+        report,
+        weekStart,
+        weekEnd,
+        sourceReportIds: reportIds,
+        mergedDuplicates: flattened.length - items.length,
+      },
+      usageCheck
+    );
+  } catch (error) {
+    if (billableCtx) {
+      return handleBillableLLMError(error, "POST /api/generate-war/rollup", modelId, billableCtx);
+    }
+    return handleLLMError(error, "POST /api/generate-war/rollup", modelId);
+  }
+}
@@ -20,19 +20,18 @@ import { checkAndTrackUsage } from "@/lib/usage-tracker";
 import { isPromptRulesMode } from "@/lib/feature-flags";
 import { getAppFeatureFlags } from "@/lib/feature-flags/server";
 import { appendUserRulesToPrompt } from "@/lib/prompt-rules/server";
+import {
+  resolveWARItem,
+  type WARCategory,
+  type WARReport,
+  type WARReportItem,
+} from "@/lib/war-report";
 
 // Allow up to 60s for LLM calls
 export const maxDuration = 60;
 
 const DEFAULT_MODEL = DEFAULT_APP_MODEL_ID;
 
-interface WARCategory {
-  key: string;
-  label: string;
-  description: string;
-  order: number;
-}
-
 interface WAREntry {
   id: string;
   author_name: string;
@@ -57,19 +56,6 @@ interface GenerateWARRequest {
   model?: string;
 }
 
-interface WARReport {
-  header: {
-    date_range: string;
-    unit_office_symbol: string | null;
-    prepared_by: string;
-  };
-  categories: {
-    key: string;
-    label: string;
-    items: string[];
-  }[];
-}
-
 function buildWARPrompt(
   entries: WAREntry[],
   categories: WARCategory[],
@@ -135,14 +121,18 @@ Return a valid JSON object with this exact structure:
     {
       "key": "category_key",
       "label": "Category Label",
-      "items": ["Bullet point 1", "Bullet point 2", ...]
+      "items": [
+        { "text": "Bullet point 1", "sources": [1, 3] },
+        { "text": "Bullet point 2", "sources": [2] }
+      ]
     }
   ]
 }
 
 IMPORTANT:
 - Include ALL categories in your response, even if empty (use empty items array)
-- Each item should be a complete bullet point (no bullet character, just text)
+- Each item "text" should be a complete bullet point (no bullet character, just text)
+- Each item "sources" must list the Entry numbers the bullet was written from (every entry you drew on, at least one)
 - Order categories exactly as specified above
 - Focus on high-impact, actionable items for leadership
 - If multiple entries describe similar work, combine them into a single powerful bullet
@@ -245,7 +235,7 @@ export async function POST(request: Request) {
     });
 
     // Parse the JSON response
-    let parsedResponse: { categories: { key: string; label: string; items: string[] }[] };
+    let parsedResponse: { categories: { key: string; label: string; items: unknown[] }[] };
     
     try {
       // Try to extract JSON from the response (in case there's extra text)
@@ -276,7 +266,8 @@ export async function POST(request: Request) {
       year: "numeric",
     })}`;
 
-    // Build the final report
+    // Build the final report, mapping entry numbers back to accomplishment IDs
+    const entryIds = entries.map((e) => e.id);
     const report: WARReport = {
       header: {
         date_range: dateRange,
@@ -286,7 +277,9 @@ export async function POST(request: Request) {
       categories: parsedResponse.categories.map((c) => ({
         key: c.key,
         label: c.label,
-        items: c.items || [],
+        items: (Array.isArray(c.items) ? c.items : [])
+          .map((item) => resolveWARItem(item, entryIds))
+          .filter((item): item is WARReportItem => item !== null),
       })),
     };
 
@@ -13,7 +13,7 @@ import {
   resolveStoredStyleGuidelines,
   resolveStoredSystemPrompt,
 } from "@/lib/default-llm-prompts";
-import { STANDARD_MGAS, DEFAULT_MPA_DESCRIPTIONS, formatMPAContext, MAX_STATEMENT_CHARACTERS, MAX_HLR_CHARACTERS } from "@/lib/constants";
+import { STANDARD_MGAS, formatMPAContext } from "@/lib/constants";
 import { withinLimitTargetMin } from "@/lib/revise-length-constraint";
 import { getDecryptedApiKeys } from "@/app/actions/api-keys";
 import { getModelProvider } from "@/lib/llm-provider";
@@ -37,7 +37,8 @@ import {
 } from "@/lib/quality-control";
 import type { MPADescriptions, AwardSelection } from "@/types/database";
 import type { Rank, WritingStyle, UserLLMSettings } from "@/types/database";
-import { getChainStyleSignature, getUserStyleSignature, buildSignaturePromptSection } from "@/lib/style-signatures";
+import { getChainStyleSignature, getUserStyleSignature, getMentorPersona, buildSignaturePromptSection } from "@/lib/style-signatures";
+import { buildMentorPersonaPromptSection } from "@/lib/mentor-personas";
 import { scanAccomplishmentsForLLM, scanTextForLLM } from "@/lib/sensitive-data-scanner";
 import {
   appendUserRulesToPrompt,
@@ -61,6 +62,12 @@ import { PERSONNEL_REFERENCE_GUIDANCE } from "@/lib/personnel-reference";
 import { TIME_COMPRESSION_WRITING_GUIDANCE } from "@/lib/stewardship-impact";
 import { clampGenerateVersionCount } from "@/lib/generate-version-count";
 import { statementHistoryRateeFields } from "@/lib/statement-history-ratee";
+import {
+  formatServicePromptContext,
+  getServiceProfile,
+  resolveServiceForRank,
+  type ServiceProfile,
+} from "@/lib/service-profiles";
 
 // Allow up to 90s for multi-version generation (parallel LLM + optional QC)
 export const maxDuration = 90;
@@ -92,6 +99,8 @@ interface GenerateRequest {
   cycleYear: number;
   model: string;
   writingStyle: WritingStyle;
+  /** Persona for writingStyle "mentor"; defaults to the one saved on the profile */
+  mentorPersonaId?: string | null;
   communityMpaFilter?: string | null; // null = all MPAs, or specific MPA key
   communityAfscFilter?: string | null; // null = use ratee's AFSC, or specific AFSC
   accomplishments: AccomplishmentData[];
@@ -252,9 +261,9 @@ async function fetchExampleStatements(
     });
   }
 
-  // PRIORITY 2: Personal examples (if writing style includes personal or chain_of_command)
-  // For chain_of_command: the style signature controls HOW to write; personal examples provide WHAT to write about
-  if (writingStyle === "personal" || writingStyle === "chain_of_command") {
+  // PRIORITY 2: Personal examples (if writing style includes personal, chain_of_command or mentor)
+  // For chain_of_command and mentor: the style signature controls HOW to write; personal examples provide WHAT to write about
+  if (writingStyle === "personal" || writingStyle === "chain_of_command" || writingStyle === "mentor") {
     const { data: personalData } = await supabase
       .from("refined_statements")
       .select("mpa, statement")
@@ -320,6 +329,7 @@ function buildSystemPrompt(
   featureFlags: AppFeatureFlags,
   settings: Partial<UserLLMSettings>,
   rateeRank: Rank,
+  serviceProfile: ServiceProfile,
   examples: ExampleStatement[],
   dutyDescription?: string,
   styleSignatureSection?: string
@@ -337,8 +347,8 @@ function buildSystemPrompt(
     ? formatAbbreviationsList(abbreviations)
     : "No abbreviations configured - use full words";
   
-  // Build MGA list - always use standard MPAs for all users
-  const mgaList = STANDARD_MGAS.map((m) => `- ${m.label}`).join("\n");
+  // Build MGA list - standard MPAs for the ratee's service
+  const mgaList = serviceProfile.standardMgas.map((m) => `- ${m.label}`).join("\n");
   
   // Build rank verb guidance
   const rankVerbGuidance = `Primary verbs: ${rankVerbs.primary.join(", ")}\n  Secondary verbs: ${rankVerbs.secondary.join(", ")}`;
@@ -349,10 +359,10 @@ function buildSystemPrompt(
     featureFlags,
     resolveStoredSystemPrompt,
   );
-  // Always use hardcoded MAX_STATEMENT_CHARACTERS (350) - user settings deprecated
+  // Always use the service profile limit (350) - user settings deprecated
   prompt = prompt.replace(
     /\{\{max_characters_per_statement\}\}/g,
-    String(MAX_STATEMENT_CHARACTERS)
+    String(serviceProfile.limits.statement)
   );
   prompt = prompt.replace(/\{\{ratee_rank\}\}/g, rateeRank);
   prompt = prompt.replace(
@@ -403,6 +413,11 @@ IMPORTANT: Reference the duty description when generating statements to ensure a
     prompt += `\n\n${styleSignatureSection}`;
   }
 
+  const serviceContext = formatServicePromptContext(serviceProfile);
+  if (serviceContext) {
+    prompt += `\n\n${serviceContext}`;
+  }
+
   return prompt;
 }
 
@@ -425,7 +440,7 @@ export async function POST(request: Request) {
     const body: GenerateRequest = await request.json();
     requestModel = body.model;
     const { 
-      rateeId, isManagedMember = false, rateeRank, rateeAfsc, cycleYear, model, writingStyle, 
+      rateeId, isManagedMember = false, rateeRank, rateeAfsc, cycleYear, model, writingStyle, mentorPersonaId,
       communityMpaFilter, communityAfscFilter, accomplishments, selectedMPAs, 
       customContext, customContextOptions, generatePerAccomplishment, dutyDescription, 
       epbStatements, fillToMax = true, enforceCharacterLimits: shouldEnforceCharLimits = true,
@@ -620,11 +635,35 @@ export async function POST(request: Request) {
       } catch (err) {
         console.error("[generate] Personal style signature error:", err);
       }
+    } else if (!usageCheck.usingDefaultKey && effectiveWritingStyle === "mentor") {
+      // Mentor: a persona the mentor may have revoked since it was picked; fall back to none
+      try {
+        const persona = await getMentorPersona(user.id, mentorPersonaId);
+        if (persona) {
+          styleSignatureSection = buildMentorPersonaPromptSection(
+            persona.display_name,
+            persona.signature_text
+          );
+        }
+      } catch (err) {
+        console.error("[generate] Mentor persona error:", err);
+      }
     }
     // For "community" style: no signature injection, rely on community examples
 
     const featureFlags = await getAppFeatureFlags();
 
+    // Managed members have no stored service; they follow their rank, then the writer's.
+    // profiles.service is newer than the generated Supabase types.
+    const { data: serviceRow } = await supabase
+      .from("profiles")
+      .select("service")
+      .eq("id", isManagedMember ? user.id : rateeId)
+      .maybeSingle();
+    const serviceProfile = getServiceProfile(
+      resolveServiceForRank(rateeRank, (serviceRow as { service?: string } | null)?.service),
+    );
+
     const rulesContext: PromptRuleContext =
       statementType === "opb" ? "opb" : "epb";
     const systemPrompt = await appendUserRulesToPrompt(
@@ -632,6 +671,7 @@ export async function POST(request: Request) {
         featureFlags,
         settings,
         rateeRank,
+        serviceProfile,
         examples,
         dutyDescription,
         styleSignatureSection,
@@ -651,11 +691,10 @@ export async function POST(request: Request) {
       {} as Record<string, AccomplishmentData[]>
     );
 
-    // Always use standard MPAs for all users
-    // Always use hardcoded constants - user settings deprecated
-    const maxChars = MAX_STATEMENT_CHARACTERS; // 350 for regular MPAs
-    const maxHlrChars = MAX_HLR_CHARACTERS; // 250 for HLR Assessment
-    const mpaDescriptions: MPADescriptions = (settings as { mpa_descriptions?: MPADescriptions }).mpa_descriptions || DEFAULT_MPA_DESCRIPTIONS;
+    // Standard MPAs and limits come from the ratee's service profile - user settings deprecated
+    const maxChars = serviceProfile.limits.statement; // 350 for regular MPAs
+    const maxHlrChars = serviceProfile.limits.hlr; // 250 for HLR Assessment
+    const mpaDescriptions: MPADescriptions = (settings as { mpa_descriptions?: MPADescriptions }).mpa_descriptions || serviceProfile.mpaDescriptions;
     const results: {
       mpa: string;
       statements: string[];
@@ -676,8 +715,8 @@ export async function POST(request: Request) {
 
     // Determine which MPAs to generate for
     const mpasToGenerate = selectedMPAs && selectedMPAs.length > 0 
-      ? STANDARD_MGAS.filter(mpa => selectedMPAs.includes(mpa.key))
-      : STANDARD_MGAS;
+      ? serviceProfile.standardMgas.filter(mpa => selectedMPAs.includes(mpa.key))
+      : serviceProfile.standardMgas;
 
     // Fetch the ratee's existing MPA statements ONCE for cross-MPA verb variety.
     // Filtered per-MPA in memory below to avoid one query per MPA in the loop.
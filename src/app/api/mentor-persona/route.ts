@@ -0,0 +1,155 @@
+import { createAdminClient, createClient } from "@/lib/supabase/server";
+import { NextRequest, NextResponse } from "next/server";
+import { getDecryptedApiKeys } from "@/app/actions/api-keys";
+import { MIN_MENTOR_PERSONA_SOURCES } from "@/lib/mentor-personas";
+import { countMentorPersonaSources, generateMentorPersona } from "@/lib/style-signatures";
+
+export const maxDuration = 60;
+
+const COOLDOWN_MINUTES = 5;
+
+const PERSONA_COLUMNS = "id, display_name, source_comment_count, version, updated_at";
+
+// GET: The caller's persona (if opted in) and how much accepted feedback backs it
+export async function GET() {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data: persona } = await (supabase.from("mentor_personas" as never) as any)
+      .select(PERSONA_COLUMNS)
+      .eq("mentor_id", user.id)
+      .maybeSingle();
+
+    const eligibleSources = await countMentorPersonaSources(user.id);
+
+    return NextResponse.json({
+      persona: persona ?? null,
+      eligibleSources,
+      minSources: MIN_MENTOR_PERSONA_SOURCES,
+    });
+  } catch (error) {
+    console.error("[mentor-persona] GET error:", error);
+    return NextResponse.json({ error: "Failed to load mentor persona" }, { status: 500 });
+  }
+}
+
+// POST: Opt in, or refresh the persona from newly accepted feedback
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const displayName =
+      typeof body.displayName === "string"
+        ? body.displayName.replace(/<[^>]*>/g, "").trim().slice(0, 100)
+        : "";
+
+    if (!displayName) {
+      return NextResponse.json({ error: "Display name is required" }, { status: 400 });
+    }
+
+    // Same cooldown bookkeeping as the style signature refresh (not billable).
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const admin = createAdminClient() as any;
+    const cooldownCutoff = new Date(Date.now() - COOLDOWN_MINUTES * 60 * 1000).toISOString();
+
+    const { count } = await admin
+      .from("api_usage")
+      .select("id", { count: "exact", head: true })
+      .eq("user_id", user.id)
+      .eq("action_type", "refresh_mentor_persona")
+      .gte("created_at", cooldownCutoff);
+
+    if (count && count > 0) {
+      return NextResponse.json(
+        { error: `Your mentor persona can only be refreshed once every ${COOLDOWN_MINUTES} minutes.` },
+        { status: 429 },
+      );
+    }
+
+    const userKeys = await getDecryptedApiKeys();
+    const result = await generateMentorPersona(user.id, displayName, userKeys);
+
+    if (result === "not_enough_feedback") {
+      return NextResponse.json(
+        {
+          error: `Mentees need to accept at least ${MIN_MENTOR_PERSONA_SOURCES} of your signed-in review comments or rewrites first.`,
+        },
+        { status: 400 },
+      );
+    }
+
+    if (result === "quota_exhausted") {
+      return NextResponse.json(
+        { error: "Style analysis limit reached. Add your own API key or try again later." },
+        { status: 429 },
+      );
+    }
+
+    await admin.from("api_usage").insert({
+      user_id: user.id,
+      action_type: "refresh_mentor_persona",
+      used_default_key: false,
+      model_id: null,
+      provider: null,
+    });
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data: persona } = await (supabase.from("mentor_personas" as never) as any)
+      .select(PERSONA_COLUMNS)
+      .eq("mentor_id", user.id)
+      .maybeSingle();
+
+    return NextResponse.json({ success: true, regenerated: result === "generated", persona: persona ?? null });
+  } catch (error) {
+    console.error("[mentor-persona] POST error:", error);
+    return NextResponse.json({ error: "Failed to build mentor persona" }, { status: 500 });
+  }
+}
+
+// DELETE: Revoke the persona. Mentees who picked it fall back to personal style.
+export async function DELETE() {
+  try {
+    const supabase = await createClient();
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { error } = await (supabase.from("mentor_personas" as never) as any)
+      .delete()
+      .eq("mentor_id", user.id);
+
+    if (error) {
+      console.error("[mentor-persona] DELETE error:", error.message);
+      return NextResponse.json({ error: "Failed to revoke mentor persona" }, { status: 500 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[mentor-persona] DELETE error:", error);
+    return NextResponse.json({ error: "Failed to revoke mentor persona" }, { status: 500 });
+  }
+}
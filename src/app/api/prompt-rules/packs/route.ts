@@ -0,0 +1,227 @@
+import { createClient } from "@/lib/supabase/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  MAX_RULE_PACKS_PER_USER,
+  MAX_RULE_PACK_NAME_LENGTH,
+} from "@/lib/prompt-rules/constants";
+import { checkPromptRulesRateLimit } from "@/lib/prompt-rules/rate-limit";
+import type { PromptRulePack } from "@/types/database";
+
+const nameSchema = z
+  .string()
+  .trim()
+  .min(1, "Pack name is required")
+  .max(MAX_RULE_PACK_NAME_LENGTH);
+
+const createPackSchema = z.object({
+  name: nameSchema,
+});
+
+const updatePackSchema = z.object({
+  id: z.string().uuid(),
+  name: nameSchema.optional(),
+  isPublished: z.boolean().optional(),
+});
+
+const deletePackSchema = z.object({
+  id: z.string().uuid(),
+});
+
+const PACK_SELECT = "*, rules:prompt_rule_pack_rules(*)";
+
+function sortPackRules(pack: PromptRulePack): PromptRulePack {
+  return {
+    ...pack,
+    rules: [...(pack.rules ?? [])].sort(
+      (a, b) =>
+        a.sort_order - b.sort_order || a.created_at.localeCompare(b.created_at),
+    ),
+  };
+}
+
+async function readBody(request: Request): Promise<unknown | null> {
+  try {
+    return await request.json();
+  } catch {
+    return null;
+  }
+}
+
+/** Packs the current user owns, with their rules. */
+export async function GET() {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data, error } = await (supabase.from("prompt_rule_packs") as any)
+    .select(PACK_SELECT)
+    .eq("owner_id", user.id)
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    return NextResponse.json({ error: "Failed to load rule packs" }, { status: 500 });
+  }
+
+  return NextResponse.json({
+    packs: ((data ?? []) as PromptRulePack[]).map(sortPackRules),
+  });
+}
+
+export async function POST(request: Request) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!checkPromptRulesRateLimit(user.id)) {
+    return NextResponse.json(
+      { error: "Too many requests. Please wait a moment." },
+      { status: 429 },
+    );
+  }
+
+  const body = await readBody(request);
+  if (body === null) {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const parsed = createPackSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message ?? "Invalid request" },
+      { status: 400 },
+    );
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const fromPacks = () => supabase.from("prompt_rule_packs") as any;
+
+  const { count, error: countError } = await fromPacks()
+    .select("id", { count: "exact", head: true })
+    .eq("owner_id", user.id);
+
+  if (countError) {
+    return NextResponse.json({ error: "Failed to create rule pack" }, { status: 500 });
+  }
+  if ((count ?? 0) >= MAX_RULE_PACKS_PER_USER) {
+    return NextResponse.json(
+      { error: `Maximum ${MAX_RULE_PACKS_PER_USER} rule packs.` },
+      { status: 400 },
+    );
+  }
+
+  const { data, error } = await fromPacks()
+    .insert({ owner_id: user.id, name: parsed.data.name })
+    .select(PACK_SELECT)
+    .single();
+
+  if (error || !data) {
+    return NextResponse.json({ error: "Failed to create rule pack" }, { status: 500 });
+  }
+
+  return NextResponse.json({ pack: sortPackRules(data as PromptRulePack) }, { status: 201 });
+}
+
+export async function PATCH(request: Request) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!checkPromptRulesRateLimit(user.id)) {
+    return NextResponse.json(
+      { error: "Too many requests. Please wait a moment." },
+      { status: 429 },
+    );
+  }
+
+  const body = await readBody(request);
+  if (body === null) {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const parsed = updatePackSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message ?? "Invalid request" },
+      { status: 400 },
+    );
+  }
+
+  const { id, name, isPublished } = parsed.data;
+  const updates: Record<string, unknown> = {};
+  if (name !== undefined) updates.name = name;
+  if (isPublished !== undefined) updates.is_published = isPublished;
+
+  if (Object.keys(updates).length === 0) {
+    return NextResponse.json({ error: "Nothing to update" }, { status: 400 });
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data, error } = await (supabase.from("prompt_rule_packs") as any)
+    .update(updates)
+    .eq("id", id)
+    .eq("owner_id", user.id)
+    .select(PACK_SELECT)
+    .maybeSingle();
+
+  if (error) {
+    return NextResponse.json({ error: "Failed to update rule pack" }, { status: 500 });
+  }
+  if (!data) {
+    return NextResponse.json({ error: "Rule pack not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({ pack: sortPackRules(data as PromptRulePack) });
+}
+
+export async function DELETE(request: Request) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!checkPromptRulesRateLimit(user.id)) {
+    return NextResponse.json(
+      { error: "Too many requests. Please wait a moment." },
+      { status: 429 },
+    );
+  }
+
+  const body = await readBody(request);
+  const parsed = deletePackSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { error } = await (supabase.from("prompt_rule_packs") as any)
+    .delete()
+    .eq("id", parsed.data.id)
+    .eq("owner_id", user.id);
+
+  if (error) {
+    return NextResponse.json({ error: "Failed to delete rule pack" }, { status: 500 });
+  }
+
+  return NextResponse.json({ success: true });
+}
@@ -0,0 +1,157 @@
+import { createClient } from "@/lib/supabase/server";
+import { NextResponse } from "next/server";
+import { z } from "zod";
+import {
+  MAX_RULES_PER_CONTEXT,
+  MAX_RULE_TEXT_LENGTH,
+  PROMPT_RULE_CONTEXTS,
+} from "@/lib/prompt-rules/constants";
+import { checkPromptRulesRateLimit } from "@/lib/prompt-rules/rate-limit";
+import type { PromptRulePackRule } from "@/types/database";
+
+const createPackRuleSchema = z.object({
+  packId: z.string().uuid(),
+  context: z.enum(PROMPT_RULE_CONTEXTS),
+  ruleText: z
+    .string()
+    .trim()
+    .min(1, "Rule text is required")
+    .max(MAX_RULE_TEXT_LENGTH),
+});
+
+const deletePackRuleSchema = z.object({
+  id: z.string().uuid(),
+});
+
+async function readBody(request: Request): Promise<unknown | null> {
+  try {
+    return await request.json();
+  } catch {
+    return null;
+  }
+}
+
+async function ownsPack(
+  supabase: Awaited<ReturnType<typeof createClient>>,
+  userId: string,
+  packId: string,
+): Promise<boolean> {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data } = await (supabase.from("prompt_rule_packs") as any)
+    .select("id")
+    .eq("id", packId)
+    .eq("owner_id", userId)
+    .maybeSingle();
+  return !!data;
+}
+
+export async function POST(request: Request) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!checkPromptRulesRateLimit(user.id)) {
+    return NextResponse.json(
+      { error: "Too many requests. Please wait a moment." },
+      { status: 429 },
+    );
+  }
+
+  const body = await readBody(request);
+  if (body === null) {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+
+  const parsed = createPackRuleSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json(
+      { error: parsed.error.issues[0]?.message ?? "Invalid request" },
+      { status: 400 },
+    );
+  }
+
+  const { packId, context, ruleText } = parsed.data;
+
+  if (!(await ownsPack(supabase, user.id, packId))) {
+    return NextResponse.json({ error: "Rule pack not found" }, { status: 404 });
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const fromPackRules = () => supabase.from("prompt_rule_pack_rules") as any;
+
+  const { data: existing, error: existingError } = await fromPackRules()
+    .select("sort_order")
+    .eq("pack_id", packId)
+    .eq("context", context);
+
+  if (existingError) {
+    return NextResponse.json({ error: "Failed to add rule" }, { status: 500 });
+  }
+
+  const sortOrders = ((existing ?? []) as { sort_order: number }[]).map(
+    (row) => row.sort_order,
+  );
+  if (sortOrders.length >= MAX_RULES_PER_CONTEXT) {
+    return NextResponse.json(
+      { error: `Maximum ${MAX_RULES_PER_CONTEXT} rules per context in a pack.` },
+      { status: 400 },
+    );
+  }
+
+  const { data, error } = await fromPackRules()
+    .insert({
+      pack_id: packId,
+      context,
+      rule_text: ruleText,
+      sort_order: sortOrders.length > 0 ? Math.max(...sortOrders) + 1 : 0,
+    })
+    .select("*")
+    .single();
+
+  if (error || !data) {
+    return NextResponse.json({ error: "Failed to add rule" }, { status: 500 });
+  }
+
+  return NextResponse.json({ rule: data as PromptRulePackRule }, { status: 201 });
+}
+
+export async function DELETE(request: Request) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  if (!checkPromptRulesRateLimit(user.id)) {
+    return NextResponse.json(
+      { error: "Too many requests. Please wait a moment." },
+      { status: 429 },
+    );
+  }
+
+  const body = await readBody(request);
+  const parsed = deletePackRuleSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+  }
+
+  // RLS restricts deletes to rules in packs the user owns
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { error } = await (supabase.from("prompt_rule_pack_rules") as any)
+    .delete()
+    .eq("id", parsed.data.id);
+
+  if (error) {
+    return NextResponse.json({ error: "Failed to delete rule" }, { status: 500 });
+  }
+
+  return NextResponse.json({ success: true });
+}
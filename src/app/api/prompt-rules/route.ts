@@ -6,34 +6,10 @@ import {
   MAX_RULE_TEXT_LENGTH,
   PROMPT_RULE_CONTEXTS,
 } from "@/lib/prompt-rules/constants";
+import { checkPromptRulesRateLimit } from "@/lib/prompt-rules/rate-limit";
+import { getInheritedRulesForContext } from "@/lib/prompt-rules/server";
 import type { PromptRule, PromptRuleContext } from "@/types/database";
 
-const RATE_LIMIT_WINDOW_MS = 60 * 1000;
-const MAX_MUTATIONS_PER_WINDOW = 30;
-
-type RateLimitRecord = { count: number; resetAt: number };
-const mutationRateLimits = new Map<string, RateLimitRecord>();
-
-function checkRateLimit(userId: string): boolean {
-  const now = Date.now();
-  const record = mutationRateLimits.get(userId);
-
-  if (!record || now > record.resetAt) {
-    mutationRateLimits.set(userId, {
-      count: 1,
-      resetAt: now + RATE_LIMIT_WINDOW_MS,
-    });
-    return true;
-  }
-
-  if (record.count >= MAX_MUTATIONS_PER_WINDOW) {
-    return false;
-  }
-
-  record.count += 1;
-  return true;
-}
-
 const contextSchema = z.enum(PROMPT_RULE_CONTEXTS);
 
 const createRuleSchema = z.object({
@@ -145,7 +121,10 @@ export async function GET(request: Request) {
     return NextResponse.json({ error: "Failed to load rules" }, { status: 500 });
   }
 
-  return NextResponse.json({ rules: data ?? [] });
+  // Read-only: rules published by the user's chain of command for this context
+  const inherited = await getInheritedRulesForContext(user.id, parsedContext.data);
+
+  return NextResponse.json({ rules: data ?? [], inherited });
 }
 
 export async function POST(request: Request) {
@@ -158,7 +137,7 @@ export async function POST(request: Request) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
-  if (!checkRateLimit(user.id)) {
+  if (!checkPromptRulesRateLimit(user.id)) {
     return NextResponse.json(
       { error: "Too many requests. Please wait a moment." },
       { status: 429 },
@@ -270,7 +249,7 @@ export async function PATCH(request: Request) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
-  if (!checkRateLimit(user.id)) {
+  if (!checkPromptRulesRateLimit(user.id)) {
     return NextResponse.json(
       { error: "Too many requests. Please wait a moment." },
       { status: 429 },
@@ -388,7 +367,7 @@ export async function DELETE(request: Request) {
     return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
   }
 
-  if (!checkRateLimit(user.id)) {
+  if (!checkPromptRulesRateLimit(user.id)) {
     return NextResponse.json(
       { error: "Too many requests. Please wait a moment." },
       { status: 429 },
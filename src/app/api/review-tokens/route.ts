@@ -52,7 +52,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate shell type
-    if (!["epb", "award", "decoration"].includes(shellType)) {
+    if (!["epb", "opb", "award", "decoration"].includes(shellType)) {
       return NextResponse.json(
         { error: "Invalid shell type" },
         { status: 400 }
@@ -24,6 +24,9 @@ interface EPBShellData {
   sections: Array<{ mpa: string; statement_text: string }> | null;
 }
 
+// OPB review data mirrors the EPB shape (same MPA keys, duty description and cycle)
+type OPBShellData = EPBShellData;
+
 interface AwardShellData {
   shell_id: string;
   award_title: string | null;
@@ -136,6 +139,43 @@ export async function GET(
       });
     }
 
+    // OPB shell
+    if (tokenInfo.shell_type === "opb") {
+      const opbResult = await supabase
+        .rpc("get_opb_shell_for_review", { p_token: token } as never);
+      
+      const opbData = opbResult.data as OPBShellData[] | null;
+      const opbError = opbResult.error;
+
+      if (opbError) {
+        console.error("OPB fetch error:", opbError);
+        return NextResponse.json(
+          { error: "Failed to fetch OPB data" },
+          { status: 500 }
+        );
+      }
+
+      if (!opbData || opbData.length === 0) {
+        return NextResponse.json(
+          { error: "OPB not found" },
+          { status: 404 }
+        );
+      }
+
+      const opb = opbData[0];
+      return NextResponse.json({
+        shellType: "opb",
+        shellId: opb.shell_id,
+        rateeName: opb.ratee_name,
+        rateeRank: opb.ratee_rank,
+        linkLabel: opb.link_label,
+        isAnonymous: opb.is_anonymous,
+        cycleYear: opb.cycle_year,
+        dutyDescription: opb.duty_description,
+        sections: opb.sections,
+      });
+    }
+
     // Award shell
     if (tokenInfo.shell_type === "award") {
       const awardResult = await supabase
@@ -20,7 +20,8 @@ import {
   triggerStyleProcessing 
 } from "@/lib/style-learning";
 import type { StyleExampleCategory, WritingStyle } from "@/types/database";
-import { getChainStyleSignature, getUserStyleSignature, buildSignaturePromptSection } from "@/lib/style-signatures";
+import { getChainStyleSignature, getUserStyleSignature, getMentorPersona, buildSignaturePromptSection } from "@/lib/style-signatures";
+import { buildMentorPersonaPromptSection } from "@/lib/mentor-personas";
 import { resolveRequestedModel } from "@/app/actions/ai-models";
 import { checkAndTrackUsage } from "@/lib/usage-tracker";
 import { resolveStoredDutyDescriptionPrompt, DEFAULT_DUTY_DESCRIPTION_PROMPT } from "@/lib/default-llm-prompts";
@@ -71,6 +72,7 @@ interface ReviseSelectionRequest {
   category?: StyleExampleCategory; // MPA category for style learning
   isDutyDescription?: boolean; // If true, use duty-description-specific prompt (scope/responsibility, not performance)
   writingStyle?: WritingStyle; // Writing style preference for style signature injection
+  mentorPersonaId?: string | null; // Persona for writingStyle "mentor" (defaults to the profile's)
   rateeRank?: string; // Rank of the ratee (for style signature lookup)
   rateeAfsc?: string; // AFSC of the ratee (for style signature lookup)
 }
@@ -379,6 +381,7 @@ export async function POST(request: Request) {
       category,
       isDutyDescription = false,
       writingStyle,
+      mentorPersonaId,
       rateeRank,
       rateeAfsc,
     } = body;
@@ -615,6 +618,20 @@ Your goal is to SIGNIFICANTLY transform the selected text:
         }
       }
     }
+    if (!usageCheck.usingDefaultKey && !isDutyDescription && (writingStyle || "personal") === "mentor") {
+      // Mentor personas are not scoped to rank/AFSC
+      try {
+        const persona = await getMentorPersona(user.id, mentorPersonaId);
+        if (persona) {
+          styleSignatureSection = buildMentorPersonaPromptSection(
+            persona.display_name,
+            persona.signature_text
+          );
+        }
+      } catch (err) {
+        console.error("[revise-selection] Mentor persona error:", err);
+      }
+    }
 
     // Build system prompt - duty descriptions have fundamentally different writing rules
     const featureFlags = await getAppFeatureFlags();
@@ -0,0 +1,50 @@
+import { createClient } from "@/lib/supabase/server";
+import { NextResponse } from "next/server";
+import { embedSearchQuery } from "@/lib/search-embeddings";
+import {
+  DEFAULT_SEARCH_LIMIT,
+  buildSearchHref,
+  normalizeSearchQuery,
+  type WorkspaceSearchResult,
+  type WorkspaceSearchRow,
+} from "@/lib/workspace-search";
+
+/** Ranked search across everything the user can see. GET /api/search?q= */
+export async function GET(request: Request) {
+  const supabase = await createClient();
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  const { searchParams } = new URL(request.url);
+  const query = normalizeSearchQuery(searchParams.get("q"));
+  if (!query) {
+    return NextResponse.json({ results: [] });
+  }
+
+  const limit = Number(searchParams.get("limit")) || DEFAULT_SEARCH_LIMIT;
+  // null when embeddings are unavailable; the RPC then matches on words only
+  const embedding = await embedSearchQuery(query);
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data, error } = await (supabase.rpc as any)("search_workspace", {
+    p_query: query,
+    p_limit: limit,
+    p_embedding: embedding,
+  });
+
+  if (error) {
+    console.error("[search] search_workspace error:", error.message);
+    return NextResponse.json({ error: "Search failed" }, { status: 500 });
+  }
+
+  const results: WorkspaceSearchResult[] = ((data ?? []) as WorkspaceSearchRow[]).map(
+    (row) => ({ ...row, href: buildSearchHref(row, query) }),
+  );
+
+  return NextResponse.json({ query, results });
+}
@@ -54,7 +54,7 @@ function getSiteUrl(): string {
 }
 
 function parseShellType(value: unknown): ReviewShellType {
-  if (value === "award" || value === "decoration" || value === "epb") {
+  if (value === "award" || value === "decoration" || value === "epb" || value === "opb") {
     return value;
   }
   return "epb";
@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { getAcaWorksheetRubric, normalizeAcaWorksheet } from "@/lib/aca-worksheet";
+import {
+  buildAcaWorksheetLayout,
+  getAcaWorksheetFileName,
+  renderAcaWorksheetPdf,
+  type AcaWorksheetEvidenceItem,
+} from "@/lib/aca-worksheet-export";
+import type { FeedbackType, Rank } from "@/types/database";
+
+interface WorksheetFeedbackRow {
+  id: string;
+  subordinate_id: string | null;
+  team_member_id: string | null;
+  feedback_type: FeedbackType;
+  cycle_year: number;
+  aca_worksheet: unknown;
+}
+
+interface RateeRow {
+  full_name: string | null;
+  first_name?: string | null;
+  last_name?: string | null;
+  rank: string | null;
+  afsc: string | null;
+  unit: string | null;
+}
+
+function formatFormName(row: RateeRow): string {
+  if (row.last_name && row.first_name) {
+    return `${row.last_name}, ${row.first_name}`;
+  }
+  return row.full_name?.trim() || "Unknown Ratee";
+}
+
+// GET: Render the rater's ACA worksheet as a 931/932 layout PDF
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ feedbackId: string }> }
+) {
+  try {
+    const supabase = await createClient();
+    const { feedbackId } = await params;
+
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // The worksheet is the rater's private prep, so only the supervisor exports it
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const { data: feedbackData, error: feedbackError } = await (supabase as any)
+      .from("supervisor_feedbacks")
+      .select("id, subordinate_id, team_member_id, feedback_type, cycle_year, aca_worksheet")
+      .eq("id", feedbackId)
+      .eq("supervisor_id", user.id)
+      .maybeSingle();
+
+    if (feedbackError || !feedbackData) {
+      return NextResponse.json({ error: "Feedback not found" }, { status: 404 });
+    }
+
+    const feedback = feedbackData as WorksheetFeedbackRow;
+
+    const [rateeResult, raterResult] = await Promise.all([
+      feedback.team_member_id
+        ? supabase
+            .from("team_members")
+            .select("full_name, rank, afsc, unit")
+            .eq("id", feedback.team_member_id)
+            .maybeSingle()
+        : supabase
+            .from("profiles")
+            .select("full_name, first_name, last_name, rank, afsc, unit")
+            .eq("id", feedback.subordinate_id!)
+            .maybeSingle(),
+      supabase.from("profiles").select("full_name, rank").eq("id", user.id).maybeSingle(),
+    ]);
+
+    const rateeRow = rateeResult.data as RateeRow | null;
+    if (!rateeRow) {
+      return NextResponse.json({ error: "Ratee not found" }, { status: 404 });
+    }
+
+    const rank = (rateeRow.rank as Rank | null) ?? null;
+    const rubric = getAcaWorksheetRubric(rank);
+    if (!rubric) {
+      return NextResponse.json(
+        { error: "No ACA form applies to this ratee's grade" },
+        { status: 400 }
+      );
+    }
+
+    const worksheet = normalizeAcaWorksheet(feedback.aca_worksheet, rubric);
+
+    let initialWorksheet = null;
+    if (feedback.feedback_type === "midterm") {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      let initialQuery = (supabase as any)
+        .from("supervisor_feedbacks")
+        .select("aca_worksheet")
+        .eq("supervisor_id", user.id)
+        .eq("feedback_type", "initial")
+        .eq("cycle_year", feedback.cycle_year);
+      initialQuery = feedback.team_member_id
+        ? initialQuery.eq("team_member_id", feedback.team_member_id)
+        : initialQuery.eq("subordinate_id", feedback.subordinate_id);
+      const { data: initialRow } = await initialQuery.maybeSingle();
+      const raw = (initialRow as { aca_worksheet: unknown } | null)?.aca_worksheet;
+      initialWorksheet = raw ? normalizeAcaWorksheet(raw, rubric) : null;
+    }
+
+    const evidenceIds = [
+      ...new Set(Object.values(worksheet.ratings).flatMap((rating) => rating.evidence_ids)),
+    ];
+    let evidence: AcaWorksheetEvidenceItem[] = [];
+    if (evidenceIds.length > 0) {
+      const { data: evidenceRows } = await supabase
+        .from("accomplishments")
+        .select("id, date, action_verb, details")
+        .in("id", evidenceIds);
+      evidence = (evidenceRows ?? []) as AcaWorksheetEvidenceItem[];
+    }
+
+    const rater = raterResult.data as { full_name: string | null; rank: string | null } | null;
+    const layout = buildAcaWorksheetLayout({
+      worksheet,
+      initialWorksheet,
+      feedbackType: feedback.feedback_type,
+      cycleYear: feedback.cycle_year,
+      ratee: {
+        name: formatFormName(rateeRow),
+        rank,
+        afsc: rateeRow.afsc,
+        unit: rateeRow.unit,
+      },
+      raterName: rater ? [rater.rank, rater.full_name].filter(Boolean).join(" ") || null : null,
+      evidence,
+    });
+
+    const pdf = await renderAcaWorksheetPdf(layout);
+    const fileName = getAcaWorksheetFileName(layout);
+
+    return new NextResponse(Buffer.from(pdf), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("ACA worksheet export error:", error);
+    return NextResponse.json(
+      { error: "Failed to export ACA worksheet" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { loadUnitDashboard } from "@/lib/unit-dashboard-loader";
+import { buildUnitDashboardCsv, getUnitDashboardCsvFileName } from "@/lib/unit-dashboard";
+
+export const maxDuration = 60;
+
+// GET: Unit EPB readiness as CSV, optionally limited to one flight or supervisor
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const groupBy = searchParams.get("groupBy");
+    const group = searchParams.get("group");
+
+    let rows = await loadUnitDashboard(user.id);
+    if (group && groupBy === "flight") {
+      rows = rows.filter((row) => row.flightKey === group);
+    } else if (group && groupBy === "supervisor") {
+      rows = rows.filter((row) => row.supervisorKey === group);
+    }
+
+    if (rows.length === 0) {
+      return NextResponse.json({ error: "No team members to export" }, { status: 404 });
+    }
+
+    return new NextResponse(buildUnitDashboardCsv(rows), {
+      status: 200,
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${getUnitDashboardCsvFileName()}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("[unit-dashboard] Export error:", error);
+    return NextResponse.json({ error: "Failed to export unit dashboard" }, { status: 500 });
+  }
+}
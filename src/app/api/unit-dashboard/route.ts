@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+import { loadUnitDashboard } from "@/lib/unit-dashboard-loader";
+
+export const maxDuration = 60;
+
+// GET: Readiness rows for everyone in the caller's supervision subtree
+export async function GET() {
+  try {
+    const supabase = await createClient();
+    const {
+      data: { user },
+    } = await supabase.auth.getUser();
+
+    if (!user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const rows = await loadUnitDashboard(user.id);
+    return NextResponse.json({ rows });
+  } catch (error) {
+    console.error("[unit-dashboard] Load error:", error);
+    return NextResponse.json({ error: "Failed to load unit dashboard" }, { status: 500 });
+  }
+}
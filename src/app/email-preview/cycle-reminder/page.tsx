@@ -40,11 +40,20 @@ export default async function CycleReminderEmailPreviewPage() {
     send: "catchup",
     campaign: "scod-msgt-preview",
   });
+  const cro = buildCycleReminderEmail({
+    siteUrl,
+    rank: "SSgt",
+    closeoutDateLabel: "15 July",
+    send: "catchup",
+    periodReason: "cro",
+    campaign: "override-cro-preview",
+  });
 
   const previews = [
     { title: "Normal · 65 days (due to supervisor in 5 days)", email: supervisor },
     { title: "Normal · 45 days (due to chief in 15 days)", email: chief },
     { title: "MSgt catch-up · out of window", email: catchup },
+    { title: "CRO override catch-up · custom close-out", email: cro },
   ];
 
   return (
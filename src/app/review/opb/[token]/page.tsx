@@ -0,0 +1,15 @@
+"use client";
+
+import { use } from "react";
+import { GenericReviewPage } from "@/components/review/generic-review-page";
+
+export default function OPBReviewPage({ params }: { params: Promise<{ token: string }> }) {
+  const resolvedParams = use(params);
+  
+  return (
+    <GenericReviewPage 
+      token={resolvedParams.token} 
+      shellTypeLabel="OPB" 
+    />
+  );
+}
@@ -2,7 +2,7 @@
 
 import Link from "next/link";
 import { usePathname } from "next/navigation";
-import { BarChart3, Shield } from "lucide-react";
+import { BarChart3, BellRing, Shield } from "lucide-react";
 import { cn } from "@/lib/utils";
 
 const ADMIN_LINKS = [
@@ -18,6 +18,12 @@ const ADMIN_LINKS = [
     icon: BarChart3,
     description: "Trial burn, conversion, and free-key cost",
   },
+  {
+    title: "Cycle Reminders",
+    href: "/admin/cycle-reminders",
+    icon: BellRing,
+    description: "Dry run of today's EPB reminder emails",
+  },
 ] as const;
 
 export function AdminNav() {
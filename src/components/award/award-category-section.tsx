@@ -41,12 +41,26 @@ import {
   Pencil,
 } from "lucide-react";
 import { Separator } from "@/components/ui/separator";
-import type { Accomplishment, AwardLevel, AwardCategory, AwardShellSection, AwardClarifyingAnswer } from "@/types/database";
+import type { Accomplishment, AwardLevel, AwardCategory, AwardShellSection, AwardClarifyingAnswer, ImpactBoosterState } from "@/types/database";
 import { useAwardShellStore } from "@/stores/award-shell-store";
 import { handleUsageLimitResponse } from "@/stores/usage-limit-store";
 import type { SectionSlotState } from "@/stores/award-shell-store";
 import { useClarifyingQuestionsStore } from "@/stores/clarifying-questions-store";
 import { ClarifyingQuestionsIndicator, ClarifyingQuestionsModal } from "@/components/generate/clarifying-questions-modal";
+import { ImpactBoosterPanel } from "@/components/epb/impact-booster-panel";
+import {
+  DEFAULT_IMPACT_BOOSTER_PROMPTS,
+  buildImpactBoosterContext,
+  buildImpactBoosterFromDrafts,
+  clearedImpactBooster,
+  hasImpactBoosterContent,
+  mergeImpactAssessment,
+  normalizeImpactBooster,
+  parseImpactBoosterPrompts,
+  seedImpactBoosterDraftFields,
+  type ImpactBoosterDraftFields,
+} from "@/lib/impact-booster";
+import { scanTextForLLM, getScanSummary } from "@/lib/sensitive-data-scanner";
 import { compressText, normalizeSpaces, getVisualLineSegments, AF1206_LINE_WIDTH_PX, toDisplayText, fromDisplayText } from "@/lib/bullet-fitting";
 import { formatShortDateWithYear } from "@/lib/format";
 import { useWordThesaurus } from "@/hooks/use-word-thesaurus";
@@ -263,6 +277,12 @@ function StatementSlotCard({
   
   // Revision intensity: 0-100, controls how much the statement gets rewritten
   const [revisionIntensity, setRevisionIntensity] = useState(50);
+
+  // Impact Booster — saved on the slot and persisted with the package autosave
+  const [includeImpactBooster, setIncludeImpactBooster] = useState(true);
+  const [impactBoosterDraftFields, setImpactBoosterDraftFields] = useState<ImpactBoosterDraftFields>(
+    () => seedImpactBoosterDraftFields(storeSlotState?.impactBooster)
+  );
   
   // Award period filter toggle — default to enabled when period dates exist
   const hasPeriodDates = Boolean(periodStartDate && periodEndDate);
@@ -344,16 +364,61 @@ function StatementSlotCard({
     onUpdate({ draftText: newText, isDirty: true });
   }, [draftText, onUpdate]);
 
+  const impactBooster = storeSlotState?.impactBooster;
+  const impactBoosterPrompts = storeSlotState?.impactBoosterPrompts?.length
+    ? storeSlotState.impactBoosterPrompts
+    : DEFAULT_IMPACT_BOOSTER_PROMPTS;
+
+  // Returns the blocked-content summary, or null when the booster is safe to send
+  const scanImpactBooster = (booster: ImpactBoosterState): string | null => {
+    const context = buildImpactBoosterContext(booster);
+    if (!context) return null;
+    const scan = scanTextForLLM(context);
+    return scan.blocked ? getScanSummary(scan.matches) : null;
+  };
+
+  const handleSaveImpactBooster = (next: ImpactBoosterState) => {
+    const normalized = normalizeImpactBooster(next);
+    const blocked = scanImpactBooster(normalized);
+    if (blocked) {
+      toast.error(blocked, { duration: 10000 });
+      return;
+    }
+    onUpdate({ impactBooster: normalized, isDirty: true });
+  };
+
+  const handleClearImpactBooster = () => {
+    onUpdate({ impactBooster: clearedImpactBooster(), impactBoosterPrompts: [], isDirty: true });
+    setImpactBoosterDraftFields(seedImpactBoosterDraftFields(null));
+  };
+
+  /** Saves unsaved booster drafts and returns the context to inject, if included. */
+  const prepareImpactBoosterForRun = (): string | undefined => {
+    if (!includeImpactBooster) return undefined;
+    const mergedDraft = buildImpactBoosterFromDrafts(impactBooster, impactBoosterPrompts, impactBoosterDraftFields, false);
+    const source = hasImpactBoosterContent(mergedDraft) ? mergedDraft : normalizeImpactBooster(impactBooster);
+    if (!hasImpactBoosterContent(source)) return undefined;
+    const blocked = scanImpactBooster(source);
+    if (blocked) throw new Error(blocked);
+    if (hasImpactBoosterContent(mergedDraft)) {
+      onUpdate({ impactBooster: mergedDraft, isDirty: true });
+      setImpactBoosterDraftFields(seedImpactBoosterDraftFields(mergedDraft));
+    }
+    return buildImpactBoosterContext(source) || undefined;
+  };
+
   // Handle AI generation - generate multiple versions, don't auto-replace
   const handleGenerate = async () => {
     onUpdate({ isGenerating: true });
     setGeneratedVersions([]); // Clear previous versions
     try {
+      const boosterContext = prepareImpactBoosterForRun();
       // Call the generation with version count and capture returned versions
       const versions = await onGenerate(
         undefined,
         hasContent ? revisionIntensity : undefined,
-        versionCount // Pass version count
+        versionCount, // Pass version count
+        boosterContext
       );
       if (versions && versions.length > 0) {
         setGeneratedVersions(versions);
@@ -963,6 +1028,22 @@ function StatementSlotCard({
               </div>
             )}
 
+            {(hasContent || generatedVersions.length > 0 || hasImpactBoosterContent(impactBooster)) && (
+              <ImpactBoosterPanel
+                key={`impact-booster-${slotKey}-${impactBooster?.answers?.length ?? 0}-${impactBooster?.freeform?.length ?? 0}`}
+                booster={impactBooster}
+                prompts={impactBoosterPrompts}
+                isGenerating={slotState.isGenerating}
+                includeInRun={includeImpactBooster}
+                onIncludeInRunChange={setIncludeImpactBooster}
+                draftFields={impactBoosterDraftFields}
+                onDraftFieldsChange={setImpactBoosterDraftFields}
+                onSave={handleSaveImpactBooster}
+                onClearAll={handleClearImpactBooster}
+                scopeLabel="statement"
+              />
+            )}
+
             {/* Version Count Selector */}
             <div className="flex items-center gap-3 pt-2">
               <Label className="text-xs text-muted-foreground">Versions:</Label>
@@ -1091,17 +1172,19 @@ function StatementSlotCard({
 
             setGeneratedVersions([]);
             try {
+              const boosterContext = prepareImpactBoosterForRun();
               const versions = await onGenerate(
                 undefined,
                 hasContent ? revisionIntensity : undefined,
                 versionCount,
-                clarifyingContext
+                [clarifyingContext, boosterContext].filter(Boolean).join("\n\n")
               );
               if (versions && versions.length > 0) {
                 setGeneratedVersions(versions);
               }
             } catch (error) {
               console.error("Regenerate with context error:", error);
+              toast.error(error instanceof Error ? error.message : "Failed to regenerate");
             }
           }}
           isRegenerating={slotState.isGenerating}
@@ -1208,6 +1291,19 @@ export function AwardCategorySectionCard({
       const categoryResult = data.statements?.[0];
       const versions: string[] = categoryResult?.statementGroups?.[0]?.versions || [];
 
+      // Fold the impact assessment and lever-tagged follow-ups into the slot's Impact Booster
+      if (categoryResult?.impactAssessment) {
+        const currentBooster = useAwardShellStore.getState().slotStates[`${categoryKey}:${slotIndex}`]?.impactBooster;
+        onUpdateSlotState(categoryKey, slotIndex, {
+          impactBooster: mergeImpactAssessment(currentBooster, categoryResult.impactAssessment),
+          isDirty: true,
+        });
+      }
+      const boosterPrompts = parseImpactBoosterPrompts(categoryResult?.clarifyingQuestions).filter((p) => p.lever);
+      if (boosterPrompts.length > 0) {
+        onUpdateSlotState(categoryKey, slotIndex, { impactBoosterPrompts: boosterPrompts });
+      }
+
       // Store clarifying questions if returned
       if (categoryResult?.clarifyingQuestions?.length > 0 && nomineeId) {
         const slotMpaKey = `award:${categoryKey}:${slotIndex}`;
@@ -1301,6 +1397,7 @@ export function AwardCategorySectionCard({
       selectedActionIds: s.section.selected_action_ids || [],
       linesPerStatement: s.section.lines_per_statement || 2,
       clarifyingAnswers: s.section.clarifying_answers || [],
+      impactBooster: normalizeImpactBooster(s.section.impact_booster),
     };
   };
 
@@ -36,10 +36,12 @@ import {
 import { ModelSelector } from "@/components/model-selector";
 import { cn } from "@/lib/utils";
 import { toDisplayText, fromDisplayText } from "@/lib/bullet-fitting";
+import { downloadFromApi } from "@/lib/download-file";
 import {
   Award,
   Copy,
   Check,
+  Download,
   Eye,
   Printer,
   Loader2,
@@ -152,6 +154,7 @@ async function persistAwardShellSection(
     custom_context: slotState.customContext,
     selected_action_ids: slotState.selectedActionIds,
     clarifying_answers: slotState.clarifyingAnswers || [],
+    impact_booster: slotState.impactBooster ?? { answers: [] },
     last_edited_by: profileId,
   };
 
@@ -257,6 +260,7 @@ export function AwardWorkspaceDialog({
   const [selectedFeedbackSessionId, setSelectedFeedbackSessionId] = useState<string | null>(null);
   const [feedbackBadgeRefreshKey, setFeedbackBadgeRefreshKey] = useState(0);
   const [copiedAll, setCopiedAll] = useState(false);
+  const [isExportingPdf, setIsExportingPdf] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [showPromptSettings, setShowPromptSettings] = useState(false);
@@ -639,6 +643,34 @@ export function AwardWorkspaceDialog({
     setTimeout(() => setCopiedAll(false), 2000);
     toast.success("Copied to clipboard");
   };
+  // Export the saved package as an AF Form 1206 PDF (server renders with the same width model)
+  const handleExportPdf = async () => {
+    if (!currentShell) return;
+    if (hasUnsavedChanges) {
+      toast.info("Save your changes first - the PDF uses the saved statements");
+      return;
+    }
+    setIsExportingPdf(true);
+    try {
+      const response = await downloadFromApi(
+        `/api/award/${currentShell.id}/export`,
+        `AF1206_${currentShell.cycle_year}.pdf`
+      );
+      const overflowCount = Number(response.headers.get("X-Overflow-Slots") || 0);
+      if (overflowCount > 0) {
+        toast.warning(
+          `${overflowCount} statement${overflowCount === 1 ? "" : "s"} overflow their line target - see the fit report on the last page`
+        );
+      } else {
+        toast.success("AF Form 1206 PDF downloaded");
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to export PDF");
+    } finally {
+      setIsExportingPdf(false);
+    }
+  };
+
 
   // Handle applying feedback suggestions
   const handleApplySuggestion = useCallback(async (sectionKey: string, newText: string) => {
@@ -1300,6 +1332,18 @@ export function AwardWorkspaceDialog({
             >
               Close
             </Button>
+            <Button
+              variant="outline"
+              onClick={handleExportPdf}
+              disabled={previewText.trim() === "" || isExportingPdf}
+            >
+              {isExportingPdf ? (
+                <Loader2 className="size-4 mr-1.5 animate-spin" />
+              ) : (
+                <Download className="size-4 mr-1.5" />
+              )}
+              Export PDF
+            </Button>
             <Button
               onClick={handleCopyAll}
               disabled={previewText.trim() === ""}
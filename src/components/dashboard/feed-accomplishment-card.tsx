@@ -1,6 +1,7 @@
 "use client";
 
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
 import {
   Item,
   ItemActions,
@@ -19,7 +20,7 @@ import { motionListRow, motionTransitionColors } from "@/lib/motion/classes";
 import { cn } from "@/lib/utils";
 import type { FeedAccomplishment } from "@/stores/team-feed-store";
 import type { Rank } from "@/types/database";
-import { Calendar, ChevronRight, Clock } from "lucide-react";
+import { Calendar, ChevronRight, Clock, Star } from "lucide-react";
 
 function authorInitials(name: string) {
   return name
@@ -82,12 +83,25 @@ export interface FeedAccomplishmentCardProps {
   accomplishment: FeedAccomplishment;
   density?: "compact" | "comfortable";
   onSelect: (accomplishment: FeedAccomplishment) => void;
+  /** Whether the viewer has starred this entry (stars are per viewer). */
+  isStarred?: boolean;
+  /** Shows the star toggle when provided. */
+  onToggleStar?: (accomplishment: FeedAccomplishment) => void;
+  /** Shows a checkbox for picking the entry into a WAR. */
+  selectable?: boolean;
+  isSelected?: boolean;
+  onSelectedChange?: (accomplishment: FeedAccomplishment, selected: boolean) => void;
 }
 
 export function FeedAccomplishmentCard({
   accomplishment: acc,
   density = "comfortable",
   onSelect,
+  isStarred = false,
+  onToggleStar,
+  selectable = false,
+  isSelected = false,
+  onSelectedChange,
 }: FeedAccomplishmentCardProps) {
   const mpaLabel = ENTRY_MGAS.find((m) => m.key === acc.mpa)?.label || acc.mpa;
   const isDirectSubordinate = acc.chain_depth === 1;
@@ -104,7 +118,8 @@ export function FeedAccomplishmentCard({
         "w-full cursor-pointer bg-card",
         motionListRow,
         "hover:bg-muted/50 hover:shadow-sm",
-        isDirectSubordinate && "border-l-2 border-l-primary/40"
+        isDirectSubordinate && "border-l-2 border-l-primary/40",
+        selectable && !isSelected && "opacity-60"
       )}
       onClick={() => onSelect(acc)}
       onKeyDown={(e) => {
@@ -114,6 +129,21 @@ export function FeedAccomplishmentCard({
         }
       }}
     >
+      {selectable && (
+        // Checkbox clicks must not open the detail dialog
+        <div
+          className="flex items-center self-center"
+          onClick={(e) => e.stopPropagation()}
+          onKeyDown={(e) => e.stopPropagation()}
+        >
+          <Checkbox
+            checked={isSelected}
+            onCheckedChange={(checked) => onSelectedChange?.(acc, checked === true)}
+            aria-label={`Include entry from ${acc.author_name} in WAR`}
+          />
+        </div>
+      )}
+
       <ItemMedia>
         <FeedAuthorMark
           rank={acc.author_rank}
@@ -140,6 +170,27 @@ export function FeedAccomplishmentCard({
                 {formatTimeAgo(acc.created_at)}
               </span>
             )}
+            {onToggleStar && (
+              <button
+                type="button"
+                className={cn(
+                  "rounded-sm p-0.5 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring",
+                  motionTransitionColors,
+                  isStarred
+                    ? "text-yellow-500"
+                    : "text-muted-foreground/40 hover:text-muted-foreground"
+                )}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onToggleStar(acc);
+                }}
+                onKeyDown={(e) => e.stopPropagation()}
+                aria-pressed={isStarred}
+                aria-label={isStarred ? "Unstar entry" : "Star entry"}
+              >
+                <Star className={cn("size-4", isStarred && "fill-yellow-500")} />
+              </button>
+            )}
             <ChevronRight
               className={cn(
                 "size-4 text-muted-foreground/30 group-hover/item:text-muted-foreground",
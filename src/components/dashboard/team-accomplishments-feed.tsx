@@ -38,6 +38,9 @@ import {
   FolderOpen,
   UserPlus,
   Link2,
+  Layers,
+  Star,
+  ListChecks,
 } from "lucide-react";
 import { ENTRY_MGAS, SUPERVISOR_RANKS, AWARD_QUARTERS, getQuarterDateRange, getFiscalQuarterDateRange, ENLISTED_RANKS, OFFICER_RANKS } from "@/lib/constants";
 import { cn } from "@/lib/utils";
@@ -46,12 +49,14 @@ import {
   formatMonthYear,
   formatDateRange,
 } from "@/lib/format";
+import { selectWAREntries } from "@/lib/war-report";
 import type { AwardQuarter } from "@/types/database";
 import { AccomplishmentDetailDialog } from "./accomplishment-detail-dialog";
 import { FeedAccomplishmentCard } from "./feed-accomplishment-card";
 import { WARSettingsModal } from "./war-settings-modal";
 import { WARViewModal } from "./war-view-modal";
 import { WARHistoryModal } from "./war-history-modal";
+import { WARRollupDialog } from "./war-rollup-dialog";
 import type { Accomplishment, Profile, ManagedMember, Rank } from "@/types/database";
 import {
   Popover,
@@ -63,6 +68,7 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 // TODO: Re-enable when tutorial feature is ready
 // import { useOnboardingStore } from "@/stores/onboarding-store";
 import { useRouter } from "next/navigation";
+import { toast } from "sonner";
 
 // All ranks for filtering (enlisted + officer, excluding civilian for typical use)
 const FEED_FILTER_RANKS = [...ENLISTED_RANKS, ...OFFICER_RANKS];
@@ -145,6 +151,10 @@ export function TeamAccomplishmentsFeed({ cycleYear }: TeamAccomplishmentsFeedPr
     new Set(FEED_FILTER_RANKS.map(r => r.value))
   );
   const [rankFilterOpen, setRankFilterOpen] = useState(false);
+
+  // Viewer's starred entries (per user, not global)
+  const [starredIds, setStarredIds] = useState<Set<string>>(new Set());
+  const [starredOnly, setStarredOnly] = useState(false);
   
   // View mode: list, quarterly, or weekly
   const [viewMode, setViewMode] = useState<"list" | "quarterly" | "weekly">("list");
@@ -154,10 +164,14 @@ export function TeamAccomplishmentsFeed({ cycleYear }: TeamAccomplishmentsFeedPr
   const [warSettingsOpen, setWarSettingsOpen] = useState(false);
   const [warViewOpen, setWarViewOpen] = useState(false);
   const [warHistoryOpen, setWarHistoryOpen] = useState(false);
+  const [rollupWeek, setRollupWeek] = useState<{ start: Date; end: Date } | null>(null);
   const [selectedWeek, setSelectedWeek] = useState<{ start: Date; end: Date; entries: FeedAccomplishment[] } | null>(null);
   const [weeklyLoadedMonths, setWeeklyLoadedMonths] = useState(1); // Start with current month
   const [isLoadingMoreWeeks, setIsLoadingMoreWeeks] = useState(false);
   const [historyReportToView, setHistoryReportToView] = useState<any>(null);
+  // Entries picked for each week's WAR, keyed by week; weeks without a pick use starred-or-all
+  const [warSelections, setWarSelections] = useState<Record<string, string[]>>({});
+  const [curatingWeekKey, setCuratingWeekKey] = useState<string | null>(null);
 
   // Check if user can have subordinates based on rank
   const canHaveSubordinates =
@@ -352,6 +366,57 @@ export function TeamAccomplishmentsFeed({ cycleYear }: TeamAccomplishmentsFeedPr
     setHasSubordinates,
   ]);
 
+  // Load the viewer's stars
+  useEffect(() => {
+    if (!profile) return;
+    let cancelled = false;
+
+    (async () => {
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { data, error } = await (supabase.from("accomplishment_stars") as any)
+        .select("accomplishment_id")
+        .eq("user_id", profile.id);
+
+      if (cancelled) return;
+      if (error) {
+        console.error("Error loading starred entries:", error);
+        return;
+      }
+      setStarredIds(new Set((data as { accomplishment_id: string }[]).map((row) => row.accomplishment_id)));
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [profile, supabase]);
+
+  const handleToggleStar = async (acc: FeedAccomplishment) => {
+    if (!profile) return;
+    const wasStarred = starredIds.has(acc.id);
+
+    const applyStar = (starred: boolean) =>
+      setStarredIds((prev) => {
+        const next = new Set(prev);
+        if (starred) next.add(acc.id);
+        else next.delete(acc.id);
+        return next;
+      });
+
+    // Optimistic; roll back if the write fails
+    applyStar(!wasStarred);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const stars = supabase.from("accomplishment_stars") as any;
+    const { error } = wasStarred
+      ? await stars.delete().eq("user_id", profile.id).eq("accomplishment_id", acc.id)
+      : await stars.insert({ user_id: profile.id, accomplishment_id: acc.id });
+
+    if (error) {
+      console.error("Error updating star:", error);
+      applyStar(wasStarred);
+      toast.error(wasStarred ? "Failed to unstar entry" : "Failed to star entry");
+    }
+  };
+
   // Helper function to build chain for managed members
   async function buildManagedMemberChain(
     memberId: string,
@@ -554,6 +619,11 @@ export function TeamAccomplishmentsFeed({ cycleYear }: TeamAccomplishmentsFeedPr
       });
     }
 
+    // Starred filter
+    if (starredOnly) {
+      filtered = filtered.filter((acc) => starredIds.has(acc.id));
+    }
+
     // Member filter
     if (memberFilter !== "all") {
       filtered = filtered.filter((acc) => {
@@ -600,10 +670,10 @@ export function TeamAccomplishmentsFeed({ cycleYear }: TeamAccomplishmentsFeedPr
     }
 
     return filtered;
-  }, [feedAccomplishments, memberFilter, mpaFilter, timePeriodFilter, enabledRanks, isRankFilterActive]);
+  }, [feedAccomplishments, memberFilter, mpaFilter, timePeriodFilter, enabledRanks, isRankFilterActive, starredOnly, starredIds]);
 
   // Check if any filters are active
-  const hasActiveFilters = memberFilter !== "all" || mpaFilter !== "all" || timePeriodFilter !== "all" || isRankFilterActive;
+  const hasActiveFilters = memberFilter !== "all" || mpaFilter !== "all" || timePeriodFilter !== "all" || isRankFilterActive || starredOnly;
 
   // Clear all filters
   const clearFilters = () => {
@@ -611,6 +681,7 @@ export function TeamAccomplishmentsFeed({ cycleYear }: TeamAccomplishmentsFeedPr
     setMpaFilter("all");
     setTimePeriodFilter("all");
     setEnabledRanks(new Set(FEED_FILTER_RANKS.map((r) => r.value)));
+    setStarredOnly(false);
   };
 
   // Helper to get month key from date string
@@ -847,13 +918,29 @@ export function TeamAccomplishmentsFeed({ cycleYear }: TeamAccomplishmentsFeedPr
     }, 300);
   };
 
+  // Entries that will be sent to WAR generation for a week
+  const getWarEntries = (weekGroup: WeekGroup) =>
+    selectWAREntries(weekGroup.entries, warSelections[weekGroup.key], starredIds);
+
+  const setWeekSelection = (weekKey: string, ids: string[]) => {
+    setWarSelections((prev) => ({ ...prev, [weekKey]: ids }));
+  };
+
+  const handleWarEntrySelectedChange = (weekGroup: WeekGroup, acc: FeedAccomplishment, selected: boolean) => {
+    const current = getWarEntries(weekGroup).map((e) => e.id);
+    setWeekSelection(
+      weekGroup.key,
+      selected ? [...current, acc.id] : current.filter((id) => id !== acc.id)
+    );
+  };
+
   // Handle WAR view click
   const handleViewWar = (weekGroup: WeekGroup) => {
     setHistoryReportToView(null); // Clear any history report reference
     setSelectedWeek({
       start: weekGroup.startDate,
       end: weekGroup.endDate,
-      entries: weekGroup.entries,
+      entries: getWarEntries(weekGroup),
     });
     setWarViewOpen(true);
   };
@@ -1046,6 +1133,18 @@ export function TeamAccomplishmentsFeed({ cycleYear }: TeamAccomplishmentsFeedPr
                 </PopoverContent>
               </Popover>
 
+              {/* Starred Filter */}
+              <Button
+                variant={starredOnly ? "secondary" : "outline"}
+                size="sm"
+                className="h-8 gap-1.5 text-xs"
+                onClick={() => setStarredOnly((prev) => !prev)}
+                aria-pressed={starredOnly}
+              >
+                <Star className={cn("size-3.5", starredOnly && "fill-yellow-500 text-yellow-500")} />
+                Starred
+              </Button>
+
               {/* MPA Filter */}
               <Select value={mpaFilter} onValueChange={setMpaFilter}>
                 <SelectTrigger className="w-auto min-w-[100px] h-8 text-xs">
@@ -1223,12 +1322,36 @@ export function TeamAccomplishmentsFeed({ cycleYear }: TeamAccomplishmentsFeedPr
                             <Badge variant={weekGroup.entries.length > 0 ? "default" : "secondary"} className="text-xs">
                               {weekGroup.entries.length} {weekGroup.entries.length === 1 ? "entry" : "entries"}
                             </Badge>
+                            {weekGroup.entries.length > 0 && (
+                              <Button
+                                variant={curatingWeekKey === weekGroup.key ? "secondary" : "outline"}
+                                size="sm"
+                                className="h-7 gap-1.5 text-xs"
+                                onClick={() =>
+                                  setCuratingWeekKey((prev) => (prev === weekGroup.key ? null : weekGroup.key))
+                                }
+                                aria-pressed={curatingWeekKey === weekGroup.key}
+                              >
+                                <ListChecks className="size-3.5" />
+                                {curatingWeekKey === weekGroup.key ? "Done" : "Select"}
+                              </Button>
+                            )}
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="h-7 gap-1.5 text-xs"
+                              onClick={() => setRollupWeek({ start: weekGroup.startDate, end: weekGroup.endDate })}
+                            >
+                              <Layers className="size-3.5" />
+                              Roll Up
+                            </Button>
                             {weekGroup.entries.length > 0 && (
                               <Button
                                 variant="outline"
                                 size="sm"
                                 className="h-7 gap-1.5 text-xs"
                                 onClick={() => handleViewWar(weekGroup)}
+                                disabled={getWarEntries(weekGroup).length === 0}
                               >
                                 <FileText className="size-3.5" />
                                 View WAR
@@ -1237,23 +1360,76 @@ export function TeamAccomplishmentsFeed({ cycleYear }: TeamAccomplishmentsFeedPr
                           </div>
                         </div>
                         
-                        {weekGroup.entries.length > 0 && (
-                          <div className="border-t pt-3 space-y-2">
-                            {weekGroup.entries.slice(0, 5).map((acc) => (
-                              <FeedAccomplishmentCard
-                                key={acc.id}
-                                accomplishment={acc}
-                                density="compact"
-                                onSelect={handleAccomplishmentClick}
-                              />
-                            ))}
-                            {weekGroup.entries.length > 5 && (
-                              <p className="text-xs text-muted-foreground text-center py-1">
-                                + {weekGroup.entries.length - 5} more entries
-                              </p>
-                            )}
-                          </div>
-                        )}
+                        {weekGroup.entries.length > 0 && (() => {
+                          const isCurating = curatingWeekKey === weekGroup.key;
+                          const warEntryIds = new Set(getWarEntries(weekGroup).map((e) => e.id));
+                          const visibleEntries = isCurating ? weekGroup.entries : weekGroup.entries.slice(0, 5);
+
+                          return (
+                            <div className="border-t pt-3 space-y-2">
+                              {(isCurating || warEntryIds.size < weekGroup.entries.length) && (
+                                <div className="flex flex-wrap items-center justify-between gap-2">
+                                  <p className="text-xs text-muted-foreground">
+                                    {warEntryIds.size} of {weekGroup.entries.length} entries selected for WAR
+                                  </p>
+                                  {isCurating && (
+                                    <div className="flex gap-1">
+                                      <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        className="h-6 px-2 text-xs"
+                                        onClick={() => setWeekSelection(weekGroup.key, weekGroup.entries.map((e) => e.id))}
+                                      >
+                                        All
+                                      </Button>
+                                      <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        className="h-6 px-2 text-xs"
+                                        onClick={() => setWeekSelection(weekGroup.key, [])}
+                                      >
+                                        None
+                                      </Button>
+                                      <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        className="h-6 px-2 text-xs"
+                                        onClick={() =>
+                                          setWeekSelection(
+                                            weekGroup.key,
+                                            weekGroup.entries.filter((e) => starredIds.has(e.id)).map((e) => e.id)
+                                          )
+                                        }
+                                      >
+                                        Starred
+                                      </Button>
+                                    </div>
+                                  )}
+                                </div>
+                              )}
+                              {visibleEntries.map((acc) => (
+                                <FeedAccomplishmentCard
+                                  key={acc.id}
+                                  accomplishment={acc}
+                                  density="compact"
+                                  onSelect={handleAccomplishmentClick}
+                                  isStarred={starredIds.has(acc.id)}
+                                  onToggleStar={handleToggleStar}
+                                  selectable={isCurating}
+                                  isSelected={warEntryIds.has(acc.id)}
+                                  onSelectedChange={(entry, selected) =>
+                                    handleWarEntrySelectedChange(weekGroup, entry, selected)
+                                  }
+                                />
+                              ))}
+                              {!isCurating && weekGroup.entries.length > 5 && (
+                                <p className="text-xs text-muted-foreground text-center py-1">
+                                  + {weekGroup.entries.length - 5} more entries
+                                </p>
+                              )}
+                            </div>
+                          );
+                        })()}
                       </CardContent>
                     </Card>
                 ))}
@@ -1334,6 +1510,8 @@ export function TeamAccomplishmentsFeed({ cycleYear }: TeamAccomplishmentsFeedPr
                                 accomplishment={acc}
                                 density="compact"
                                 onSelect={handleAccomplishmentClick}
+                                isStarred={starredIds.has(acc.id)}
+                                onToggleStar={handleToggleStar}
                               />
                             ))}
                           </div>
@@ -1368,6 +1546,8 @@ export function TeamAccomplishmentsFeed({ cycleYear }: TeamAccomplishmentsFeedPr
                       accomplishment={acc}
                       density="comfortable"
                       onSelect={handleAccomplishmentClick}
+                      isStarred={starredIds.has(acc.id)}
+                      onToggleStar={handleToggleStar}
                     />
                   ))}
                 </div>
@@ -1405,6 +1585,23 @@ export function TeamAccomplishmentsFeed({ cycleYear }: TeamAccomplishmentsFeedPr
         }}
       />
 
+      {/* WAR Roll-up Dialog */}
+      <WARRollupDialog
+        open={rollupWeek !== null}
+        onOpenChange={(nextOpen) => {
+          if (!nextOpen) setRollupWeek(null);
+        }}
+        weekStart={rollupWeek?.start || null}
+        weekEnd={rollupWeek?.end || null}
+        onRollupSaved={(reportId) => {
+          if (!rollupWeek) return;
+          // Open the saved roll-up in the regular WAR editor
+          setHistoryReportToView({ id: reportId });
+          setSelectedWeek({ start: rollupWeek.start, end: rollupWeek.end, entries: [] });
+          setWarViewOpen(true);
+        }}
+      />
+
       {/* WAR History Modal */}
       <WARHistoryModal
         open={warHistoryOpen}
@@ -0,0 +1,93 @@
+"use client";
+
+import type { ReactNode } from "react";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { Badge } from "@/components/ui/badge";
+import { ENTRY_MGAS } from "@/lib/constants";
+import { Link2 } from "lucide-react";
+import type { Accomplishment } from "@/types/database";
+
+export type WARSourceEntry = Pick<
+  Accomplishment,
+  "id" | "date" | "action_verb" | "details" | "impact" | "metrics" | "mpa"
+> & {
+  author_name?: string;
+};
+
+interface WARBulletSourcesProps {
+  /** Source entries that could be loaded for this bullet. */
+  sources: WARSourceEntry[];
+  /** How many accomplishments the bullet is linked to (may exceed `sources` while loading). */
+  sourceCount: number;
+  children: ReactNode;
+}
+
+/**
+ * WAR bullet text that opens the accomplishments it was synthesized from.
+ * Bullets without provenance (hand-added ones) render as plain text.
+ */
+export function WARBulletSources({ sources, sourceCount, children }: WARBulletSourcesProps) {
+  if (sourceCount === 0) {
+    return <span className="flex-1">{children}</span>;
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          className="flex-1 text-left cursor-pointer rounded-sm hover:underline decoration-dotted underline-offset-4 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          aria-label="Show source entries"
+        >
+          {children}
+          <Badge variant="outline" className="ml-2 h-5 gap-1 px-1.5 text-[10px] align-middle">
+            <Link2 className="size-3" />
+            {sourceCount}
+          </Badge>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-96 p-0">
+        <div className="px-3 py-2 border-b">
+          <p className="text-xs font-medium">
+            Written from {sourceCount} {sourceCount === 1 ? "entry" : "entries"}
+          </p>
+        </div>
+        <ul className="max-h-72 overflow-y-auto divide-y">
+          {sources.map((entry) => (
+            <li key={entry.id} className="px-3 py-2 space-y-1">
+              <div className="flex items-center gap-2 text-[11px] text-muted-foreground">
+                <span>{entry.date}</span>
+                <span>•</span>
+                <span>{ENTRY_MGAS.find((m) => m.key === entry.mpa)?.label || entry.mpa}</span>
+                {entry.author_name && (
+                  <>
+                    <span>•</span>
+                    <span className="truncate">{entry.author_name}</span>
+                  </>
+                )}
+              </div>
+              <p className="text-xs">
+                <span className="font-medium">{entry.action_verb}</span> {entry.details}
+              </p>
+              {entry.impact && (
+                <p className="text-xs text-muted-foreground">Impact: {entry.impact}</p>
+              )}
+              {entry.metrics && (
+                <p className="text-xs text-muted-foreground">Metrics: {entry.metrics}</p>
+              )}
+            </li>
+          ))}
+          {sources.length < sourceCount && (
+            <li className="px-3 py-2 text-xs text-muted-foreground italic">
+              {sourceCount - sources.length} source {sourceCount - sources.length === 1 ? "entry is" : "entries are"} not visible to you
+            </li>
+          )}
+        </ul>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,276 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { createClient } from "@/lib/supabase/client";
+import { useUserStore } from "@/stores/user-store";
+import { handleUsageLimitResponse } from "@/stores/usage-limit-store";
+import { formatWeekRange } from "@/lib/format";
+import { DEFAULT_APP_MODEL_ID } from "@/lib/constants";
+import {
+  buildWARAccomplishmentLinks,
+  toStoredWARContent,
+  type StoredWARContent,
+  type WARReport,
+} from "@/lib/war-report";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Spinner } from "@/components/ui/spinner";
+import { Layers, Sparkles } from "lucide-react";
+import { toast } from "sonner";
+
+interface RollupCandidate {
+  id: string;
+  user_id: string;
+  prepared_by: string;
+  unit_office_symbol: string | null;
+  report_type: "team" | "rollup";
+  content: StoredWARContent | null;
+  updated_at: string;
+}
+
+interface WARRollupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  weekStart: Date | null;
+  weekEnd: Date | null;
+  /** Called with the saved roll-up's war_reports id. */
+  onRollupSaved: (reportId: string) => void;
+}
+
+function countBullets(content: StoredWARContent | null): number {
+  return (content?.categories ?? []).reduce((sum, c) => sum + (c.items?.length ?? 0), 0);
+}
+
+export function WARRollupDialog({
+  open,
+  onOpenChange,
+  weekStart,
+  weekEnd,
+  onRollupSaved,
+}: WARRollupDialogProps) {
+  const supabase = createClient();
+  const { profile } = useUserStore();
+
+  const [isLoading, setIsLoading] = useState(false);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [candidates, setCandidates] = useState<RollupCandidate[]>([]);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  const weekStartKey = weekStart ? weekStart.toISOString().split("T")[0] : null;
+
+  // Load this week's WARs visible to the caller: their own plus their subtree's (via RLS)
+  useEffect(() => {
+    if (!open || !profile || !weekStartKey) return;
+    let cancelled = false;
+
+    (async () => {
+      setIsLoading(true);
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { data, error } = await (supabase.from("war_reports") as any)
+        .select("id, user_id, prepared_by, unit_office_symbol, report_type, content, updated_at")
+        .eq("week_start", weekStartKey)
+        .order("prepared_by", { ascending: true });
+
+      if (cancelled) return;
+      if (error) {
+        console.error("Error loading WARs for roll-up:", error);
+        toast.error("Failed to load reports for this week");
+        setIsLoading(false);
+        return;
+      }
+
+      // The caller's own earlier roll-ups are outputs, not inputs
+      const rows = ((data ?? []) as RollupCandidate[]).filter(
+        (r) => !(r.user_id === profile.id && r.report_type === "rollup") && countBullets(r.content) > 0
+      );
+      setCandidates(rows);
+      setSelectedIds(new Set(rows.map((r) => r.id)));
+      setIsLoading(false);
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, profile, weekStartKey, supabase]);
+
+  const selectedBulletCount = useMemo(
+    () =>
+      candidates
+        .filter((c) => selectedIds.has(c.id))
+        .reduce((sum, c) => sum + countBullets(c.content), 0),
+    [candidates, selectedIds]
+  );
+
+  const toggleCandidate = (id: string, checked: boolean) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const handleGenerate = async () => {
+    if (!profile || !weekStart || !weekEnd || selectedIds.size < 2) return;
+
+    setIsGenerating(true);
+    try {
+      // Send in list order so de-duplication keeps the first report's wording on ties
+      const reportIds = candidates.filter((c) => selectedIds.has(c.id)).map((c) => c.id);
+      const response = await fetch("/api/generate-war/rollup", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          reportIds,
+          preparedBy: `${profile.rank || ""} ${profile.full_name}`.trim(),
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        if (handleUsageLimitResponse(errorData)) return;
+        throw new Error(errorData.error || "Failed to generate roll-up");
+      }
+
+      const data: {
+        report: WARReport;
+        weekStart: string;
+        weekEnd: string;
+        sourceReportIds: string[];
+        mergedDuplicates: number;
+      } = await response.json();
+
+      const accomplishmentCount = new Set(
+        data.report.categories.flatMap((c) => c.items.flatMap((item) => item.accomplishment_ids))
+      ).size;
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { data: saved, error: saveError } = await (supabase.from("war_reports") as any)
+        .insert({
+          user_id: profile.id,
+          week_start: data.weekStart,
+          week_end: data.weekEnd,
+          unit_office_symbol: data.report.header.unit_office_symbol,
+          prepared_by: data.report.header.prepared_by,
+          content: toStoredWARContent(data.report.categories),
+          entry_count: accomplishmentCount,
+          model_used: DEFAULT_APP_MODEL_ID,
+          status: "draft",
+          report_type: "rollup",
+          source_report_ids: data.sourceReportIds,
+        })
+        .select("id")
+        .single();
+
+      if (saveError || !saved) throw saveError || new Error("Failed to save roll-up");
+
+      const links = buildWARAccomplishmentLinks(saved.id, data.report.categories);
+      if (links.length > 0) {
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const { error: linkError } = await (supabase.from("war_accomplishments") as any).insert(links);
+        if (linkError) console.error("Error saving roll-up sources:", linkError);
+      }
+
+      toast.success(
+        data.mergedDuplicates > 0
+          ? `Roll-up created (${data.mergedDuplicates} duplicate ${data.mergedDuplicates === 1 ? "item" : "items"} merged)`
+          : "Roll-up created"
+      );
+      onOpenChange(false);
+      onRollupSaved(saved.id);
+    } catch (err) {
+      console.error("Error generating WAR roll-up:", err);
+      toast.error(err instanceof Error ? err.message : "Failed to generate roll-up");
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Layers className="size-5" />
+            Roll Up WARs
+          </DialogTitle>
+          <DialogDescription>
+            {weekStart && weekEnd ? formatWeekRange(weekStart, weekEnd) : ""} — combine saved WARs from your team into one
+            report using your WAR categories. Duplicate items are merged.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-10">
+            <Spinner size="lg" />
+          </div>
+        ) : candidates.length < 2 ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">
+            At least two saved WARs for this week are needed for a roll-up. Ask your flight leads to generate and save
+            theirs first.
+          </p>
+        ) : (
+          <ul className="max-h-80 overflow-y-auto space-y-1">
+            {candidates.map((candidate) => {
+              const checkboxId = `rollup-${candidate.id}`;
+              return (
+                <li key={candidate.id}>
+                  <label
+                    htmlFor={checkboxId}
+                    className="flex items-center gap-3 rounded-md p-2 hover:bg-muted/50 cursor-pointer"
+                  >
+                    <Checkbox
+                      id={checkboxId}
+                      checked={selectedIds.has(candidate.id)}
+                      onCheckedChange={(checked) => toggleCandidate(candidate.id, checked === true)}
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">
+                        {candidate.prepared_by}
+                        {candidate.user_id === profile?.id && (
+                          <span className="text-muted-foreground font-normal"> (you)</span>
+                        )}
+                      </p>
+                      {candidate.unit_office_symbol && (
+                        <p className="text-xs text-muted-foreground truncate">{candidate.unit_office_symbol}</p>
+                      )}
+                    </div>
+                    {candidate.report_type === "rollup" && (
+                      <Badge variant="outline" className="text-xs">Roll-up</Badge>
+                    )}
+                    <Badge variant="secondary" className="text-xs">
+                      {countBullets(candidate.content)} items
+                    </Badge>
+                  </label>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isGenerating}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleGenerate}
+            disabled={isGenerating || selectedIds.size < 2}
+            className="gap-2"
+          >
+            {isGenerating ? <Spinner size="sm" /> : <Sparkles className="size-4" />}
+            {isGenerating ? "Rolling up..." : `Roll Up ${selectedIds.size} Reports (${selectedBulletCount} items)`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -42,40 +42,22 @@ import {
 import { cn } from "@/lib/utils";
 import { toast } from "sonner";
 import { ENTRY_MGAS, DEFAULT_APP_MODEL_ID } from "@/lib/constants";
+import {
+  attachWARAccomplishmentLinks,
+  buildWARAccomplishmentLinks,
+  toStoredWARContent,
+  DEFAULT_WAR_CATEGORIES,
+  type WARReport,
+  type WARReportCategory,
+  type WARSettings,
+} from "@/lib/war-report";
+import { WARBulletSources, type WARSourceEntry } from "./war-bullet-sources";
 
 function formatReportDateRange(start: Date | null, end: Date | null): string {
   if (!start || !end) return "";
   return formatWeekRange(start, end);
 }
 
-interface WARCategory {
-  key: string;
-  label: string;
-  description: string;
-  order: number;
-}
-
-interface WARSettings {
-  categories: WARCategory[];
-  unit_office_symbol: string | null;
-  synthesis_instructions: string | null;
-}
-
-interface WARReportCategory {
-  key: string;
-  label: string;
-  items: string[];
-}
-
-interface WARReport {
-  header: {
-    date_range: string;
-    unit_office_symbol: string | null;
-    prepared_by: string;
-  };
-  categories: WARReportCategory[];
-}
-
 interface WARViewModalProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -86,28 +68,6 @@ interface WARViewModalProps {
   onReportSaved?: () => void; // Callback when report is saved
 }
 
-// Default categories if user hasn't customized
-const DEFAULT_CATEGORIES: WARCategory[] = [
-  {
-    key: "key_accomplishments",
-    label: "Key Accomplishments/Highlights",
-    description: "Impact-driven achievements - the What. Focus on quantifiable results.",
-    order: 1,
-  },
-  {
-    key: "issues_roadblocks",
-    label: "Issues/Roadblocks",
-    description: "High-level challenges requiring attention - the So What.",
-    order: 2,
-  },
-  {
-    key: "upcoming_priorities",
-    label: "Upcoming Priorities/Key Events",
-    description: "Immediate actions or milestones planned for the following 1-2 weeks.",
-    order: 3,
-  },
-];
-
 export function WARViewModal({
   open,
   onOpenChange,
@@ -139,6 +99,9 @@ export function WARViewModal({
   const [addingToCategory, setAddingToCategory] = useState<string | null>(null);
   const [newItemValue, setNewItemValue] = useState("");
 
+  // Source accomplishments for bullet provenance, keyed by accomplishment ID
+  const [sourceEntries, setSourceEntries] = useState<Record<string, WARSourceEntry>>({});
+
   // Reset state when modal closes
   useEffect(() => {
     if (!open) {
@@ -148,9 +111,61 @@ export function WARViewModal({
       setHasUnsavedChanges(false);
       setEditingItem(null);
       setAddingToCategory(null);
+      setSourceEntries({});
     }
   }, [open]);
 
+  // Resolve bullet sources: this week's feed entries first, then fetch any the
+  // feed doesn't have (reports opened from history carry no entries)
+  useEffect(() => {
+    if (!report) return;
+
+    const known: Record<string, WARSourceEntry> = {};
+    for (const entry of entries) {
+      known[entry.id] = {
+        id: entry.id,
+        date: entry.date,
+        action_verb: entry.action_verb,
+        details: entry.details,
+        impact: entry.impact,
+        metrics: entry.metrics,
+        mpa: entry.mpa,
+        author_name: `${entry.author_rank || ""} ${entry.author_name}`.trim(),
+      };
+    }
+
+    const missingIds = [
+      ...new Set(report.categories.flatMap((c) => c.items.flatMap((item) => item.accomplishment_ids))),
+    ].filter((id) => !known[id]);
+
+    setSourceEntries((prev) => ({ ...prev, ...known }));
+    if (missingIds.length === 0) return;
+
+    let cancelled = false;
+    (async () => {
+      const { data, error } = await supabase
+        .from("accomplishments")
+        .select("id, date, action_verb, details, impact, metrics, mpa")
+        .in("id", missingIds);
+
+      if (error) {
+        console.error("Error loading WAR source entries:", error);
+        return;
+      }
+      if (cancelled || !data) return;
+
+      const fetched: Record<string, WARSourceEntry> = {};
+      for (const row of data as WARSourceEntry[]) {
+        fetched[row.id] = row;
+      }
+      setSourceEntries((prev) => ({ ...prev, ...fetched }));
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [report, entries, supabase]);
+
   // Load an existing report by ID
   const loadExistingReport = async (reportId: string) => {
     const { data, error } = await (supabase
@@ -170,10 +185,38 @@ export function WARViewModal({
         unit_office_symbol: data.unit_office_symbol,
         prepared_by: data.prepared_by,
       },
-      categories: data.content.categories || [],
+      categories: await loadReportCategories(data.id, data.content),
     });
   };
 
+  // Stored content keeps plain strings; provenance comes from war_accomplishments
+  const loadReportCategories = async (
+    reportId: string,
+    content: Parameters<typeof attachWARAccomplishmentLinks>[0]
+  ): Promise<WARReportCategory[]> => {
+    const { data: links, error } = await (supabase
+      .from("war_accomplishments") as any)
+      .select("accomplishment_id, category, display_order")
+      .eq("war_id", reportId);
+
+    if (error) {
+      console.error("Error loading WAR sources:", error);
+    }
+    return attachWARAccomplishmentLinks(content, links || []);
+  };
+
+  // Replace the report's provenance rows to match current bullet positions
+  const saveReportLinks = async (reportId: string, categories: WARReportCategory[]) => {
+    // Delete and insert run in one transaction inside the RPC
+    const { error } = await (supabase.rpc as any)("replace_war_accomplishment_links", {
+      p_war_id: reportId,
+      p_links: buildWARAccomplishmentLinks(reportId, categories).map(
+        ({ accomplishment_id, category, display_order }) => ({ accomplishment_id, category, display_order })
+      ),
+    });
+    if (error) throw error;
+  };
+
   // Auto-save report after generation
   const autoSaveReport = async (generatedReport: WARReport, warSettings: WARSettings) => {
     if (!profile || !weekStart || !weekEnd) return;
@@ -185,7 +228,7 @@ export function WARViewModal({
         week_end: weekEnd.toISOString().split("T")[0],
         unit_office_symbol: warSettings.unit_office_symbol,
         prepared_by: generatedReport.header.prepared_by,
-        content: { categories: generatedReport.categories },
+        content: toStoredWARContent(generatedReport.categories),
         entry_count: entries.length,
         model_used: DEFAULT_APP_MODEL_ID,
         status: "draft",
@@ -203,6 +246,7 @@ export function WARViewModal({
         return;
       }
 
+      await saveReportLinks(data.id, generatedReport.categories);
       setSavedReportId(data.id);
       setHasUnsavedChanges(false);
       onReportSaved?.();
@@ -284,6 +328,7 @@ export function WARViewModal({
           .from("war_reports") as any)
           .select("*")
           .eq("user_id", profile.id)
+          .eq("report_type", "team")
           .eq("week_start", weekStart.toISOString().split("T")[0])
           .eq("week_end", weekEnd.toISOString().split("T")[0])
           .single();
@@ -296,7 +341,7 @@ export function WARViewModal({
               unit_office_symbol: existingReport.unit_office_symbol,
               prepared_by: existingReport.prepared_by,
             },
-            categories: existingReport.content.categories || [],
+            categories: await loadReportCategories(existingReport.id, existingReport.content),
           });
         } else if (entries.length > 0) {
           const { data: settingsData } = await (supabase
@@ -307,12 +352,12 @@ export function WARViewModal({
 
           const userSettings: WARSettings = settingsData
             ? {
-                categories: settingsData.categories || DEFAULT_CATEGORIES,
+                categories: settingsData.categories || DEFAULT_WAR_CATEGORIES,
                 unit_office_symbol: settingsData.unit_office_symbol,
                 synthesis_instructions: settingsData.synthesis_instructions,
               }
             : {
-                categories: DEFAULT_CATEGORIES,
+                categories: DEFAULT_WAR_CATEGORIES,
                 unit_office_symbol: null,
                 synthesis_instructions: null,
               };
@@ -338,14 +383,20 @@ export function WARViewModal({
     supabase,
   ]);
 
+  // Parents open the modal through the `open` prop (View WAR, history, roll-up),
+  // which never calls the Dialog's onOpenChange, so load on the prop change
+  useEffect(() => {
+    if (open) {
+      void loadOrGenerate();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- load once per open
+  }, [open]);
+
   const handleOpenChange = useCallback(
     (nextOpen: boolean) => {
       onOpenChange(nextOpen);
-      if (nextOpen) {
-        void loadOrGenerate();
-      }
     },
-    [onOpenChange, loadOrGenerate]
+    [onOpenChange]
   );
 
   // Save report to database
@@ -360,7 +411,7 @@ export function WARViewModal({
         week_end: weekEnd.toISOString().split("T")[0],
         unit_office_symbol: report.header.unit_office_symbol,
         prepared_by: report.header.prepared_by,
-        content: { categories: report.categories },
+        content: toStoredWARContent(report.categories),
         entry_count: entries.length,
         model_used: DEFAULT_APP_MODEL_ID,
         status: "draft",
@@ -374,6 +425,7 @@ export function WARViewModal({
           .eq("id", savedReportId);
 
         if (error) throw error;
+        await saveReportLinks(savedReportId, report.categories);
         toast.success("WAR updated");
       } else {
         // Insert new
@@ -384,6 +436,7 @@ export function WARViewModal({
           .single();
 
         if (error) throw error;
+        await saveReportLinks(data.id, report.categories);
         setSavedReportId(data.id);
         toast.success("WAR saved");
       }
@@ -415,12 +468,12 @@ export function WARViewModal({
 
         const userSettings: WARSettings = settingsData
           ? {
-              categories: settingsData.categories || DEFAULT_CATEGORIES,
+              categories: settingsData.categories || DEFAULT_WAR_CATEGORIES,
               unit_office_symbol: settingsData.unit_office_symbol,
               synthesis_instructions: settingsData.synthesis_instructions,
             }
           : {
-              categories: DEFAULT_CATEGORIES,
+              categories: DEFAULT_WAR_CATEGORIES,
               unit_office_symbol: null,
               synthesis_instructions: null,
             };
@@ -454,7 +507,7 @@ export function WARViewModal({
         lines.push("-".repeat(category.label.length));
         if (category.items.length > 0) {
           category.items.forEach((item) => {
-            lines.push(`• ${item}`);
+            lines.push(`• ${item.text}`);
           });
         } else {
           lines.push("• No items for this category");
@@ -495,7 +548,11 @@ export function WARViewModal({
     const updatedCategories = report.categories.map((cat) => {
       if (cat.key === editingItem.categoryKey) {
         const newItems = [...cat.items];
-        newItems[editingItem.itemIndex] = editValue.trim();
+        // Edits keep the bullet's sources
+        newItems[editingItem.itemIndex] = {
+          ...newItems[editingItem.itemIndex],
+          text: editValue.trim(),
+        };
         return { ...cat, items: newItems };
       }
       return cat;
@@ -539,7 +596,10 @@ export function WARViewModal({
 
     const updatedCategories = report.categories.map((cat) => {
       if (cat.key === addingToCategory) {
-        return { ...cat, items: [...cat.items, newItemValue.trim()] };
+        return {
+          ...cat,
+          items: [...cat.items, { text: newItemValue.trim(), accomplishment_ids: [] }],
+        };
       }
       return cat;
     });
@@ -709,7 +769,14 @@ export function WARViewModal({
                                 className="group/item flex items-start gap-2 text-sm p-2 -mx-2 rounded-md hover:bg-muted/50 transition-colors"
                               >
                                 <span className="text-primary mt-0.5 shrink-0">•</span>
-                                <span className="flex-1">{item}</span>
+                                <WARBulletSources
+                                  sources={item.accomplishment_ids
+                                    .map((id) => sourceEntries[id])
+                                    .filter((entry): entry is WARSourceEntry => Boolean(entry))}
+                                  sourceCount={item.accomplishment_ids.length}
+                                >
+                                  {item.text}
+                                </WARBulletSources>
                                 <div className="flex gap-0.5 opacity-0 group-hover/item:opacity-100 transition-opacity shrink-0">
                                   <TooltipProvider delayDuration={200}>
                                     <Tooltip>
@@ -718,7 +785,7 @@ export function WARViewModal({
                                           variant="ghost"
                                           size="icon"
                                           className="size-7"
-                                          onClick={() => handleCopyItem(category.key, itemIndex, item)}
+                                          onClick={() => handleCopyItem(category.key, itemIndex, item.text)}
                                         >
                                           {isCopied ? (
                                             <Check className="size-3.5 text-green-500" />
@@ -737,7 +804,7 @@ export function WARViewModal({
                                           variant="ghost"
                                           size="icon"
                                           className="size-7"
-                                          onClick={() => startEditItem(category.key, itemIndex, item)}
+                                          onClick={() => startEditItem(category.key, itemIndex, item.text)}
                                         >
                                           <Pencil className="size-3.5" />
                                         </Button>
@@ -18,9 +18,10 @@ import { Spinner } from "@/components/ui/spinner";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { toast } from "@/components/ui/sonner";
 import { cn } from "@/lib/utils";
-import { DECORATION_TYPES } from "@/features/decorations/constants";
+import { getServiceProfile } from "@/lib/service-profiles";
 import { useWordThesaurus } from "@/hooks/use-word-thesaurus";
 import { WordThesaurusPopup } from "@/components/word-thesaurus/word-thesaurus-popup";
+import { DecorationLineFitPreview } from "@/components/decoration/decoration-line-fit-preview";
 import {
   Copy,
   Check,
@@ -64,6 +65,7 @@ export function DecorationCitationEditor({
 }: DecorationCitationEditorProps) {
   const supabase = createClient();
   const { profile } = useUserStore();
+  const serviceProfile = getServiceProfile(profile?.service);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const overlayRef = useRef<HTMLDivElement>(null);
 
@@ -438,8 +440,8 @@ export function DecorationCitationEditor({
   
   // Get decoration config
   const decorationConfig = useMemo(() => {
-    return DECORATION_TYPES.find((d) => d.key === awardType);
-  }, [awardType]);
+    return serviceProfile.decorations.find((d) => d.key === awardType);
+  }, [serviceProfile, awardType]);
 
   const maxCharacters = decorationConfig?.maxCharacters || 1350;
   const characterCount = citationText.length;
@@ -857,6 +859,13 @@ export function DecorationCitationEditor({
 
           <WordThesaurusPopup thesaurus={thesaurus} />
 
+          <DecorationLineFitPreview
+            text={citationText}
+            config={decorationConfig}
+            onApplyCompression={setCitationText}
+            disabled={isGenerating}
+          />
+
           {/* TODO: Future work - Revise Panel (needs proper citation structure parsing)
           {citationText.trim() && (
             <Collapsible open={showRevisePanel} onOpenChange={setShowRevisePanel}>
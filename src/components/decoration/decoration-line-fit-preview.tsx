@@ -0,0 +1,203 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from "@/components/ui/collapsible";
+import { cn } from "@/lib/utils";
+import { AlertTriangle, CheckCircle2, ChevronDown, ChevronUp, Ruler } from "lucide-react";
+import {
+  CITATION_FONT_SIZE_OPTIONS,
+  analyzeCitationLineFit,
+  applyCitationCompression,
+  suggestCitationCompressions,
+  type CitationCompression,
+  type CitationFontSize,
+} from "@/features/decorations/line-fit";
+import type { DecorationConfig } from "@/features/decorations/types";
+
+const MAX_SUGGESTIONS = 6;
+
+interface DecorationLineFitPreviewProps {
+  text: string;
+  config: DecorationConfig | undefined;
+  onApplyCompression: (nextText: string) => void;
+  disabled?: boolean;
+}
+
+export function DecorationLineFitPreview({
+  text,
+  config,
+  onApplyCompression,
+  disabled = false,
+}: DecorationLineFitPreviewProps) {
+  const [open, setOpen] = useState(false);
+  const [fontSize, setFontSize] = useState<CitationFontSize>(11);
+
+  const fit = useMemo(
+    () => analyzeCitationLineFit(text, config, fontSize),
+    [text, config, fontSize]
+  );
+
+  // At 11pt only the character limit applies; legacy sizes are held to a line count
+  const isPastLimit = (line: { isOverflow: boolean; endIndex: number }) =>
+    fit.maxLines != null ? line.isOverflow : line.endIndex > fit.maxCharacters;
+  const pastLimitCount = fit.lines.filter(isPastLimit).length;
+  const hasOverflow = fit.maxLines != null ? fit.overflowLineCount > 0 : fit.isOverCharacters;
+
+  const suggestions = useMemo(() => {
+    if (!hasOverflow) return [];
+    return suggestCitationCompressions(text)
+      .slice(0, MAX_SUGGESTIONS)
+      .map((suggestion) => ({
+        ...suggestion,
+        savedLines:
+          fit.lineCount -
+          analyzeCitationLineFit(applyCitationCompression(text, suggestion), config, fontSize).lineCount,
+      }));
+  }, [hasOverflow, text, config, fontSize, fit.lineCount]);
+
+  const handleApply = (suggestion: CitationCompression) => {
+    onApplyCompression(applyCitationCompression(text, suggestion));
+  };
+
+  if (!text.trim()) return null;
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="rounded-lg border">
+      <CollapsibleTrigger asChild>
+        <button
+          type="button"
+          className="flex w-full items-center justify-between gap-2 px-3 py-2 text-xs font-medium hover:bg-muted/50"
+        >
+          <span className="flex items-center gap-1.5">
+            <Ruler className="size-3.5 text-muted-foreground" />
+            Line-fit preview
+          </span>
+          <span className="flex items-center gap-2">
+            <Badge
+              variant={hasOverflow ? "destructive" : "secondary"}
+              className="text-[10px] font-mono"
+            >
+              {fit.maxLines != null
+                ? `${fit.lineCount} / ${fit.maxLines} lines`
+                : `${fit.lineCount} lines`}
+            </Badge>
+            {open ? <ChevronUp className="size-3.5" /> : <ChevronDown className="size-3.5" />}
+          </span>
+        </button>
+      </CollapsibleTrigger>
+      <CollapsibleContent>
+        <div className="space-y-3 border-t p-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <div className="inline-flex rounded-md border divide-x" role="radiogroup" aria-label="Citation font size">
+              {CITATION_FONT_SIZE_OPTIONS.map((option, index) => (
+                <button
+                  key={option.value}
+                  type="button"
+                  role="radio"
+                  aria-checked={fontSize === option.value}
+                  title={option.description}
+                  onClick={() => setFontSize(option.value)}
+                  className={cn(
+                    "px-2.5 py-1 text-xs transition-colors",
+                    index === 0 && "rounded-l-md",
+                    index === CITATION_FONT_SIZE_OPTIONS.length - 1 && "rounded-r-md",
+                    fontSize === option.value
+                      ? "bg-primary text-primary-foreground"
+                      : "hover:bg-muted"
+                  )}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <span className="text-[11px] text-muted-foreground">
+              Courier New {fontSize}pt · {fit.charsPerLine} characters per line
+              {fit.maxLines == null && ` · ${fit.maxCharacters} character limit`}
+            </span>
+          </div>
+
+          <div
+            className="overflow-x-auto rounded-md border bg-muted/30 py-2 text-[12px] leading-5"
+            style={{ fontFamily: '"Courier New", Courier, monospace' }}
+          >
+            {fit.lines.map((line, index) => {
+              const pastLimit = isPastLimit(line);
+              return (
+                <div
+                  key={`${line.startIndex}-${index}`}
+                  className={cn("flex", pastLimit && "bg-destructive/10 text-destructive")}
+                >
+                  <span className="w-8 shrink-0 select-none pr-2 text-right text-muted-foreground">
+                    {index + 1}
+                  </span>
+                  <span className="whitespace-pre" style={{ width: `${fit.charsPerLine}ch` }}>
+                    {line.text}
+                  </span>
+                  <span className="select-none pl-2 text-muted-foreground">{line.text.length}</span>
+                </div>
+              );
+            })}
+          </div>
+
+          {hasOverflow ? (
+            <div className="flex items-start gap-1.5 text-xs text-destructive">
+              <AlertTriangle className="mt-0.5 size-3 shrink-0" />
+              <span>
+                {fit.maxLines != null
+                  ? `${fit.overflowLineCount} line${fit.overflowLineCount === 1 ? "" : "s"} past the ${fit.maxLines}-line limit at ${fontSize}pt`
+                  : `${fit.charCount - fit.maxCharacters} characters over the limit (${pastLimitCount} line${pastLimitCount === 1 ? "" : "s"} affected)`}
+              </span>
+            </div>
+          ) : (
+            <div className="flex items-center gap-1.5 text-xs text-muted-foreground">
+              <CheckCircle2 className="size-3 text-green-600" />
+              <span>Fits at {fontSize}pt</span>
+            </div>
+          )}
+
+          {suggestions.length > 0 && (
+            <div className="space-y-1.5">
+              <p className="text-xs font-medium">Approved abbreviations that would shorten it</p>
+              {suggestions.map((suggestion) => (
+                <div
+                  key={suggestion.phrase}
+                  className="flex items-center justify-between gap-2 rounded-md border px-2 py-1.5 text-xs"
+                >
+                  <span className="min-w-0">
+                    <span className="text-muted-foreground">{suggestion.phrase}</span>
+                    {" → "}
+                    <span className="font-medium">{suggestion.abbreviation}</span>
+                    {suggestion.occurrences > 1 && (
+                      <span className="text-muted-foreground"> ×{suggestion.occurrences}</span>
+                    )}
+                  </span>
+                  <span className="flex shrink-0 items-center gap-2">
+                    <span className="font-mono text-muted-foreground">
+                      −{suggestion.savedCharacters} chars
+                      {suggestion.savedLines > 0 && `, −${suggestion.savedLines} line${suggestion.savedLines === 1 ? "" : "s"}`}
+                    </span>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-6 px-2 text-xs"
+                      disabled={disabled}
+                      onClick={() => handleApply(suggestion)}
+                    >
+                      Apply
+                    </Button>
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+}
@@ -38,8 +38,10 @@ import {
 import { Spinner } from "@/components/ui/spinner";
 import { toast } from "@/components/ui/sonner";
 import { scanStatementText, getScanSummary } from "@/lib/sensitive-data-scanner";
-import { DECORATION_TYPES, DECORATION_REASONS } from "@/features/decorations/constants";
+import { DECORATION_REASONS } from "@/features/decorations/constants";
+import { getServiceProfile } from "@/lib/service-profiles";
 import { cn, getFullName } from "@/lib/utils";
+import { downloadFromApi } from "@/lib/download-file";
 import {
   Medal,
   Save,
@@ -57,6 +59,8 @@ import {
   ClipboardPaste,
   Pencil,
   Check,
+  Download,
+  FileText,
 } from "lucide-react";
 import {
   Tooltip,
@@ -134,6 +138,7 @@ export function DecorationWorkspaceDialog({
 }: DecorationWorkspaceDialogProps) {
   const supabase = createClient();
   const { profile, subordinates, managedMembers } = useUserStore();
+  const serviceProfile = getServiceProfile(profile?.service);
 
   // Decoration shell store
   const {
@@ -187,6 +192,7 @@ export function DecorationWorkspaceDialog({
   const [selectedFeedbackSessionId, setSelectedFeedbackSessionId] = useState<string | null>(null);
   const [feedbackBadgeRefreshKey, setFeedbackBadgeRefreshKey] = useState(0);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
   const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
   const [rateeInfo, setRateeInfo] = useState<RateeInfo | null>(null);
   const [isEditingManualName, setIsEditingManualName] = useState(false);
@@ -581,6 +587,35 @@ export function DecorationWorkspaceDialog({
   // Autosave timeout ref
   const autosaveTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
+  // Export the saved citation as a citation PDF or a MyDecs paste block
+  const handleExportCitation = async (format: "pdf" | "txt") => {
+    if (!currentShell) return;
+    if (isDirty) {
+      toast.info("Save your changes first - the export uses the saved citation");
+      return;
+    }
+    setIsExporting(true);
+    try {
+      const response = await downloadFromApi(
+        `/api/decoration/${currentShell.id}/export?format=${format}`,
+        `Citation.${format}`
+      );
+      const charCount = Number(response.headers.get("X-Citation-Characters") || 0);
+      const maxCharacters = Number(response.headers.get("X-Citation-Max-Characters") || 0);
+      if (maxCharacters > 0 && charCount > maxCharacters) {
+        toast.warning(
+          `Citation is ${charCount - maxCharacters} characters over the ${maxCharacters}-character MyDecs limit`
+        );
+      } else {
+        toast.success(format === "pdf" ? "Citation PDF downloaded" : "MyDecs paste block downloaded");
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to export citation");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   // Delete the decoration shell
   const handleDeleteShell = useCallback(async () => {
     if (!currentShell) return;
@@ -710,8 +745,8 @@ export function DecorationWorkspaceDialog({
 
   // Get decoration config
   const decorationConfig = useMemo(() => {
-    return DECORATION_TYPES.find((d) => d.key === awardType);
-  }, [awardType]);
+    return serviceProfile.decorations.find((d) => d.key === awardType);
+  }, [serviceProfile, awardType]);
 
   // Autosave effect - triggers 2 seconds after changes stop
   useEffect(() => {
@@ -923,6 +958,38 @@ export function DecorationWorkspaceDialog({
                   </TooltipTrigger>
                   <TooltipContent>Share</TooltipContent>
                 </Tooltip>
+                <DropdownMenu>
+                  <Tooltip>
+                    <TooltipTrigger asChild>
+                      <DropdownMenuTrigger asChild>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={!citationText.trim() || isExporting}
+                          className="h-8 w-8 p-0"
+                        >
+                          {isExporting ? (
+                            <Loader2 className="size-4 animate-spin" />
+                          ) : (
+                            <Download className="size-4" />
+                          )}
+                          <span className="sr-only">Export citation</span>
+                        </Button>
+                      </DropdownMenuTrigger>
+                    </TooltipTrigger>
+                    <TooltipContent>Export citation</TooltipContent>
+                  </Tooltip>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={() => handleExportCitation("pdf")}>
+                      <Download className="size-4 mr-2" />
+                      Citation PDF ({decorationConfig?.afForm || "AF Form"})
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => handleExportCitation("txt")}>
+                      <FileText className="size-4 mr-2" />
+                      MyDecs paste block (.txt)
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
                 {canEdit && (
                   <DropdownMenu>
                     <DropdownMenuTrigger asChild>
@@ -1044,7 +1111,7 @@ export function DecorationWorkspaceDialog({
                                   <SelectValue />
                                 </SelectTrigger>
                                 <SelectContent>
-                                  {DECORATION_TYPES.map((d) => (
+                                  {serviceProfile.decorations.map((d) => (
                                     <SelectItem key={d.key} value={d.key}>
                                       {d.abbreviation} - {d.name}
                                     </SelectItem>
@@ -1277,7 +1344,7 @@ export function DecorationWorkspaceDialog({
           rateeName={rateeInfo?.fullName || "Unknown"}
           rateeRank={rateeInfo?.rank || undefined}
           contentSnapshot={{
-            title: DECORATION_TYPES.find((t) => t.key === currentShell.award_type)?.name || currentShell.award_type,
+            title: serviceProfile.decorations.find((t) => t.key === currentShell.award_type)?.name || currentShell.award_type,
             sections: [
               {
                 key: "citation",
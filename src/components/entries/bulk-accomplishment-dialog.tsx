@@ -1,6 +1,6 @@
 "use client";
 
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { Analytics } from "@/lib/analytics";
 import { useUserStore } from "@/stores/user-store";
 import { useAccomplishmentsStore } from "@/stores/accomplishments-store";
@@ -39,13 +39,22 @@ import {
   type BulkAccomplishmentDraft,
   type NormalizedExtractedAccomplishment,
 } from "@/lib/extract-accomplishments";
+import {
+  ACCEPTED_IMPORT_EXTENSIONS,
+  guessColumnMapping,
+  importRowsToDrafts,
+  readImportFile,
+  type ImportColumnMapping,
+  type ImportTable,
+} from "@/lib/accomplishment-import";
 import { BulkAccomplishmentReview } from "@/components/entries/bulk-accomplishment-review";
+import { BulkAccomplishmentImportMapping } from "@/components/entries/bulk-accomplishment-import-mapping";
 import { cn } from "@/lib/utils";
 import { motionPressOnly } from "@/lib/motion/classes";
-import { Loader2, Sparkles } from "lucide-react";
+import { FileSpreadsheet, Loader2, Sparkles } from "lucide-react";
 import type { Accomplishment, Rank } from "@/types/database";
 
-type BulkStep = "input" | "review";
+type BulkStep = "input" | "mapping" | "review";
 
 interface BulkAccomplishmentDialogProps {
   open: boolean;
@@ -86,6 +95,11 @@ export function BulkAccomplishmentDialog({
   const [drafts, setDrafts] = useState<BulkAccomplishmentDraft[]>([]);
   const [isExtracting, setIsExtracting] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [importFileName, setImportFileName] = useState("");
+  const [importTable, setImportTable] = useState<ImportTable | null>(null);
+  const [importMapping, setImportMapping] =
+    useState<ImportColumnMapping | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   const canGenerateEpb = isEnlisted(rateeRank ?? null);
 
@@ -95,6 +109,9 @@ export function BulkAccomplishmentDialog({
     setDrafts([]);
     setIsExtracting(false);
     setIsSubmitting(false);
+    setImportFileName("");
+    setImportTable(null);
+    setImportMapping(null);
   }
 
   function handleOpenChange(next: boolean) {
@@ -208,6 +225,8 @@ export function BulkAccomplishmentDialog({
         return;
       }
 
+      setImportTable(null);
+      setImportMapping(null);
       setDrafts(
         toBulkDrafts(result.accomplishments, {
           date: todayIsoDate(),
@@ -232,6 +251,53 @@ export function BulkAccomplishmentDialog({
     }
   }
 
+  async function handleImportFile(e: React.ChangeEvent<HTMLInputElement>) {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const table = await readImportFile(file);
+      setImportFileName(file.name);
+      setImportTable(table);
+      setImportMapping(guessColumnMapping(table.headers));
+      setStep("mapping");
+    } catch (error) {
+      console.error("Error reading import file:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Could not read that file",
+      );
+    }
+  }
+
+  function handleImportContinue() {
+    if (!importTable || !importMapping) return;
+
+    const { drafts: imported, skipped, flagged, truncated } =
+      importRowsToDrafts(importTable.rows, importMapping, {
+        date: todayIsoDate(),
+        cycleYear,
+      });
+
+    if (imported.length === 0) {
+      toast.error("No rows had details in the mapped column");
+      return;
+    }
+
+    setDrafts(imported);
+    setStep("review");
+
+    const notes = [
+      skipped > 0 && `${skipped} empty row${skipped !== 1 ? "s" : ""} skipped`,
+      truncated > 0 && `${truncated} row${truncated !== 1 ? "s" : ""} over the limit not imported`,
+      flagged > 0 && `${flagged} flagged for sensitive data and unchecked`,
+    ].filter(Boolean);
+    toast.success(
+      `Imported ${imported.length} row${imported.length !== 1 ? "s" : ""}`,
+      notes.length > 0 ? { description: notes.join(" · ") } : undefined,
+    );
+  }
+
   async function saveDrafts(openGenerateEpb: boolean) {
     const toSave = drafts.filter(
       (d) =>
@@ -251,6 +317,8 @@ export function BulkAccomplishmentDialog({
         details: draft.details,
         impact: draft.impact,
         metrics: draft.metrics,
+        tags: draft.tags?.join(", "),
+        ...draft.stewardship_impact,
       });
       if (sensitiveMatches.length > 0) {
         toast.error(getScanSummary(sensitiveMatches), { duration: 10000 });
@@ -282,7 +350,8 @@ export function BulkAccomplishmentDialog({
           impact: draft.impact.trim() || null,
           metrics: draft.metrics.trim() || null,
           mpa: draft.mpa,
-          tags: [],
+          tags: draft.tags ?? [],
+          stewardship_impact: draft.stewardship_impact,
           cycle_year: draft.cycle_year,
           assessment_scores: null,
           assessed_at: null,
@@ -336,12 +405,16 @@ export function BulkAccomplishmentDialog({
           <DialogTitle className="text-base sm:text-lg">
             {step === "input"
               ? "Bulk paste accomplishments"
-              : "Review extracted entries"}
+              : step === "mapping"
+                ? "Map spreadsheet columns"
+                : "Review extracted entries"}
           </DialogTitle>
           <DialogDescription id="bulk-accomplishment-desc" className="text-sm">
             {step === "input"
               ? "Paste bullets, award notes, or messy stories. We’ll split them into editable entries."
-              : "Tweak verbs, metrics, and MPAs before saving."}
+              : step === "mapping"
+                ? "Tell us which column holds each field."
+                : "Tweak verbs, metrics, and MPAs before saving."}
           </DialogDescription>
           {(rateeName || cycleYear) && (
             <p className="text-xs text-muted-foreground">
@@ -367,7 +440,25 @@ export function BulkAccomplishmentDialog({
                   disabled={isExtracting}
                 />
               </div>
-              <div className="flex shrink-0 justify-end gap-2">
+              <div className="flex shrink-0 flex-wrap justify-end gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={isExtracting}
+                  className={cn("sm:mr-auto", motionPressOnly)}
+                >
+                  <FileSpreadsheet className="mr-1.5 size-4" />
+                  Import CSV / Excel
+                </Button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept={ACCEPTED_IMPORT_EXTENSIONS.join(",")}
+                  onChange={(e) => void handleImportFile(e)}
+                  className="hidden"
+                  aria-label="Import accomplishments from a CSV or Excel file"
+                />
                 <Button
                   type="button"
                   variant="ghost"
@@ -401,11 +492,20 @@ export function BulkAccomplishmentDialog({
                 </Button>
               </div>
             </div>
+          ) : step === "mapping" && importTable && importMapping ? (
+            <BulkAccomplishmentImportMapping
+              fileName={importFileName}
+              table={importTable}
+              mapping={importMapping}
+              onMappingChange={setImportMapping}
+              onBack={() => setStep("input")}
+              onContinue={handleImportContinue}
+            />
           ) : (
             <BulkAccomplishmentReview
               drafts={drafts}
               onDraftsChange={setDrafts}
-              onBack={() => setStep("input")}
+              onBack={() => setStep(importTable ? "mapping" : "input")}
               onSaveOnly={() => void saveDrafts(false)}
               onSaveAndGenerate={() => void saveDrafts(true)}
               isSubmitting={isSubmitting}
@@ -0,0 +1,149 @@
+"use client";
+
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  IMPORT_FIELDS,
+  MAX_IMPORT_ROWS,
+  type ImportColumnMapping,
+  type ImportField,
+  type ImportTable,
+} from "@/lib/accomplishment-import";
+import { cn } from "@/lib/utils";
+import { motionPressOnly } from "@/lib/motion/classes";
+import { FileSpreadsheet } from "lucide-react";
+
+const UNMAPPED = "none";
+const PREVIEW_ROWS = 3;
+
+interface BulkAccomplishmentImportMappingProps {
+  fileName: string;
+  table: ImportTable;
+  mapping: ImportColumnMapping;
+  onMappingChange: (mapping: ImportColumnMapping) => void;
+  onBack: () => void;
+  onContinue: () => void;
+}
+
+export function BulkAccomplishmentImportMapping({
+  fileName,
+  table,
+  mapping,
+  onMappingChange,
+  onBack,
+  onContinue,
+}: BulkAccomplishmentImportMappingProps) {
+  const rowCount = Math.min(table.rows.length, MAX_IMPORT_ROWS);
+
+  function setField(field: ImportField, value: string) {
+    onMappingChange({
+      ...mapping,
+      [field]: value === UNMAPPED ? null : Number(value),
+    });
+  }
+
+  function previewFor(field: ImportField): string {
+    const index = mapping[field];
+    if (index === null) return "";
+    return table.rows
+      .slice(0, PREVIEW_ROWS)
+      .map((row) => (row[index] ?? "").trim())
+      .filter(Boolean)
+      .join(" · ");
+  }
+
+  return (
+    <div className="flex h-full min-h-0 flex-col">
+      <div className="shrink-0 space-y-2 border-b pb-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <FileSpreadsheet className="size-4 text-muted-foreground" />
+          <h3 className="truncate text-lg font-semibold">{fileName}</h3>
+          <Badge variant="secondary" className="text-xs">
+            {rowCount} row{rowCount !== 1 ? "s" : ""}
+          </Badge>
+          {table.rows.length > MAX_IMPORT_ROWS && (
+            <Badge variant="outline" className="text-xs">
+              First {MAX_IMPORT_ROWS} only
+            </Badge>
+          )}
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Match your columns to entry fields. Rows are imported as-is — no
+          credits are used — and every row is checked for sensitive data.
+        </p>
+      </div>
+
+      <ScrollArea className="min-h-0 flex-1 -mx-6 px-6">
+        <div className="grid grid-cols-1 gap-4 py-4 sm:grid-cols-2">
+          {IMPORT_FIELDS.map((field) => {
+            const preview = previewFor(field.key);
+            return (
+              <div key={field.key} className="space-y-1.5">
+                <Label htmlFor={`import-${field.key}`}>
+                  {field.label}
+                  {field.required ? " *" : ""}
+                </Label>
+                <Select
+                  value={
+                    mapping[field.key] === null
+                      ? UNMAPPED
+                      : String(mapping[field.key])
+                  }
+                  onValueChange={(value) => setField(field.key, value)}
+                >
+                  <SelectTrigger
+                    id={`import-${field.key}`}
+                    aria-label={`Column for ${field.label}`}
+                  >
+                    <SelectValue placeholder="Not mapped" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={UNMAPPED}>Not mapped</SelectItem>
+                    {table.headers.map((header, index) => (
+                      <SelectItem key={index} value={String(index)}>
+                        {header}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {preview && (
+                  <p className="truncate text-xs text-muted-foreground">
+                    {preview}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </ScrollArea>
+
+      <div className="flex shrink-0 flex-col-reverse gap-2 border-t pt-4 sm:flex-row sm:items-center sm:justify-between">
+        <Button
+          type="button"
+          variant="ghost"
+          onClick={onBack}
+          className={cn(motionPressOnly)}
+        >
+          Back
+        </Button>
+        <Button
+          type="button"
+          onClick={onContinue}
+          disabled={mapping.details === null}
+          className={cn(motionPressOnly)}
+        >
+          Review {rowCount} row{rowCount !== 1 ? "s" : ""}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -20,12 +20,17 @@ import {
   applyCombineToDrafts,
   type BulkAccomplishmentDraft,
 } from "@/lib/extract-accomplishments";
+import {
+  getScanSummary,
+  scanForSensitiveData,
+} from "@/lib/sensitive-data-scanner";
 import { cn } from "@/lib/utils";
 import { motionPressOnly, motionTransitionInteractive } from "@/lib/motion/classes";
 import {
   AlertTriangle,
   CheckCircle2,
   Combine,
+  ShieldAlert,
   Trash2,
 } from "lucide-react";
 
@@ -63,7 +68,26 @@ export function BulkAccomplishmentReview({
   ).length;
 
   function updateDraft(id: string, updates: Partial<BulkAccomplishmentDraft>) {
-    onDraftsChange(drafts.map((d) => (d.id === id ? { ...d, ...updates } : d)));
+    onDraftsChange(
+      drafts.map((d) => {
+        if (d.id !== id) return d;
+        const next = { ...d, ...updates };
+        // Imported rows flagged by the scanner re-check as the user edits them.
+        if (d.sensitiveWarning) {
+          const matches = scanForSensitiveData({
+            action_verb: next.action_verb,
+            details: next.details,
+            impact: next.impact,
+            metrics: next.metrics,
+            tags: next.tags?.join(", "),
+            ...next.stewardship_impact,
+          });
+          next.sensitiveWarning =
+            matches.length > 0 ? getScanSummary(matches) : undefined;
+        }
+        return next;
+      }),
+    );
   }
 
   function removeDraft(id: string) {
@@ -199,6 +223,16 @@ export function BulkAccomplishmentReview({
                   </Button>
                 </div>
 
+                {draft.sensitiveWarning && (
+                  <p
+                    role="alert"
+                    className="flex items-start gap-1.5 whitespace-pre-line rounded-md border border-destructive/30 bg-destructive/5 px-3 py-2 text-xs text-destructive"
+                  >
+                    <ShieldAlert className="mt-0.5 size-3.5 shrink-0" />
+                    {draft.sensitiveWarning}
+                  </p>
+                )}
+
                 <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
                   <div className="space-y-1.5">
                     <Label htmlFor={`verb-${draft.id}`}>Action verb *</Label>
@@ -1,6 +1,6 @@
 "use client";
 
-import { useRef, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { createClient } from "@/lib/supabase/client";
 import { useUserStore } from "@/stores/user-store";
 import { Button } from "@/components/ui/button";
@@ -48,6 +48,8 @@ interface SupervisorWithData {
 
 interface SupervisorFeedbackPanelProps {
   trigger?: React.ReactNode;
+  /** Open once the profile is loaded (notification deep link) */
+  autoOpen?: boolean;
 }
 
 function formatSupervisionDateRange(start?: string, end?: string | null): string {
@@ -58,7 +60,10 @@ function formatSupervisionDateRange(start?: string, end?: string | null): string
   return `${startDate} - ${endDate}`;
 }
 
-export function SupervisorFeedbackPanel({ trigger }: SupervisorFeedbackPanelProps) {
+export function SupervisorFeedbackPanel({
+  trigger,
+  autoOpen = false,
+}: SupervisorFeedbackPanelProps) {
   const { profile } = useUserStore();
   const [isOpen, setIsOpen] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
@@ -211,6 +216,12 @@ export function SupervisorFeedbackPanel({ trigger }: SupervisorFeedbackPanelProp
     }
   }
 
+  useEffect(() => {
+    if (!autoOpen || !profile) return;
+    handleOpenChange(true);
+    // eslint-disable-next-line react-hooks/exhaustive-deps -- only react to the deep link
+  }, [autoOpen, profile?.id]);
+
   function toggleSupervisor(id: string) {
     setExpandedSupervisors((prev) => {
       const next = new Set(prev);
@@ -62,6 +62,8 @@ import {
 import { animateEpbShellResize } from "./epb-resize-transition";
 import { WordReplacementSlider } from "./word-replacement-slider";
 import { useWordThesaurus } from "@/hooks/use-word-thesaurus";
+import { useCollaborativeTextField, type CollaborativeTextSession } from "@/hooks/use-collaborative-text";
+import { RemoteEditorsNotice, RemoteTextCarets } from "./remote-text-carets";
 import { WordThesaurusPopup } from "@/components/word-thesaurus/word-thesaurus-popup";
 import { formatDateTime } from "@/lib/format";
 
@@ -114,6 +116,8 @@ interface DutyDescriptionCardProps {
     roles: string[];
     ranks: string[];
   };
+  // Concurrent editing session; the lock props below only apply while it's disconnected
+  liveText?: CollaborativeTextSession | null;
   // Lock props for single-user mode
   isLockedByOther?: boolean;
   lockedByInfo?: { name: string; rank: string | null } | null;
@@ -140,6 +144,7 @@ export function DutyDescriptionCard({
   onSaveTemplate,
   onDeleteTemplate,
   templateLabels = { offices: [], roles: [], ranks: [] },
+  liveText = null,
   isLockedByOther = false,
   lockedByInfo,
   onAcquireLock,
@@ -185,6 +190,20 @@ export function DutyDescriptionCard({
   const [isRevisionsResultsClosing, setIsRevisionsResultsClosing] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const thesaurus = useWordThesaurus({ model, documentContext: "epb" });
+
+  // Concurrent editing: collaborators' keystrokes land here directly, even mid-edit
+  const applyRemoteText = useCallback((text: string) => {
+    setLocalText(text);
+    setDutyDescriptionDraft(text);
+    setIsDutyDescriptionDirty(text !== currentDutyDescription);
+  }, [currentDutyDescription, setDutyDescriptionDraft, setIsDutyDescriptionDirty]);
+  const liveField = useCollaborativeTextField({
+    session: liveText,
+    field: "duty_description",
+    text: localText,
+    textareaRef,
+    onRemoteText: applyRemoteText,
+  });
   const cardBodyShellRef = useRef<HTMLDivElement>(null);
   const cardRef = useRef<HTMLDivElement>(null);
   const lastSavedRef = useRef<string>(currentDutyDescription);
@@ -344,6 +363,18 @@ export function DutyDescriptionCard({
   // Sync local text with prop when it changes (from shell load or realtime update)
   // This is the source of truth - always sync unless user is actively editing
   useEffect(() => {
+    // Live editing is ahead of the database; only text saved outside the session is merged in
+    if (liveField.isLive) {
+      const incoming = currentDutyDescription || "";
+      if (
+        incoming !== localText &&
+        incoming !== lastSavedRef.current &&
+        liveField.mergeSaved(incoming)
+      ) {
+        lastSavedRef.current = incoming;
+      }
+      return;
+    }
     if (!isEditing) {
       setLocalText(currentDutyDescription || "");
       setDutyDescriptionDraft(currentDutyDescription || "");
@@ -705,40 +736,50 @@ export function DutyDescriptionCard({
               </span>
             </div>
           )}
+          <RemoteEditorsNotice carets={liveField.remoteCarets} />
           
           {/* Textarea */}
           <div ref={statementAreaRef} className="space-y-3">
-            <textarea
-              ref={textareaRef}
-              value={localText}
-              onChange={(e) => handleTextChange(e.target.value)}
-              onFocus={handleTextFocus}
-              onBlur={() => {
-                thesaurus.handleBlur();
-                void handleTextBlur();
-              }}
-              onMouseUp={() =>
-                thesaurus.handleTextSelect(textareaRef.current, {
-                  text: localText,
-                  onChange: handleTextChange,
-                })
-              }
-              onKeyUp={(event) => {
-                if (event.shiftKey || event.key.startsWith("Arrow")) {
+            <div className="relative">
+              <textarea
+                ref={textareaRef}
+                value={localText}
+                onChange={(e) => handleTextChange(e.target.value)}
+                onSelect={liveField.handleSelect}
+                onFocus={handleTextFocus}
+                onBlur={() => {
+                  thesaurus.handleBlur();
+                  liveField.handleBlur();
+                  void handleTextBlur();
+                }}
+                onMouseUp={() =>
                   thesaurus.handleTextSelect(textareaRef.current, {
                     text: localText,
                     onChange: handleTextChange,
-                  });
+                  })
                 }
-              }}
-              onKeyDown={thesaurus.handleKeyDown}
-              placeholder='e.g., "Leads 36 Amn & 12 total force members directing 24/7 O&M of 730 enterprise domain controllers by administering & securing enterprise Directory Services on a $14B cyber weapon system..."'
-              rows={5}
-              className={cn(
-                "flex w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-xs transition-colors placeholder:text-muted-foreground focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] disabled:cursor-not-allowed disabled:opacity-50 resize-none",
-                isOverLimit && "border-destructive focus-visible:ring-destructive"
-              )}
-            />
+                onKeyUp={(event) => {
+                  if (event.shiftKey || event.key.startsWith("Arrow")) {
+                    thesaurus.handleTextSelect(textareaRef.current, {
+                      text: localText,
+                      onChange: handleTextChange,
+                    });
+                  }
+                }}
+                onKeyDown={thesaurus.handleKeyDown}
+                placeholder='e.g., "Leads 36 Amn & 12 total force members directing 24/7 O&M of 730 enterprise domain controllers by administering & securing enterprise Directory Services on a $14B cyber weapon system..."'
+                rows={5}
+                className={cn(
+                  "flex w-full rounded-md border border-input bg-transparent px-3 py-2 text-sm shadow-xs transition-colors placeholder:text-muted-foreground focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] disabled:cursor-not-allowed disabled:opacity-50 resize-none",
+                  isOverLimit && "border-destructive focus-visible:ring-destructive"
+                )}
+              />
+              <RemoteTextCarets
+                textareaRef={textareaRef}
+                text={localText}
+                carets={liveField.remoteCarets}
+              />
+            </div>
             <WordThesaurusPopup thesaurus={thesaurus} />
 
             {/* Action bar */}
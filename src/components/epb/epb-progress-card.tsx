@@ -24,20 +24,31 @@ import {
   RANK_TO_TIER,
   isOfficer,
   isEnlisted,
+  getEvaluationPeriodShortLabel,
+  formatCycleDate,
+  type CyclePeriodOverride,
 } from "@/lib/constants";
 import {
   buildCyclePortfolio,
+  filterEntriesToPeriod,
   ACA_PORTFOLIO_MPA_KEYS,
   PORTFOLIO_QUALITY_FLOOR,
 } from "@/lib/cycle-portfolio";
-import type { Rank, Accomplishment } from "@/types/database";
 import {
+  formatEPBWorkflowDue,
+  getEPBWorkflowStep,
+  getEPBWorkflowSuspense,
+} from "@/lib/epb-workflow";
+import type { Rank, Accomplishment, EPBWorkflowState } from "@/types/database";
+import {
+  AlertTriangle,
   Clock,
   CheckCircle2,
   Circle,
   TrendingUp,
   Target,
   ChevronDown,
+  Route,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { formatShortDate } from "@/lib/format";
@@ -52,6 +63,10 @@ interface EPBProgressCardProps {
   defaultCollapsed?: boolean;
   /** Who is looking: self reflecting vs rater curating. Default "self". */
   viewerRole?: "self" | "rater";
+  /** Ratee's custom evaluation period; replaces the SCOD close-out and drops entries outside it. */
+  override?: CyclePeriodOverride | null;
+  /** Routing step of the ratee's active EPB shell, when one exists. */
+  workflowState?: EPBWorkflowState | null;
 }
 
 // Recommended minimum entries per MPA for a complete EPB
@@ -66,14 +81,23 @@ export function EPBProgressCard({
   title = "Performance Coverage & Progress",
   defaultCollapsed = true,
   viewerRole = "self",
+  override,
+  workflowState,
 }: EPBProgressCardProps) {
   const [isOpen, setIsOpen] = useState(!defaultCollapsed);
   const tier = rank ? RANK_TO_TIER[rank] : null;
-  const closeout = getStaticCloseoutDate(rank);
-  const daysUntil = getDaysUntilCloseout(rank);
-  const milestones = getEPBMilestones(rank);
+  const closeout = getStaticCloseoutDate(rank, override);
+  const daysUntil = getDaysUntilCloseout(rank, override);
+  const milestones = getEPBMilestones(rank, override);
+  const workflowSuspense = workflowState ? getEPBWorkflowSuspense(workflowState, rank, override) : null;
+  const isWorkflowOverdue = !!workflowSuspense?.isOverdue;
   const showQualityInsights = isEnlisted(rank);
-  const portfolio = useMemo(() => buildCyclePortfolio(entries), [entries]);
+  const closeoutPrefix = override ? `${getEvaluationPeriodShortLabel(override.reason)} close-out` : "SCOD";
+  const periodEntries = useMemo(() => filterEntriesToPeriod(entries, override), [entries, override]);
+  const portfolio = useMemo(
+    () => buildCyclePortfolio(entries, { period: override }),
+    [entries, override]
+  );
 
   // Calculate MPA coverage
   const mpaStats = useMemo(() => {
@@ -83,7 +107,7 @@ export function EPBProgressCard({
       stats[mpa.key] = { entries: 0, statements: 0 };
     });
 
-    entries.forEach((entry) => {
+    periodEntries.forEach((entry) => {
       if (stats[entry.mpa]) {
         stats[entry.mpa].entries++;
       }
@@ -96,7 +120,7 @@ export function EPBProgressCard({
     });
 
     return stats;
-  }, [entries, statements]);
+  }, [periodEntries, statements]);
 
   // Calculate overall readiness
   const readiness = useMemo(() => {
@@ -157,7 +181,7 @@ export function EPBProgressCard({
             <p className="mt-1">OPB-specific tracking coming soon. Keep logging your accomplishments!</p>
             {closeout && (
               <p className="mt-2 text-xs">
-                SCOD: {closeout.label} • {daysUntil !== null ? `${daysUntil} days remaining` : ""}
+                {closeoutPrefix}: {closeout.label} • {daysUntil !== null ? `${daysUntil} days remaining` : ""}
               </p>
             )}
           </div>
@@ -166,7 +190,7 @@ export function EPBProgressCard({
     );
   }
 
-  if (!rank || !tier || !closeout) {
+  if (!rank || (!tier && !override) || !closeout) {
     return (
       <Card className={className}>
         <CardContent className="pt-6">
@@ -192,6 +216,11 @@ export function EPBProgressCard({
               <span className="font-medium">
                 {daysUntil !== null ? `${daysUntil}d` : "—"} to close-out
               </span>
+              {isWorkflowOverdue && workflowState && (
+                <Badge variant="destructive" className="text-[10px]">
+                  {getEPBWorkflowStep(workflowState).label} overdue
+                </Badge>
+              )}
             </div>
 
             {/* MPA Coverage */}
@@ -276,6 +305,11 @@ export function EPBProgressCard({
                     )}
                   </div>
                 )}
+                {isWorkflowOverdue && (
+                  <Badge variant="destructive" className="text-[10px] shrink-0">
+                    Overdue
+                  </Badge>
+                )}
                 <div className="flex items-center gap-1.5 text-sm font-medium text-foreground shrink-0 tabular-nums">
                   <Clock className="size-4" />
                   {daysUntil !== null ? (
@@ -290,6 +324,48 @@ export function EPBProgressCard({
         </CollapsibleTrigger>
         <CollapsibleContent>
           <CardContent className="space-y-4 pt-0">
+            {override && (
+              <p className="text-xs text-muted-foreground">
+                {getEvaluationPeriodShortLabel(override.reason)} period: {formatCycleDate(override.start)} to {formatCycleDate(override.end)}
+                {portfolio.outsidePeriodCount > 0 &&
+                  ` • ${portfolio.outsidePeriodCount} ${portfolio.outsidePeriodCount === 1 ? "entry" : "entries"} outside the period not counted`}
+              </p>
+            )}
+            {workflowState && (
+              <div
+                className={cn(
+                  "rounded-lg p-3 text-sm border",
+                  isWorkflowOverdue ? "border-destructive/40 bg-destructive/5" : "bg-card"
+                )}
+              >
+                <div className="flex items-start gap-2">
+                  {isWorkflowOverdue ? (
+                    <AlertTriangle className="size-4 mt-0.5 shrink-0 text-destructive" />
+                  ) : workflowState === "finalized" ? (
+                    <CheckCircle2 className="size-4 mt-0.5 shrink-0 text-primary" />
+                  ) : (
+                    <Route className="size-4 mt-0.5 shrink-0 text-primary" />
+                  )}
+                  <div className="min-w-0">
+                    <p className="font-medium">
+                      EPB routing: {getEPBWorkflowStep(workflowState).label}
+                    </p>
+                    {workflowSuspense && (
+                      <p
+                        className={cn(
+                          "text-xs mt-0.5",
+                          isWorkflowOverdue ? "text-destructive" : "text-muted-foreground"
+                        )}
+                      >
+                        {formatEPBWorkflowDue(workflowSuspense)} — {formatShortDate(workflowSuspense.dueDate)}
+                        {" · "}
+                        {workflowSuspense.milestoneLabel}
+                      </p>
+                    )}
+                  </div>
+                </div>
+              </div>
+            )}
             {nextMilestone && (
               <div className="rounded-lg p-3 text-sm bg-muted/50">
                 <div className="flex items-start gap-2">
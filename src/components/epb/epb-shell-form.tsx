@@ -48,6 +48,7 @@ import {
   type EpbAssessmentRecord,
 } from "./epb-assessment-history-dialog";
 import { ArchiveEPBDialog } from "./archive-epb-dialog";
+import { EPBWorkflowControl } from "./epb-workflow-control";
 import {
   FileText,
   Plus,
@@ -62,9 +63,11 @@ import {
   AlertTriangle,
   Rows2,
   History,
+  Download,
 } from "lucide-react";
 import { createClient } from "@/lib/supabase/client";
 import { createEpbShell } from "@/lib/epb-shell-create";
+import { downloadFromApi } from "@/lib/download-file";
 import { useUserStore } from "@/stores/user-store";
 import { useEPBShellStore, type SelectedRatee } from "@/stores/epb-shell-store";
 import { handleUsageLimitResponse } from "@/stores/usage-limit-store";
@@ -76,10 +79,11 @@ import { parseStatement, combineSentences, type ParsedSentence } from "@/lib/sen
 import { RealtimeCursors } from "./realtime-cursors";
 import { getEpbZenChromeClassName } from "./epb-zen-mode";
 import { useEPBCollaboration } from "@/hooks/use-epb-collaboration";
+import { useCollaborativeText } from "@/hooks/use-collaborative-text";
 import { useSectionLocks } from "@/hooks/use-section-locks";
 import { useShellFieldLocks } from "@/hooks/use-shell-field-locks";
 import { useIdleDetection } from "@/hooks/use-idle-detection";
-import type { EPBShell, EPBShellSection, EPBShellSnapshot, EPBSavedExample, Accomplishment, DutyDescriptionSnapshot, DutyDescriptionExample, DutyDescriptionTemplate, WritingStyle, AwardSelection, ImpactBoosterState } from "@/types/database";
+import type { EPBShell, EPBShellSection, EPBShellSnapshot, EPBSavedExample, Accomplishment, DutyDescriptionSnapshot, DutyDescriptionExample, DutyDescriptionTemplate, WritingStyle, AwardSelection, ImpactBoosterState, EPBWorkflowState } from "@/types/database";
 import {
   buildImpactBoosterContext,
   mergeImpactAssessment,
@@ -207,6 +211,7 @@ export function EPBShellForm({
   const [showAssessmentHistory, setShowAssessmentHistory] = useState(false);
   const [assessmentHistory, setAssessmentHistory] = useState<EpbAssessmentRecord[]>([]);
   const [isLoadingAssessmentHistory, setIsLoadingAssessmentHistory] = useState(false);
+  const [isExportingPdf, setIsExportingPdf] = useState(false);
   
   // EPB Archive state
   const [showArchiveDialog, setShowArchiveDialog] = useState(false);
@@ -274,16 +279,30 @@ export function EPBShellForm({
   // Multi-user mode from the shell
   const isMultiUserMode = currentShell?.multi_user_enabled ?? false;
 
-  // Section locks hook - only active when multi-user mode is OFF
+  // Concurrent editing of statements and the duty description for everyone on this shell
+  const liveText = useCollaborativeText({
+    roomName: currentShell ? `epb-text-${currentShell.id}` : "",
+    enabled: !!currentShell,
+    username: profile?.full_name || "Anonymous",
+    userRank: profile?.rank,
+  });
+  // Read from realtime handlers without resubscribing them
+  const isLiveTextRef = useRef(liveText.isConnected);
+  isLiveTextRef.current = liveText.isConnected;
+
+  // Locks are the fallback when live editing can't connect (and multi-user mode is OFF)
+  const lockFallback = !isMultiUserMode && !liveText.isConnected;
+
+  // Section locks hook
   const sectionLocks = useSectionLocks({
     shellId: currentShell?.id || null,
-    enabled: !isMultiUserMode,
+    enabled: lockFallback,
   });
   
-  // Shell field locks for duty description - only active when multi-user mode is OFF
+  // Shell field locks for duty description
   const fieldLocks = useShellFieldLocks({
     shellId: currentShell?.id || null,
-    enabled: !isMultiUserMode,
+    enabled: lockFallback,
   });
 
   // Ref to track if we're receiving remote changes (defined early for use in callback)
@@ -293,8 +312,19 @@ export function EPBShellForm({
   const handleRemoteStateChange = useCallback((state: import("@/hooks/use-epb-collaboration").EPBWorkspaceState) => {
     // Mark that we're receiving remote data (to avoid broadcasting it back)
     isReceivingRemoteRef.current = true;
-    // Sync section text and modes
-    syncRemoteState(state.sections, state.collapsedSections);
+    // Sync section text and modes; with live editing up, text converges through it instead
+    const sections = isLiveTextRef.current
+      ? Object.fromEntries(
+          Object.entries(state.sections).map(([mpa, remote]) => [
+            mpa,
+            {
+              ...remote,
+              draftText: useEPBShellStore.getState().sectionStates[mpa]?.draftText ?? remote.draftText,
+            },
+          ])
+        )
+      : state.sections;
+    syncRemoteState(sections, state.collapsedSections);
   }, [syncRemoteState]);
 
   const onParticipantJoin = useCallback((participant: import("@/hooks/use-epb-collaboration").EPBCollaborator) => {
@@ -490,6 +520,15 @@ export function EPBShellForm({
     }
   };
 
+  // Same direct store update as above: the workflow route already saved the step
+  const handleWorkflowStateChange = useCallback((state: EPBWorkflowState, changedAt: string) => {
+    const shell = useEPBShellStore.getState().currentShell;
+    if (!shell) return;
+    useEPBShellStore.setState({
+      currentShell: { ...shell, workflow_state: state, workflow_state_changed_at: changedAt },
+    });
+  }, []);
+
   // Sentence drag-drop handlers
   const handleSentenceDragStart = (data: DraggedSentence) => {
     setDraggedSentence(data);
@@ -957,9 +996,12 @@ export function EPBShellForm({
               last_edited_by: section.last_edited_by,
               updated_at: section.updated_at,
             });
-            useEPBShellStore.getState().updateSectionState(section.mpa, {
-              draftText: section.statement_text,
-            });
+            // Live editing already has newer text than the last save
+            if (!isLiveTextRef.current) {
+              useEPBShellStore.getState().updateSectionState(section.mpa, {
+                draftText: section.statement_text,
+              });
+            }
           }
         });
       }
@@ -1000,10 +1042,11 @@ export function EPBShellForm({
             });
 
             // Also update the section state's draftText so the textarea reflects changes
-            // But only if the user is not currently editing that section
+            // But only if the user is not currently editing that section, and live
+            // editing isn't already carrying newer text
             const currentSectionState =
               useEPBShellStore.getState().sectionStates[updatedSection.mpa];
-            if (!currentSectionState?.isDirty) {
+            if (!currentSectionState?.isDirty && !isLiveTextRef.current) {
               useEPBShellStore.getState().updateSectionState(updatedSection.mpa, {
                 draftText: updatedSection.statement_text,
               });
@@ -1026,10 +1069,32 @@ export function EPBShellForm({
         },
         (payload) => {
           const updatedShell = payload.new as EPBShell;
+
+          // Routing step moved by a collaborator
+          const latestShell = useEPBShellStore.getState().currentShell;
+          if (
+            latestShell &&
+            updatedShell.workflow_state &&
+            updatedShell.workflow_state !== latestShell.workflow_state
+          ) {
+            useEPBShellStore.setState({
+              currentShell: {
+                ...latestShell,
+                workflow_state: updatedShell.workflow_state,
+                workflow_state_changed_at: updatedShell.workflow_state_changed_at,
+              },
+            });
+          }
           
           // Only update duty_description if changed by someone else
           // and user is not currently editing it
-          if (updatedShell.duty_description !== undefined) {
+          if (updatedShell.duty_description !== undefined && isLiveTextRef.current) {
+            // Live editing owns the draft; just track what's saved
+            const shell = useEPBShellStore.getState().currentShell;
+            if (shell && updatedShell.duty_description !== shell.duty_description) {
+              setCurrentShell({ ...shell, duty_description: updatedShell.duty_description });
+            }
+          } else if (updatedShell.duty_description !== undefined) {
             const currentDraft = useEPBShellStore.getState().dutyDescriptionDraft;
             const isDirty = useEPBShellStore.getState().isDutyDescriptionDirty;
             
@@ -1965,6 +2030,22 @@ export function EPBShellForm({
     }
   }, [currentShell, supabase]);
 
+  const handleExportPdf = useCallback(async () => {
+    if (!currentShell) return;
+    setIsExportingPdf(true);
+    try {
+      await downloadFromApi(
+        `/api/epb/${currentShell.id}/export`,
+        `EPB_${currentShell.cycle_year}.pdf`
+      );
+    } catch (error) {
+      console.error("Failed to export EPB:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to export EPB");
+    } finally {
+      setIsExportingPdf(false);
+    }
+  }, [currentShell]);
+
   // Loading state
   if (isLoadingShell) {
     return (
@@ -2238,6 +2319,44 @@ export function EPBShellForm({
           </Tooltip>
         )}
         
+        {/* Export PDF Button */}
+        {currentShell && (
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={handleExportPdf}
+                disabled={isExportingPdf}
+                className="h-8 px-3 text-sm gap-1.5"
+              >
+                {isExportingPdf ? (
+                  <Loader2 className="size-3.5 animate-spin" />
+                ) : (
+                  <Download className="size-3.5" />
+                )}
+                <span className="hidden sm:inline">Export PDF</span>
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent side="bottom" className="max-w-[280px]">
+              <p className="font-medium text-xs">Export to PDF</p>
+              <p className="text-[10px] text-muted-foreground mt-0.5">
+                Download the whole EPB laid out like the myEval form: ratee data,
+                cycle period, duty description, every MPA and the HLR block.
+              </p>
+            </TooltipContent>
+          </Tooltip>
+        )}
+
+        {/* Routing step and suspense */}
+        {currentShell && currentShell.status !== 'archived' && (
+          <EPBWorkflowControl
+            shellId={currentShell.id}
+            state={currentShell.workflow_state ?? "drafting"}
+            onStateChange={handleWorkflowStateChange}
+          />
+        )}
+
         {/* Archive EPB Button - Only show for active shells with content */}
         {currentShell && currentShell.status !== 'archived' && (
           <Tooltip>
@@ -2307,20 +2426,21 @@ export function EPBShellForm({
           onSaveTemplate={handleSaveDutyDescriptionTemplate}
           onDeleteTemplate={handleDeleteDutyDescriptionTemplate}
           templateLabels={templateLabels}
-          // Lock props for single-user mode
-          isLockedByOther={!isMultiUserMode && fieldLocks.isLockedByOther("duty_description")}
-          lockedByInfo={!isMultiUserMode ? fieldLocks.getLockedByInfo("duty_description") : null}
-          onAcquireLock={() => fieldLocks.acquireLock("duty_description")}
-          onReleaseLock={() => fieldLocks.releaseLock("duty_description")}
+          // Concurrent editing, with locks as the fallback
+          liveText={liveText}
+          isLockedByOther={lockFallback && fieldLocks.isLockedByOther("duty_description")}
+          lockedByInfo={lockFallback ? fieldLocks.getLockedByInfo("duty_description") : null}
+          onAcquireLock={lockFallback ? () => fieldLocks.acquireLock("duty_description") : undefined}
+          onReleaseLock={lockFallback ? () => fieldLocks.releaseLock("duty_description") : undefined}
         />
 
         {STANDARD_MGAS.map((mpa) => {
           const section = sections[mpa.key];
           if (!section) return null;
 
-          // Get lock info for this section (only relevant in single-user mode)
-          const lockInfo = !isMultiUserMode ? sectionLocks.getLockedByInfo(mpa.key) : null;
-          const isLockedByOther = !isMultiUserMode && sectionLocks.isLockedByOther(mpa.key);
+          // Get lock info for this section (only relevant when falling back to locks)
+          const lockInfo = lockFallback ? sectionLocks.getLockedByInfo(mpa.key) : null;
+          const isLockedByOther = lockFallback && sectionLocks.isLockedByOther(mpa.key);
 
           return (
             <div key={`${loadVersion}-${mpa.key}`} data-mpa-key={mpa.key}>
@@ -2340,11 +2460,12 @@ export function EPBShellForm({
                 onGenerateStatement={(opts) => handleGenerateStatement(mpa.key, opts)}
                 onReviseStatement={(text, ctx, count, aggr) => handleReviseStatement(mpa.key, text, ctx, count, aggr)}
                 snapshots={snapshots[section.id] || []}
-                // Lock props for single-user mode
+                // Concurrent editing, with locks as the fallback
+                liveText={liveText}
                 isLockedByOther={isLockedByOther}
                 lockedByInfo={lockInfo}
-                onAcquireLock={() => sectionLocks.acquireLock(section.id)}
-                onReleaseLock={() => sectionLocks.releaseLock(section.id)}
+                onAcquireLock={lockFallback ? () => sectionLocks.acquireLock(section.id) : undefined}
+                onReleaseLock={lockFallback ? () => sectionLocks.releaseLock(section.id) : undefined}
                 accomplishments={accomplishments}
                 // Enable real-time text sync when collaborating
                 isCollaborating={collaboration.isInSession}
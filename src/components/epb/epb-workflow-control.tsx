@@ -0,0 +1,202 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "@/components/ui/sonner";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  canTransitionEPBWorkflow,
+  EPB_WORKFLOW_STEPS,
+  formatEPBWorkflowDue,
+  getEPBWorkflowReturnStates,
+  getEPBWorkflowStep,
+  getNextEPBWorkflowState,
+  type EPBWorkflowRole,
+} from "@/lib/epb-workflow";
+import { formatDateTime, formatShortDateWithYear } from "@/lib/format";
+import { cn } from "@/lib/utils";
+import type { EPBWorkflowState } from "@/types/database";
+import { AlertTriangle, ArrowRight, CheckCircle2, Loader2, Route, Undo2 } from "lucide-react";
+
+interface WorkflowSnapshot {
+  state: EPBWorkflowState;
+  role: EPBWorkflowRole;
+  changedAt: string;
+  suspense: {
+    dueDate: string;
+    daysFromNow: number;
+    isOverdue: boolean;
+    milestoneLabel: string;
+  } | null;
+  history: {
+    id: string;
+    fromState: EPBWorkflowState;
+    toState: EPBWorkflowState;
+    changedByName: string;
+    createdAt: string;
+  }[];
+}
+
+interface EPBWorkflowControlProps {
+  shellId: string;
+  /** Routing step from the loaded shell; realtime updates flow in through here */
+  state: EPBWorkflowState;
+  onStateChange: (state: EPBWorkflowState, changedAt: string) => void;
+}
+
+/** Routing step, suspense and history for one EPB shell. */
+export function EPBWorkflowControl({ shellId, state, onStateChange }: EPBWorkflowControlProps) {
+  const [snapshot, setSnapshot] = useState<WorkflowSnapshot | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Refetch when the step changes here or from another collaborator
+  useEffect(() => {
+    const controller = new AbortController();
+    void (async () => {
+      try {
+        const response = await fetch(`/api/epb/${shellId}/workflow`, { signal: controller.signal });
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error);
+        setSnapshot(result);
+      } catch {
+        // The badge still shows the step from the shell; suspense just stays hidden
+      }
+    })();
+    return () => controller.abort();
+  }, [shellId, state]);
+
+  async function handleTransition(to: EPBWorkflowState) {
+    setIsSaving(true);
+    try {
+      const response = await fetch(`/api/epb/${shellId}/workflow`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ state: to, from: state }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to update EPB workflow");
+      }
+      setSnapshot(result);
+      onStateChange(result.state, result.changedAt);
+      toast.success(`EPB moved to ${getEPBWorkflowStep(result.state).label.toLowerCase()}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to update EPB workflow");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  const step = getEPBWorkflowStep(state);
+  // Only offer the moves the caller's role is allowed to make
+  const role = snapshot?.role;
+  const canMoveTo = (to: EPBWorkflowState) => !!role && canTransitionEPBWorkflow(state, to, role);
+  const forward = getNextEPBWorkflowState(state);
+  const next = forward && canMoveTo(forward) ? forward : null;
+  const returnStates = getEPBWorkflowReturnStates(state).filter(canMoveTo);
+  // Ignore a snapshot fetched for a step the shell has since left
+  const suspense = snapshot?.state === state ? snapshot.suspense : null;
+  const isOverdue = !!suspense?.isOverdue;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className={cn("h-8 px-3 text-sm gap-1.5", isOverdue && "border-destructive/50 text-destructive")}
+        >
+          {state === "finalized" ? (
+            <CheckCircle2 className="size-3.5" />
+          ) : isOverdue ? (
+            <AlertTriangle className="size-3.5" />
+          ) : (
+            <Route className="size-3.5" />
+          )}
+          <span className="hidden sm:inline">{step.label}</span>
+          {isOverdue && (
+            <Badge variant="destructive" className="h-4 px-1 text-[9px]">
+              Overdue
+            </Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-0" align="start" side="bottom">
+        <div className="p-4 border-b space-y-2">
+          <p className="text-sm font-medium">Routing</p>
+          <ol className="flex flex-wrap items-center gap-1 text-[10px]">
+            {EPB_WORKFLOW_STEPS.map((s, index) => (
+              <li key={s.key} className="flex items-center gap-1">
+                {index > 0 && <ArrowRight className="size-2.5 text-muted-foreground" />}
+                <span
+                  className={cn(
+                    "rounded px-1.5 py-0.5",
+                    s.key === state ? "bg-primary text-primary-foreground" : "bg-muted text-muted-foreground"
+                  )}
+                >
+                  {s.label}
+                </span>
+              </li>
+            ))}
+          </ol>
+          {suspense && (
+            <p className={cn("text-xs", isOverdue ? "text-destructive" : "text-muted-foreground")}>
+              {formatEPBWorkflowDue(suspense)} · {formatShortDateWithYear(suspense.dueDate)}
+              <span className="block text-[10px] text-muted-foreground">{suspense.milestoneLabel}</span>
+            </p>
+          )}
+        </div>
+
+        <div className="p-4 border-b flex flex-col gap-2">
+          {role && !next && returnStates.length === 0 && (
+            <p className="text-xs text-muted-foreground">Your supervision chain routes this EPB from here.</p>
+          )}
+          {next && (
+            <Button size="sm" disabled={isSaving} onClick={() => handleTransition(next)} className="gap-1.5">
+              {isSaving ? <Loader2 className="size-3.5 animate-spin" /> : <ArrowRight className="size-3.5" />}
+              {getEPBWorkflowStep(next).actionLabel}
+            </Button>
+          )}
+          {returnStates.map((to) => (
+            <Button
+              key={to}
+              variant="ghost"
+              size="sm"
+              disabled={isSaving}
+              onClick={() => handleTransition(to)}
+              className="justify-start gap-1.5 text-muted-foreground"
+            >
+              <Undo2 className="size-3.5" />
+              Return to {getEPBWorkflowStep(to).label.toLowerCase()}
+            </Button>
+          ))}
+        </div>
+
+        <div className="p-4 max-h-56 overflow-y-auto">
+          <p className="text-xs font-medium mb-2">History</p>
+          {!snapshot || snapshot.history.length === 0 ? (
+            <p className="text-xs text-muted-foreground">No routing changes yet.</p>
+          ) : (
+            <ul className="space-y-2">
+              {snapshot.history.map((t) => (
+                <li key={t.id} className="text-xs">
+                  <p>
+                    {getEPBWorkflowStep(t.fromState).label} → {getEPBWorkflowStep(t.toState).label}
+                  </p>
+                  <p className="text-[10px] text-muted-foreground">
+                    {t.changedByName} · {formatDateTime(t.createdAt)}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
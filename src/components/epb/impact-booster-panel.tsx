@@ -28,6 +28,7 @@ import {
   IMPACT_BOOSTER_FREEFORM_MAX,
   buildImpactBoosterFromDrafts,
   type ImpactBoosterDraftFields,
+  type ImpactBoosterPrompt,
 } from "@/lib/impact-booster";
 import {
   STEWARDSHIP_HINTS,
@@ -39,7 +40,6 @@ import {
   markImpactBoosterIntroSeen,
 } from "@/lib/impact-booster-intro";
 import type { ImpactBoosterState, ImpactLever } from "@/types/database";
-import type { ImpactBoosterPrompt } from "@/stores/epb-shell-store";
 import {
   Clock,
   DollarSign,
@@ -123,6 +123,8 @@ export interface ImpactBoosterPanelProps {
   onSave: (next: ImpactBoosterState) => Promise<void> | void;
   onClearAll: () => Promise<void> | void;
   includeLabel?: string;
+  /** What one booster belongs to, for copy like "Clear details for this MPA". */
+  scopeLabel?: string;
   /**
    * When both previews are present, Impact Booster splits details by
    * accomplishment so two sentences in one MPA stay distinct.
@@ -146,6 +148,7 @@ export function ImpactBoosterPanel({
   onSave,
   onClearAll,
   includeLabel = "Include on Generate / Revise",
+  scopeLabel = "MPA",
   sentencePreviews = null,
   onExpandedChange,
 }: ImpactBoosterPanelProps) {
@@ -433,12 +436,12 @@ export function ImpactBoosterPanel({
                   className="h-7 w-7 p-0 text-muted-foreground hover:text-destructive"
                   disabled={busy}
                   onClick={() => void onClearAll()}
-                  aria-label="Clear Impact Booster details for this MPA"
+                  aria-label={`Clear Impact Booster details for this ${scopeLabel}`}
                 >
                   <Trash2 className="size-3.5" />
                 </Button>
               </TooltipTrigger>
-              <TooltipContent>Clear details for this MPA</TooltipContent>
+              <TooltipContent>Clear details for this {scopeLabel}</TooltipContent>
             </Tooltip>
           )}
         </div>
@@ -450,7 +453,7 @@ export function ImpactBoosterPanel({
             : "Details saved per accomplishment — not sent until you include them."
           : includeInRun
             ? "Details ride along with Generate / Revise (uses a credit)."
-            : "Details saved for this MPA only — not sent until you include them."}
+            : `Details saved for this ${scopeLabel} only — not sent until you include them.`}
       </p>
     </div>
   );
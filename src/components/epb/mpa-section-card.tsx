@@ -72,6 +72,8 @@ import { PromptSettingsModal } from "./prompt-settings-modal";
 import { ImpactBoosterPanel } from "./impact-booster-panel";
 import { WordReplacementSlider } from "./word-replacement-slider";
 import { useWordThesaurus } from "@/hooks/use-word-thesaurus";
+import { useCollaborativeTextField, type CollaborativeTextSession } from "@/hooks/use-collaborative-text";
+import { RemoteEditorsNotice, RemoteTextCarets } from "./remote-text-carets";
 import { WordThesaurusPopup } from "@/components/word-thesaurus/word-thesaurus-popup";
 import {
   DEFAULT_IMPACT_BOOSTER_PROMPTS,
@@ -130,6 +132,8 @@ interface MPASectionCardProps {
   lockedByInfo?: { name: string; rank: string | null } | null;
   onAcquireLock?: () => Promise<{ success: boolean; lockedBy?: string }>;
   onReleaseLock?: () => Promise<void>;
+  // Concurrent editing session; locks above only apply while it's disconnected
+  liveText?: CollaborativeTextSession | null;
   // Collaboration mode - sync text to Zustand more frequently
   isCollaborating?: boolean;
   // Refresh callback to get latest data
@@ -359,6 +363,7 @@ export function MPASectionCard({
   lockedByInfo,
   onAcquireLock,
   onReleaseLock,
+  liveText = null,
   // Collaboration mode
   isCollaborating = false,
   // Refresh callback
@@ -650,6 +655,23 @@ export function MPASectionCard({
   localTextRef.current = localText;
   // Defer expensive parse/pill work so paste/typing stays responsive
   const deferredText = useDeferredValue(localText);
+
+  // Concurrent editing: collaborators' keystrokes land here directly, even mid-edit
+  const applyRemoteText = useCallback((text: string) => {
+    setLocalText(text);
+    updateSectionState(section.mpa, {
+      draftText: text,
+      isDirty: text !== section.statement_text,
+    });
+  }, [section.mpa, section.statement_text, updateSectionState]);
+  const liveField = useCollaborativeTextField({
+    session: liveText,
+    field: `statement:${section.mpa}`,
+    text: localText,
+    textareaRef,
+    onRemoteText: applyRemoteText,
+  });
+  const mergeLiveSaved = liveField.mergeSaved;
   
   // Track if user is currently focused on the textarea
   const [isEditing, setIsEditing] = useState(false);
@@ -743,6 +765,17 @@ export function MPASectionCard({
   // Protect with isEditing (covers split view + unified textarea) — NOT textareaRef focus,
   // which fails in split view and lets stale autosave / realtime wipe in-progress edits.
   useEffect(() => {
+    // Live editing is ahead of the database; note when our text has been saved, and
+    // merge text saved outside the session instead of dropping it
+    if (liveField.isLive) {
+      const incoming = section.statement_text || "";
+      if (incoming === localTextRef.current) {
+        lastSavedRef.current = incoming;
+      } else if (incoming !== lastSavedRef.current && mergeLiveSaved(incoming)) {
+        lastSavedRef.current = incoming;
+      }
+      return;
+    }
     if (isEditing) return;
     // Also protect unsaved local divergence (user typed, autosave of older text just landed)
     if (localTextRef.current !== lastSavedRef.current) return;
@@ -755,7 +788,7 @@ export function MPASectionCard({
       isDirty: false,
     });
     lastSavedRef.current = incoming;
-  }, [section.statement_text, section.mpa, isEditing, updateSectionState]);
+  }, [section.statement_text, section.mpa, isEditing, updateSectionState, liveField.isLive, mergeLiveSaved]);
 
   // Also sync when state.draftText changes from external sources (AI generation, collaboration)
   useEffect(() => {
@@ -1546,6 +1579,7 @@ export function MPASectionCard({
                   </div>
                 </div>
               )}
+              <RemoteEditorsNotice carets={liveField.remoteCarets} />
 
               {/* Textarea or Split View Editor — card body resizes smoothly on toggle */}
               <div>
@@ -1572,9 +1606,11 @@ export function MPASectionCard({
                       ref={textareaRef}
                       value={localText}
                       onChange={(e) => handleTextChange(e.target.value)}
+                      onSelect={liveField.handleSelect}
                       onFocus={handleTextFocus}
                       onBlur={() => {
                         thesaurus.handleBlur();
+                        liveField.handleBlur();
                         void handleTextBlur();
                       }}
                       onMouseUp={() =>
@@ -1599,6 +1635,11 @@ export function MPASectionCard({
                         isOverLimit && "border-destructive focus-visible:ring-destructive"
                       )}
                     />
+                    <RemoteTextCarets
+                      textareaRef={textareaRef}
+                      text={localText}
+                      carets={liveField.remoteCarets}
+                    />
 
                     <WordThesaurusPopup thesaurus={thesaurus} />
 
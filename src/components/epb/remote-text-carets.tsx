@@ -0,0 +1,116 @@
+"use client";
+
+import { Fragment, useEffect, useLayoutEffect, useState } from "react";
+import type { CollaborativeFieldCaret } from "@/hooks/use-collaborative-text";
+
+// Properties that decide where text wraps inside the textarea
+const MIRRORED_STYLES = [
+  "boxSizing",
+  "width",
+  "paddingTop",
+  "paddingRight",
+  "paddingBottom",
+  "paddingLeft",
+  "borderTopWidth",
+  "borderRightWidth",
+  "borderBottomWidth",
+  "borderLeftWidth",
+  "fontFamily",
+  "fontSize",
+  "fontWeight",
+  "lineHeight",
+  "letterSpacing",
+  "textIndent",
+  "tabSize",
+] as const;
+
+interface RemoteTextCaretsProps {
+  textareaRef: React.RefObject<HTMLTextAreaElement | null>;
+  text: string;
+  carets: CollaborativeFieldCaret[];
+}
+
+/**
+ * Collaborators' carets drawn over a textarea: a transparent copy of the text
+ * laid out exactly like the textarea, with a colored bar at each caret.
+ */
+export function RemoteTextCarets({ textareaRef, text, carets }: RemoteTextCaretsProps) {
+  const [mirrorStyle, setMirrorStyle] = useState<React.CSSProperties>({});
+  const [scrollTop, setScrollTop] = useState(0);
+
+  useLayoutEffect(() => {
+    const el = textareaRef.current;
+    if (!el || carets.length === 0) return;
+    const computed = window.getComputedStyle(el);
+    const style: Record<string, string> = {};
+    MIRRORED_STYLES.forEach((key) => {
+      style[key] = computed[key];
+    });
+    setMirrorStyle(style as React.CSSProperties);
+  }, [textareaRef, carets.length, text]);
+
+  useEffect(() => {
+    const el = textareaRef.current;
+    if (!el || carets.length === 0) return;
+    const handleScroll = () => setScrollTop(el.scrollTop);
+    handleScroll();
+    el.addEventListener("scroll", handleScroll);
+    return () => el.removeEventListener("scroll", handleScroll);
+  }, [textareaRef, carets.length]);
+
+  if (carets.length === 0) return null;
+
+  const sorted = [...carets].sort((a, b) => a.index - b.index);
+  let cursor = 0;
+
+  return (
+    <div className="pointer-events-none absolute inset-0 overflow-hidden rounded-md" aria-hidden>
+      <div
+        className="whitespace-pre-wrap break-words border-solid border-transparent text-transparent"
+        style={{ ...mirrorStyle, transform: `translateY(${-scrollTop}px)` }}
+      >
+        {sorted.map((caret) => {
+          const index = Math.min(caret.index, text.length);
+          const before = text.slice(cursor, index);
+          cursor = index;
+          const label = caret.rank ? `${caret.rank} ${caret.name.split(" ")[0]}` : caret.name.split(" ")[0];
+          return (
+            <Fragment key={caret.key}>
+              {before}
+              <span className="relative inline-block w-0 h-[1.2em] align-text-bottom">
+                <span
+                  className="absolute inset-y-0 -left-px w-0.5 rounded-full"
+                  style={{ backgroundColor: caret.color }}
+                />
+                <span
+                  className="absolute top-full -left-px px-1 rounded text-[9px] leading-tight font-medium text-white whitespace-nowrap"
+                  style={{ backgroundColor: caret.color }}
+                >
+                  {label}
+                </span>
+              </span>
+            </Fragment>
+          );
+        })}
+        {text.slice(cursor)}
+      </div>
+    </div>
+  );
+}
+
+/** Who else has their caret in this field, in their caret colors. */
+export function RemoteEditorsNotice({ carets }: { carets: CollaborativeFieldCaret[] }) {
+  if (carets.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-x-2 gap-y-1 px-3 py-1.5 rounded-md border border-border text-muted-foreground text-xs animate-in fade-in-0 duration-200">
+      {carets.map((caret) => (
+        <span key={caret.key} className="flex items-center gap-1.5">
+          <span className="size-1.5 rounded-full" style={{ backgroundColor: caret.color }} />
+          {caret.rank ? `${caret.rank} ${caret.name}` : caret.name}
+        </span>
+      ))}
+      <span>{carets.length === 1 ? "is" : "are"} also editing</span>
+    </div>
+  );
+}
@@ -1,6 +1,11 @@
 "use client";
 
-import { getActiveCyclePeriod, getCyclePeriodForYear } from "@/lib/constants";
+import {
+  getActiveCyclePeriod,
+  getCycleCloseoutTitle,
+  getCyclePeriodForYear,
+  type CyclePeriodOverride,
+} from "@/lib/constants";
 import type { Rank } from "@/types/database";
 import { cn } from "@/lib/utils";
 
@@ -8,6 +13,8 @@ interface CyclePeriodLabelProps {
   rank: Rank | null | undefined;
   /** When set, shows the period for this SCOD year (e.g. open EPB shell) instead of today's active cycle. */
   cycleYear?: number;
+  /** Member's custom evaluation period (ANG/AFR cycle, CRO); replaces the SCOD period it covers. */
+  override?: CyclePeriodOverride | null;
   className?: string;
   fallback?: string;
 }
@@ -15,13 +22,14 @@ interface CyclePeriodLabelProps {
 export function CyclePeriodLabel({
   rank,
   cycleYear,
+  override,
   className,
   fallback = "—",
 }: CyclePeriodLabelProps) {
   const period =
     cycleYear !== undefined
-      ? getCyclePeriodForYear(rank ?? null, cycleYear)
-      : getActiveCyclePeriod(rank ?? null);
+      ? getCyclePeriodForYear(rank ?? null, cycleYear, override)
+      : getActiveCyclePeriod(rank ?? null, override);
 
   if (!period) {
     return <span className={className}>{fallback}</span>;
@@ -30,7 +38,7 @@ export function CyclePeriodLabel({
   return (
     <span
       className={cn("tabular-nums", className)}
-      title={`SCOD: ${period.closeoutLabel}`}
+      title={getCycleCloseoutTitle(period)}
     >
       {period.rangeLabel}
     </span>
@@ -0,0 +1,97 @@
+"use client";
+
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { EVALUATION_PERIOD_REASONS } from "@/lib/constants";
+import type { EvaluationPeriodFields, EvaluationPeriodReason } from "@/types/database";
+
+const SCOD_VALUE = "scod";
+
+interface EvaluationPeriodOverrideFieldsProps {
+  value: EvaluationPeriodFields;
+  onChange: (value: EvaluationPeriodFields) => void;
+  /** Prefix for input ids when more than one form is on the page */
+  idPrefix?: string;
+  disabled?: boolean;
+}
+
+/**
+ * Period type select plus start/close-out dates. "Static close-out date"
+ * clears the override; any other type shows the date inputs.
+ */
+export function EvaluationPeriodOverrideFields({
+  value,
+  onChange,
+  idPrefix = "eval-period",
+  disabled = false,
+}: EvaluationPeriodOverrideFieldsProps) {
+  const reason = value.eval_period_reason;
+  const selected = EVALUATION_PERIOD_REASONS.find((r) => r.value === reason);
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}-reason`}>Evaluation period</Label>
+        <Select
+          value={reason ?? SCOD_VALUE}
+          onValueChange={(next) =>
+            onChange(
+              next === SCOD_VALUE
+                ? { eval_period_start: null, eval_period_end: null, eval_period_reason: null }
+                : { ...value, eval_period_reason: next as EvaluationPeriodReason }
+            )
+          }
+          disabled={disabled}
+        >
+          <SelectTrigger id={`${idPrefix}-reason`} aria-label="Evaluation period type">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={SCOD_VALUE}>Static close-out date (RegAF SCOD)</SelectItem>
+            {EVALUATION_PERIOD_REASONS.map((r) => (
+              <SelectItem key={r.value} value={r.value}>
+                {r.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          {selected?.description ?? "Cycle dates follow the rank's static close-out date."}
+        </p>
+      </div>
+
+      {reason && (
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-2">
+            <Label htmlFor={`${idPrefix}-start`}>Period start</Label>
+            <Input
+              id={`${idPrefix}-start`}
+              type="date"
+              value={value.eval_period_start ?? ""}
+              onChange={(e) => onChange({ ...value, eval_period_start: e.target.value || null })}
+              disabled={disabled}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor={`${idPrefix}-end`}>Close-out</Label>
+            <Input
+              id={`${idPrefix}-end`}
+              type="date"
+              value={value.eval_period_end ?? ""}
+              min={value.eval_period_start ?? undefined}
+              onChange={(e) => onChange({ ...value, eval_period_end: e.target.value || null })}
+              disabled={disabled}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
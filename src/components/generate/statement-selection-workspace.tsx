@@ -26,6 +26,8 @@ import { toast } from "sonner";
 import { STANDARD_MGAS } from "@/lib/constants";
 import { createClient } from "@/lib/supabase/client";
 import { handleUsageLimitResponse } from "@/stores/usage-limit-store";
+import { useEPBShellStore } from "@/stores/epb-shell-store";
+import { buildImpactBoosterContext } from "@/lib/impact-booster";
 
 interface Accomplishment {
   id: string;
@@ -231,6 +233,12 @@ export function StatementSelectionWorkspace({
       
       let generated1 = "";
       let generated2 = "";
+
+      // Saved Impact Booster details for this MPA ride along with both slots
+      const selectedMPA = workspaceState?.selectedMPA || "executing_mission";
+      const clarifyingContext =
+        buildImpactBoosterContext(useEPBShellStore.getState().sections[selectedMPA]?.impact_booster) ||
+        undefined;
       
       if (hasSlot1) {
         const response = await billableFetch("/api/generate-slot-statement", {
@@ -250,6 +258,7 @@ export function StatementSelectionWorkspace({
             rateeAfsc: rateeInfo?.afsc || "UNKNOWN",
             rateeId: rateeInfo?.id,
             cycleYear,
+            clarifyingContext,
           }),
         });
         
@@ -280,6 +289,7 @@ export function StatementSelectionWorkspace({
             rateeAfsc: rateeInfo?.afsc || "UNKNOWN",
             rateeId: rateeInfo?.id,
             cycleYear,
+            clarifyingContext,
           }),
         });
         
@@ -19,6 +19,9 @@ import { Sun, Moon, LogOut, User, Settings } from "lucide-react";
 import type { Profile } from "@/types/database";
 import { clearAllTermsSessionFlags } from "@/lib/terms-session";
 import { useCreditsStore } from "@/stores/credits-store";
+import { useNotificationsStore } from "@/stores/notifications-store";
+import { WorkspaceSearch } from "@/components/layout/workspace-search";
+import { NotificationBell } from "@/components/layout/notification-bell";
 
 interface AppHeaderProps {
   profile: Profile | null;
@@ -45,6 +48,7 @@ export function AppHeader({ profile: initialProfile }: AppHeaderProps) {
     clearAllTermsSessionFlags();
     useUserStore.getState().reset();
     useCreditsStore.getState().reset();
+    useNotificationsStore.getState().reset();
 
     router.push("/login");
     router.refresh();
@@ -63,6 +67,8 @@ export function AppHeader({ profile: initialProfile }: AppHeaderProps) {
         </div>
 
         <div className="flex items-center gap-2 flex-shrink-0">
+          <WorkspaceSearch />
+          <NotificationBell />
           <Button
             variant="ghost"
             size="icon"
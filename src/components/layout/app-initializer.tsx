@@ -3,6 +3,7 @@
 import { useEffect, useRef, useState } from "react";
 import { useUserStore } from "@/stores/user-store";
 import { useCreditsStore } from "@/stores/credits-store";
+import { useNotificationsStore } from "@/stores/notifications-store";
 import { getGateProfile } from "@/lib/profile-gate";
 import { UpdatePrompt } from "@/components/layout/update-prompt";
 import { OnboardingFlowModal } from "@/components/modals/onboarding-flow-modal";
@@ -58,6 +59,9 @@ export function AppInitializer({
     trialCredits,
   } = useCreditsStore();
 
+  const fetchNotifications = useNotificationsStore((state) => state.fetchNotifications);
+  const initNotificationsRealtime = useNotificationsStore((state) => state.initRealtime);
+
   const hasHydrated = useRef(false);
   const creditsInitialized = useRef(false);
   const [coachingIntroSeenOptimistic, setCoachingIntroSeenOptimistic] =
@@ -104,6 +108,13 @@ export function AppInitializer({
     });
   }, [profile?.id, fetchCredits, initRealtime]);
 
+  useEffect(() => {
+    if (!profile?.id) return;
+    void fetchNotifications(profile.id).then(() => {
+      initNotificationsRealtime(profile.id);
+    });
+  }, [profile?.id, fetchNotifications, initNotificationsRealtime]);
+
   const clientReady = useClientReady();
   const gateProfile = getGateProfile(profile, storeProfile);
   const showOnboarding =
@@ -0,0 +1,132 @@
+"use client";
+
+import { useRouter } from "next/navigation";
+import { useNotificationsStore } from "@/stores/notifications-store";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { countUnread, formatNotificationAge } from "@/lib/notifications";
+import { cn } from "@/lib/utils";
+import {
+  Award,
+  Bell,
+  ClipboardCheck,
+  History,
+  Link2,
+  MessageSquare,
+  Settings,
+  Share2,
+  UserPlus,
+  type LucideIcon,
+} from "lucide-react";
+import type { AppNotification, NotificationType } from "@/types/database";
+
+const TYPE_ICONS: Record<NotificationType, LucideIcon> = {
+  team_request: UserPlus,
+  managed_link: Link2,
+  prior_data_review: History,
+  award_request: Award,
+  shell_share: Share2,
+  review_feedback: MessageSquare,
+  supervisor_feedback: ClipboardCheck,
+};
+
+export function NotificationBell() {
+  const router = useRouter();
+  const { notifications, isLoading, markRead, markAllRead } = useNotificationsStore();
+  const unread = countUnread(notifications);
+
+  function handleOpen(notification: AppNotification) {
+    void markRead(notification.id);
+    if (notification.link) {
+      router.push(notification.link);
+    }
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className="relative flex-shrink-0"
+          aria-label={unread > 0 ? `Notifications (${unread} unread)` : "Notifications"}
+        >
+          <Bell className="size-4" />
+          {unread > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-semibold leading-none text-white">
+              {unread > 9 ? "9+" : unread}
+            </span>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-3 py-2">
+          <DropdownMenuLabel className="p-0">Notifications</DropdownMenuLabel>
+          {unread > 0 && (
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto p-0 text-xs"
+              onClick={() => void markAllRead()}
+            >
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator className="my-0" />
+        <div className="max-h-96 overflow-y-auto py-1">
+          {notifications.length === 0 ? (
+            <p className="px-3 py-6 text-center text-sm text-muted-foreground">
+              {isLoading ? "Loading…" : "You're all caught up."}
+            </p>
+          ) : (
+            notifications.map((notification) => {
+              const Icon = TYPE_ICONS[notification.type] ?? Bell;
+              const isUnread = !notification.read_at;
+              return (
+                <DropdownMenuItem
+                  key={notification.id}
+                  onClick={() => handleOpen(notification)}
+                  className="items-start gap-3 px-3 py-2"
+                >
+                  <Icon className="mt-0.5 size-4 shrink-0 text-muted-foreground" aria-hidden />
+                  <div className="min-w-0 flex-1 space-y-0.5">
+                    <p className={cn("text-sm leading-snug", isUnread && "font-medium")}>
+                      {notification.title}
+                    </p>
+                    {notification.body && (
+                      <p className="line-clamp-2 text-xs text-muted-foreground">
+                        {notification.body}
+                      </p>
+                    )}
+                    <p className="text-[11px] text-muted-foreground">
+                      {formatNotificationAge(notification.created_at)}
+                    </p>
+                  </div>
+                  {isUnread && (
+                    <span className="mt-1.5 size-2 shrink-0 rounded-full bg-primary" aria-label="Unread" />
+                  )}
+                </DropdownMenuItem>
+              );
+            })
+          )}
+        </div>
+        <DropdownMenuSeparator className="my-0" />
+        <DropdownMenuItem
+          onClick={() => router.push("/settings#notifications")}
+          className="px-3 py-2 text-xs text-muted-foreground"
+        >
+          <Settings className="mr-2 size-3.5" />
+          Notification settings
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
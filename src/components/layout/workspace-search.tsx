@@ -0,0 +1,193 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import {
+  SEARCH_SOURCE_LABELS,
+  normalizeSearchQuery,
+  splitSnippet,
+  type WorkspaceSearchResult,
+  type WorkspaceSearchSource,
+} from "@/lib/workspace-search";
+import { Award, BookOpen, FileArchive, ListTodo, Loader2, Medal, Search } from "lucide-react";
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+const SOURCE_ICONS: Record<WorkspaceSearchSource, typeof Search> = {
+  accomplishment: ListTodo,
+  statement: BookOpen,
+  epb_section: FileArchive,
+  award_section: Award,
+  decoration: Medal,
+};
+
+function Snippet({ text }: { text: string }) {
+  return (
+    <p className="text-xs text-muted-foreground line-clamp-2">
+      {splitSnippet(text).map((segment, i) =>
+        segment.match ? (
+          <mark key={i} className="bg-yellow-200/70 dark:bg-yellow-500/30 text-foreground rounded-sm px-0.5">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={i}>{segment.text}</span>
+        ),
+      )}
+    </p>
+  );
+}
+
+/**
+ * Command palette (⌘K / Ctrl+K) that searches entries, library statements,
+ * archived EPBs, awards and decorations, and opens the selected hit in its
+ * workspace.
+ */
+export function WorkspaceSearch() {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [input, setInput] = useState("");
+  const [results, setResults] = useState<WorkspaceSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setOpen((prev) => !prev);
+      }
+    };
+    document.addEventListener("keydown", onKeyDown);
+    return () => document.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  const query = normalizeSearchQuery(input);
+
+  useEffect(() => {
+    if (!query) {
+      setResults([]);
+      setIsSearching(false);
+      setFailed(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setIsSearching(true);
+    const timer = setTimeout(async () => {
+      try {
+        const res = await fetch(`/api/search?q=${encodeURIComponent(query)}`, {
+          signal: controller.signal,
+        });
+        if (!res.ok) throw new Error("Search failed");
+        const data = (await res.json()) as { results: WorkspaceSearchResult[] };
+        setResults(data.results ?? []);
+        setFailed(false);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.error("Search error:", error);
+        setResults([]);
+        setFailed(true);
+      } finally {
+        if (!controller.signal.aborted) setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query]);
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) setInput("");
+  };
+
+  const handleSelect = (result: WorkspaceSearchResult) => {
+    handleOpenChange(false);
+    router.push(result.href);
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        className="h-9 gap-2 text-muted-foreground px-2 sm:px-3"
+        onClick={() => setOpen(true)}
+        aria-label="Search your workspace"
+      >
+        <Search className="size-4" />
+        <span className="hidden md:inline">Search…</span>
+        <kbd className="hidden md:inline pointer-events-none rounded border bg-muted px-1.5 font-mono text-[10px]">
+          ⌘K
+        </kbd>
+      </Button>
+
+      <Dialog open={open} onOpenChange={handleOpenChange}>
+        <DialogContent className="overflow-hidden p-0 shadow-lg sm:max-w-2xl">
+          <DialogTitle className="sr-only">Search your workspace</DialogTitle>
+          <Command shouldFilter={false} className="[&_[cmdk-input-wrapper]_svg]:h-5 [&_[cmdk-input-wrapper]_svg]:w-5 [&_[cmdk-input]]:h-12">
+            <CommandInput
+              value={input}
+              onValueChange={setInput}
+              placeholder="Search entries, statements, EPBs, awards, decorations…"
+            />
+            <CommandList className="max-h-[420px]">
+              {!query ? (
+                <p className="py-6 text-center text-sm text-muted-foreground">
+                  Type at least two characters. Use quotes for exact phrases.
+                </p>
+              ) : isSearching && results.length === 0 ? (
+                <div className="flex justify-center py-6">
+                  <Loader2 className="size-4 animate-spin text-muted-foreground" />
+                </div>
+              ) : (
+                <CommandEmpty>
+                  {failed ? "Search failed. Please try again." : "No matches found."}
+                </CommandEmpty>
+              )}
+              {query && results.length > 0 && (
+                <CommandGroup heading={isSearching ? "Updating…" : `${results.length} results`}>
+                  {results.map((result) => {
+                    const Icon = SOURCE_ICONS[result.source];
+                    return (
+                      <CommandItem
+                        key={`${result.source}:${result.id}`}
+                        value={`${result.source}:${result.id}`}
+                        onSelect={() => handleSelect(result)}
+                        className="items-start py-2"
+                      >
+                        <Icon className="mt-0.5 text-muted-foreground" />
+                        <div className="min-w-0 flex-1 space-y-0.5">
+                          <div className="flex items-center justify-between gap-2">
+                            <p className="text-sm font-medium truncate">{result.title}</p>
+                            <span className="shrink-0 text-[10px] uppercase tracking-wide text-muted-foreground">
+                              {result.semantic_only && "Related · "}
+                              {SEARCH_SOURCE_LABELS[result.source]}
+                            </span>
+                          </div>
+                          <Snippet text={result.snippet} />
+                        </div>
+                      </CommandItem>
+                    );
+                  })}
+                </CommandGroup>
+              )}
+            </CommandList>
+          </Command>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
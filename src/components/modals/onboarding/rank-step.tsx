@@ -22,12 +22,21 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { toast } from "@/components/ui/sonner";
 import { CheckCircle2, Loader2 } from "lucide-react";
-import { ENLISTED_RANKS, OFFICER_RANKS, CIVILIAN_RANK, isCivilian } from "@/lib/constants";
-import type { Rank, Profile } from "@/types/database";
+import { CIVILIAN_RANK, isCivilian } from "@/lib/constants";
+import {
+  SERVICE_OPTIONS,
+  getServiceProfile,
+  isRankInService,
+} from "@/lib/service-profiles";
+import type { Rank, Profile, ServiceBranch } from "@/types/database";
 
 export function RankStep() {
   const { profile, setProfile } = useUserStore();
+  const [selectedService, setSelectedService] = useState<ServiceBranch>(
+    getServiceProfile(profile?.service).key
+  );
   const [selectedRank, setSelectedRank] = useState<Rank | "">("");
+  const serviceProfile = getServiceProfile(selectedService);
   const [afsc, setAfsc] = useState("");
   const [unit, setUnit] = useState("");
   const [isLoading, setIsLoading] = useState(false);
@@ -45,8 +54,14 @@ export function RankStep() {
     setIsLoading(true);
 
     try {
-      const updateData: { rank: Rank; afsc?: string; unit?: string } = {
+      const updateData: {
+        rank: Rank;
+        service: ServiceBranch;
+        afsc?: string;
+        unit?: string;
+      } = {
         rank: selectedRank,
+        service: selectedService,
       };
 
       if (afsc.trim()) {
@@ -96,6 +111,33 @@ export function RankStep() {
       </AlertDialogHeader>
 
       <div className="space-y-4 py-4 md:py-5">
+        <div className="space-y-2">
+          <Label htmlFor="onboarding-service">Service</Label>
+          <Select
+            value={selectedService}
+            onValueChange={(value) => {
+              const service = value as ServiceBranch;
+              setSelectedService(service);
+              if (!isRankInService(selectedRank, service)) setSelectedRank("");
+            }}
+          >
+            <SelectTrigger
+              id="onboarding-service"
+              aria-label="Select your service"
+              className="w-full md:max-w-sm"
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent elevated>
+              {SERVICE_OPTIONS.map((s) => (
+                <SelectItem key={s.value} value={s.value}>
+                  {s.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
         <div className="space-y-2">
           <Label htmlFor="onboarding-rank">
             Rank <span className="text-destructive">*</span>
@@ -115,7 +157,7 @@ export function RankStep() {
               <div className="px-2 py-1.5 text-xs font-semibold text-muted-foreground">
                 Enlisted
               </div>
-              {ENLISTED_RANKS.map((r) => (
+              {serviceProfile.enlistedRanks.map((r) => (
                 <SelectItem key={r.value} value={r.value}>
                   {r.value}
                 </SelectItem>
@@ -123,7 +165,7 @@ export function RankStep() {
               <div className="px-2 py-1.5 text-xs font-semibold text-muted-foreground border-t mt-1 pt-1">
                 Officer
               </div>
-              {OFFICER_RANKS.map((r) => (
+              {serviceProfile.officerRanks.map((r) => (
                 <SelectItem key={r.value} value={r.value}>
                   {r.value}
                 </SelectItem>
@@ -142,17 +184,19 @@ export function RankStep() {
 
         <div className="grid gap-4 md:grid-cols-2">
           <div className="space-y-2">
-            <Label htmlFor="onboarding-afsc">AFSC (optional)</Label>
+            <Label htmlFor="onboarding-afsc">
+              {serviceProfile.specialtyCodeLabel} (optional)
+            </Label>
             <Input
               id="onboarding-afsc"
               placeholder="e.g., 3D0X2"
               value={afsc}
               onChange={(e) => setAfsc(e.target.value)}
               maxLength={10}
-              aria-label="Enter your AFSC"
+              aria-label={`Enter your ${serviceProfile.specialtyCodeLabel}`}
             />
             <p className="text-xs text-muted-foreground">
-              Your Air Force Specialty Code
+              Your {serviceProfile.name} Specialty Code
             </p>
           </div>
 
@@ -33,6 +33,7 @@ const PROVIDER_LABELS: Record<string, string> = {
   anthropic: "Anthropic",
   google: "Google",
   xai: "xAI",
+  local: "Local",
 };
 
 const QUALITY_CONFIG: Record<
@@ -31,9 +31,20 @@ import {
   Save,
   Edit2,
   Eye,
+  Lock,
 } from "lucide-react";
 import { useOPBShellStore, type OPBWorkspaceMode } from "@/stores/opb-shell-store";
-import type { OPBShellSection, OPBShellSnapshot, Accomplishment } from "@/types/database";
+import { ImpactBoosterPanel } from "@/components/epb/impact-booster-panel";
+import {
+  DEFAULT_IMPACT_BOOSTER_PROMPTS,
+  buildImpactBoosterContext,
+  buildImpactBoosterFromDrafts,
+  hasImpactBoosterContent,
+  normalizeImpactBooster,
+  seedImpactBoosterDraftFields,
+  type ImpactBoosterDraftFields,
+} from "@/lib/impact-booster";
+import type { OPBShellSection, OPBShellSnapshot, Accomplishment, ImpactBoosterState } from "@/types/database";
 import { formatDateTime } from "@/lib/format";
 
 interface OPBSectionCardProps {
@@ -45,12 +56,19 @@ interface OPBSectionCardProps {
   onToggleCollapse: () => void;
   onSave: (text: string) => Promise<void>;
   onCreateSnapshot: (text: string) => Promise<void>;
-  onGenerate: (customContext: string) => Promise<string[]>;
+  onGenerate: (customContext: string, clarifyingContext?: string) => Promise<string[]>;
+  onSaveImpactBooster: (booster: ImpactBoosterState) => Promise<void>;
+  onClearImpactBooster: () => Promise<void>;
   isGenerating: boolean;
   snapshots: OPBShellSnapshot[];
   onLoadSnapshots: () => void;
   maxCharacters: number;
   accomplishments?: Accomplishment[];
+  // Section locking (another editor holds this MPA)
+  isLockedByOther?: boolean;
+  lockedByInfo?: { name: string; rank: string | null } | null;
+  onAcquireLock?: () => Promise<{ success: boolean; lockedBy?: string }>;
+  onReleaseLock?: () => Promise<void>;
 }
 
 export function OPBSectionCard({
@@ -63,11 +81,17 @@ export function OPBSectionCard({
   onSave,
   onCreateSnapshot,
   onGenerate,
+  onSaveImpactBooster,
+  onClearImpactBooster,
   isGenerating,
   snapshots,
   onLoadSnapshots,
   maxCharacters,
   accomplishments,
+  isLockedByOther = false,
+  lockedByInfo,
+  onAcquireLock,
+  onReleaseLock,
 }: OPBSectionCardProps) {
   const { getSectionState, updateSectionState, initializeSectionState } =
     useOPBShellStore();
@@ -80,6 +104,15 @@ export function OPBSectionCard({
   const [showAccomplishments, setShowAccomplishments] = useState(false);
   const [selectedAccomplishmentIds, setSelectedAccomplishmentIds] = useState<string[]>([]);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  // Impact Booster — answers persist on the section; prompts come from the last generate
+  const [includeImpactBooster, setIncludeImpactBooster] = useState(true);
+  const [impactBoosterDraftFields, setImpactBoosterDraftFields] = useState<ImpactBoosterDraftFields>(
+    () => seedImpactBoosterDraftFields(section?.impact_booster)
+  );
+  const impactBoosterPrompts = state.impactBoosterPrompts?.length
+    ? state.impactBoosterPrompts
+    : DEFAULT_IMPACT_BOOSTER_PROMPTS;
   
   // Filter and sort accomplishments for this MPA (or "miscellaneous" for any)
   // Officers don't have assessment scores, so sort by date (newest first)
@@ -151,6 +184,23 @@ export function OPBSectionCard({
       .join("\n\n");
   }, [selectedAccomplishmentIds, relevantAccomplishments]);
 
+  // Save unsaved booster drafts and return the context to inject, if included
+  const prepareImpactBoosterForRun = useCallback(async (): Promise<string | undefined> => {
+    if (!includeImpactBooster) return undefined;
+    const mergedDraft = buildImpactBoosterFromDrafts(
+      section?.impact_booster,
+      impactBoosterPrompts,
+      impactBoosterDraftFields,
+      false
+    );
+    if (hasImpactBoosterContent(mergedDraft)) {
+      await onSaveImpactBooster(mergedDraft);
+      setImpactBoosterDraftFields(seedImpactBoosterDraftFields(mergedDraft));
+      return buildImpactBoosterContext(mergedDraft) || undefined;
+    }
+    return buildImpactBoosterContext(normalizeImpactBooster(section?.impact_booster)) || undefined;
+  }, [includeImpactBooster, section?.impact_booster, impactBoosterPrompts, impactBoosterDraftFields, onSaveImpactBooster]);
+
   // Generate statement
   const handleGenerate = useCallback(async () => {
     // Combine custom context with selected accomplishments
@@ -159,13 +209,14 @@ export function OPBSectionCard({
       .filter((c) => c.trim())
       .join("\n\n---\n\n");
     
-    const statements = await onGenerate(fullContext);
+    const boosterContext = await prepareImpactBoosterForRun();
+    const statements = await onGenerate(fullContext, boosterContext);
     if (statements.length > 0) {
       const newText = statements.join("\n\n");
       handleTextChange(newText);
       updateSectionState(mpaKey, { mode: "edit" });
     }
-  }, [customContext, onGenerate, handleTextChange, mpaKey, updateSectionState, buildContextFromAccomplishments]);
+  }, [customContext, onGenerate, handleTextChange, mpaKey, updateSectionState, buildContextFromAccomplishments, prepareImpactBoosterForRun]);
 
   // Toggle accomplishment selection
   const toggleAccomplishment = useCallback((id: string) => {
@@ -183,10 +234,14 @@ export function OPBSectionCard({
   // Restore snapshot
   const restoreSnapshot = useCallback(
     (snapshot: OPBShellSnapshot) => {
+      if (isLockedByOther) {
+        toast.error("This section is locked by another editor");
+        return;
+      }
       handleTextChange(snapshot.statement_text);
       updateSectionState(mpaKey, { mode: "edit", showHistory: false });
     },
-    [handleTextChange, mpaKey, updateSectionState]
+    [isLockedByOther, handleTextChange, mpaKey, updateSectionState]
   );
 
   // Toggle history
@@ -198,12 +253,28 @@ export function OPBSectionCard({
     updateSectionState(mpaKey, { showHistory: newShow });
   }, [showHistory, onLoadSnapshots, mpaKey, updateSectionState]);
 
-  // Set mode
+  // Set mode - editing modes take the section lock, returning to view releases it
   const setMode = useCallback(
-    (newMode: OPBWorkspaceMode) => {
+    async (newMode: OPBWorkspaceMode) => {
+      const isEditing = (m: OPBWorkspaceMode) => m === "edit" || m === "ai-assist";
+
+      if (isEditing(newMode) && !isEditing(mode) && onAcquireLock) {
+        const result = await onAcquireLock();
+        if (!result.success) {
+          toast.error("This section is locked", {
+            description: `${result.lockedBy || "Another user"} is currently editing`,
+          });
+          return;
+        }
+      }
+
+      if (isEditing(mode) && newMode === "view" && onReleaseLock) {
+        await onReleaseLock();
+      }
+
       updateSectionState(mpaKey, { mode: newMode });
     },
-    [mpaKey, updateSectionState]
+    [mode, mpaKey, onAcquireLock, onReleaseLock, updateSectionState]
   );
 
   return (
@@ -234,6 +305,12 @@ export function OPBSectionCard({
             >
               {charCount}/{maxCharacters}
             </Badge>
+            {isLockedByOther && lockedByInfo && (
+              <Badge variant="outline" className="text-xs gap-1 text-muted-foreground">
+                <Lock className="size-3" />
+                {lockedByInfo.rank ? `${lockedByInfo.rank} ${lockedByInfo.name}` : lockedByInfo.name} editing
+              </Badge>
+            )}
             {isDirty && (
               <Badge variant="outline" className="text-xs text-amber-600">
                 Unsaved
@@ -255,9 +332,9 @@ export function OPBSectionCard({
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-1 p-1 bg-muted rounded-lg">
               <button type="button"
-                onClick={() => setMode("view")}
+                onClick={() => void setMode("view")}
                 className={cn(
-                  "px-3 py-1.5 text-xs font-medium rounded-md transition-colors",
+                  "px-3 py-1.5 text-xs font-medium rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed",
                   mode === "view"
                     ? "bg-background text-foreground shadow-sm"
                     : "text-muted-foreground hover:text-foreground"
@@ -267,9 +344,10 @@ export function OPBSectionCard({
                 View
               </button>
               <button type="button"
-                onClick={() => setMode("edit")}
+                onClick={() => void setMode("edit")}
+                disabled={isLockedByOther && mode === "view"}
                 className={cn(
-                  "px-3 py-1.5 text-xs font-medium rounded-md transition-colors",
+                  "px-3 py-1.5 text-xs font-medium rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed",
                   mode === "edit"
                     ? "bg-background text-foreground shadow-sm"
                     : "text-muted-foreground hover:text-foreground"
@@ -279,9 +357,10 @@ export function OPBSectionCard({
                 Edit
               </button>
               <button type="button"
-                onClick={() => setMode("ai-assist")}
+                onClick={() => void setMode("ai-assist")}
+                disabled={isLockedByOther && mode === "view"}
                 className={cn(
-                  "px-3 py-1.5 text-xs font-medium rounded-md transition-colors",
+                  "px-3 py-1.5 text-xs font-medium rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed",
                   mode === "ai-assist"
                     ? "bg-background text-foreground shadow-sm"
                     : "text-muted-foreground hover:text-foreground"
@@ -425,6 +504,23 @@ export function OPBSectionCard({
                 />
               </div>
               
+              <ImpactBoosterPanel
+                key={`impact-booster-${section?.id}-${section?.impact_booster?.answers?.length ?? 0}-${section?.impact_booster?.freeform?.length ?? 0}`}
+                booster={section?.impact_booster}
+                prompts={impactBoosterPrompts}
+                isGenerating={isGenerating}
+                disabled={!section}
+                includeInRun={includeImpactBooster}
+                onIncludeInRunChange={setIncludeImpactBooster}
+                draftFields={impactBoosterDraftFields}
+                onDraftFieldsChange={setImpactBoosterDraftFields}
+                onSave={onSaveImpactBooster}
+                onClearAll={async () => {
+                  await onClearImpactBooster();
+                  setImpactBoosterDraftFields(seedImpactBoosterDraftFields(null));
+                }}
+              />
+
               <Button
                 onClick={handleGenerate}
                 disabled={isGenerating || (selectedAccomplishmentIds.length === 0 && !customContext.trim())}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useEffect, useCallback } from "react";
+import { useState, useEffect, useCallback, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import {
@@ -13,7 +13,14 @@ import {
 import { Separator } from "@/components/ui/separator";
 import { isAbortError } from "@/lib/supabase/abort";
 import { toast } from "@/components/ui/sonner";
-import { scanStatementText, getScanSummary } from "@/lib/sensitive-data-scanner";
+import { scanStatementText, scanTextForLLM, getScanSummary } from "@/lib/sensitive-data-scanner";
+import {
+  buildImpactBoosterContext,
+  clearedImpactBooster,
+  mergeImpactAssessment,
+  normalizeImpactBooster,
+  parseImpactBoosterPrompts,
+} from "@/lib/impact-booster";
 
 
 import {
@@ -37,19 +44,37 @@ import {
 import { createClient } from "@/lib/supabase/client";
 import { useUserStore } from "@/stores/user-store";
 import { handleUsageLimitResponse } from "@/stores/usage-limit-store";
-import { useOPBShellStore } from "@/stores/opb-shell-store";
+import { useOPBShellStore, type OfficerInfo } from "@/stores/opb-shell-store";
+import { useSectionLocks } from "@/hooks/use-section-locks";
+import { createOpbShell, fetchActiveOpbShell } from "@/lib/opb-shell-create";
 import { OPBSectionCard } from "./opb-section-card";
-import type { OPBShell, OPBShellSnapshot, Rank, Accomplishment } from "@/types/database";
+import type { OPBShellSection, OPBShellSnapshot, Rank, Accomplishment, ImpactBoosterState } from "@/types/database";
 
 interface OPBShellFormProps {
   cycleYear: number;
   model: string;
+  /** Officer the OPB is for; defaults to the signed-in user. */
+  ratee?: OfficerInfo | null;
 }
 
-export function OPBShellForm({ cycleYear, model }: OPBShellFormProps) {
+export function OPBShellForm({ cycleYear, model, ratee }: OPBShellFormProps) {
   const supabase = createClient();
   const { profile } = useUserStore();
 
+  const officer = useMemo<OfficerInfo | null>(() => {
+    if (ratee) return ratee;
+    if (!profile) return null;
+    return {
+      id: profile.id,
+      fullName: profile.full_name,
+      rank: profile.rank,
+      afsc: profile.afsc,
+      isManagedMember: false,
+    };
+  }, [ratee, profile]);
+  const isOwnOpb = !!profile && officer?.id === profile.id && !officer.isManagedMember;
+  const officerName = `${officer?.rank ?? ""} ${officer?.fullName ?? ""}`.trim();
+
   const {
     setOfficerInfo,
     currentShell,
@@ -78,109 +103,128 @@ export function OPBShellForm({ cycleYear, model }: OPBShellFormProps) {
   const [isGenerating, setIsGenerating] = useState<string | null>(null);
   const [accomplishments, setAccomplishments] = useState<Accomplishment[]>([]);
   useEffect(() => {
-    if (!profile) return;
+    if (!officer) return;
 
     const controller = new AbortController();
     void (async () => {
-      const { data, error } = await supabase
+      let query = supabase
         .from("accomplishments")
         .select("*")
-        .eq("user_id", profile.id)
         .order("created_at", { ascending: false })
         .abortSignal(controller.signal);
 
+      if (officer.isManagedMember) {
+        query = query.eq("team_member_id", officer.id);
+      } else {
+        query = query.eq("user_id", officer.id).is("team_member_id", null);
+      }
+
+      const { data, error } = await query;
       if (!error && data) {
         setAccomplishments(data as Accomplishment[]);
       }
     })();
     return () => controller.abort();
-  }, [profile, supabase]);
+  }, [officer, supabase]);
 
-  // Initialize officer info from profile
   useEffect(() => {
-    if (profile) {
-      setOfficerInfo({
-        id: profile.id,
-        fullName: profile.full_name,
-        rank: profile.rank,
-        afsc: profile.afsc,
-      });
-    }
-  }, [profile, setOfficerInfo]);
+    setOfficerInfo(officer);
+  }, [officer, setOfficerInfo]);
 
-  // Load or create OPB shell for current cycle
+  // Load the officer's active OPB shell for the current cycle
   useEffect(() => {
-    if (!profile) return;
+    if (!officer) return;
 
     const controller = new AbortController();
     void (async () => {
       setIsLoadingShell(true);
       try {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        const { data: existing, error } = await (supabase as any)
-          .from("opb_shells")
-          .select(`
-            *,
-            sections:opb_shell_sections(*)
-          `)
-          .eq("user_id", profile.id)
-          .eq("cycle_year", cycleYear)
-          .eq("status", "active")
-          .abortSignal(controller.signal)
-          .single();
-
+        const existing = await fetchActiveOpbShell(supabase, officer, cycleYear, controller.signal);
+        if (controller.signal.aborted) return;
+        setCurrentShell(existing);
+      } catch (error) {
         if (controller.signal.aborted || isAbortError(error)) return;
-
-        if (error && error.code !== "PGRST116") {
-          console.error("Error loading OPB shell:", error);
-          toast.error("Failed to load OPB shell");
-          return;
-        }
-
-        if (existing) {
-          setCurrentShell(existing as OPBShell);
-        } else {
-          setCurrentShell(null);
-        }
+        console.error("Error loading OPB shell:", error);
+        toast.error("Failed to load OPB shell");
       } finally {
         setIsLoadingShell(false);
       }
     })();
     return () => controller.abort();
-  }, [profile, cycleYear, supabase, setCurrentShell, setIsLoadingShell]);
+  }, [officer, cycleYear, supabase, setCurrentShell, setIsLoadingShell]);
 
   // Create new OPB shell
   const createShell = useCallback(async () => {
-    if (!profile) return;
+    if (!profile || !officer) return;
 
     setIsCreatingShell(true);
     try {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const { data, error } = await (supabase as any)
-        .from("opb_shells")
-        .insert({
-          user_id: profile.id,
-          created_by: profile.id,
-          cycle_year: cycleYear,
-        })
-        .select(`
-          *,
-          sections:opb_shell_sections(*)
-        `)
-        .single();
+      const result = await createOpbShell(supabase, {
+        ratee: officer,
+        profileId: profile.id,
+        cycleYear,
+      });
 
-      if (error) {
-        console.error("Error creating OPB shell:", error);
-        toast.error("Failed to create OPB shell");
-        return;
+      setCurrentShell(result.shell);
+      if (result.status === "created") {
+        toast.success("OPB workspace created!");
       }
-
-      setCurrentShell(data as OPBShell);
-      toast.success("OPB workspace created!");
+    } catch (error) {
+      console.error("Error creating OPB shell:", error);
+      toast.error("Failed to create OPB shell");
     } finally {
       setIsCreatingShell(false);
     }
-  }, [profile, cycleYear, supabase, setCurrentShell, setIsCreatingShell]);
+  }, [profile, officer, cycleYear, supabase, setCurrentShell, setIsCreatingShell]);
+
+  // Per-MPA locks so a supervisor and the officer (or a shared editor) don't overwrite each other
+  const sectionLocks = useSectionLocks({
+    shellId: currentShell?.id ?? null,
+    enabled: !!currentShell,
+    shellType: "opb",
+  });
+
+  // Live-sync statements saved by other editors
+  useEffect(() => {
+    if (!currentShell?.id || !profile) return;
+
+    const channel = supabase
+      .channel(`opb-section-updates:${currentShell.id}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "UPDATE",
+          schema: "public",
+          table: "opb_shell_sections",
+          filter: `shell_id=eq.${currentShell.id}`,
+        },
+        (payload) => {
+          const updatedSection = payload.new as OPBShellSection;
+          if (updatedSection.last_edited_by === profile.id) return;
+
+          updateSection(updatedSection.mpa, {
+            statement_text: updatedSection.statement_text,
+            is_complete: updatedSection.is_complete,
+            impact_booster: normalizeImpactBooster(updatedSection.impact_booster),
+            last_edited_by: updatedSection.last_edited_by,
+            updated_at: updatedSection.updated_at,
+          });
+
+          // Don't clobber a draft the user is in the middle of
+          const sectionState = useOPBShellStore.getState().sectionStates[updatedSection.mpa];
+          if (!sectionState?.isDirty) {
+            useOPBShellStore.getState().updateSectionState(updatedSection.mpa, {
+              draftText: updatedSection.statement_text,
+            });
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [currentShell?.id, profile, supabase, updateSection]);
 
   // Save section text
   const saveSection = useCallback(
@@ -262,11 +306,56 @@ export function OPBShellForm({ cycleYear, model }: OPBShellFormProps) {
     [supabase, setSnapshots]
   );
 
+  // Save a section's Impact Booster answers (persist per MPA, fed into generation)
+  const saveImpactBooster = useCallback(
+    async (mpa: string, booster: ImpactBoosterState) => {
+      const section = sections[mpa];
+      if (!section || !profile) return;
+
+      const normalized = normalizeImpactBooster(booster);
+      const contextForScan = buildImpactBoosterContext(normalized);
+      if (contextForScan) {
+        const scan = scanTextForLLM(contextForScan);
+        if (scan.blocked) {
+          toast.error(getScanSummary(scan.matches), { duration: 10000 });
+          return;
+        }
+      }
+
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const { error } = await (supabase as any)
+        .from("opb_shell_sections")
+        .update({
+          impact_booster: normalized,
+          last_edited_by: profile.id,
+        })
+        .eq("id", section.id);
+
+      if (error) {
+        console.error("Error saving Impact Booster:", error);
+        toast.error("Failed to save Impact Booster");
+        return;
+      }
+
+      updateSection(mpa, { impact_booster: normalized, last_edited_by: profile.id });
+    },
+    [sections, supabase, profile, updateSection]
+  );
+
+  const clearImpactBooster = useCallback(
+    async (mpa: string) => {
+      await saveImpactBooster(mpa, clearedImpactBooster());
+      useOPBShellStore.getState().updateSectionState(mpa, { impactBoosterPrompts: [] });
+      toast.success("Impact Booster cleared for this MPA");
+    },
+    [saveImpactBooster]
+  );
+
   // Generate OPB statement using the generate API with customContext mode
   const generateStatement = useCallback(
-    async (mpa: string, customContext: string): Promise<string[]> => {
-      if (!profile?.rank || !profile?.id) {
-        toast.error("Profile information required to generate statements");
+    async (mpa: string, customContext: string, clarifyingContext?: string): Promise<string[]> => {
+      if (!officer?.rank || !officer?.id) {
+        toast.error("Officer rank is required to generate statements");
         return [];
       }
 
@@ -288,8 +377,8 @@ export function OPBShellForm({ cycleYear, model }: OPBShellFormProps) {
         
         // Add OPB-specific framing to the context
         const opbContext = `[OPB GENERATION - OFFICER PERFORMANCE BRIEF]
-Officer Rank: ${profile.rank}
-AFSC: ${profile.afsc || "N/A"}
+Officer Rank: ${officer.rank}
+AFSC: ${officer.afsc || "N/A"}
 ${dutyDescriptionDraft ? `Duty Description: ${dutyDescriptionDraft}` : ""}
 
 MPA: ${OPB_MPA_DESCRIPTIONS[mpa]?.title || mpa}
@@ -309,9 +398,10 @@ ${contextForGeneration}`;
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
-            rateeId: profile.id,
-            rateeRank: profile.rank,
-            rateeAfsc: profile.afsc || "UNKNOWN",
+            rateeId: officer.id,
+            isManagedMember: officer.isManagedMember,
+            rateeRank: officer.rank,
+            rateeAfsc: officer.afsc || "UNKNOWN",
             cycleYear: currentShell?.cycle_year || new Date().getFullYear(),
             model,
             writingStyle: "personal",
@@ -322,6 +412,8 @@ ${contextForGeneration}`;
             selectedMPAs: [mpa],
             statementType: "opb",
             dutyDescription: dutyDescriptionDraft || undefined,
+            clarifyingContext: clarifyingContext || undefined,
+            requestClarifyingQuestions: !clarifyingContext,
           }),
         });
 
@@ -333,6 +425,17 @@ ${contextForGeneration}`;
         }
 
         const data = await response.json();
+        const mpaResult = data.statements?.[0];
+
+        if (mpaResult?.impactAssessment) {
+          const merged = mergeImpactAssessment(sections[mpa]?.impact_booster, mpaResult.impactAssessment);
+          void saveImpactBooster(mpa, merged);
+        }
+
+        const boosterPrompts = parseImpactBoosterPrompts(mpaResult?.clarifyingQuestions);
+        if (boosterPrompts.length > 0 || !clarifyingContext) {
+          useOPBShellStore.getState().updateSectionState(mpa, { impactBoosterPrompts: boosterPrompts });
+        }
         
         // Extract statements from the API response
         const statements: string[] = [];
@@ -353,7 +456,7 @@ ${contextForGeneration}`;
         setIsGenerating(null);
       }
     },
-    [profile, sections, model, dutyDescriptionDraft, currentShell]
+    [officer, sections, model, dutyDescriptionDraft, currentShell, saveImpactBooster]
   );
 
   // Save duty description
@@ -373,11 +476,17 @@ ${contextForGeneration}`;
         return;
       }
 
+      // Keep the loaded shell current so review-link snapshots see the saved text
+      setCurrentShell({
+        ...currentShell,
+        duty_description: dutyDescriptionDraft,
+        sections: Object.values(sections),
+      });
       toast.success("Duty description saved");
     } finally {
       setIsSavingDutyDescription(false);
     }
-  }, [currentShell, dutyDescriptionDraft, supabase, setIsSavingDutyDescription]);
+  }, [currentShell, dutyDescriptionDraft, sections, supabase, setCurrentShell, setIsSavingDutyDescription]);
 
   // Calculate completion progress
   const completedSections = Object.values(sections).filter(
@@ -403,28 +512,29 @@ ${contextForGeneration}`;
             <FileText className="size-8 text-blue-600 dark:text-blue-400" />
           </div>
           <div className="flex items-center justify-center gap-2">
-            <CardTitle>Start Your {cycleYear} OPB</CardTitle>
+            <CardTitle>
+              {isOwnOpb ? `Start Your ${cycleYear} OPB` : `Start ${cycleYear} OPB for ${officerName}`}
+            </CardTitle>
             <Badge variant="outline" className="text-[10px] px-1.5 py-0.5 border-blue-400 text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/20">
               BETA
             </Badge>
           </div>
           <CardDescription>
-            Create your Officer Performance Brief workspace to begin drafting
-            performance statements for your upcoming evaluation.
+            {isOwnOpb
+              ? "Create your Officer Performance Brief workspace to begin drafting performance statements for your upcoming evaluation."
+              : "Create an Officer Performance Brief workspace for this officer. They and anyone you share it with can edit it alongside you."}
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
           <div className="bg-muted/50 rounded-lg p-4 space-y-2">
             <div className="flex items-center gap-2 text-sm">
               <User className="size-4 text-muted-foreground" />
-              <span>
-                {profile?.rank} {profile?.full_name}
-              </span>
+              <span>{officerName}</span>
             </div>
             <div className="flex items-center gap-2 text-sm">
               <Calendar className="size-4 text-muted-foreground" />
               <span>
-                Period: <CyclePeriodLabel rank={profile?.rank as Rank | null} fallback={`${cycleYear}`} />
+                Period: <CyclePeriodLabel rank={officer?.rank as Rank | null} fallback={`${cycleYear}`} />
               </span>
             </div>
           </div>
@@ -481,9 +591,7 @@ ${contextForGeneration}`;
               BETA
             </Badge>
           </h2>
-          <p className="text-sm text-muted-foreground">
-            {profile?.rank} {profile?.full_name}
-          </p>
+          <p className="text-sm text-muted-foreground">{officerName}</p>
         </div>
 
         <div className="flex items-center gap-2">
@@ -581,7 +689,9 @@ ${contextForGeneration}`;
               onToggleCollapse={() => toggleSectionCollapsed(mga.key)}
               onSave={(text) => saveSection(mga.key, text)}
               onCreateSnapshot={(text) => createSnapshot(mga.key, text)}
-              onGenerate={(context) => generateStatement(mga.key, context)}
+              onGenerate={(context, clarifyingContext) => generateStatement(mga.key, context, clarifyingContext)}
+              onSaveImpactBooster={(booster) => saveImpactBooster(mga.key, booster)}
+              onClearImpactBooster={() => clearImpactBooster(mga.key)}
               isGenerating={isGenerating === mga.key}
               snapshots={snapshots[section?.id] || []}
               onLoadSnapshots={() => section && loadSnapshots(section.id)}
@@ -591,6 +701,10 @@ ${contextForGeneration}`;
                   : MAX_STATEMENT_CHARACTERS
               }
               accomplishments={accomplishments}
+              isLockedByOther={sectionLocks.isLockedByOther(mga.key)}
+              lockedByInfo={sectionLocks.getLockedByInfo(mga.key)}
+              onAcquireLock={section ? () => sectionLocks.acquireLock(section.id) : undefined}
+              onReleaseLock={section ? () => sectionLocks.releaseLock(section.id) : undefined}
             />
           );
         })}
@@ -35,7 +35,7 @@ interface ContentSection {
 interface CreateReviewLinkDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  shellType: "epb" | "award" | "decoration";
+  shellType: "epb" | "opb" | "award" | "decoration";
   shellId: string;
   rateeName: string;
   rateeRank?: string;
@@ -270,7 +270,7 @@ export function CreateReviewLinkDialog({
                       Some sections are empty
                     </p>
                     <p className="text-xs text-amber-700 dark:text-amber-300">
-                      Your mentor will see a snapshot of your {shellType === "epb" ? "EPB" : shellType === "award" ? "award package" : "decoration"} as it is right now. 
+                      Your mentor will see a snapshot of your {shellType === "epb" ? "EPB" : shellType === "opb" ? "OPB" : shellType === "award" ? "award package" : "decoration"} as it is right now. 
                       The following sections have no content:
                     </p>
                     <ul className="text-xs text-amber-700 dark:text-amber-300 list-disc list-inside">
@@ -56,7 +56,7 @@ interface ReviewToken {
 interface ReviewLinksManagerProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  shellType: "epb" | "award" | "decoration";
+  shellType: "epb" | "opb" | "award" | "decoration";
   shellId: string;
   onCreateNew?: () => void;
 }
@@ -199,7 +199,7 @@ export function ReviewLinksManager({
     (t) => t.status !== "active" || new Date(t.expires_at) <= new Date()
   );
 
-  const shellTypeLabel = shellType === "epb" ? "EPB" : shellType === "award" ? "Award" : "Decoration";
+  const shellTypeLabel = shellType === "epb" ? "EPB" : shellType === "opb" ? "OPB" : shellType === "award" ? "Award" : "Decoration";
 
   return (
     <>
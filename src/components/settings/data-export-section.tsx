@@ -0,0 +1,69 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { toast } from "@/components/ui/sonner";
+import { downloadFromApi } from "@/lib/download-file";
+import { Download, Loader2, PackageOpen } from "lucide-react";
+
+export function DataExportSection() {
+  const [isExporting, setIsExporting] = useState(false);
+
+  async function handleExport() {
+    setIsExporting(true);
+    try {
+      await downloadFromApi("/api/account/export", "myepbuddy-data-export.zip");
+      toast.success("Your data export has downloaded");
+    } catch (error) {
+      console.error("Data export failed:", error);
+      toast.error(
+        error instanceof Error ? error.message : "Failed to export your data",
+      );
+    } finally {
+      setIsExporting(false);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <PackageOpen className="size-5" />
+          Download My Data
+        </CardTitle>
+        <CardDescription>
+          Keep a copy of your records before a PCS, separation, or retirement.
+          The ZIP holds documented JSON files you can open anywhere.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ul className="text-sm text-muted-foreground space-y-1.5 list-disc pl-5">
+          <li>Profile and accomplishments, with assessments and stewardship</li>
+          <li>Statement library and EPB, OPB, award, and decoration history</li>
+          <li>Feedback your supervisors shared with you</li>
+          <li>Credit balance and transaction history</li>
+        </ul>
+        <Button
+          variant="outline"
+          onClick={() => void handleExport()}
+          disabled={isExporting}
+          aria-label="Download my data"
+        >
+          {isExporting ? (
+            <Loader2 className="size-4 mr-2 animate-spin" />
+          ) : (
+            <Download className="size-4 mr-2" />
+          )}
+          {isExporting ? "Preparing export…" : "Download my data"}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,6 +5,7 @@ import { useRouter } from "next/navigation";
 import { createClient } from "@/lib/supabase/client";
 import { useUserStore } from "@/stores/user-store";
 import { useCreditsStore } from "@/stores/credits-store";
+import { useNotificationsStore } from "@/stores/notifications-store";
 import { clearAllTermsSessionFlags } from "@/lib/terms-session";
 import { ACCOUNT_EXIT_REASONS } from "@/lib/account-deletion";
 import { Button } from "@/components/ui/button";
@@ -122,6 +123,7 @@ export function DeleteAccountSection({ userEmail }: DeleteAccountSectionProps) {
       clearAllTermsSessionFlags();
       useUserStore.getState().reset();
       useCreditsStore.getState().reset();
+      useNotificationsStore.getState().reset();
 
       const surveyToken =
         typeof result.surveyToken === "string" ? result.surveyToken : null;
@@ -163,6 +165,9 @@ export function DeleteAccountSection({ userEmail }: DeleteAccountSectionProps) {
             <li>API keys, settings, tokens, and billing history</li>
             <li>Profile, avatar, and sign-in credentials</li>
           </ul>
+          <p className="text-sm text-muted-foreground">
+            Want a copy first? Use Download My Data above before deleting.
+          </p>
           <Button
             variant="destructive"
             onClick={() => setOpen(true)}
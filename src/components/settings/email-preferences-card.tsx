@@ -1,6 +1,7 @@
 "use client";
 
 import { useState } from "react";
+import { createClient } from "@/lib/supabase/client";
 import { useUserStore } from "@/stores/user-store";
 import {
   Card,
@@ -17,9 +18,11 @@ import { cn } from "@/lib/utils";
 import { motionTransitionColors } from "@/lib/motion/classes";
 
 export function EmailPreferencesCard() {
-  const { profile, setProfile } = useUserStore();
+  const { profile, setProfile, subordinates, managedMembers } = useUserStore();
   const [pending, setPending] = useState<boolean | null>(null);
   const [saving, setSaving] = useState(false);
+  const [savingDigest, setSavingDigest] = useState(false);
+  const supabase = createClient();
 
   const recorded = profile?.marketing_email_opt_in;
   const optedIn = pending ?? (profile ? recorded !== false : false);
@@ -61,6 +64,31 @@ export function EmailPreferencesCard() {
     }
   }
 
+  const digestOptedIn = profile?.supervisor_digest_opt_in ?? false;
+  const hasTeam = subordinates.length > 0 || managedMembers.length > 0;
+
+  async function handleDigestToggle(next: boolean) {
+    if (!profile?.id || savingDigest) return;
+    setSavingDigest(true);
+    try {
+      const { error } = await supabase
+        .from("profiles")
+        .update({ supervisor_digest_opt_in: next } as never)
+        .eq("id", profile.id);
+      if (error) throw error;
+      setProfile({ ...profile, supervisor_digest_opt_in: next });
+      toast.success(
+        next
+          ? "You will get a weekly team digest every Monday"
+          : "Weekly team digest is off"
+      );
+    } catch {
+      toast.error("Could not update email preference. Try again.");
+    } finally {
+      setSavingDigest(false);
+    }
+  }
+
   return (
     <Card>
       <CardHeader>
@@ -73,7 +101,7 @@ export function EmailPreferencesCard() {
           Invites, password reset, and feedback are not affected.
         </CardDescription>
       </CardHeader>
-      <CardContent>
+      <CardContent className="space-y-3">
         <div
           className={cn(
             "flex items-start justify-between gap-4 rounded-lg border p-3",
@@ -107,6 +135,36 @@ export function EmailPreferencesCard() {
             className="mt-0.5 shrink-0"
           />
         </div>
+        {(hasTeam || digestOptedIn) && (
+          <div
+            className={cn(
+              "flex items-start justify-between gap-4 rounded-lg border p-3",
+              motionTransitionColors
+            )}
+          >
+            <div className="min-w-0 space-y-1">
+              <Label htmlFor="supervisor-digest-opt-in-settings" className="text-sm">
+                Weekly team digest
+              </Label>
+              <p
+                id="supervisor-digest-opt-in-settings-desc"
+                className="text-sm text-muted-foreground leading-relaxed"
+              >
+                Every Monday: new entries, entries still
+                waiting on an assessment, weak MPAs and days to close-out for
+                each subordinate and managed member. Not sent to .mil addresses.
+              </p>
+            </div>
+            <Switch
+              id="supervisor-digest-opt-in-settings"
+              checked={digestOptedIn}
+              disabled={!profile?.id || savingDigest}
+              onCheckedChange={handleDigestToggle}
+              aria-describedby="supervisor-digest-opt-in-settings-desc"
+              className="mt-0.5 shrink-0"
+            />
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,117 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { createClient } from "@/lib/supabase/client";
+import { useUserStore } from "@/stores/user-store";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/components/ui/sonner";
+import { EvaluationPeriodOverrideFields } from "@/components/evaluation/evaluation-period-override-fields";
+import { CyclePeriodLabel } from "@/components/evaluation/cycle-period-label";
+import {
+  getCyclePeriodOverride,
+  normalizeEvaluationPeriodFields,
+} from "@/lib/constants";
+import { CalendarRange, Loader2 } from "lucide-react";
+import type { EvaluationPeriodFields, Rank } from "@/types/database";
+
+function pickFields(source: Partial<EvaluationPeriodFields> | null | undefined): EvaluationPeriodFields {
+  return {
+    eval_period_start: source?.eval_period_start ?? null,
+    eval_period_end: source?.eval_period_end ?? null,
+    eval_period_reason: source?.eval_period_reason ?? null,
+  };
+}
+
+/** Own evaluation period: RegAF SCOD, or an ANG/AFR cycle, CRO or directed-by-commander window. */
+export function EvaluationPeriodCard() {
+  const { profile, setProfile } = useUserStore();
+  const [fields, setFields] = useState<EvaluationPeriodFields>(() => pickFields(profile));
+  const [saving, setSaving] = useState(false);
+  const supabase = createClient();
+
+  useEffect(() => {
+    setFields(pickFields(profile));
+  }, [profile]);
+
+  if (!profile || profile.rank === "Civilian") return null;
+
+  const saved = pickFields(profile);
+  const isDirty =
+    fields.eval_period_reason !== saved.eval_period_reason ||
+    fields.eval_period_start !== saved.eval_period_start ||
+    fields.eval_period_end !== saved.eval_period_end;
+  const { value, error } = normalizeEvaluationPeriodFields(fields);
+  const hasExpiredOverride = !!saved.eval_period_reason && !getCyclePeriodOverride(saved);
+
+  async function handleSave() {
+    if (!profile || error) return;
+    setSaving(true);
+    try {
+      const { error: updateError } = await supabase
+        .from("profiles")
+        .update(value as never)
+        .eq("id", profile.id);
+      if (updateError) throw updateError;
+
+      setProfile({ ...profile, ...value });
+      toast.success(
+        value.eval_period_reason
+          ? "Custom evaluation period saved"
+          : "Evaluation period follows your SCOD again"
+      );
+    } catch {
+      toast.error("Could not save your evaluation period. Try again.");
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <CalendarRange className="size-5" aria-hidden="true" />
+          Evaluation period
+        </CardTitle>
+        <CardDescription>
+          ANG and AFR members, and anyone with a change-of-reporting-official or
+          directed-by-commander evaluation, can set the period their EPB covers.
+          Close-out countdowns, cycle labels and reminders follow it until it ends.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <EvaluationPeriodOverrideFields value={fields} onChange={setFields} disabled={saving} />
+
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <p className="text-xs text-muted-foreground">
+            {error ? (
+              <span className="text-destructive">{error}</span>
+            ) : hasExpiredOverride && !isDirty ? (
+              "This period has closed out, so your SCOD cycle applies again."
+            ) : (
+              <>
+                Current period:{" "}
+                <CyclePeriodLabel
+                  rank={profile.rank as Rank | null}
+                  override={getCyclePeriodOverride(saved)}
+                  className="font-medium text-foreground"
+                />
+              </>
+            )}
+          </p>
+          <Button size="sm" onClick={handleSave} disabled={!isDirty || !!error || saving}>
+            {saving && <Loader2 className="size-4 animate-spin" />}
+            Save period
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,226 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "@/components/ui/sonner";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  deleteLocalEndpoint,
+  refreshLocalEndpointModels,
+  saveLocalEndpoint,
+  type LocalEndpointSettings,
+} from "@/app/actions/api-keys";
+import { handleStaleDeploymentError } from "@/lib/stale-deployment";
+import { Check, Loader2, RefreshCw, Server, Trash2 } from "lucide-react";
+
+interface LocalEndpointSectionProps {
+  settings: LocalEndpointSettings;
+  /** Reload catalog + endpoint settings after a change. */
+  onChanged: () => Promise<void>;
+}
+
+/**
+ * Connect an OpenAI-compatible server (Ollama, vLLM, LM Studio). Saving lists
+ * the server's models, which then show up below like any other provider's.
+ */
+export function LocalEndpointSection({ settings, onChanged }: LocalEndpointSectionProps) {
+  const [baseUrl, setBaseUrl] = useState("");
+  const [apiKey, setApiKey] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [isDeleting, setIsDeleting] = useState(false);
+  const [showDeleteConfirm, setShowDeleteConfirm] = useState(false);
+
+  if (!settings.userEndpointsAllowed) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        {settings.serverEndpointConfigured
+          ? "Your administrator has connected a local model server. Its models are listed below and never use credits."
+          : "Local models are not enabled on this server."}
+      </p>
+    );
+  }
+
+  async function handleSave() {
+    if (!baseUrl.trim()) {
+      toast.error("Please enter the endpoint URL");
+      return;
+    }
+    setIsSaving(true);
+    try {
+      const result = await saveLocalEndpoint(baseUrl.trim(), apiKey.trim() || undefined);
+      if (!result.success) {
+        toast.error(result.error || "Failed to save endpoint");
+        return;
+      }
+      toast.success(`Endpoint saved — ${result.models?.length ?? 0} models found`);
+      setBaseUrl("");
+      setApiKey("");
+      await onChanged();
+    } catch (error) {
+      if (handleStaleDeploymentError(error)) return;
+      toast.error("Failed to save endpoint");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleRefresh() {
+    setIsRefreshing(true);
+    try {
+      const result = await refreshLocalEndpointModels();
+      if (!result.success) {
+        toast.error(result.error || "Failed to refresh models");
+        return;
+      }
+      toast.success(`${result.models?.length ?? 0} models found`);
+      await onChanged();
+    } catch (error) {
+      if (handleStaleDeploymentError(error)) return;
+      toast.error("Failed to refresh models");
+    } finally {
+      setIsRefreshing(false);
+    }
+  }
+
+  async function handleDelete() {
+    setIsDeleting(true);
+    try {
+      const result = await deleteLocalEndpoint();
+      if (!result.success) {
+        toast.error(result.error || "Failed to remove endpoint");
+        return;
+      }
+      toast.success("Endpoint removed");
+      await onChanged();
+    } finally {
+      setIsDeleting(false);
+      setShowDeleteConfirm(false);
+    }
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <Label className="text-sm font-medium">Your endpoint</Label>
+        <p className="text-xs text-muted-foreground">
+          Any OpenAI-compatible server reachable from this app, e.g. Ollama, vLLM or LM Studio.
+          Local models never use credits.
+          {settings.serverEndpointConfigured &&
+            " While saved, your endpoint is used for every local model instead of your administrator's."}
+        </p>
+      </div>
+
+      {settings.baseUrl ? (
+        <div className="flex items-center justify-between gap-2 bg-green-50 dark:bg-green-950/30 border border-green-200 dark:border-green-900/50 rounded-md px-3 py-2">
+          <div className="flex items-center gap-2 min-w-0 text-green-700 dark:text-green-400">
+            <Check className="size-4 shrink-0" aria-hidden="true" />
+            <div className="min-w-0">
+              <p className="text-sm font-medium font-mono truncate">{settings.baseUrl}</p>
+              <p className="text-xs">
+                {settings.models.length} {settings.models.length === 1 ? "model" : "models"}
+                {settings.hasKey && " · key saved"}
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center gap-1 shrink-0">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleRefresh}
+              disabled={isRefreshing}
+              className="text-muted-foreground hover:text-foreground"
+              aria-label="Refresh models from your endpoint"
+            >
+              {isRefreshing ? (
+                <Loader2 className="size-4 animate-spin" />
+              ) : (
+                <RefreshCw className="size-4" />
+              )}
+              <span className="ml-1 text-xs">Refresh</span>
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setShowDeleteConfirm(true)}
+              disabled={isDeleting}
+              className="text-destructive hover:text-destructive hover:bg-destructive/10"
+              aria-label="Remove your endpoint"
+            >
+              {isDeleting ? <Loader2 className="size-4 animate-spin" /> : <Trash2 className="size-4" />}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex flex-col gap-2">
+          <Input
+            value={baseUrl}
+            onChange={(e) => setBaseUrl(e.target.value)}
+            placeholder="http://localhost:11434/v1"
+            className="font-mono text-sm"
+            aria-label="Endpoint URL"
+          />
+          <div className="flex flex-col gap-2 sm:flex-row">
+            <Input
+              type="password"
+              value={apiKey}
+              onChange={(e) => setApiKey(e.target.value)}
+              placeholder="API key (optional)"
+              className="font-mono text-sm"
+              aria-label="Endpoint API key"
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  void handleSave();
+                }
+              }}
+            />
+            <Button onClick={handleSave} disabled={isSaving || !baseUrl.trim()} className="shrink-0">
+              {isSaving ? (
+                <Loader2 className="size-4 animate-spin" />
+              ) : (
+                <>
+                  <Server className="size-4 mr-1.5" />
+                  Connect
+                </>
+              )}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <AlertDialog open={showDeleteConfirm} onOpenChange={setShowDeleteConfirm}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove your local endpoint?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Models from this endpoint will disappear from your pickers. You can connect it again at
+              any time.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {isDeleting ? <Loader2 className="size-4 animate-spin mr-2" /> : null}
+              Remove Endpoint
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
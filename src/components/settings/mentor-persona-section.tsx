@@ -0,0 +1,218 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useUserStore } from "@/stores/user-store";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "@/components/ui/sonner";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { GraduationCap, Loader2, RotateCcw, Trash2 } from "lucide-react";
+
+interface PersonaSummary {
+  id: string;
+  display_name: string;
+  source_comment_count: number;
+  version: number;
+  updated_at: string;
+}
+
+/**
+ * Opt-in mentor persona: built from review-link feedback mentees accepted.
+ * Mentees see it in their writing style picker until the mentor revokes it.
+ */
+export function MentorPersonaSection() {
+  const { profile } = useUserStore();
+  const [persona, setPersona] = useState<PersonaSummary | null>(null);
+  const [eligibleSources, setEligibleSources] = useState(0);
+  const [minSources, setMinSources] = useState(3);
+  const [displayName, setDisplayName] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [showRevokeConfirm, setShowRevokeConfirm] = useState(false);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    void (async () => {
+      try {
+        const response = await fetch("/api/mentor-persona", { signal: controller.signal });
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error);
+        setPersona(result.persona);
+        setEligibleSources(result.eligibleSources);
+        setMinSources(result.minSources);
+        if (result.persona) setDisplayName(result.persona.display_name);
+      } catch {
+        // Section stays in its opt-in state; the POST reports real errors
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false);
+      }
+    })();
+    return () => controller.abort();
+  }, []);
+
+  // Suggest "Rank Last" until the mentor types their own label
+  useEffect(() => {
+    if (!profile || persona || displayName) return;
+    const suggested = [profile.rank, profile.last_name || profile.full_name].filter(Boolean).join(" ");
+    setDisplayName(suggested);
+    // Only seed once per profile load
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [profile?.id, persona]);
+
+  async function handleSave() {
+    setIsSaving(true);
+    try {
+      const response = await fetch("/api/mentor-persona", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ displayName }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to build mentor persona");
+      }
+      const isNew = !persona;
+      setPersona(result.persona);
+      toast.success(
+        isNew
+          ? "Mentor persona created. Your mentees can now pick it as a writing style."
+          : result.regenerated
+            ? "Mentor persona refreshed"
+            : "Mentor persona is up to date",
+      );
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to build mentor persona");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleRevoke() {
+    setIsSaving(true);
+    try {
+      const response = await fetch("/api/mentor-persona", { method: "DELETE" });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to revoke mentor persona");
+      }
+      setPersona(null);
+      toast.success("Mentor persona revoked. Mentees using it fall back to their personal style.");
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to revoke mentor persona");
+    } finally {
+      setIsSaving(false);
+      setShowRevokeConfirm(false);
+    }
+  }
+
+  const canBuild = eligibleSources >= minSources && displayName.trim().length > 0;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Label htmlFor="mentor-persona-name" className="text-xs sm:text-sm">
+          Mentor Persona
+        </Label>
+        {persona && (
+          <Badge variant="secondary" className="text-[10px]">
+            <GraduationCap className="size-3 mr-1" />
+            Shared with mentees
+          </Badge>
+        )}
+      </div>
+      <p className="text-[10px] sm:text-xs text-muted-foreground">
+        When you review packages through review links while signed in, the rewrites and comments your mentees accept can
+        become a persona they pick as a writing style. Only style patterns are shared, never their statements. You can
+        revoke it at any time.
+      </p>
+
+      {isLoading ? (
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Loader2 className="size-3.5 animate-spin" />
+          Loading...
+        </div>
+      ) : (
+        <>
+          <p className="text-[10px] sm:text-xs text-muted-foreground">
+            {eligibleSources} accepted piece{eligibleSources === 1 ? "" : "s"} of feedback
+            {persona
+              ? ` (persona built from ${persona.source_comment_count}, version ${persona.version})`
+              : eligibleSources < minSources
+                ? ` - ${minSources} needed to create a persona`
+                : ""}
+          </p>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Input
+              id="mentor-persona-name"
+              value={displayName}
+              onChange={(e) => setDisplayName(e.target.value)}
+              maxLength={100}
+              placeholder="Name mentees will see, e.g. SMSgt Lee"
+              className="h-8 text-sm sm:max-w-xs"
+            />
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={isSaving || !canBuild}
+              onClick={handleSave}
+              className="gap-1.5"
+            >
+              {isSaving ? (
+                <Loader2 className="size-3.5 animate-spin" />
+              ) : persona ? (
+                <RotateCcw className="size-3.5" />
+              ) : (
+                <GraduationCap className="size-3.5" />
+              )}
+              {persona ? "Refresh Persona" : "Create Persona"}
+            </Button>
+            {persona && (
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={isSaving}
+                onClick={() => setShowRevokeConfirm(true)}
+                className="gap-1.5 text-destructive hover:text-destructive"
+              >
+                <Trash2 className="size-3.5" />
+                Revoke
+              </Button>
+            )}
+          </div>
+        </>
+      )}
+
+      <AlertDialog open={showRevokeConfirm} onOpenChange={setShowRevokeConfirm}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Revoke mentor persona?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Your persona is deleted and disappears from your mentees&apos; writing style options. Anyone using it
+              goes back to their personal style. You can opt in again later.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleRevoke}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Revoke
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
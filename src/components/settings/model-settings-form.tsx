@@ -8,9 +8,11 @@ import {
 } from "@/app/actions/ai-models";
 import {
   deleteApiKey,
+  getLocalEndpointSettings,
   saveApiKey,
   type KeyName,
   type KeyStatus,
+  type LocalEndpointSettings,
 } from "@/app/actions/api-keys";
 import type {
   AvailableModel,
@@ -40,6 +42,7 @@ import {
   PROVIDER_KEY_CONFIGS,
   ProviderKeySection,
 } from "@/components/settings/provider-key-section";
+import { LocalEndpointSection } from "@/components/settings/local-endpoint-section";
 import { formatDateTime } from "@/lib/format";
 
 const PROVIDER_LABELS: Record<string, string> = {
@@ -47,9 +50,10 @@ const PROVIDER_LABELS: Record<string, string> = {
   anthropic: "Anthropic",
   google: "Google AI",
   xai: "xAI",
+  local: "Local / OpenAI-compatible",
 };
 
-const PROVIDER_ORDER: ModelProvider[] = ["openai", "anthropic", "google", "xai"];
+const PROVIDER_ORDER: ModelProvider[] = ["openai", "anthropic", "google", "xai", "local"];
 
 interface ModelSettingsFormProps {
   isAdmin: boolean;
@@ -58,6 +62,7 @@ interface ModelSettingsFormProps {
   initialAvailableModels: AvailableModel[];
   initialCatalogSyncedAt: string | null;
   initialKeyStatus: KeyStatus;
+  initialLocalEndpoint: LocalEndpointSettings;
 }
 
 export function ModelSettingsForm({
@@ -67,6 +72,7 @@ export function ModelSettingsForm({
   initialAvailableModels,
   initialCatalogSyncedAt,
   initialKeyStatus,
+  initialLocalEndpoint,
 }: ModelSettingsFormProps) {
   const [isSaving, setIsSaving] = useState(false);
   const [isSyncing, setIsSyncing] = useState(false);
@@ -74,6 +80,7 @@ export function ModelSettingsForm({
   const [preferences, setPreferences] = useState(initialPreferences);
   const [catalogSyncedAt, setCatalogSyncedAt] = useState(initialCatalogSyncedAt);
   const [keyStatus, setKeyStatus] = useState<KeyStatus>(initialKeyStatus);
+  const [localEndpoint, setLocalEndpoint] = useState(initialLocalEndpoint);
   const [availableIds, setAvailableIds] = useState(
     new Set(initialAvailableModels.map((model) => model.id)),
   );
@@ -82,7 +89,11 @@ export function ModelSettingsForm({
   const saveSeqRef = useRef(0);
 
   const reloadSettings = useCallback(async () => {
-    const data = await getModelCatalogForSettings();
+    const [data, local] = await Promise.all([
+      getModelCatalogForSettings(),
+      getLocalEndpointSettings(),
+    ]);
+    setLocalEndpoint(local);
     setAllModels(data.allModels);
     setPreferences(data.preferences);
     setCatalogSyncedAt(data.catalogSyncedAt);
@@ -267,8 +278,11 @@ export function ModelSettingsForm({
 
       <div className="space-y-4">
         {PROVIDER_ORDER.map((provider) => {
-          const models = grouped[provider];
-          if (!models?.length) return null;
+          const models = grouped[provider] ?? [];
+          const isLocal = provider === "local";
+          const showLocalSetup =
+            isLocal && (localEndpoint.userEndpointsAllowed || localEndpoint.serverEndpointConfigured);
+          if (!models.length && !showLocalSetup) return null;
 
           const keyConfig = keyConfigByProvider[provider];
           const providerKeyName = keyConfig?.key;
@@ -291,7 +305,15 @@ export function ModelSettingsForm({
                 </CardTitle>
               </CardHeader>
               <CardContent className="space-y-4 pt-0">
-                {keyConfig && providerKeyName ? (
+                {isLocal ? (
+                  <LocalEndpointSection
+                    settings={localEndpoint}
+                    onChanged={async () => {
+                      useAvailableModelsStore.getState().invalidate();
+                      await reloadSettings();
+                    }}
+                  />
+                ) : keyConfig && providerKeyName ? (
                   <ProviderKeySection
                     provider={keyConfig}
                     hasKey={hasKey}
@@ -300,71 +322,75 @@ export function ModelSettingsForm({
                   />
                 ) : null}
 
-                <Separator />
+                {models.length > 0 && (
+                  <>
+                    <Separator />
 
-                <div className="space-y-2">
-                  <p className="text-sm font-medium">Model visibility</p>
-                  <p className="text-xs text-muted-foreground">
-                    Toggle which models from this provider appear in your pickers.
-                  </p>
-                  {models.map((model) => {
-                    const canUse = availableIds.has(model.id);
-                    const isVisible = visibleSet.has(model.id);
-                    const isUnavailable = !canUse && !model.is_app_default;
+                    <div className="space-y-2">
+                      <p className="text-sm font-medium">Model visibility</p>
+                      <p className="text-xs text-muted-foreground">
+                        Toggle which models from this provider appear in your pickers.
+                      </p>
+                      {models.map((model) => {
+                        const canUse = availableIds.has(model.id);
+                        const isVisible = visibleSet.has(model.id);
+                        const isUnavailable = !canUse && !model.is_app_default;
 
-                    return (
-                      <div
-                        key={model.id}
-                        className={cn(
-                          "flex items-start justify-between gap-3 rounded-lg border p-3 transition-colors",
-                          !model.is_active && "opacity-60",
-                          isUnavailable && "bg-muted/30",
-                        )}
-                      >
-                        <div className="space-y-1 min-w-0">
-                          <div className="flex items-center gap-2 flex-wrap">
-                            <p className="text-sm font-medium">{model.display_name}</p>
-                            {model.is_app_default && (
-                              <Badge variant="secondary" className="text-[10px]">
-                                Free default
-                              </Badge>
-                            )}
-                            {!model.is_active && (
-                              <Badge variant="outline" className="text-[10px]">
-                                Deprecated
-                              </Badge>
-                            )}
-                            {isUnavailable && model.is_active && (
-                              <Badge variant="outline" className="text-[10px] gap-1">
-                                <KeyRound className="size-2.5" aria-hidden="true" />
-                                Key required
-                              </Badge>
+                        return (
+                          <div
+                            key={model.id}
+                            className={cn(
+                              "flex items-start justify-between gap-3 rounded-lg border p-3 transition-colors",
+                              !model.is_active && "opacity-60",
+                              isUnavailable && "bg-muted/30",
                             )}
+                          >
+                            <div className="space-y-1 min-w-0">
+                              <div className="flex items-center gap-2 flex-wrap">
+                                <p className="text-sm font-medium">{model.display_name}</p>
+                                {model.is_app_default && (
+                                  <Badge variant="secondary" className="text-[10px]">
+                                    Free default
+                                  </Badge>
+                                )}
+                                {!model.is_active && (
+                                  <Badge variant="outline" className="text-[10px]">
+                                    Deprecated
+                                  </Badge>
+                                )}
+                                {isUnavailable && model.is_active && (
+                                  <Badge variant="outline" className="text-[10px] gap-1">
+                                    <KeyRound className="size-2.5" aria-hidden="true" />
+                                    Key required
+                                  </Badge>
+                                )}
+                              </div>
+                              <p className="text-xs text-muted-foreground line-clamp-2">
+                                {model.description}
+                              </p>
+                              <p className="text-[11px] text-muted-foreground font-mono truncate">
+                                {model.id}
+                              </p>
+                            </div>
+                            <div className="flex items-center gap-2 shrink-0 pt-0.5">
+                              <span className="text-xs text-muted-foreground hidden sm:inline">
+                                Show
+                              </span>
+                              <Switch
+                                checked={isVisible}
+                                onCheckedChange={(checked) =>
+                                  toggleModelVisibility(model.id, checked)
+                                }
+                                aria-label={`Show ${model.display_name} in model pickers`}
+                                disabled={isUnavailable}
+                              />
+                            </div>
                           </div>
-                          <p className="text-xs text-muted-foreground line-clamp-2">
-                            {model.description}
-                          </p>
-                          <p className="text-[11px] text-muted-foreground font-mono truncate">
-                            {model.id}
-                          </p>
-                        </div>
-                        <div className="flex items-center gap-2 shrink-0 pt-0.5">
-                          <span className="text-xs text-muted-foreground hidden sm:inline">
-                            Show
-                          </span>
-                          <Switch
-                            checked={isVisible}
-                            onCheckedChange={(checked) =>
-                              toggleModelVisibility(model.id, checked)
-                            }
-                            aria-label={`Show ${model.display_name} in model pickers`}
-                            disabled={isUnavailable}
-                          />
-                        </div>
-                      </div>
-                    );
-                  })}
-                </div>
+                        );
+                      })}
+                    </div>
+                  </>
+                )}
               </CardContent>
             </Card>
           );
@@ -390,6 +416,11 @@ export function ModelSettingsForm({
               <strong className="text-foreground">Without your key:</strong> The app&apos;s shared
               default model is used (limited free usage)
             </li>
+            <li>
+              <strong className="text-foreground">Local models:</strong> Sent to your
+              organization&apos;s OpenAI-compatible server (or your own endpoint, if enabled) and
+              never use credits
+            </li>
           </ul>
         </CardContent>
       </Card>
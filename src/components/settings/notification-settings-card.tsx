@@ -0,0 +1,87 @@
+"use client";
+
+import { useState } from "react";
+import { createClient } from "@/lib/supabase/client";
+import { useUserStore } from "@/stores/user-store";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { toast } from "@/components/ui/sonner";
+import { Bell } from "lucide-react";
+import { NOTIFICATION_TYPES, setNotificationTypeMuted } from "@/lib/notifications";
+import type { NotificationType } from "@/types/database";
+
+/** Per-type mute switches for the header notification bell. */
+export function NotificationSettingsCard() {
+  const { profile, setProfile } = useUserStore();
+  const [savingType, setSavingType] = useState<NotificationType | null>(null);
+  const supabase = createClient();
+
+  if (!profile) return null;
+
+  const muted = profile.notification_muted_types ?? [];
+
+  async function handleToggle(type: NotificationType, enabled: boolean) {
+    if (!profile || savingType) return;
+    const next = setNotificationTypeMuted(muted, type, !enabled);
+    setSavingType(type);
+    try {
+      const { error } = await supabase
+        .from("profiles")
+        .update({ notification_muted_types: next } as never)
+        .eq("id", profile.id);
+      if (error) throw error;
+      setProfile({ ...profile, notification_muted_types: next });
+    } catch {
+      toast.error("Could not update notification settings. Try again.");
+    } finally {
+      setSavingType(null);
+    }
+  }
+
+  return (
+    <Card id="notifications">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Bell className="size-5" aria-hidden="true" />
+          Notifications
+        </CardTitle>
+        <CardDescription>
+          Choose what shows up under the bell. Muted events still appear on the
+          dashboard and team pages.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {NOTIFICATION_TYPES.map((type) => {
+          const id = `notification-type-${type.value}`;
+          return (
+            <div key={type.value} className="flex items-start justify-between gap-4">
+              <div className="min-w-0 space-y-0.5">
+                <Label htmlFor={id} className="text-sm">
+                  {type.label}
+                </Label>
+                <p id={`${id}-desc`} className="text-xs text-muted-foreground">
+                  {type.description}
+                </p>
+              </div>
+              <Switch
+                id={id}
+                checked={!muted.includes(type.value)}
+                disabled={savingType !== null}
+                onCheckedChange={(checked) => handleToggle(type.value, checked)}
+                aria-describedby={`${id}-desc`}
+                className="mt-0.5 shrink-0"
+              />
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,404 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import {
+  MAX_RULES_PER_CONTEXT,
+  MAX_RULE_PACKS_PER_USER,
+  MAX_RULE_PACK_NAME_LENGTH,
+  MAX_RULE_TEXT_LENGTH,
+  PROMPT_RULE_CONTEXTS,
+  PROMPT_RULE_CONTEXT_LABELS,
+} from "@/lib/prompt-rules/constants";
+import type {
+  PromptRuleContext,
+  PromptRulePack,
+  PromptRulePackRule,
+} from "@/types/database";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { toast } from "@/components/ui/sonner";
+import { Loader2, Plus, Trash2, Users } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+async function requestJson<T>(
+  url: string,
+  method: string,
+  body?: unknown,
+): Promise<T> {
+  const res = await fetch(url, {
+    method,
+    headers: body === undefined ? undefined : { "Content-Type": "application/json" },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(data.error ?? "Request failed");
+  }
+  return data as T;
+}
+
+/**
+ * Supervisor-side editor for rule packs. Published packs are appended to the
+ * prompts of everyone below the owner in the supervision chain.
+ */
+export function PromptRulePacksManager() {
+  const [packs, setPacks] = useState<PromptRulePack[] | null>(null);
+  const [newPackName, setNewPackName] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    requestJson<{ packs: PromptRulePack[] }>("/api/prompt-rules/packs", "GET")
+      .then((data) => {
+        if (!cancelled) setPacks(data.packs ?? []);
+      })
+      .catch(() => {
+        if (!cancelled) setPacks([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const replacePack = (pack: PromptRulePack) =>
+    setPacks((prev) => (prev ?? []).map((p) => (p.id === pack.id ? pack : p)));
+
+  const handleCreatePack = async () => {
+    const name = newPackName.trim();
+    if (!name) return;
+    setIsSaving(true);
+    try {
+      const { pack } = await requestJson<{ pack: PromptRulePack }>(
+        "/api/prompt-rules/packs",
+        "POST",
+        { name },
+      );
+      setPacks((prev) => [...(prev ?? []), pack]);
+      setNewPackName("");
+      toast.success("Rule pack created.");
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to create rule pack.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleTogglePublished = async (pack: PromptRulePack, isPublished: boolean) => {
+    setIsSaving(true);
+    try {
+      const { pack: updated } = await requestJson<{ pack: PromptRulePack }>(
+        "/api/prompt-rules/packs",
+        "PATCH",
+        { id: pack.id, isPublished },
+      );
+      replacePack(updated);
+      toast.success(
+        isPublished
+          ? "Pack published to your team."
+          : "Pack unpublished. Your team no longer receives these rules.",
+      );
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to update rule pack.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeletePack = async (packId: string) => {
+    setIsSaving(true);
+    try {
+      await requestJson("/api/prompt-rules/packs", "DELETE", { id: packId });
+      setPacks((prev) => (prev ?? []).filter((p) => p.id !== packId));
+      toast.success("Rule pack deleted.");
+    } catch {
+      toast.error("Failed to delete rule pack.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAddRule = async (
+    pack: PromptRulePack,
+    context: PromptRuleContext,
+    ruleText: string,
+  ): Promise<boolean> => {
+    setIsSaving(true);
+    try {
+      const { rule } = await requestJson<{ rule: PromptRulePackRule }>(
+        "/api/prompt-rules/packs/rules",
+        "POST",
+        { packId: pack.id, context, ruleText },
+      );
+      replacePack({ ...pack, rules: [...pack.rules, rule] });
+      return true;
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : "Failed to add rule.");
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteRule = async (pack: PromptRulePack, ruleId: string) => {
+    setIsSaving(true);
+    try {
+      await requestJson("/api/prompt-rules/packs/rules", "DELETE", { id: ruleId });
+      replacePack({ ...pack, rules: pack.rules.filter((r) => r.id !== ruleId) });
+    } catch {
+      toast.error("Failed to delete rule.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Users className="size-4" />
+          Team Rule Packs
+        </CardTitle>
+        <CardDescription>
+          Publish house-style rules to everyone below you in the supervision
+          chain. Published rules apply after each member&apos;s own rules and
+          win any conflict with them; your subordinates can see them but not
+          edit or delete them.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {packs === null ? (
+          <Skeleton className="h-24 w-full" />
+        ) : packs.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4 text-center border border-dashed rounded-md">
+            No rule packs yet. Create one below.
+          </p>
+        ) : (
+          packs.map((pack) => (
+            <RulePackEditor
+              key={pack.id}
+              pack={pack}
+              isSaving={isSaving}
+              onTogglePublished={(next) => void handleTogglePublished(pack, next)}
+              onDelete={() => void handleDeletePack(pack.id)}
+              onAddRule={(context, text) => handleAddRule(pack, context, text)}
+              onDeleteRule={(ruleId) => void handleDeleteRule(pack, ruleId)}
+            />
+          ))
+        )}
+
+        <div className="space-y-2 pt-2 border-t">
+          <Label htmlFor="new-rule-pack" className="text-sm font-medium">
+            New rule pack
+          </Label>
+          <div className="flex gap-2">
+            <Input
+              id="new-rule-pack"
+              value={newPackName}
+              onChange={(e) => setNewPackName(e.target.value)}
+              placeholder="e.g. 55th Wing house style"
+              maxLength={MAX_RULE_PACK_NAME_LENGTH}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  void handleCreatePack();
+                }
+              }}
+            />
+            <Button
+              type="button"
+              size="sm"
+              className="shrink-0 h-9"
+              onClick={() => void handleCreatePack()}
+              disabled={
+                isSaving ||
+                !newPackName.trim() ||
+                (packs?.length ?? 0) >= MAX_RULE_PACKS_PER_USER
+              }
+            >
+              <Plus className="size-4" />
+              Create
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+interface RulePackEditorProps {
+  pack: PromptRulePack;
+  isSaving: boolean;
+  onTogglePublished: (isPublished: boolean) => void;
+  onDelete: () => void;
+  onAddRule: (context: PromptRuleContext, ruleText: string) => Promise<boolean>;
+  onDeleteRule: (ruleId: string) => void;
+}
+
+function RulePackEditor({
+  pack,
+  isSaving,
+  onTogglePublished,
+  onDelete,
+  onAddRule,
+  onDeleteRule,
+}: RulePackEditorProps) {
+  const [context, setContext] = useState<PromptRuleContext>("epb");
+  const [ruleText, setRuleText] = useState("");
+
+  const contextRules = pack.rules.filter((r) => r.context === context);
+  const atLimit = contextRules.length >= MAX_RULES_PER_CONTEXT;
+
+  const handleAdd = async () => {
+    const trimmed = ruleText.trim();
+    if (!trimmed) return;
+    if (await onAddRule(context, trimmed)) setRuleText("");
+  };
+
+  return (
+    <div className={cn("rounded-md border p-3 space-y-3", !pack.is_published && "bg-muted/30")}>
+      <div className="flex items-center justify-between gap-2">
+        <div className="min-w-0">
+          <p className="text-sm font-medium truncate">{pack.name}</p>
+          <p className="text-xs text-muted-foreground">
+            {pack.rules.length} {pack.rules.length === 1 ? "rule" : "rules"}
+            {pack.is_published ? " · applied to your team" : " · draft"}
+          </p>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <Switch
+            id={`pack-published-${pack.id}`}
+            checked={pack.is_published}
+            onCheckedChange={onTogglePublished}
+            disabled={isSaving}
+            aria-label={`Publish ${pack.name}`}
+          />
+          <Label
+            htmlFor={`pack-published-${pack.id}`}
+            className="text-xs text-muted-foreground cursor-pointer"
+          >
+            Published
+          </Label>
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button
+                type="button"
+                size="icon"
+                variant="ghost"
+                className="size-8 text-destructive hover:text-destructive"
+                aria-label={`Delete ${pack.name}`}
+              >
+                <Trash2 className="size-3.5" />
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete this rule pack?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  All of its rules will be removed and will no longer apply to
+                  your team&apos;s future generations.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction onClick={onDelete}>Delete</AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </div>
+      </div>
+
+      <Select value={context} onValueChange={(v) => setContext(v as PromptRuleContext)}>
+        <SelectTrigger className="h-8 text-xs w-full sm:w-56" aria-label="Rule context">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {PROMPT_RULE_CONTEXTS.map((ctx) => (
+            <SelectItem key={ctx} value={ctx} className="text-xs">
+              {PROMPT_RULE_CONTEXT_LABELS[ctx]} ({pack.rules.filter((r) => r.context === ctx).length})
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {contextRules.length > 0 && (
+        <ol className="space-y-1.5">
+          {contextRules.map((rule, index) => (
+            <li key={rule.id} className="flex items-start gap-2 text-sm">
+              <span className="text-xs text-muted-foreground tabular-nums pt-0.5">
+                {index + 1}.
+              </span>
+              <p className="flex-1 whitespace-pre-wrap break-words">{rule.rule_text}</p>
+              <Button
+                type="button"
+                size="icon"
+                variant="ghost"
+                className="size-7 text-destructive hover:text-destructive"
+                onClick={() => onDeleteRule(rule.id)}
+                disabled={isSaving}
+                aria-label={`Delete rule ${index + 1}`}
+              >
+                <Trash2 className="size-3" />
+              </Button>
+            </li>
+          ))}
+        </ol>
+      )}
+
+      <div className="space-y-2">
+        <Textarea
+          value={ruleText}
+          onChange={(e) => setRuleText(e.target.value)}
+          placeholder="e.g. Spell out the first use of every unit name."
+          maxLength={MAX_RULE_TEXT_LENGTH}
+          rows={2}
+          aria-label={`New ${PROMPT_RULE_CONTEXT_LABELS[context]} rule for ${pack.name}`}
+          className="resize-y min-h-[56px]"
+        />
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-xs text-muted-foreground tabular-nums">
+            {contextRules.length}/{MAX_RULES_PER_CONTEXT}
+          </span>
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={() => void handleAdd()}
+            disabled={isSaving || !ruleText.trim() || atLimit}
+          >
+            {isSaving ? <Loader2 className="size-4 animate-spin" /> : <Plus className="size-4" />}
+            Add rule
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -31,7 +31,7 @@ import {
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
 import { toast } from "@/components/ui/sonner";
-import { Loader2, Pencil, Plus, Trash2, ListChecks } from "lucide-react";
+import { Loader2, Lock, Pencil, Plus, Trash2, ListChecks } from "lucide-react";
 import { cn } from "@/lib/utils";
 
 interface PromptRulesManagerProps {
@@ -48,6 +48,7 @@ export function PromptRulesManager({
   compact = false,
 }: PromptRulesManagerProps) {
   const rules = usePromptRulesStore((s) => s.rulesByContext[context]);
+  const inherited = usePromptRulesStore((s) => s.inheritedByContext[context]);
   const isLoading = usePromptRulesStore((s) => s.isLoading[context] ?? false);
   const isSaving = usePromptRulesStore((s) => s.isSaving);
   const fetchRules = usePromptRulesStore((s) => s.fetchRules);
@@ -264,6 +265,37 @@ export function PromptRulesManager({
     </div>
   );
 
+  const inheritedContent = inherited && inherited.length > 0 && (
+    <div className="space-y-2">
+      <div className="flex items-center gap-1.5">
+        <Lock className="size-3.5 text-muted-foreground" aria-hidden="true" />
+        <p className="text-xs font-medium text-muted-foreground">
+          From your chain of command · {inherited.length} active
+        </p>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Published by your supervisors and applied after your rules. If a rule
+        conflicts with one of yours, theirs wins, and the most senior
+        supervisor&apos;s rule wins over the rest.
+      </p>
+      <ul className="space-y-2">
+        {inherited.map((rule) => (
+          <li
+            key={rule.id}
+            className="rounded-md border border-dashed bg-muted/30 p-3 space-y-1"
+          >
+            <p className="text-sm whitespace-pre-wrap break-words">
+              {rule.rule_text}
+            </p>
+            <p className="text-xs text-muted-foreground">
+              {rule.owner_name} · {rule.pack_name}
+            </p>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+
   const addForm = (
     <div className="space-y-2 pt-2 border-t">
       <Label htmlFor={`new-rule-${context}`} className="text-sm font-medium">
@@ -312,6 +344,7 @@ export function PromptRulesManager({
             <p className="text-xs text-muted-foreground">{description}</p>
           </div>
         </div>
+        {inheritedContent}
         {listContent}
         {addForm}
       </div>
@@ -329,6 +362,7 @@ export function PromptRulesManager({
           <CardDescription>{description}</CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
+          {inheritedContent}
           {listContent}
           {addForm}
         </CardContent>
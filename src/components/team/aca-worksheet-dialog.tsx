@@ -0,0 +1,392 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "@/components/ui/sonner";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ArrowDown, ArrowUp, Download, ListChecks, Loader2, Paperclip } from "lucide-react";
+import {
+  getFeedbackEvidenceAccomplishments,
+  saveFeedbackWorksheet,
+  type FeedbackEvidenceItem,
+} from "@/app/actions/supervisor-feedbacks";
+import {
+  compareAcaLevels,
+  createEmptyAcaWorksheet,
+  getAcaLevelLabel,
+  getAcaWorksheetProgress,
+  getAcaWorksheetRubric,
+  KNOWING_YOUR_AIRMAN_PROMPTS,
+  normalizeAcaWorksheet,
+} from "@/lib/aca-worksheet";
+import { downloadFromApi } from "@/lib/download-file";
+import { getFeedbackTypeLabel } from "@/lib/constants";
+import type {
+  AcaWorksheet,
+  AcaWorksheetKnowingYourAirman,
+  AcaWorksheetLevel,
+  AcaWorksheetRating,
+  Rank,
+  SupervisorFeedback,
+} from "@/types/database";
+
+const UNRATED = "__unrated";
+
+interface AcaWorksheetDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  feedback: SupervisorFeedback;
+  /** Midterm only: the Initial sheet shown next to each choice */
+  initialFeedback?: SupervisorFeedback | null;
+  rateeRank: Rank | null;
+  memberName: string;
+  onSaved: (worksheet: AcaWorksheet) => void;
+}
+
+function evidenceLabel(item: FeedbackEvidenceItem): string {
+  return [item.action_verb, item.details].filter(Boolean).join(" ");
+}
+
+export function AcaWorksheetDialog({
+  open,
+  onOpenChange,
+  feedback,
+  initialFeedback,
+  rateeRank,
+  memberName,
+  onSaved,
+}: AcaWorksheetDialogProps) {
+  const rubric = getAcaWorksheetRubric(rateeRank);
+  const initialWorksheet =
+    rubric && feedback.feedback_type === "midterm" && initialFeedback?.aca_worksheet
+      ? normalizeAcaWorksheet(initialFeedback.aca_worksheet, rubric)
+      : null;
+
+  const [worksheet, setWorksheet] = useState<AcaWorksheet>(() =>
+    rubric ? normalizeAcaWorksheet(feedback.aca_worksheet, rubric) : createEmptyAcaWorksheet()
+  );
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [evidenceItems, setEvidenceItems] = useState<FeedbackEvidenceItem[]>([]);
+  const [isLoadingEvidence, setIsLoadingEvidence] = useState(false);
+  const evidenceLoadGenRef = useRef(0);
+
+  async function loadEvidence() {
+    const gen = ++evidenceLoadGenRef.current;
+    setIsLoadingEvidence(true);
+    try {
+      const result = await getFeedbackEvidenceAccomplishments(
+        feedback.subordinate_id,
+        feedback.team_member_id,
+        feedback.cycle_year
+      );
+      if (gen !== evidenceLoadGenRef.current) return;
+      if (result.error) {
+        toast.error(result.error);
+        return;
+      }
+      setEvidenceItems(result.data);
+    } finally {
+      if (gen === evidenceLoadGenRef.current) setIsLoadingEvidence(false);
+    }
+  }
+
+  function updateRating(key: string, patch: Partial<AcaWorksheetRating>) {
+    setWorksheet((prev) => {
+      const current = prev.ratings[key] ?? { level: null, evidence_ids: [], note: "" };
+      return { ...prev, ratings: { ...prev.ratings, [key]: { ...current, ...patch } } };
+    });
+    setIsDirty(true);
+  }
+
+  function toggleEvidence(key: string, id: string) {
+    const current = worksheet.ratings[key]?.evidence_ids ?? [];
+    updateRating(key, {
+      evidence_ids: current.includes(id) ? current.filter((e) => e !== id) : [...current, id],
+    });
+  }
+
+  function updateKnowingYourAirman(key: keyof AcaWorksheetKnowingYourAirman, value: string) {
+    setWorksheet((prev) => ({
+      ...prev,
+      knowing_your_airman: { ...prev.knowing_your_airman, [key]: value },
+    }));
+    setIsDirty(true);
+  }
+
+  async function handleSave() {
+    setIsSaving(true);
+    try {
+      const result = await saveFeedbackWorksheet(feedback.id, worksheet);
+      if (result.error || !result.data) {
+        toast.error(result.error || "Failed to save worksheet");
+        return;
+      }
+      setWorksheet(result.data);
+      setIsDirty(false);
+      onSaved(result.data);
+      toast.success("ACA worksheet saved");
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  async function handleExport() {
+    setIsExporting(true);
+    try {
+      await downloadFromApi(
+        `/api/supervisor-feedback/${feedback.id}/worksheet`,
+        `ACA_${feedback.feedback_type}_${feedback.cycle_year}.pdf`
+      );
+    } catch (error) {
+      console.error("Failed to export ACA worksheet:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to export ACA worksheet");
+    } finally {
+      setIsExporting(false);
+    }
+  }
+
+  if (!rubric) return null;
+
+  const levelsByValue = new Map(rubric.levels.map((level) => [level.value, level]));
+  const evidenceById = new Map(evidenceItems.map((item) => [item.id, item]));
+  const { rated, total } = getAcaWorksheetProgress(worksheet, rubric);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="flex max-h-[90dvh] flex-col gap-0 p-0 sm:max-w-3xl"
+        onOpenAutoFocus={() => void loadEvidence()}
+      >
+        <DialogHeader className="shrink-0 space-y-1.5 border-b px-4 py-3 pr-12 text-left sm:px-6">
+          <div className="flex flex-wrap items-center gap-2">
+            <DialogTitle className="flex items-center gap-2 text-base">
+              <ListChecks className="size-5 shrink-0 text-primary" />
+              ACA worksheet
+            </DialogTitle>
+            <Badge variant="outline">{rubric.formLabel}</Badge>
+            <Badge variant="secondary">
+              {rated}/{total} rated
+            </Badge>
+          </div>
+          <DialogDescription className="text-sm">
+            {getFeedbackTypeLabel(feedback.feedback_type)} for{" "}
+            <span className="font-medium text-foreground">
+              {rateeRank ? `${rateeRank} ` : ""}
+              {memberName}
+            </span>
+            {initialWorksheet ? " — Initial choices shown for comparison." : " — private to you."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="min-h-0 flex-1 space-y-6 overflow-y-auto overscroll-contain px-4 py-4 sm:px-6">
+          {rubric.categories.map((category) => (
+            <section key={category.key} className="space-y-3">
+              <div>
+                <h3 className="text-sm font-semibold">{category.title}</h3>
+                <p className="text-xs text-muted-foreground">{category.focus}</p>
+              </div>
+              {Object.entries(category.subcategories).map(([key, subcategory]) => {
+                const rating = worksheet.ratings[key];
+                const level = rating?.level ?? null;
+                const initialLevel = initialWorksheet?.ratings[key]?.level ?? null;
+                const change = initialWorksheet ? compareAcaLevels(level, initialLevel) : null;
+                const evidenceIds = rating?.evidence_ids ?? [];
+                const levelDescription =
+                  level && level !== "not_applicable" ? subcategory.levels[level] : null;
+                return (
+                  <div key={key} className="space-y-2 rounded-lg border p-3">
+                    <div className="flex flex-col gap-2 sm:flex-row sm:items-start sm:justify-between">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium">{subcategory.label}</p>
+                        <p className="text-xs text-muted-foreground">{subcategory.description}</p>
+                      </div>
+                      <div className="flex shrink-0 items-center gap-2">
+                        {initialWorksheet ? (
+                          <Badge variant="outline" className="gap-1 text-[11px]">
+                            Initial: {getAcaLevelLabel(initialLevel)}
+                            {change === "up" ? (
+                              <ArrowUp className="size-3 text-green-600" aria-label="Improved" />
+                            ) : change === "down" ? (
+                              <ArrowDown className="size-3 text-destructive" aria-label="Declined" />
+                            ) : null}
+                          </Badge>
+                        ) : null}
+                        <Select
+                          value={level ?? UNRATED}
+                          onValueChange={(value) =>
+                            updateRating(key, {
+                              level: value === UNRATED ? null : (value as AcaWorksheetLevel),
+                            })
+                          }
+                        >
+                          <SelectTrigger className="h-8 w-44 text-xs" aria-label={`${subcategory.label} level`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={UNRATED}>Not rated</SelectItem>
+                            {rubric.levels.map((option) => (
+                              <SelectItem key={option.value} value={option.value}>
+                                {option.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                    {levelDescription || level === "not_applicable" ? (
+                      <p className="text-xs italic text-muted-foreground">
+                        {levelDescription ?? levelsByValue.get("not_applicable")?.description}
+                      </p>
+                    ) : null}
+                    <div className="flex flex-wrap items-center gap-1.5">
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button
+                            type="button"
+                            variant="outline"
+                            size="sm"
+                            className="h-7 text-xs active:scale-[0.98]"
+                          >
+                            <Paperclip className="mr-1.5 size-3.5" />
+                            Evidence{evidenceIds.length > 0 ? ` (${evidenceIds.length})` : ""}
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="start" className="max-h-72 w-96 overflow-y-auto">
+                          <DropdownMenuLabel className="text-xs">Cycle accomplishments</DropdownMenuLabel>
+                          <DropdownMenuSeparator />
+                          {isLoadingEvidence ? (
+                            <p className="px-2 py-3 text-center text-xs text-muted-foreground">Loading…</p>
+                          ) : evidenceItems.length === 0 ? (
+                            <p className="px-2 py-3 text-center text-xs text-muted-foreground">
+                              No accomplishments logged this cycle yet.
+                            </p>
+                          ) : (
+                            evidenceItems.map((item) => (
+                              <DropdownMenuCheckboxItem
+                                key={item.id}
+                                checked={evidenceIds.includes(item.id)}
+                                onCheckedChange={() => toggleEvidence(key, item.id)}
+                                onSelect={(event) => event.preventDefault()}
+                                className="items-start text-xs"
+                              >
+                                <span className="line-clamp-2">
+                                  <span className="text-muted-foreground">{item.date} · </span>
+                                  {evidenceLabel(item)}
+                                </span>
+                              </DropdownMenuCheckboxItem>
+                            ))
+                          )}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                      {evidenceIds.map((id) => {
+                        const item = evidenceById.get(id);
+                        return (
+                          <Badge key={id} variant="secondary" className="max-w-64 truncate text-[11px]">
+                            {item ? evidenceLabel(item) : "Accomplishment"}
+                          </Badge>
+                        );
+                      })}
+                    </div>
+                    <Input
+                      value={rating?.note ?? ""}
+                      onChange={(e) => updateRating(key, { note: e.target.value })}
+                      placeholder="Rater note (optional)"
+                      className="h-8 text-xs"
+                      aria-label={`${subcategory.label} note`}
+                    />
+                  </div>
+                );
+              })}
+            </section>
+          ))}
+
+          <section className="space-y-3">
+            <div>
+              <h3 className="text-sm font-semibold">
+                Knowing Your Airman ({rubric.knowingYourAirmanSection})
+              </h3>
+              <p className="text-xs text-muted-foreground">
+                Discussion prompts, not an interrogation (AFI 36-2406).
+              </p>
+            </div>
+            {KNOWING_YOUR_AIRMAN_PROMPTS.map((prompt) => (
+              <div key={prompt.key} className="space-y-1.5">
+                <Label htmlFor={`kya-${feedback.id}-${prompt.key}`} className="text-xs">
+                  {prompt.label}
+                </Label>
+                <Textarea
+                  id={`kya-${feedback.id}-${prompt.key}`}
+                  value={worksheet.knowing_your_airman[prompt.key]}
+                  onChange={(e) => updateKnowingYourAirman(prompt.key, e.target.value)}
+                  rows={2}
+                  className="text-sm"
+                />
+              </div>
+            ))}
+          </section>
+        </div>
+
+        <DialogFooter className="shrink-0 gap-2 border-t px-4 py-3 sm:px-6">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => void handleExport()}
+            disabled={isExporting || isDirty || !feedback.aca_worksheet}
+            title={isDirty ? "Save before exporting" : undefined}
+            className="active:scale-[0.98]"
+          >
+            {isExporting ? (
+              <Loader2 className="mr-1.5 size-4 animate-spin" />
+            ) : (
+              <Download className="mr-1.5 size-4" />
+            )}
+            {rubric.formLabel} PDF
+          </Button>
+          <Button
+            type="button"
+            onClick={() => void handleSave()}
+            disabled={isSaving || !isDirty}
+            className="min-w-[7.5rem] active:scale-[0.98]"
+          >
+            {isSaving ? (
+              <>
+                <Loader2 className="mr-2 size-4 animate-spin" />
+                Saving...
+              </>
+            ) : (
+              "Save worksheet"
+            )}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -35,15 +35,20 @@ import { ensurePendingTeamRequest } from "@/lib/team-requests";
 import { useCreditsStore } from "@/stores/credits-store";
 import { Loader2, UserPlus, Link2, AlertCircle } from "lucide-react";
 import type { Rank, ManagedMember, Profile } from "@/types/database";
-import { ENLISTED_RANKS, OFFICER_RANKS, CIVILIAN_RANK, SUPERVISOR_RANKS, isOfficer, isCivilian, isEnlisted } from "@/lib/constants";
+import { OFFICER_RANKS, CIVILIAN_RANK, SUPERVISOR_RANKS, isOfficer, isCivilian, isEnlisted } from "@/lib/constants";
+import { getServiceProfile, resolveServiceForRank } from "@/lib/service-profiles";
 
 // Officers and civilians can assign any subordinate rank; enlisted supervisors are enlisted-only.
-function getAvailableSubordinateRanks(supervisorRank: Rank | null | undefined) {
+// Enlisted grades follow the service (supervisor's, or the member's when their rank settles it)
+function getAvailableSubordinateRanks(
+  supervisorRank: Rank | null | undefined,
+  service: string | null | undefined
+) {
   const canAssignOfficerRanks =
     isOfficer(supervisorRank ?? null) || isCivilian(supervisorRank ?? null);
 
   return {
-    enlisted: ENLISTED_RANKS,
+    enlisted: getServiceProfile(service).enlistedRanks,
     officers: canAssignOfficerRanks ? OFFICER_RANKS : [],
     civilian: CIVILIAN_RANK,
   };
@@ -534,7 +539,10 @@ export function AddManagedMemberDialog({
             <div className="space-y-2">
               <Label htmlFor="rank">Rank</Label>
               {(() => {
-                const availableRanks = getAvailableSubordinateRanks(profile?.rank);
+                const availableRanks = getAvailableSubordinateRanks(
+                  profile?.rank,
+                  resolveServiceForRank(formData.rank || null, profile?.service)
+                );
                 return (
                   <Select
                     value={formData.rank || undefined}
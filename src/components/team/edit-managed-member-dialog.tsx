@@ -42,15 +42,27 @@ import {
 import { searchProfileByEmail } from "@/lib/profile-directory";
 import { ensurePendingTeamRequest } from "@/lib/team-requests";
 import { Loader2, UserCog, Link2, AlertCircle, Copy, Mail } from "lucide-react";
-import type { Rank, ManagedMember } from "@/types/database";
-import { ENLISTED_RANKS, OFFICER_RANKS, CIVILIAN_RANK, isOfficer, isCivilian } from "@/lib/constants";
-
-function getAvailableSubordinateRanks(supervisorRank: Rank | null | undefined) {
+import type { Rank, ManagedMember, EvaluationPeriodFields } from "@/types/database";
+import {
+  OFFICER_RANKS,
+  CIVILIAN_RANK,
+  isOfficer,
+  isCivilian,
+  normalizeEvaluationPeriodFields,
+} from "@/lib/constants";
+import { EvaluationPeriodOverrideFields } from "@/components/evaluation/evaluation-period-override-fields";
+import { getServiceProfile, resolveServiceForRank } from "@/lib/service-profiles";
+
+// Enlisted grades follow the service (supervisor's, or the member's when their rank settles it)
+function getAvailableSubordinateRanks(
+  supervisorRank: Rank | null | undefined,
+  service: string | null | undefined
+) {
   const canAssignOfficerRanks =
     isOfficer(supervisorRank ?? null) || isCivilian(supervisorRank ?? null);
 
   return {
-    enlisted: ENLISTED_RANKS,
+    enlisted: getServiceProfile(service).enlistedRanks,
     officers: canAssignOfficerRanks ? OFFICER_RANKS : [],
     civilian: CIVILIAN_RANK,
   };
@@ -89,6 +101,11 @@ export function EditManagedMemberDialog({
     afsc: "",
     unit: "",
   });
+  const [evalPeriod, setEvalPeriod] = useState<EvaluationPeriodFields>({
+    eval_period_start: null,
+    eval_period_end: null,
+    eval_period_reason: null,
+  });
 
   const supabase = createClient();
 
@@ -102,6 +119,11 @@ export function EditManagedMemberDialog({
         afsc: member.afsc || "",
         unit: member.unit || "",
       });
+      setEvalPeriod({
+        eval_period_start: member.eval_period_start ?? null,
+        eval_period_end: member.eval_period_end ?? null,
+        eval_period_reason: member.eval_period_reason ?? null,
+      });
       setExistingUser(null);
     }
   }, [member]);
@@ -163,6 +185,12 @@ export function EditManagedMemberDialog({
       return;
     }
 
+    const periodError = normalizeEvaluationPeriodFields(evalPeriod).error;
+    if (periodError) {
+      toast.error(periodError);
+      return;
+    }
+
     const newEmail = formData.email.trim().toLowerCase() || null;
     const emailChanged = newEmail !== (member.email?.toLowerCase() || null);
 
@@ -188,12 +216,14 @@ export function EditManagedMemberDialog({
       const emailChanged = newEmail !== (member.email?.toLowerCase() || null);
 
       // Update the team member
+      const evalPeriodData = normalizeEvaluationPeriodFields(evalPeriod).value;
       const updateData = {
         full_name: formData.full_name.trim(),
         email: newEmail,
         rank: formData.rank || null,
         afsc: formData.afsc.trim().toUpperCase() || null,
         unit: formData.unit.trim() || null,
+        ...evalPeriodData,
       };
       
       const { error } = await supabase
@@ -217,6 +247,7 @@ export function EditManagedMemberDialog({
         rank: (formData.rank || null) as Rank | null,
         afsc: formData.afsc.trim().toUpperCase() || null,
         unit: formData.unit.trim() || null,
+        ...evalPeriodData,
       });
 
       let inviteSent = false;
@@ -353,7 +384,10 @@ export function EditManagedMemberDialog({
               <div className="space-y-2">
                 <Label htmlFor="rank">Rank</Label>
                 {(() => {
-                  const availableRanks = getAvailableSubordinateRanks(profile?.rank);
+                  const availableRanks = getAvailableSubordinateRanks(
+                    profile?.rank,
+                    resolveServiceForRank(member?.rank, profile?.service)
+                  );
                   return (
                     <Select
                       value={formData.rank}
@@ -423,6 +457,13 @@ export function EditManagedMemberDialog({
               />
             </div>
 
+            <EvaluationPeriodOverrideFields
+              value={evalPeriod}
+              onChange={setEvalPeriod}
+              idPrefix="managed-eval-period"
+              disabled={isSubmitting}
+            />
+
             <div className="space-y-2">
               <Label htmlFor="email">
                 Email{" "}
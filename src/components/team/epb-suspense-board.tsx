@@ -0,0 +1,119 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { formatEPBWorkflowDue } from "@/lib/epb-workflow";
+import {
+  groupUnitRowsByWorkflow,
+  type UnitMemberRow,
+} from "@/lib/unit-dashboard";
+import { cn } from "@/lib/utils";
+import { AlertTriangle, Loader2, Route } from "lucide-react";
+
+/**
+ * Suspense board for the whole supervision subtree: one column per EPB
+ * routing step, most overdue first.
+ */
+export function EPBSuspenseBoard() {
+  const [rows, setRows] = useState<UnitMemberRow[] | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    void (async () => {
+      try {
+        const response = await fetch("/api/unit-dashboard", { signal: controller.signal });
+        const result = await response.json();
+        if (!response.ok) throw new Error(result.error || "Failed to load suspense board");
+        setRows(result.rows);
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        setLoadError(error instanceof Error ? error.message : "Failed to load suspense board");
+      }
+    })();
+    return () => controller.abort();
+  }, []);
+
+  const columns = useMemo(() => (rows ? groupUnitRowsByWorkflow(rows) : []), [rows]);
+  const overdueCount = rows?.filter((row) => row.workflowOverdue).length ?? 0;
+
+  return (
+    <Card>
+      <CardHeader className="px-3 sm:px-6">
+        <CardTitle className="flex items-center gap-2 text-sm sm:text-base md:text-lg">
+          <Route className="size-4 sm:size-5" />
+          EPB Suspense Board
+          {overdueCount > 0 && (
+            <Badge variant="destructive" className="text-[10px]">
+              {overdueCount} overdue
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription className="text-xs sm:text-sm">
+          Where each EPB in your chain sits in routing, with the suspense for its current step
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="px-3 sm:px-6">
+        {loadError ? (
+          <p className="text-sm text-destructive" role="alert">
+            {loadError}
+          </p>
+        ) : !rows ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="size-4 animate-spin" />
+            Loading suspense board...
+          </div>
+        ) : rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No one in your chain yet.</p>
+        ) : (
+          <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4 xl:grid-cols-7">
+            {columns.map((column) => (
+              <div key={column.state ?? "none"} className="rounded-lg border bg-muted/30 p-2 space-y-2 min-w-0">
+                <div className="flex items-center justify-between gap-2 px-1">
+                  <p className="text-xs font-medium truncate">{column.label}</p>
+                  <Badge variant="secondary" className="h-4 px-1 text-[9px]">
+                    {column.rows.length}
+                  </Badge>
+                </div>
+                {column.rows.map((row) => (
+                  <div
+                    key={row.key}
+                    className={cn(
+                      "rounded-md border bg-card p-2 text-xs space-y-0.5",
+                      row.workflowOverdue && "border-destructive/50"
+                    )}
+                  >
+                    <p className="font-medium truncate">{row.name}</p>
+                    <p className="text-[10px] text-muted-foreground truncate">{row.supervisorName}</p>
+                    {row.workflowDaysUntilDue !== null ? (
+                      <p
+                        className={cn(
+                          "flex items-center gap-1 text-[10px]",
+                          row.workflowOverdue ? "text-destructive font-medium" : "text-muted-foreground"
+                        )}
+                      >
+                        {row.workflowOverdue && <AlertTriangle className="size-3 shrink-0" />}
+                        {formatEPBWorkflowDue({ daysFromNow: row.workflowDaysUntilDue })} · {row.workflowDueDate}
+                      </p>
+                    ) : (
+                      row.scodDate && (
+                        <p className="text-[10px] text-muted-foreground">SCOD {row.scodDate}</p>
+                      )
+                    )}
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -364,6 +364,11 @@ export function ExpectationsFeedbackDialog({
               managedMember={managedMember}
               cycleYear={cycleYear}
               existingFeedback={getFeedbackForType(activeStep) ?? null}
+              initialFeedback={
+                activeStep === "midterm"
+                  ? (getFeedbackForType("initial") ?? null)
+                  : null
+              }
               draftSnapshot={draftCache[activeStep] ?? null}
               onDraftChange={(draft) => {
                 setDraftCache((prev) => ({ ...prev, [activeStep]: draft }));
@@ -22,6 +22,7 @@ import {
   Eye,
   EyeOff,
   FileText,
+  ListChecks,
   Loader2,
   Printer,
   Sparkles,
@@ -50,6 +51,8 @@ import {
 } from "@/lib/feedback-session-guide-templates";
 import { looksLikePackageReviewGuide } from "@/lib/feedback-session-guide-revise";
 import { getFeedbackTypeLabel } from "@/lib/constants";
+import { getAcaWorksheetRubric } from "@/lib/aca-worksheet";
+import { AcaWorksheetDialog } from "@/components/team/aca-worksheet-dialog";
 import { FeedbackAcaStrengthsWeaknesses } from "@/components/team/feedback-aca-strengths-weaknesses";
 import { FeedbackEpbPackagePanel } from "@/components/team/feedback-epb-package-panel";
 import { cn } from "@/lib/utils";
@@ -91,6 +94,8 @@ interface SessionGuidePhaseEditorProps {
   managedMember?: ManagedMember | null;
   cycleYear: number;
   existingFeedback: SupervisorFeedback | null;
+  /** Midterm: the Initial feedback, for the worksheet comparison */
+  initialFeedback?: SupervisorFeedback | null;
   evidenceItems?: FeedbackEvidenceItem[];
   evidenceTruncated?: boolean;
   evidenceError?: string | null;
@@ -112,6 +117,7 @@ export function SessionGuidePhaseEditor({
   managedMember,
   cycleYear,
   existingFeedback,
+  initialFeedback = null,
   evidenceItems = [],
   evidenceTruncated = false,
   evidenceError = null,
@@ -133,6 +139,7 @@ export function SessionGuidePhaseEditor({
   const teamMemberId = managedMember?.id || null;
   const canShare = !!subordinateId;
   const formLabel = getFeedbackGuideFormLabel(memberRank);
+  const hasWorksheet = !!getAcaWorksheetRubric(memberRank);
   const defaultTemplate = getDefaultFeedbackSessionGuide(feedbackType, memberRank);
   const isEvidencePhase =
     feedbackType === "midterm" || feedbackType === "final";
@@ -172,6 +179,7 @@ export function SessionGuidePhaseEditor({
   const [showShareConfirm, setShowShareConfirm] = useState(false);
   const [showTemplateConfirm, setShowTemplateConfirm] = useState(false);
   const [copied, setCopied] = useState(false);
+  const [showWorksheet, setShowWorksheet] = useState(false);
 
   const [activePane, setActivePane] = useState<"settings" | "guide">(() => {
     if (draftSnapshot) return draftSnapshot.activePane;
@@ -310,6 +318,7 @@ export function SessionGuidePhaseEditor({
         supervision_end_date: null,
         created_at: new Date().toISOString(),
         reviewed_accomplishment_ids: reviewedIds,
+        aca_worksheet: null,
       }),
       id: result.data.id,
       content: content.trim(),
@@ -1069,6 +1078,20 @@ export function SessionGuidePhaseEditor({
               <Printer className="mr-1.5 size-3.5" />
               Print
             </Button>
+            {hasWorksheet ? (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() => setShowWorksheet(true)}
+                disabled={!feedback}
+                title={!feedback ? "Save a draft to start the worksheet" : undefined}
+                className="active:scale-[0.98]"
+              >
+                <ListChecks className="mr-1.5 size-3.5" />
+                Worksheet
+              </Button>
+            ) : null}
           </div>
           <div className="flex w-full flex-col gap-2 sm:ml-auto sm:w-auto sm:flex-row sm:items-center">
             <div className="flex min-h-10 min-w-[10rem] items-center justify-stretch sm:justify-end">
@@ -1132,6 +1155,18 @@ export function SessionGuidePhaseEditor({
         </div>
       </div>
 
+      {feedback && showWorksheet ? (
+        <AcaWorksheetDialog
+          open={showWorksheet}
+          onOpenChange={setShowWorksheet}
+          feedback={feedback}
+          initialFeedback={initialFeedback}
+          rateeRank={memberRank}
+          memberName={memberName}
+          onSaved={(worksheet) => syncFeedback({ ...feedback, aca_worksheet: worksheet })}
+        />
+      ) : null}
+
       <AlertDialog open={showTemplateConfirm} onOpenChange={setShowTemplateConfirm}>
         <AlertDialogContent>
           <AlertDialogHeader>
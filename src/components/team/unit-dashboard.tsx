@@ -0,0 +1,366 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "@/components/ui/sonner";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ACA_PORTFOLIO_MPA_KEYS } from "@/lib/cycle-portfolio";
+import { MPA_ABBREVIATIONS } from "@/lib/constants";
+import { downloadFromApi } from "@/lib/download-file";
+import { formatEPBWorkflowDue, getEPBWorkflowStep } from "@/lib/epb-workflow";
+import {
+  UNIT_DASHBOARD_SECTIONS,
+  UNIT_DUE_SOON_DAYS,
+  formatOutstandingFeedback,
+  getUnitDashboardCsvFileName,
+  groupUnitRows,
+  summarizeUnitTotals,
+  type UnitDashboardGroupBy,
+  type UnitDashboardTotals,
+  type UnitMemberRow,
+  type UnitSectionStatus,
+} from "@/lib/unit-dashboard";
+import { cn } from "@/lib/utils";
+import { ArrowLeft, Download, Gauge, Loader2 } from "lucide-react";
+
+const ALL_GROUPS = "all";
+
+const SECTION_STATUS_STYLES: Record<UnitSectionStatus, string> = {
+  complete: "bg-green-500/15 text-green-700 dark:text-green-400 border-green-500/30",
+  drafted: "bg-amber-500/15 text-amber-700 dark:text-amber-400 border-amber-500/30",
+  empty: "text-muted-foreground",
+};
+
+const SECTION_STATUS_LABELS: Record<UnitSectionStatus, string> = {
+  complete: "Complete",
+  drafted: "Drafted",
+  empty: "Not started",
+};
+
+function formatPercent(value: number | null): string {
+  return value === null ? "—" : `${value}%`;
+}
+
+function scodTone(days: number | null): string {
+  if (days === null) return "text-muted-foreground";
+  if (days < 0) return "text-destructive font-medium";
+  if (days <= UNIT_DUE_SOON_DAYS) return "text-amber-600 dark:text-amber-400 font-medium";
+  return "";
+}
+
+function TotalsGrid({ totals }: { totals: UnitDashboardTotals }) {
+  const stats = [
+    { label: "Members", value: totals.memberCount.toString() },
+    {
+      label: "Entries",
+      value: totals.acaEntryCount.toString(),
+      detail: ACA_PORTFOLIO_MPA_KEYS.map(
+        (key) => `${MPA_ABBREVIATIONS[key]} ${totals.entriesPerMpa[key]}`
+      ).join(" · "),
+    },
+    { label: "Assessed", value: formatPercent(totals.assessedShare) },
+    {
+      label: "Avg quality",
+      value: totals.avgQuality === null ? "—" : totals.avgQuality.toString(),
+    },
+    {
+      label: "Shell completion",
+      value: formatPercent(totals.avgShellCompletion),
+      detail: `${totals.shellCount} of ${totals.memberCount} started`,
+    },
+    {
+      label: `SCOD ≤ ${UNIT_DUE_SOON_DAYS} days`,
+      value: totals.dueSoonCount.toString(),
+    },
+    {
+      label: "Feedback owed",
+      value: totals.outstandingFeedbackCount.toString(),
+    },
+    {
+      label: "Routing overdue",
+      value: totals.overdueCount.toString(),
+    },
+  ];
+
+  return (
+    <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-8 gap-3">
+      {stats.map((stat) => (
+        <div key={stat.label} className="rounded-lg border bg-card p-3">
+          <p className="text-xs text-muted-foreground">{stat.label}</p>
+          <p className="text-xl font-semibold tabular-nums">{stat.value}</p>
+          {stat.detail && (
+            <p className="text-[10px] text-muted-foreground truncate">{stat.detail}</p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function MemberTable({ rows, groupBy }: { rows: UnitMemberRow[]; groupBy: UnitDashboardGroupBy }) {
+  return (
+    <div className="overflow-x-auto">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Member</TableHead>
+            <TableHead>{groupBy === "flight" ? "Supervisor" : "Flight"}</TableHead>
+            {ACA_PORTFOLIO_MPA_KEYS.map((key) => (
+              <TableHead key={key} className="text-right">
+                {MPA_ABBREVIATIONS[key]}
+              </TableHead>
+            ))}
+            <TableHead className="text-right">Assessed</TableHead>
+            <TableHead className="text-right">Quality</TableHead>
+            <TableHead>Shell</TableHead>
+            <TableHead>Routing</TableHead>
+            <TableHead>SCOD</TableHead>
+            <TableHead>Feedback owed</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.map((row) => (
+            <TableRow key={row.key}>
+              <TableCell className="font-medium whitespace-nowrap">{row.name}</TableCell>
+              <TableCell className="text-muted-foreground whitespace-nowrap">
+                {groupBy === "flight" ? row.supervisorName : row.flightName}
+              </TableCell>
+              {ACA_PORTFOLIO_MPA_KEYS.map((key) => (
+                <TableCell key={key} className="text-right tabular-nums">
+                  {row.entriesPerMpa[key]}
+                </TableCell>
+              ))}
+              <TableCell className="text-right tabular-nums">
+                {formatPercent(row.assessedShare)}
+              </TableCell>
+              <TableCell className="text-right tabular-nums">
+                {row.avgQuality ?? "—"}
+              </TableCell>
+              <TableCell>
+                {row.hasShell ? (
+                  <div className="flex items-center gap-1">
+                    {UNIT_DASHBOARD_SECTIONS.map((section) => (
+                      <Badge
+                        key={section.key}
+                        variant="outline"
+                        title={`${section.label}: ${SECTION_STATUS_LABELS[row.sections[section.key]]}`}
+                        className={cn("px-1.5 text-[10px]", SECTION_STATUS_STYLES[row.sections[section.key]])}
+                      >
+                        {section.shortLabel}
+                      </Badge>
+                    ))}
+                    <span className="ml-1 text-xs tabular-nums text-muted-foreground">
+                      {formatPercent(row.shellCompletion)}
+                    </span>
+                  </div>
+                ) : (
+                  <span className="text-xs text-muted-foreground">No shell</span>
+                )}
+              </TableCell>
+              <TableCell className="whitespace-nowrap">
+                {row.workflowState ? (
+                  <>
+                    <span>{getEPBWorkflowStep(row.workflowState).label}</span>
+                    {row.workflowDaysUntilDue !== null && (
+                      <span
+                        className={cn(
+                          "block text-xs",
+                          row.workflowOverdue ? "text-destructive font-medium" : "text-muted-foreground"
+                        )}
+                      >
+                        {formatEPBWorkflowDue({ daysFromNow: row.workflowDaysUntilDue })}
+                      </span>
+                    )}
+                  </>
+                ) : (
+                  <span className="text-muted-foreground">—</span>
+                )}
+              </TableCell>
+              <TableCell className="whitespace-nowrap">
+                {row.scodDate ? (
+                  <>
+                    <span>{row.scodDate}</span>{" "}
+                    <span className={cn("text-xs", scodTone(row.daysUntilScod))}>
+                      {row.daysUntilScod !== null && row.daysUntilScod < 0
+                        ? `${Math.abs(row.daysUntilScod)}d past`
+                        : `${row.daysUntilScod}d`}
+                    </span>
+                  </>
+                ) : (
+                  <span className="text-muted-foreground">—</span>
+                )}
+              </TableCell>
+              <TableCell className="text-sm whitespace-nowrap">
+                {row.outstandingFeedback.length > 0 ? (
+                  formatOutstandingFeedback(row.outstandingFeedback)
+                ) : (
+                  <span className="text-muted-foreground">None</span>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+/**
+ * EPB readiness across the viewer's whole supervision subtree, grouped by
+ * flight or supervisor, with a CSV export of the rows in view.
+ */
+export function UnitDashboard({ rows }: { rows: UnitMemberRow[] }) {
+  const [groupBy, setGroupBy] = useState<UnitDashboardGroupBy>("flight");
+  const [groupKey, setGroupKey] = useState(ALL_GROUPS);
+  const [isExporting, setIsExporting] = useState(false);
+
+  const groups = useMemo(() => groupUnitRows(rows, groupBy), [rows, groupBy]);
+  const visibleGroups = useMemo(
+    () => (groupKey === ALL_GROUPS ? groups : groups.filter((group) => group.key === groupKey)),
+    [groups, groupKey]
+  );
+  const totals = useMemo(
+    () => summarizeUnitTotals(visibleGroups.flatMap((group) => group.rows)),
+    [visibleGroups]
+  );
+
+  function handleGroupByChange(value: string) {
+    setGroupBy(value as UnitDashboardGroupBy);
+    setGroupKey(ALL_GROUPS);
+  }
+
+  async function handleExport() {
+    setIsExporting(true);
+    try {
+      const params = new URLSearchParams({ groupBy });
+      if (groupKey !== ALL_GROUPS) params.set("group", groupKey);
+      await downloadFromApi(
+        `/api/unit-dashboard/export?${params.toString()}`,
+        getUnitDashboardCsvFileName()
+      );
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to export unit dashboard");
+    } finally {
+      setIsExporting(false);
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4">
+        <div className="space-y-1 min-w-0">
+          <Button variant="ghost" size="sm" asChild className="-ml-2 h-7 text-muted-foreground">
+            <Link href="/team">
+              <ArrowLeft className="size-4 mr-1" />
+              My Team
+            </Link>
+          </Button>
+          <h1 className="text-xl sm:text-2xl font-bold tracking-tight">Unit Dashboard</h1>
+          <p className="text-sm sm:text-base text-muted-foreground">
+            EPB readiness for everyone in your supervision chain, including managed members
+          </p>
+        </div>
+        {rows.length > 0 && (
+          <Button
+            variant="outline"
+            className="w-full sm:w-auto shrink-0"
+            disabled={isExporting}
+            onClick={handleExport}
+          >
+            {isExporting ? (
+              <Loader2 className="size-4 mr-2 animate-spin" />
+            ) : (
+              <Download className="size-4 mr-2" />
+            )}
+            Export CSV
+          </Button>
+        )}
+      </div>
+
+      {rows.length === 0 ? (
+        <Card>
+          <CardContent className="flex flex-col items-center gap-2 py-12 text-center">
+            <Gauge className="size-8 text-muted-foreground" />
+            <p className="font-medium">No one reports to you yet</p>
+            <p className="text-sm text-muted-foreground">
+              Link subordinates or add managed members on My Team to see their readiness here.
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Select value={groupBy} onValueChange={handleGroupByChange}>
+              <SelectTrigger className="w-full sm:w-44" aria-label="Group by">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="flight">By flight</SelectItem>
+                <SelectItem value="supervisor">By supervisor</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={groupKey} onValueChange={setGroupKey}>
+              <SelectTrigger className="w-full sm:w-64" aria-label={groupBy === "flight" ? "Flight" : "Supervisor"}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_GROUPS}>
+                  {groupBy === "flight" ? "All flights" : "All supervisors"}
+                </SelectItem>
+                {groups.map((group) => (
+                  <SelectItem key={group.key} value={group.key}>
+                    {group.name} ({group.totals.memberCount})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <TotalsGrid totals={totals} />
+
+          {visibleGroups.map((group) => (
+            <Card key={group.key}>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base">
+                  {groupBy === "flight" ? `${group.name}'s flight` : `Supervised by ${group.name}`}
+                </CardTitle>
+                <CardDescription>
+                  {group.totals.memberCount} member{group.totals.memberCount === 1 ? "" : "s"} ·{" "}
+                  {formatPercent(group.totals.assessedShare)} assessed · shells{" "}
+                  {formatPercent(group.totals.avgShellCompletion)} complete ·{" "}
+                  {group.totals.outstandingFeedbackCount} feedback owed
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <MemberTable rows={group.rows} groupBy={groupBy} />
+              </CardContent>
+            </Card>
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
@@ -211,7 +211,7 @@ const CLOSING_TEMPLATES: Record<DecorationReason | "default", { distinctive: str
  * Common DAF-APPROVED abbreviations that CAN be used:
  * NCO, SNCO, TDY, DoD, ISR, EOD, CBRN, OIC, NCOIC
  */
-const ABBREVIATIONS_TO_EXPAND: Record<string, string> = {
+export const ABBREVIATIONS_TO_EXPAND: Record<string, string> = {
   "USAF": "United States Air Force",
   "USSF": "United States Space Force",
   "DoD": "Department of Defense",
@@ -244,6 +244,11 @@ const ABBREVIATIONS_TO_EXPAND: Record<string, string> = {
   "MSgt": "Master Sergeant",
   "SMSgt": "Senior Master Sergeant",
   "CMSgt": "Chief Master Sergeant",
+  "Spc1": "Specialist 1",
+  "Spc2": "Specialist 2",
+  "Spc3": "Specialist 3",
+  "Spc4": "Specialist 4",
+  "Sgt": "Sergeant",
   "2d Lt": "Second Lieutenant",
   "1st Lt": "First Lieutenant",
   "Capt": "Captain",
@@ -315,8 +320,8 @@ export const RANK_VERBS: Record<string, { primary: string[]; secondary: string[]
 
 // Get verb category based on rank
 export function getVerbCategory(rank: string): keyof typeof RANK_VERBS {
-  const juniorEnlisted = ["AB", "Amn", "A1C", "SrA"];
-  const nco = ["SSgt", "TSgt"];
+  const juniorEnlisted = ["AB", "Amn", "A1C", "SrA", "Spc1", "Spc2", "Spc3", "Spc4"];
+  const nco = ["SSgt", "Sgt", "TSgt"];
   const snco = ["MSgt", "SMSgt", "CMSgt"];
   const cgo = ["2d Lt", "1st Lt", "Capt"];
   const fgo = ["Maj", "Lt Col", "Col", "Brig Gen", "Maj Gen", "Lt Gen", "Gen"];
@@ -0,0 +1,133 @@
+/**
+ * Line-fit model for decoration citations typed in Courier New.
+ *
+ * MyDecs Reimagined checks citations against a character limit at 11pt, but
+ * some approval chains still hold packages to the legacy line counts at 12pt
+ * or 10pt (`maxLines12pt` / `maxLines10pt`). The layout comes from the
+ * monospace engine in bullet-fitting.ts so the preview and exports agree.
+ */
+
+import { getMonospaceCharsPerLine, getMonospaceLineSegments, type MonospaceLineSegment } from "@/lib/bullet-fitting";
+import { RANKS } from "@/lib/constants";
+import { ABBREVIATIONS_TO_EXPAND } from "./constants";
+import type { DecorationConfig } from "./types";
+
+export type CitationFontSize = 10 | 11 | 12;
+
+export const CITATION_FONT_SIZE_OPTIONS: { value: CitationFontSize; label: string; description: string }[] = [
+  { value: 11, label: "11pt", description: "MyDecs Reimagined (character limit)" },
+  { value: 12, label: "12pt", description: "Legacy line limit" },
+  { value: 10, label: "10pt", description: "Legacy line limit" },
+];
+
+export interface CitationLineFit {
+  fontSize: CitationFontSize;
+  charsPerLine: number;
+  lines: MonospaceLineSegment[];
+  lineCount: number;
+  /** Legacy line limit for 12pt/10pt; null at 11pt, where only characters count. */
+  maxLines: number | null;
+  overflowLineCount: number;
+  charCount: number;
+  maxCharacters: number;
+  isOverCharacters: boolean;
+}
+
+/** Legacy line limit the chosen font size is held to, if any. */
+export function getCitationLineLimit(
+  config: Pick<DecorationConfig, "maxLines12pt" | "maxLines10pt"> | undefined,
+  fontSize: CitationFontSize,
+): number | null {
+  if (fontSize === 12) return config?.maxLines12pt ?? null;
+  if (fontSize === 10) return config?.maxLines10pt ?? null;
+  return null;
+}
+
+export function analyzeCitationLineFit(
+  text: string,
+  config: Pick<DecorationConfig, "maxCharacters" | "maxLines12pt" | "maxLines10pt"> | undefined,
+  fontSize: CitationFontSize = 11,
+): CitationLineFit {
+  const charsPerLine = getMonospaceCharsPerLine(fontSize);
+  const maxLines = getCitationLineLimit(config, fontSize);
+  const lines = getMonospaceLineSegments(text, charsPerLine, maxLines);
+  const maxCharacters = config?.maxCharacters ?? 1350;
+  const charCount = text.trim().length;
+
+  return {
+    fontSize,
+    charsPerLine,
+    lines,
+    lineCount: lines.length,
+    maxLines,
+    overflowLineCount: lines.filter((line) => line.isOverflow).length,
+    charCount,
+    maxCharacters,
+    isOverCharacters: charCount > maxCharacters,
+  };
+}
+
+export interface CitationCompression {
+  phrase: string;
+  abbreviation: string;
+  occurrences: number;
+  savedCharacters: number;
+}
+
+// Ranks and names are never abbreviated, and the closing sentence and
+// installation names keep the service spelled out
+const NEVER_ABBREVIATE = new Set<string>([
+  ...RANKS.map((r) => r.value),
+  "1st Sgt",
+  "USAF",
+  "USSF",
+  "AFB",
+  "SFB",
+]);
+
+/** Spelled-out phrase → DAF-approved abbreviation, longest phrases first. */
+export const CITATION_ABBREVIATIONS: { phrase: string; abbreviation: string }[] = Object.entries(
+  ABBREVIATIONS_TO_EXPAND,
+)
+  .filter(([abbreviation]) => !NEVER_ABBREVIATE.has(abbreviation))
+  .map(([abbreviation, phrase]) => ({ phrase, abbreviation }))
+  .sort((a, b) => b.phrase.length - a.phrase.length);
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Approved abbreviations that would shorten the citation, biggest savings
+ * first. Longer phrases claim their text first so "Senior Noncommissioned
+ * Officer" is not also counted as "Noncommissioned Officer".
+ */
+export function suggestCitationCompressions(text: string): CitationCompression[] {
+  let remaining = text;
+  const suggestions: CitationCompression[] = [];
+
+  for (const { phrase, abbreviation } of CITATION_ABBREVIATIONS) {
+    const pattern = new RegExp(`\\b${escapeRegExp(phrase)}\\b`, "gi");
+    const occurrences = remaining.match(pattern)?.length ?? 0;
+    if (occurrences === 0) continue;
+
+    const savedCharacters = (phrase.length - abbreviation.length) * occurrences;
+    if (savedCharacters <= 0) continue;
+
+    suggestions.push({ phrase, abbreviation, occurrences, savedCharacters });
+    remaining = remaining.replace(pattern, " ");
+  }
+
+  return suggestions.sort((a, b) => b.savedCharacters - a.savedCharacters);
+}
+
+/** Apply one suggestion to every occurrence of its phrase. */
+export function applyCitationCompression(
+  text: string,
+  compression: Pick<CitationCompression, "phrase" | "abbreviation">,
+): string {
+  return text.replace(
+    new RegExp(`\\b${escapeRegExp(compression.phrase)}\\b`, "gi"),
+    compression.abbreviation,
+  );
+}
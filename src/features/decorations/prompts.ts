@@ -17,7 +17,7 @@ import { DECORATION_TYPES, RANK_VERBS, getVerbCategory } from "./constants";
  * "26 February 2025". No leading zeros on the day per DAFMAN 36-2806.
  * Falls back to the original string if parsing fails.
  */
-function formatCitationDate(dateStr: string | undefined): string {
+export function formatCitationDate(dateStr: string | undefined): string {
   if (!dateStr) return "";
   const parsed = new Date(dateStr + "T00:00:00");
   if (isNaN(parsed.getTime())) return dateStr;
@@ -28,7 +28,7 @@ function formatCitationDate(dateStr: string | undefined): string {
 }
 
 export function buildDecorationSystemPrompt(params: DecorationPromptParams): string {
-  const config = DECORATION_TYPES.find(d => d.key === params.awardType);
+  const config = params.decorationConfig ?? DECORATION_TYPES.find(d => d.key === params.awardType);
   if (!config) throw new Error(`Unknown award type: ${params.awardType}`);
   
   // MyDecs Reimagined: 1350 character limit for MSM, AFCM, AFAM
@@ -41,7 +41,7 @@ export function buildDecorationSystemPrompt(params: DecorationPromptParams): str
   // Get short rank title for narrative
   const shortRank = getShortRank(params.rank);
   
-  return `You are an expert Air Force decoration citation writer with extensive knowledge of DAFMAN 36-2806 and MyDecs Reimagined (October 2022+). Generate a ${config.name} (${config.abbreviation}) citation.
+  return `You are an expert ${params.serviceName ?? "Air Force"} decoration citation writer with extensive knowledge of DAFMAN 36-2806 and MyDecs Reimagined (October 2022+). Generate a ${config.name} (${config.abbreviation}) citation.
 
 ## CITATION REQUIREMENTS
 
@@ -73,7 +73,7 @@ export function buildDecorationSystemPrompt(params: DecorationPromptParams): str
    - By default, spell out ALL abbreviations and acronyms in full. Decoration citations must be readable by anyone.
    - WRONG: "DHA", "GSU", "C2", "AOR", "ex", "sq"
    - RIGHT: "Defense Health Agency", "Geographically Separated Unit", "Command and Control", "Area of Responsibility", "exercise", "squadron"
-   - Always acceptable without spelling out: "U.S.", "DoD", "Department of Defense", "Air Force", "IT"
+   - Always acceptable without spelling out: "U.S.", "DoD", "Department of Defense", "Air Force", "Space Force", "IT"
    - NEVER abbreviate member's rank or name
    - NEVER copy office symbols or source identifiers (e.g., "SCOL", "SCOO") into the citation — replace with the member's rank and name
 ${params.approvedAbbreviations ? `   - **USER-APPROVED ABBREVIATIONS** — You MAY use these abbreviations in the citation: ${params.approvedAbbreviations}` : ""}
@@ -178,47 +178,48 @@ function getClosingTemplate(
   const lastName = getLastName(params.fullName);
   const pronoun = params.gender === "female" ? "herself" : "himself";
   const possessive = params.gender === "female" ? "her" : "his";
+  const service = params.serviceFullName ?? "United States Air Force";
   
   const closings: Record<DecorationReason, Record<string, string>> = {
     meritorious_service: {
-      distinctive: `The distinctive accomplishments of ${shortRank} ${lastName} reflect credit upon ${pronoun} and the United States Air Force.`,
-      singularly_distinctive: `The singularly distinctive accomplishments of ${shortRank} ${lastName} reflect great credit upon ${pronoun} and the United States Air Force.`,
-      exceptionally_meritorious: `The exceptionally meritorious accomplishments of ${shortRank} ${lastName} reflect great credit upon ${pronoun} and the United States Air Force.`,
+      distinctive: `The distinctive accomplishments of ${shortRank} ${lastName} reflect credit upon ${pronoun} and the ${service}.`,
+      singularly_distinctive: `The singularly distinctive accomplishments of ${shortRank} ${lastName} reflect great credit upon ${pronoun} and the ${service}.`,
+      exceptionally_meritorious: `The exceptionally meritorious accomplishments of ${shortRank} ${lastName} reflect great credit upon ${pronoun} and the ${service}.`,
     },
     outstanding_achievement: {
-      distinctive: `The distinctive accomplishments of ${shortRank} ${lastName} reflect credit upon ${pronoun} and the United States Air Force.`,
-      singularly_distinctive: `The singularly distinctive accomplishments of ${shortRank} ${lastName} reflect great credit upon ${pronoun} and the United States Air Force.`,
-      exceptionally_meritorious: `The exceptionally meritorious accomplishments of ${shortRank} ${lastName} reflect great credit upon ${pronoun} and the United States Air Force.`,
+      distinctive: `The distinctive accomplishments of ${shortRank} ${lastName} reflect credit upon ${pronoun} and the ${service}.`,
+      singularly_distinctive: `The singularly distinctive accomplishments of ${shortRank} ${lastName} reflect great credit upon ${pronoun} and the ${service}.`,
+      exceptionally_meritorious: `The exceptionally meritorious accomplishments of ${shortRank} ${lastName} reflect great credit upon ${pronoun} and the ${service}.`,
     },
     retirement: {
-      distinctive: `The distinctive accomplishments of ${shortRank} ${lastName} culminate a distinguished career in the service of ${possessive} country and reflect credit upon ${pronoun} and the United States Air Force.`,
-      singularly_distinctive: `The singularly distinctive accomplishments of ${shortRank} ${lastName} culminate a long and distinguished career in the service of ${possessive} country and reflect great credit upon ${pronoun} and the United States Air Force.`,
-      exceptionally_meritorious: `The singularly distinctive accomplishments of ${shortRank} ${lastName} culminate a long and distinguished career in the service of ${possessive} country and reflect great credit upon ${pronoun} and the United States Air Force.`,
+      distinctive: `The distinctive accomplishments of ${shortRank} ${lastName} culminate a distinguished career in the service of ${possessive} country and reflect credit upon ${pronoun} and the ${service}.`,
+      singularly_distinctive: `The singularly distinctive accomplishments of ${shortRank} ${lastName} culminate a long and distinguished career in the service of ${possessive} country and reflect great credit upon ${pronoun} and the ${service}.`,
+      exceptionally_meritorious: `The singularly distinctive accomplishments of ${shortRank} ${lastName} culminate a long and distinguished career in the service of ${possessive} country and reflect great credit upon ${pronoun} and the ${service}.`,
     },
     separation: {
-      distinctive: `The distinctive accomplishments of ${shortRank} ${lastName} while serving ${possessive} country reflect credit upon ${pronoun} and the United States Air Force.`,
-      singularly_distinctive: `The singularly distinctive accomplishments of ${shortRank} ${lastName} while serving ${possessive} country reflect great credit upon ${pronoun} and the United States Air Force.`,
-      exceptionally_meritorious: `The singularly distinctive accomplishments of ${shortRank} ${lastName} while serving ${possessive} country reflect great credit upon ${pronoun} and the United States Air Force.`,
+      distinctive: `The distinctive accomplishments of ${shortRank} ${lastName} while serving ${possessive} country reflect credit upon ${pronoun} and the ${service}.`,
+      singularly_distinctive: `The singularly distinctive accomplishments of ${shortRank} ${lastName} while serving ${possessive} country reflect great credit upon ${pronoun} and the ${service}.`,
+      exceptionally_meritorious: `The singularly distinctive accomplishments of ${shortRank} ${lastName} while serving ${possessive} country reflect great credit upon ${pronoun} and the ${service}.`,
     },
     posthumous: {
-      distinctive: `The distinctive accomplishments of ${shortRank} ${lastName} in the dedication of ${possessive} service to ${possessive} country reflect credit upon ${pronoun} and the United States Air Force.`,
-      singularly_distinctive: `The singularly distinctive accomplishments of ${shortRank} ${lastName} in the dedication of ${possessive} service to ${possessive} country reflect great credit upon ${pronoun} and the United States Air Force.`,
-      exceptionally_meritorious: `The singularly distinctive accomplishments of ${shortRank} ${lastName} in the dedication of ${possessive} service to ${possessive} country reflect great credit upon ${pronoun} and the United States Air Force.`,
+      distinctive: `The distinctive accomplishments of ${shortRank} ${lastName} in the dedication of ${possessive} service to ${possessive} country reflect credit upon ${pronoun} and the ${service}.`,
+      singularly_distinctive: `The singularly distinctive accomplishments of ${shortRank} ${lastName} in the dedication of ${possessive} service to ${possessive} country reflect great credit upon ${pronoun} and the ${service}.`,
+      exceptionally_meritorious: `The singularly distinctive accomplishments of ${shortRank} ${lastName} in the dedication of ${possessive} service to ${possessive} country reflect great credit upon ${pronoun} and the ${service}.`,
     },
     act_of_courage: {
-      distinctive: `By ${possessive} prompt action and humanitarian regard for ${possessive} fellowman, ${shortRank} ${lastName} has reflected credit upon ${pronoun} and the United States Air Force.`,
-      singularly_distinctive: `By ${possessive} prompt action and humanitarian regard for ${possessive} fellowman, ${shortRank} ${lastName} has reflected great credit upon ${pronoun} and the United States Air Force.`,
-      exceptionally_meritorious: `By ${possessive} prompt action and humanitarian regard for ${possessive} fellowman, ${shortRank} ${lastName} has reflected great credit upon ${pronoun} and the United States Air Force.`,
+      distinctive: `By ${possessive} prompt action and humanitarian regard for ${possessive} fellowman, ${shortRank} ${lastName} has reflected credit upon ${pronoun} and the ${service}.`,
+      singularly_distinctive: `By ${possessive} prompt action and humanitarian regard for ${possessive} fellowman, ${shortRank} ${lastName} has reflected great credit upon ${pronoun} and the ${service}.`,
+      exceptionally_meritorious: `By ${possessive} prompt action and humanitarian regard for ${possessive} fellowman, ${shortRank} ${lastName} has reflected great credit upon ${pronoun} and the ${service}.`,
     },
     combat_meritorious: {
-      distinctive: `The distinctive accomplishments of ${shortRank} ${lastName} reflect credit upon ${pronoun} and the United States Air Force.`,
-      singularly_distinctive: `The singularly distinctive accomplishments of ${shortRank} ${lastName} reflect great credit upon ${pronoun} and the United States Air Force.`,
-      exceptionally_meritorious: `${shortRank} ${lastName}'s extraordinary professionalism, dedication, and courage reflect great credit upon ${pronoun} and the United States Air Force.`,
+      distinctive: `The distinctive accomplishments of ${shortRank} ${lastName} reflect credit upon ${pronoun} and the ${service}.`,
+      singularly_distinctive: `The singularly distinctive accomplishments of ${shortRank} ${lastName} reflect great credit upon ${pronoun} and the ${service}.`,
+      exceptionally_meritorious: `${shortRank} ${lastName}'s extraordinary professionalism, dedication, and courage reflect great credit upon ${pronoun} and the ${service}.`,
     },
     combat_valor: {
-      distinctive: `${shortRank} ${lastName}'s heroic actions reflect credit upon ${pronoun} and the United States Air Force.`,
-      singularly_distinctive: `${shortRank} ${lastName}'s heroic actions reflect great credit upon ${pronoun} and the United States Air Force.`,
-      exceptionally_meritorious: `${shortRank} ${lastName}'s heroic actions in the face of the enemy reflect great credit upon ${pronoun}, upholding the highest traditions of the United States Air Force.`,
+      distinctive: `${shortRank} ${lastName}'s heroic actions reflect credit upon ${pronoun} and the ${service}.`,
+      singularly_distinctive: `${shortRank} ${lastName}'s heroic actions reflect great credit upon ${pronoun} and the ${service}.`,
+      exceptionally_meritorious: `${shortRank} ${lastName}'s heroic actions in the face of the enemy reflect great credit upon ${pronoun}, upholding the highest traditions of the ${service}.`,
     },
   };
   
@@ -246,6 +247,16 @@ function getShortRank(rank: string): string {
     "SMSgt": "Sergeant",
     "Chief Master Sergeant": "Chief",
     "CMSgt": "Chief",
+    "Specialist 1": "Specialist",
+    "Spc1": "Specialist",
+    "Specialist 2": "Specialist",
+    "Spc2": "Specialist",
+    "Specialist 3": "Specialist",
+    "Spc3": "Specialist",
+    "Specialist 4": "Specialist",
+    "Spc4": "Specialist",
+    "Sergeant": "Sergeant",
+    "Sgt": "Sergeant",
     "Second Lieutenant": "Lieutenant",
     "2d Lt": "Lieutenant",
     "First Lieutenant": "Lieutenant",
@@ -54,6 +54,12 @@ export interface DecorationPromptParams {
   maxCharacters?: number;
   /** User-defined approved abbreviations for this citation (e.g., '"Command and Control" → "C2"') */
   approvedAbbreviations?: string;
+  /** Service-specific award config (e.g. Space Force medal names); defaults to DECORATION_TYPES */
+  decorationConfig?: DecorationConfig;
+  /** Short service name for the writer persona (default "Air Force") */
+  serviceName?: string;
+  /** Full service name used in the closing sentence (default "United States Air Force") */
+  serviceFullName?: string;
 }
 
 export interface GenerateDecorationRequest {
@@ -0,0 +1,414 @@
+"use client";
+
+/**
+ * Concurrent editing for EPB statements and the duty description. Each field is
+ * a CollabTextDoc (see lib/collab-text) whose ops ride a realtime cursor channel,
+ * so several people can type into the same field at once and converge without
+ * taking a lock. Section/field locks are only the fallback while it's down.
+ */
+
+import { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState, type RefObject } from "react";
+import { CollabTextDoc, type CollabTextOp, type CollabTextSnapshot } from "@/lib/collab-text";
+import {
+  useRealtimeCursors,
+  type CaretPosition,
+  type RemoteCaret,
+} from "@/hooks/use-realtime-cursors";
+
+const TEXT_EVENTS = ["text-op", "text-sync-request", "text-sync"] as const;
+
+// Coalesces the sync requests of every card that opens on connect
+const SYNC_REQUEST_DELAY_MS = 50;
+// With no answer by then, nobody else has the field open and our copy is the shared one
+const SYNC_TIMEOUT_MS = 1500;
+// Spacing between requests to repair ops we missed
+const RESYNC_INTERVAL_MS = 2000;
+const CARET_DEBOUNCE_MS = 150;
+
+type TextListener = (text: string) => void;
+
+export interface CollaborativeTextSession {
+  /** Locks are only needed while this is false */
+  isConnected: boolean;
+  carets: RemoteCaret[];
+  /** Join a field's shared doc (seeded with `text` if nobody has it yet); returns the shared text */
+  open: (field: string, text: string) => string;
+  /** Broadcast a local change to the field */
+  edit: (field: string, text: string) => void;
+  /** Whether the field's shared text has recently been `text` (so a save of it came from the session) */
+  hasHeld: (field: string, text: string) => boolean;
+  /** Merge text saved outside the session into the field; listeners hear it like a remote edit */
+  mergeSaved: (field: string, text: string) => void;
+  /** Listen for text changed by someone else */
+  subscribe: (field: string, listener: TextListener) => () => void;
+  anchorAt: (field: string, index: number) => string | null;
+  indexOf: (field: string, anchor: string | null) => number | null;
+  /** Share our caret; pass null on blur */
+  moveCaret: (field: string | null, index?: number) => void;
+}
+
+interface UseCollaborativeTextOptions {
+  roomName: string;
+  enabled: boolean;
+  username: string;
+  userRank?: string | null;
+}
+
+export function useCollaborativeText({
+  roomName,
+  enabled,
+  username,
+  userRank,
+}: UseCollaborativeTextOptions): CollaborativeTextSession {
+  const docsRef = useRef(new Map<string, CollabTextDoc>());
+  const listenersRef = useRef(new Map<string, Set<TextListener>>());
+  // Fields a card has joined (as opposed to docs that arrived in a snapshot first)
+  const openedRef = useRef(new Set<string>());
+  // Fields caught up with peers (or with nobody to catch up with); only these answer sync requests
+  const syncedRef = useRef(new Set<string>());
+  // Fields edited here, so adopting a peer's copy has to replay our text on top of it
+  const editedRef = useRef(new Set<string>());
+  const caretRef = useRef<CaretPosition | null>(null);
+  const caretTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const syncRequestTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const syncTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const lastSyncRequestRef = useRef(0);
+  const realtimeRef = useRef<ReturnType<typeof useRealtimeCursors> | null>(null);
+
+  const notify = useCallback((field: string) => {
+    const doc = docsRef.current.get(field);
+    if (!doc) return;
+    listenersRef.current.get(field)?.forEach((listener) => listener(doc.text));
+  }, []);
+
+  const sendOps = useCallback((field: string, ops: CollabTextOp[]) => {
+    ops.forEach((op) => realtimeRef.current?.send("text-op", { field, op }));
+  }, []);
+
+  const requestSync = useCallback(() => {
+    if (syncRequestTimerRef.current) return;
+    syncRequestTimerRef.current = setTimeout(() => {
+      syncRequestTimerRef.current = null;
+      lastSyncRequestRef.current = Date.now();
+      realtimeRef.current?.send("text-sync-request", {});
+
+      if (syncTimeoutRef.current) clearTimeout(syncTimeoutRef.current);
+      syncTimeoutRef.current = setTimeout(() => {
+        syncTimeoutRef.current = null;
+        docsRef.current.forEach((_doc, field) => syncedRef.current.add(field));
+      }, SYNC_TIMEOUT_MS);
+    }, SYNC_REQUEST_DELAY_MS);
+  }, []);
+
+  const adoptSnapshot = useCallback((field: string, snapshot: CollabTextSnapshot, senderId: string) => {
+    const site = realtimeRef.current?.userId;
+    if (!site) return;
+    const doc = docsRef.current.get(field);
+    const wasSynced = syncedRef.current.has(field);
+    syncedRef.current.add(field);
+
+    if (!doc) {
+      docsRef.current.set(field, CollabTextDoc.fromSnapshot(site, snapshot));
+      return;
+    }
+    if (doc.seed === snapshot.seed) {
+      if (doc.merge(snapshot)) notify(field);
+      return;
+    }
+
+    // Copies that started from different saved text can't be merged, so one wins:
+    // a joiner defers to whoever was already there, otherwise the lower id wins
+    if (wasSynced && senderId > site) return;
+    const mine = doc.text;
+    const adopted = CollabTextDoc.fromSnapshot(site, snapshot);
+    docsRef.current.set(field, adopted);
+    if (editedRef.current.has(field)) {
+      sendOps(field, adopted.applyLocalText(mine));
+    }
+    if (adopted.text !== mine) notify(field);
+  }, [notify, sendOps]);
+
+  const handleMessage = useCallback((event: string, payload: Record<string, unknown>) => {
+    if (event === "text-op") {
+      const field = payload.field as string;
+      const doc = docsRef.current.get(field);
+      if (!doc) return;
+      const pendingBefore = doc.pendingCount;
+      if (doc.apply(payload.op as CollabTextOp)) notify(field);
+      // The op depends on one we never got; ask peers to fill the gap
+      if (doc.pendingCount > pendingBefore && Date.now() - lastSyncRequestRef.current > RESYNC_INTERVAL_MS) {
+        requestSync();
+      }
+      return;
+    }
+
+    if (event === "text-sync-request") {
+      const docs: Record<string, CollabTextSnapshot> = {};
+      docsRef.current.forEach((doc, field) => {
+        if (syncedRef.current.has(field)) docs[field] = doc.snapshot();
+      });
+      if (Object.keys(docs).length > 0) {
+        realtimeRef.current?.send("text-sync", { docs });
+      }
+      // Whoever just joined hasn't seen where we are
+      if (caretRef.current) realtimeRef.current?.updateCaret(caretRef.current);
+      return;
+    }
+
+    if (event === "text-sync") {
+      const docs = (payload.docs ?? {}) as Record<string, CollabTextSnapshot>;
+      Object.entries(docs).forEach(([field, snapshot]) => {
+        adoptSnapshot(field, snapshot, String(payload.oderId));
+      });
+    }
+  }, [adoptSnapshot, notify, requestSync]);
+
+  const realtime = useRealtimeCursors({
+    roomName,
+    username,
+    userRank,
+    enabled: enabled && !!roomName,
+    messageEvents: TEXT_EVENTS,
+    onMessage: handleMessage,
+  });
+  realtimeRef.current = realtime;
+
+  // A different shell starts from scratch
+  useEffect(() => {
+    const docs = docsRef.current;
+    const opened = openedRef.current;
+    const synced = syncedRef.current;
+    const edited = editedRef.current;
+    return () => {
+      docs.clear();
+      opened.clear();
+      synced.clear();
+      edited.clear();
+      caretRef.current = null;
+    };
+  }, [roomName]);
+
+  // Catch up on whatever happened while we weren't subscribed
+  useEffect(() => {
+    if (realtime.isConnected) requestSync();
+  }, [realtime.isConnected, requestSync]);
+
+  useEffect(() => {
+    return () => {
+      if (caretTimerRef.current) clearTimeout(caretTimerRef.current);
+      if (syncRequestTimerRef.current) clearTimeout(syncRequestTimerRef.current);
+      if (syncTimeoutRef.current) clearTimeout(syncTimeoutRef.current);
+    };
+  }, []);
+
+  const edit = useCallback((field: string, text: string) => {
+    const doc = docsRef.current.get(field);
+    if (!doc) return;
+    const ops = doc.applyLocalText(text);
+    if (ops.length === 0) return;
+    editedRef.current.add(field);
+    sendOps(field, ops);
+  }, [sendOps]);
+
+  const hasHeld = useCallback((field: string, text: string) => {
+    return docsRef.current.get(field)?.hasHeld(text) ?? false;
+  }, []);
+
+  const mergeSaved = useCallback((field: string, text: string) => {
+    const doc = docsRef.current.get(field);
+    if (!doc) return;
+    const ops = doc.applySavedText(text);
+    if (ops.length === 0) return;
+    editedRef.current.add(field);
+    sendOps(field, ops);
+    notify(field);
+  }, [notify, sendOps]);
+
+  const open = useCallback((field: string, text: string) => {
+    const doc = docsRef.current.get(field);
+    if (!doc) {
+      const created = new CollabTextDoc(realtimeRef.current?.userId ?? "local", text);
+      docsRef.current.set(field, created);
+      openedRef.current.add(field);
+      requestSync();
+      return created.text;
+    }
+    // Rejoining after a dropped connection: send what was typed offline
+    if (openedRef.current.has(field)) {
+      edit(field, text);
+    }
+    openedRef.current.add(field);
+    return doc.text;
+  }, [edit, requestSync]);
+
+  const subscribe = useCallback((field: string, listener: TextListener) => {
+    const listeners = listenersRef.current.get(field) ?? new Set<TextListener>();
+    listeners.add(listener);
+    listenersRef.current.set(field, listeners);
+    return () => {
+      listeners.delete(listener);
+    };
+  }, []);
+
+  const anchorAt = useCallback((field: string, index: number) => {
+    return docsRef.current.get(field)?.anchorAt(index) ?? null;
+  }, []);
+
+  const indexOf = useCallback((field: string, anchor: string | null) => {
+    return docsRef.current.get(field)?.indexOf(anchor) ?? null;
+  }, []);
+
+  const moveCaret = useCallback((field: string | null, index = 0) => {
+    caretRef.current = field ? { field, anchor: anchorAt(field, index) } : null;
+    if (caretTimerRef.current) clearTimeout(caretTimerRef.current);
+    caretTimerRef.current = setTimeout(() => {
+      caretTimerRef.current = null;
+      realtimeRef.current?.updateCaret(caretRef.current);
+    }, CARET_DEBOUNCE_MS);
+  }, [anchorAt]);
+
+  const carets = useMemo(() => Object.values(realtime.carets), [realtime.carets]);
+
+  return useMemo(
+    () => ({
+      isConnected: realtime.isConnected,
+      carets,
+      open,
+      edit,
+      hasHeld,
+      mergeSaved,
+      subscribe,
+      anchorAt,
+      indexOf,
+      moveCaret,
+    }),
+    [realtime.isConnected, carets, open, edit, hasHeld, mergeSaved, subscribe, anchorAt, indexOf, moveCaret]
+  );
+}
+
+export interface CollaborativeFieldCaret {
+  key: string;
+  name: string;
+  rank?: string | null;
+  color: string;
+  index: number;
+}
+
+interface UseCollaborativeTextFieldOptions {
+  session: CollaborativeTextSession | null;
+  field: string;
+  /** The card's local text; any change to it is broadcast */
+  text: string;
+  textareaRef: RefObject<HTMLTextAreaElement | null>;
+  onRemoteText: (text: string) => void;
+}
+
+/** Binds one card's textarea to a field of the session, keeping our caret in place through remote edits. */
+export function useCollaborativeTextField({
+  session,
+  field,
+  text,
+  textareaRef,
+  onRemoteText,
+}: UseCollaborativeTextFieldOptions) {
+  const isLive = !!session?.isConnected;
+  const open = session?.open;
+  const edit = session?.edit;
+  const subscribe = session?.subscribe;
+  const anchorAt = session?.anchorAt;
+  const indexOf = session?.indexOf;
+  const moveCaret = session?.moveCaret;
+  const hasHeld = session?.hasHeld;
+  const sessionMergeSaved = session?.mergeSaved;
+
+  const textRef = useRef(text);
+  textRef.current = text;
+  const onRemoteTextRef = useRef(onRemoteText);
+  onRemoteTextRef.current = onRemoteText;
+  // Set when remote text is handed to the card; until the card re-renders, `text` and the textarea are stale
+  const isAwaitingRemoteRef = useRef(false);
+  const selectionRef = useRef<{ start: string | null; end: string | null } | null>(null);
+  const restoreSelectionRef = useRef<[number, number] | null>(null);
+  const [docVersion, setDocVersion] = useState(0);
+
+  useEffect(() => {
+    if (!isLive || !open || !subscribe || !indexOf) return;
+
+    const applyRemote = (next: string) => {
+      const el = textareaRef.current;
+      const selection = selectionRef.current;
+      if (el && selection && document.activeElement === el) {
+        const start = indexOf(field, selection.start);
+        const end = indexOf(field, selection.end);
+        if (start !== null && end !== null) restoreSelectionRef.current = [start, end];
+      }
+      isAwaitingRemoteRef.current = true;
+      onRemoteTextRef.current(next);
+      setDocVersion((v) => v + 1);
+    };
+
+    const shared = open(field, textRef.current);
+    if (shared !== textRef.current) applyRemote(shared);
+    return subscribe(field, applyRemote);
+  }, [isLive, field, open, subscribe, indexOf, textareaRef]);
+
+  // Every local change (typing, AI, restore, reset) goes out as ops
+  useEffect(() => {
+    if (!isLive || !edit) return;
+    if (isAwaitingRemoteRef.current) {
+      isAwaitingRemoteRef.current = false;
+      return;
+    }
+    edit(field, text);
+  }, [isLive, field, text, edit]);
+
+  useLayoutEffect(() => {
+    const el = textareaRef.current;
+    const restore = restoreSelectionRef.current;
+    if (!el || !restore || el.value !== text) return;
+    restoreSelectionRef.current = null;
+    el.setSelectionRange(restore[0], restore[1]);
+  }, [text, textareaRef]);
+
+  const handleSelect = useCallback(() => {
+    const el = textareaRef.current;
+    if (!isLive || !el || !edit || !anchorAt || !moveCaret) return;
+    if (isAwaitingRemoteRef.current) return;
+    // onSelect can fire before the edit effect; anchors must come from the current text
+    edit(field, el.value);
+    selectionRef.current = {
+      start: anchorAt(field, el.selectionStart),
+      end: anchorAt(field, el.selectionEnd),
+    };
+    moveCaret(field, el.selectionEnd);
+  }, [isLive, field, textareaRef, edit, anchorAt, moveCaret]);
+
+  // Saves from inside the session are text the doc already held; anything else
+  // (a tab without live editing, a restore) is merged in. Returns whether it was.
+  const mergeSaved = useCallback((saved: string) => {
+    if (!isLive || !hasHeld || !sessionMergeSaved || hasHeld(field, saved)) return false;
+    sessionMergeSaved(field, saved);
+    return true;
+  }, [isLive, field, hasHeld, sessionMergeSaved]);
+
+  const handleBlur = useCallback(() => {
+    selectionRef.current = null;
+    if (isLive) moveCaret?.(null);
+  }, [isLive, moveCaret]);
+
+  const carets = session?.carets;
+  const remoteCarets = useMemo<CollaborativeFieldCaret[]>(() => {
+    if (!isLive || !carets || !indexOf) return [];
+    return carets.flatMap((caret) => {
+      if (caret.field !== field) return [];
+      const index = indexOf(field, caret.anchor);
+      return index === null
+        ? []
+        : [{ key: caret.oderId, name: caret.name, rank: caret.rank, color: caret.color, index }];
+    });
+    // docVersion: anchors resolve against the doc, which changes outside React
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isLive, carets, field, indexOf, docVersion, text]);
+
+  return { isLive, remoteCarets, mergeSaved, handleSelect, handleBlur };
+}
@@ -28,6 +28,19 @@ export interface RemoteCursor {
   lastUpdate: number;
 }
 
+// Text caret inside a collaboratively edited field; anchor comes from CollabTextDoc.anchorAt
+export interface CaretPosition {
+  field: string;
+  anchor: string | null;
+}
+
+export interface RemoteCaret extends CaretPosition {
+  oderId: string;
+  color: string;
+  name: string;
+  rank?: string | null;
+}
+
 // Generate a random color for cursor
 const CURSOR_COLORS = [
   "#ef4444", // red-500
@@ -52,12 +65,20 @@ interface UseRealtimeCursorsOptions {
   userRank?: string | null;
   throttleMs?: number; // How often to send cursor updates (default 50ms)
   enabled?: boolean;
+  // Extra broadcast events to share this channel with (e.g. collaborative text ops)
+  messageEvents?: readonly string[];
+  onMessage?: (event: string, payload: Record<string, unknown>) => void;
 }
 
-interface UseRealtimeCursorsReturn {
+export interface UseRealtimeCursorsReturn {
   cursors: Record<string, RemoteCursor>;
+  carets: Record<string, RemoteCaret>;
   isConnected: boolean;
+  // This tab's id on the channel (also the sender id on every payload)
+  userId: string;
   updateCursor: (position: CursorPosition) => void;
+  updateCaret: (caret: CaretPosition | null) => void;
+  send: (event: string, payload: Record<string, unknown>) => void;
 }
 
 export function useRealtimeCursors({
@@ -66,15 +87,21 @@ export function useRealtimeCursors({
   userRank,
   throttleMs = 50,
   enabled = true,
+  messageEvents = [],
+  onMessage,
 }: UseRealtimeCursorsOptions): UseRealtimeCursorsReturn {
   const supabase = createClient();
   const [cursors, setCursors] = useState<Record<string, RemoteCursor>>({});
+  const [carets, setCarets] = useState<Record<string, RemoteCaret>>({});
   const [isConnected, setIsConnected] = useState(false);
   
   const channelRef = useRef<RealtimeChannel | null>(null);
   const colorRef = useRef<string>(getRandomColor());
   const lastSentRef = useRef<number>(0);
   const userIdRef = useRef<string>(`user-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`);
+  const onMessageRef = useRef(onMessage);
+  onMessageRef.current = onMessage;
+  const messageEventsKey = messageEvents.join(",");
 
   // Send cursor position with throttling
   const updateCursor = useCallback((position: CursorPosition) => {
@@ -100,6 +127,30 @@ export function useRealtimeCursors({
     });
   }, [isConnected, throttleMs, username, userRank]);
 
+  // Carets aren't throttled here; callers debounce so the last position always lands
+  const updateCaret = useCallback((caret: CaretPosition | null) => {
+    channelRef.current?.send({
+      type: "broadcast",
+      event: "caret",
+      payload: {
+        oderId: userIdRef.current,
+        field: caret?.field ?? null,
+        anchor: caret?.anchor ?? null,
+        color: colorRef.current,
+        name: username,
+        rank: userRank,
+      },
+    });
+  }, [username, userRank]);
+
+  const send = useCallback((event: string, payload: Record<string, unknown>) => {
+    channelRef.current?.send({
+      type: "broadcast",
+      event,
+      payload: { ...payload, oderId: userIdRef.current },
+    });
+  }, []);
+
   // Subscribe to cursor channel
   useEffect(() => {
     if (!enabled || !roomName) {
@@ -110,6 +161,7 @@ export function useRealtimeCursors({
       .channel(`cursors:${roomName}`, {
         config: {
           broadcast: { self: false }, // Don't receive own broadcasts
+          presence: { key: userIdRef.current }, // So leave events carry the same id as broadcasts
         },
       })
       .on("broadcast", { event: "cursor" }, ({ payload }) => {
@@ -129,24 +181,58 @@ export function useRealtimeCursors({
           },
         }));
       })
+      .on("broadcast", { event: "caret" }, ({ payload }) => {
+        if (!payload || payload.oderId === userIdRef.current) return;
+
+        setCarets((prev) => {
+          const updated = { ...prev };
+          if (payload.field) {
+            updated[payload.oderId] = {
+              oderId: payload.oderId,
+              field: payload.field,
+              anchor: payload.anchor ?? null,
+              color: payload.color,
+              name: payload.name,
+              rank: payload.rank,
+            };
+          } else {
+            delete updated[payload.oderId];
+          }
+          return updated;
+        });
+      })
       .on("presence", { event: "leave" }, ({ key }) => {
         setCursors((prev) => {
           const updated = { ...prev };
           delete updated[key];
           return updated;
         });
-      })
-      .subscribe(async (status) => {
-        if (status === REALTIME_SUBSCRIBE_STATES.SUBSCRIBED) {
-          setIsConnected(true);
-          await channel.track({ key: userIdRef.current });
-          channelRef.current = channel;
-        } else {
-          setIsConnected(false);
-          channelRef.current = null;
-        }
+        setCarets((prev) => {
+          const updated = { ...prev };
+          delete updated[key];
+          return updated;
+        });
       });
 
+    messageEventsKey.split(",").filter(Boolean).forEach((event) => {
+      channel.on("broadcast", { event }, ({ payload }) => {
+        if (!payload || payload.oderId === userIdRef.current) return;
+        onMessageRef.current?.(event, payload);
+      });
+    });
+
+    channel.subscribe(async (status) => {
+      if (status === REALTIME_SUBSCRIBE_STATES.SUBSCRIBED) {
+        // Set before flipping isConnected so effects keyed on it can send right away
+        channelRef.current = channel;
+        setIsConnected(true);
+        await channel.track({ key: userIdRef.current });
+      } else {
+        setIsConnected(false);
+        channelRef.current = null;
+      }
+    });
+
     const cleanupInterval = setInterval(() => {
       const now = Date.now();
       setCursors((prev) => {
@@ -167,13 +253,18 @@ export function useRealtimeCursors({
       channelRef.current = null;
       setIsConnected(false);
       setCursors({});
+      setCarets({});
     };
-  }, [enabled, roomName, supabase]);
+  }, [enabled, roomName, supabase, messageEventsKey]);
 
   return {
     cursors,
+    carets,
     isConnected,
+    userId: userIdRef.current,
     updateCursor,
+    updateCaret,
+    send,
   };
 }
 
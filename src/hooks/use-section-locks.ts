@@ -36,8 +36,27 @@ function useDebouncedCallback<T extends (...args: never[]) => void>(fn: T, delay
 interface UseSectionLocksOptions {
   shellId: string | null;
   enabled: boolean; // Only active when multi_user_enabled is false
+  shellType?: "epb" | "opb";
 }
 
+// OPB locks live in their own table with parallel RPCs (migration 221)
+const LOCK_BACKENDS = {
+  epb: {
+    table: "epb_section_locks",
+    list: "get_shell_section_locks",
+    acquire: "acquire_section_lock",
+    release: "release_section_lock",
+    refresh: "refresh_section_lock",
+  },
+  opb: {
+    table: "opb_section_locks",
+    list: "get_opb_shell_section_locks",
+    acquire: "acquire_opb_section_lock",
+    release: "release_opb_section_lock",
+    refresh: "refresh_opb_section_lock",
+  },
+} as const;
+
 interface UseSectionLocksReturn {
   locks: Record<string, EPBSectionLock>; // Keyed by mpa_key
   isLoading: boolean;
@@ -57,8 +76,10 @@ interface UseSectionLocksReturn {
 export function useSectionLocks({
   shellId,
   enabled,
+  shellType = "epb",
 }: UseSectionLocksOptions): UseSectionLocksReturn {
   const supabase = createClient();
+  const backend = LOCK_BACKENDS[shellType];
   const { profile } = useUserStore();
   
   const [locks, setLocks] = useState<Record<string, EPBSectionLock>>({});
@@ -76,7 +97,7 @@ export function useSectionLocks({
     setIsLoading(true);
     try {
       const { data, error } = await supabase
-        .rpc("get_shell_section_locks", { p_shell_id: shellId } as never) as { data: EPBSectionLock[] | null; error: Error | null };
+        .rpc(backend.list as "get_shell_section_locks", { p_shell_id: shellId } as never) as { data: EPBSectionLock[] | null; error: Error | null };
       
       if (error) throw error;
       
@@ -92,7 +113,7 @@ export function useSectionLocks({
     } finally {
       setIsLoading(false);
     }
-  }, [shellId, enabled, supabase]);
+  }, [shellId, enabled, supabase, backend]);
 
   // Debounce Realtime-triggered refetches so rapid lock changes
   // (e.g. acquire then immediately release) collapse into one call
@@ -109,13 +130,13 @@ export function useSectionLocks({
 
     // Subscribe to realtime changes on section locks
     const channel = supabase
-      .channel(`section-locks:${shellId}`)
+      .channel(`${shellType}-section-locks:${shellId}`)
       .on(
         "postgres_changes",
         {
           event: "*",
           schema: "public",
-          table: "epb_section_locks",
+          table: backend.table,
         },
         () => {
           debouncedFetchLocks();
@@ -127,7 +148,7 @@ export function useSectionLocks({
       debouncedFetchLocks.cancel();
       supabase.removeChannel(channel);
     };
-  }, [shellId, enabled, supabase, fetchLocks, debouncedFetchLocks]);
+  }, [shellId, shellType, enabled, supabase, backend, fetchLocks, debouncedFetchLocks]);
 
   // Heartbeat to keep our locks alive
   useEffect(() => {
@@ -142,7 +163,7 @@ export function useSectionLocks({
     // Send heartbeat every 2 minutes
     heartbeatRef.current = setInterval(() => {
       ownLocksRef.current.forEach((sectionId) => {
-        supabase.rpc("refresh_section_lock", {
+        supabase.rpc(backend.refresh as "refresh_section_lock", {
           p_section_id: sectionId,
           p_user_id: profile?.id,
         } as never);
@@ -154,21 +175,21 @@ export function useSectionLocks({
         clearInterval(heartbeatRef.current);
       }
     };
-  }, [enabled, profile?.id, supabase]);
+  }, [enabled, profile?.id, supabase, backend]);
 
   // Cleanup locks on unmount
   useEffect(() => {
     return () => {
       // Release all our locks when component unmounts
       ownLocksRef.current.forEach((sectionId) => {
-        supabase.rpc("release_section_lock", {
+        supabase.rpc(backend.release as "release_section_lock", {
           p_section_id: sectionId,
           p_user_id: profile?.id,
         } as never);
       });
       ownLocksRef.current.clear();
     };
-  }, [profile?.id, supabase]);
+  }, [profile?.id, supabase, backend]);
 
   // Acquire a lock on a section
   const acquireLock = useCallback(async (sectionId: string): Promise<{ success: boolean; lockedBy?: string }> => {
@@ -177,7 +198,7 @@ export function useSectionLocks({
     try {
       type LockResult = { success: boolean; locked_by_name: string | null; locked_by_rank: string | null };
       const { data, error } = await supabase
-        .rpc("acquire_section_lock", {
+        .rpc(backend.acquire as "acquire_section_lock", {
           p_section_id: sectionId,
           p_user_id: profile.id,
         } as never) as { data: LockResult[] | null; error: Error | null };
@@ -198,14 +219,14 @@ export function useSectionLocks({
       console.error("Failed to acquire lock:", err);
       return { success: false, lockedBy: "Unknown error" };
     }
-  }, [profile, supabase, fetchLocks]);
+  }, [profile, supabase, backend]);
 
   // Release a lock
   const releaseLock = useCallback(async (sectionId: string) => {
     if (!profile) return;
     
     try {
-      await supabase.rpc("release_section_lock", {
+      await supabase.rpc(backend.release as "release_section_lock", {
         p_section_id: sectionId,
         p_user_id: profile.id,
       } as never);
@@ -214,21 +235,21 @@ export function useSectionLocks({
     } catch (err) {
       console.error("Failed to release lock:", err);
     }
-  }, [profile, supabase]);
+  }, [profile, supabase, backend]);
 
   // Refresh a lock (heartbeat)
   const refreshLock = useCallback(async (sectionId: string) => {
     if (!profile) return;
     
     try {
-      await supabase.rpc("refresh_section_lock", {
+      await supabase.rpc(backend.refresh as "refresh_section_lock", {
         p_section_id: sectionId,
         p_user_id: profile.id,
       } as never);
     } catch (err) {
       console.error("Failed to refresh lock:", err);
     }
-  }, [profile, supabase]);
+  }, [profile, supabase, backend]);
 
   // Check if an MPA is locked by someone else
   const isLockedByOther = useCallback((mpaKey: string): boolean => {
@@ -0,0 +1,197 @@
+import { describe, expect, it } from "vitest";
+import { PDFDocument } from "pdf-lib";
+import {
+  compareAcaLevels,
+  getAcaWorksheetProgress,
+  getAcaWorksheetRubric,
+  normalizeAcaWorksheet,
+} from "../aca-worksheet";
+import {
+  buildAcaWorksheetLayout,
+  getAcaWorksheetFileName,
+  renderAcaWorksheetPdf,
+  type AcaWorksheetExportRatee,
+} from "../aca-worksheet-export";
+import type { AcaWorksheet } from "@/types/database";
+
+const ratee: AcaWorksheetExportRatee = {
+  name: "Doe, Jane",
+  rank: "SSgt",
+  afsc: "3D0X2",
+  unit: "99 CS, ACC, Nellis AFB NV",
+};
+
+const evidence = [
+  { id: "a1", date: "2026-02-03", action_verb: "Led", details: "12-mbr team restoring 300 systems" },
+  { id: "a2", date: "2026-03-14", action_verb: "Trained", details: "8 Amn on cyber hygiene" },
+];
+
+function worksheet(partial: Partial<AcaWorksheet>): AcaWorksheet {
+  return {
+    ratings: {},
+    knowing_your_airman: { goals: "", stressors: "", mentorship: "", growth: "" },
+    ...partial,
+  };
+}
+
+describe("getAcaWorksheetRubric", () => {
+  it("uses the 931 rubric for AB-TSgt and the 932 rubric for SNCOs", () => {
+    const junior = getAcaWorksheetRubric("SSgt")!;
+    expect(junior.formLabel).toBe("AF Form 931");
+    expect(junior.levels.map((l) => l.value)).toContain("far_exceeds");
+
+    const senior = getAcaWorksheetRubric("MSgt")!;
+    expect(senior.formLabel).toBe("AF Form 932");
+    expect(senior.knowingYourAirmanSection).toBe("Section VIII");
+    expect(senior.levels.map((l) => l.value)).toContain("significantly_exceeds");
+  });
+
+  it("returns null for civilians", () => {
+    expect(getAcaWorksheetRubric("Civilian")).toBeNull();
+  });
+});
+
+describe("normalizeAcaWorksheet", () => {
+  it("drops unknown subcategories, other-tier levels and duplicate evidence", () => {
+    const rubric = getAcaWorksheetRubric("SSgt")!;
+    const normalized = normalizeAcaWorksheet(
+      {
+        ratings: {
+          task_knowledge: { level: "exceeds", evidence_ids: ["a1", "a1", "a2"], note: "  Strong  " },
+          initiative_motivation: { level: "significantly_exceeds", evidence_ids: [], note: "" },
+          mission_accomplishment: { level: "meets", evidence_ids: [], note: "" },
+        },
+        knowing_your_airman: { goals: " Make TSgt ", stressors: 42 },
+      },
+      rubric
+    );
+
+    expect(normalized.ratings).toEqual({
+      task_knowledge: { level: "exceeds", evidence_ids: ["a1", "a2"], note: "Strong" },
+    });
+    expect(normalized.knowing_your_airman).toEqual({
+      goals: "Make TSgt",
+      stressors: "",
+      mentorship: "",
+      growth: "",
+    });
+    expect(getAcaWorksheetProgress(normalized, rubric).rated).toBe(1);
+  });
+
+  it("returns an empty sheet for missing data", () => {
+    const rubric = getAcaWorksheetRubric("SSgt")!;
+    expect(normalizeAcaWorksheet(null, rubric).ratings).toEqual({});
+  });
+});
+
+describe("compareAcaLevels", () => {
+  it("ranks far and significantly exceeds as the top level", () => {
+    expect(compareAcaLevels("exceeds", "meets")).toBe("up");
+    expect(compareAcaLevels("meets", "far_exceeds")).toBe("down");
+    expect(compareAcaLevels("significantly_exceeds", "far_exceeds")).toBe("same");
+  });
+
+  it("does not compare unrated or not applicable choices", () => {
+    expect(compareAcaLevels("meets", null)).toBeNull();
+    expect(compareAcaLevels("not_applicable", "meets")).toBeNull();
+  });
+});
+
+describe("buildAcaWorksheetLayout", () => {
+  const current = worksheet({
+    ratings: {
+      task_knowledge: { level: "exceeds", evidence_ids: ["a1", "missing"], note: "" },
+    },
+    knowing_your_airman: { goals: "Make TSgt", stressors: "", mentorship: "", growth: "" },
+  });
+
+  it("marks the chosen level and resolves evidence in rubric order", () => {
+    const layout = buildAcaWorksheetLayout({
+      worksheet: current,
+      feedbackType: "initial",
+      cycleYear: 2026,
+      ratee,
+      raterName: "TSgt John Smith",
+      evidence,
+    });
+
+    expect(layout.formLabel).toBe("AF Form 931");
+    expect(layout.comparesInitial).toBe(false);
+    const item = layout.categories[0].items.find((i) => i.key === "task_knowledge")!;
+    expect(item.options.filter((o) => o.selected).map((o) => o.label)).toEqual(["Exceeds"]);
+    expect(item.evidence).toEqual(["2026-02-03: Led 12-mbr team restoring 300 systems"]);
+    expect(item.initialLevelLabel).toBeNull();
+    expect(layout.knowingYourAirman.heading).toBe("IX. Knowing Your Airman");
+    expect(layout.knowingYourAirman.answers[0].text).toBe("Make TSgt");
+  });
+
+  it("puts the Initial choice beside each Midterm choice", () => {
+    const initial = worksheet({
+      ratings: { task_knowledge: { level: "meets", evidence_ids: [], note: "" } },
+    });
+    const layout = buildAcaWorksheetLayout({
+      worksheet: current,
+      initialWorksheet: initial,
+      feedbackType: "midterm",
+      cycleYear: 2026,
+      ratee,
+      raterName: null,
+      evidence,
+    });
+
+    expect(layout.comparesInitial).toBe(true);
+    const [taskKnowledge, initiative] = layout.categories[0].items;
+    expect(taskKnowledge.initialLevelLabel).toBe("Meets");
+    expect(taskKnowledge.change).toBe("up");
+    expect(initiative.initialLevelLabel).toBe("Not rated");
+    expect(initiative.change).toBeNull();
+  });
+
+  it("throws for grades without an ACA form", () => {
+    expect(() =>
+      buildAcaWorksheetLayout({
+        worksheet: current,
+        feedbackType: "initial",
+        cycleYear: 2026,
+        ratee: { ...ratee, rank: "Civilian" },
+        raterName: null,
+        evidence: [],
+      })
+    ).toThrow("No ACA form applies to this grade");
+  });
+});
+
+describe("getAcaWorksheetFileName", () => {
+  it("builds a filesystem-safe name from form, session, cycle, grade and last name", () => {
+    const layout = buildAcaWorksheetLayout({
+      worksheet: worksheet({}),
+      feedbackType: "midterm",
+      cycleYear: 2026,
+      ratee: { ...ratee, name: "O'Doe, Jane" },
+      raterName: null,
+      evidence: [],
+    });
+    expect(getAcaWorksheetFileName(layout)).toBe("ACA_931_Midterm_2026_SSgt_ODoe.pdf");
+  });
+});
+
+describe("renderAcaWorksheetPdf", () => {
+  it("produces a loadable PDF", async () => {
+    const layout = buildAcaWorksheetLayout({
+      worksheet: worksheet({
+        ratings: { mission_accomplishment: { level: "meets", evidence_ids: ["a2"], note: "Solid" } },
+      }),
+      initialWorksheet: worksheet({}),
+      feedbackType: "midterm",
+      cycleYear: 2026,
+      ratee: { ...ratee, rank: "MSgt" },
+      raterName: "SMSgt Pat Lee",
+      evidence,
+    });
+    const bytes = await renderAcaWorksheetPdf(layout);
+    expect(new TextDecoder().decode(bytes.slice(0, 5))).toBe("%PDF-");
+    const doc = await PDFDocument.load(bytes);
+    expect(doc.getPageCount()).toBeGreaterThanOrEqual(1);
+    expect(doc.getSubject()).toBe("AF Form 932");
+  });
+});
@@ -0,0 +1,209 @@
+import { deflateRawSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import {
+  emptyColumnMapping,
+  guessColumnMapping,
+  importRowsToDrafts,
+  matchImportMpa,
+  parseCsv,
+  parseImportDate,
+  parseXlsx,
+} from "@/lib/accomplishment-import";
+
+/** Minimal ZIP writer (CRC left at 0; the reader does not verify it). */
+function buildZip(files: Record<string, string>, deflate = false): ArrayBuffer {
+  const encoder = new TextEncoder();
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = encoder.encode(name);
+    const raw = encoder.encode(content);
+    const data = deflate ? new Uint8Array(deflateRawSync(raw)) : raw;
+
+    const local = new Uint8Array(30 + nameBytes.length + data.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(8, deflate ? 8 : 0, true);
+    lv.setUint32(18, data.length, true);
+    lv.setUint32(22, raw.length, true);
+    lv.setUint16(26, nameBytes.length, true);
+    local.set(nameBytes, 30);
+    local.set(data, 30 + nameBytes.length);
+
+    const central = new Uint8Array(46 + nameBytes.length);
+    const cv = new DataView(central.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(10, deflate ? 8 : 0, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, raw.length, true);
+    cv.setUint16(28, nameBytes.length, true);
+    cv.setUint32(42, offset, true);
+    central.set(nameBytes, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  }
+
+  const centralSize = centrals.reduce((n, c) => n + c.length, 0);
+  const eocd = new Uint8Array(22);
+  const ev = new DataView(eocd.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, centrals.length, true);
+  ev.setUint16(10, centrals.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  const out = new Uint8Array(offset + centralSize + 22);
+  let pos = 0;
+  for (const part of [...locals, ...centrals, eocd]) {
+    out.set(part, pos);
+    pos += part.length;
+  }
+  return out.buffer;
+}
+
+const WORKBOOK_FILES = {
+  "xl/workbook.xml":
+    '<workbook><sheets><sheet name="Tracker" sheetId="1" r:id="rId2"/></sheets></workbook>',
+  "xl/_rels/workbook.xml.rels":
+    '<Relationships><Relationship Id="rId2" Type="worksheet" Target="worksheets/tracker.xml"/></Relationships>',
+  "xl/sharedStrings.xml":
+    "<sst><si><t>Date</t></si><si><t>Details</t></si><si><r><t>Led 4 Amn </t></r><r><t>through TCTO &amp; inspection</t></r></si></sst>",
+  "xl/worksheets/tracker.xml":
+    '<worksheet><sheetData><row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="s"><v>1</v></c></row>' +
+    '<row r="2"><c r="A2"><v>46037</v></c><c r="C2" t="s"><v>2</v></c></row></sheetData></worksheet>',
+};
+
+describe("parseCsv", () => {
+  it("handles quotes, escaped quotes, embedded newlines, CRLF and BOM", () => {
+    const csv = '\uFEFFdetails,impact\r\n"Led team, 5 Amn","Saved ""$2K""\nfor sq"\r\n\r\nFixed jet,\n';
+    expect(parseCsv(csv)).toEqual([
+      ["details", "impact"],
+      ["Led team, 5 Amn", 'Saved "$2K"\nfor sq'],
+      ["Fixed jet", ""],
+    ]);
+  });
+});
+
+describe("parseXlsx", () => {
+  it("reads the first sheet through the workbook rels with sparse cells", async () => {
+    const rows = await parseXlsx(buildZip(WORKBOOK_FILES));
+    expect(rows).toEqual([
+      ["Date", "", "Details"],
+      ["46037", "", "Led 4 Amn through TCTO & inspection"],
+    ]);
+  });
+
+  it("inflates deflated parts", async () => {
+    const rows = await parseXlsx(buildZip(WORKBOOK_FILES, true));
+    expect(rows[1]?.[2]).toBe("Led 4 Amn through TCTO & inspection");
+  });
+
+  it("rejects files that are not ZIP packages", async () => {
+    await expect(parseXlsx(new TextEncoder().encode("a,b\n1,2").buffer)).rejects.toThrow(
+      "Not a valid .xlsx file",
+    );
+  });
+});
+
+describe("guessColumnMapping", () => {
+  it("maps common tracker headers and leaves unknown columns alone", () => {
+    const mapping = guessColumnMapping(["Date", "Action Verb", "Accomplishment", "So What?", "MPA", "Notes"]);
+    expect(mapping).toMatchObject({
+      date: 0,
+      action_verb: 1,
+      details: 2,
+      impact: 3,
+      mpa: 4,
+      metrics: null,
+      tags: null,
+    });
+  });
+});
+
+describe("parseImportDate", () => {
+  it("accepts ISO, US, military, long-form and Excel serial dates", () => {
+    expect(parseImportDate("2026-01-15")).toBe("2026-01-15");
+    expect(parseImportDate("1/15/2026")).toBe("2026-01-15");
+    expect(parseImportDate("15 Jan 26")).toBe("2026-01-15");
+    expect(parseImportDate("January 15, 2026")).toBe("2026-01-15");
+    expect(parseImportDate("46037")).toBe("2026-01-15");
+  });
+
+  it("rejects impossible or unknown dates", () => {
+    expect(parseImportDate("2/30/2026")).toBeNull();
+    expect(parseImportDate("last week")).toBeNull();
+  });
+});
+
+describe("matchImportMpa", () => {
+  it("matches keys, labels and abbreviations", () => {
+    expect(matchImportMpa("leading_people")).toBe("leading_people");
+    expect(matchImportMpa("Managing Resources")).toBe("managing_resources");
+    expect(matchImportMpa("IU")).toBe("improving_unit");
+    expect(matchImportMpa("Flying")).toBeNull();
+  });
+});
+
+describe("importRowsToDrafts", () => {
+  const defaults = { date: "2026-03-01", cycleYear: 2026 };
+  const mapping = {
+    ...emptyColumnMapping(),
+    date: 0,
+    action_verb: 1,
+    details: 2,
+    mpa: 3,
+    tags: 4,
+    stewardship_money: 5,
+  };
+
+  it("builds drafts without rewriting the structured fields", () => {
+    const { drafts, skipped, flagged } = importRowsToDrafts(
+      [
+        ["1/15/2026", "Led", "12 Amn through ORI prep", "EM", "ori; inspection, ori", "$12K cost avoidance"],
+        ["", "", "", "", "", ""],
+      ],
+      mapping,
+      defaults,
+    );
+
+    expect(skipped).toBe(1);
+    expect(flagged).toBe(0);
+    expect(drafts).toHaveLength(1);
+    expect(drafts[0]).toMatchObject({
+      action_verb: "Led",
+      details: "Led 12 Amn through ORI prep",
+      impact: "Funds: $12K cost avoidance",
+      mpa: "executing_mission",
+      date: "2026-01-15",
+      cycle_year: 2026,
+      confidence: 1,
+      included: true,
+      tags: ["ori", "inspection"],
+      stewardship_impact: { money: "$12K cost avoidance" },
+    });
+  });
+
+  it("flags unparsed MPAs and dates for review", () => {
+    const { drafts } = importRowsToDrafts(
+      [["sometime", "Fixed", "Fixed the hydraulic mule", "Flying", "", ""]],
+      mapping,
+      defaults,
+    );
+    expect(drafts[0]).toMatchObject({ mpa: "", date: "2026-03-01", confidence: 0.5 });
+  });
+
+  it("unchecks rows that trip the sensitive-data scanner", () => {
+    const { drafts, flagged } = importRowsToDrafts(
+      [["", "Processed", "Processed orders for SSN 123-45-6789", "", "", ""]],
+      mapping,
+      defaults,
+    );
+    expect(flagged).toBe(1);
+    expect(drafts[0]?.included).toBe(false);
+    expect(drafts[0]?.sensitiveWarning).toContain("sensitive data detected");
+  });
+});
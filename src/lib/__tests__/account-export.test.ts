@@ -0,0 +1,127 @@
+import { inflateRawSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import {
+  ACCOUNT_EXPORT_SCHEMA_VERSION,
+  buildAccountExportArchive,
+  buildAccountExportManifest,
+  getAccountExportFileName,
+  type AccountExportData,
+} from "@/lib/account-export";
+import { crc32 } from "@/lib/zip-archive";
+
+/** Reads every entry back out of the central directory and checks its CRC. */
+function unzip(archive: Uint8Array): Map<string, string> {
+  const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+  const eocd = archive.length - 22;
+  expect(view.getUint32(eocd, true)).toBe(0x06054b50);
+
+  const files = new Map<string, string>();
+  let offset = view.getUint32(eocd + 16, true);
+  for (let n = 0; n < view.getUint16(eocd + 10, true); n++) {
+    const nameLength = view.getUint16(offset + 28, true);
+    const name = new TextDecoder().decode(archive.subarray(offset + 46, offset + 46 + nameLength));
+    const local = view.getUint32(offset + 42, true);
+    const start = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+    const raw = inflateRawSync(archive.subarray(start, start + view.getUint32(offset + 20, true)));
+    expect(crc32(raw)).toBe(view.getUint32(offset + 16, true));
+    files.set(name, raw.toString("utf8"));
+    offset += 46 + nameLength + view.getUint16(offset + 30, true) + view.getUint16(offset + 32, true);
+  }
+  return files;
+}
+
+const EXPORTED_AT = new Date("2026-10-18T12:00:00Z");
+
+function sampleData(): AccountExportData {
+  return {
+    profile: { id: "user-1", full_name: "Jane Doe", rank: "TSgt" },
+    accomplishments: [
+      {
+        id: "acc-1",
+        action_verb: "Led",
+        assessment_scores: { overall_score: 82 },
+        stewardship_impact: { money: "$12K" },
+        education_context: null,
+      },
+    ],
+    refined_statements: [],
+    epb_shells: [{ id: "epb-1", sections: [{ mpa: "leading_people", snapshots: [{ id: "s-1" }] }] }],
+    opb_shells: [],
+    award_shells: [],
+    decoration_shells: [],
+    supervisor_feedbacks: [{ id: "fb-1", status: "shared" }],
+    credits: { balance: { balance: 40 }, transactions: [{ amount: -2 }, { amount: 50 }] },
+  };
+}
+
+describe("crc32", () => {
+  it("matches the standard check value", () => {
+    expect(crc32(new TextEncoder().encode("123456789"))).toBe(0xcbf43926);
+  });
+});
+
+describe("buildAccountExportManifest", () => {
+  it("versions the export and counts records per file", () => {
+    const manifest = buildAccountExportManifest("user-1", sampleData(), EXPORTED_AT);
+    expect(manifest.schema_version).toBe(ACCOUNT_EXPORT_SCHEMA_VERSION);
+    expect(manifest.exported_at).toBe("2026-10-18T12:00:00.000Z");
+
+    const counts = Object.fromEntries(manifest.files.map((f) => [f.file, f.records]));
+    expect(counts).toMatchObject({
+      "profile.json": 1,
+      "accomplishments.json": 1,
+      "epb_shells.json": 1,
+      "refined_statements.json": 0,
+      "credits.json": 2,
+    });
+  });
+});
+
+describe("buildAccountExportArchive", () => {
+  it("writes a valid ZIP with manifest, README and one JSON file per collection", () => {
+    const files = unzip(buildAccountExportArchive("user-1", sampleData(), EXPORTED_AT));
+
+    expect([...files.keys()]).toEqual([
+      "manifest.json",
+      "README.md",
+      "profile.json",
+      "accomplishments.json",
+      "refined_statements.json",
+      "epb_shells.json",
+      "opb_shells.json",
+      "award_shells.json",
+      "decoration_shells.json",
+      "supervisor_feedbacks_received.json",
+      "credits.json",
+    ]);
+
+    const accomplishments = JSON.parse(files.get("accomplishments.json")!);
+    expect(accomplishments[0]).toMatchObject({ stewardship_impact: { money: "$12K" } });
+    expect(JSON.parse(files.get("epb_shells.json")!)[0].sections[0].snapshots).toHaveLength(1);
+    expect(files.get("README.md")).toContain(`schema version ${ACCOUNT_EXPORT_SCHEMA_VERSION}`);
+  });
+
+  it("keeps rater-only fields out of received feedback", () => {
+    const data = sampleData();
+    data.supervisor_feedbacks = [
+      {
+        id: "fb-1",
+        status: "shared",
+        content: "Shared guide body",
+        session_settings: "PRIVATE SETTINGS",
+        aca_worksheet: { ratings: [] },
+      },
+    ];
+
+    const files = unzip(buildAccountExportArchive("user-1", data, EXPORTED_AT));
+    const raw = files.get("supervisor_feedbacks_received.json")!;
+
+    expect(JSON.parse(raw)).toEqual([{ id: "fb-1", content: "Shared guide body", status: "shared" }]);
+    expect(raw).not.toContain("session_settings");
+    expect(raw).not.toContain("aca_worksheet");
+  });
+
+  it("names the download by export date", () => {
+    expect(getAccountExportFileName(EXPORTED_AT)).toBe("myepbuddy-data-export-2026-10-18.zip");
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, expect, it } from "vitest";
+import { PDFDocument } from "pdf-lib";
+import {
+  analyzeAwardSlot,
+  buildAward1206Layout,
+  formatAwardPeriodLabel,
+  getAward1206FileName,
+  getAward1206OverflowCount,
+  renderAward1206Pdf,
+  type Award1206ExportShell,
+} from "../award-1206-export";
+import { AF1206_LINE_WIDTH_PX, getTextWidthPx } from "../bullet-fitting";
+
+const ONE_LINE = "Led 12-mbr team; restored 300 systems in 48 hrs--saved $1.2M in downtime";
+const LONG = `${ONE_LINE}; ${ONE_LINE}; ${ONE_LINE}; ${ONE_LINE}`;
+
+const baseShell: Award1206ExportShell = {
+  cycle_year: 2026,
+  title: null,
+  award_level: "wing",
+  award_category: "nco",
+  award_period_type: "quarterly",
+  quarter: 2,
+  is_fiscal_year: true,
+  period_start_date: null,
+  period_end_date: null,
+  is_team_award: false,
+  sections: [
+    { category: "whole_airman_concept", slot_index: 0, statement_text: ONE_LINE, lines_per_statement: 2 },
+    { category: "performance_in_primary_duty", slot_index: 1, statement_text: LONG, lines_per_statement: 2 },
+    { category: "performance_in_primary_duty", slot_index: 0, statement_text: "- Drove ops", lines_per_statement: 1 },
+    { category: "performance_in_primary_duty", slot_index: 2, statement_text: "   ", lines_per_statement: 2 },
+  ],
+};
+
+const nominee = { name: "SSgt Jane Doe", afsc: "3D0X2", unit: "99 CS" };
+
+describe("analyzeAwardSlot", () => {
+  it("adds the bullet dash the 1206 preview adds", () => {
+    expect(analyzeAwardSlot("c", "C", 0, "Drove ops", 1).text).toBe("- Drove ops");
+    expect(analyzeAwardSlot("c", "C", 0, "- Drove ops", 1).text).toBe("- Drove ops");
+  });
+
+  it("reports overflow when the statement needs more lines than its target", () => {
+    const slot = analyzeAwardSlot("c", "C", 0, LONG, 2);
+    expect(slot.lineCount).toBeGreaterThan(2);
+    expect(slot.status).toBe("overflow");
+  });
+
+  it("reports short statements and how full the last line is", () => {
+    const slot = analyzeAwardSlot("c", "C", 0, ONE_LINE, 2);
+    expect(slot.lineCount).toBe(1);
+    expect(slot.status).toBe("short");
+    const expected = Math.round((getTextWidthPx(`- ${ONE_LINE}`) / AF1206_LINE_WIDTH_PX) * 100);
+    expect(slot.lastLineFillPercent).toBe(expected);
+  });
+
+  it("keeps every broken line within the form line width", () => {
+    const slot = analyzeAwardSlot("c", "C", 0, LONG, 5);
+    for (const line of slot.lines) {
+      expect(getTextWidthPx(line.trimEnd())).toBeLessThanOrEqual(AF1206_LINE_WIDTH_PX);
+    }
+  });
+
+  it("marks blank slots empty", () => {
+    expect(analyzeAwardSlot("c", "C", 0, "  ", 2).status).toBe("empty");
+  });
+});
+
+describe("buildAward1206Layout", () => {
+  it("orders 1206 headings and slots and drops empty slots", () => {
+    const layout = buildAward1206Layout(baseShell, nominee);
+    expect(layout.categories.map((c) => c.heading)).toEqual([
+      "PERFORMANCE IN PRIMARY DUTY",
+      "WHOLE AIRMAN CONCEPT",
+    ]);
+    expect(layout.categories[0].slots.map((s) => s.slotIndex)).toEqual([0, 1]);
+    expect(layout.report).toHaveLength(3);
+    expect(getAward1206OverflowCount(layout)).toBe(1);
+  });
+
+  it("prefers the user's custom category label", () => {
+    const layout = buildAward1206Layout(baseShell, nominee, [
+      { category_key: "nco", label: "NCO of the Quarter" },
+    ]);
+    expect(layout.categoryLabel).toBe("NCO of the Quarter");
+    expect(buildAward1206Layout(baseShell, nominee).categoryLabel).toBe("NCO");
+  });
+
+  it("names the file after the nominee", () => {
+    const layout = buildAward1206Layout(baseShell, nominee);
+    expect(getAward1206FileName(layout, 2026)).toBe("AF1206_2026_SSgt_Jane.pdf");
+  });
+});
+
+describe("formatAwardPeriodLabel", () => {
+  it("formats annual, quarterly and special periods", () => {
+    expect(formatAwardPeriodLabel(baseShell)).toBe("FY2026 Q2");
+    expect(formatAwardPeriodLabel({ ...baseShell, award_period_type: "annual", is_fiscal_year: false })).toBe(
+      "2026 Annual"
+    );
+    expect(
+      formatAwardPeriodLabel({
+        ...baseShell,
+        award_period_type: "special",
+        period_start_date: "2026-03-01",
+        period_end_date: "2026-06-30",
+      })
+    ).toBe("Mar 1 - Jun 30, 2026");
+  });
+});
+
+describe("renderAward1206Pdf", () => {
+  it("produces a loadable PDF", async () => {
+    const bytes = await renderAward1206Pdf(buildAward1206Layout(baseShell, nominee));
+    const doc = await PDFDocument.load(bytes);
+    expect(doc.getPageCount()).toBeGreaterThanOrEqual(1);
+    expect(doc.getTitle()).toBe("AF Form 1206 - SSgt Jane Doe");
+  });
+});
@@ -23,6 +23,8 @@ import {
   optimizeBullet,
   toDisplayText,
   fromDisplayText,
+  getMonospaceCharsPerLine,
+  getMonospaceLineSegments,
 } from "../bullet-fitting";
 
 // ---------------------------------------------------------------------------
@@ -918,3 +920,38 @@ describe("Line re-evaluation after per-line compression", () => {
     expect(lineCountAfter).toBeLessThanOrEqual(lineCountBefore);
   });
 });
+
+// ---------------------------------------------------------------------------
+// Monospace layout (decoration citations)
+// ---------------------------------------------------------------------------
+describe("Monospace line layout", () => {
+  it("derives characters per line from the Courier advance width", () => {
+    expect(getMonospaceCharsPerLine(11)).toBe(70);
+    expect(getMonospaceCharsPerLine(12)).toBe(65);
+    expect(getMonospaceCharsPerLine(10)).toBe(78);
+  });
+
+  it("breaks at spaces without exceeding the line length", () => {
+    const text = "aaaa bbbb cccc dddd";
+    const segments = getMonospaceLineSegments(text, 10);
+    expect(segments.map((s) => s.text)).toEqual(["aaaa bbbb", "cccc dddd"]);
+    for (const segment of segments) {
+      expect(text.slice(segment.startIndex, segment.endIndex)).toBe(segment.text);
+    }
+  });
+
+  it("hard-breaks words longer than a line", () => {
+    const segments = getMonospaceLineSegments("abcdefghijkl", 5);
+    expect(segments.map((s) => s.text)).toEqual(["abcde", "fghij", "kl"]);
+  });
+
+  it("forces a break at newlines", () => {
+    const segments = getMonospaceLineSegments("one\ntwo", 20);
+    expect(segments.map((s) => s.text)).toEqual(["one", "two"]);
+  });
+
+  it("flags lines past the line limit as overflow", () => {
+    const segments = getMonospaceLineSegments("aaaa bbbb cccc dddd eeee", 10, 2);
+    expect(segments.map((s) => s.isOverflow)).toEqual([false, false, true]);
+  });
+});
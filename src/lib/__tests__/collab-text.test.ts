@@ -0,0 +1,131 @@
+import { describe, expect, it } from "vitest";
+import { CollabTextDoc, type CollabTextOp } from "../collab-text";
+
+const SAVED = "Led 12 Amn through surge";
+
+function peers(text = SAVED) {
+  return [new CollabTextDoc("a", text), new CollabTextDoc("b", text)] as const;
+}
+
+function deliver(doc: CollabTextDoc, ops: CollabTextOp[]) {
+  for (const op of ops) doc.apply(op);
+}
+
+describe("CollabTextDoc", () => {
+  it("merges concurrent edits to the same statement on both peers", () => {
+    const [a, b] = peers();
+    const fromA = a.applyLocalText("Led 12 Amn through 30-day surge");
+    const fromB = b.applyLocalText("Led 14 Amn through surge");
+
+    deliver(a, fromB);
+    deliver(b, fromA);
+
+    expect(a.text).toBe("Led 14 Amn through 30-day surge");
+    expect(b.text).toBe(a.text);
+  });
+
+  it("orders concurrent inserts at the same spot the same way everywhere", () => {
+    const [a, b] = peers("Led Amn");
+    const fromA = a.applyLocalText("Led 12 Amn");
+    const fromB = b.applyLocalText("Led 40 Amn");
+
+    deliver(a, fromB);
+    deliver(b, fromA);
+
+    expect(a.text).toBe(b.text);
+    expect(a.text).toMatch(/^Led (12 40|40 12) Amn$/);
+  });
+
+  it("applies out-of-order ops once their characters arrive, and ignores repeats", () => {
+    const [a, b] = peers("");
+    const first = a.applyLocalText("Led");
+    const second = a.applyLocalText("Led 12");
+    const third = a.applyLocalText("Led 1");
+
+    deliver(b, third);
+    deliver(b, second);
+    expect(b.pendingCount).toBeGreaterThan(0);
+    expect(b.text).toBe("");
+
+    deliver(b, first);
+    deliver(b, [...first, ...second]);
+    expect(b.pendingCount).toBe(0);
+    expect(b.text).toBe("Led 1");
+  });
+
+  it("catches a late joiner up from a snapshot", () => {
+    const [a] = peers();
+    a.applyLocalText("Led 12 Amn through 30-day surge");
+
+    const joiner = CollabTextDoc.fromSnapshot("c", a.snapshot());
+    expect(joiner.text).toBe(a.text);
+
+    deliver(a, joiner.applyLocalText("Led 12 Amn through 30-day surge, 140 sorties"));
+    expect(a.text).toBe("Led 12 Amn through 30-day surge, 140 sorties");
+  });
+
+  it("unions snapshots without duplicating shared characters", () => {
+    const [a, b] = peers();
+    a.applyLocalText("Led 12 Amn through 30-day surge");
+    b.applyLocalText("Led 12 Amn thru surge");
+
+    expect(a.merge(b.snapshot())).toBe(true);
+    expect(b.merge(a.snapshot())).toBe(true);
+    expect(a.text).toBe("Led 12 Amn thru 30-day surge");
+    expect(b.text).toBe(a.text);
+    expect(a.merge(b.snapshot())).toBe(false);
+  });
+
+  it("seeds the same ids only for the same saved text", () => {
+    expect(new CollabTextDoc("a", SAVED).seed).toBe(new CollabTextDoc("b", SAVED).seed);
+    expect(new CollabTextDoc("a", SAVED).seed).not.toBe(new CollabTextDoc("a", `${SAVED}.`).seed);
+  });
+
+  it("keeps a caret anchored to its character through remote edits", () => {
+    const [a, b] = peers();
+    const caret = b.anchorAt("Led 12".length);
+
+    deliver(b, a.applyLocalText(`Wing: ${SAVED}`));
+    expect(b.indexOf(caret)).toBe("Wing: Led 12".length);
+
+    deliver(b, a.applyLocalText("Wing: Led 1 Amn through surge"));
+    expect(b.indexOf(caret)).toBe("Wing: Led 1".length);
+    expect(b.indexOf(null)).toBe(0);
+    expect(b.indexOf("99@nobody")).toBeNull();
+  });
+
+  it("tells saves from inside the session apart from text saved elsewhere", () => {
+    const [a, b] = peers();
+    deliver(b, a.applyLocalText("Led 12 Amn through 30-day surge"));
+
+    expect(b.hasHeld(SAVED)).toBe(true);
+    expect(b.hasHeld("Led 12 Amn through 30-day surge")).toBe(true);
+    expect(b.hasHeld("Led 12 Amn through 45-day surge")).toBe(false);
+    expect(CollabTextDoc.fromSnapshot("c", a.snapshot()).hasHeld("")).toBe(false);
+  });
+
+  it("merges a write made outside the live session once, however many peers apply it", () => {
+    const [a, b] = peers();
+    const outside = "Led 12 Amn through 30-day surge; zero mishaps";
+
+    const fromA = a.applySavedText(outside);
+    const fromB = b.applySavedText(outside);
+    deliver(a, fromB);
+    deliver(b, fromA);
+
+    expect(a.text).toBe(outside);
+    expect(b.text).toBe(outside);
+  });
+
+  it("keeps collaborators' typing when a write made outside the session is merged", () => {
+    const [a, b] = peers();
+    const typed = a.applyLocalText("Led 14 Amn through surge");
+    const saved = b.applySavedText(`${SAVED}; zero mishaps`);
+
+    deliver(a, saved);
+    deliver(b, typed);
+
+    expect(a.text).toBe("Led 14 Amn through surge; zero mishaps");
+    expect(b.text).toBe(a.text);
+  });
+});
@@ -264,4 +264,22 @@ describe("buildCyclePortfolio", () => {
       assertRateeNeutralCopy(portfolio.coachingLines);
     }
   });
+
+  it("counts only entries inside a custom evaluation period", () => {
+    const portfolio = buildCyclePortfolio(
+      [
+        makeEntry({ mpa: "executing_mission", date: "2026-02-01" }),
+        makeEntry({ mpa: "leading_people", date: "2026-06-30" }),
+        makeEntry({ mpa: "leading_people", date: "2026-07-01" }),
+        makeEntry({ mpa: "improving_unit", date: "2025-12-31" }),
+      ],
+      { period: { start: new Date(2026, 0, 1), end: new Date(2026, 5, 30) } }
+    );
+
+    expect(portfolio.outsidePeriodCount).toBe(2);
+    expect(portfolio.mpaStats.executing_mission.entryCount).toBe(1);
+    expect(portfolio.mpaStats.leading_people.entryCount).toBe(1);
+    expect(portfolio.mpaStats.improving_unit.entryCount).toBe(0);
+    expect(portfolio.coachingLines.join(" ")).toContain("before the 30-Jun-2026 closeout");
+  });
 });
@@ -0,0 +1,126 @@
+import { describe, expect, it } from "vitest";
+import { PDFDocument } from "pdf-lib";
+import {
+  CITATION_CHARS_PER_LINE,
+  analyzeCitationFit,
+  buildDecorationCitationLayout,
+  buildMyDecsPasteBlock,
+  getDecorationCitationFileName,
+  getFullRankTitle,
+  renderDecorationCitationPdf,
+  wrapCitationLines,
+  type DecorationCitationExportShell,
+} from "../decoration-citation-export";
+
+const SENTENCE =
+  "During this period, Sergeant Doe led a 12-member team that restored 300 network systems in 48 hours.";
+
+const baseShell: DecorationCitationExportShell = {
+  award_type: "afcm",
+  reason: "meritorious_service",
+  duty_title: "NCOIC, Cyber Operations",
+  unit: "legacy unit",
+  office: "42 CS/SCOO",
+  squadron: "42d Communications Squadron",
+  group_name: "",
+  wing: "42d Air Base Wing",
+  base_name: "Maxwell Air Force Base",
+  location: "Alabama",
+  start_date: "2024-06-01",
+  end_date: "2026-05-31",
+  citation_text: `${SENTENCE}\n\n${SENTENCE}`,
+};
+
+const recipient = { rank: "TSgt", name: "Jane A. Doe" };
+
+describe("getFullRankTitle", () => {
+  it("spells out ranks and leaves civilians untitled", () => {
+    expect(getFullRankTitle("TSgt")).toBe("Technical Sergeant");
+    expect(getFullRankTitle("Lt Col")).toBe("Lieutenant Colonel");
+    expect(getFullRankTitle("Civilian")).toBe("");
+    expect(getFullRankTitle(null)).toBe("");
+  });
+});
+
+describe("wrapCitationLines / analyzeCitationFit", () => {
+  it("keeps every Courier line within the per-line character count", () => {
+    const lines = wrapCitationLines(`${SENTENCE} ${SENTENCE} ${SENTENCE}`);
+    expect(lines.length).toBeGreaterThan(1);
+    for (const line of lines) {
+      expect(line.length).toBeLessThanOrEqual(CITATION_CHARS_PER_LINE);
+    }
+  });
+
+  it("counts the paragraph MyDecs receives and flags overflow", () => {
+    const fit = analyzeCitationFit("One  two\nthree", 20);
+    expect(fit.charCount).toBe("One two three".length);
+    expect(fit.status).toBe("fits");
+    expect(fit.remaining).toBe(7);
+
+    expect(analyzeCitationFit(SENTENCE, 50).status).toBe("overflow");
+    expect(analyzeCitationFit("   ").status).toBe("empty");
+  });
+});
+
+describe("buildDecorationCitationLayout", () => {
+  it("builds the header, unit, location and period lines from the shell", () => {
+    const layout = buildDecorationCitationLayout(baseShell, recipient);
+    expect(layout.headerLine).toBe("The Air Force Commendation Medal is awarded to");
+    expect(layout.recipientLine).toBe("Technical Sergeant Jane A. Doe");
+    expect(layout.unitLine).toBe("42 CS/SCOO, 42d Communications Squadron, 42d Air Base Wing");
+    expect(layout.locationLine).toBe("Maxwell Air Force Base, Alabama");
+    expect(layout.periodLine).toBe("for the period 1 June 2024 to 31 May 2026");
+    expect(layout.afForm).toBe("AF Form 2224");
+    expect(layout.fit.maxCharacters).toBe(1350);
+    expect(layout.body).not.toContain("\n");
+  });
+
+  it("falls back to the legacy unit and omits the period without both dates", () => {
+    const layout = buildDecorationCitationLayout(
+      { ...baseShell, office: "", squadron: "", wing: "", end_date: null },
+      recipient
+    );
+    expect(layout.unitLine).toBe("legacy unit");
+    expect(layout.periodLine).toBe("");
+  });
+
+  it("names files after the medal and recipient", () => {
+    const layout = buildDecorationCitationLayout(baseShell, recipient);
+    expect(getDecorationCitationFileName(layout, "pdf")).toBe("AFCM_Citation_Doe.pdf");
+    expect(getDecorationCitationFileName(layout, "txt")).toBe("AFCM_Citation_Doe.txt");
+  });
+  it("uses the Space Force medal name for Guardians", () => {
+    const layout = buildDecorationCitationLayout(baseShell, { rank: "Sgt", name: "Sam Lee" });
+    expect(layout.headerLine).toBe("The Air and Space Commendation Medal is awarded to");
+    expect(layout.recipientLine).toBe("Sergeant Sam Lee");
+    expect(getDecorationCitationFileName(layout, "pdf")).toBe("ASCOM_Citation_Lee.pdf");
+  });
+});
+
+describe("buildMyDecsPasteBlock", () => {
+  it("includes the paste paragraph and a per-line fit report", () => {
+    const layout = buildDecorationCitationLayout(baseShell, recipient);
+    const block = buildMyDecsPasteBlock(layout);
+    expect(block).toContain(layout.body);
+    expect(block).toContain(`${layout.fit.charCount}/1350 characters - fits`);
+    expect(block).toContain(`Courier New 11pt, ${CITATION_CHARS_PER_LINE} characters per line`);
+    expect(block).toContain(` 1 | ${String(layout.fit.lines[0].length).padStart(2, " ")} | ${layout.fit.lines[0]}`);
+  });
+
+  it("reports how far over the limit a citation runs", () => {
+    const layout = buildDecorationCitationLayout(
+      { ...baseShell, citation_text: Array(20).fill(SENTENCE).join(" ") },
+      recipient
+    );
+    expect(buildMyDecsPasteBlock(layout)).toContain(`OVER LIMIT by ${-layout.fit.remaining}`);
+  });
+});
+
+describe("renderDecorationCitationPdf", () => {
+  it("produces a loadable PDF", async () => {
+    const bytes = await renderDecorationCitationPdf(buildDecorationCitationLayout(baseShell, recipient));
+    const doc = await PDFDocument.load(bytes);
+    expect(doc.getPageCount()).toBeGreaterThanOrEqual(1);
+    expect(doc.getTitle()).toBe("AFCM Citation - Technical Sergeant Jane A. Doe");
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import {
+  analyzeCitationLineFit,
+  applyCitationCompression,
+  getCitationLineLimit,
+  suggestCitationCompressions,
+} from "@/features/decorations/line-fit";
+import { DECORATION_TYPES } from "@/features/decorations/constants";
+
+const afcm = DECORATION_TYPES.find((d) => d.key === "afcm")!;
+
+describe("getCitationLineLimit", () => {
+  it("uses the legacy line counts for 12pt and 10pt only", () => {
+    expect(getCitationLineLimit(afcm, 12)).toBe(afcm.maxLines12pt);
+    expect(getCitationLineLimit(afcm, 10)).toBe(afcm.maxLines10pt);
+    expect(getCitationLineLimit(afcm, 11)).toBeNull();
+  });
+});
+
+describe("analyzeCitationLineFit", () => {
+  it("counts overflow lines against the legacy limit", () => {
+    const text = Array.from({ length: 40 }, () => "word").join(" ");
+    const fit = analyzeCitationLineFit(text, { maxCharacters: 1350, maxLines12pt: 2, maxLines10pt: 2 }, 12);
+    expect(fit.charsPerLine).toBe(65);
+    expect(fit.lineCount).toBe(4);
+    expect(fit.maxLines).toBe(2);
+    expect(fit.overflowLineCount).toBe(2);
+  });
+
+  it("checks only characters at 11pt", () => {
+    const fit = analyzeCitationLineFit("x".repeat(30), { maxCharacters: 20, maxLines12pt: 1, maxLines10pt: 1 });
+    expect(fit.maxLines).toBeNull();
+    expect(fit.overflowLineCount).toBe(0);
+    expect(fit.isOverCharacters).toBe(true);
+  });
+});
+
+describe("suggestCitationCompressions", () => {
+  it("suggests approved abbreviations and skips ranks", () => {
+    const text = "Technical Sergeant Doe led every Noncommissioned Officer and mentored each Noncommissioned Officer in the flight.";
+    const suggestions = suggestCitationCompressions(text);
+    const nco = suggestions.find((s) => s.abbreviation === "NCO");
+    expect(nco?.occurrences).toBe(2);
+    expect(suggestions.some((s) => s.phrase === "Technical Sergeant")).toBe(false);
+  });
+
+  it("lets longer phrases claim their text first", () => {
+    const suggestions = suggestCitationCompressions("She mentored every Senior Noncommissioned Officer.");
+    expect(suggestions.map((s) => s.abbreviation)).toEqual(["SNCO"]);
+  });
+
+  it("applies a suggestion to every occurrence", () => {
+    const text = "Noncommissioned Officer and noncommissioned officer";
+    expect(applyCitationCompression(text, { phrase: "Noncommissioned Officer", abbreviation: "NCO" })).toBe(
+      "NCO and NCO",
+    );
+  });
+});
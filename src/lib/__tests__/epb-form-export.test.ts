@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { PDFDocument } from "pdf-lib";
+import {
+  buildEpbFormLayout,
+  getEpbExportFileName,
+  getEpbFormForRank,
+  renderEpbFormPdf,
+  type EpbFormExportRatee,
+} from "../epb-form-export";
+import { MAX_STATEMENT_CHARACTERS } from "../constants";
+
+const ratee: EpbFormExportRatee = {
+  name: "Doe, Jane",
+  rank: "TSgt",
+  afsc: "3D0X2",
+  unit: "99 CS, ACC, Nellis AFB NV",
+};
+
+const shell = {
+  cycle_year: 2026,
+  duty_description: "NCOIC, Client Systems; leads 12 Amn supporting 3K users.",
+  sections: [
+    { mpa: "hlr_assessment", statement_text: "My #1 of 14 TSgts; promote now!" },
+    { mpa: "leading_people", statement_text: "Mentored 8 Amn; 100% upgrade trng on time." },
+    { mpa: "executing_mission", statement_text: "Led 12-mbr team; restored 300 systems." },
+  ],
+};
+
+describe("getEpbFormForRank", () => {
+  it("maps grades to AF Form 910/911/912", () => {
+    expect(getEpbFormForRank("SrA").form).toBe("AF Form 910");
+    expect(getEpbFormForRank("TSgt").form).toBe("AF Form 910");
+    expect(getEpbFormForRank("MSgt").form).toBe("AF Form 911");
+    expect(getEpbFormForRank("SMSgt").form).toBe("AF Form 911");
+    expect(getEpbFormForRank("CMSgt").form).toBe("AF Form 912");
+  });
+});
+
+describe("buildEpbFormLayout", () => {
+  it("uses the SCOD cycle period for the shell's cycle year", () => {
+    const layout = buildEpbFormLayout(shell, ratee);
+    // TSgt SCOD is 30 Nov
+    expect(layout.periodFrom).toBe("01-Dec-2025");
+    expect(layout.periodThru).toBe("30-Nov-2026");
+    expect(layout.closeoutLabel).toBe("November 30");
+  });
+
+  it("orders the four MPAs like the form and keeps HLR separate", () => {
+    const layout = buildEpbFormLayout(shell, ratee);
+    expect(layout.statements.map((s) => s.mpa)).toEqual([
+      "executing_mission",
+      "leading_people",
+      "managing_resources",
+      "improving_unit",
+    ]);
+    expect(layout.statements[2].text).toBe("");
+    expect(layout.hlr.text).toBe("My #1 of 14 TSgts; promote now!");
+  });
+
+  it("flags statements over the character limit", () => {
+    const long = "x".repeat(MAX_STATEMENT_CHARACTERS + 1);
+    const layout = buildEpbFormLayout(
+      { ...shell, sections: [{ mpa: "improving_unit", statement_text: long }] },
+      ratee
+    );
+    const block = layout.statements.find((s) => s.mpa === "improving_unit")!;
+    expect(block.overLimit).toBe(true);
+    expect(block.charCount).toBe(MAX_STATEMENT_CHARACTERS + 1);
+  });
+
+  it("leaves the period blank for grades without a SCOD", () => {
+    const layout = buildEpbFormLayout(shell, { ...ratee, rank: "AB" });
+    expect(layout.periodFrom).toBeNull();
+    expect(layout.periodThru).toBeNull();
+  });
+});
+
+describe("getEpbExportFileName", () => {
+  it("builds a filesystem-safe name from cycle, grade and last name", () => {
+    const layout = buildEpbFormLayout(shell, { ...ratee, name: "Jane Q. O'Doe" });
+    expect(getEpbExportFileName(layout, 2026)).toBe("EPB_2026_TSgt_ODoe.pdf");
+  });
+
+  it("takes the surname before the comma of a \"Last, First\" name", () => {
+    const layout = buildEpbFormLayout(shell, ratee);
+    expect(getEpbExportFileName(layout, 2026)).toBe("EPB_2026_TSgt_Doe.pdf");
+  });
+});
+
+describe("renderEpbFormPdf", () => {
+  it("produces a loadable PDF", async () => {
+    const bytes = await renderEpbFormPdf(buildEpbFormLayout(shell, ratee));
+    expect(new TextDecoder().decode(bytes.slice(0, 5))).toBe("%PDF-");
+    const doc = await PDFDocument.load(bytes);
+    expect(doc.getPageCount()).toBeGreaterThanOrEqual(1);
+    expect(doc.getTitle()).toContain("TSgt Doe, Jane");
+  });
+});
@@ -147,6 +147,25 @@ describe("evaluateEpbGenerationReadiness", () => {
     expect(warningText).not.toContain("edited after assessment");
   });
 
+  it("limits readiness to a custom evaluation period and warns about the rest", () => {
+    const period = { start: new Date(2026, 0, 15), end: new Date(2026, 2, 15) };
+    const result = evaluateEpbGenerationReadiness(
+      [
+        assessed("executing_mission", 80),
+        assessed("leading_people", 78),
+        assessed("managing_resources", 72, { date: "2025-11-01" }),
+      ],
+      { rank: "SSgt", period }
+    );
+
+    expect(result.totalAcaEntries).toBe(2);
+    expect(result.outsidePeriodCount).toBe(1);
+    expect(result.canGenerate).toBe(false);
+    expect(result.warnings.join(" ")).toContain(
+      "1 entry falls outside the evaluation period (15-Jan-2026 to 15-Mar-2026)"
+    );
+  });
+
   it("lists ACA entries that need a fresh assessment", () => {
     const fresh = assessed("executing_mission", 80);
     const missing = entry({ mpa: "managing_resources" });
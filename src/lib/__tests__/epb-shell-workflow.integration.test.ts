@@ -0,0 +1,17 @@
+import { describe, expect, it } from "vitest";
+import { canRunSqlFixture, runSqlFixture, sqlFixturePath } from "./local-sql-fixture";
+
+const SQL_FIXTURE = sqlFixturePath("epb_shell_workflow.sql");
+
+const PASS_MARK = "PASS epb workflow: ratee gated at review, stamps kept, history written";
+
+describe("epb_shells workflow trigger (local SQL)", () => {
+  it.skipIf(!canRunSqlFixture(SQL_FIXTURE))(
+    "gates the ratee at review and keeps stamps on non-state updates",
+    () => {
+      const { status, output } = runSqlFixture(SQL_FIXTURE);
+      expect(status, output).toBe(0);
+      expect(output).toContain(PASS_MARK);
+    },
+  );
+});
@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  canTransitionEPBWorkflow,
+  formatEPBWorkflowDue,
+  getEPBWorkflowReturnStates,
+  getEPBWorkflowRole,
+  getEPBWorkflowSuspense,
+  getNextEPBWorkflowState,
+  isEPBWorkflowState,
+} from "../epb-workflow";
+
+const OVERRIDE = {
+  start: new Date(2026, 0, 1),
+  end: new Date(2026, 11, 31),
+  reason: "cro" as const,
+};
+
+describe("EPB workflow transitions", () => {
+  it("moves forward one step at a time", () => {
+    expect(getNextEPBWorkflowState("drafting")).toBe("ratee_review");
+    expect(getNextEPBWorkflowState("senior_rater")).toBe("finalized");
+    expect(getNextEPBWorkflowState("finalized")).toBeNull();
+    expect(canTransitionEPBWorkflow("drafting", "ratee_review", "supervisor")).toBe(true);
+    expect(canTransitionEPBWorkflow("drafting", "rater", "supervisor")).toBe(false);
+  });
+
+  it("returns to any earlier step, nearest first", () => {
+    expect(getEPBWorkflowReturnStates("rater")).toEqual(["ratee_review", "drafting"]);
+    expect(getEPBWorkflowReturnStates("drafting")).toEqual([]);
+    expect(canTransitionEPBWorkflow("finalized", "drafting", "supervisor")).toBe(true);
+    expect(canTransitionEPBWorkflow("rater", "rater", "supervisor")).toBe(false);
+  });
+
+  it("keeps the ratee between drafting and their own review", () => {
+    expect(canTransitionEPBWorkflow("drafting", "ratee_review", "ratee")).toBe(true);
+    expect(canTransitionEPBWorkflow("ratee_review", "drafting", "ratee")).toBe(true);
+    expect(canTransitionEPBWorkflow("ratee_review", "rater", "ratee")).toBe(false);
+    expect(canTransitionEPBWorkflow("rater", "ratee_review", "ratee")).toBe(false);
+    expect(canTransitionEPBWorkflow("senior_rater", "finalized", "ratee")).toBe(false);
+    expect(canTransitionEPBWorkflow("ratee_review", "rater", "supervisor")).toBe(true);
+  });
+
+  it("treats only the owner of a non-managed shell as the ratee", () => {
+    expect(getEPBWorkflowRole({ user_id: "u-1", team_member_id: null }, "u-1")).toBe("ratee");
+    expect(getEPBWorkflowRole({ user_id: "u-1", team_member_id: null }, "sup-1")).toBe("supervisor");
+    expect(getEPBWorkflowRole({ user_id: "sup-1", team_member_id: "tm-1" }, "sup-1")).toBe("supervisor");
+  });
+
+  it("recognizes only known states", () => {
+    expect(isEPBWorkflowState("additional_rater")).toBe(true);
+    expect(isEPBWorkflowState("archived")).toBe(false);
+    expect(isEPBWorkflowState(null)).toBe(false);
+  });
+});
+
+describe("getEPBWorkflowSuspense", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2026, 10, 25));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("keys each step to its SCOD milestone", () => {
+    const rater = getEPBWorkflowSuspense("rater", "SSgt", OVERRIDE);
+    expect(rater?.dueDate).toEqual(new Date(2026, 10, 21));
+    expect(rater?.milestoneLabel).toBe("EPB due to MSgt/Flight Chief");
+    expect(rater?.isOverdue).toBe(true);
+
+    const senior = getEPBWorkflowSuspense("senior_rater", "SSgt", OVERRIDE);
+    expect(senior?.dueDate).toEqual(new Date(2026, 11, 31));
+    expect(senior?.daysFromNow).toBe(36);
+    expect(senior?.isOverdue).toBe(false);
+  });
+
+  it("has no suspense once finalized or without a close-out", () => {
+    expect(getEPBWorkflowSuspense("finalized", "SSgt", OVERRIDE)).toBeNull();
+    expect(getEPBWorkflowSuspense("drafting", null, null)).toBeNull();
+  });
+});
+
+describe("formatEPBWorkflowDue", () => {
+  it("reads naturally around zero", () => {
+    expect(formatEPBWorkflowDue({ daysFromNow: 1 })).toBe("Due in 1 day");
+    expect(formatEPBWorkflowDue({ daysFromNow: 0 })).toBe("Due today");
+    expect(formatEPBWorkflowDue({ daysFromNow: -3 })).toBe("3 days overdue");
+  });
+});
@@ -12,6 +12,7 @@ import {
   mergeImpactAssessment,
   normalizeImpactBooster,
   parseImpactAssessment,
+  parseImpactBoosterPrompts,
   removeImpactBoosterAnswer,
   seedImpactBoosterDraftFields,
   setImpactBoosterFreeform,
@@ -209,6 +210,27 @@ describe("mergeImpactAssessment / parseImpactAssessment", () => {
   });
 });
 
+describe("parseImpactBoosterPrompts", () => {
+  it("keeps well-formed questions and drops invalid levers", () => {
+    const prompts = parseImpactBoosterPrompts([
+      { question: " How many hours saved? ", category: "impact", lever: "time", hint: "hrs/wk" },
+      { question: "Budget?", lever: "nope", sentenceNumber: 2 },
+      { question: "   " },
+      null,
+      "not an object",
+    ]);
+    expect(prompts).toEqual([
+      { question: "How many hours saved?", category: "impact", hint: "hrs/wk", lever: "time" },
+      { question: "Budget?", category: "general", sentenceNumber: 2 },
+    ]);
+  });
+
+  it("returns an empty list for non-array payloads", () => {
+    expect(parseImpactBoosterPrompts(undefined)).toEqual([]);
+    expect(parseImpactBoosterPrompts({ question: "Q" })).toEqual([]);
+  });
+});
+
 describe("AF stewardship defaults", () => {
   it("uses AF vernacular in fallback prompts and stewardship brief", () => {
     const text = DEFAULT_IMPACT_BOOSTER_PROMPTS.map((p) => p.question).join(" ");
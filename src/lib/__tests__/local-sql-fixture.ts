@@ -0,0 +1,79 @@
+import { spawnSync } from "node:child_process";
+import { existsSync, readFileSync } from "node:fs";
+import path from "node:path";
+
+/**
+ * Harness for the supabase/tests/*.sql fixtures: they run with psql against the
+ * local MyEPBuddy stack (54322) and are skipped wherever that isn't running.
+ */
+
+const REPO_ROOT = path.resolve(__dirname, "../../..");
+const CONFIG_TOML = path.join(REPO_ROOT, "supabase/config.toml");
+
+const PSQL_ARGS = [
+  "-h",
+  "127.0.0.1",
+  "-p",
+  "54322",
+  "-U",
+  "postgres",
+  "-d",
+  "postgres",
+  "-v",
+  "ON_ERROR_STOP=1",
+];
+
+function readProjectId(): string | null {
+  if (!existsSync(CONFIG_TOML)) return null;
+  const match = readFileSync(CONFIG_TOML, "utf8").match(
+    /^\s*project_id\s*=\s*"([^"]+)"/m,
+  );
+  return match?.[1] ?? null;
+}
+
+function localDbReachable(): boolean {
+  const result = spawnSync("psql", [...PSQL_ARGS, "-tAc", "SELECT 1"], {
+    env: { ...process.env, PGPASSWORD: "postgres" },
+    encoding: "utf8",
+  });
+  return result.status === 0 && (result.stdout ?? "").trim() === "1";
+}
+
+function myepbuddyDbContainerRunning(): boolean {
+  const result = spawnSync("docker", ["ps", "--format", "{{.Names}}"], {
+    encoding: "utf8",
+  });
+  if (result.status !== 0) return false;
+  return (result.stdout ?? "")
+    .split("\n")
+    .some((n) => n.trim() === "supabase_db_myepbuddy");
+}
+
+/** Absolute path of a fixture under supabase/tests. */
+export function sqlFixturePath(name: string): string {
+  return path.join(REPO_ROOT, "supabase/tests", name);
+}
+
+export function canRunSqlFixture(fixture: string): boolean {
+  return (
+    readProjectId() === "myepbuddy" &&
+    myepbuddyDbContainerRunning() &&
+    localDbReachable() &&
+    existsSync(fixture)
+  );
+}
+
+/** Runs the fixture; returns psql's exit status and stdout + stderr. */
+export function runSqlFixture(fixture: string): {
+  status: number | null;
+  output: string;
+} {
+  const result = spawnSync("psql", [...PSQL_ARGS, "-f", fixture], {
+    env: { ...process.env, PGPASSWORD: "postgres" },
+    encoding: "utf8",
+  });
+  return {
+    status: result.status,
+    output: `${result.stdout ?? ""}\n${result.stderr ?? ""}`,
+  };
+}
@@ -0,0 +1,101 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildMentorPersonaPrompt,
+  buildMentorPersonaPromptSection,
+  collectMentorPersonaSources,
+  MAX_MENTOR_PERSONA_SOURCES,
+  type MentorPersonaComment,
+} from "../mentor-personas";
+
+function comment(partial: Partial<MentorPersonaComment> & { id: string }): MentorPersonaComment {
+  return {
+    status: "accepted",
+    original_text: null,
+    highlighted_text: null,
+    comment_text: null,
+    suggestion_type: "comment",
+    replacement_text: null,
+    is_full_rewrite: false,
+    rewrite_text: null,
+    ...partial,
+  };
+}
+
+describe("collectMentorPersonaSources", () => {
+  it("keeps only accepted feedback", () => {
+    const sources = collectMentorPersonaSources([
+      comment({ id: "a", comment_text: "Lead with the impact" }),
+      comment({ id: "p", status: "pending", comment_text: "Too long" }),
+      comment({ id: "d", status: "dismissed", comment_text: "Cut this" }),
+    ]);
+    expect(sources.map((s) => s.id)).toEqual(["a"]);
+  });
+
+  it("classifies rewrites, replacements, cuts and comments", () => {
+    const sources = collectMentorPersonaSources([
+      comment({
+        id: "rewrite",
+        is_full_rewrite: true,
+        original_text: "Was responsible for training",
+        rewrite_text: "Trained 8 Amn",
+      }),
+      comment({
+        id: "replace",
+        suggestion_type: "replace",
+        highlighted_text: "helped with",
+        replacement_text: "drove",
+        comment_text: "Stronger verb",
+      }),
+      comment({ id: "cut", suggestion_type: "delete", highlighted_text: "very" }),
+      comment({ id: "note", comment_text: "  Tie it to the wing  " }),
+      comment({ id: "empty", suggestion_type: "replace", replacement_text: "  " }),
+    ]);
+
+    expect(sources).toEqual([
+      { id: "rewrite", kind: "rewrite", before: "Was responsible for training", after: "Trained 8 Amn", note: "" },
+      { id: "replace", kind: "replace", before: "helped with", after: "drove", note: "Stronger verb" },
+      { id: "cut", kind: "cut", before: "very", note: "" },
+      { id: "note", kind: "comment", note: "Tie it to the wing" },
+    ]);
+  });
+
+  it("orders newest first and caps the batch", () => {
+    const comments = Array.from({ length: MAX_MENTOR_PERSONA_SOURCES + 5 }, (_, i) =>
+      comment({
+        id: `c${i}`,
+        comment_text: `note ${i}`,
+        created_at: new Date(Date.UTC(2026, 0, 1 + i)).toISOString(),
+      })
+    );
+    const sources = collectMentorPersonaSources(comments);
+    expect(sources).toHaveLength(MAX_MENTOR_PERSONA_SOURCES);
+    expect(sources[0].id).toBe(`c${MAX_MENTOR_PERSONA_SOURCES + 4}`);
+  });
+});
+
+describe("buildMentorPersonaPrompt", () => {
+  it("lays out each piece of feedback with its kind", () => {
+    const prompt = buildMentorPersonaPrompt(
+      collectMentorPersonaSources([
+        comment({ id: "r", suggestion_type: "replace", replacement_text: "drove", comment_text: "Stronger verb" }),
+        comment({ id: "c", suggestion_type: "delete", highlighted_text: "very" }),
+      ])
+    );
+    expect(prompt).toContain("These are 2 pieces of feedback");
+    expect(prompt).toContain("1.\n   Replaced: (selection)\n   With: drove\n   Mentor comment: Stronger verb");
+    expect(prompt).toContain("2.\n   Cut: very");
+  });
+});
+
+describe("buildMentorPersonaPromptSection", () => {
+  it("names the mentor and carries the fingerprint", () => {
+    const section = buildMentorPersonaPromptSection("SMSgt Lee", "This mentor's style is characterized by...");
+    expect(section).toContain("=== MENTOR WRITING STYLE ===");
+    expect(section).toContain("Write the way SMSgt Lee edits statements.");
+    expect(section.endsWith("This mentor's style is characterized by...")).toBe(true);
+  });
+
+  it("is empty without a fingerprint", () => {
+    expect(buildMentorPersonaPromptSection("SMSgt Lee", "")).toBe("");
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import {
+  countUnread,
+  formatNotificationAge,
+  setNotificationTypeMuted,
+} from "@/lib/notifications";
+
+describe("setNotificationTypeMuted", () => {
+  it("adds and removes a type in settings order", () => {
+    const muted = setNotificationTypeMuted(["shell_share"], "team_request", true);
+    expect(muted).toEqual(["team_request", "shell_share"]);
+    expect(setNotificationTypeMuted(muted, "shell_share", false)).toEqual(["team_request"]);
+    expect(setNotificationTypeMuted(muted, "team_request", true)).toEqual(muted);
+  });
+});
+
+describe("countUnread", () => {
+  it("counts rows without read_at", () => {
+    expect(
+      countUnread([{ read_at: null }, { read_at: "2026-10-01T00:00:00Z" }, { read_at: null }])
+    ).toBe(2);
+  });
+});
+
+describe("formatNotificationAge", () => {
+  const now = new Date("2026-10-18T12:00:00Z");
+
+  it("uses short relative ages for the last week", () => {
+    expect(formatNotificationAge("2026-10-18T11:59:30Z", now)).toBe("Just now");
+    expect(formatNotificationAge("2026-10-18T11:55:00Z", now)).toBe("5m");
+    expect(formatNotificationAge("2026-10-18T09:00:00Z", now)).toBe("3h");
+    expect(formatNotificationAge("2026-10-16T12:00:00Z", now)).toBe("2d");
+  });
+
+  it("falls back to the date after a week", () => {
+    expect(formatNotificationAge("2026-10-01T12:00:00Z", now)).toBe("1 Oct");
+  });
+});
@@ -0,0 +1,18 @@
+import { describe, expect, it } from "vitest";
+import { canRunSqlFixture, runSqlFixture, sqlFixturePath } from "./local-sql-fixture";
+
+const SQL_FIXTURE = sqlFixturePath("opb_shell_access.sql");
+
+const PASS_MARK =
+  "PASS opb shell access: stranger denied; chain supervisor, member owner and share recipient can edit";
+
+describe("can_edit_opb_shell (local SQL)", () => {
+  it.skipIf(!canRunSqlFixture(SQL_FIXTURE))(
+    "denies unrelated users and lets the chain, member owner and share recipients edit",
+    () => {
+      const { status, output } = runSqlFixture(SQL_FIXTURE);
+      expect(status, output).toBe(0);
+      expect(output).toContain(PASS_MARK);
+    },
+  );
+});
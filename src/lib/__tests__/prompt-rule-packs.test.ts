@@ -0,0 +1,71 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildOrganizationRulesSection,
+  mergePromptRules,
+  orderInheritedRules,
+} from "../prompt-rules/inherited";
+import type { InheritedPromptRule } from "../../types/database";
+
+function inherited(id: string, ruleText: string, depth: number): InheritedPromptRule {
+  return {
+    id,
+    rule_text: ruleText,
+    pack_id: `pack-${depth}`,
+    pack_name: `Pack ${depth}`,
+    owner_id: `owner-${depth}`,
+    owner_name: `Supervisor ${depth}`,
+    depth,
+  };
+}
+
+describe("orderInheritedRules", () => {
+  it("puts the nearest supervisor first and the most senior last", () => {
+    const ordered = orderInheritedRules([
+      inherited("wing-1", "No '#' symbols", 3),
+      inherited("flight-1", "Lead with the action", 1),
+      inherited("sq-1", "Spell out unit names on first use", 2),
+      inherited("flight-2", "Quantify every impact", 1),
+    ]);
+
+    expect(ordered.map((r) => r.id)).toEqual(["flight-1", "flight-2", "sq-1", "wing-1"]);
+  });
+});
+
+describe("mergePromptRules", () => {
+  it("keeps a repeated inherited rule only at its most senior position", () => {
+    const { organizationRules } = mergePromptRules(
+      [],
+      [
+        inherited("wing", "No '#' symbols", 3),
+        inherited("flight", "no  '#'  symbols ", 1),
+        inherited("sq", "Spell out unit names on first use", 2),
+      ],
+    );
+
+    expect(organizationRules).toEqual(["Spell out unit names on first use", "No '#' symbols"]);
+  });
+
+  it("drops the user's copy of a rule their chain already enforces", () => {
+    const merged = mergePromptRules(
+      ["Use present tense", "No '#' symbols", "  "],
+      [inherited("wing", "No '#' Symbols", 2)],
+    );
+
+    expect(merged.userRules).toEqual(["Use present tense"]);
+    expect(merged.organizationRules).toEqual(["No '#' Symbols"]);
+  });
+});
+
+describe("buildOrganizationRulesSection", () => {
+  it("returns an empty string without rules", () => {
+    expect(buildOrganizationRulesSection([])).toBe("");
+  });
+
+  it("numbers rules under a header that outranks user rules", () => {
+    const section = buildOrganizationRulesSection(["No '#' symbols", "Spell out unit names"]);
+
+    expect(section).toContain("ORGANIZATION RULES");
+    expect(section).toContain("INCLUDING USER-DEFINED RULES");
+    expect(section).toMatch(/1\. No '#' symbols\n2\. Spell out unit names$/);
+  });
+});
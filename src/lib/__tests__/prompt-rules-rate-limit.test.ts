@@ -0,0 +1,20 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { checkPromptRulesRateLimit } from "@/lib/prompt-rules/rate-limit";
+
+describe("checkPromptRulesRateLimit", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("allows 30 mutations a minute per user, then resets", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2026-10-18T12:00:00Z"));
+
+    for (let i = 0; i < 30; i++) expect(checkPromptRulesRateLimit("user-1")).toBe(true);
+    expect(checkPromptRulesRateLimit("user-1")).toBe(false);
+    expect(checkPromptRulesRateLimit("user-2")).toBe(true);
+
+    vi.advanceTimersByTime(60 * 1000 + 1);
+    expect(checkPromptRulesRateLimit("user-1")).toBe(true);
+  });
+});
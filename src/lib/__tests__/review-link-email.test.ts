@@ -52,4 +52,23 @@ describe("buildReviewLinkEmail", () => {
     expect(email.html).toContain("award package");
     expect(email.text).toContain("award package");
   });
+
+  it("uses OPB wording for officer performance briefs", () => {
+    const email = buildReviewLinkEmail({
+      siteUrl: "https://myepbuddy.com",
+      senderDisplayName: "Maj Chen",
+      rateeName: "Capt Patel",
+      rateeRank: "Capt",
+      mentorLabel: "Squadron Commander",
+      reviewUrl: "https://myepbuddy.com/review/opb/tok-7",
+      expiresAt: "soon",
+      shellType: "opb",
+    });
+
+    expect(email.subject).toBe(
+      "Maj Chen requested your feedback on their OPB"
+    );
+    expect(email.html).toContain("Officer Performance Brief (OPB)");
+    expect(email.text).toContain("https://myepbuddy.com/review/opb/tok-7");
+  });
 });
@@ -1,7 +1,12 @@
 import { describe, expect, it } from "vitest";
 import {
+  getActiveCyclePeriod,
+  getActiveCycleYear,
+  getCycleCloseoutTitle,
   getCyclePeriodForYear,
+  getCyclePeriodOverride,
   getStaticCloseoutDate,
+  normalizeEvaluationPeriodFields,
   STATIC_CLOSEOUT_DATES,
 } from "../constants";
 
@@ -48,3 +53,75 @@ describe("enlisted SCOD dates", () => {
     expect(period?.closeoutLabel).toBe("May 31");
   });
 });
+
+describe("evaluation period overrides", () => {
+  const now = new Date(2026, 4, 1);
+  const cro = getCyclePeriodOverride(
+    { eval_period_start: "2025-09-01", eval_period_end: "2026-06-15", eval_period_reason: "cro" },
+    now
+  );
+
+  it("replaces the SCOD cycle while the override is running", () => {
+    expect(cro).not.toBeNull();
+    const period = getActiveCyclePeriod("TSgt", cro);
+    expect(period?.rangeLabel).toBe("01-Sep-2025 to 15-Jun-2026");
+    expect(period?.year).toBe(2026);
+    expect(period?.overrideReason).toBe("cro");
+    expect(getCycleCloseoutTitle(period!)).toBe("CRO close-out: June 15");
+    expect(getStaticCloseoutDate("TSgt", cro)?.label).toBe("June 15");
+    expect(getActiveCycleYear("TSgt", cro)).toBe(2026);
+  });
+
+  it("covers ranks without a SCOD tier", () => {
+    const ang = getCyclePeriodOverride(
+      { eval_period_start: "2026-01-01", eval_period_end: "2026-12-31", eval_period_reason: "ang_cycle" },
+      now
+    );
+    expect(getActiveCyclePeriod("Spc2", ang)?.rangeLabel).toBe("01-Jan-2026 to 31-Dec-2026");
+    expect(getActiveCyclePeriod("Spc2")).toBeNull();
+  });
+
+  it("only replaces the cycle year it closes out in", () => {
+    expect(getCyclePeriodForYear("TSgt", 2026, cro)?.overrideReason).toBe("cro");
+    const prior = getCyclePeriodForYear("TSgt", 2025, cro);
+    expect(prior?.rangeLabel).toBe("01-Dec-2024 to 30-Nov-2025");
+    expect(getCycleCloseoutTitle(prior!)).toBe("SCOD: November 30");
+  });
+
+  it("falls back to the SCOD once the override has closed out", () => {
+    expect(
+      getCyclePeriodOverride(
+        { eval_period_start: "2025-09-01", eval_period_end: "2026-04-30", eval_period_reason: "cro" },
+        now
+      )
+    ).toBeNull();
+    expect(getCyclePeriodOverride({ eval_period_start: null, eval_period_end: null, eval_period_reason: null })).toBeNull();
+  });
+
+  it("validates override forms and clears dates when the SCOD applies", () => {
+    expect(
+      normalizeEvaluationPeriodFields({
+        eval_period_start: "2026-01-01",
+        eval_period_end: null,
+        eval_period_reason: "directed_by_commander",
+      }).error
+    ).toMatch(/both/);
+    expect(
+      normalizeEvaluationPeriodFields({
+        eval_period_start: "2026-03-01",
+        eval_period_end: "2026-02-01",
+        eval_period_reason: "afr_cycle",
+      }).error
+    ).toMatch(/after the start/);
+    expect(
+      normalizeEvaluationPeriodFields({
+        eval_period_start: "2026-03-01",
+        eval_period_end: "2026-09-01",
+        eval_period_reason: null,
+      })
+    ).toEqual({
+      value: { eval_period_start: null, eval_period_end: null, eval_period_reason: null },
+      error: null,
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+const { embed } = vi.hoisted(() => ({ embed: vi.fn() }));
+vi.mock("ai", () => ({ embed }));
+
+import {
+  SEARCH_EMBEDDING_DIMENSIONS,
+  embedSearchQuery,
+  toVectorLiteral,
+} from "../search-embeddings";
+
+const savedKey = process.env.OPENAI_API_KEY;
+
+afterEach(() => {
+  if (savedKey === undefined) delete process.env.OPENAI_API_KEY;
+  else process.env.OPENAI_API_KEY = savedKey;
+  embed.mockReset();
+});
+
+describe("toVectorLiteral", () => {
+  it("formats a full-length embedding as a pgvector literal", () => {
+    const literal = toVectorLiteral(Array(SEARCH_EMBEDDING_DIMENSIONS).fill(0.25));
+    expect(literal.startsWith("[0.25,0.25,")).toBe(true);
+    expect(literal.endsWith(",0.25]")).toBe(true);
+  });
+
+  it("rejects embeddings that don't fit the column", () => {
+    expect(() => toVectorLiteral([0.1, 0.2])).toThrow(/1536-dimension/);
+  });
+});
+
+describe("embedSearchQuery", () => {
+  it("searches lexically when no OpenAI key is configured", async () => {
+    delete process.env.OPENAI_API_KEY;
+    await expect(embedSearchQuery("faster inspections")).resolves.toBeNull();
+    expect(embed).not.toHaveBeenCalled();
+  });
+
+  it("returns the query embedding as a vector literal", async () => {
+    process.env.OPENAI_API_KEY = "sk-test";
+    embed.mockResolvedValue({ embedding: Array(SEARCH_EMBEDDING_DIMENSIONS).fill(0.5) });
+
+    const literal = await embedSearchQuery("faster inspections");
+
+    expect(literal?.startsWith("[0.5,")).toBe(true);
+    expect(embed).toHaveBeenCalledWith(expect.objectContaining({ value: "faster inspections", maxRetries: 0 }));
+  });
+
+  it("falls back to lexical search when the provider fails", async () => {
+    process.env.OPENAI_API_KEY = "sk-test";
+    embed.mockRejectedValue(new Error("timeout"));
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await expect(embedSearchQuery("faster inspections")).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import {
+  SERVICE_PROFILES,
+  formatServicePromptContext,
+  getServiceDecoration,
+  getServiceProfile,
+  isRankInService,
+  resolveServiceForRank,
+} from "@/lib/service-profiles";
+import { RANK_TO_TIER, getActiveCyclePeriod, isEnlisted, SUPERVISOR_RANKS } from "@/lib/constants";
+
+describe("getServiceProfile", () => {
+  it("falls back to the Air Force for missing or unknown values", () => {
+    expect(getServiceProfile(null).key).toBe("usaf");
+    expect(getServiceProfile("army").key).toBe("usaf");
+    expect(getServiceProfile("ussf").key).toBe("ussf");
+  });
+});
+
+describe("Space Force ranks", () => {
+  it("lists Guardian enlisted grades and shares officer grades", () => {
+    const ussf = SERVICE_PROFILES.ussf;
+    expect(ussf.enlistedRanks.map((r) => r.value)).toEqual([
+      "Spc1", "Spc2", "Spc3", "Spc4", "Sgt", "TSgt", "MSgt", "SMSgt", "CMSgt",
+    ]);
+    expect(ussf.officerRanks).toBe(SERVICE_PROFILES.usaf.officerRanks);
+  });
+
+  it("treats Spc/Sgt as enlisted with Air Force-equivalent cycle tiers", () => {
+    expect(isEnlisted("Spc4")).toBe(true);
+    expect(RANK_TO_TIER.Spc4).toBe("airman");
+    expect(RANK_TO_TIER.Sgt).toBe("ssgt");
+    expect(SUPERVISOR_RANKS).toContain("Sgt");
+    expect(getActiveCyclePeriod("Sgt")?.closeoutLabel).toBe("January 31");
+  });
+
+  it("checks rank membership per service", () => {
+    expect(isRankInService("Spc3", "usaf")).toBe(false);
+    expect(isRankInService("SrA", "ussf")).toBe(false);
+    expect(isRankInService("TSgt", "ussf")).toBe(true);
+    expect(isRankInService("Civilian", "ussf")).toBe(true);
+  });
+});
+
+describe("resolveServiceForRank", () => {
+  it("lets Space Force-only grades override the fallback", () => {
+    expect(resolveServiceForRank("Spc2", "usaf")).toBe("ussf");
+    expect(resolveServiceForRank("TSgt", "ussf")).toBe("ussf");
+    expect(resolveServiceForRank("TSgt", null)).toBe("usaf");
+  });
+});
+
+describe("service decorations", () => {
+  it("uses Air and Space medal names for Guardians", () => {
+    expect(getServiceDecoration("ussf", "afcm")?.name).toBe("Air and Space Commendation Medal");
+    expect(getServiceDecoration("ussf", "afcm")?.abbreviation).toBe("ASCOM");
+    expect(getServiceDecoration("usaf", "afcm")?.name).toBe("Air Force Commendation Medal");
+    expect(getServiceDecoration("ussf", "msm")?.maxCharacters).toBe(1350);
+  });
+});
+
+describe("formatServicePromptContext", () => {
+  it("adds nothing for the Air Force", () => {
+    expect(formatServicePromptContext(SERVICE_PROFILES.usaf)).toBe("");
+  });
+
+  it("describes Guardian wording, grades and competencies", () => {
+    const context = formatServicePromptContext(SERVICE_PROFILES.ussf);
+    expect(context).toContain("United States Space Force");
+    expect(context).toContain("Guardians");
+    expect(context).toContain("Spc1, Spc2, Spc3, Spc4, Sgt");
+    expect(context).toContain("Commitment, Connection, Character, Courage");
+  });
+});
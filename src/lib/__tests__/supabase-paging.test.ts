@@ -0,0 +1,39 @@
+import { describe, expect, it, vi } from "vitest";
+import { chunkIds, fetchAllRowsIn, IN_FILTER_CHUNK_SIZE, PAGE_SIZE } from "@/lib/supabase/paging";
+
+describe("chunkIds", () => {
+  it("splits ids into filter-sized chunks", () => {
+    const ids = Array.from({ length: IN_FILTER_CHUNK_SIZE * 2 + 1 }, (_, i) => `id-${i}`);
+    expect(chunkIds(ids).map((c) => c.length)).toEqual([IN_FILTER_CHUNK_SIZE, IN_FILTER_CHUNK_SIZE, 1]);
+    expect(chunkIds([])).toEqual([]);
+  });
+});
+
+describe("fetchAllRowsIn", () => {
+  it("pages each chunk past the row cap and concatenates the rows", async () => {
+    const ids = Array.from({ length: IN_FILTER_CHUNK_SIZE + 1 }, (_, i) => `id-${i}`);
+    // The first chunk has one full page plus a partial one
+    const rowsFor = (chunk: string[]) => (chunk.length > 1 ? PAGE_SIZE + 3 : 2);
+    const page = vi.fn(async (chunk: string[], from: number, to: number) => {
+      const total = rowsFor(chunk);
+      const count = Math.max(0, Math.min(to, total - 1) - from + 1);
+      return { data: Array.from({ length: count }, (_, i) => ({ n: from + i })), error: null };
+    });
+
+    const rows = await fetchAllRowsIn<{ n: number }>("accomplishments", ids, page);
+
+    expect(rows).toHaveLength(PAGE_SIZE + 3 + 2);
+    expect(page).toHaveBeenCalledTimes(3);
+  });
+
+  it("skips the query when there are no ids", async () => {
+    const page = vi.fn();
+    expect(await fetchAllRowsIn("accomplishments", [], page)).toEqual([]);
+    expect(page).not.toHaveBeenCalled();
+  });
+
+  it("labels query errors with the table", async () => {
+    const page = async () => ({ data: null, error: { message: "boom" } });
+    await expect(fetchAllRowsIn("epb_shells", ["id-1"], page)).rejects.toThrow("epb_shells: boom");
+  });
+});
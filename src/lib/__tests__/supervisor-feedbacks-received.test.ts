@@ -39,7 +39,7 @@ describe("getMyReceivedFeedbacks", () => {
     lastSelectArg = undefined;
   });
 
-  it("strips session_settings from shared feedback rows", async () => {
+  it("strips session_settings and aca_worksheet from shared feedback rows", async () => {
     mockGetUser.mockResolvedValue({ data: { user: { id: "ratee-1" } } });
     mockSharedFeedbacksQuery([
       {
@@ -58,6 +58,7 @@ describe("getMyReceivedFeedbacks", () => {
         created_at: "2026-01-01T00:00:00Z",
         updated_at: "2026-01-01T00:00:00Z",
         session_settings: "PRIVATE SETTINGS",
+        aca_worksheet: { ratings: [] },
         supervisor: { full_name: "Smith", rank: "MSgt" },
       },
     ]);
@@ -67,9 +68,11 @@ describe("getMyReceivedFeedbacks", () => {
     expect(result.error).toBeNull();
     expect(result.data).toHaveLength(1);
     expect(result.data[0]?.session_settings).toBe("");
+    expect(result.data[0]?.aca_worksheet).toBeNull();
     expect(result.data[0]?.content).toBe("Shared guide body");
     expect(lastSelectArg).toBeDefined();
     expect(lastSelectArg).not.toContain("session_settings");
+    expect(lastSelectArg).not.toContain("aca_worksheet");
   });
 });
 
@@ -79,7 +82,7 @@ describe("getFeedback", () => {
     mockFrom.mockReset();
   });
 
-  it("strips session_settings when caller is not the supervisor", async () => {
+  it("strips session_settings and aca_worksheet when caller is not the supervisor", async () => {
     mockGetUser.mockResolvedValue({ data: { user: { id: "ratee-1" } } });
     mockSingleFeedbackQuery({
       id: "fb-1",
@@ -90,6 +93,7 @@ describe("getFeedback", () => {
       cycle_year: 2026,
       content: "Shared guide",
       session_settings: "PRIVATE SETTINGS",
+      aca_worksheet: { ratings: [] },
       reviewed_accomplishment_ids: [],
       status: "shared",
       shared_at: "2026-01-01T00:00:00Z",
@@ -104,9 +108,10 @@ describe("getFeedback", () => {
 
     expect(result.error).toBeNull();
     expect(result.data?.session_settings).toBe("");
+    expect(result.data?.aca_worksheet).toBeNull();
   });
 
-  it("returns session_settings for the supervisor", async () => {
+  it("returns session_settings and aca_worksheet for the supervisor", async () => {
     mockGetUser.mockResolvedValue({ data: { user: { id: "sup-1" } } });
     mockSingleFeedbackQuery({
       id: "fb-1",
@@ -117,6 +122,7 @@ describe("getFeedback", () => {
       cycle_year: 2026,
       content: "Guide",
       session_settings: "PRIVATE SETTINGS",
+      aca_worksheet: { ratings: [] },
       reviewed_accomplishment_ids: [],
       status: "draft",
       shared_at: null,
@@ -131,5 +137,6 @@ describe("getFeedback", () => {
 
     expect(result.error).toBeNull();
     expect(result.data?.session_settings).toBe("PRIVATE SETTINGS");
+    expect(result.data?.aca_worksheet).toEqual({ ratings: [] });
   });
 });
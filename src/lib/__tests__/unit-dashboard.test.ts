@@ -0,0 +1,315 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  buildUnitDashboardCsv,
+  getOutstandingFeedback,
+  groupUnitRows,
+  groupUnitRowsByWorkflow,
+  resolveUnitFlights,
+  summarizeUnitMember,
+  summarizeUnitTotals,
+  type UnitDashboardEntry,
+  type UnitMemberInput,
+} from "../unit-dashboard";
+import type { AccomplishmentAssessmentScores } from "@/types/database";
+
+const STATEMENT = "Led 12 Amn through a 30-day surge, generating 140 sorties for the wing";
+
+const PERIOD = { start: new Date(2026, 0, 1), end: new Date(2026, 11, 31) };
+
+function scores(overall: number): AccomplishmentAssessmentScores {
+  return {
+    mpa_relevancy: {
+      executing_mission: 80,
+      leading_people: 80,
+      managing_resources: 80,
+      improving_unit: 80,
+    },
+    overall_score: overall,
+    quality_indicators: {
+      action_clarity: overall,
+      impact_significance: overall,
+      metrics_quality: overall,
+      scope_definition: overall,
+    },
+    primary_mpa: "executing_mission",
+    secondary_mpa: null,
+  };
+}
+
+function entry(mpa: string, overall: number | null = null): UnitDashboardEntry {
+  return {
+    id: crypto.randomUUID(),
+    date: "2026-03-15",
+    mpa,
+    assessment_scores: overall === null ? null : scores(overall),
+    assessed_at: overall === null ? null : "2026-03-16T00:00:00Z",
+    updated_at: "2026-03-15T00:00:00Z",
+  };
+}
+
+function member(overrides: Partial<UnitMemberInput> & { key: string; name: string }): UnitMemberInput {
+  return {
+    rank: "SSgt",
+    override: { ...PERIOD, reason: "cro" },
+    flight: { key: "profile:flt", name: "MSgt Flight" },
+    supervisor: { key: "profile:flt", name: "MSgt Flight" },
+    entries: [],
+    shell: null,
+    feedbacks: [],
+    ...overrides,
+  };
+}
+
+describe("getOutstandingFeedback", () => {
+  it("owes only Initial before the period midpoint", () => {
+    expect(getOutstandingFeedback(PERIOD, [], new Date(2026, 2, 1))).toEqual([
+      { type: "initial", hasDraft: false },
+    ]);
+  });
+
+  it("adds Midterm past the midpoint and flags unshared drafts", () => {
+    const owed = getOutstandingFeedback(
+      PERIOD,
+      [
+        { feedback_type: "initial", status: "shared" },
+        { feedback_type: "midterm", status: "draft" },
+      ],
+      new Date(2026, 8, 1)
+    );
+    expect(owed).toEqual([{ type: "midterm", hasDraft: true }]);
+  });
+
+  it("owes nothing without an evaluation period", () => {
+    expect(getOutstandingFeedback(null, [])).toEqual([]);
+  });
+});
+
+describe("summarizeUnitMember", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2026, 9, 18));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("rolls up entries, assessments and shell sections", () => {
+    const row = summarizeUnitMember(
+      member({
+        key: "profile:a",
+        name: "SSgt Able",
+        entries: [
+          entry("executing_mission", 80),
+          entry("executing_mission"),
+          entry("leading_people", 90),
+          entry("miscellaneous"),
+        ],
+        shell: {
+          workflow_state: "rater",
+          duty_description: STATEMENT,
+          duty_description_complete: true,
+          sections: [
+            { mpa: "executing_mission", statement_text: STATEMENT, is_complete: true },
+            { mpa: "leading_people", statement_text: STATEMENT, is_complete: false },
+            { mpa: "managing_resources", statement_text: "TBD", is_complete: false },
+          ],
+        },
+      })
+    );
+
+    expect(row.entriesPerMpa).toEqual({
+      executing_mission: 2,
+      leading_people: 1,
+      managing_resources: 0,
+      improving_unit: 0,
+    });
+    expect(row.assessedShare).toBe(67);
+    expect(row.sections).toEqual({
+      duty_description: "complete",
+      executing_mission: "complete",
+      leading_people: "drafted",
+      managing_resources: "empty",
+      improving_unit: "empty",
+      hlr_assessment: "empty",
+    });
+    expect(row.shellCompletion).toBe(33);
+    expect(row.scodDate).toBe("31-Dec-2026");
+    expect(row.daysUntilScod).toBe(74);
+    expect(row.workflowState).toBe("rater");
+    expect(row.workflowDueDate).toBe("21-Nov-2026");
+    expect(row.workflowDaysUntilDue).toBe(34);
+    expect(row.workflowOverdue).toBe(false);
+  });
+
+  it("flags a routing step past its suspense", () => {
+    const row = summarizeUnitMember(
+      member({
+        key: "profile:c",
+        name: "SSgt Charlie",
+        shell: {
+          workflow_state: "drafting",
+          duty_description: null,
+          duty_description_complete: false,
+          sections: [],
+        },
+      })
+    );
+    // Draft was due 60 days before the 31-Dec close-out
+    expect(row.workflowDueDate).toBe("01-Nov-2026");
+    expect(row.workflowOverdue).toBe(false);
+
+    vi.setSystemTime(new Date(2026, 10, 5));
+    const late = summarizeUnitMember(
+      member({
+        key: "profile:c",
+        name: "SSgt Charlie",
+        shell: {
+          workflow_state: "drafting",
+          duty_description: null,
+          duty_description_complete: false,
+          sections: [],
+        },
+      })
+    );
+    expect(late.workflowOverdue).toBe(true);
+    expect(summarizeUnitTotals([late]).overdueCount).toBe(1);
+  });
+
+  it("reports no shell completion when the member has no shell", () => {
+    const row = summarizeUnitMember(member({ key: "profile:b", name: "SrA Baker" }));
+    expect(row.hasShell).toBe(false);
+    expect(row.shellCompletion).toBeNull();
+    expect(row.assessedShare).toBeNull();
+  });
+});
+
+describe("summarizeUnitTotals", () => {
+  it("weights average quality by assessed entries", () => {
+    const rows = [
+      summarizeUnitMember(
+        member({ key: "profile:a", name: "A", entries: [entry("executing_mission", 90)] })
+      ),
+      summarizeUnitMember(
+        member({
+          key: "profile:b",
+          name: "B",
+          entries: [
+            entry("leading_people", 60),
+            entry("leading_people", 60),
+            entry("improving_unit", 60),
+          ],
+        })
+      ),
+    ];
+    const totals = summarizeUnitTotals(rows);
+    expect(totals.memberCount).toBe(2);
+    expect(totals.acaEntryCount).toBe(4);
+    expect(totals.assessedShare).toBe(100);
+    // (90 * 1 + 60 * 3) / 4
+    expect(totals.avgQuality).toBe(68);
+  });
+});
+
+describe("resolveUnitFlights", () => {
+  it("assigns each node to the direct report heading its branch", () => {
+    const flights = resolveUnitFlights(
+      [
+        { key: "profile:flt", name: "MSgt Flight", parentKey: "profile:me" },
+        { key: "profile:sup", name: "TSgt Sup", parentKey: "profile:flt" },
+        { key: "member:amn", name: "A1C Amn", parentKey: "profile:sup" },
+        { key: "member:orphan", name: "Amn Orphan", parentKey: "profile:gone" },
+      ],
+      "profile:me"
+    );
+
+    expect(flights.get("profile:flt")).toEqual({ key: "profile:flt", name: "MSgt Flight" });
+    expect(flights.get("member:amn")).toEqual({ key: "profile:flt", name: "MSgt Flight" });
+    expect(flights.get("member:orphan")).toEqual({ key: "member:orphan", name: "Amn Orphan" });
+  });
+
+  it("survives supervision cycles", () => {
+    const flights = resolveUnitFlights(
+      [
+        { key: "profile:x", name: "X", parentKey: "profile:y" },
+        { key: "profile:y", name: "Y", parentKey: "profile:x" },
+      ],
+      "profile:me"
+    );
+    expect(flights.get("profile:x")).toEqual({ key: "profile:x", name: "X" });
+  });
+});
+
+describe("groupUnitRows", () => {
+  it("groups by supervisor and sorts members by nearest SCOD", () => {
+    const later = summarizeUnitMember(
+      member({ key: "profile:a", name: "A", supervisor: { key: "profile:s1", name: "S1" } })
+    );
+    const sooner = summarizeUnitMember(
+      member({
+        key: "profile:b",
+        name: "B",
+        supervisor: { key: "profile:s1", name: "S1" },
+        override: { start: new Date(2026, 0, 1), end: new Date(2026, 5, 30), reason: "cro" },
+      })
+    );
+    const other = summarizeUnitMember(
+      member({ key: "profile:c", name: "C", supervisor: { key: "profile:s2", name: "S2" } })
+    );
+
+    const groups = groupUnitRows([later, other, sooner], "supervisor");
+    expect(groups.map((g) => g.key)).toEqual(["profile:s1", "profile:s2"]);
+    expect(groups[0].rows.map((r) => r.key)).toEqual(["profile:b", "profile:a"]);
+    expect(groups[0].totals.memberCount).toBe(2);
+  });
+});
+
+describe("groupUnitRowsByWorkflow", () => {
+  it("puts members without a shell first and keeps steps in routing order", () => {
+    const shell = (workflow_state: "rater" | "finalized") => ({
+      workflow_state,
+      duty_description: null,
+      duty_description_complete: false,
+      sections: [],
+    });
+    const columns = groupUnitRowsByWorkflow([
+      summarizeUnitMember(member({ key: "profile:a", name: "A", shell: shell("finalized") })),
+      summarizeUnitMember(member({ key: "profile:b", name: "B" })),
+      summarizeUnitMember(member({ key: "profile:c", name: "C", shell: shell("rater") })),
+    ]);
+
+    expect(columns.map((c) => c.state)).toEqual([
+      null,
+      "drafting",
+      "ratee_review",
+      "rater",
+      "additional_rater",
+      "senior_rater",
+      "finalized",
+    ]);
+    expect(columns[0].rows.map((r) => r.key)).toEqual(["profile:b"]);
+    expect(columns[3].rows.map((r) => r.key)).toEqual(["profile:c"]);
+    expect(columns[6].rows.map((r) => r.key)).toEqual(["profile:a"]);
+  });
+});
+
+describe("buildUnitDashboardCsv", () => {
+  it("quotes commas and neutralizes formula-looking names", () => {
+    const csv = buildUnitDashboardCsv([
+      summarizeUnitMember(
+        member({
+          key: "member:x",
+          name: "=HYPERLINK(\"x\")",
+          flight: { key: "profile:flt", name: "Doe, Jane" },
+        })
+      ),
+    ]);
+    const [header, line] = csv.trimEnd().split("\r\n");
+
+    expect(header.startsWith("Flight,Supervisor,Member,Rank,SCOD,Days to SCOD,EM entries")).toBe(true);
+    expect(line).toContain('"Doe, Jane"');
+    expect(line).toContain(`"'=HYPERLINK(""x"")"`);
+    expect(line).toContain("No shell");
+    expect(csv.endsWith("\r\n")).toBe(true);
+  });
+});
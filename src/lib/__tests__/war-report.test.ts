@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import {
+  attachWARAccomplishmentLinks,
+  buildWARAccomplishmentLinks,
+  getDefaultWAREntryIds,
+  resolveWARItem,
+  selectWAREntries,
+  toStoredWARContent,
+  type WARReportCategory,
+} from "../war-report";
+
+const entryIds = ["acc-1", "acc-2", "acc-3"];
+
+describe("resolveWARItem", () => {
+  it("maps 1-based entry numbers to accomplishment IDs", () => {
+    expect(resolveWARItem({ text: " Fixed 40 systems ", sources: [3, 1] }, entryIds)).toEqual({
+      text: "Fixed 40 systems",
+      accomplishment_ids: ["acc-3", "acc-1"],
+    });
+  });
+
+  it("drops out-of-range, duplicate, and non-numeric sources", () => {
+    expect(resolveWARItem({ text: "x", sources: [0, 4, 2, "2", "abc"] }, entryIds)).toEqual({
+      text: "x",
+      accomplishment_ids: ["acc-2"],
+    });
+  });
+
+  it("accepts plain string bullets without sources", () => {
+    expect(resolveWARItem("Trained 5 Amn", entryIds)).toEqual({
+      text: "Trained 5 Amn",
+      accomplishment_ids: [],
+    });
+  });
+
+  it("rejects empty or malformed bullets", () => {
+    expect(resolveWARItem("  ", entryIds)).toBeNull();
+    expect(resolveWARItem({ sources: [1] }, entryIds)).toBeNull();
+    expect(resolveWARItem(42, entryIds)).toBeNull();
+  });
+});
+
+describe("WAR provenance round trip", () => {
+  const categories: WARReportCategory[] = [
+    {
+      key: "key_accomplishments",
+      label: "Key Accomplishments",
+      items: [
+        { text: "Bullet A", accomplishment_ids: ["acc-1", "acc-2"] },
+        { text: "Hand-written", accomplishment_ids: [] },
+        { text: "Bullet C", accomplishment_ids: ["acc-3"] },
+      ],
+    },
+    { key: "issues_roadblocks", label: "Issues", items: [] },
+  ];
+
+  it("stores bullets as plain strings", () => {
+    expect(toStoredWARContent(categories).categories[0].items).toEqual([
+      "Bullet A",
+      "Hand-written",
+      "Bullet C",
+    ]);
+  });
+
+  it("builds one link row per bullet source keyed by position", () => {
+    expect(buildWARAccomplishmentLinks("war-1", categories)).toEqual([
+      { war_id: "war-1", accomplishment_id: "acc-1", category: "key_accomplishments", display_order: 0 },
+      { war_id: "war-1", accomplishment_id: "acc-2", category: "key_accomplishments", display_order: 0 },
+      { war_id: "war-1", accomplishment_id: "acc-3", category: "key_accomplishments", display_order: 2 },
+    ]);
+  });
+
+  it("reattaches links to the stored content", () => {
+    const stored = toStoredWARContent(categories);
+    const links = buildWARAccomplishmentLinks("war-1", categories);
+    expect(attachWARAccomplishmentLinks(stored, links)).toEqual(categories);
+  });
+
+  it("loads legacy reports with no links", () => {
+    expect(
+      attachWARAccomplishmentLinks({ categories: [{ key: "k", label: "K", items: ["Old"] }] }, [])
+    ).toEqual([{ key: "k", label: "K", items: [{ text: "Old", accomplishment_ids: [] }] }]);
+    expect(attachWARAccomplishmentLinks(null, [])).toEqual([]);
+  });
+});
+
+describe("WAR entry selection", () => {
+  const week = [{ id: "acc-1" }, { id: "acc-2" }, { id: "acc-3" }];
+
+  it("defaults to the whole week when nothing is starred", () => {
+    expect(getDefaultWAREntryIds(week, new Set())).toEqual(["acc-1", "acc-2", "acc-3"]);
+  });
+
+  it("defaults to starred entries when the week has some", () => {
+    expect(getDefaultWAREntryIds(week, new Set(["acc-3", "acc-1", "other-week"]))).toEqual([
+      "acc-1",
+      "acc-3",
+    ]);
+  });
+
+  it("uses an explicit selection in feed order and ignores stale IDs", () => {
+    const selected = selectWAREntries(week, ["acc-3", "gone", "acc-2"], new Set(["acc-1"]));
+    expect(selected.map((e) => e.id)).toEqual(["acc-2", "acc-3"]);
+  });
+
+  it("honors an explicit empty selection", () => {
+    expect(selectWAREntries(week, [], new Set(["acc-1"]))).toEqual([]);
+  });
+
+  it("falls back to the default without a selection", () => {
+    expect(selectWAREntries(week, undefined, new Set(["acc-2"]))).toEqual([{ id: "acc-2" }]);
+  });
+});
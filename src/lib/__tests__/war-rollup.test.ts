@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildWARRollupPrompt,
+  dedupeWARRollupItems,
+  flattenWARReportsForRollup,
+  getWARItemSimilarity,
+  normalizeWARItemText,
+  resolveWARRollupItem,
+  type WARRollupSourceReport,
+} from "../war-rollup";
+import { DEFAULT_WAR_CATEGORIES } from "../war-report";
+
+const alphaFlight: WARRollupSourceReport = {
+  id: "war-a",
+  prepared_by: "MSgt Smith",
+  unit_office_symbol: "99 CS/SCOO",
+  content: {
+    categories: [
+      {
+        key: "key_accomplishments",
+        label: "Key Accomplishments",
+        items: ["Restored SIPR connectivity for 300 users in 4 hrs.", "Trained 6 Amn on ATO tasks"],
+      },
+      { key: "issues", label: "Issues", items: [] },
+    ],
+  },
+  links: [
+    { accomplishment_id: "acc-1", category: "key_accomplishments", display_order: 0 },
+    { accomplishment_id: "acc-2", category: "key_accomplishments", display_order: 1 },
+  ],
+};
+
+const bravoFlight: WARRollupSourceReport = {
+  id: "war-b",
+  prepared_by: "TSgt Jones",
+  unit_office_symbol: null,
+  content: {
+    categories: [
+      {
+        key: "highlights",
+        label: "Highlights",
+        items: ["Restored SIPR connectivity for 300 users in 4 hours", "Closed 42 trouble tickets"],
+      },
+    ],
+  },
+  links: [
+    { accomplishment_id: "acc-3", category: "highlights", display_order: 0 },
+    { accomplishment_id: "acc-4", category: "highlights", display_order: 1 },
+  ],
+};
+
+describe("normalizeWARItemText / getWARItemSimilarity", () => {
+  it("ignores case and punctuation", () => {
+    expect(normalizeWARItemText("  Saved $1.2M; 40% faster! ")).toBe("saved $1 2m 40% faster");
+  });
+
+  it("scores identical wording as 1 and unrelated wording near 0", () => {
+    expect(getWARItemSimilarity("Closed 42 tickets", "closed 42 tickets.")).toBe(1);
+    expect(getWARItemSimilarity("Closed 42 tickets", "Trained 6 Amn")).toBe(0);
+  });
+});
+
+describe("flattenWARReportsForRollup", () => {
+  it("flattens bullets with reporter and provenance", () => {
+    const items = flattenWARReportsForRollup([alphaFlight]);
+    expect(items).toHaveLength(2);
+    expect(items[0]).toEqual({
+      text: "Restored SIPR connectivity for 300 users in 4 hrs.",
+      source_category: "Key Accomplishments",
+      reported_by: ["MSgt Smith (99 CS/SCOO)"],
+      report_ids: ["war-a"],
+      accomplishment_ids: ["acc-1"],
+    });
+  });
+});
+
+describe("dedupeWARRollupItems", () => {
+  it("merges near-duplicates across reports and unions their sources", () => {
+    const items = dedupeWARRollupItems(flattenWARReportsForRollup([alphaFlight, bravoFlight]));
+    expect(items.map((i) => i.text)).toEqual([
+      "Restored SIPR connectivity for 300 users in 4 hours",
+      "Trained 6 Amn on ATO tasks",
+      "Closed 42 trouble tickets",
+    ]);
+    expect(items[0].reported_by).toEqual(["MSgt Smith (99 CS/SCOO)", "TSgt Jones"]);
+    expect(items[0].report_ids).toEqual(["war-a", "war-b"]);
+    expect(items[0].accomplishment_ids).toEqual(["acc-1", "acc-3"]);
+  });
+
+  it("does not mutate the input items", () => {
+    const flattened = flattenWARReportsForRollup([alphaFlight, bravoFlight]);
+    dedupeWARRollupItems(flattened);
+    expect(flattened[0].accomplishment_ids).toEqual(["acc-1"]);
+  });
+});
+
+describe("resolveWARRollupItem", () => {
+  it("maps item numbers to the union of their accomplishment IDs", () => {
+    const items = dedupeWARRollupItems(flattenWARReportsForRollup([alphaFlight, bravoFlight]));
+    expect(resolveWARRollupItem({ text: "Restored SIPR; closed 42 tickets", sources: [1, 3] }, items)).toEqual({
+      text: "Restored SIPR; closed 42 tickets",
+      accomplishment_ids: ["acc-1", "acc-3", "acc-4"],
+    });
+  });
+});
+
+describe("buildWARRollupPrompt", () => {
+  it("numbers items and lists the author's categories in order", () => {
+    const items = dedupeWARRollupItems(flattenWARReportsForRollup([alphaFlight, bravoFlight]));
+    const prompt = buildWARRollupPrompt(items, [...DEFAULT_WAR_CATEGORIES].reverse(), null);
+    expect(prompt).toContain("Item 3:");
+    expect(prompt).toContain("Reported by: MSgt Smith (99 CS/SCOO); TSgt Jones");
+    expect(prompt.indexOf('"key_accomplishments"')).toBeLessThan(prompt.indexOf('"upcoming_priorities"'));
+  });
+});
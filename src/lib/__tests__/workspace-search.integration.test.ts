@@ -0,0 +1,18 @@
+import { describe, expect, it } from "vitest";
+import { canRunSqlFixture, runSqlFixture, sqlFixturePath } from "./local-sql-fixture";
+
+const SQL_FIXTURE = sqlFixturePath("workspace_search.sql");
+
+const PASS_MARK =
+  "PASS workspace search: NULL impact entry found by full-text, trigram and embedding";
+
+describe("search_workspace (local SQL)", () => {
+  it.skipIf(!canRunSqlFixture(SQL_FIXTURE))(
+    "finds an accomplishment whose impact is NULL, by words and by meaning",
+    () => {
+      const { status, output } = runSqlFixture(SQL_FIXTURE);
+      expect(status, output).toBe(0);
+      expect(output).toContain(PASS_MARK);
+    },
+  );
+});
@@ -0,0 +1,105 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildSearchHref,
+  firstHighlightedTerm,
+  normalizeSearchQuery,
+  openingTerm,
+  splitSnippet,
+  type WorkspaceSearchRow,
+} from "../workspace-search";
+
+function row(overrides: Partial<WorkspaceSearchRow>): WorkspaceSearchRow {
+  return {
+    source: "accomplishment",
+    id: "acc-1",
+    shell_id: null,
+    owner_id: "user-1",
+    team_member_id: null,
+    title: "Led",
+    snippet: "Cleared the [[TCTO]] [[backlogs]] across 12 jets",
+    score: 0.4,
+    semantic_only: false,
+    updated_at: "2026-01-01T00:00:00Z",
+    ...overrides,
+  };
+}
+
+describe("normalizeSearchQuery", () => {
+  it("collapses whitespace and rejects queries that are too short", () => {
+    expect(normalizeSearchQuery("  tcto   backlog ")).toBe("tcto backlog");
+    expect(normalizeSearchQuery(" a ")).toBeNull();
+    expect(normalizeSearchQuery(null)).toBeNull();
+  });
+
+  it("caps very long queries", () => {
+    expect(normalizeSearchQuery("x".repeat(500))).toHaveLength(200);
+  });
+});
+
+describe("splitSnippet", () => {
+  it("splits ts_headline markers into match segments", () => {
+    expect(splitSnippet("Cleared the [[TCTO]] backlog")).toEqual([
+      { text: "Cleared the ", match: false },
+      { text: "TCTO", match: true },
+      { text: " backlog", match: false },
+    ]);
+  });
+
+  it("returns plain text for unmarked snippets", () => {
+    expect(splitSnippet("no highlights")).toEqual([{ text: "no highlights", match: false }]);
+  });
+});
+
+describe("firstHighlightedTerm", () => {
+  it("returns the first matched word or null", () => {
+    expect(firstHighlightedTerm(row({}).snippet)).toBe("TCTO");
+    expect(firstHighlightedTerm("plain")).toBeNull();
+  });
+});
+
+describe("openingTerm", () => {
+  it("keeps short snippets whole and cuts long ones at a word boundary", () => {
+    expect(openingTerm(" Led 4 Amn ")).toBe("Led 4 Amn");
+    expect(openingTerm("a".repeat(70))).toBe("a".repeat(60));
+    expect(openingTerm("Generated 12 training plans for the squadron's newest maintainers ahead of the ORI")).toBe(
+      "Generated 12 training plans for the squadron's newest",
+    );
+  });
+});
+
+describe("buildSearchHref", () => {
+  it("opens entries in the entries editor", () => {
+    expect(buildSearchHref(row({}), "tcto")).toBe("/entries?entry=acc-1");
+  });
+
+  it("filters the library by the matched word", () => {
+    expect(buildSearchHref(row({ source: "statement", snippet: "Fixed [[backlogs]]" }), "backlog")).toBe(
+      "/library?q=backlogs",
+    );
+    expect(buildSearchHref(row({ source: "statement", snippet: "Fixed backlgs" }), "backlg")).toBe(
+      "/library?q=backlg",
+    );
+  });
+
+  it("filters the library by the opening words of a meaning-only match", () => {
+    expect(
+      buildSearchHref(
+        row({ source: "statement", snippet: "Cut aircraft downtime 30% by rebuilding the phase dock schedule", semantic_only: true }),
+        "faster inspections",
+      ),
+    ).toBe(`/library?q=${encodeURIComponent("Cut aircraft downtime 30% by rebuilding the phase dock")}`);
+  });
+
+  it("filters the library to the archived EPB", () => {
+    expect(
+      buildSearchHref(row({ source: "epb_section", shell_id: "epb-9", snippet: "[[TCTO]]" }), "tcto"),
+    ).toBe("/library?archived=epb-9&q=TCTO");
+  });
+
+  it("opens award and decoration workspaces by shell", () => {
+    expect(buildSearchHref(row({ source: "award_section", shell_id: "aw-2" }), "x")).toBe("/award?open=aw-2");
+    expect(buildSearchHref(row({ source: "decoration", id: "dec-3", shell_id: "dec-3" }), "x")).toBe(
+      "/decoration?open=dec-3",
+    );
+  });
+});
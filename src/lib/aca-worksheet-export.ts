@@ -0,0 +1,238 @@
+/**
+ * ACA worksheet → print-ready PDF laid out like the Airman Comprehensive
+ * Assessment Worksheet (AF Form 931 / 932). As with the EPB export, the layout
+ * model is built separately from the PDF rendering so the mapping stays
+ * testable. Midterm sheets carry the Initial sheet's level next to each call.
+ */
+
+import {
+  compareAcaLevels,
+  getAcaLevelLabel,
+  getAcaWorksheetProgress,
+  getAcaWorksheetRubric,
+  KNOWING_YOUR_AIRMAN_PROMPTS,
+  type AcaLevelChange,
+} from "@/lib/aca-worksheet";
+import { getFeedbackTypeLabel } from "@/lib/constants";
+import {
+  addVerticalSpace,
+  createFormWriter,
+  drawCenteredText,
+  drawFieldRow,
+  drawParagraph,
+  drawRightNote,
+  drawSectionHeading,
+  finalizeFormWriter,
+} from "@/lib/pdf/form-writer";
+import type { AcaWorksheet, FeedbackType, Rank } from "@/types/database";
+
+export interface AcaWorksheetExportRatee {
+  name: string;
+  rank: Rank | null;
+  afsc: string | null;
+  unit: string | null;
+}
+
+export interface AcaWorksheetEvidenceItem {
+  id: string;
+  date: string;
+  action_verb: string;
+  details: string;
+}
+
+export interface AcaWorksheetExportInput {
+  worksheet: AcaWorksheet;
+  /** Only used on the Midterm sheet */
+  initialWorksheet?: AcaWorksheet | null;
+  feedbackType: FeedbackType;
+  cycleYear: number;
+  ratee: AcaWorksheetExportRatee;
+  raterName: string | null;
+  evidence: AcaWorksheetEvidenceItem[];
+}
+
+export interface AcaWorksheetLayoutItem {
+  key: string;
+  label: string;
+  levelLabel: string;
+  /** Every level on the form, in order, with the chosen one marked */
+  options: { label: string; selected: boolean }[];
+  /** Null unless the sheet is compared with the Initial sheet */
+  initialLevelLabel: string | null;
+  change: AcaLevelChange | null;
+  evidence: string[];
+  note: string;
+}
+
+export interface AcaWorksheetLayout {
+  formLabel: string;
+  gradeRange: string;
+  sessionLabel: string;
+  feedbackType: FeedbackType;
+  cycleYear: number;
+  ratee: AcaWorksheetExportRatee;
+  raterName: string | null;
+  comparesInitial: boolean;
+  rated: number;
+  total: number;
+  categories: { key: string; title: string; items: AcaWorksheetLayoutItem[] }[];
+  knowingYourAirman: { heading: string; answers: { label: string; text: string }[] };
+}
+
+const MAX_EVIDENCE_CHARS = 160;
+
+const CHANGE_LABELS: Record<AcaLevelChange, string> = {
+  up: "Improved",
+  down: "Declined",
+  same: "No change",
+};
+
+function describeEvidence(item: AcaWorksheetEvidenceItem): string {
+  const text = [item.action_verb, item.details].map((p) => p?.trim()).filter(Boolean).join(" ");
+  const clipped = text.length > MAX_EVIDENCE_CHARS ? `${text.slice(0, MAX_EVIDENCE_CHARS - 3)}...` : text;
+  return `${item.date}: ${clipped}`;
+}
+
+export function buildAcaWorksheetLayout(input: AcaWorksheetExportInput): AcaWorksheetLayout {
+  const rubric = getAcaWorksheetRubric(input.ratee.rank);
+  if (!rubric) {
+    throw new Error("No ACA form applies to this grade");
+  }
+  const evidenceById = new Map(input.evidence.map((item) => [item.id, item]));
+  const initial = input.feedbackType === "midterm" ? input.initialWorksheet ?? null : null;
+  const { rated, total } = getAcaWorksheetProgress(input.worksheet, rubric);
+  const kyaNumeral = rubric.knowingYourAirmanSection.replace(/^Section\s+/, "");
+
+  return {
+    formLabel: rubric.formLabel,
+    gradeRange: rubric.tier === "senior" ? "MSgt thru CMSgt" : "AB thru TSgt",
+    sessionLabel: getFeedbackTypeLabel(input.feedbackType),
+    feedbackType: input.feedbackType,
+    cycleYear: input.cycleYear,
+    ratee: input.ratee,
+    raterName: input.raterName,
+    comparesInitial: !!initial,
+    rated,
+    total,
+    categories: rubric.categories.map((category) => ({
+      key: category.key,
+      title: category.title,
+      items: Object.entries(category.subcategories).map(([key, subcategory]) => {
+        const rating = input.worksheet.ratings[key];
+        const level = rating?.level ?? null;
+        const initialLevel = initial?.ratings[key]?.level ?? null;
+        return {
+          key,
+          label: subcategory.label,
+          levelLabel: getAcaLevelLabel(level),
+          options: rubric.levels.map((option) => ({
+            label: option.label,
+            selected: option.value === level,
+          })),
+          initialLevelLabel: initial ? getAcaLevelLabel(initialLevel) : null,
+          change: initial ? compareAcaLevels(level, initialLevel) : null,
+          evidence: (rating?.evidence_ids ?? [])
+            .map((id) => evidenceById.get(id))
+            .filter((item): item is AcaWorksheetEvidenceItem => !!item)
+            .map(describeEvidence),
+          note: rating?.note ?? "",
+        };
+      }),
+    })),
+    knowingYourAirman: {
+      heading: `${kyaNumeral}. Knowing Your Airman`,
+      answers: KNOWING_YOUR_AIRMAN_PROMPTS.map((prompt) => ({
+        label: prompt.label,
+        text: input.worksheet.knowing_your_airman[prompt.key] ?? "",
+      })),
+    },
+  };
+}
+
+/** Suggested download name, e.g. `ACA_931_Midterm_2026_SSgt_Doe.pdf`. */
+export function getAcaWorksheetFileName(layout: AcaWorksheetLayout): string {
+  // "Last, First" from profiles, otherwise a free-form full name
+  const name = layout.ratee.name.trim();
+  const lastName = (name.includes(",") ? name.split(",")[0] : name.split(/\s+/).pop()) || "Ratee";
+  const session = layout.feedbackType.charAt(0).toUpperCase() + layout.feedbackType.slice(1);
+  const parts = [
+    "ACA",
+    layout.formLabel.replace(/\D+/g, ""),
+    session,
+    String(layout.cycleYear),
+    layout.ratee.rank ?? "",
+    lastName,
+  ]
+    .filter(Boolean)
+    .map((p) => p.replace(/[^A-Za-z0-9-]+/g, ""));
+  return `${parts.join("_")}.pdf`;
+}
+
+function optionsLine(item: AcaWorksheetLayoutItem): string {
+  return item.options.map((o) => `[${o.selected ? "X" : " "}] ${o.label}`).join("    ");
+}
+
+export async function renderAcaWorksheetPdf(layout: AcaWorksheetLayout): Promise<Uint8Array> {
+  const rateeLabel = [layout.ratee.rank, layout.ratee.name].filter(Boolean).join(" ");
+  const writer = await createFormWriter({
+    title: `ACA Worksheet (${layout.sessionLabel}) - ${rateeLabel}`,
+    subject: layout.formLabel,
+    fontFamily: "times",
+    runningHeader: `${layout.formLabel} - ${rateeLabel} (continued)`,
+  });
+
+  drawCenteredText(writer, "AIRMAN COMPREHENSIVE ASSESSMENT WORKSHEET", { size: 14, bold: true, gapAfter: 2 });
+  drawCenteredText(writer, `${layout.formLabel} layout (${layout.gradeRange})`, { size: 9, gapAfter: 12 });
+
+  drawSectionHeading(writer, "I. Personal Information");
+  drawFieldRow(writer, [
+    { label: "Name (Last, First Middle Initial)", value: layout.ratee.name, span: 0.5 },
+    { label: "Grade", value: layout.ratee.rank ?? "", span: 0.2 },
+    { label: "DAFSC", value: layout.ratee.afsc ?? "", span: 0.3 },
+  ]);
+  drawFieldRow(writer, [
+    { label: "Organization, Command, Location", value: layout.ratee.unit ?? "", span: 0.5 },
+    { label: "Rater", value: layout.raterName ?? "", span: 0.3 },
+    { label: "Type of Assessment", value: layout.sessionLabel, span: 0.2 },
+  ]);
+  drawRightNote(writer, `${layout.rated} of ${layout.total} areas rated - ${layout.cycleYear} cycle`);
+  addVerticalSpace(writer, 6);
+
+  for (const category of layout.categories) {
+    drawSectionHeading(writer, category.title);
+    for (const item of category.items) {
+      drawParagraph(writer, item.label, { size: 10, bold: true, lineHeight: 14 });
+      if (layout.comparesInitial) {
+        drawFieldRow(writer, [
+          { label: "Initial", value: item.initialLevelLabel ?? "", span: 0.35 },
+          { label: layout.sessionLabel, value: item.levelLabel, span: 0.35 },
+          { label: "Change", value: item.change ? CHANGE_LABELS[item.change] : "", span: 0.3 },
+        ]);
+      } else {
+        drawParagraph(writer, optionsLine(item), { size: 9, lineHeight: 12 });
+      }
+      if (item.evidence.length > 0) {
+        drawParagraph(writer, item.evidence.map((line) => `- ${line}`).join("\n"), {
+          size: 8.5,
+          lineHeight: 11,
+        });
+      }
+      if (item.note) {
+        drawParagraph(writer, item.note, { size: 9.5, boxed: true });
+      }
+      addVerticalSpace(writer, 4);
+    }
+  }
+
+  drawSectionHeading(writer, layout.knowingYourAirman.heading);
+  for (const answer of layout.knowingYourAirman.answers) {
+    drawParagraph(writer, answer.label, { size: 10, bold: true, lineHeight: 14 });
+    drawParagraph(writer, answer.text, { boxed: true, placeholder: "Not discussed yet." });
+    addVerticalSpace(writer, 4);
+  }
+
+  return finalizeFormWriter(
+    writer,
+    "MyEPBuddy export - not an official form. Transcribe onto the signed ACA.",
+  );
+}
@@ -0,0 +1,155 @@
+/**
+ * Structured ACA worksheet: the rater's proficiency level for every rubric
+ * subcategory on the ratee's AF Form 931/932, the accomplishments backing each
+ * level and the Knowing Your Airman answers. Saved on supervisor_feedbacks and
+ * compared against the Initial sheet at Midterm.
+ */
+
+import {
+  ACA_JUNIOR_PROFICIENCY_LEVELS,
+  ACA_SENIOR_PROFICIENCY_LEVELS,
+  getRubricTierForRank,
+  type ACARubricTier,
+} from "@/lib/constants";
+import {
+  getRubricForRank,
+  type FeedbackRubric,
+} from "@/lib/feedback-session-guide-templates";
+import type {
+  AcaWorksheet,
+  AcaWorksheetKnowingYourAirman,
+  AcaWorksheetLevel,
+  AcaWorksheetRating,
+  Rank,
+} from "@/types/database";
+
+export type AcaWorksheetLevelOption = {
+  value: AcaWorksheetLevel;
+  label: string;
+  description: string;
+};
+
+export type AcaWorksheetRubric = FeedbackRubric & {
+  /** Form order, Not Applicable last */
+  levels: AcaWorksheetLevelOption[];
+};
+
+export const KNOWING_YOUR_AIRMAN_PROMPTS: {
+  key: keyof AcaWorksheetKnowingYourAirman;
+  label: string;
+}[] = [
+  { key: "goals", label: "Personal and professional goals" },
+  { key: "stressors", label: "What stresses them / support needed" },
+  { key: "mentorship", label: "Mentorship (find a mentor / become a mentor)" },
+  { key: "growth", label: "Growth expectations (ratee feedback + rater expectations)" },
+];
+
+/** Keeps pasted notes from bloating the row. */
+const MAX_WORKSHEET_TEXT = 2000;
+
+// Higher is stronger; Not Applicable is left out so it never counts as a change.
+const LEVEL_RANK: Partial<Record<AcaWorksheetLevel, number>> = {
+  does_not_meet: 0,
+  meets: 1,
+  exceeds: 2,
+  far_exceeds: 3,
+  significantly_exceeds: 3,
+};
+
+function levelsForTier(tier: ACARubricTier): AcaWorksheetLevelOption[] {
+  const levels = tier === "senior" ? ACA_SENIOR_PROFICIENCY_LEVELS : ACA_JUNIOR_PROFICIENCY_LEVELS;
+  return levels.map(({ value, label, description }) => ({ value, label, description }));
+}
+
+/** Null when the grade has no ACA form (civilians). */
+export function getAcaWorksheetRubric(rank: Rank | string | null): AcaWorksheetRubric | null {
+  if (!getRubricTierForRank(rank)) return null;
+  const rubric = getRubricForRank(rank);
+  return { ...rubric, levels: levelsForTier(rubric.tier) };
+}
+
+export function getAcaWorksheetSubcategoryKeys(rubric: FeedbackRubric): string[] {
+  return rubric.categories.flatMap((category) => Object.keys(category.subcategories));
+}
+
+export function createEmptyAcaWorksheet(): AcaWorksheet {
+  return {
+    ratings: {},
+    knowing_your_airman: { goals: "", stressors: "", mentorship: "", growth: "" },
+  };
+}
+
+function cleanText(value: unknown): string {
+  return typeof value === "string" ? value.trim().slice(0, MAX_WORKSHEET_TEXT) : "";
+}
+
+/**
+ * Coerces a saved or submitted worksheet onto the ratee's rubric: unknown
+ * subcategories and levels from the other tier are dropped, evidence ids are
+ * de-duplicated and empty ratings are left out.
+ */
+export function normalizeAcaWorksheet(raw: unknown, rubric: AcaWorksheetRubric): AcaWorksheet {
+  const worksheet = createEmptyAcaWorksheet();
+  if (!raw || typeof raw !== "object") return worksheet;
+  const source = raw as { ratings?: unknown; knowing_your_airman?: unknown };
+
+  const allowedLevels = new Set<string>(rubric.levels.map((level) => level.value));
+  const ratings = (source.ratings && typeof source.ratings === "object"
+    ? source.ratings
+    : {}) as Record<string, Partial<AcaWorksheetRating> | undefined>;
+
+  for (const key of getAcaWorksheetSubcategoryKeys(rubric)) {
+    const rating = ratings[key];
+    if (!rating || typeof rating !== "object") continue;
+    const level =
+      typeof rating.level === "string" && allowedLevels.has(rating.level) ? rating.level : null;
+    const evidenceIds = Array.isArray(rating.evidence_ids)
+      ? [...new Set(rating.evidence_ids.filter((id): id is string => typeof id === "string" && !!id))]
+      : [];
+    const note = cleanText(rating.note);
+    if (!level && evidenceIds.length === 0 && !note) continue;
+    worksheet.ratings[key] = { level, evidence_ids: evidenceIds, note };
+  }
+
+  const kya = (source.knowing_your_airman && typeof source.knowing_your_airman === "object"
+    ? source.knowing_your_airman
+    : {}) as Record<string, unknown>;
+  for (const { key } of KNOWING_YOUR_AIRMAN_PROMPTS) {
+    worksheet.knowing_your_airman[key] = cleanText(kya[key]);
+  }
+
+  return worksheet;
+}
+
+export function getAcaWorksheetProgress(
+  worksheet: AcaWorksheet,
+  rubric: FeedbackRubric,
+): { rated: number; total: number } {
+  const keys = getAcaWorksheetSubcategoryKeys(rubric);
+  return {
+    rated: keys.filter((key) => worksheet.ratings[key]?.level).length,
+    total: keys.length,
+  };
+}
+
+export function getAcaLevelLabel(level: AcaWorksheetLevel | null | undefined): string {
+  if (!level) return "Not rated";
+  const option = [...ACA_JUNIOR_PROFICIENCY_LEVELS, ...ACA_SENIOR_PROFICIENCY_LEVELS].find(
+    (candidate) => candidate.value === level,
+  );
+  return option?.label ?? level;
+}
+
+export type AcaLevelChange = "up" | "down" | "same";
+
+/** Null when either side is unrated or Not Applicable. */
+export function compareAcaLevels(
+  current: AcaWorksheetLevel | null | undefined,
+  initial: AcaWorksheetLevel | null | undefined,
+): AcaLevelChange | null {
+  const now = current ? LEVEL_RANK[current] : undefined;
+  const before = initial ? LEVEL_RANK[initial] : undefined;
+  if (now === undefined || before === undefined) return null;
+  if (now === before) return "same";
+  return now > before ? "up" : "down";
+}
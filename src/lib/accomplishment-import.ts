@@ -0,0 +1,547 @@
+/**
+ * Deterministic spreadsheet import for the bulk entry dialog.
+ *
+ * Shops that already track accomplishments in Excel/CSV map their columns to
+ * entry fields here instead of sending structured data through the LLM
+ * extractor. Parsing is dependency-free: RFC 4180 CSV, and for .xlsx a small
+ * ZIP reader that pulls the first worksheet and shared strings out of the
+ * Office Open XML package.
+ */
+
+import { ENTRY_MGAS, MPA_ABBREVIATIONS } from "@/lib/constants";
+import {
+  cleanupAccomplishmentProse,
+  ensureDetailsStandAlone,
+  type BulkAccomplishmentDraft,
+} from "@/lib/extract-accomplishments";
+import {
+  getScanSummary,
+  scanForSensitiveData,
+} from "@/lib/sensitive-data-scanner";
+import {
+  composeImpactString,
+  hasStewardshipImpactContent,
+  normalizeStewardshipImpact,
+} from "@/lib/stewardship-impact";
+
+export const MAX_IMPORT_ROWS = 200;
+export const MAX_IMPORT_FILE_BYTES = 5 * 1024 * 1024;
+export const ACCEPTED_IMPORT_EXTENSIONS = [".csv", ".xlsx"] as const;
+
+export type ImportField =
+  | "date"
+  | "action_verb"
+  | "details"
+  | "impact"
+  | "metrics"
+  | "mpa"
+  | "tags"
+  | "stewardship_time"
+  | "stewardship_money"
+  | "stewardship_resources"
+  | "stewardship_outcome";
+
+/** Column index per field; null when the field is not mapped. */
+export type ImportColumnMapping = Record<ImportField, number | null>;
+
+export interface ImportTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ImportResult {
+  drafts: BulkAccomplishmentDraft[];
+  /** Rows dropped because the details column was empty. */
+  skipped: number;
+  /** Rows excluded by default because the sensitive-data scan matched. */
+  flagged: number;
+  /** Rows past MAX_IMPORT_ROWS that were not imported. */
+  truncated: number;
+}
+
+export const IMPORT_FIELDS: { key: ImportField; label: string; required?: boolean }[] = [
+  { key: "details", label: "Details", required: true },
+  { key: "action_verb", label: "Action verb" },
+  { key: "date", label: "Date" },
+  { key: "mpa", label: "MPA" },
+  { key: "impact", label: "Impact" },
+  { key: "metrics", label: "Metrics" },
+  { key: "tags", label: "Tags" },
+  { key: "stewardship_time", label: "Stewardship: man-hours / schedule" },
+  { key: "stewardship_money", label: "Stewardship: funds" },
+  { key: "stewardship_resources", label: "Stewardship: resources" },
+  { key: "stewardship_outcome", label: "Stewardship: mission outcome" },
+];
+
+/** Normalized header names recognized for each field (first match wins). */
+const HEADER_SYNONYMS: Record<ImportField, string[]> = {
+  date: ["date", "entrydate", "dateaccomplished", "when", "day"],
+  action_verb: ["actionverb", "verb", "action"],
+  details: ["details", "detail", "accomplishment", "description", "whatwasdone", "task", "bullet"],
+  impact: ["impact", "result", "results", "sowhat"],
+  metrics: ["metrics", "metric", "numbers", "quantity", "stats"],
+  mpa: ["mpa", "majorperformancearea", "mga", "category", "area"],
+  tags: ["tags", "tag", "labels", "keywords"],
+  stewardship_time: ["time", "manhours", "schedule", "timesaved", "hourssaved"],
+  stewardship_money: ["money", "funds", "dollars", "costsavings", "savings", "costavoidance"],
+  stewardship_resources: ["resources", "equipment", "manpower"],
+  stewardship_outcome: ["outcome", "missionoutcome", "missionimpact"],
+};
+
+export function emptyColumnMapping(): ImportColumnMapping {
+  return Object.fromEntries(
+    IMPORT_FIELDS.map((f) => [f.key, null]),
+  ) as ImportColumnMapping;
+}
+
+function normalizeHeader(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+/** Best-effort mapping from header text; each column is used at most once. */
+export function guessColumnMapping(headers: string[]): ImportColumnMapping {
+  const mapping = emptyColumnMapping();
+  const used = new Set<number>();
+  const normalized = headers.map(normalizeHeader);
+
+  for (const { key } of IMPORT_FIELDS) {
+    const synonyms = HEADER_SYNONYMS[key].map(normalizeHeader);
+    const index = normalized.findIndex(
+      (h, i) => !used.has(i) && h !== "" && synonyms.includes(h),
+    );
+    if (index >= 0) {
+      mapping[key] = index;
+      used.add(index);
+    }
+  }
+  return mapping;
+}
+
+// ============================================
+// CSV
+// ============================================
+
+/**
+ * RFC 4180 CSV parser: quoted fields, doubled quotes, embedded newlines,
+ * CRLF/LF line endings and a leading BOM. Blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some((cell) => cell.trim() !== "")) rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length > 0) endRow();
+
+  return rows;
+}
+
+// ============================================
+// XLSX
+// ============================================
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+function readZipDirectory(bytes: Uint8Array): Map<string, ZipEntry> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error("Not a valid .xlsx file");
+
+  const count = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, ZipEntry>();
+
+  for (let n = 0; n < count; n++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) break;
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+async function readZipText(
+  bytes: Uint8Array,
+  entries: Map<string, ZipEntry>,
+  name: string,
+): Promise<string | null> {
+  const entry = entries.get(name);
+  if (!entry) return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const start = entry.localHeaderOffset;
+  const dataStart =
+    start + 30 + view.getUint16(start + 26, true) + view.getUint16(start + 28, true);
+  const data = bytes.slice(dataStart, dataStart + entry.compressedSize);
+
+  if (entry.method === 0) return new TextDecoder().decode(data);
+  if (entry.method !== 8) throw new Error("Unsupported .xlsx compression");
+
+  const stream = new Blob([data])
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate-raw"));
+  return new Response(stream).text();
+}
+
+function decodeXmlEntities(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec: string) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+/** Concatenates every <t> run inside a shared-string or inline-string node. */
+function collectText(xml: string): string {
+  const parts: string[] = [];
+  const pattern = /<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g;
+  let m: RegExpExecArray | null;
+  while ((m = pattern.exec(xml)) !== null) parts.push(decodeXmlEntities(m[1] ?? ""));
+  return parts.join("");
+}
+
+export function parseSharedStrings(xml: string): string[] {
+  const strings: string[] = [];
+  const pattern = /<si>([\s\S]*?)<\/si>|<si\/>/g;
+  let m: RegExpExecArray | null;
+  while ((m = pattern.exec(xml)) !== null) strings.push(collectText(m[1] ?? ""));
+  return strings;
+}
+
+function columnIndex(ref: string): number {
+  const letters = ref.replace(/[^A-Z]/gi, "").toUpperCase();
+  let index = 0;
+  for (const ch of letters) index = index * 26 + (ch.charCodeAt(0) - 64);
+  return index - 1;
+}
+
+/** Reads a worksheet part into a dense string grid. */
+export function parseWorksheet(xml: string, sharedStrings: string[]): string[][] {
+  const rows: string[][] = [];
+  const rowPattern = /<row\b[^>]*>([\s\S]*?)<\/row>/g;
+  const cellPattern = /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g;
+  let rowMatch: RegExpExecArray | null;
+
+  while ((rowMatch = rowPattern.exec(xml)) !== null) {
+    const row: string[] = [];
+    let cellMatch: RegExpExecArray | null;
+    let next = 0;
+    cellPattern.lastIndex = 0;
+
+    while ((cellMatch = cellPattern.exec(rowMatch[1] ?? "")) !== null) {
+      const attrs = cellMatch[1] ?? "";
+      const body = cellMatch[2] ?? "";
+      const ref = /\br="([A-Z]+)\d+"/i.exec(attrs)?.[1];
+      const type = /\bt="([^"]+)"/.exec(attrs)?.[1];
+      const index = ref ? columnIndex(ref) : next;
+      next = index + 1;
+
+      const raw = /<v>([\s\S]*?)<\/v>/.exec(body)?.[1];
+      let value = "";
+      if (type === "s") {
+        value = sharedStrings[Number(raw)] ?? "";
+      } else if (type === "inlineStr") {
+        value = collectText(body);
+      } else if (type === "b") {
+        value = raw === "1" ? "TRUE" : "FALSE";
+      } else if (raw !== undefined) {
+        value = decodeXmlEntities(raw);
+      }
+
+      while (row.length < index) row.push("");
+      row[index] = value;
+    }
+
+    if (row.some((cell) => cell.trim() !== "")) rows.push(row);
+  }
+  return rows;
+}
+
+/** Resolves the first sheet in workbook order to its part path. */
+function firstSheetPath(workbookXml: string | null, relsXml: string | null): string {
+  const fallback = "xl/worksheets/sheet1.xml";
+  if (!workbookXml || !relsXml) return fallback;
+
+  const sheet = /<sheet\b[^>]*\br:id="([^"]+)"/.exec(workbookXml);
+  if (!sheet) return fallback;
+
+  const relPattern = /<Relationship\b([^>]*)\/?>/g;
+  let m: RegExpExecArray | null;
+  while ((m = relPattern.exec(relsXml)) !== null) {
+    const attrs = m[1] ?? "";
+    if (/\bId="([^"]+)"/.exec(attrs)?.[1] !== sheet[1]) continue;
+    const target = /\bTarget="([^"]+)"/.exec(attrs)?.[1];
+    if (!target) return fallback;
+    return target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+  }
+  return fallback;
+}
+
+/** Reads the first worksheet of an .xlsx workbook. */
+export async function parseXlsx(buffer: ArrayBuffer): Promise<string[][]> {
+  const bytes = new Uint8Array(buffer);
+  const entries = readZipDirectory(bytes);
+
+  const sheetPath = firstSheetPath(
+    await readZipText(bytes, entries, "xl/workbook.xml"),
+    await readZipText(bytes, entries, "xl/_rels/workbook.xml.rels"),
+  );
+  const sheetXml = await readZipText(bytes, entries, sheetPath);
+  if (!sheetXml) throw new Error("The workbook has no readable worksheet");
+
+  const sharedXml = await readZipText(bytes, entries, "xl/sharedStrings.xml");
+  return parseWorksheet(sheetXml, sharedXml ? parseSharedStrings(sharedXml) : []);
+}
+
+/** Parses an uploaded .csv or .xlsx file; the first row is the header row. */
+export async function readImportFile(file: File): Promise<ImportTable> {
+  const name = file.name.toLowerCase();
+  if (file.size > MAX_IMPORT_FILE_BYTES) {
+    throw new Error("File is too large (5 MB max)");
+  }
+
+  let grid: string[][];
+  if (name.endsWith(".csv")) {
+    grid = parseCsv(await file.text());
+  } else if (name.endsWith(".xlsx")) {
+    grid = await parseXlsx(await file.arrayBuffer());
+  } else {
+    throw new Error("Choose a .csv or .xlsx file");
+  }
+
+  const [headerRow, ...rows] = grid;
+  if (!headerRow || rows.length === 0) {
+    throw new Error("The file needs a header row and at least one data row");
+  }
+
+  const width = Math.max(headerRow.length, ...rows.map((r) => r.length));
+  const headers = Array.from({ length: width }, (_, i) =>
+    headerRow[i]?.trim() || `Column ${i + 1}`,
+  );
+  return { headers, rows };
+}
+
+// ============================================
+// ROW → DRAFT
+// ============================================
+
+const MONTHS = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  const d = new Date(Date.UTC(year, month - 1, day));
+  if (d.getUTCFullYear() !== year || d.getUTCMonth() !== month - 1 || d.getUTCDate() !== day) {
+    return null;
+  }
+  return d.toISOString().slice(0, 10);
+}
+
+function fullYear(year: number): number {
+  return year < 100 ? 2000 + year : year;
+}
+
+/**
+ * Parses the date formats shops actually use: ISO (2026-01-15), US
+ * (1/15/2026), military (15 Jan 2026), "Jan 15, 2026", and Excel serial day
+ * numbers from unformatted .xlsx cells. Returns null when unrecognized.
+ */
+export function parseImportDate(value: string): string | null {
+  const v = value.trim();
+  if (!v) return null;
+
+  let m = /^(\d{4})-(\d{1,2})-(\d{1,2})/.exec(v);
+  if (m) return toIsoDate(+m[1]!, +m[2]!, +m[3]!);
+
+  m = /^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})$/.exec(v);
+  if (m) return toIsoDate(fullYear(+m[3]!), +m[1]!, +m[2]!);
+
+  m = /^(\d{1,2})[\s-]+([a-z]{3})[a-z]*\.?[\s-]+(\d{2}|\d{4})$/i.exec(v);
+  if (m) {
+    const month = MONTHS.indexOf(m[2]!.toLowerCase()) + 1;
+    return month ? toIsoDate(fullYear(+m[3]!), month, +m[1]!) : null;
+  }
+
+  m = /^([a-z]{3})[a-z]*\.?\s+(\d{1,2}),?\s+(\d{4})$/i.exec(v);
+  if (m) {
+    const month = MONTHS.indexOf(m[1]!.toLowerCase()) + 1;
+    return month ? toIsoDate(+m[3]!, month, +m[2]!) : null;
+  }
+
+  // Excel serial dates (days since 1899-12-30), roughly years 1955–2119.
+  if (/^\d{5}(\.\d+)?$/.test(v)) {
+    const serial = Math.floor(Number(v));
+    if (serial >= 20000 && serial <= 80000) {
+      return new Date(Date.UTC(1899, 11, 30) + serial * 86_400_000).toISOString().slice(0, 10);
+    }
+  }
+  return null;
+}
+
+/** Matches MPA keys, labels ("Leading People") and abbreviations ("LP"). */
+export function matchImportMpa(value: string): string | null {
+  const v = normalizeHeader(value);
+  if (!v) return null;
+  for (const mpa of ENTRY_MGAS) {
+    if (
+      v === normalizeHeader(mpa.key) ||
+      v === normalizeHeader(mpa.label) ||
+      v === normalizeHeader(MPA_ABBREVIATIONS[mpa.key] ?? "")
+    ) {
+      return mpa.key;
+    }
+  }
+  return null;
+}
+
+export function splitImportTags(value: string): string[] {
+  const seen = new Set<string>();
+  const tags: string[] = [];
+  for (const raw of value.split(/[,;|]/)) {
+    const tag = raw.trim().slice(0, 50);
+    if (!tag || seen.has(tag.toLowerCase())) continue;
+    seen.add(tag.toLowerCase());
+    tags.push(tag);
+  }
+  return tags.slice(0, 20);
+}
+
+function cell(row: string[], mapping: ImportColumnMapping, field: ImportField): string {
+  const index = mapping[field];
+  return index === null ? "" : (row[index] ?? "").trim();
+}
+
+/**
+ * Turns mapped rows into review drafts. Every row goes through the
+ * sensitive-data scanner; matches are left unchecked with the scan summary so
+ * nothing flagged is saved without an edit. Rows whose MPA or date did not
+ * parse get low confidence so the review highlights them.
+ */
+export function importRowsToDrafts(
+  rows: string[][],
+  mapping: ImportColumnMapping,
+  defaults: { date: string; cycleYear: number },
+): ImportResult {
+  const now = Date.now();
+  const drafts: BulkAccomplishmentDraft[] = [];
+  let skipped = 0;
+  let flagged = 0;
+
+  for (const row of rows.slice(0, MAX_IMPORT_ROWS)) {
+    const rawDetails = cell(row, mapping, "details");
+    if (!rawDetails) {
+      skipped++;
+      continue;
+    }
+
+    let actionVerb = cleanupAccomplishmentProse(cell(row, mapping, "action_verb")).slice(0, 64);
+    if (!actionVerb) {
+      actionVerb = (rawDetails.split(/\s+/)[0] ?? "").replace(/[^A-Za-z]/g, "");
+    }
+
+    const stewardship = normalizeStewardshipImpact({
+      time: cell(row, mapping, "stewardship_time"),
+      money: cell(row, mapping, "stewardship_money"),
+      resources: cell(row, mapping, "stewardship_resources"),
+      outcome: cell(row, mapping, "stewardship_outcome"),
+    });
+    const hasStewardship = hasStewardshipImpactContent(stewardship);
+
+    const details = ensureDetailsStandAlone(actionVerb, rawDetails.slice(0, 2000));
+    const impact =
+      cleanupAccomplishmentProse(cell(row, mapping, "impact").slice(0, 1000)) ||
+      (hasStewardship ? composeImpactString(stewardship) ?? "" : "");
+    const metrics = cleanupAccomplishmentProse(cell(row, mapping, "metrics").slice(0, 500));
+
+    const rawMpa = cell(row, mapping, "mpa");
+    const mpa = matchImportMpa(rawMpa) ?? (rawMpa ? "" : "miscellaneous");
+    const rawDate = cell(row, mapping, "date");
+    const date = parseImportDate(rawDate);
+
+    const matches = scanForSensitiveData({
+      action_verb: actionVerb,
+      details,
+      impact,
+      metrics,
+      tags: cell(row, mapping, "tags"),
+      ...(stewardship as Record<string, string | undefined>),
+    });
+    if (matches.length > 0) flagged++;
+
+    drafts.push({
+      id: `import-${now}-${drafts.length}`,
+      action_verb: actionVerb,
+      details,
+      impact,
+      metrics,
+      mpa,
+      confidence: mpa && (date || !rawDate) && actionVerb ? 1 : 0.5,
+      date: date ?? defaults.date,
+      cycle_year: defaults.cycleYear,
+      included: matches.length === 0,
+      selectedForCombine: false,
+      tags: splitImportTags(cell(row, mapping, "tags")),
+      ...(hasStewardship ? { stewardship_impact: stewardship } : {}),
+      ...(matches.length > 0 ? { sensitiveWarning: getScanSummary(matches) } : {}),
+    });
+  }
+
+  return {
+    drafts,
+    skipped,
+    flagged,
+    truncated: Math.max(0, rows.length - MAX_IMPORT_ROWS),
+  };
+}
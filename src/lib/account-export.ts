@@ -0,0 +1,173 @@
+/**
+ * "Download my data" archive. Everything the user owns is written as one
+ * JSON file per collection alongside a manifest and a README that documents
+ * the schema, so the archive stays readable without MyEPBuddy.
+ *
+ * Bump ACCOUNT_EXPORT_SCHEMA_VERSION whenever a file is added, renamed or a
+ * record shape changes in a way an importer would notice, and add a line to
+ * SCHEMA_CHANGELOG.
+ */
+
+import { pickReceivedFeedbackColumns } from "@/lib/received-feedback";
+import { createZipArchive } from "@/lib/zip-archive";
+
+export const ACCOUNT_EXPORT_SCHEMA_VERSION = 1;
+
+const SCHEMA_CHANGELOG = [
+  "1 — Initial export: profile, accomplishments, library statements, EPB/OPB/award/decoration shells with snapshots, received feedback, credit ledger.",
+];
+
+type ExportRecord = Record<string, unknown>;
+
+export interface AccountExportData {
+  profile: ExportRecord | null;
+  accomplishments: ExportRecord[];
+  refined_statements: ExportRecord[];
+  epb_shells: ExportRecord[];
+  opb_shells: ExportRecord[];
+  award_shells: ExportRecord[];
+  decoration_shells: ExportRecord[];
+  supervisor_feedbacks: ExportRecord[];
+  credits: {
+    balance: ExportRecord | null;
+    transactions: ExportRecord[];
+  };
+}
+
+export interface AccountExportManifest {
+  format: "myepbuddy-account-export";
+  schema_version: number;
+  exported_at: string;
+  user_id: string;
+  files: { file: string; records: number; description: string }[];
+}
+
+export const ACCOUNT_EXPORT_FILES: {
+  file: string;
+  key: keyof AccountExportData;
+  description: string;
+}[] = [
+  {
+    file: "profile.json",
+    key: "profile",
+    description: "Your profile row (name, rank, AFSC, unit, preferences). Single object.",
+  },
+  {
+    file: "accomplishments.json",
+    key: "accomplishments",
+    description:
+      "Entries you own, including ones you keep for managed members (team_member_id set). Includes assessment_scores, stewardship_impact and education_context.",
+  },
+  {
+    file: "refined_statements.json",
+    key: "refined_statements",
+    description: "Your statement library (saved, generated and archived-EPB statements).",
+  },
+  {
+    file: "epb_shells.json",
+    key: "epb_shells",
+    description:
+      "EPB shells. Each has `sections` (one per MPA, each with `snapshots`) and `duty_description_snapshots`.",
+  },
+  {
+    file: "opb_shells.json",
+    key: "opb_shells",
+    description:
+      "OPB shells. Each has `sections` (one per MPA, each with `snapshots`) and `duty_description_snapshots`.",
+  },
+  {
+    file: "award_shells.json",
+    key: "award_shells",
+    description: "Award packages (AF 1206). Each has `sections`, each with `snapshots`.",
+  },
+  {
+    file: "decoration_shells.json",
+    key: "decoration_shells",
+    description: "Decoration citations. Each has `snapshots` of earlier citation text.",
+  },
+  {
+    file: "supervisor_feedbacks_received.json",
+    key: "supervisor_feedbacks",
+    description: "Feedback sessions your supervisors shared with you.",
+  },
+  {
+    file: "credits.json",
+    key: "credits",
+    description:
+      "Credit balance (`balance`) and the full ledger (`transactions`, newest first). Amounts are credits, not dollars.",
+  },
+];
+
+function recordCount(value: AccountExportData[keyof AccountExportData]): number {
+  if (Array.isArray(value)) return value.length;
+  if (value && Array.isArray(value.transactions)) return value.transactions.length;
+  return value ? 1 : 0;
+}
+
+export function buildAccountExportManifest(
+  userId: string,
+  data: AccountExportData,
+  exportedAt: Date,
+): AccountExportManifest {
+  return {
+    format: "myepbuddy-account-export",
+    schema_version: ACCOUNT_EXPORT_SCHEMA_VERSION,
+    exported_at: exportedAt.toISOString(),
+    user_id: userId,
+    files: ACCOUNT_EXPORT_FILES.map(({ file, key, description }) => ({
+      file,
+      records: recordCount(data[key]),
+      description,
+    })),
+  };
+}
+
+export function buildAccountExportReadme(manifest: AccountExportManifest): string {
+  return [
+    "# MyEPBuddy data export",
+    "",
+    `Exported ${manifest.exported_at} · schema version ${manifest.schema_version}`,
+    "",
+    "Every file is UTF-8 JSON. Timestamps are ISO 8601 (UTC), dates are YYYY-MM-DD,",
+    "and ids are UUIDs that link records across files (for example",
+    "`accomplishments[].id` appears in `supervisor_feedbacks_received[].reviewed_accomplishment_ids`).",
+    "Column names match the MyEPBuddy database; fields may be null when never set.",
+    "",
+    "## Files",
+    "",
+    "- `manifest.json` — format, schema version, export time and record counts.",
+    ...manifest.files.map((f) => `- \`${f.file}\` (${f.records}) — ${f.description}`),
+    "",
+    "## Schema versions",
+    "",
+    ...SCHEMA_CHANGELOG.map((line) => `- ${line}`),
+    "",
+  ].join("\n");
+}
+
+export function getAccountExportFileName(exportedAt: Date): string {
+  return `myepbuddy-data-export-${exportedAt.toISOString().slice(0, 10)}.zip`;
+}
+
+export function buildAccountExportArchive(
+  userId: string,
+  data: AccountExportData,
+  exportedAt = new Date(),
+): Uint8Array {
+  const manifest = buildAccountExportManifest(userId, data, exportedAt);
+  const files: AccountExportData = {
+    ...data,
+    // The route already selects these columns; this keeps rater-only fields out even if a caller doesn't
+    supervisor_feedbacks: data.supervisor_feedbacks.map(pickReceivedFeedbackColumns),
+  };
+  const json = (value: unknown) => `${JSON.stringify(value, null, 2)}\n`;
+
+  return createZipArchive(
+    [
+      { name: "manifest.json", content: json(manifest) },
+      { name: "README.md", content: buildAccountExportReadme(manifest) },
+      ...ACCOUNT_EXPORT_FILES.map(({ file, key }) => ({ name: file, content: json(files[key]) })),
+    ],
+    exportedAt,
+  );
+}
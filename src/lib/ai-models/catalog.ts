@@ -17,6 +17,7 @@ const PROVIDER_KEY_MAP: Record<ModelProvider, keyof KeyStatus> = {
   anthropic: "anthropic_key",
   google: "google_key",
   xai: "grok_key",
+  local: "local_base_url",
 };
 
 export function parseModelPreferences(raw: unknown): UserModelPreferences {
@@ -122,7 +123,8 @@ export function userHasOwnApiKey(keyStatus: KeyStatus): boolean {
     keyStatus.openai_key ||
     keyStatus.anthropic_key ||
     keyStatus.google_key ||
-    keyStatus.grok_key
+    keyStatus.grok_key ||
+    keyStatus.local_base_url
   );
 }
 
@@ -238,19 +240,24 @@ export function mergeDiscoveredModelMetadata(
   };
 }
 
+/**
+ * Server credential for a provider. The local endpoint's key is optional, so
+ * its base URL stands in as the "is configured" signal.
+ */
 export function getProviderEnvKey(provider: ModelProvider): string | null {
   const map: Record<ModelProvider, string> = {
     openai: "OPENAI_API_KEY",
     anthropic: "ANTHROPIC_API_KEY",
     google: "GOOGLE_GENERATIVE_AI_API_KEY",
     xai: "XAI_API_KEY",
+    local: "LOCAL_LLM_BASE_URL",
   };
   const value = process.env[map[provider]];
   return value && value.trim().length > 0 ? value.trim() : null;
 }
 
 export function providersWithEnvKeys(): ModelProvider[] {
-  return (["openai", "anthropic", "google", "xai"] as ModelProvider[]).filter(
+  return (["openai", "anthropic", "google", "xai", "local"] as ModelProvider[]).filter(
     (provider) => Boolean(getProviderEnvKey(provider)),
   );
 }
@@ -0,0 +1,122 @@
+/**
+ * Local / OpenAI-compatible endpoints (Ollama, vLLM, LM Studio, on-prem gateways).
+ *
+ * Model IDs from these servers ("llama3.1:8b", "mistral-7b-instruct") can't be
+ * told apart from hosted models by substring, so they are namespaced with
+ * `local:` everywhere in the app and the prefix is stripped only when the
+ * request goes out to the endpoint.
+ *
+ * An admin endpoint comes from LOCAL_LLM_BASE_URL / LOCAL_LLM_API_KEY and its
+ * models are synced into the shared catalog. Per-user endpoints are stored on
+ * user_api_keys, but only honored when LOCAL_LLM_ALLOW_USER_ENDPOINTS=true:
+ * the server calls whatever URL is saved, which is only appropriate on
+ * self-hosted deployments.
+ */
+
+import type { CatalogModelRow } from "@/lib/ai-models/types";
+
+export const LOCAL_MODEL_PREFIX = "local:";
+
+export interface LocalEndpointConfig {
+  /** Normalized base URL ending in /v1. */
+  baseUrl: string;
+  apiKey: string | null;
+}
+
+export function isLocalModelId(modelId: string): boolean {
+  return modelId.startsWith(LOCAL_MODEL_PREFIX);
+}
+
+export function toLocalModelId(endpointModelId: string): string {
+  return isLocalModelId(endpointModelId) ? endpointModelId : `${LOCAL_MODEL_PREFIX}${endpointModelId}`;
+}
+
+/** The model name the endpoint itself expects. */
+export function stripLocalModelPrefix(modelId: string): string {
+  return isLocalModelId(modelId) ? modelId.slice(LOCAL_MODEL_PREFIX.length) : modelId;
+}
+
+/**
+ * Validates and normalizes a base URL to `<origin><path>/v1`. Accepts the
+ * server root ("http://gpu01:11434") or the API root ("http://gpu01:11434/v1").
+ * Returns null for anything that isn't an http(s) URL.
+ */
+export function normalizeLocalBaseUrl(raw: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(raw.trim());
+  } catch {
+    return null;
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+  if (url.username || url.password) return null;
+
+  const path = url.pathname.replace(/\/+$/, "");
+  const apiPath = /\/v1$/.test(path) ? path : `${path}/v1`;
+  return `${url.origin}${apiPath}`;
+}
+
+export function userLocalEndpointsAllowed(): boolean {
+  return process.env.LOCAL_LLM_ALLOW_USER_ENDPOINTS === "true";
+}
+
+/** Admin-configured endpoint from the environment, if any. */
+export function getServerLocalEndpoint(): LocalEndpointConfig | null {
+  const baseUrl = normalizeLocalBaseUrl(process.env.LOCAL_LLM_BASE_URL ?? "");
+  if (!baseUrl) return null;
+
+  const apiKey = process.env.LOCAL_LLM_API_KEY?.trim();
+  return { baseUrl, apiKey: apiKey || null };
+}
+
+/**
+ * Endpoint a `local:` model is sent to: the user's own when they have one and
+ * user endpoints are allowed, otherwise the admin endpoint.
+ */
+export function resolveLocalEndpoint(
+  userBaseUrl: string | null | undefined,
+  userApiKey: string | null | undefined,
+): LocalEndpointConfig | null {
+  if (userBaseUrl && userLocalEndpointsAllowed()) {
+    const baseUrl = normalizeLocalBaseUrl(userBaseUrl);
+    if (baseUrl) return { baseUrl, apiKey: userApiKey?.trim() || null };
+  }
+  return getServerLocalEndpoint();
+}
+
+/**
+ * Catalog-shaped rows for models discovered on a user's own endpoint, so the
+ * pickers and visibility toggles treat them like synced models. IDs already in
+ * the shared catalog are skipped.
+ */
+export function buildUserLocalCatalogRows(
+  modelIds: string[],
+  existingIds: ReadonlySet<string>,
+  seenAt: string,
+): CatalogModelRow[] {
+  const rows: CatalogModelRow[] = [];
+  for (const rawId of modelIds) {
+    const id = toLocalModelId(rawId);
+    if (existingIds.has(id) || rows.some((row) => row.id === id)) continue;
+
+    rows.push({
+      id,
+      provider: "local",
+      display_name: stripLocalModelPrefix(id),
+      description: "Discovered on your local endpoint",
+      quality: "good",
+      statement_tip: "Self-hosted model. Quality depends on the model and hardware serving it.",
+      is_app_default: false,
+      is_active: true,
+      supports_default_key: false,
+      sort_order: 999,
+      last_seen_at: seenAt,
+      deprecated_at: null,
+      input_price_per_mtok: null,
+      output_price_per_mtok: null,
+      cached_input_price_per_mtok: null,
+      price_currency: "USD",
+    });
+  }
+  return rows;
+}
@@ -1,5 +1,6 @@
 import type { ModelProvider } from "@/lib/ai-models/types";
 import type { ProviderDiscoveredModel } from "@/lib/ai-models/types";
+import { toLocalModelId, type LocalEndpointConfig } from "@/lib/ai-models/local-endpoint";
 
 const OPENAI_PREFIXES = ["gpt-", "o1", "o3", "o4", "chatgpt-"];
 const OPENAI_EXCLUDES = [
@@ -21,6 +22,9 @@ const OPENAI_EXCLUDES = [
 const ANTHROPIC_PREFIXES = ["claude-"];
 const GOOGLE_EXCLUDES = ["embedding", "aqa", "imagen", "veo", "gemma", "learnlm", "live"];
 const XAI_PREFIXES = ["grok-"];
+// Local servers list whatever they host; drop the obvious non-chat models
+const LOCAL_EXCLUDES = ["embed", "whisper", "tts", "rerank", "moderation"];
+const LOCAL_DISCOVERY_TIMEOUT_MS = 10000;
 
 function isTextGenerationOpenAiModel(id: string): boolean {
   const lower = id.toLowerCase();
@@ -133,6 +137,32 @@ export async function fetchXaiModels(apiKey: string): Promise<ProviderDiscovered
     }));
 }
 
+/**
+ * Lists models on an OpenAI-compatible server via GET {baseUrl}/models
+ * (Ollama, vLLM, LM Studio and most gateways implement it). IDs come back
+ * with the `local:` prefix.
+ */
+export async function fetchLocalEndpointModels(
+  endpoint: LocalEndpointConfig,
+): Promise<ProviderDiscoveredModel[]> {
+  const response = await fetch(`${endpoint.baseUrl}/models`, {
+    headers: endpoint.apiKey ? { Authorization: `Bearer ${endpoint.apiKey}` } : {},
+    signal: AbortSignal.timeout(LOCAL_DISCOVERY_TIMEOUT_MS),
+  });
+  if (!response.ok) return [];
+
+  const body = (await response.json()) as { data?: Array<{ id: string }> };
+  return (body.data ?? [])
+    .filter((model) => typeof model.id === "string" && model.id.trim())
+    .filter((model) => !LOCAL_EXCLUDES.some((part) => model.id.toLowerCase().includes(part)))
+    .map((model) => ({
+      id: toLocalModelId(model.id),
+      provider: "local" as const,
+      displayName: model.id,
+      description: "Served by your organization's local endpoint",
+    }));
+}
+
 export async function fetchProviderModels(
   provider: ModelProvider,
   apiKey: string,
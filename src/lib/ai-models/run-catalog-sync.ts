@@ -4,7 +4,11 @@ import {
   mergeDiscoveredModelMetadata,
   providersWithEnvKeys,
 } from "@/lib/ai-models/catalog";
-import { fetchProviderModels } from "@/lib/ai-models/provider-sync";
+import { getServerLocalEndpoint } from "@/lib/ai-models/local-endpoint";
+import {
+  fetchLocalEndpointModels,
+  fetchProviderModels,
+} from "@/lib/ai-models/provider-sync";
 import {
   completeCatalogSync,
   failCatalogSync,
@@ -12,7 +16,7 @@ import {
 } from "@/lib/ai-models/sync-lock";
 import type { ModelProvider } from "@/lib/ai-models/types";
 
-const PROVIDER_ENV_KEYS: Record<ModelProvider, string> = {
+const PROVIDER_ENV_KEYS: Record<Exclude<ModelProvider, "local">, string> = {
   openai: "OPENAI_API_KEY",
   anthropic: "ANTHROPIC_API_KEY",
   google: "GOOGLE_GENERATIVE_AI_API_KEY",
@@ -42,13 +46,32 @@ export async function runModelCatalogSync(): Promise<{
   const discoveredIds = new Set<string>();
   const now = new Date().toISOString();
   const upsertRows: Record<string, unknown>[] = [];
+  const unreachableProviders = new Set<ModelProvider>();
 
   try {
     for (const provider of providers) {
-      const apiKey = process.env[PROVIDER_ENV_KEYS[provider]];
-      if (!apiKey?.trim()) continue;
+      let discovered;
+      if (provider === "local") {
+        // An on-prem server that is down (or misconfigured) must not fail the
+        // sync or deprecate its models
+        const endpoint = getServerLocalEndpoint();
+        if (!endpoint) {
+          unreachableProviders.add(provider);
+          continue;
+        }
+        try {
+          discovered = await fetchLocalEndpointModels(endpoint);
+        } catch (error) {
+          console.error("[ai-models] Local endpoint unreachable:", error instanceof Error ? error.message : error);
+          unreachableProviders.add(provider);
+          continue;
+        }
+      } else {
+        const apiKey = process.env[PROVIDER_ENV_KEYS[provider]];
+        if (!apiKey?.trim()) continue;
+        discovered = await fetchProviderModels(provider, apiKey.trim());
+      }
 
-      const discovered = await fetchProviderModels(provider, apiKey.trim());
       for (const model of discovered) {
         discoveredIds.add(model.id);
         const metadata = mergeDiscoveredModelMetadata(
@@ -88,7 +111,7 @@ export async function runModelCatalogSync(): Promise<{
     }
 
     let deprecatedCount = 0;
-    const syncedProviders = new Set(providers);
+    const syncedProviders = new Set(providers.filter((provider) => !unreachableProviders.has(provider)));
 
     for (const row of existingRows ?? []) {
       const typed = row as { id: string; is_app_default: boolean; provider: ModelProvider };
@@ -1,6 +1,6 @@
 import type { ModelQuality } from "@/lib/constants";
 
-export type ModelProvider = "openai" | "anthropic" | "google" | "xai";
+export type ModelProvider = "openai" | "anthropic" | "google" | "xai" | "local";
 
 export type ModelContext =
   | "generate"
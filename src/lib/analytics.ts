@@ -134,6 +134,13 @@ export const Analytics = {
   epbAssessmentStarted: () =>
     trackEvent("epb_assessment_started"),
 
+  // ── OPB Shell Workflow ─────────────────────────
+  opbShared: () =>
+    trackEvent("opb_shared"),
+
+  opbShareRemoved: () =>
+    trackEvent("opb_share_removed"),
+
   // ── Statement Generation ───────────────────────
   generateStarted: (model: string, style: string, mpaCount: number) => 
     trackEvent("generate_started", { model, style, mpa_count: mpaCount }),
@@ -1,10 +1,12 @@
 import type { KeyStatus } from "@/app/actions/api-keys";
+import { userLocalEndpointsAllowed } from "@/lib/ai-models/local-endpoint";
 
 export const EMPTY_KEY_STATUS: KeyStatus = {
   openai_key: false,
   anthropic_key: false,
   google_key: false,
   grok_key: false,
+  local_base_url: false,
 };
 
 interface UserApiKeysRow {
@@ -12,6 +14,7 @@ interface UserApiKeysRow {
   anthropic_key: string | null;
   google_key: string | null;
   grok_key: string | null;
+  local_base_url: string | null;
 }
 
 export function keyStatusFromRow(data: UserApiKeysRow | null): KeyStatus {
@@ -22,5 +25,7 @@ export function keyStatusFromRow(data: UserApiKeysRow | null): KeyStatus {
     anthropic_key: !!data.anthropic_key,
     google_key: !!data.google_key,
     grok_key: !!data.grok_key,
+    // A saved endpoint is ignored while the server disallows user endpoints
+    local_base_url: !!data.local_base_url && userLocalEndpointsAllowed(),
   };
 }
@@ -0,0 +1,371 @@
+/**
+ * Award shell → AF Form 1206 PDF.
+ *
+ * Line breaks come from the same Times New Roman 12pt width model the award
+ * workspace previews with (`getVisualLineSegments` at `AF1206_LINE_WIDTH_PX`),
+ * and each line is drawn glyph-run by glyph-run at the model's x positions so
+ * thin/medium spacing from Compress/Expand lands on paper exactly as previewed.
+ */
+
+import { rgb } from "pdf-lib";
+import {
+  AWARD_1206_CATEGORIES,
+  AWARD_CATEGORIES,
+  AWARD_LEVELS,
+} from "@/lib/constants";
+import {
+  AF1206_LINE_WIDTH_PX,
+  getCharWidth,
+  getTextWidthPx,
+  getVisualLineSegments,
+} from "@/lib/bullet-fitting";
+import {
+  LETTER_PAGE,
+  PX_TO_PT,
+  addVerticalSpace,
+  createFormWriter,
+  drawCenteredText,
+  drawFieldRow,
+  drawParagraph,
+  drawRightNote,
+  drawSectionHeading,
+  ensureSpace,
+  finalizeFormWriter,
+  toWinAnsiText,
+  type FormWriter,
+} from "@/lib/pdf/form-writer";
+import type {
+  AwardCategory,
+  AwardLevel,
+  AwardPeriodType,
+  UserAwardCategory,
+} from "@/types/database";
+
+export type AwardSlotFitStatus = "fits" | "short" | "overflow" | "empty";
+
+export interface Award1206ExportShell {
+  cycle_year: number;
+  title: string | null;
+  award_level: AwardLevel;
+  award_category: AwardCategory;
+  award_period_type: AwardPeriodType;
+  quarter: number | null;
+  is_fiscal_year: boolean;
+  period_start_date: string | null;
+  period_end_date: string | null;
+  is_team_award: boolean;
+  sections: {
+    category: string;
+    slot_index: number;
+    statement_text: string;
+    lines_per_statement: number | null;
+  }[];
+}
+
+export interface Award1206Nominee {
+  /** Rank + name for individuals, team/office name for team awards. */
+  name: string;
+  afsc: string | null;
+  unit: string | null;
+}
+
+export interface Award1206SlotReport {
+  category: string;
+  heading: string;
+  slotIndex: number;
+  /** Statement as printed, including the leading "- ". */
+  text: string;
+  lines: string[];
+  lineCount: number;
+  targetLines: number;
+  /** How full the last printed line is, 0–100. */
+  lastLineFillPercent: number;
+  status: AwardSlotFitStatus;
+}
+
+export interface Award1206CategoryBlock {
+  key: string;
+  heading: string;
+  slots: Award1206SlotReport[];
+}
+
+export interface Award1206Layout {
+  awardTitle: string;
+  categoryLabel: string;
+  levelLabel: string;
+  periodLabel: string;
+  nominee: Award1206Nominee;
+  isTeamAward: boolean;
+  categories: Award1206CategoryBlock[];
+  /** Every non-empty slot in print order. */
+  report: Award1206SlotReport[];
+}
+
+/** Same labels the award list shows, e.g. "FY2026 Q2" or "Mar 1 - Jun 30, 2026". */
+export function formatAwardPeriodLabel(
+  shell: Pick<
+    Award1206ExportShell,
+    "cycle_year" | "award_period_type" | "quarter" | "is_fiscal_year" | "period_start_date" | "period_end_date"
+  >,
+): string {
+  const fiscalPrefix = shell.is_fiscal_year ? "FY" : "";
+
+  if (shell.award_period_type === "annual") {
+    return `${fiscalPrefix}${shell.cycle_year} Annual`;
+  }
+  if (shell.award_period_type === "quarterly" && shell.quarter) {
+    return `${fiscalPrefix}${shell.cycle_year} Q${shell.quarter}`;
+  }
+  if (shell.award_period_type === "special") {
+    if (shell.period_start_date && shell.period_end_date) {
+      const formatDate = (value: string) =>
+        new Date(`${value.slice(0, 10)}T00:00:00`).toLocaleDateString("en-US", {
+          month: "short",
+          day: "numeric",
+        });
+      return `${formatDate(shell.period_start_date)} - ${formatDate(shell.period_end_date)}, ${shell.cycle_year}`;
+    }
+    return `${shell.cycle_year} Special`;
+  }
+  return `${shell.cycle_year}`;
+}
+
+/** Mirror the workspace's Final Review: every statement prints as a "- " bullet. */
+function toBulletText(text: string): string {
+  const trimmed = text.trim();
+  return /^[-–—]\s/.test(trimmed) ? trimmed : `- ${trimmed}`;
+}
+
+export function analyzeAwardSlot(
+  category: string,
+  heading: string,
+  slotIndex: number,
+  statementText: string,
+  targetLines: number,
+): Award1206SlotReport {
+  if (!statementText.trim()) {
+    return {
+      category,
+      heading,
+      slotIndex,
+      text: "",
+      lines: [],
+      lineCount: 0,
+      targetLines,
+      lastLineFillPercent: 0,
+      status: "empty",
+    };
+  }
+
+  const text = toBulletText(statementText);
+  const segments = getVisualLineSegments(text, AF1206_LINE_WIDTH_PX);
+  const lastWidth = getTextWidthPx(segments[segments.length - 1].text.trimEnd());
+  // An unbreakable run wider than the form line overflows even on its own line
+  const hasWideLine = segments.some((s) => getTextWidthPx(s.text.trimEnd()) > AF1206_LINE_WIDTH_PX);
+
+  let status: AwardSlotFitStatus = "fits";
+  if (segments.length > targetLines || hasWideLine) {
+    status = "overflow";
+  } else if (segments.length < targetLines) {
+    status = "short";
+  }
+
+  return {
+    category,
+    heading,
+    slotIndex,
+    text,
+    lines: segments.map((s) => s.text),
+    lineCount: segments.length,
+    targetLines,
+    lastLineFillPercent: Math.min(100, Math.round((lastWidth / AF1206_LINE_WIDTH_PX) * 100)),
+    status,
+  };
+}
+
+export function buildAward1206Layout(
+  shell: Award1206ExportShell,
+  nominee: Award1206Nominee,
+  userCategories: Pick<UserAwardCategory, "category_key" | "label">[] = [],
+): Award1206Layout {
+  const categoryLabel =
+    userCategories.find((c) => c.category_key === shell.award_category)?.label ||
+    AWARD_CATEGORIES.find((c) => c.value === shell.award_category)?.label ||
+    shell.award_category;
+  const levelLabel =
+    AWARD_LEVELS.find((l) => l.value === shell.award_level)?.label || shell.award_level;
+
+  // Standard 1206 headings first, then any custom section keys in the order they appear
+  const knownKeys = AWARD_1206_CATEGORIES.map((c) => c.key);
+  const extraKeys = [...new Set(shell.sections.map((s) => s.category))].filter(
+    (key) => !knownKeys.includes(key),
+  );
+
+  const categories: Award1206CategoryBlock[] = [];
+  for (const key of [...knownKeys, ...extraKeys]) {
+    const heading =
+      AWARD_1206_CATEGORIES.find((c) => c.key === key)?.heading ??
+      key.replace(/_/g, " ").toUpperCase();
+    const slots = shell.sections
+      .filter((s) => s.category === key)
+      .sort((a, b) => a.slot_index - b.slot_index)
+      .map((s) =>
+        analyzeAwardSlot(key, heading, s.slot_index, s.statement_text ?? "", s.lines_per_statement || 2),
+      )
+      .filter((slot) => slot.status !== "empty");
+
+    if (slots.length > 0) {
+      categories.push({ key, heading, slots });
+    }
+  }
+
+  return {
+    awardTitle: shell.title?.trim() || `${levelLabel} ${categoryLabel} Award`,
+    categoryLabel,
+    levelLabel,
+    periodLabel: formatAwardPeriodLabel(shell),
+    nominee,
+    isTeamAward: shell.is_team_award,
+    categories,
+    report: categories.flatMap((c) => c.slots),
+  };
+}
+
+/** Suggested download name, e.g. `AF1206_2026_SSgt_Doe.pdf`. */
+export function getAward1206FileName(layout: Award1206Layout, cycleYear: number): string {
+  const nameParts = layout.nominee.name.replace(/,/g, " ").trim().split(/\s+/).slice(0, 2);
+  const parts = ["AF1206", String(cycleYear), ...nameParts]
+    .map((p) => p.replace(/[^A-Za-z0-9-]+/g, ""))
+    .filter(Boolean);
+  return `${parts.join("_")}.pdf`;
+}
+
+export function getAward1206OverflowCount(layout: Award1206Layout): number {
+  return layout.report.filter((slot) => slot.status === "overflow").length;
+}
+
+const FONT_SIZE = 12;
+const LINE_HEIGHT = 13.8;
+const LINE_WIDTH_PT = AF1206_LINE_WIDTH_PX * PX_TO_PT;
+// Centre the 1206 text area on a Letter page
+const PAGE_MARGIN = (LETTER_PAGE.width - LINE_WIDTH_PT) / 2;
+
+const SPACING_CHARACTERS = new Set([" ", "\u2004", "\u2006", "\u2009"]);
+
+/**
+ * Draw one pre-broken line. Special spaces are not glyphs in the standard
+ * fonts, so they advance the cursor by their modeled width instead.
+ */
+function drawModeledLine(writer: FormWriter, line: string, y: number, overflow: boolean): void {
+  let x = writer.margin;
+  let run = "";
+  let runX = x;
+
+  const flush = () => {
+    if (!run) return;
+    writer.page.drawText(toWinAnsiText(run), {
+      x: runX,
+      y,
+      size: FONT_SIZE,
+      font: writer.regular,
+      color: overflow ? rgb(0.75, 0.1, 0.1) : rgb(0, 0, 0),
+    });
+    run = "";
+  };
+
+  for (const char of line.trimEnd()) {
+    if (SPACING_CHARACTERS.has(char)) {
+      flush();
+    } else {
+      if (!run) runX = x;
+      run += char;
+    }
+    x += getCharWidth(char) * PX_TO_PT;
+  }
+  flush();
+}
+
+function describeSlot(slot: Award1206SlotReport): string {
+  const lines = `${slot.lineCount}/${slot.targetLines} lines`;
+  switch (slot.status) {
+    case "overflow":
+      return `${lines} - OVERFLOW`;
+    case "short":
+      return `${lines} - short, last line ${slot.lastLineFillPercent}% full`;
+    default:
+      return `${lines} - fits, last line ${slot.lastLineFillPercent}% full`;
+  }
+}
+
+export async function renderAward1206Pdf(layout: Award1206Layout): Promise<Uint8Array> {
+  const writer = await createFormWriter({
+    title: `AF Form 1206 - ${layout.nominee.name}`,
+    subject: layout.awardTitle,
+    fontFamily: "times",
+    margin: PAGE_MARGIN,
+    runningHeader: `AF Form 1206 - ${layout.nominee.name} (continued)`,
+  });
+  addVerticalSpace(writer, 18);
+
+  drawCenteredText(writer, "NOMINATION FOR AWARD", { size: 14, bold: true, gapAfter: 2 });
+  drawCenteredText(writer, "AF Form 1206 layout", { size: 9, gapAfter: 12 });
+
+  drawFieldRow(writer, [
+    { label: "1. Award", value: layout.awardTitle, span: 0.5 },
+    { label: "2. Category", value: `${layout.levelLabel} - ${layout.categoryLabel}`, span: 0.3 },
+    { label: "3. Award Period", value: layout.periodLabel, span: 0.2 },
+  ]);
+  drawFieldRow(writer, [
+    {
+      label: layout.isTeamAward ? "4. Team / Office" : "4. Rank / Name of Nominee",
+      value: layout.nominee.name,
+      span: 0.45,
+    },
+    { label: "5. Unit / Office Symbol", value: layout.nominee.unit ?? "", span: 0.35 },
+    { label: "6. DAFSC", value: layout.nominee.afsc ?? "", span: 0.2 },
+  ]);
+  addVerticalSpace(writer, 14);
+
+  if (layout.categories.length === 0) {
+    drawParagraph(writer, "", { placeholder: "No statements entered." });
+  }
+
+  for (const category of layout.categories) {
+    ensureSpace(writer, LINE_HEIGHT * 3);
+    writer.page.drawText(toWinAnsiText(category.heading), {
+      x: writer.margin,
+      y: writer.y - FONT_SIZE,
+      size: FONT_SIZE,
+      font: writer.bold,
+    });
+    writer.y -= LINE_HEIGHT;
+
+    for (const slot of category.slots) {
+      // Keep a bullet on one page so the line count can be checked by eye
+      ensureSpace(writer, LINE_HEIGHT * slot.lineCount);
+      slot.lines.forEach((line, index) => {
+        drawModeledLine(writer, line, writer.y - FONT_SIZE, index >= slot.targetLines);
+        writer.y -= LINE_HEIGHT;
+      });
+    }
+    addVerticalSpace(writer, LINE_HEIGHT);
+  }
+
+  if (layout.report.length > 0) {
+    addVerticalSpace(writer, 6);
+    drawSectionHeading(writer, "Line Fit Report (not part of the form)");
+    addVerticalSpace(writer, 4);
+    for (const category of layout.categories) {
+      category.slots.forEach((slot, index) => {
+        drawParagraph(writer, `${category.heading} - statement ${index + 1}`, {
+          size: 9,
+          lineHeight: 11,
+          bold: true,
+        });
+        drawRightNote(writer, describeSlot(slot), { warn: slot.status === "overflow" });
+      });
+    }
+  }
+
+  return finalizeFormWriter(writer, "MyEPBuddy export - not an official form.");
+}
@@ -7,6 +7,7 @@ export const BILLABLE_API_PATHS = [
   "/api/plan-epb",
   "/api/revise-selection",
   "/api/generate-war",
+  "/api/generate-war/rollup",
   "/api/generate-award",
   "/api/generate-decoration",
   "/api/generate-slot-statement",
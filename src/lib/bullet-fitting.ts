@@ -794,3 +794,90 @@ export function getVisualLineSegments(
   
   return segments;
 }
+
+// ============================================================================
+// Monospace layout (decoration citations, Courier New)
+// ============================================================================
+
+/** Every Courier New glyph advances 0.6 em, so a line holds a fixed character count. */
+export const COURIER_CHAR_WIDTH_EM = 0.6;
+
+/** Citation text area on the DAF decoration forms: 6.5in between 1in margins, in points. */
+export const CITATION_LINE_WIDTH_PT = 468;
+
+/**
+ * Characters per line for Courier New at the given point size
+ * (11pt → 70, 12pt → 65, 10pt → 78 on the citation text area).
+ */
+export function getMonospaceCharsPerLine(
+  fontSizePt: number,
+  lineWidthPt: number = CITATION_LINE_WIDTH_PT
+): number {
+  return Math.max(1, Math.floor(lineWidthPt / (fontSizePt * COURIER_CHAR_WIDTH_EM)));
+}
+
+/**
+ * One wrapped line. Indices point into the original text so editors can map
+ * a line back onto the characters the user typed; the space a break consumes
+ * belongs to neither line.
+ */
+export interface MonospaceLineSegment {
+  text: string;
+  startIndex: number;
+  endIndex: number;
+  /** True when the line falls past `maxLines`. */
+  isOverflow: boolean;
+}
+
+/**
+ * Word-wrap text at a fixed character count, breaking at spaces and hard
+ * breaking words longer than a line. Explicit newlines always start a line.
+ */
+export function getMonospaceLineSegments(
+  text: string,
+  charsPerLine: number,
+  maxLines?: number | null
+): MonospaceLineSegment[] {
+  const segments: MonospaceLineSegment[] = [];
+  if (!text.trim()) return segments;
+
+  const push = (start: number, end: number) => {
+    segments.push({
+      text: text.substring(start, end),
+      startIndex: start,
+      endIndex: end,
+      isOverflow: maxLines != null && segments.length >= maxLines,
+    });
+  };
+
+  let lineStart = 0;
+  while (lineStart < text.length) {
+    // Spaces at the start of a wrapped line are swallowed by the break
+    while (lineStart < text.length && text[lineStart] === ' ') lineStart++;
+    if (lineStart >= text.length) break;
+
+    const newline = text.indexOf('\n', lineStart);
+    const hardEnd = newline === -1 ? text.length : newline;
+
+    if (hardEnd - lineStart <= charsPerLine) {
+      push(lineStart, hardEnd);
+      lineStart = hardEnd + 1;
+      continue;
+    }
+
+    // Break at the last space that keeps the line within the limit
+    const window = text.substring(lineStart, lineStart + charsPerLine + 1);
+    const lastSpace = window.lastIndexOf(' ');
+    if (lastSpace > 0) {
+      let end = lineStart + lastSpace;
+      while (end > lineStart && text[end - 1] === ' ') end--;
+      push(lineStart, end);
+      lineStart = lineStart + lastSpace + 1;
+    } else {
+      push(lineStart, lineStart + charsPerLine);
+      lineStart += charsPerLine;
+    }
+  }
+
+  return segments;
+}
@@ -0,0 +1,286 @@
+/**
+ * Sequence CRDT (RGA) for concurrently edited text fields. Every character has a
+ * Lamport id `clock@site` and remembers the character it was typed after;
+ * deletes leave tombstones. Ops are idempotent and commute, so peers that have
+ * seen the same ops show the same text no matter the delivery order.
+ */
+
+export type CollabTextOp =
+  /** A typed run: characters get ids `clock..clock+n-1` at `site`, each after the last */
+  | { type: "insert"; id: string; after: string | null; text: string }
+  | { type: "delete"; ids: string[] };
+
+export interface CollabTextSnapshot {
+  seed: string;
+  chars: { id: string; after: string | null; value: string; deleted: boolean }[];
+}
+
+interface CollabTextChar {
+  id: string;
+  clock: number;
+  site: string;
+  after: string | null;
+  value: string;
+  deleted: boolean;
+}
+
+/** Remote ops waiting on characters that haven't arrived yet are capped */
+const MAX_PENDING_OPS = 500;
+/** Recent texts kept for hasHeld; a save lands within a few edits of when it was taken */
+const MAX_HELD_TEXTS = 200;
+
+function formatId(clock: number, site: string): string {
+  return `${clock}@${site}`;
+}
+
+function parseId(id: string): { clock: number; site: string } {
+  const at = id.indexOf("@");
+  return { clock: Number(id.slice(0, at)), site: id.slice(at + 1) };
+}
+
+/** Newer ids sort first among characters typed after the same origin */
+function sortsBefore(a: { clock: number; site: string }, b: { clock: number; site: string }): boolean {
+  return a.clock !== b.clock ? a.clock > b.clock : a.site > b.site;
+}
+
+function hashText(text: string): string {
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+}
+
+export class CollabTextDoc {
+  readonly site: string;
+  /** Site of the initial characters; peers that loaded the same text share it */
+  readonly seed: string;
+  private chars: CollabTextChar[] = [];
+  private byId = new Map<string, CollabTextChar>();
+  private clock = 0;
+  private pending: CollabTextOp[] = [];
+  private cachedText: string | null = "";
+  private held: string[] = [];
+
+  constructor(site: string, initialText = "", seed = `seed-${hashText(initialText)}`) {
+    this.site = site;
+    this.seed = seed;
+    let after: string | null = null;
+    for (let i = 0; i < initialText.length; i++) {
+      const id = formatId(i + 1, seed);
+      this.integrate(id, after, initialText[i]);
+      after = id;
+    }
+    this.hold();
+  }
+
+  static fromSnapshot(site: string, snapshot: CollabTextSnapshot): CollabTextDoc {
+    const doc = new CollabTextDoc(site, "", snapshot.seed);
+    doc.merge(snapshot);
+    // The empty placeholder it started from was never the shared text
+    doc.held = [doc.text];
+    return doc;
+  }
+
+  get text(): string {
+    if (this.cachedText === null) {
+      this.cachedText = this.chars
+        .filter((c) => !c.deleted)
+        .map((c) => c.value)
+        .join("");
+    }
+    return this.cachedText;
+  }
+
+  get pendingCount(): number {
+    return this.pending.length;
+  }
+
+  snapshot(): CollabTextSnapshot {
+    return {
+      seed: this.seed,
+      chars: this.chars.map(({ id, after, value, deleted }) => ({ id, after, value, deleted })),
+    };
+  }
+
+  /** Whether this doc has recently shown `text`; saves made from inside the session always have */
+  hasHeld(text: string): boolean {
+    return this.held.includes(text);
+  }
+
+  /** Turn a local edit into ops by diffing against the current text; ops are already applied */
+  applyLocalText(next: string): CollabTextOp[] {
+    return this.applyText(next, this.site);
+  }
+
+  /**
+   * Like applyLocalText, for text saved outside the session. Every peer sees that
+   * save at once; the inserted ids come from the text rather than this site, so
+   * peers applying it to the same text send identical ops instead of inserting it twice.
+   */
+  applySavedText(next: string): CollabTextOp[] {
+    return this.applyText(next, `saved-${hashText(next)}`);
+  }
+
+  private applyText(next: string, site: string): CollabTextOp[] {
+    const prev = this.text;
+    if (prev === next) return [];
+
+    let start = 0;
+    while (start < prev.length && start < next.length && prev[start] === next[start]) start++;
+    let end = 0;
+    while (
+      end < prev.length - start &&
+      end < next.length - start &&
+      prev[prev.length - 1 - end] === next[next.length - 1 - end]
+    ) {
+      end++;
+    }
+
+    const visible = this.chars.filter((c) => !c.deleted);
+    const ops: CollabTextOp[] = [];
+
+    const removed = visible.slice(start, prev.length - end);
+    if (removed.length > 0) {
+      ops.push({ type: "delete", ids: removed.map((c) => c.id) });
+    }
+
+    const inserted = next.slice(start, next.length - end);
+    if (inserted) {
+      ops.push({
+        type: "insert",
+        id: formatId(this.clock + 1, site),
+        after: start > 0 ? visible[start - 1].id : null,
+        text: inserted,
+      });
+    }
+
+    for (const op of ops) this.applyOp(op);
+    this.hold();
+    return ops;
+  }
+
+  /** Apply a peer's op; returns whether the visible text changed */
+  apply(op: CollabTextOp): boolean {
+    const before = this.text;
+    if (!this.applyOp(op)) {
+      this.pending.push(op);
+      if (this.pending.length > MAX_PENDING_OPS) this.pending.shift();
+    }
+    this.flushPending();
+    this.hold();
+    return this.text !== before;
+  }
+
+  /** Union a peer's snapshot into this doc; returns whether the visible text changed */
+  merge(snapshot: CollabTextSnapshot): boolean {
+    const before = this.text;
+    // Snapshots list characters in document order, so every origin is seen first
+    for (const c of snapshot.chars) {
+      if (!this.byId.has(c.id) && (c.after === null || this.byId.has(c.after))) {
+        this.integrate(c.id, c.after, c.value);
+      }
+      const char = this.byId.get(c.id);
+      if (char && c.deleted && !char.deleted) {
+        char.deleted = true;
+        this.cachedText = null;
+      }
+    }
+    this.flushPending();
+    this.hold();
+    return this.text !== before;
+  }
+
+  /** Stable position for a caret: the id of the character just before it (null = start) */
+  anchorAt(index: number): string | null {
+    if (index <= 0) return null;
+    let seen = 0;
+    let last: string | null = null;
+    for (const c of this.chars) {
+      if (c.deleted) continue;
+      last = c.id;
+      if (++seen === index) return c.id;
+    }
+    return last;
+  }
+
+  /** Current index of an anchor from anchorAt, or null if this doc hasn't seen it */
+  indexOf(anchor: string | null): number | null {
+    if (anchor === null) return 0;
+    if (!this.byId.has(anchor)) return null;
+    // A deleted anchor still marks where the caret was: after the visible text before it
+    let index = 0;
+    for (const c of this.chars) {
+      if (!c.deleted) index++;
+      if (c.id === anchor) return index;
+    }
+    return null;
+  }
+
+  private applyOp(op: CollabTextOp): boolean {
+    if (op.type === "delete") {
+      const missing = op.ids.filter((id) => !this.byId.has(id));
+      for (const id of op.ids) {
+        const char = this.byId.get(id);
+        if (char && !char.deleted) {
+          char.deleted = true;
+          this.cachedText = null;
+        }
+      }
+      if (missing.length === 0) return true;
+      // Keep waiting on the characters we haven't received yet
+      this.pending.push({ type: "delete", ids: missing });
+      return true;
+    }
+
+    if (op.after !== null && !this.byId.has(op.after)) return false;
+    const { clock, site } = parseId(op.id);
+    let after = op.after;
+    for (let i = 0; i < op.text.length; i++) {
+      const id = formatId(clock + i, site);
+      this.integrate(id, after, op.text[i]);
+      after = id;
+    }
+    return true;
+  }
+
+  private hold() {
+    const text = this.text;
+    if (this.held[this.held.length - 1] === text) return;
+    this.held.push(text);
+    if (this.held.length > MAX_HELD_TEXTS) this.held.shift();
+  }
+
+  private flushPending() {
+    let progressed = true;
+    while (progressed && this.pending.length > 0) {
+      progressed = false;
+      const waiting = this.pending;
+      this.pending = [];
+      for (const op of waiting) {
+        if (op.type === "delete" && op.ids.every((id) => !this.byId.has(id))) {
+          this.pending.push(op);
+          continue;
+        }
+        if (this.applyOp(op)) {
+          progressed = true;
+        } else {
+          this.pending.push(op);
+        }
+      }
+    }
+  }
+
+  private integrate(id: string, after: string | null, value: string) {
+    if (this.byId.has(id)) return;
+    const { clock, site } = parseId(id);
+    let pos = after === null ? 0 : this.chars.indexOf(this.byId.get(after)!) + 1;
+    while (pos < this.chars.length && sortsBefore(this.chars[pos], { clock, site })) pos++;
+
+    const char: CollabTextChar = { id, clock, site, after, value, deleted: false };
+    this.chars.splice(pos, 0, char);
+    this.byId.set(id, char);
+    this.clock = Math.max(this.clock, clock);
+    this.cachedText = null;
+  }
+}
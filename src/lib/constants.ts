@@ -1,4 +1,10 @@
-import type { Rank, MajorGradedArea, AwardWinLevel } from "@/types/database";
+import type {
+  Rank,
+  MajorGradedArea,
+  AwardWinLevel,
+  EvaluationPeriodFields,
+  EvaluationPeriodReason,
+} from "@/types/database";
 
 // Standard Major Performance Areas - AFI 36-2406
 // These are the same for all users and should not be modified
@@ -41,6 +47,22 @@ export const ENLISTED_RANKS: { value: Rank; label: string }[] = [
   { value: "CMSgt", label: "CMSgt (Chief Master Sergeant)" },
 ];
 
+// Space Force Enlisted Ranks (TSgt and above share Air Force values)
+export const SPACE_FORCE_ENLISTED_RANKS: { value: Rank; label: string }[] = [
+  { value: "Spc1", label: "Spc1 (Specialist 1)" },
+  { value: "Spc2", label: "Spc2 (Specialist 2)" },
+  { value: "Spc3", label: "Spc3 (Specialist 3)" },
+  { value: "Spc4", label: "Spc4 (Specialist 4)" },
+  { value: "Sgt", label: "Sgt (Sergeant)" },
+  { value: "TSgt", label: "TSgt (Technical Sergeant)" },
+  { value: "MSgt", label: "MSgt (Master Sergeant)" },
+  { value: "SMSgt", label: "SMSgt (Senior Master Sergeant)" },
+  { value: "CMSgt", label: "CMSgt (Chief Master Sergeant)" },
+];
+
+// Ranks that exist only in the Space Force
+export const SPACE_FORCE_ONLY_RANKS: Rank[] = ["Spc1", "Spc2", "Spc3", "Spc4", "Sgt"];
+
 // Officer Ranks
 export const OFFICER_RANKS: { value: Rank; label: string }[] = [
   { value: "2d Lt", label: "2d Lt (Second Lieutenant)" },
@@ -60,16 +82,17 @@ export const CIVILIAN_RANK: { value: Rank; label: string }[] = [
   { value: "Civilian", label: "Civilian (DoD Civilian)" },
 ];
 
-// All Ranks (Enlisted + Officer + Civilian)
+// All Ranks (Enlisted + Officer + Civilian, across services)
 export const RANKS: { value: Rank; label: string }[] = [
   ...ENLISTED_RANKS,
+  ...SPACE_FORCE_ENLISTED_RANKS.filter((r) => SPACE_FORCE_ONLY_RANKS.includes(r.value)),
   ...OFFICER_RANKS,
   ...CIVILIAN_RANK,
 ];
 
 // Ranks that can supervise others (all officers, NCOs, and civilians)
 export const SUPERVISOR_RANKS: Rank[] = [
-  "SSgt", "TSgt", "MSgt", "SMSgt", "CMSgt",
+  "SSgt", "Sgt", "TSgt", "MSgt", "SMSgt", "CMSgt",
   "2d Lt", "1st Lt", "Capt", "Maj", "Lt Col", "Col", "Brig Gen", "Maj Gen", "Lt Gen", "Gen",
   "Civilian"
 ];
@@ -81,7 +104,8 @@ const OFFICER_RANK_VALUES: Rank[] = [
 
 // Enlisted rank values for comparison
 const ENLISTED_RANK_VALUES: Rank[] = [
-  "AB", "Amn", "A1C", "SrA", "SSgt", "TSgt", "MSgt", "SMSgt", "CMSgt"
+  "AB", "Amn", "A1C", "SrA", "SSgt", "TSgt", "MSgt", "SMSgt", "CMSgt",
+  "Spc1", "Spc2", "Spc3", "Spc4", "Sgt"
 ];
 
 // DoD civilian — wildcard supervisor; no self-assigned EPB/OPB
@@ -337,6 +361,12 @@ export const RANK_TO_TIER: Record<Rank, RankTier | null> = {
   MSgt: "msgt",
   SMSgt: "smsgt",
   CMSgt: "cmsgt",
+  // Space Force enlisted grades share the Air Force tier for their pay grade
+  Spc1: null,     // E-1
+  Spc2: null,     // E-2
+  Spc3: "airman", // E-3
+  Spc4: "airman", // E-4
+  Sgt: "ssgt",    // E-5
   // Officer Ranks (OPB - Officer Performance Brief)
   "2d Lt": "o1_o2",   // O-1: Oct 31
   "1st Lt": "o1_o2",  // O-2: Oct 31
@@ -369,8 +399,109 @@ export const STATIC_CLOSEOUT_DATES: Record<RankTier, { month: number; day: numbe
   o6: { month: 8, day: 31, label: "August 31" },        // Col (O-6)
 };
 
-// Get the static close-out date for a given rank
-export function getStaticCloseoutDate(rank: Rank | null): { date: Date; label: string } | null {
+export const EVALUATION_PERIOD_REASONS: {
+  value: EvaluationPeriodReason;
+  label: string;
+  /** Replaces "SCOD" in close-out labels */
+  shortLabel: string;
+  description: string;
+}[] = [
+  { value: "ang_cycle", label: "Air National Guard cycle", shortLabel: "ANG", description: "ANG evaluation cycle instead of the RegAF SCOD" },
+  { value: "afr_cycle", label: "Air Force Reserve cycle", shortLabel: "AFR", description: "AFR evaluation cycle instead of the RegAF SCOD" },
+  { value: "cro", label: "Change of reporting official (CRO)", shortLabel: "CRO", description: "Off-cycle evaluation when the rater changes" },
+  { value: "directed_by_commander", label: "Directed by commander", shortLabel: "DBC", description: "Off-cycle evaluation directed by the commander" },
+  { value: "other", label: "Other", shortLabel: "Custom", description: "Any other non-SCOD evaluation period" },
+];
+
+/** "CRO", "ANG", ... for close-out labels where "SCOD" would otherwise go. */
+export function getEvaluationPeriodShortLabel(reason: EvaluationPeriodReason): string {
+  return EVALUATION_PERIOD_REASONS.find((r) => r.value === reason)?.shortLabel ?? "Custom";
+}
+
+/**
+ * Custom evaluation window that replaces the rank SCOD cycle. Build it with
+ * getCyclePeriodOverride; passing null/undefined keeps the SCOD behavior.
+ */
+export interface CyclePeriodOverride {
+  start: Date;
+  end: Date;
+  reason: EvaluationPeriodReason;
+}
+
+/** Parse a DATE column ("2026-07-15") as a local calendar day. */
+function parseDateOnly(value: string): Date | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})/.exec(value);
+  if (!match) return null;
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+}
+
+/**
+ * The member's override while it is still running. Once the close-out has
+ * passed the member falls back to their SCOD cycle, so a finished CRO
+ * evaluation doesn't need to be cleared by hand.
+ */
+export function getCyclePeriodOverride(
+  member: Partial<EvaluationPeriodFields> | null | undefined,
+  now: Date = new Date(),
+): CyclePeriodOverride | null {
+  if (!member?.eval_period_start || !member.eval_period_end || !member.eval_period_reason) {
+    return null;
+  }
+
+  const start = parseDateOnly(member.eval_period_start);
+  const end = parseDateOnly(member.eval_period_end);
+  if (!start || !end || end < start) return null;
+
+  const today = new Date(now);
+  today.setHours(0, 0, 0, 0);
+  if (end < today) return null;
+
+  return { start, end, reason: member.eval_period_reason };
+}
+
+/**
+ * What to store for an override form: all three fields, or all null when the
+ * member follows their SCOD. Returns an error message when it can't be saved.
+ */
+export function normalizeEvaluationPeriodFields(
+  fields: EvaluationPeriodFields,
+): { value: EvaluationPeriodFields; error: string | null } {
+  if (!fields.eval_period_reason) {
+    return {
+      value: { eval_period_start: null, eval_period_end: null, eval_period_reason: null },
+      error: null,
+    };
+  }
+
+  const start = fields.eval_period_start ? parseDateOnly(fields.eval_period_start) : null;
+  const end = fields.eval_period_end ? parseDateOnly(fields.eval_period_end) : null;
+  let error: string | null = null;
+  if (!start || !end) {
+    error = "Enter both the start date and the close-out date.";
+  } else if (end <= start) {
+    error = "The close-out date must be after the start date.";
+  }
+
+  return { value: fields, error };
+}
+
+const CYCLE_MONTH_NAMES = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+] as const;
+
+// Get the static close-out date for a given rank (or the override's close-out)
+export function getStaticCloseoutDate(
+  rank: Rank | null,
+  override?: CyclePeriodOverride | null,
+): { date: Date; label: string } | null {
+  if (override) {
+    return {
+      date: new Date(override.end),
+      label: `${CYCLE_MONTH_NAMES[override.end.getMonth()]} ${override.end.getDate()}`,
+    };
+  }
+
   if (!rank) return null;
   
   const tier = RANK_TO_TIER[rank];
@@ -393,8 +524,11 @@ export function getStaticCloseoutDate(rank: Rank | null): { date: Date; label: s
 }
 
 // Get days until close-out
-export function getDaysUntilCloseout(rank: Rank | null): number | null {
-  const closeout = getStaticCloseoutDate(rank);
+export function getDaysUntilCloseout(
+  rank: Rank | null,
+  override?: CyclePeriodOverride | null,
+): number | null {
+  const closeout = getStaticCloseoutDate(rank, override);
   if (!closeout) return null;
   
   const now = new Date();
@@ -404,8 +538,11 @@ export function getDaysUntilCloseout(rank: Rank | null): number | null {
 }
 
 // Get EPB submission milestones (60 days, 40 days, 30 days before close-out)
-export function getEPBMilestones(rank: Rank | null): { label: string; date: Date; daysFromNow: number; isPast: boolean }[] | null {
-  const closeout = getStaticCloseoutDate(rank);
+export function getEPBMilestones(
+  rank: Rank | null,
+  override?: CyclePeriodOverride | null,
+): { label: string; daysBefore: number; date: Date; daysFromNow: number; isPast: boolean }[] | null {
+  const closeout = getStaticCloseoutDate(rank, override);
   if (!closeout) return null;
   
   const now = new Date();
@@ -425,6 +562,7 @@ export function getEPBMilestones(rank: Rank | null): { label: string; date: Date
     const daysFromNow = Math.ceil((date.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
     return {
       label: m.label,
+      daysBefore: m.daysBefore,
       date,
       daysFromNow,
       isPast: daysFromNow < 0,
@@ -456,12 +594,26 @@ function buildCyclePeriod(
   };
 }
 
+function buildOverridePeriod(override: CyclePeriodOverride): ActiveCyclePeriod {
+  return {
+    start: new Date(override.start),
+    end: new Date(override.end),
+    year: override.end.getFullYear(),
+    rangeLabel: `${formatCycleDate(override.start)} to ${formatCycleDate(override.end)}`,
+    closeoutLabel: getStaticCloseoutDate(null, override)!.label,
+    overrideReason: override.reason,
+  };
+}
+
 // Get cycle progress percentage (based on ~365-day cycle ending at closeout)
-export function getCycleProgress(rank: Rank | null): number | null {
-  const closeout = getStaticCloseoutDate(rank);
+export function getCycleProgress(
+  rank: Rank | null,
+  override?: CyclePeriodOverride | null,
+): number | null {
+  const closeout = getStaticCloseoutDate(rank, override);
   if (!closeout) return null;
 
-  const cycleStart = getCycleStartFromCloseoutEnd(closeout.date);
+  const cycleStart = override ? override.start : getCycleStartFromCloseoutEnd(closeout.date);
 
   const now = new Date();
   const totalDays = (closeout.date.getTime() - cycleStart.getTime()) / (1000 * 60 * 60 * 24);
@@ -490,10 +642,23 @@ export interface ActiveCyclePeriod {
   /** DD-MMM-YYYY to DD-MMM-YYYY */
   rangeLabel: string;
   closeoutLabel: string;
+  /** Set when a member override replaced the SCOD cycle. */
+  overrideReason?: EvaluationPeriodReason;
+}
+
+/** "SCOD: March 31", or "CRO close-out: July 15" for an override period. */
+export function getCycleCloseoutTitle(period: ActiveCyclePeriod): string {
+  if (!period.overrideReason) return `SCOD: ${period.closeoutLabel}`;
+  return `${getEvaluationPeriodShortLabel(period.overrideReason)} close-out: ${period.closeoutLabel}`;
 }
 
-/** Full evaluation period ending at the member's upcoming SCOD close-out. */
-export function getActiveCyclePeriod(rank: Rank | null): ActiveCyclePeriod | null {
+/** Full evaluation period ending at the member's upcoming SCOD close-out (or their override). */
+export function getActiveCyclePeriod(
+  rank: Rank | null,
+  override?: CyclePeriodOverride | null,
+): ActiveCyclePeriod | null {
+  if (override) return buildOverridePeriod(override);
+
   if (!rank) return null;
 
   const closeout = getStaticCloseoutDate(rank);
@@ -505,15 +670,26 @@ export function getActiveCyclePeriod(rank: Rank | null): ActiveCyclePeriod | nul
   return buildCyclePeriod(closeout.date.getFullYear(), STATIC_CLOSEOUT_DATES[tier]);
 }
 
-export function getActiveCycleRangeLabel(rank: Rank | null): string {
-  return getActiveCyclePeriod(rank)?.rangeLabel ?? String(getActiveCycleYear(rank));
+export function getActiveCycleRangeLabel(
+  rank: Rank | null,
+  override?: CyclePeriodOverride | null,
+): string {
+  return getActiveCyclePeriod(rank, override)?.rangeLabel ?? String(getActiveCycleYear(rank, override));
 }
 
-/** Evaluation period for a specific SCOD year (matches epb_shells.cycle_year). */
+/**
+ * Evaluation period for a specific SCOD year (matches epb_shells.cycle_year).
+ * An override closing out in that year replaces the SCOD period.
+ */
 export function getCyclePeriodForYear(
   rank: Rank | null,
   cycleYear: number,
+  override?: CyclePeriodOverride | null,
 ): ActiveCyclePeriod | null {
+  if (override && override.end.getFullYear() === cycleYear) {
+    return buildOverridePeriod(override);
+  }
+
   if (!rank) return null;
 
   const tier = RANK_TO_TIER[rank];
@@ -522,22 +698,31 @@ export function getCyclePeriodForYear(
   return buildCyclePeriod(cycleYear, STATIC_CLOSEOUT_DATES[tier]);
 }
 
-export function getCycleRangeLabelForYear(rank: Rank | null, cycleYear: number): string {
-  return getCyclePeriodForYear(rank, cycleYear)?.rangeLabel ?? String(cycleYear);
+export function getCycleRangeLabelForYear(
+  rank: Rank | null,
+  cycleYear: number,
+  override?: CyclePeriodOverride | null,
+): string {
+  return getCyclePeriodForYear(rank, cycleYear, override)?.rangeLabel ?? String(cycleYear);
 }
 
 /** True when the open shell is for a SCOD year before the ratee's current active cycle. */
-export function isPriorCycleShell(shellCycleYear: number, rateeRank: Rank | null): boolean {
-  return shellCycleYear < getActiveCycleYear(rateeRank);
+export function isPriorCycleShell(
+  shellCycleYear: number,
+  rateeRank: Rank | null,
+  override?: CyclePeriodOverride | null,
+): boolean {
+  return shellCycleYear < getActiveCycleYear(rateeRank, override);
 }
 
 /** Next cycle_year to use when creating a shell after archive (sequential, never skips). */
 export function getNextEpbShellCycleYear(
   rateeRank: Rank | null,
   existingShellCycleYears: number[],
+  override?: CyclePeriodOverride | null,
 ): number {
   if (existingShellCycleYears.length === 0) {
-    return getActiveCycleYear(rateeRank);
+    return getActiveCycleYear(rateeRank, override);
   }
   return Math.max(...existingShellCycleYears) + 1;
 }
@@ -545,8 +730,12 @@ export function getNextEpbShellCycleYear(
 // Active EPB cycle year from a member's rank SCOD tier (not the writer's rank).
 // Use the ratee's rank when a supervisor writes for a subordinate.
 // Example: TSgt with Nov 30 SCOD in Jan 2026 → 2026; in Oct 2025 → 2025.
-export function getActiveCycleYear(rank: Rank | null): number {
-  const period = getActiveCyclePeriod(rank);
+// A running override (ANG/AFR cycle, CRO) uses its close-out year instead.
+export function getActiveCycleYear(
+  rank: Rank | null,
+  override?: CyclePeriodOverride | null,
+): number {
+  const period = getActiveCyclePeriod(rank, override);
   if (!period) {
     return new Date().getFullYear();
   }
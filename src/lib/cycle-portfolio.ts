@@ -1,4 +1,4 @@
-import { ENTRY_MGAS } from "@/lib/constants";
+import { ENTRY_MGAS, formatCycleDate } from "@/lib/constants";
 import type {
   Accomplishment,
   AccomplishmentAssessmentScores,
@@ -51,6 +51,17 @@ export interface CyclePortfolio {
   volumeReadyMpas: number;
   qualityReadyMpas: number;
   hasAnyAssessments: boolean;
+  /** Entries dropped because their date falls outside `options.period`. */
+  outsidePeriodCount: number;
+}
+
+export interface CyclePortfolioOptions {
+  /**
+   * Evaluation window to count. Custom periods (ANG/AFR cycles, CRO) don't
+   * line up with the SCOD cycle_year the entries were loaded by, so entries
+   * dated outside it are left out.
+   */
+  period?: { start: Date; end: Date } | null;
 }
 
 const RECOMMENDED_ENTRIES_PER_MPA = 3;
@@ -63,6 +74,26 @@ function getMpaLabel(mpaKey: AcaPortfolioMpaKey): string {
   return ENTRY_MGAS.find((mpa) => mpa.key === mpaKey)?.label ?? mpaKey;
 }
 
+/** Entries whose date falls inside the period (inclusive); all entries when there is none. */
+export function filterEntriesToPeriod<T extends Pick<Accomplishment, "date">>(
+  entries: T[],
+  period: { start: Date; end: Date } | null | undefined
+): T[] {
+  if (!period) return entries;
+  const start = formatDateKey(period.start);
+  const end = formatDateKey(period.end);
+  return entries.filter((entry) => {
+    const day = entry.date.slice(0, 10);
+    return day >= start && day <= end;
+  });
+}
+
+function formatDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
 function meanRounded(values: number[]): number | null {
   if (values.length === 0) return null;
   return Math.round(values.reduce((sum, value) => sum + value, 0) / values.length);
@@ -137,7 +168,8 @@ function buildFingerprint(
 function buildCoachingLines(
   mpaStats: Record<AcaPortfolioMpaKey, CycleMpaPortfolioStat>,
   fingerprint: CycleQualityFingerprint,
-  hasAnyAssessments: boolean
+  hasAnyAssessments: boolean,
+  closeoutLabel: string
 ): string[] {
   const qualityLines: string[] = [];
   const volumeGapLines: string[] = [];
@@ -149,7 +181,7 @@ function buildCoachingLines(
 
     if (stat.entryCount === 0) {
       volumeGapLines.push(
-        `No ${label} entries yet — add at least one before closeout.`
+        `No ${label} entries yet — add at least one before ${closeoutLabel}.`
       );
     } else if (
       stat.assessedCount > 0 &&
@@ -201,7 +233,7 @@ function buildCoachingLines(
     allFourHaveOneEntry
   ) {
     positiveLines.push(
-      "Solid MPA coverage — keep logging quantified wins through closeout."
+      `Solid MPA coverage — keep logging quantified wins through ${closeoutLabel}.`
     );
   }
 
@@ -214,8 +246,12 @@ function buildCoachingLines(
   ].slice(0, 3);
 }
 
-export function buildCyclePortfolio(entries: Accomplishment[]): CyclePortfolio {
-  const acaEntries = entries.filter((entry) => isAcaMpaKey(entry.mpa));
+export function buildCyclePortfolio(
+  entries: Accomplishment[],
+  options: CyclePortfolioOptions = {}
+): CyclePortfolio {
+  const periodEntries = filterEntriesToPeriod(entries, options.period);
+  const acaEntries = periodEntries.filter((entry) => isAcaMpaKey(entry.mpa));
   const assessedAcaEntries = acaEntries.filter(
     (entry) => entry.assessment_scores !== null
   );
@@ -274,7 +310,8 @@ export function buildCyclePortfolio(entries: Accomplishment[]): CyclePortfolio {
   const coachingLines = buildCoachingLines(
     mpaStats,
     fingerprint,
-    hasAnyAssessments
+    hasAnyAssessments,
+    options.period ? `the ${formatCycleDate(options.period.end)} closeout` : "closeout"
   );
 
   return {
@@ -284,5 +321,6 @@ export function buildCyclePortfolio(entries: Accomplishment[]): CyclePortfolio {
     volumeReadyMpas,
     qualityReadyMpas,
     hasAnyAssessments,
+    outsidePeriodCount: entries.length - periodEntries.length,
   };
 }
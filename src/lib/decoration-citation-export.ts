@@ -0,0 +1,308 @@
+/**
+ * Decoration shell → citation PDF and MyDecs paste block.
+ *
+ * Citations are typed in Courier New 11pt (MyDecs Reimagined), which is
+ * monospaced, so the line model is a fixed character count per line. The PDF
+ * draws the same pre-broken lines the fit report counts, so what the report
+ * says about line N is what prints on line N.
+ */
+
+import { rgb } from "pdf-lib";
+import { RANKS } from "@/lib/constants";
+import {
+  CITATION_LINE_WIDTH_PT,
+  COURIER_CHAR_WIDTH_EM,
+  getMonospaceCharsPerLine,
+  getMonospaceLineSegments,
+} from "@/lib/bullet-fitting";
+import { getServiceDecoration, resolveServiceForRank } from "@/lib/service-profiles";
+import { formatCitationDate } from "@/features/decorations/prompts";
+import {
+  LETTER_PAGE,
+  addVerticalSpace,
+  createFormWriter,
+  drawCenteredText,
+  drawParagraph,
+  drawRightNote,
+  drawSectionHeading,
+  ensureSpace,
+  finalizeFormWriter,
+  toWinAnsiText,
+} from "@/lib/pdf/form-writer";
+import type { DecorationAwardType, DecorationReason } from "@/types/database";
+
+export const CITATION_FONT_SIZE = 11;
+export const CITATION_CHAR_WIDTH_PT = CITATION_FONT_SIZE * COURIER_CHAR_WIDTH_EM;
+/** Centres the citation text area on a Letter page (one-inch margins). */
+export const CITATION_MARGIN_PT = (LETTER_PAGE.width - CITATION_LINE_WIDTH_PT) / 2;
+export const CITATION_CHARS_PER_LINE = getMonospaceCharsPerLine(CITATION_FONT_SIZE);
+
+const LINE_HEIGHT = 13;
+const DEFAULT_MAX_CHARACTERS = 1350;
+
+export type CitationFitStatus = "fits" | "overflow" | "empty";
+
+export interface DecorationCitationExportShell {
+  award_type: DecorationAwardType;
+  reason: DecorationReason;
+  duty_title: string | null;
+  unit: string | null;
+  office: string | null;
+  squadron: string | null;
+  group_name: string | null;
+  wing: string | null;
+  base_name: string | null;
+  location: string | null;
+  start_date: string | null;
+  end_date: string | null;
+  citation_text: string | null;
+}
+
+export interface DecorationCitationRecipient {
+  rank: string | null;
+  name: string;
+  /** Stored service; Space Force-only grades override it. Defaults to the Air Force. */
+  service?: string | null;
+}
+
+export interface CitationFitReport {
+  charCount: number;
+  maxCharacters: number;
+  remaining: number;
+  charsPerLine: number;
+  lines: string[];
+  lineCount: number;
+  status: CitationFitStatus;
+}
+
+export interface DecorationCitationLayout {
+  medalName: string;
+  abbreviation: string;
+  afForm: string;
+  /** "The Air Force Commendation Medal is awarded to" */
+  headerLine: string;
+  /** Full rank title + name, e.g. "Technical Sergeant Jane A. Doe". */
+  recipientLine: string;
+  /** Office, squadron, group and wing; empty when none are set. */
+  unitLine: string;
+  /** Base and state/country; empty when none are set. */
+  locationLine: string;
+  /** "for the period 1 June 2024 to 31 May 2026"; empty without both dates. */
+  periodLine: string;
+  body: string;
+  fit: CitationFitReport;
+}
+
+/** "TSgt" → "Technical Sergeant", taken from the rank picker labels. Civilians get no title. */
+export function getFullRankTitle(rank: string | null): string {
+  if (!rank || rank === "Civilian") return "";
+  const label = RANKS.find((r) => r.value === rank)?.label;
+  const match = label?.match(/\(([^)]+)\)/);
+  return match ? match[1] : rank;
+}
+
+/** MyDecs takes the citation as one paragraph; collapse line breaks and runs of spaces. */
+export function normalizeCitationBody(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/** Break a citation into Courier lines of at most `charsPerLine` characters. */
+export function wrapCitationLines(
+  text: string,
+  charsPerLine: number = CITATION_CHARS_PER_LINE,
+): string[] {
+  const body = normalizeCitationBody(text);
+  if (!body) return [];
+  return getMonospaceLineSegments(body, charsPerLine).map((line) => line.text);
+}
+
+export function analyzeCitationFit(
+  text: string,
+  maxCharacters: number = DEFAULT_MAX_CHARACTERS,
+  charsPerLine: number = CITATION_CHARS_PER_LINE,
+): CitationFitReport {
+  const body = normalizeCitationBody(text);
+  const lines = wrapCitationLines(body, charsPerLine);
+  return {
+    charCount: body.length,
+    maxCharacters,
+    remaining: maxCharacters - body.length,
+    charsPerLine,
+    lines,
+    lineCount: lines.length,
+    status: !body ? "empty" : body.length > maxCharacters ? "overflow" : "fits",
+  };
+}
+
+export function buildDecorationCitationLayout(
+  shell: DecorationCitationExportShell,
+  recipient: DecorationCitationRecipient,
+): DecorationCitationLayout {
+  const config = getServiceDecoration(
+    resolveServiceForRank(recipient.rank, recipient.service),
+    shell.award_type,
+  );
+  const medalName = config?.name ?? shell.award_type.toUpperCase();
+  const body = normalizeCitationBody(shell.citation_text ?? "");
+
+  // `unit` is the legacy single field; office replaced it
+  const unitLine = [
+    shell.office?.trim() || shell.unit?.trim(),
+    shell.squadron,
+    shell.group_name,
+    shell.wing,
+  ]
+    .map((part) => part?.trim())
+    .filter(Boolean)
+    .join(", ");
+  const locationLine = [shell.base_name, shell.location]
+    .map((part) => part?.trim())
+    .filter(Boolean)
+    .join(", ");
+  const periodLine =
+    shell.start_date && shell.end_date
+      ? `for the period ${formatCitationDate(shell.start_date)} to ${formatCitationDate(shell.end_date)}`
+      : "";
+
+  return {
+    medalName,
+    abbreviation: config?.abbreviation ?? shell.award_type.toUpperCase(),
+    afForm: config?.afForm ?? "AF Form",
+    headerLine: `The ${medalName} is awarded to`,
+    recipientLine: [getFullRankTitle(recipient.rank), recipient.name.trim()].filter(Boolean).join(" "),
+    unitLine,
+    locationLine,
+    periodLine,
+    body,
+    fit: analyzeCitationFit(body, config?.maxCharacters ?? DEFAULT_MAX_CHARACTERS),
+  };
+}
+
+/** Suggested download name, e.g. `AFCM_Citation_Doe.pdf`. */
+export function getDecorationCitationFileName(
+  layout: DecorationCitationLayout,
+  extension: "pdf" | "txt",
+): string {
+  const lastName = layout.recipientLine.trim().split(/\s+/).pop() || "Recipient";
+  const parts = [layout.abbreviation, "Citation", lastName]
+    .map((p) => p.replace(/[^A-Za-z0-9-]+/g, ""))
+    .filter(Boolean);
+  return `${parts.join("_")}.${extension}`;
+}
+
+function describeFit(fit: CitationFitReport): string {
+  const chars = `${fit.charCount}/${fit.maxCharacters} characters`;
+  const lines = `${fit.lineCount} line${fit.lineCount === 1 ? "" : "s"} at ${fit.charsPerLine} per line`;
+  switch (fit.status) {
+    case "overflow":
+      return `${chars} - OVER LIMIT by ${-fit.remaining}, ${lines}`;
+    case "empty":
+      return "No citation text";
+    default:
+      return `${chars} - fits, ${fit.remaining} remaining, ${lines}`;
+  }
+}
+
+/**
+ * Plain-text export: the single paragraph to paste into MyDecs, framed by the
+ * header fields for reference and followed by a per-line fit report.
+ */
+export function buildMyDecsPasteBlock(layout: DecorationCitationLayout): string {
+  const { fit } = layout;
+  const header = [
+    `${layout.afForm} - ${layout.medalName} (${layout.abbreviation})`,
+    `Recipient: ${layout.recipientLine || "-"}`,
+    `Unit: ${layout.unitLine || "-"}`,
+    `Location: ${layout.locationLine || "-"}`,
+    `Period: ${layout.periodLine.replace(/^for the period /, "") || "-"}`,
+  ];
+  const width = String(fit.charsPerLine).length;
+  const lineReport = fit.lines.map(
+    (line, index) =>
+      `${String(index + 1).padStart(2, " ")} | ${String(line.length).padStart(width, " ")} | ${line}`,
+  );
+
+  return [
+    ...header,
+    "",
+    "----- PASTE INTO MYDECS (citation field) -----",
+    layout.body,
+    "----- END -----",
+    "",
+    `Fit report (Courier New ${CITATION_FONT_SIZE}pt, ${fit.charsPerLine} characters per line)`,
+    describeFit(fit),
+    ...(lineReport.length > 0 ? ["", "Line | Chars | Text", ...lineReport] : []),
+    "",
+  ].join("\n");
+}
+
+export async function renderDecorationCitationPdf(
+  layout: DecorationCitationLayout,
+): Promise<Uint8Array> {
+  const writer = await createFormWriter({
+    title: `${layout.abbreviation} Citation - ${layout.recipientLine}`,
+    subject: `${layout.afForm} - ${layout.medalName}`,
+    fontFamily: "courier",
+    margin: CITATION_MARGIN_PT,
+    runningHeader: `${layout.abbreviation} Citation - ${layout.recipientLine} (continued)`,
+  });
+  addVerticalSpace(writer, 36);
+
+  const headerLines = [
+    layout.headerLine,
+    layout.recipientLine,
+    layout.unitLine,
+    layout.locationLine,
+    layout.periodLine,
+  ].filter(Boolean);
+  headerLines.forEach((line, index) => {
+    drawCenteredText(writer, line, {
+      size: CITATION_FONT_SIZE,
+      bold: index === 1,
+      gapAfter: 2,
+    });
+  });
+  addVerticalSpace(writer, LINE_HEIGHT * 2);
+
+  if (layout.fit.status === "empty") {
+    drawParagraph(writer, "", { size: CITATION_FONT_SIZE, placeholder: "No citation text entered." });
+  }
+
+  // Characters past the MyDecs limit print in red so the cut point is visible
+  let cursor = 0;
+  for (const line of layout.fit.lines) {
+    ensureSpace(writer, LINE_HEIGHT);
+    const y = writer.y - CITATION_FONT_SIZE;
+    const found = layout.body.indexOf(line, cursor);
+    const offset = found >= 0 ? found : cursor;
+    const fitting = Math.max(0, Math.min(line.length, layout.fit.maxCharacters - offset));
+    const head = line.slice(0, fitting);
+    const tail = line.slice(fitting);
+    if (head) {
+      writer.page.drawText(toWinAnsiText(head), {
+        x: writer.margin,
+        y,
+        size: CITATION_FONT_SIZE,
+        font: writer.regular,
+      });
+    }
+    if (tail) {
+      writer.page.drawText(toWinAnsiText(tail), {
+        x: writer.margin + head.length * CITATION_CHAR_WIDTH_PT,
+        y,
+        size: CITATION_FONT_SIZE,
+        font: writer.regular,
+        color: rgb(0.75, 0.1, 0.1),
+      });
+    }
+    cursor = offset + line.length;
+    writer.y -= LINE_HEIGHT;
+  }
+
+  addVerticalSpace(writer, LINE_HEIGHT);
+  drawSectionHeading(writer, "Fit Report (not part of the citation)");
+  addVerticalSpace(writer, 4);
+  drawRightNote(writer, describeFit(layout.fit), { warn: layout.fit.status === "overflow" });
+
+  return finalizeFormWriter(writer, "MyEPBuddy export - not an official form.");
+}
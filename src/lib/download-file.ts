@@ -0,0 +1,50 @@
+/**
+ * Browser download helper for export routes that stream a file back
+ * (PDF, text, ZIP). Errors surface the route's JSON `error` message.
+ */
+
+/** Pull the filename out of a Content-Disposition header, if present. */
+export function getFileNameFromDisposition(header: string | null): string | null {
+  if (!header) return null;
+  const encoded = header.match(/filename\*=UTF-8''([^;]+)/i);
+  if (encoded) {
+    try {
+      return decodeURIComponent(encoded[1]);
+    } catch {
+      // fall through to the plain filename parameter
+    }
+  }
+  const plain = header.match(/filename="?([^";]+)"?/i);
+  return plain ? plain[1] : null;
+}
+
+export async function downloadFromApi(
+  url: string,
+  fallbackFileName: string,
+  init?: RequestInit
+): Promise<Response> {
+  const response = await fetch(url, init);
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.error || "Download failed");
+  }
+
+  const blob = await response.blob();
+  const fileName =
+    getFileNameFromDisposition(response.headers.get("Content-Disposition")) ||
+    fallbackFileName;
+
+  const objectUrl = URL.createObjectURL(blob);
+  const anchor = document.createElement("a");
+  anchor.href = objectUrl;
+  anchor.download = fileName;
+  document.body.appendChild(anchor);
+  anchor.click();
+  anchor.remove();
+  // Let the click dispatch before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(objectUrl), 1000);
+
+  // Returned so callers can read export metadata headers
+  return response;
+}
@@ -0,0 +1,132 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  planCycleReminders,
+  type CycleReminderManagedMember,
+  type CycleReminderRecipient,
+} from "../cycle-reminder-plan";
+
+const NO_OVERRIDE = {
+  eval_period_start: null,
+  eval_period_end: null,
+  eval_period_reason: null,
+};
+
+function recipient(overrides: Partial<CycleReminderRecipient> & { id: string }): CycleReminderRecipient {
+  return {
+    email: `${overrides.id}@example.com`,
+    full_name: null,
+    rank: "TSgt",
+    marketing_email_opt_in: true,
+    ...NO_OVERRIDE,
+    ...overrides,
+  };
+}
+
+function managedMember(
+  overrides: Partial<CycleReminderManagedMember> & { id: string; supervisor_id: string }
+): CycleReminderManagedMember {
+  return { full_name: "Pat Lee", rank: "TSgt", ...NO_OVERRIDE, ...overrides };
+}
+
+describe("planCycleReminders", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("plans own, subordinate and managed member sends on the milestone day", () => {
+    vi.useFakeTimers();
+    // 45 days before the TSgt SCOD (30 November)
+    vi.setSystemTime(new Date(2026, 9, 16));
+
+    const plan = planCycleReminders({
+      recipients: [
+        recipient({ id: "sup", rank: "MSgt" }),
+        recipient({ id: "sub", full_name: "Jane Doe", marketing_email_opt_in: false }),
+      ],
+      supervisions: [{ supervisor_id: "sup", subordinate_id: "sub" }],
+      managedMembers: [managedMember({ id: "tm1", supervisor_id: "sup" })],
+      sentKeys: [],
+    });
+
+    expect(plan.planned.map((p) => [p.dedupeKey, p.rateeName, p.send])).toEqual([
+      ["sup:user:sub:2026-11-30:chief_soon", "TSgt Jane Doe", "chief_soon"],
+      ["sup:member:tm1:2026-11-30:chief_soon", "TSgt Pat Lee", "chief_soon"],
+    ]);
+    // The subordinate opted out of their own reminder, not their supervisor's
+    expect(plan.skipped).toEqual({ opted_out: 1, mil_email: 0, no_email: 0, already_sent: 0 });
+  });
+
+  it("sends each variant once", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2026, 9, 16));
+
+    const plan = planCycleReminders({
+      recipients: [recipient({ id: "a" })],
+      supervisions: [],
+      managedMembers: [],
+      sentKeys: ["a:user:a:2026-11-30:chief_soon"],
+    });
+
+    expect(plan.planned).toEqual([]);
+    expect(plan.skipped.already_sent).toBe(1);
+  });
+
+  it("sends the catch-up only when nothing went out this cycle", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2026, 9, 20));
+    const input = {
+      recipients: [recipient({ id: "a" }), recipient({ id: "b" })],
+      supervisions: [],
+      managedMembers: [],
+    };
+
+    const plan = planCycleReminders({
+      ...input,
+      sentKeys: ["b:user:b:2026-11-30:chief_soon"],
+    });
+
+    expect(plan.planned).toHaveLength(1);
+    expect(plan.planned[0]).toMatchObject({
+      dedupeKey: "a:user:a:2026-11-30:catchup",
+      send: "catchup",
+      daysUntilCloseout: 41,
+      rateeKind: "self",
+      rateeName: null,
+    });
+  });
+
+  it("follows a custom evaluation period and skips .mil inboxes", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2026, 4, 11));
+
+    const plan = planCycleReminders({
+      recipients: [
+        recipient({
+          id: "afr",
+          rank: "SSgt",
+          eval_period_start: "2025-09-01",
+          eval_period_end: "2026-07-15",
+          eval_period_reason: "afr_cycle",
+        }),
+        recipient({
+          id: "mil",
+          email: "jane.doe@us.af.mil",
+          eval_period_start: "2025-09-01",
+          eval_period_end: "2026-07-15",
+          eval_period_reason: "cro",
+        }),
+      ],
+      supervisions: [],
+      managedMembers: [],
+      sentKeys: [],
+    });
+
+    expect(plan.planned).toHaveLength(1);
+    expect(plan.planned[0]).toMatchObject({
+      dedupeKey: "afr:user:afr:2026-07-15:supervisor_soon",
+      periodReason: "afr_cycle",
+      closeoutDateLabel: "15 July",
+    });
+    expect(plan.skipped.mil_email).toBe(1);
+  });
+});
@@ -1,7 +1,8 @@
-import { describe, expect, it } from "vitest";
+import { afterEach, describe, expect, it, vi } from "vitest";
 import {
   buildCycleReminderCtaUrl,
   buildCycleReminderEmail,
+  getCycleReminderSchedule,
 } from "../cycle-reminder";
 
 describe("buildCycleReminderCtaUrl", () => {
@@ -66,4 +67,63 @@ describe("buildCycleReminderEmail", () => {
     expect(email.html).not.toContain("<script>alert");
     expect(email.html).toContain("MSgt &lt;script&gt;");
   });
+
+  it("names the custom period instead of the rank SCOD", () => {
+    const email = buildCycleReminderEmail({
+      siteUrl: "https://www.myepbuddy.com",
+      rank: "SSgt",
+      closeoutDateLabel: "15 July",
+      send: "catchup",
+      periodReason: "cro",
+    });
+    expect(email.text).toContain("It's time to write your EPB — your CRO evaluation closes out 15 July.");
+    expect(email.text).not.toContain("SSgt closeout");
+  });
+
+  it("addresses the supervisor about a subordinate", () => {
+    const email = buildCycleReminderEmail({
+      siteUrl: "https://www.myepbuddy.com",
+      rank: "TSgt",
+      closeoutDateLabel: "30 November",
+      send: "chief_soon",
+      rateeName: "TSgt Jane Doe",
+    });
+    expect(email.subject).toBe("TSgt Jane Doe's EPB deadline is approaching");
+    expect(email.text).toContain("Reminder: TSgt Jane Doe's EPB is due to the chief in 15 days.");
+    expect(email.text).not.toContain("your EPB");
+  });
+});
+
+describe("getCycleReminderSchedule", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("schedules off the override close-out", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2026, 4, 11));
+    const schedule = getCycleReminderSchedule("TSgt", {
+      start: new Date(2025, 8, 1),
+      end: new Date(2026, 6, 15),
+      reason: "afr_cycle",
+    });
+    expect(schedule).toEqual({
+      closeoutDateLabel: "15 July",
+      closeoutDate: "2026-07-15",
+      daysUntilCloseout: 65,
+      send: "supervisor_soon",
+      periodReason: "afr_cycle",
+    });
+  });
+
+  it("uses the rank SCOD without an override", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2026, 9, 16));
+    const schedule = getCycleReminderSchedule("TSgt");
+    expect(schedule?.closeoutDateLabel).toBe("30 November");
+    expect(schedule?.daysUntilCloseout).toBe(45);
+    expect(schedule?.send).toBe("chief_soon");
+    expect(schedule?.periodReason).toBeNull();
+    expect(getCycleReminderSchedule("Civilian")).toBeNull();
+  });
 });
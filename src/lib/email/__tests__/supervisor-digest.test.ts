@@ -0,0 +1,102 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  buildSupervisorDigestEmail,
+  summarizeDigestMember,
+  type SupervisorDigestEntry,
+} from "../supervisor-digest";
+import type { AccomplishmentAssessmentScores } from "@/types/database";
+
+function scores(overall: number): AccomplishmentAssessmentScores {
+  return {
+    overall_score: overall,
+    primary_mpa: "executing_mission",
+    secondary_mpa: null,
+    mpa_relevancy: {
+      executing_mission: 90,
+      leading_people: 10,
+      managing_resources: 10,
+      improving_unit: 10,
+    },
+    quality_indicators: {
+      action_clarity: overall,
+      impact_significance: overall,
+      metrics_quality: overall,
+      scope_definition: overall,
+    },
+  };
+}
+
+function entry(overrides: Partial<SupervisorDigestEntry> & { id: string }): SupervisorDigestEntry {
+  return {
+    date: "2026-09-01",
+    mpa: "executing_mission",
+    assessment_scores: null,
+    assessed_at: null,
+    created_at: "2026-09-01T12:00:00Z",
+    updated_at: "2026-09-01T12:00:00Z",
+    ...overrides,
+  };
+}
+
+describe("summarizeDigestMember", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("counts new and unassessed entries, weak MPAs and days to close-out", () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date(2026, 9, 16));
+
+    const summary = summarizeDigestMember({ name: "TSgt Jane Doe", rank: "TSgt" }, [
+      entry({ id: "new", created_at: "2026-10-14T12:00:00Z" }),
+      entry({
+        id: "weak",
+        assessment_scores: scores(40),
+        assessed_at: "2026-09-02T12:00:00Z",
+      }),
+    ]);
+
+    expect(summary).toEqual({
+      name: "TSgt Jane Doe",
+      newEntryCount: 1,
+      unassessedCount: 1,
+      weakMpas: ["Executing the Mission"],
+      daysUntilCloseout: 45,
+    });
+  });
+});
+
+describe("buildSupervisorDigestEmail", () => {
+  it("lists members nearest close-out first and escapes names", () => {
+    const email = buildSupervisorDigestEmail({
+      siteUrl: "https://www.myepbuddy.com/",
+      recipientName: "MSgt Smith",
+      unsubscribeUrl: "https://myepbuddy.com/settings",
+      members: [
+        {
+          name: "SSgt <b>Lee</b>",
+          newEntryCount: 0,
+          unassessedCount: 2,
+          weakMpas: [],
+          daysUntilCloseout: 107,
+        },
+        {
+          name: "TSgt Jane Doe",
+          newEntryCount: 1,
+          unassessedCount: 0,
+          weakMpas: ["Executing the Mission"],
+          daysUntilCloseout: 45,
+        },
+      ],
+    });
+
+    expect(email.subject).toBe("Your team this week: 1 new entry");
+    expect(email.ctaUrl).toBe("https://www.myepbuddy.com/entries");
+    expect(email.text.indexOf("TSgt Jane Doe")).toBeLessThan(email.text.indexOf("SSgt <b>Lee</b>"));
+    expect(email.text).toContain("TSgt Jane Doe — 45 days to close-out");
+    expect(email.text).toContain("Below 60: Executing the Mission");
+    expect(email.text).toContain("0 new entries, 2 unassessed");
+    expect(email.html).toContain("SSgt &lt;b&gt;Lee&lt;/b&gt;");
+    expect(email.html).not.toContain("<b>Lee</b>");
+  });
+});
@@ -0,0 +1,220 @@
+import { getCyclePeriodOverride } from "@/lib/constants";
+import {
+  CYCLE_REMINDER_CATCHUP_WINDOW_DAYS,
+  getCycleReminderSchedule,
+  type CycleReminderSend,
+} from "@/lib/email/cycle-reminder";
+import { isMilEmail } from "@/lib/email/resend-contacts";
+import { eligibleForCycleReminderEmail } from "@/lib/marketing-email-opt-in";
+import type {
+  EvaluationPeriodFields,
+  EvaluationPeriodReason,
+  Rank,
+} from "@/types/database";
+
+export type CycleReminderRecipient = EvaluationPeriodFields & {
+  id: string;
+  email: string | null;
+  full_name: string | null;
+  rank: Rank | null;
+  marketing_email_opt_in: boolean | null;
+};
+
+export type CycleReminderManagedMember = EvaluationPeriodFields & {
+  id: string;
+  supervisor_id: string;
+  full_name: string;
+  rank: Rank | null;
+};
+
+export type CycleReminderSupervision = {
+  supervisor_id: string;
+  subordinate_id: string;
+};
+
+export type CycleReminderRateeKind = "self" | "subordinate" | "managed_member";
+
+export type PlannedCycleReminder = {
+  /** recipient:ratee:closeout:send — unique in cycle_reminder_sends */
+  dedupeKey: string;
+  recipientId: string;
+  recipientEmail: string;
+  rateeKind: CycleReminderRateeKind;
+  rateeUserId: string | null;
+  rateeTeamMemberId: string | null;
+  /** "SSgt Jane Doe"; null for the recipient's own EPB */
+  rateeName: string | null;
+  rank: Rank;
+  send: CycleReminderSend;
+  closeoutDate: string;
+  closeoutDateLabel: string;
+  daysUntilCloseout: number;
+  periodReason: EvaluationPeriodReason | null;
+};
+
+export type CycleReminderSkipReason =
+  | "opted_out"
+  | "mil_email"
+  | "no_email"
+  | "already_sent";
+
+export type CycleReminderPlan = {
+  planned: PlannedCycleReminder[];
+  skipped: Record<CycleReminderSkipReason, number>;
+};
+
+export type PlanCycleRemindersInput = {
+  recipients: CycleReminderRecipient[];
+  supervisions: CycleReminderSupervision[];
+  /** Active managed members only */
+  managedMembers: CycleReminderManagedMember[];
+  /** dedupe_key values already in cycle_reminder_sends */
+  sentKeys: Iterable<string>;
+};
+
+type Ratee = {
+  kind: CycleReminderRateeKind;
+  key: string;
+  userId: string | null;
+  teamMemberId: string | null;
+  name: string | null;
+  rank: Rank | null;
+  period: EvaluationPeriodFields;
+};
+
+/** Everything in the key but the send, i.e. one cycle for one recipient and ratee. */
+function cycleKey(recipientId: string, rateeKey: string, closeoutDate: string): string {
+  return `${recipientId}:${rateeKey}:${closeoutDate}`;
+}
+
+function displayName(rank: Rank | null, fullName: string | null): string {
+  return [rank, fullName?.trim()].filter(Boolean).join(" ") || "your team member";
+}
+
+function recipientSkipReason(
+  recipient: CycleReminderRecipient
+): Exclude<CycleReminderSkipReason, "already_sent"> | null {
+  if (!eligibleForCycleReminderEmail(recipient.marketing_email_opt_in)) return "opted_out";
+  const email = recipient.email?.trim();
+  if (!email) return "no_email";
+  // .mil inboxes reject bulk mail from the app domain
+  if (isMilEmail(email)) return "mil_email";
+  return null;
+}
+
+/**
+ * Which cycle reminders go out today: one per recipient for their own EPB, and
+ * one per subordinate (real or managed) for the supervisor. Each ratee follows
+ * their own rank SCOD or override period. A milestone send goes out on its day;
+ * inside the catch-up window a ratee with no send yet this cycle gets the
+ * catch-up variant instead. Pure so the cron and the admin dry run share it.
+ */
+export function planCycleReminders(input: PlanCycleRemindersInput): CycleReminderPlan {
+  const sentKeys = new Set(input.sentKeys);
+  const sentCycles = new Set(
+    [...sentKeys].map((key) => key.slice(0, key.lastIndexOf(":")))
+  );
+  const planned: PlannedCycleReminder[] = [];
+  const skipped: Record<CycleReminderSkipReason, number> = {
+    opted_out: 0,
+    mil_email: 0,
+    no_email: 0,
+    already_sent: 0,
+  };
+
+  const profilesById = new Map(input.recipients.map((r) => [r.id, r]));
+  const subordinatesBySupervisor = new Map<string, CycleReminderRecipient[]>();
+  for (const { supervisor_id, subordinate_id } of input.supervisions) {
+    const subordinate = profilesById.get(subordinate_id);
+    if (!subordinate || subordinate_id === supervisor_id) continue;
+    const list = subordinatesBySupervisor.get(supervisor_id) ?? [];
+    list.push(subordinate);
+    subordinatesBySupervisor.set(supervisor_id, list);
+  }
+  const managedBySupervisor = new Map<string, CycleReminderManagedMember[]>();
+  for (const member of input.managedMembers) {
+    const list = managedBySupervisor.get(member.supervisor_id) ?? [];
+    list.push(member);
+    managedBySupervisor.set(member.supervisor_id, list);
+  }
+
+  for (const recipient of input.recipients) {
+    const ratees: Ratee[] = [
+      {
+        kind: "self",
+        key: `user:${recipient.id}`,
+        userId: recipient.id,
+        teamMemberId: null,
+        name: null,
+        rank: recipient.rank,
+        period: recipient,
+      },
+      ...(subordinatesBySupervisor.get(recipient.id) ?? []).map<Ratee>((s) => ({
+        kind: "subordinate",
+        key: `user:${s.id}`,
+        userId: s.id,
+        teamMemberId: null,
+        name: displayName(s.rank, s.full_name),
+        rank: s.rank,
+        period: s,
+      })),
+      ...(managedBySupervisor.get(recipient.id) ?? []).map<Ratee>((m) => ({
+        kind: "managed_member",
+        key: `member:${m.id}`,
+        userId: null,
+        teamMemberId: m.id,
+        name: displayName(m.rank, m.full_name),
+        rank: m.rank,
+        period: m,
+      })),
+    ];
+
+    const skipReason = recipientSkipReason(recipient);
+
+    for (const ratee of ratees) {
+      if (!ratee.rank) continue;
+      const schedule = getCycleReminderSchedule(ratee.rank, getCyclePeriodOverride(ratee.period));
+      if (!schedule) continue;
+
+      const cycle = cycleKey(recipient.id, ratee.key, schedule.closeoutDate);
+      let send = schedule.send;
+      if (
+        !send &&
+        schedule.daysUntilCloseout > 0 &&
+        schedule.daysUntilCloseout < CYCLE_REMINDER_CATCHUP_WINDOW_DAYS &&
+        !sentCycles.has(cycle)
+      ) {
+        send = "catchup";
+      }
+      if (!send) continue;
+
+      if (skipReason) {
+        skipped[skipReason] += 1;
+        continue;
+      }
+      const dedupeKey = `${cycle}:${send}`;
+      if (sentKeys.has(dedupeKey)) {
+        skipped.already_sent += 1;
+        continue;
+      }
+
+      planned.push({
+        dedupeKey,
+        recipientId: recipient.id,
+        recipientEmail: recipient.email!.trim(),
+        rateeKind: ratee.kind,
+        rateeUserId: ratee.userId,
+        rateeTeamMemberId: ratee.teamMemberId,
+        rateeName: ratee.name,
+        rank: ratee.rank,
+        send,
+        closeoutDate: schedule.closeoutDate,
+        closeoutDateLabel: schedule.closeoutDateLabel,
+        daysUntilCloseout: schedule.daysUntilCloseout,
+        periodReason: schedule.periodReason,
+      });
+    }
+  }
+
+  return { planned, skipped };
+}
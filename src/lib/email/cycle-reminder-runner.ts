@@ -0,0 +1,187 @@
+import { createAdminClient } from "@/lib/supabase/server";
+import { buildCycleReminderEmail } from "@/lib/email/cycle-reminder";
+import {
+  planCycleReminders,
+  type CycleReminderManagedMember,
+  type CycleReminderPlan,
+  type CycleReminderRecipient,
+  type CycleReminderSupervision,
+  type PlannedCycleReminder,
+} from "@/lib/email/cycle-reminder-plan";
+import {
+  getResendApiKey,
+  getTransactionalFromEmail,
+  sendResendEmail,
+} from "@/lib/email/resend";
+import { MARKETING_SETTINGS_URL } from "@/lib/marketing-email-opt-in";
+
+// PostgREST caps each response at 1000 rows by default.
+const PAGE_SIZE = 1000;
+const EVAL_PERIOD_COLUMNS = "eval_period_start, eval_period_end, eval_period_reason";
+const CAMPAIGN = "cycle-reminder";
+
+type ServiceClient = ReturnType<typeof createAdminClient>;
+
+export type CycleReminderRunResult = CycleReminderPlan & {
+  dryRun: boolean;
+  sent: number;
+  failed: { dedupeKey: string; error: string }[];
+};
+
+/** Pages through a query until a short page comes back. */
+async function fetchAllRows<T>(
+  label: string,
+  page: (from: number, to: number) => PromiseLike<{ data: unknown; error: { message: string } | null }>,
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(`${label}: ${error.message}`);
+    const batch = (data ?? []) as T[];
+    rows.push(...batch);
+    if (batch.length < PAGE_SIZE) return rows;
+  }
+}
+
+function todayKey(): string {
+  const now = new Date();
+  const month = String(now.getMonth() + 1).padStart(2, "0");
+  const day = String(now.getDate()).padStart(2, "0");
+  return `${now.getFullYear()}-${month}-${day}`;
+}
+
+async function loadPlanInput(service: ServiceClient) {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const from = (table: string) => service.from(table as never) as any;
+
+  const [recipients, supervisions, managedMembers, sends] = await Promise.all([
+    fetchAllRows<CycleReminderRecipient>("profiles", (start, end) =>
+      from("profiles")
+        .select(`id, email, full_name, rank, marketing_email_opt_in, ${EVAL_PERIOD_COLUMNS}`)
+        .order("id", { ascending: true })
+        .range(start, end),
+    ),
+    fetchAllRows<CycleReminderSupervision>("teams", (start, end) =>
+      from("teams")
+        .select("supervisor_id, subordinate_id")
+        .order("id", { ascending: true })
+        .range(start, end),
+    ),
+    fetchAllRows<CycleReminderManagedMember>("team_members", (start, end) =>
+      from("team_members")
+        .select(`id, supervisor_id, full_name, rank, ${EVAL_PERIOD_COLUMNS}`)
+        .eq("member_status", "active")
+        .order("id", { ascending: true })
+        .range(start, end),
+    ),
+    fetchAllRows<{ dedupe_key: string }>("cycle_reminder_sends", (start, end) =>
+      from("cycle_reminder_sends")
+        .select("dedupe_key")
+        .gte("closeout_date", todayKey())
+        .order("id", { ascending: true })
+        .range(start, end),
+    ),
+  ]);
+
+  return {
+    recipients,
+    supervisions,
+    managedMembers,
+    sentKeys: sends.map((row) => row.dedupe_key),
+  };
+}
+
+/**
+ * Inserts the send-log row before mailing. Returns false when another run
+ * already claimed the key, so two overlapping runs never double-send.
+ */
+async function claimSend(service: ServiceClient, item: PlannedCycleReminder): Promise<boolean> {
+  const { data, error } = await service
+    .from("cycle_reminder_sends" as never)
+    .upsert(
+      {
+        dedupe_key: item.dedupeKey,
+        recipient_id: item.recipientId,
+        ratee_user_id: item.rateeUserId,
+        ratee_team_member_id: item.rateeTeamMemberId,
+        send: item.send,
+        closeout_date: item.closeoutDate,
+      } as never,
+      { onConflict: "dedupe_key", ignoreDuplicates: true },
+    )
+    .select("id");
+  if (error) throw new Error(`cycle_reminder_sends: ${error.message}`);
+  return ((data as unknown[] | null) ?? []).length > 0;
+}
+
+async function releaseSend(service: ServiceClient, dedupeKey: string): Promise<void> {
+  const { error } = await service
+    .from("cycle_reminder_sends" as never)
+    .delete()
+    .eq("dedupe_key", dedupeKey);
+  if (error) {
+    console.error("[cycle-reminders] Could not release claim:", dedupeKey, error.message);
+  }
+}
+
+/**
+ * Plans today's cycle reminders and, unless `dryRun`, sends them. Each send is
+ * claimed in cycle_reminder_sends first and released again if Resend rejects
+ * it, so a failed email is retried on the next run.
+ */
+export async function runCycleReminders({
+  dryRun,
+  siteUrl,
+}: {
+  dryRun: boolean;
+  siteUrl: string;
+}): Promise<CycleReminderRunResult> {
+  const service = createAdminClient();
+  const plan = planCycleReminders(await loadPlanInput(service));
+  const result: CycleReminderRunResult = { ...plan, dryRun, sent: 0, failed: [] };
+  if (dryRun || plan.planned.length === 0) return result;
+
+  const resendApiKey = getResendApiKey();
+  const fromEmail = getTransactionalFromEmail();
+  if (!resendApiKey || !fromEmail) {
+    throw new Error("RESEND_API_KEY and EMAIL_FROM are required to send cycle reminders");
+  }
+
+  for (const item of plan.planned) {
+    if (!(await claimSend(service, item))) {
+      result.skipped.already_sent += 1;
+      continue;
+    }
+
+    const email = buildCycleReminderEmail({
+      siteUrl,
+      rank: item.rank,
+      closeoutDateLabel: item.closeoutDateLabel,
+      send: item.send,
+      periodReason: item.periodReason,
+      rateeName: item.rateeName,
+      campaign: CAMPAIGN,
+      unsubscribeUrl: MARKETING_SETTINGS_URL,
+    });
+
+    try {
+      await sendResendEmail({
+        resendApiKey,
+        from: fromEmail,
+        to: item.recipientEmail,
+        subject: email.subject,
+        html: email.html,
+        text: email.text,
+      });
+      result.sent += 1;
+    } catch (error) {
+      await releaseSend(service, item.dedupeKey);
+      result.failed.push({
+        dedupeKey: item.dedupeKey,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return result;
+}
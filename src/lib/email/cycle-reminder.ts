@@ -1,8 +1,15 @@
 import { escapeHtml } from "@/lib/email/html-safe";
+import {
+  getDaysUntilCloseout,
+  getEPBMilestones,
+  getStaticCloseoutDate,
+  type CyclePeriodOverride,
+} from "@/lib/constants";
 import {
   MARKETING_SETTINGS_URL,
   RESEND_UNSUBSCRIBE_PLACEHOLDER,
 } from "@/lib/marketing-email-opt-in";
+import type { EvaluationPeriodReason, Rank } from "@/types/database";
 
 export type CycleReminderSend = "supervisor_soon" | "chief_soon" | "catchup";
 
@@ -11,6 +18,10 @@ export type BuildCycleReminderEmailParams = {
   rank: string;
   closeoutDateLabel: string;
   send: CycleReminderSend;
+  /** Set for members on a custom period; the copy names it instead of the rank SCOD. */
+  periodReason?: EvaluationPeriodReason | null;
+  /** Subordinate's name when the reminder goes to their supervisor. */
+  rateeName?: string | null;
   campaign?: string;
   unsubscribeUrl?: string;
 };
@@ -22,27 +33,137 @@ export type CycleReminderEmailContent = {
   ctaUrl: string;
 };
 
-const COPY: Record<
-  CycleReminderSend,
-  { subject: string; headline: (rank: string, date: string) => string }
-> = {
+type CycleReminderCopyContext = {
+  rank: string;
+  date: string;
+  reason: EvaluationPeriodReason | null | undefined;
+};
+
+type CycleReminderCopy = {
+  subject: string;
+  headline: (context: CycleReminderCopyContext) => string;
+};
+
+const OVERRIDE_CLOSEOUT_NOUN: Record<EvaluationPeriodReason, string> = {
+  ang_cycle: "ANG evaluation",
+  afr_cycle: "AFR evaluation",
+  cro: "CRO evaluation",
+  directed_by_commander: "directed-by-commander evaluation",
+  other: "evaluation",
+};
+
+function describeCloseout(
+  { rank, date, reason }: CycleReminderCopyContext,
+  possessive: "your" | "their"
+): string {
+  if (!reason) return `${rank} closeout is ${date}`;
+  return `${possessive} ${OVERRIDE_CLOSEOUT_NOUN[reason]} closes out ${date}`;
+}
+
+const COPY: Record<CycleReminderSend, CycleReminderCopy> = {
   supervisor_soon: {
     subject: "It's time to write your EPB",
-    headline: (_rank, _date) =>
+    headline: () =>
       "It's time to write your EPB — due to your supervisor in 5 days.",
   },
   chief_soon: {
     subject: "Your EPB deadline is approaching",
-    headline: (_rank, _date) =>
+    headline: () =>
       "Reminder: your EPB is due to your chief in 15 days.",
   },
   catchup: {
     subject: "It's time to write your EPB",
-    headline: (rank, date) =>
-      `It's time to write your EPB — ${rank} closeout is ${date}.`,
+    headline: (context) =>
+      `It's time to write your EPB — ${describeCloseout(context, "your")}.`,
   },
 };
 
+/** Same milestones, addressed to the supervisor about one subordinate. */
+function subordinateCopy(send: CycleReminderSend, name: string): CycleReminderCopy {
+  switch (send) {
+    case "supervisor_soon":
+      return {
+        subject: `It's time to work on ${name}'s EPB`,
+        headline: () =>
+          `It's time to work on ${name}'s EPB — the draft is due to the immediate supervisor in 5 days.`,
+      };
+    case "chief_soon":
+      return {
+        subject: `${name}'s EPB deadline is approaching`,
+        headline: () => `Reminder: ${name}'s EPB is due to the chief in 15 days.`,
+      };
+    case "catchup":
+      return {
+        subject: `It's time to write ${name}'s EPB`,
+        headline: (context) =>
+          `It's time to write ${name}'s EPB — ${describeCloseout(context, "their")}.`,
+      };
+  }
+}
+
+/**
+ * Scheduled sends, keyed to getEPBMilestones: each goes out `leadDays` before
+ * the milestone that is `milestoneDaysBefore` days ahead of close-out
+ * (65 and 45 days before close-out).
+ */
+export const CYCLE_REMINDER_MILESTONE_SENDS: {
+  send: Exclude<CycleReminderSend, "catchup">;
+  milestoneDaysBefore: number;
+  leadDays: number;
+}[] = [
+  { send: "supervisor_soon", milestoneDaysBefore: 60, leadDays: 5 },
+  { send: "chief_soon", milestoneDaysBefore: 30, leadDays: 15 },
+];
+
+/** Inside this many days of close-out a member who got nothing yet gets the catch-up send. */
+export const CYCLE_REMINDER_CATCHUP_WINDOW_DAYS = 45;
+
+export type CycleReminderSchedule = {
+  /** "30 November", as used in the email copy */
+  closeoutDateLabel: string;
+  /** YYYY-MM-DD, the idempotency key for a cycle */
+  closeoutDate: string;
+  daysUntilCloseout: number;
+  /** Milestone send due today, if any */
+  send: CycleReminderSend | null;
+  periodReason: EvaluationPeriodReason | null;
+};
+
+function toDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Where a member stands against their close-out: the rank SCOD, or their
+ * override period when one is running. Null when the member has no cycle
+ * (civilians, AB/Amn without an override).
+ */
+export function getCycleReminderSchedule(
+  rank: Rank | null,
+  override?: CyclePeriodOverride | null
+): CycleReminderSchedule | null {
+  const closeout = getStaticCloseoutDate(rank, override);
+  const daysUntilCloseout = getDaysUntilCloseout(rank, override);
+  const milestones = getEPBMilestones(rank, override);
+  if (!closeout || daysUntilCloseout === null || !milestones) return null;
+
+  const due = CYCLE_REMINDER_MILESTONE_SENDS.find(({ milestoneDaysBefore, leadDays }) =>
+    milestones.some(
+      (m) => m.daysBefore === milestoneDaysBefore && m.daysFromNow === leadDays
+    )
+  );
+
+  return {
+    closeoutDateLabel: `${closeout.date.getDate()} ${closeout.date.toLocaleString("en-US", { month: "long" })}`,
+    closeoutDate: toDateKey(closeout.date),
+    daysUntilCloseout,
+    send: due?.send ?? null,
+    periodReason: override?.reason ?? null,
+  };
+}
+
 export function buildCycleReminderCtaUrl(
   siteUrl: string,
   campaign?: string
@@ -64,8 +185,15 @@ export function buildCycleReminderEmail(
   params: BuildCycleReminderEmailParams
 ): CycleReminderEmailContent {
   const siteUrl = params.siteUrl.replace(/\/$/, "");
-  const copy = COPY[params.send];
-  const headline = copy.headline(params.rank, params.closeoutDateLabel);
+  const rateeName = params.rateeName?.trim();
+  const copy = rateeName
+    ? subordinateCopy(params.send, rateeName)
+    : COPY[params.send];
+  const headline = copy.headline({
+    rank: params.rank,
+    date: params.closeoutDateLabel,
+    reason: params.periodReason,
+  });
   const ctaUrl = buildCycleReminderCtaUrl(siteUrl, params.campaign);
   const hrefCtaUrl = escapeHtml(ctaUrl);
   const logoUrl = escapeHtml(`${siteUrl}/icon-email.png`);
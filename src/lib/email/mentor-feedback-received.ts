@@ -20,6 +20,7 @@ export type MentorFeedbackReceivedEmailContent = {
 
 const SHELL_SHORT: Record<ReviewShellType, string> = {
   epb: "EPB",
+  opb: "OPB",
   award: "award",
   decoration: "decoration",
 };
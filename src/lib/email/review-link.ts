@@ -1,6 +1,6 @@
 import { escapeHtml } from "@/lib/email/html-safe";
 
-export type ReviewShellType = "epb" | "award" | "decoration";
+export type ReviewShellType = "epb" | "opb" | "award" | "decoration";
 
 export type BuildReviewLinkEmailParams = {
   siteUrl: string;
@@ -21,12 +21,14 @@ export type ReviewLinkEmailContent = {
 
 const SHELL_LABELS: Record<ReviewShellType, string> = {
   epb: "Enlisted Performance Brief (EPB)",
+  opb: "Officer Performance Brief (OPB)",
   award: "award package",
   decoration: "decoration package",
 };
 
 const SHELL_SHORT: Record<ReviewShellType, string> = {
   epb: "EPB",
+  opb: "OPB",
   award: "award",
   decoration: "decoration",
 };
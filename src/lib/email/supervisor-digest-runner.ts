@@ -0,0 +1,232 @@
+import { createAdminClient } from "@/lib/supabase/server";
+import { getActiveCycleYear, getCyclePeriodOverride } from "@/lib/constants";
+import {
+  buildSupervisorDigestEmail,
+  summarizeDigestMember,
+  type SupervisorDigestEntry,
+  type SupervisorDigestMember,
+} from "@/lib/email/supervisor-digest";
+import { isMilEmail } from "@/lib/email/resend-contacts";
+import {
+  getResendApiKey,
+  getTransactionalFromEmail,
+  sendResendEmail,
+} from "@/lib/email/resend";
+import { MARKETING_SETTINGS_URL } from "@/lib/marketing-email-opt-in";
+import { fetchAllRows, fetchAllRowsIn } from "@/lib/supabase/paging";
+import type { EvaluationPeriodFields, Rank } from "@/types/database";
+
+/** A retried or doubled cron run inside this window does not resend. */
+const RESEND_AFTER_DAYS = 6;
+const EVAL_PERIOD_COLUMNS = "eval_period_start, eval_period_end, eval_period_reason";
+const ENTRY_COLUMNS =
+  "id, user_id, team_member_id, date, mpa, cycle_year, assessment_scores, assessed_at, created_at, updated_at";
+
+type ServiceClient = ReturnType<typeof createAdminClient>;
+
+type DigestSupervisor = {
+  id: string;
+  email: string | null;
+  full_name: string | null;
+  supervisor_digest_sent_at: string | null;
+};
+
+type DigestRatee = EvaluationPeriodFields & {
+  id: string;
+  full_name: string | null;
+  rank: Rank | null;
+};
+
+type DigestEntryRow = SupervisorDigestEntry & {
+  user_id: string;
+  team_member_id: string | null;
+  cycle_year: number;
+};
+
+export type SupervisorDigestRunResult = {
+  sent: number;
+  skipped: number;
+  failed: { supervisorId: string; error: string }[];
+};
+
+function displayName(ratee: DigestRatee): string {
+  return [ratee.rank, ratee.full_name?.trim()].filter(Boolean).join(" ") || "Unnamed member";
+}
+
+function activeCycleYear(ratee: DigestRatee): number {
+  return getActiveCycleYear(ratee.rank, getCyclePeriodOverride(ratee));
+}
+
+function summarize(ratee: DigestRatee, entries: DigestEntryRow[]): SupervisorDigestMember {
+  const cycleYear = activeCycleYear(ratee);
+  return summarizeDigestMember(
+    { name: displayName(ratee), rank: ratee.rank, override: getCyclePeriodOverride(ratee) },
+    entries.filter((entry) => entry.cycle_year === cycleYear)
+  );
+}
+
+/** Subordinates and active managed members, each summarized for their current cycle. */
+async function loadTeamDigest(
+  service: ServiceClient,
+  supervisorId: string
+): Promise<SupervisorDigestMember[]> {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const from = (table: string) => service.from(table as never) as any;
+
+  const [teams, managed] = await Promise.all([
+    fetchAllRows<{ subordinate_id: string }>("teams", (start, end) =>
+      from("teams")
+        .select("subordinate_id")
+        .eq("supervisor_id", supervisorId)
+        .order("id", { ascending: true })
+        .range(start, end)
+    ),
+    fetchAllRows<DigestRatee>("team_members", (start, end) =>
+      from("team_members")
+        .select(`id, full_name, rank, ${EVAL_PERIOD_COLUMNS}`)
+        .eq("supervisor_id", supervisorId)
+        .eq("member_status", "active")
+        .order("id", { ascending: true })
+        .range(start, end)
+    ),
+  ]);
+
+  const subordinateIds = teams.map((row) => row.subordinate_id).filter((id) => id !== supervisorId);
+  const subordinates = await fetchAllRowsIn<DigestRatee>("profiles", subordinateIds, (ids, start, end) =>
+    from("profiles")
+      .select(`id, full_name, rank, ${EVAL_PERIOD_COLUMNS}`)
+      .in("id", ids)
+      .order("id", { ascending: true })
+      .range(start, end)
+  );
+
+  // Only the active cycle is summarized, so earlier cycles' entries never leave the database
+  const cycleYears = [...new Set([...subordinates, ...managed].map(activeCycleYear))];
+  const [ownEntries, managedEntries] = await Promise.all([
+    fetchAllRowsIn<DigestEntryRow>("accomplishments", subordinateIds, (ids, start, end) =>
+      from("accomplishments")
+        .select(ENTRY_COLUMNS)
+        .in("user_id", ids)
+        .is("team_member_id", null)
+        .in("cycle_year", cycleYears)
+        .order("id", { ascending: true })
+        .range(start, end)
+    ),
+    fetchAllRowsIn<DigestEntryRow>("accomplishments", managed.map((m) => m.id), (ids, start, end) =>
+      from("accomplishments")
+        .select(ENTRY_COLUMNS)
+        .in("team_member_id", ids)
+        .in("cycle_year", cycleYears)
+        .order("id", { ascending: true })
+        .range(start, end)
+    ),
+  ]);
+
+  return [
+    ...subordinates.map((s) =>
+      summarize(s, ownEntries.filter((e) => e.user_id === s.id))
+    ),
+    ...managed.map((m) =>
+      summarize(m, managedEntries.filter((e) => e.team_member_id === m.id))
+    ),
+  ];
+}
+
+/**
+ * Stamps supervisor_digest_sent_at unless it was stamped in the last
+ * RESEND_AFTER_DAYS. Returns false when another run got there first.
+ */
+async function claimDigest(
+  service: ServiceClient,
+  supervisor: DigestSupervisor,
+  now: Date
+): Promise<boolean> {
+  const cutoff = new Date(now.getTime() - RESEND_AFTER_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const { data, error } = await service
+    .from("profiles")
+    .update({ supervisor_digest_sent_at: now.toISOString() } as never)
+    .eq("id", supervisor.id)
+    .or(`supervisor_digest_sent_at.is.null,supervisor_digest_sent_at.lt.${cutoff}`)
+    .select("id");
+  if (error) throw new Error(`profiles: ${error.message}`);
+  return ((data as unknown[] | null) ?? []).length > 0;
+}
+
+/**
+ * Sends the weekly digest to every opted-in supervisor with at least one
+ * subordinate or managed member. A failed send restores the previous stamp so
+ * the next run retries it.
+ */
+export async function runSupervisorDigest({
+  siteUrl,
+}: {
+  siteUrl: string;
+}): Promise<SupervisorDigestRunResult> {
+  const resendApiKey = getResendApiKey();
+  const fromEmail = getTransactionalFromEmail();
+  if (!resendApiKey || !fromEmail) {
+    throw new Error("RESEND_API_KEY and EMAIL_FROM are required to send the supervisor digest");
+  }
+
+  const service = createAdminClient();
+  const supervisors = await fetchAllRows<DigestSupervisor>("profiles", (start, end) =>
+    service
+      .from("profiles")
+      .select("id, email, full_name, supervisor_digest_sent_at")
+      .eq("supervisor_digest_opt_in" as never, true as never)
+      .order("id", { ascending: true })
+      .range(start, end)
+  );
+
+  const result: SupervisorDigestRunResult = { sent: 0, skipped: 0, failed: [] };
+  const now = new Date();
+
+  for (const supervisor of supervisors) {
+    const email = supervisor.email?.trim();
+    // .mil inboxes reject bulk mail from the app domain
+    if (!email || isMilEmail(email)) {
+      result.skipped += 1;
+      continue;
+    }
+
+    try {
+      const members = await loadTeamDigest(service, supervisor.id);
+      if (members.length === 0 || !(await claimDigest(service, supervisor, now))) {
+        result.skipped += 1;
+        continue;
+      }
+
+      const content = buildSupervisorDigestEmail({
+        siteUrl,
+        recipientName: supervisor.full_name,
+        members,
+        unsubscribeUrl: MARKETING_SETTINGS_URL,
+      });
+
+      try {
+        await sendResendEmail({
+          resendApiKey,
+          from: fromEmail,
+          to: email,
+          subject: content.subject,
+          html: content.html,
+          text: content.text,
+        });
+        result.sent += 1;
+      } catch (sendError) {
+        await service
+          .from("profiles")
+          .update({ supervisor_digest_sent_at: supervisor.supervisor_digest_sent_at } as never)
+          .eq("id", supervisor.id);
+        throw sendError;
+      }
+    } catch (runError) {
+      result.failed.push({
+        supervisorId: supervisor.id,
+        error: runError instanceof Error ? runError.message : String(runError),
+      });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,226 @@
+import { escapeHtml } from "@/lib/email/html-safe";
+import {
+  ACA_PORTFOLIO_MPA_KEYS,
+  PORTFOLIO_QUALITY_FLOOR,
+  buildCyclePortfolio,
+} from "@/lib/cycle-portfolio";
+import { entriesNeedingAssessment } from "@/lib/epb-generation-readiness";
+import {
+  ENTRY_MGAS,
+  getActiveCyclePeriod,
+  getDaysUntilCloseout,
+  type CyclePeriodOverride,
+} from "@/lib/constants";
+import type { Accomplishment, Rank } from "@/types/database";
+
+/** How far back "new entries" reaches; the digest goes out weekly. */
+export const SUPERVISOR_DIGEST_WINDOW_DAYS = 7;
+
+export type SupervisorDigestEntry = Pick<
+  Accomplishment,
+  | "id"
+  | "date"
+  | "mpa"
+  | "assessment_scores"
+  | "assessed_at"
+  | "created_at"
+  | "updated_at"
+>;
+
+export type SupervisorDigestMember = {
+  /** "SSgt Jane Doe" */
+  name: string;
+  newEntryCount: number;
+  unassessedCount: number;
+  /** MPA labels averaging below PORTFOLIO_QUALITY_FLOOR */
+  weakMpas: string[];
+  /** Null for members without a close-out (civilians, AB/Amn) */
+  daysUntilCloseout: number | null;
+};
+
+export type BuildSupervisorDigestEmailParams = {
+  siteUrl: string;
+  recipientName: string | null;
+  members: SupervisorDigestMember[];
+  unsubscribeUrl: string;
+};
+
+export type SupervisorDigestEmailContent = {
+  subject: string;
+  html: string;
+  text: string;
+  ctaUrl: string;
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function mpaLabel(key: string): string {
+  return ENTRY_MGAS.find((mpa) => mpa.key === key)?.label ?? key;
+}
+
+/**
+ * One digest row: entries logged in the last week, ACA entries still waiting on
+ * an assessment, weak MPAs and the countdown, all for the member's current
+ * evaluation period.
+ */
+export function summarizeDigestMember(
+  member: { name: string; rank: Rank | null; override?: CyclePeriodOverride | null },
+  entries: SupervisorDigestEntry[],
+  now: Date = new Date()
+): SupervisorDigestMember {
+  const since = now.getTime() - SUPERVISOR_DIGEST_WINDOW_DAYS * DAY_MS;
+  const period = member.override ? getActiveCyclePeriod(member.rank, member.override) : null;
+  const portfolio = buildCyclePortfolio(entries as Accomplishment[], { period });
+
+  return {
+    name: member.name,
+    newEntryCount: entries.filter((e) => new Date(e.created_at).getTime() >= since).length,
+    unassessedCount: entriesNeedingAssessment(entries).length,
+    weakMpas: ACA_PORTFOLIO_MPA_KEYS.filter((key) => {
+      const avg = portfolio.mpaStats[key].avgOverall;
+      return avg !== null && avg < PORTFOLIO_QUALITY_FLOOR;
+    }).map(mpaLabel),
+    daysUntilCloseout: getDaysUntilCloseout(member.rank, member.override),
+  };
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+function newEntriesText(count: number): string {
+  return count === 1 ? "1 new entry" : `${count} new entries`;
+}
+
+function closeoutText(days: number | null): string {
+  if (days === null) return "No close-out";
+  if (days === 0) return "Closes out today";
+  return `${plural(days, "day")} to close-out`;
+}
+
+/** Members with the nearest close-out first; no close-out last. */
+function sortMembers(members: SupervisorDigestMember[]): SupervisorDigestMember[] {
+  return [...members].sort(
+    (a, b) =>
+      (a.daysUntilCloseout ?? Number.POSITIVE_INFINITY) -
+        (b.daysUntilCloseout ?? Number.POSITIVE_INFINITY) ||
+      a.name.localeCompare(b.name)
+  );
+}
+
+/**
+ * Weekly team digest for supervisors (same chrome as the other transactional
+ * emails). CTA opens the team entries page.
+ */
+export function buildSupervisorDigestEmail(
+  params: BuildSupervisorDigestEmailParams
+): SupervisorDigestEmailContent {
+  const siteUrl = params.siteUrl.replace(/\/$/, "");
+  const members = sortMembers(params.members);
+  const newTotal = members.reduce((sum, m) => sum + m.newEntryCount, 0);
+  const greeting = params.recipientName?.trim() || "there";
+  const subject = `Your team this week: ${newEntriesText(newTotal)}`;
+  const ctaUrl = `${siteUrl}/entries`;
+  const hrefCtaUrl = escapeHtml(ctaUrl);
+  const logoUrl = escapeHtml(`${siteUrl}/icon-email.png`);
+  const unsubscribeUrl = escapeHtml(params.unsubscribeUrl);
+
+  const rowsHtml = members
+    .map((m) => {
+      const gaps = [
+        newEntriesText(m.newEntryCount),
+        `${m.unassessedCount} unassessed`,
+      ];
+      const weak = m.weakMpas.length > 0
+        ? `<br><span style="color: #f59e0b;">Below ${PORTFOLIO_QUALITY_FLOOR}: ${escapeHtml(m.weakMpas.join(", "))}</span>`
+        : "";
+      return `<tr>
+                  <td style="padding: 12px 0; border-top: 1px solid #2e2e2e; font-size: 14px; line-height: 1.5; color: #a3a3a3;">
+                    <strong style="color: #fafafa;">${escapeHtml(m.name)}</strong>
+                    <span style="float: right; color: #6b6b6b;">${escapeHtml(closeoutText(m.daysUntilCloseout))}</span><br>
+                    ${escapeHtml(gaps.join(" · "))}${weak}
+                  </td>
+                </tr>`;
+    })
+    .join("\n                ");
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(subject)}</title>
+</head>
+<body style="margin: 0; padding: 0; background-color: #141414; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;">
+  <table role="presentation" width="100%" cellspacing="0" cellpadding="0" style="background-color: #141414;">
+    <tr>
+      <td align="center" style="padding: 40px 20px;">
+        <table role="presentation" width="100%" cellspacing="0" cellpadding="0" style="max-width: 520px; background-color: #1f1f1f; border-radius: 12px; border: 1px solid #2e2e2e;">
+          <tr>
+            <td align="center" style="padding: 32px 40px 24px;">
+              <img src="${logoUrl}" alt="MyEPBuddy" width="48" height="48" style="display: block;">
+              <h1 style="margin: 16px 0 0; font-size: 24px; font-weight: 600; color: #fafafa;">MyEPBuddy</h1>
+            </td>
+          </tr>
+          <tr>
+            <td style="padding: 0 40px 32px;">
+              <h2 style="margin: 0 0 16px; font-size: 20px; font-weight: 600; color: #fafafa; text-align: center;">
+                Weekly team digest
+              </h2>
+              <p style="margin: 0 0 24px; font-size: 15px; line-height: 1.6; color: #a3a3a3; text-align: center;">
+                Hi ${escapeHtml(greeting)}, here is where your team stands for the current evaluation period.
+              </p>
+              <table role="presentation" width="100%" cellspacing="0" cellpadding="0">
+                ${rowsHtml}
+              </table>
+              <table role="presentation" width="100%" cellspacing="0" cellpadding="0">
+                <tr>
+                  <td align="center" style="padding: 24px 0 8px;">
+                    <a href="${hrefCtaUrl}" target="_blank" style="display: inline-block; padding: 14px 32px; background-color: #818cf8; color: #1f1f1f; font-size: 15px; font-weight: 600; text-decoration: none; border-radius: 8px;">
+                      Review team entries
+                    </a>
+                  </td>
+                </tr>
+              </table>
+            </td>
+          </tr>
+          <tr>
+            <td style="padding: 24px 40px 32px; border-top: 1px solid #2e2e2e;">
+              <p style="margin: 0 0 8px; font-size: 12px; color: #6b6b6b; text-align: center;">
+                You get this because you turned on the weekly team digest.
+                <a href="${unsubscribeUrl}" style="color: #818cf8;">Turn it off in Settings</a>.
+              </p>
+              <p style="margin: 0; font-size: 12px; color: #6b6b6b; text-align: center;">
+                MyEPBuddy - Your AI-Powered EPB Writing Assistant
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>`;
+
+  const text = [
+    `Hi ${greeting},`,
+    "",
+    "Here is where your team stands for the current evaluation period.",
+    "",
+    ...members.flatMap((m) => [
+      `${m.name} — ${closeoutText(m.daysUntilCloseout)}`,
+      `  ${newEntriesText(m.newEntryCount)}, ${m.unassessedCount} unassessed`,
+      ...(m.weakMpas.length > 0
+        ? [`  Below ${PORTFOLIO_QUALITY_FLOOR}: ${m.weakMpas.join(", ")}`]
+        : []),
+    ]),
+    "",
+    `Review team entries: ${ctaUrl}`,
+    "",
+    `Turn off the weekly team digest: ${params.unsubscribeUrl}`,
+    "",
+    "MyEPBuddy - Your AI-Powered EPB Writing Assistant",
+  ].join("\n");
+
+  return { subject, html, text, ctaUrl };
+}
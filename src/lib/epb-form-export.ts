@@ -0,0 +1,191 @@
+/**
+ * EPB shell → print-ready PDF laid out like the myEval Enlisted Performance Brief
+ * (AF Form 910 / 911 / 912). The layout model is built separately from the PDF
+ * rendering so the mapping from shell data to form blocks stays testable.
+ */
+
+import {
+  MAX_DUTY_DESCRIPTION_CHARACTERS,
+  MAX_HLR_CHARACTERS,
+  MAX_STATEMENT_CHARACTERS,
+  STANDARD_MGAS,
+  formatCycleDate,
+  getCyclePeriodForYear,
+} from "@/lib/constants";
+import {
+  addVerticalSpace,
+  createFormWriter,
+  drawCenteredText,
+  drawFieldRow,
+  drawParagraph,
+  drawRightNote,
+  drawSectionHeading,
+  finalizeFormWriter,
+} from "@/lib/pdf/form-writer";
+import type { Rank } from "@/types/database";
+
+export type EpbFormNumber = "AF Form 910" | "AF Form 911" | "AF Form 912";
+
+export interface EpbFormInfo {
+  form: EpbFormNumber;
+  gradeRange: string;
+}
+
+/** Which EPB form the ratee's grade is written on (AFI 36-2406). */
+export function getEpbFormForRank(rank: Rank | null): EpbFormInfo {
+  switch (rank) {
+    case "MSgt":
+    case "SMSgt":
+      return { form: "AF Form 911", gradeRange: "MSgt thru SMSgt" };
+    case "CMSgt":
+      return { form: "AF Form 912", gradeRange: "CMSgt" };
+    default:
+      return { form: "AF Form 910", gradeRange: "AB thru TSgt" };
+  }
+}
+
+export interface EpbFormExportRatee {
+  name: string;
+  rank: Rank | null;
+  afsc: string | null;
+  unit: string | null;
+}
+
+export interface EpbFormExportShell {
+  cycle_year: number;
+  duty_description: string;
+  sections: { mpa: string; statement_text: string }[];
+}
+
+export interface EpbFormStatementBlock {
+  mpa: string;
+  label: string;
+  text: string;
+  charCount: number;
+  maxChars: number;
+  overLimit: boolean;
+}
+
+export interface EpbFormLayout {
+  form: EpbFormInfo;
+  title: string;
+  ratee: EpbFormExportRatee;
+  periodFrom: string | null;
+  periodThru: string | null;
+  closeoutLabel: string | null;
+  dutyDescription: EpbFormStatementBlock;
+  statements: EpbFormStatementBlock[];
+  hlr: EpbFormStatementBlock;
+}
+
+// Form order: the four MPAs, then the HLR block on its own (no Miscellaneous row on the form)
+const FORM_MPAS = STANDARD_MGAS.filter(
+  (m) => m.key !== "miscellaneous" && m.key !== "hlr_assessment"
+);
+const HLR_MPA = STANDARD_MGAS.find((m) => m.key === "hlr_assessment")!;
+
+function toBlock(mpa: string, label: string, text: string, maxChars: number): EpbFormStatementBlock {
+  const trimmed = text.trim();
+  return {
+    mpa,
+    label,
+    text: trimmed,
+    charCount: trimmed.length,
+    maxChars,
+    overLimit: trimmed.length > maxChars,
+  };
+}
+
+export function buildEpbFormLayout(
+  shell: EpbFormExportShell,
+  ratee: EpbFormExportRatee,
+): EpbFormLayout {
+  const form = getEpbFormForRank(ratee.rank);
+  const period = getCyclePeriodForYear(ratee.rank, shell.cycle_year);
+  const byMpa = new Map(shell.sections.map((s) => [s.mpa, s.statement_text ?? ""]));
+
+  return {
+    form,
+    title: `Enlisted Performance Brief (${form.gradeRange})`,
+    ratee,
+    periodFrom: period ? formatCycleDate(period.start) : null,
+    periodThru: period ? formatCycleDate(period.end) : null,
+    closeoutLabel: period?.closeoutLabel ?? null,
+    dutyDescription: toBlock(
+      "duty_description",
+      "Duty Description",
+      shell.duty_description ?? "",
+      MAX_DUTY_DESCRIPTION_CHARACTERS,
+    ),
+    statements: FORM_MPAS.map((m) =>
+      toBlock(m.key, m.label, byMpa.get(m.key) ?? "", MAX_STATEMENT_CHARACTERS)
+    ),
+    hlr: toBlock(HLR_MPA.key, HLR_MPA.label, byMpa.get(HLR_MPA.key) ?? "", MAX_HLR_CHARACTERS),
+  };
+}
+
+/** Suggested download name, e.g. `EPB_2026_SSgt_Doe.pdf`. */
+export function getEpbExportFileName(layout: EpbFormLayout, cycleYear: number): string {
+  // "Last, First" from profiles, otherwise a free-form full name
+  const name = layout.ratee.name.trim();
+  const lastName = (name.includes(",") ? name.split(",")[0] : name.split(/\s+/).pop()) || "Ratee";
+  const parts = ["EPB", String(cycleYear), layout.ratee.rank ?? "", lastName]
+    .filter(Boolean)
+    .map((p) => p.replace(/[^A-Za-z0-9-]+/g, ""));
+  return `${parts.join("_")}.pdf`;
+}
+
+function countNote(block: EpbFormStatementBlock): string {
+  return `${block.charCount}/${block.maxChars} characters${block.overLimit ? " - OVER LIMIT" : ""}`;
+}
+
+export async function renderEpbFormPdf(layout: EpbFormLayout): Promise<Uint8Array> {
+  const rateeLabel = [layout.ratee.rank, layout.ratee.name].filter(Boolean).join(" ");
+  const writer = await createFormWriter({
+    title: `${layout.title} - ${rateeLabel}`,
+    subject: layout.form.form,
+    fontFamily: "times",
+    runningHeader: `${layout.form.form} - ${rateeLabel} (continued)`,
+  });
+
+  drawCenteredText(writer, "ENLISTED PERFORMANCE BRIEF", { size: 14, bold: true, gapAfter: 2 });
+  drawCenteredText(writer, `${layout.form.form} layout (${layout.form.gradeRange})`, { size: 9, gapAfter: 12 });
+
+  drawSectionHeading(writer, "I. Ratee Identification Data");
+  drawFieldRow(writer, [
+    { label: "1. Name (Last, First Middle Initial)", value: layout.ratee.name, span: 0.5 },
+    { label: "2. Grade", value: layout.ratee.rank ?? "", span: 0.2 },
+    { label: "3. DAFSC", value: layout.ratee.afsc ?? "", span: 0.3 },
+  ]);
+  drawFieldRow(writer, [
+    { label: "4. Organization, Command, Location", value: layout.ratee.unit ?? "", span: 0.5 },
+    { label: "5. Period of Report: From", value: layout.periodFrom ?? "", span: 0.25 },
+    { label: "Thru", value: layout.periodThru ?? "", span: 0.25 },
+  ]);
+  addVerticalSpace(writer, 10);
+
+  drawSectionHeading(writer, "II. Job Description");
+  drawParagraph(writer, layout.dutyDescription.text, {
+    boxed: true,
+    placeholder: "No duty description entered.",
+  });
+  drawRightNote(writer, countNote(layout.dutyDescription), { warn: layout.dutyDescription.overLimit });
+  addVerticalSpace(writer, 4);
+
+  drawSectionHeading(writer, "III. Performance in Primary Duties / Airman Comprehensive Assessment");
+  for (const block of layout.statements) {
+    drawParagraph(writer, block.label, { size: 10, bold: true, lineHeight: 14 });
+    drawParagraph(writer, block.text, { boxed: true, placeholder: "No statement entered." });
+    drawRightNote(writer, countNote(block), { warn: block.overLimit });
+  }
+  addVerticalSpace(writer, 4);
+
+  drawSectionHeading(writer, "IV. Higher Level Reviewer Assessment");
+  drawParagraph(writer, layout.hlr.text, { boxed: true, placeholder: "No HLR assessment entered." });
+  drawRightNote(writer, countNote(layout.hlr), { warn: layout.hlr.overLimit });
+
+  const footer = layout.closeoutLabel
+    ? `MyEPBuddy export - not an official form. SCOD: ${layout.closeoutLabel}.`
+    : "MyEPBuddy export - not an official form.";
+  return finalizeFormWriter(writer, footer);
+}
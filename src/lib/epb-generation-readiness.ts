@@ -1,8 +1,9 @@
-import { ENTRY_MGAS, isEnlisted } from "@/lib/constants";
+import { ENTRY_MGAS, formatCycleDate, isEnlisted } from "@/lib/constants";
 import {
   ACA_PORTFOLIO_MPA_KEYS,
   PORTFOLIO_QUALITY_FLOOR,
   buildCyclePortfolio,
+  filterEntriesToPeriod,
   type AcaPortfolioMpaKey,
 } from "@/lib/cycle-portfolio";
 import { isAssessmentStale } from "@/lib/assessment-coaching";
@@ -47,6 +48,8 @@ export interface EpbGenerationReadiness {
   /** Core MPAs that have at least one entry (what we will generate). */
   eligibleMpaKeys: AcaPortfolioMpaKey[];
   totalAcaEntries: number;
+  /** Entries left out because they fall outside `options.period`. */
+  outsidePeriodCount: number;
   assessedCount: number;
   unassessedCount: number;
   staleCount: number;
@@ -55,6 +58,11 @@ export interface EpbGenerationReadiness {
 export interface ReadinessOptions {
   /** Ratee rank; when provided, non-enlisted ratees are gated out (v1 is EPB-only). */
   rank?: Rank | string | null;
+  /**
+   * Ratee's evaluation window when it isn't the SCOD cycle (ANG/AFR cycle,
+   * CRO, directed by commander). Only entries dated inside it count.
+   */
+  period?: { start: Date; end: Date } | null;
 }
 
 function labelFor(mpaKey: AcaPortfolioMpaKey): string {
@@ -86,8 +94,8 @@ export function evaluateEpbGenerationReadiness(
   entries: Accomplishment[],
   options: ReadinessOptions = {}
 ): EpbGenerationReadiness {
-  const portfolio = buildCyclePortfolio(entries);
-  const acaEntries = entries.filter(isAcaEntry);
+  const portfolio = buildCyclePortfolio(entries, { period: options.period });
+  const acaEntries = filterEntriesToPeriod(entries, options.period).filter(isAcaEntry);
 
   const perMpa = {} as Record<AcaPortfolioMpaKey, MpaReadiness>;
   const eligibleMpaKeys: AcaPortfolioMpaKey[] = [];
@@ -156,6 +164,17 @@ export function evaluateEpbGenerationReadiness(
     );
   }
 
+  if (options.period && portfolio.outsidePeriodCount > 0) {
+    const count = portfolio.outsidePeriodCount;
+    warnings.push(
+      `${count} ${count === 1 ? "entry falls" : "entries fall"} outside the evaluation period (${formatCycleDate(
+        options.period.start
+      )} to ${formatCycleDate(options.period.end)}) and ${
+        count === 1 ? "is" : "are"
+      } left out.`
+    );
+  }
+
   // Unassessed / stale entries are assessed automatically before planning —
   // do not surface those as user-facing warnings.
 
@@ -166,6 +185,7 @@ export function evaluateEpbGenerationReadiness(
     perMpa,
     eligibleMpaKeys,
     totalAcaEntries: acaEntries.length,
+    outsidePeriodCount: portfolio.outsidePeriodCount,
     assessedCount,
     unassessedCount,
     staleCount,
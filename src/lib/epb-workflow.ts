@@ -0,0 +1,155 @@
+/**
+ * EPB routing workflow: the steps a shell moves through on its way to myEval,
+ * each with a suspense keyed to the ratee's SCOD milestones. Shells move one
+ * step forward at a time, or back to any earlier step when returned for rework,
+ * by whoever works both steps: the ratee only between drafting and their own
+ * review, the supervision chain anywhere.
+ */
+
+import {
+  getEPBMilestones,
+  type CyclePeriodOverride,
+} from "@/lib/constants";
+import type { EPBWorkflowState, Rank } from "@/types/database";
+
+/** The ratee on their own shell, or anyone routing it from the supervision chain */
+export type EPBWorkflowRole = "ratee" | "supervisor";
+
+export interface EPBWorkflowStep {
+  key: EPBWorkflowState;
+  label: string;
+  /** Button text for moving a shell into this step */
+  actionLabel: string;
+  /** getEPBMilestones `daysBefore` the shell must leave this step by; null when done */
+  dueDaysBefore: number | null;
+  /** Who works the shell while it sits in this step */
+  roles: readonly EPBWorkflowRole[];
+}
+
+const RATEE_AND_SUPERVISOR: readonly EPBWorkflowRole[] = ["ratee", "supervisor"];
+const SUPERVISOR_ONLY: readonly EPBWorkflowRole[] = ["supervisor"];
+
+/**
+ * Drafting and ratee review both finish by the draft-to-supervisor milestone;
+ * the rater hands off by the Flight Chief date, the additional rater clears the
+ * SMSgt/CMSgt reviews by the Chief date, and the senior rater finalizes by SCOD.
+ */
+export const EPB_WORKFLOW_STEPS: readonly EPBWorkflowStep[] = [
+  {
+    key: "drafting",
+    label: "Drafting",
+    actionLabel: "Start drafting",
+    dueDaysBefore: 60,
+    roles: RATEE_AND_SUPERVISOR,
+  },
+  {
+    key: "ratee_review",
+    label: "Ratee review",
+    actionLabel: "Send to ratee",
+    dueDaysBefore: 60,
+    roles: RATEE_AND_SUPERVISOR,
+  },
+  { key: "rater", label: "Rater", actionLabel: "Send to rater", dueDaysBefore: 40, roles: SUPERVISOR_ONLY },
+  {
+    key: "additional_rater",
+    label: "Additional rater",
+    actionLabel: "Send to additional rater",
+    dueDaysBefore: 20,
+    roles: SUPERVISOR_ONLY,
+  },
+  {
+    key: "senior_rater",
+    label: "Senior rater",
+    actionLabel: "Send to senior rater",
+    dueDaysBefore: 0,
+    roles: SUPERVISOR_ONLY,
+  },
+  {
+    key: "finalized",
+    label: "Finalized",
+    actionLabel: "Mark finalized",
+    dueDaysBefore: null,
+    roles: SUPERVISOR_ONLY,
+  },
+];
+
+export interface EPBWorkflowSuspense {
+  dueDate: Date;
+  daysFromNow: number;
+  isOverdue: boolean;
+  /** The milestone the due date comes from, e.g. "EPB due to MSgt/Flight Chief" */
+  milestoneLabel: string;
+}
+
+export function isEPBWorkflowState(value: unknown): value is EPBWorkflowState {
+  return EPB_WORKFLOW_STEPS.some((step) => step.key === value);
+}
+
+export function getEPBWorkflowStep(state: EPBWorkflowState): EPBWorkflowStep {
+  return EPB_WORKFLOW_STEPS.find((step) => step.key === state) ?? EPB_WORKFLOW_STEPS[0];
+}
+
+function stepIndex(state: EPBWorkflowState): number {
+  return EPB_WORKFLOW_STEPS.findIndex((step) => step.key === state);
+}
+
+export function getNextEPBWorkflowState(state: EPBWorkflowState): EPBWorkflowState | null {
+  return EPB_WORKFLOW_STEPS[stepIndex(state) + 1]?.key ?? null;
+}
+
+/** Earlier steps a shell can be returned to, nearest first. */
+export function getEPBWorkflowReturnStates(state: EPBWorkflowState): EPBWorkflowState[] {
+  return EPB_WORKFLOW_STEPS.slice(0, Math.max(0, stepIndex(state)))
+    .map((step) => step.key)
+    .reverse();
+}
+
+/** Ratees route only their own shells; managed members have no account to route with */
+export function getEPBWorkflowRole(
+  shell: { user_id: string; team_member_id: string | null },
+  userId: string
+): EPBWorkflowRole {
+  return shell.team_member_id === null && shell.user_id === userId ? "ratee" : "supervisor";
+}
+
+export function canTransitionEPBWorkflow(
+  from: EPBWorkflowState,
+  to: EPBWorkflowState,
+  role: EPBWorkflowRole
+): boolean {
+  const isStep = to === getNextEPBWorkflowState(from) || getEPBWorkflowReturnStates(from).includes(to);
+  return (
+    isStep && getEPBWorkflowStep(from).roles.includes(role) && getEPBWorkflowStep(to).roles.includes(role)
+  );
+}
+
+/**
+ * Suspense for the step the shell is in. Null once finalized, or when the
+ * ratee has no SCOD (no rank and no custom period).
+ */
+export function getEPBWorkflowSuspense(
+  state: EPBWorkflowState,
+  rank: Rank | null,
+  override?: CyclePeriodOverride | null
+): EPBWorkflowSuspense | null {
+  const { dueDaysBefore } = getEPBWorkflowStep(state);
+  if (dueDaysBefore === null) return null;
+
+  const milestone = getEPBMilestones(rank, override)?.find((m) => m.daysBefore === dueDaysBefore);
+  if (!milestone) return null;
+
+  return {
+    dueDate: milestone.date,
+    daysFromNow: milestone.daysFromNow,
+    isOverdue: milestone.isPast,
+    milestoneLabel: milestone.label,
+  };
+}
+
+/** "Due today", "Due in 5 days", "3 days overdue" */
+export function formatEPBWorkflowDue(suspense: Pick<EPBWorkflowSuspense, "daysFromNow">): string {
+  const days = suspense.daysFromNow;
+  if (days < 0) return `${Math.abs(days)} day${days === -1 ? "" : "s"} overdue`;
+  if (days === 0) return "Due today";
+  return `Due in ${days} day${days === 1 ? "" : "s"}`;
+}
@@ -1,4 +1,5 @@
 import { ENTRY_MGAS } from "@/lib/constants";
+import type { StewardshipImpact } from "@/types/database";
 
 export const MAX_EXTRACTED_ACCOMPLISHMENTS = 40;
 
@@ -35,6 +36,11 @@ export interface BulkAccomplishmentDraft {
   cycle_year: number;
   included: boolean;
   selectedForCombine: boolean;
+  /** Spreadsheet imports only; LLM extraction leaves these unset. */
+  tags?: string[];
+  stewardship_impact?: StewardshipImpact;
+  /** Sensitive-data scan summary for rows that were flagged on import. */
+  sensitiveWarning?: string;
 }
 
 function asTrimmedString(value: unknown, maxLen = 2000): string {
@@ -2,10 +2,12 @@ import {
   ACA_RUBRIC_JUNIOR,
   ACA_RUBRIC_SENIOR,
   getRubricTierForRank,
+  type ACARubricTier,
 } from "@/lib/constants";
 import type { FeedbackType, Rank } from "@/types/database";
 
-type RubricCategory = {
+export type RubricCategory = {
+  key: string;
   title: string;
   focus: string;
   subcategories: Record<
@@ -14,20 +16,28 @@ type RubricCategory = {
   >;
 };
 
-function getRubricForRank(rateeRank: Rank | string | null): {
+export type FeedbackRubric = {
+  tier: ACARubricTier;
   formLabel: string;
   categories: RubricCategory[];
   knowingYourAirmanSection: string;
-} {
-  const tier = getRubricTierForRank(rateeRank as Rank);
+};
+
+/** The ACA form the ratee's grade uses (junior rubric when the grade has none). */
+export function getRubricForRank(rateeRank: Rank | string | null): FeedbackRubric {
+  const tier = getRubricTierForRank(rateeRank as Rank) ?? "junior";
   const rubric = tier === "senior" ? ACA_RUBRIC_SENIOR : ACA_RUBRIC_JUNIOR;
   const formLabel = tier === "senior" ? "AF Form 932" : "AF Form 931";
   // AF Form 931: Section IX; AF Form 932: Section VIII (AFI 36-2406)
   const knowingYourAirmanSection =
     tier === "senior" ? "Section VIII" : "Section IX";
   return {
+    tier,
     formLabel,
-    categories: Object.values(rubric) as RubricCategory[],
+    categories: Object.entries(rubric).map(([key, category]) => ({
+      key,
+      ...(category as Omit<RubricCategory, "key">),
+    })),
     knowingYourAirmanSection,
   };
 }
@@ -1,4 +1,4 @@
-export type FeedbackShellType = "epb" | "award" | "decoration";
+export type FeedbackShellType = "epb" | "opb" | "award" | "decoration";
 
 export interface FeedbackSessionSummary {
   id: string;
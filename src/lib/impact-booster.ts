@@ -1,5 +1,6 @@
 /**
- * Impact Booster — helpers for EPB MPA impact Q&A persistence and LLM context.
+ * Impact Booster — helpers for impact Q&A persistence and LLM context on EPB
+ * and OPB MPA sections and AF 1206 award slots.
  *
  * Answers live on the section only. Never copy with statement text between MPAs.
  */
@@ -36,6 +37,15 @@ Level of impact matters: work center → flight → squadron → group/wing →
 Prefer AF vernacular in questions (man-hours, cost avoidance, FMC, readiness, sortie, inspection) over civilian "office efficiency" language.
 `.trim();
 
+/** Fresh Impact Booster prompts from the latest generate (session UI state) */
+export interface ImpactBoosterPrompt {
+  question: string;
+  category: string;
+  hint?: string;
+  lever?: ImpactLever;
+  sentenceNumber?: 1 | 2;
+}
+
 /** Fallback prompts when generate didn't return tailored questions (e.g. after Revise). */
 export const DEFAULT_IMPACT_BOOSTER_PROMPTS: Array<{
   question: string;
@@ -124,6 +134,33 @@ function normalizeAnswer(raw: unknown): ImpactBoosterAnswer | null {
   };
 }
 
+/**
+ * Map the clarifyingQuestions array from a generate response into booster prompts.
+ * Drops malformed entries; an empty result means the caller should fall back to
+ * DEFAULT_IMPACT_BOOSTER_PROMPTS.
+ */
+export function parseImpactBoosterPrompts(raw: unknown): ImpactBoosterPrompt[] {
+  if (!Array.isArray(raw)) return [];
+  const prompts: ImpactBoosterPrompt[] = [];
+  for (const item of raw) {
+    if (!item || typeof item !== "object") continue;
+    const obj = item as Record<string, unknown>;
+    const question = typeof obj.question === "string" ? obj.question.trim() : "";
+    if (!question) continue;
+    const hint = typeof obj.hint === "string" && obj.hint.trim() ? obj.hint.trim() : undefined;
+    const sentenceNumber = normalizeSentenceNumber(obj.sentenceNumber);
+    prompts.push({
+      question,
+      category:
+        typeof obj.category === "string" && obj.category.trim() ? obj.category.trim() : "general",
+      ...(hint ? { hint } : {}),
+      ...(isImpactLever(obj.lever) ? { lever: obj.lever } : {}),
+      ...(sentenceNumber ? { sentenceNumber } : {}),
+    });
+  }
+  return prompts;
+}
+
 function normalizeSentenceFreeform(
   raw: unknown
 ): ImpactBoosterState["sentenceFreeform"] | undefined {
@@ -13,6 +13,11 @@ import { createXai } from "@ai-sdk/xai";
 import type { LanguageModel } from "ai";
 import type { DecryptedApiKeys } from "@/app/actions/api-keys";
 import { remapRetiredModelId } from "@/lib/constants";
+import {
+  isLocalModelId,
+  resolveLocalEndpoint,
+  stripLocalModelPrefix,
+} from "@/lib/ai-models/local-endpoint";
 import {
   wrapModelWithUsageTracking,
   type TokenTrackingContext,
@@ -21,13 +26,16 @@ import {
 /**
  * Supported LLM provider identifiers.
  */
-export type LLMProvider = "openai" | "anthropic" | "google" | "xai";
+export type LLMProvider = "openai" | "anthropic" | "google" | "xai" | "local";
 
 /**
  * Detects the provider from a model ID string.
  * Uses prefix/substring matching that covers all known model ID patterns.
+ * Local endpoint models carry an explicit `local:` prefix and are checked
+ * first, since their names often contain hosted-model substrings.
  */
 export function detectProvider(modelId: string): LLMProvider {
+  if (isLocalModelId(modelId)) return "local";
   if (modelId.includes("claude")) return "anthropic";
   if (modelId.includes("gemini")) return "google";
   if (modelId.includes("grok")) return "xai";
@@ -44,6 +52,7 @@ export function getProviderDisplayName(provider: LLMProvider): string {
     anthropic: "Anthropic",
     google: "Google AI",
     xai: "xAI",
+    local: "Local endpoint",
   };
   return names[provider];
 }
@@ -57,11 +66,12 @@ export function getProviderKeyName(provider: LLMProvider): keyof DecryptedApiKey
     anthropic: "anthropic_key",
     google: "google_key",
     xai: "grok_key",
+    local: "local_key",
   };
   return keyMap[provider];
 }
 
-const ENV_KEY_MAP: Record<LLMProvider, string> = {
+const ENV_KEY_MAP: Record<Exclude<LLMProvider, "local">, string> = {
   openai: "OPENAI_API_KEY",
   anthropic: "ANTHROPIC_API_KEY",
   google: "GOOGLE_GENERATIVE_AI_API_KEY",
@@ -73,7 +83,7 @@ const ENV_KEY_MAP: Record<LLMProvider, string> = {
  * Returns null if no key is available (instead of empty string).
  */
 function resolveApiKey(
-  provider: LLMProvider,
+  provider: Exclude<LLMProvider, "local">,
   userKeys: Partial<DecryptedApiKeys> | null,
 ): string | null {
   const keyName = getProviderKeyName(provider);
@@ -91,12 +101,18 @@ function resolveApiKey(
  * Checks whether the app's default (environment) API key will be used
  * for a given model+user combination. Returns true when the user has
  * no personal key for the model's provider.
+ *
+ * Local endpoint models are self-hosted, so like BYOK they never consume
+ * credits — as long as some endpoint (the user's or the admin's) is set.
  */
 export function isUsingDefaultKey(
   modelId: string,
   userKeys: Partial<DecryptedApiKeys> | null,
 ): boolean {
   const provider = detectProvider(modelId);
+  if (provider === "local") {
+    return !resolveLocalEndpoint(userKeys?.local_base_url, userKeys?.local_key);
+  }
   const keyName = getProviderKeyName(provider);
   const userKey = userKeys?.[keyName];
   return !userKey || userKey.trim().length === 0;
@@ -113,7 +129,9 @@ export class MissingApiKeyError extends Error {
   constructor(provider: LLMProvider) {
     const displayName = getProviderDisplayName(provider);
     super(
-      `No ${displayName} API key configured. Add one in Settings → API Keys to use ${displayName} models.`
+      provider === "local"
+        ? "No local model endpoint configured. Add one in Settings → API Keys to use local models."
+        : `No ${displayName} API key configured. Add one in Settings → API Keys to use ${displayName} models.`
     );
     this.name = "MissingApiKeyError";
     this.provider = provider;
@@ -139,13 +157,29 @@ export function getModelProvider(
 ): LanguageModel {
   modelId = remapRetiredModelId(modelId);
   const provider = detectProvider(modelId);
+
+  let model: LanguageModel;
+  if (provider === "local") {
+    const endpoint = resolveLocalEndpoint(userKeys?.local_base_url, userKeys?.local_key);
+    if (!endpoint) {
+      throw new MissingApiKeyError(provider);
+    }
+    // Local servers implement Chat Completions, not the Responses API
+    const local = createOpenAI({
+      name: "local",
+      baseURL: endpoint.baseUrl,
+      apiKey: endpoint.apiKey ?? "not-required",
+    });
+    model = local.chat(stripLocalModelPrefix(modelId));
+    return tracking ? wrapModelWithUsageTracking(model, tracking, modelId, provider) : model;
+  }
+
   const apiKey = resolveApiKey(provider, userKeys);
 
   if (!apiKey) {
     throw new MissingApiKeyError(provider);
   }
 
-  let model: LanguageModel;
   switch (provider) {
     case "anthropic": {
       const anthropic = createAnthropic({ apiKey });
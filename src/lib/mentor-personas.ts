@@ -0,0 +1,111 @@
+/**
+ * Mentor style personas: what a mentor's accepted review-link feedback says
+ * about how they write. Only feedback the mentee ACCEPTED counts — full
+ * rewrites, replace/delete edits and the comments explaining them. The
+ * server-side fingerprinting lives in style-signatures.ts.
+ */
+
+/** Fewer accepted pieces of feedback than this is not enough to fingerprint. */
+export const MIN_MENTOR_PERSONA_SOURCES = 3;
+
+/** Cap on feedback sent to the model; newest first. */
+export const MAX_MENTOR_PERSONA_SOURCES = 40;
+
+const MAX_SOURCE_CHARS = 600;
+
+/** feedback_comments columns the persona reads. */
+export interface MentorPersonaComment {
+  id: string;
+  status: string;
+  original_text: string | null;
+  highlighted_text: string | null;
+  comment_text: string | null;
+  suggestion_type: string | null;
+  replacement_text: string | null;
+  is_full_rewrite: boolean | null;
+  rewrite_text: string | null;
+  created_at?: string;
+}
+
+export type MentorPersonaSource =
+  | { id: string; kind: "rewrite"; before: string; after: string; note: string }
+  | { id: string; kind: "replace"; before: string; after: string; note: string }
+  | { id: string; kind: "cut"; before: string; note: string }
+  | { id: string; kind: "comment"; note: string };
+
+function clip(value: string | null | undefined): string {
+  const text = (value ?? "").replace(/\s+/g, " ").trim();
+  return text.length > MAX_SOURCE_CHARS ? `${text.slice(0, MAX_SOURCE_CHARS - 3)}...` : text;
+}
+
+function toSource(comment: MentorPersonaComment): MentorPersonaSource | null {
+  const note = clip(comment.comment_text);
+
+  if (comment.is_full_rewrite) {
+    const after = clip(comment.rewrite_text);
+    if (after) return { id: comment.id, kind: "rewrite", before: clip(comment.original_text), after, note };
+  }
+  if (comment.suggestion_type === "replace") {
+    const after = clip(comment.replacement_text);
+    if (after) return { id: comment.id, kind: "replace", before: clip(comment.highlighted_text), after, note };
+  }
+  if (comment.suggestion_type === "delete") {
+    const before = clip(comment.highlighted_text);
+    if (before) return { id: comment.id, kind: "cut", before, note };
+  }
+  return note ? { id: comment.id, kind: "comment", note } : null;
+}
+
+/**
+ * Accepted feedback the mentee kept, newest first and capped. Pending and
+ * dismissed comments never shape a persona.
+ */
+export function collectMentorPersonaSources(comments: MentorPersonaComment[]): MentorPersonaSource[] {
+  return [...comments]
+    .filter((comment) => comment.status === "accepted")
+    .sort((a, b) => (b.created_at ?? "").localeCompare(a.created_at ?? ""))
+    .map(toSource)
+    .filter((source): source is MentorPersonaSource => !!source)
+    .slice(0, MAX_MENTOR_PERSONA_SOURCES);
+}
+
+function describeSource(source: MentorPersonaSource, index: number): string {
+  const lines = [`${index + 1}.`];
+  switch (source.kind) {
+    case "rewrite":
+      if (source.before) lines.push(`   Before: ${source.before}`);
+      lines.push(`   Mentor rewrite: ${source.after}`);
+      break;
+    case "replace":
+      lines.push(`   Replaced: ${source.before || "(selection)"}`);
+      lines.push(`   With: ${source.after}`);
+      break;
+    case "cut":
+      lines.push(`   Cut: ${source.before}`);
+      break;
+    case "comment":
+      break;
+  }
+  if (source.note) lines.push(`   Mentor comment: ${source.note}`);
+  return lines.join("\n");
+}
+
+/** User prompt for the persona fingerprint call. */
+export function buildMentorPersonaPrompt(sources: MentorPersonaSource[]): string {
+  return `Analyze how this mentor edits Air Force performance statements. These are ${sources.length} pieces of feedback the writers accepted:\n\n${sources
+    .map(describeSource)
+    .join("\n\n")}`;
+}
+
+/** System prompt section for generation with a mentor persona. */
+export function buildMentorPersonaPromptSection(displayName: string, signatureText: string): string {
+  if (!signatureText) return "";
+  return [
+    "=== MENTOR WRITING STYLE ===",
+    `Write the way ${displayName} edits statements. This fingerprint was built from rewrites and comments the writer accepted from this mentor.`,
+    "Do NOT copy content from this description - only match the STYLE.",
+    "",
+    signatureText,
+  ].join("\n");
+}
+
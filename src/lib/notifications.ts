@@ -0,0 +1,75 @@
+import type { AppNotification, NotificationType } from "@/types/database";
+
+/** Newest notifications kept in the bell menu. */
+export const NOTIFICATION_FEED_LIMIT = 30;
+
+export const NOTIFICATION_TYPES: {
+  value: NotificationType;
+  label: string;
+  description: string;
+}[] = [
+  {
+    value: "team_request",
+    label: "Supervision requests",
+    description: "Someone asks to supervise you or to be supervised by you.",
+  },
+  {
+    value: "managed_link",
+    label: "Account links",
+    description: "A supervisor who tracked your entries asks you to link your account.",
+  },
+  {
+    value: "prior_data_review",
+    label: "Prior supervisor records",
+    description: "A former supervisor has entries and statements for you to review.",
+  },
+  {
+    value: "award_request",
+    label: "Award requests",
+    description: "A subordinate requests an award that needs your approval.",
+  },
+  {
+    value: "shell_share",
+    label: "Shared packages",
+    description: "Someone shares an EPB, OPB, award or decoration with you.",
+  },
+  {
+    value: "review_feedback",
+    label: "Review link feedback",
+    description: "A mentor submits feedback through one of your review links.",
+  },
+  {
+    value: "supervisor_feedback",
+    label: "Supervisor feedback",
+    description: "Your supervisor shares initial, midterm or final feedback.",
+  },
+];
+
+export function countUnread(notifications: Pick<AppNotification, "read_at">[]): number {
+  return notifications.filter((n) => n.read_at === null).length;
+}
+
+/** Next muted list after flipping one type; keeps NOTIFICATION_TYPES order. */
+export function setNotificationTypeMuted(
+  muted: NotificationType[],
+  type: NotificationType,
+  isMuted: boolean
+): NotificationType[] {
+  const next = new Set(muted);
+  if (isMuted) next.add(type);
+  else next.delete(type);
+  return NOTIFICATION_TYPES.map((t) => t.value).filter((value) => next.has(value));
+}
+
+/** "Just now", "5m", "3h", "2d", then the date ("12 Mar"). */
+export function formatNotificationAge(createdAt: string, now: Date = new Date()): string {
+  const created = new Date(createdAt);
+  const minutes = Math.floor((now.getTime() - created.getTime()) / 60_000);
+  if (minutes < 1) return "Just now";
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h`;
+  const days = Math.floor(hours / 24);
+  if (days < 7) return `${days}d`;
+  return created.toLocaleDateString("en-GB", { day: "numeric", month: "short" });
+}
@@ -0,0 +1,91 @@
+import type { OPBShell } from "@/types/database";
+import type { createClient } from "@/lib/supabase/client";
+
+type BrowserSupabaseClient = ReturnType<typeof createClient>;
+
+export type OpbShellCreateRatee = {
+  id: string;
+  isManagedMember: boolean;
+};
+
+export type CreateOpbShellResult =
+  | { status: "created"; shell: OPBShell }
+  | { status: "loaded_existing"; shell: OPBShell };
+
+export type CreateOpbShellInput = {
+  ratee: OpbShellCreateRatee;
+  profileId: string;
+  cycleYear: number;
+};
+
+const SHELL_WITH_SECTIONS = `*, sections:opb_shell_sections(*)`;
+
+// opb_shells.team_member_id is newer than the generated Supabase types
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+const opbShells = (supabase: BrowserSupabaseClient) => supabase.from("opb_shells") as any;
+
+export async function fetchActiveOpbShell(
+  supabase: BrowserSupabaseClient,
+  ratee: OpbShellCreateRatee,
+  cycleYear: number,
+  signal?: AbortSignal
+): Promise<OPBShell | null> {
+  let query = opbShells(supabase)
+    .select(SHELL_WITH_SECTIONS)
+    .eq("cycle_year", cycleYear)
+    .eq("status", "active");
+
+  if (ratee.isManagedMember) {
+    query = query.eq("team_member_id", ratee.id);
+  } else {
+    query = query.eq("user_id", ratee.id).is("team_member_id", null);
+  }
+
+  if (signal) query = query.abortSignal(signal);
+
+  const { data, error } = await query.maybeSingle();
+  if (error) throw error;
+  return (data as OPBShell | null) ?? null;
+}
+
+/**
+ * Opens the ratee's active OPB for the cycle, creating it when missing.
+ * Managed members are owned by the creating supervisor (user_id) and keyed by
+ * team_member_id, the same as EPB shells.
+ */
+export async function createOpbShell(
+  supabase: BrowserSupabaseClient,
+  input: CreateOpbShellInput
+): Promise<CreateOpbShellResult> {
+  const { ratee, profileId, cycleYear } = input;
+
+  const existing = await fetchActiveOpbShell(supabase, ratee, cycleYear);
+  if (existing) {
+    return { status: "loaded_existing", shell: existing };
+  }
+
+  const insertData: {
+    user_id: string;
+    team_member_id?: string;
+    created_by: string;
+    cycle_year: number;
+  } = {
+    user_id: ratee.isManagedMember ? profileId : ratee.id,
+    created_by: profileId,
+    cycle_year: cycleYear,
+  };
+
+  if (ratee.isManagedMember) {
+    insertData.team_member_id = ratee.id;
+  }
+
+  const { data, error } = await opbShells(supabase)
+    .insert(insertData)
+    .select(SHELL_WITH_SECTIONS)
+    .single();
+
+  if (error) throw error;
+  if (!data) throw new Error("No shell returned from insert");
+
+  return { status: "created", shell: data as OPBShell };
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import { toWinAnsiText, wrapTextToWidth } from "../form-writer";
+
+// One unit per character keeps the expected breaks easy to read
+const measure = (value: string) => value.length;
+
+describe("toWinAnsiText", () => {
+  it("maps 1206 optimization spaces and non-breaking hyphens to printable characters", () => {
+    expect(toWinAnsiText("Led team of 5 tri‑service")).toBe(
+      "Led team of 5 tri-service"
+    );
+  });
+
+  it("keeps Latin-1 and WinAnsi punctuation", () => {
+    expect(toWinAnsiText("café — “quoted” • 50%")).toBe("café — “quoted” • 50%");
+  });
+
+  it("replaces characters the standard fonts cannot encode", () => {
+    expect(toWinAnsiText("ok ✓ 日本")).toBe("ok ? ??");
+  });
+});
+
+describe("wrapTextToWidth", () => {
+  it("breaks between words without exceeding the width", () => {
+    const lines = wrapTextToWidth("alpha beta gamma delta", measure, 11);
+    expect(lines).toEqual(["alpha beta", "gamma delta"]);
+    expect(lines.every((line) => line.length <= 11)).toBe(true);
+  });
+
+  it("honors explicit newlines and keeps blank lines", () => {
+    expect(wrapTextToWidth("one\n\ntwo", measure, 20)).toEqual(["one", "", "two"]);
+  });
+
+  it("hard-breaks a single word longer than the line", () => {
+    expect(wrapTextToWidth("abcdefghij", measure, 4)).toEqual(["abcd", "efgh", "ij"]);
+  });
+});
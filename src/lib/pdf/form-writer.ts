@@ -0,0 +1,388 @@
+/**
+ * Shared PDF layout helpers for print-ready form exports (EPB, 1206, citations).
+ *
+ * Exports use the PDF standard 14 fonts so nothing has to be embedded or
+ * downloaded at request time. Those fonts only cover WinAnsi, so all text goes
+ * through `toWinAnsiText` before it is measured or drawn.
+ */
+
+import {
+  PDFDocument,
+  StandardFonts,
+  rgb,
+  type PDFFont,
+  type PDFPage,
+} from "pdf-lib";
+
+/** US Letter in PDF points (72 pt per inch). */
+export const LETTER_PAGE = { width: 612, height: 792 } as const;
+
+/** Width models in bullet-fitting.ts are 96 DPI pixels; PDF space is 72 DPI. */
+export const PX_TO_PT = 72 / 96;
+
+export type FormFontFamily = "times" | "courier" | "helvetica";
+
+const FONT_FAMILIES: Record<FormFontFamily, { regular: StandardFonts; bold: StandardFonts }> = {
+  times: { regular: StandardFonts.TimesRoman, bold: StandardFonts.TimesRomanBold },
+  courier: { regular: StandardFonts.Courier, bold: StandardFonts.CourierBold },
+  helvetica: { regular: StandardFonts.Helvetica, bold: StandardFonts.HelveticaBold },
+};
+
+// Characters outside Latin-1 that WinAnsi still encodes (0x80–0x9F block).
+const WIN_ANSI_EXTRAS = new Set(
+  "€‚ƒ„…†‡ˆ‰Š‹ŒŽ‘’“”•–—˜™š›œžŸ".split("")
+);
+
+// Display-only characters the editors insert; map them back to printable ones.
+const CHARACTER_REPLACEMENTS: Record<string, string> = {
+  "\u2004": " ", // medium space (1206 expansion)
+  "\u2006": " ", // six-per-em space (1206 compression)
+  "\u2009": " ", // thin space
+  "\u200b": "", // zero-width space
+  "\u2011": "-", // non-breaking hyphen
+  "\u2212": "-", // minus sign
+  "\u00a0": " ",
+  "\t": " ",
+};
+
+/** Map text onto the WinAnsi character set the standard fonts can encode. */
+export function toWinAnsiText(text: string): string {
+  let out = "";
+  for (const char of text) {
+    if (char in CHARACTER_REPLACEMENTS) {
+      out += CHARACTER_REPLACEMENTS[char];
+      continue;
+    }
+    const code = char.codePointAt(0) ?? 0;
+    if ((code >= 0x20 && code <= 0x7e) || (code >= 0xa0 && code <= 0xff) || WIN_ANSI_EXTRAS.has(char)) {
+      out += char;
+    } else if (char === "\n" || char === "\r") {
+      out += char;
+    } else {
+      out += "?";
+    }
+  }
+  return out;
+}
+
+/**
+ * Greedy word wrap against an arbitrary width function. Explicit newlines
+ * start a new line; a single word wider than the line is hard-broken.
+ */
+export function wrapTextToWidth(
+  text: string,
+  measure: (value: string) => number,
+  maxWidth: number,
+): string[] {
+  const lines: string[] = [];
+
+  for (const paragraph of text.replace(/\r\n?/g, "\n").split("\n")) {
+    const words = paragraph.split(/ +/).filter(Boolean);
+    if (words.length === 0) {
+      lines.push("");
+      continue;
+    }
+
+    let current = "";
+    for (const word of words) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (measure(candidate) <= maxWidth) {
+        current = candidate;
+        continue;
+      }
+      if (current) lines.push(current);
+
+      // Hard-break words that cannot fit on a line by themselves
+      let remainder = word;
+      while (measure(remainder) > maxWidth && remainder.length > 1) {
+        let cut = remainder.length - 1;
+        while (cut > 1 && measure(remainder.slice(0, cut)) > maxWidth) cut--;
+        lines.push(remainder.slice(0, cut));
+        remainder = remainder.slice(cut);
+      }
+      current = remainder;
+    }
+    lines.push(current);
+  }
+
+  return lines;
+}
+
+export interface FormWriter {
+  doc: PDFDocument;
+  page: PDFPage;
+  regular: PDFFont;
+  bold: PDFFont;
+  /** Current baseline cursor, measured from the bottom of the page. */
+  y: number;
+  margin: number;
+  contentWidth: number;
+  /** Repeated at the top of every page after the first. */
+  runningHeader: string | null;
+}
+
+export interface CreateFormWriterOptions {
+  title: string;
+  subject?: string;
+  fontFamily?: FormFontFamily;
+  margin?: number;
+  runningHeader?: string | null;
+}
+
+export async function createFormWriter(options: CreateFormWriterOptions): Promise<FormWriter> {
+  const doc = await PDFDocument.create();
+  const family = FONT_FAMILIES[options.fontFamily ?? "times"];
+  const [regular, bold] = await Promise.all([
+    doc.embedFont(family.regular),
+    doc.embedFont(family.bold),
+  ]);
+
+  doc.setTitle(toWinAnsiText(options.title));
+  if (options.subject) doc.setSubject(toWinAnsiText(options.subject));
+  doc.setCreator("MyEPBuddy");
+  doc.setProducer("MyEPBuddy");
+
+  const margin = options.margin ?? 54;
+  const page = doc.addPage([LETTER_PAGE.width, LETTER_PAGE.height]);
+
+  return {
+    doc,
+    page,
+    regular,
+    bold,
+    y: LETTER_PAGE.height - margin,
+    margin,
+    contentWidth: LETTER_PAGE.width - margin * 2,
+    runningHeader: options.runningHeader ?? null,
+  };
+}
+
+export function addFormPage(writer: FormWriter): void {
+  writer.page = writer.doc.addPage([LETTER_PAGE.width, LETTER_PAGE.height]);
+  writer.y = LETTER_PAGE.height - writer.margin;
+
+  if (writer.runningHeader) {
+    writer.page.drawText(toWinAnsiText(writer.runningHeader), {
+      x: writer.margin,
+      y: writer.y,
+      size: 8,
+      font: writer.regular,
+      color: rgb(0.35, 0.35, 0.35),
+    });
+    writer.y -= 18;
+  }
+}
+
+/** Start a new page when fewer than `height` points remain above the bottom margin. */
+export function ensureSpace(writer: FormWriter, height: number): void {
+  if (writer.y - height < writer.margin) {
+    addFormPage(writer);
+  }
+}
+
+export function drawCenteredText(
+  writer: FormWriter,
+  text: string,
+  options: { size: number; bold?: boolean; gapAfter?: number },
+): void {
+  const font = options.bold ? writer.bold : writer.regular;
+  const value = toWinAnsiText(text);
+  ensureSpace(writer, options.size + 2);
+  const width = font.widthOfTextAtSize(value, options.size);
+  writer.page.drawText(value, {
+    x: (LETTER_PAGE.width - width) / 2,
+    y: writer.y - options.size,
+    size: options.size,
+    font,
+  });
+  writer.y -= options.size + (options.gapAfter ?? 4);
+}
+
+/** Shaded, ruled section bar like the block headings on AF forms. */
+export function drawSectionHeading(writer: FormWriter, label: string): void {
+  const height = 16;
+  ensureSpace(writer, height + 40);
+  writer.page.drawRectangle({
+    x: writer.margin,
+    y: writer.y - height,
+    width: writer.contentWidth,
+    height,
+    color: rgb(0.9, 0.9, 0.9),
+    borderColor: rgb(0, 0, 0),
+    borderWidth: 0.75,
+  });
+  writer.page.drawText(toWinAnsiText(label.toUpperCase()), {
+    x: writer.margin + 4,
+    y: writer.y - height + 4.5,
+    size: 9,
+    font: writer.bold,
+  });
+  writer.y -= height;
+}
+
+export interface FormField {
+  label: string;
+  value: string;
+  /** Share of the row width (all fields in a row should sum to 1). */
+  span: number;
+}
+
+/** One row of labeled boxes, e.g. "1. NAME | 2. GRADE | 3. DAFSC". */
+export function drawFieldRow(writer: FormWriter, fields: FormField[]): void {
+  const labelSize = 6.5;
+  const valueSize = 10;
+  const height = 26;
+  ensureSpace(writer, height);
+
+  let x = writer.margin;
+  for (const field of fields) {
+    const width = writer.contentWidth * field.span;
+    writer.page.drawRectangle({
+      x,
+      y: writer.y - height,
+      width,
+      height,
+      borderColor: rgb(0, 0, 0),
+      borderWidth: 0.75,
+    });
+    writer.page.drawText(toWinAnsiText(field.label.toUpperCase()), {
+      x: x + 3,
+      y: writer.y - labelSize - 2,
+      size: labelSize,
+      font: writer.regular,
+    });
+
+    const value = fitToWidth(toWinAnsiText(field.value.replace(/\s+/g, " ")), writer.regular, valueSize, width - 6);
+    writer.page.drawText(value, {
+      x: x + 3,
+      y: writer.y - height + 5,
+      size: valueSize,
+      font: writer.regular,
+    });
+    x += width;
+  }
+  writer.y -= height;
+}
+
+export interface ParagraphOptions {
+  size?: number;
+  lineHeight?: number;
+  bold?: boolean;
+  /** Draw a bordered box around the paragraph (continues across pages). */
+  boxed?: boolean;
+  padding?: number;
+  /** Text shown when `text` is blank. */
+  placeholder?: string;
+}
+
+/** Wrapped body text; returns the number of lines drawn. */
+export function drawParagraph(
+  writer: FormWriter,
+  text: string,
+  options: ParagraphOptions = {},
+): number {
+  const size = options.size ?? 11;
+  const lineHeight = options.lineHeight ?? size * 1.25;
+  const padding = options.boxed ? (options.padding ?? 5) : 0;
+  const font = options.bold ? writer.bold : writer.regular;
+  const blank = !text.trim();
+  const value = toWinAnsiText(blank ? (options.placeholder ?? "") : text.trim());
+  const lines = wrapTextToWidth(
+    value,
+    (candidate) => font.widthOfTextAtSize(candidate, size),
+    writer.contentWidth - padding * 2,
+  );
+
+  let boxTop = writer.y;
+  const closeBox = (bottom: number) => {
+    if (!options.boxed) return;
+    writer.page.drawRectangle({
+      x: writer.margin,
+      y: bottom,
+      width: writer.contentWidth,
+      height: boxTop - bottom,
+      borderColor: rgb(0, 0, 0),
+      borderWidth: 0.75,
+    });
+  };
+
+  writer.y -= padding;
+  for (const line of lines) {
+    if (writer.y - lineHeight < writer.margin) {
+      closeBox(writer.y);
+      addFormPage(writer);
+      boxTop = writer.y;
+      writer.y -= padding;
+    }
+    writer.page.drawText(line, {
+      x: writer.margin + padding,
+      y: writer.y - size,
+      size,
+      font,
+      color: blank ? rgb(0.45, 0.45, 0.45) : rgb(0, 0, 0),
+    });
+    writer.y -= lineHeight;
+  }
+  writer.y -= padding;
+  closeBox(writer.y);
+
+  return lines.length;
+}
+
+/** Small right-aligned note under the previous block (character counts, fit status). */
+export function drawRightNote(writer: FormWriter, text: string, options: { warn?: boolean } = {}): void {
+  const size = 7.5;
+  const value = toWinAnsiText(text);
+  ensureSpace(writer, size + 4);
+  const width = writer.regular.widthOfTextAtSize(value, size);
+  writer.page.drawText(value, {
+    x: writer.margin + writer.contentWidth - width,
+    y: writer.y - size - 2,
+    size,
+    font: writer.regular,
+    color: options.warn ? rgb(0.75, 0.1, 0.1) : rgb(0.35, 0.35, 0.35),
+  });
+  writer.y -= size + 6;
+}
+
+export function addVerticalSpace(writer: FormWriter, points: number): void {
+  writer.y -= points;
+}
+
+/** Stamp "Page N of M" plus an optional disclaimer, then serialize. */
+export async function finalizeFormWriter(
+  writer: FormWriter,
+  footerNote?: string,
+): Promise<Uint8Array> {
+  const pages = writer.doc.getPages();
+  const size = 7;
+  pages.forEach((page, index) => {
+    const label = `Page ${index + 1} of ${pages.length}`;
+    const labelWidth = writer.regular.widthOfTextAtSize(label, size);
+    page.drawText(label, {
+      x: LETTER_PAGE.width - writer.margin - labelWidth,
+      y: writer.margin / 2,
+      size,
+      font: writer.regular,
+      color: rgb(0.35, 0.35, 0.35),
+    });
+    if (footerNote) {
+      page.drawText(toWinAnsiText(footerNote), {
+        x: writer.margin,
+        y: writer.margin / 2,
+        size,
+        font: writer.regular,
+        color: rgb(0.35, 0.35, 0.35),
+      });
+    }
+  });
+
+  return writer.doc.save();
+}
+
+function fitToWidth(value: string, font: PDFFont, size: number, maxWidth: number): string {
+  if (font.widthOfTextAtSize(value, size) <= maxWidth) return value;
+  let end = value.length;
+  while (end > 0 && font.widthOfTextAtSize(`${value.slice(0, end)}...`, size) > maxWidth) end--;
+  return `${value.slice(0, end)}...`;
+}
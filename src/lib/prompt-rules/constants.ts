@@ -12,8 +12,10 @@ export type PromptRuleContext = (typeof PROMPT_RULE_CONTEXTS)[number];
 
 export const MAX_RULES_PER_CONTEXT = 25;
 export const MAX_RULE_TEXT_LENGTH = 500;
+export const MAX_RULE_PACKS_PER_USER = 10;
+export const MAX_RULE_PACK_NAME_LENGTH = 80;
 
-const PROMPT_RULE_CONTEXT_LABELS: Record<PromptRuleContext, string> = {
+export const PROMPT_RULE_CONTEXT_LABELS: Record<PromptRuleContext, string> = {
   epb: "EPB Statements",
   award: "Awards",
   decoration: "Decorations",
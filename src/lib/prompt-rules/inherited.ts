@@ -0,0 +1,71 @@
+import type { InheritedPromptRule } from "@/types/database";
+
+/**
+ * Precedence, lowest to highest:
+ *   default prompt < the user's own rules < nearest supervisor's packs < … < most senior supervisor's packs
+ *
+ * Sections are appended in that order and each header tells the model that
+ * later rules win conflicts, so a wing-level house style can't be undone by a
+ * flight-level pack or an individual writer's rule.
+ */
+const ORGANIZATION_RULES_HEADER = `=== ORGANIZATION RULES (MANDATORY — OVERRIDE ALL CONFLICTS ABOVE, INCLUDING USER-DEFINED RULES) ===
+These rules are published by the user's chain of command. You MUST strictly follow every rule below. If two rules conflict, the later-numbered rule takes precedence.`;
+
+function normalizeRuleText(text: string): string {
+  return text.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/**
+ * Orders inherited rules nearest supervisor first, most senior last, keeping
+ * pack/rule order within each level. Later rules take precedence.
+ */
+export function orderInheritedRules(rules: InheritedPromptRule[]): InheritedPromptRule[] {
+  return rules
+    .map((rule, index) => ({ rule, index }))
+    .sort((a, b) => a.rule.depth - b.rule.depth || a.index - b.index)
+    .map(({ rule }) => rule);
+}
+
+/**
+ * Splits rules into the user and organization sections, dropping duplicates.
+ * A rule repeated at several levels is kept only at its highest-precedence
+ * position (the most senior pack that states it).
+ */
+export function mergePromptRules(
+  userRules: string[],
+  inheritedRules: InheritedPromptRule[],
+): { userRules: string[]; organizationRules: string[] } {
+  const ordered = orderInheritedRules(inheritedRules)
+    .map((rule) => rule.rule_text.trim())
+    .filter((text) => text.length > 0);
+
+  const seen = new Set<string>();
+  const organizationRules: string[] = [];
+  for (let i = ordered.length - 1; i >= 0; i--) {
+    const key = normalizeRuleText(ordered[i]);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    organizationRules.unshift(ordered[i]);
+  }
+
+  const ownRules: string[] = [];
+  for (const rule of userRules) {
+    const text = rule.trim();
+    const key = normalizeRuleText(text);
+    if (!text || seen.has(key)) continue;
+    seen.add(key);
+    ownRules.push(text);
+  }
+
+  return { userRules: ownRules, organizationRules };
+}
+
+export function buildOrganizationRulesSection(rules: string[]): string {
+  if (rules.length === 0) return "";
+
+  const numbered = rules
+    .map((rule, index) => `${index + 1}. ${rule.trim()}`)
+    .join("\n");
+
+  return `\n\n${ORGANIZATION_RULES_HEADER}\n${numbered}`;
+}
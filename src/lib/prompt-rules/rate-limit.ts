@@ -0,0 +1,27 @@
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+const MAX_MUTATIONS_PER_WINDOW = 30;
+
+type RateLimitRecord = { count: number; resetAt: number };
+
+// One budget per user across the rule, pack and pack-rule endpoints
+const mutationRateLimits = new Map<string, RateLimitRecord>();
+
+export function checkPromptRulesRateLimit(userId: string): boolean {
+  const now = Date.now();
+  const record = mutationRateLimits.get(userId);
+
+  if (!record || now > record.resetAt) {
+    mutationRateLimits.set(userId, {
+      count: 1,
+      resetAt: now + RATE_LIMIT_WINDOW_MS,
+    });
+    return true;
+  }
+
+  if (record.count >= MAX_MUTATIONS_PER_WINDOW) {
+    return false;
+  }
+
+  record.count += 1;
+  return true;
+}
@@ -1,7 +1,16 @@
 import { createClient } from "@/lib/supabase/server";
 import { isPromptRulesMode, type AppFeatureFlags } from "@/lib/feature-flags";
 import { getAppFeatureFlags } from "@/lib/feature-flags/server";
-import type { PromptRule, PromptRuleContext } from "@/types/database";
+import {
+  buildOrganizationRulesSection,
+  mergePromptRules,
+  orderInheritedRules,
+} from "@/lib/prompt-rules/inherited";
+import type {
+  InheritedPromptRule,
+  PromptRule,
+  PromptRuleContext,
+} from "@/types/database";
 
 const USER_RULES_HEADER = `=== USER-DEFINED RULES (MANDATORY — OVERRIDE CONFLICTS ABOVE) ===
 You MUST strictly follow every rule below. If any rule conflicts with earlier instructions in this prompt, the user's rule takes precedence and replaces that instruction.`;
@@ -67,14 +76,104 @@ export async function getActiveRulesForContext(
     .filter((text) => text.length > 0);
 }
 
-/** Fetch rules and append the mandatory override section to a base prompt. */
+interface PackRuleRow {
+  id: string;
+  rule_text: string;
+  pack: { id: string; name: string; owner_id: string };
+}
+
+/**
+ * Rules from packs published by anyone in the user's supervisor chain, ordered
+ * nearest supervisor first (see orderInheritedRules for precedence).
+ */
+export async function getInheritedRulesForContext(
+  userId: string,
+  context: PromptRuleContext,
+): Promise<InheritedPromptRule[]> {
+  const flags = await getAppFeatureFlags();
+  if (!flags.enablePromptRules) return [];
+
+  const supabase = await createClient();
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data: chain, error: chainError } = await (supabase.rpc as any)(
+    "get_supervisor_chain",
+    { subordinate_uuid: userId },
+  );
+  if (chainError) {
+    console.error("[prompt-rules] chain fetch error:", chainError.message);
+    return [];
+  }
+
+  const depthByOwner = new Map<string, number>();
+  for (const row of (chain ?? []) as { supervisor_id: string; depth: number }[]) {
+    const known = depthByOwner.get(row.supervisor_id);
+    if (known === undefined || row.depth < known) {
+      depthByOwner.set(row.supervisor_id, row.depth);
+    }
+  }
+  if (depthByOwner.size === 0) return [];
+  const ownerIds = [...depthByOwner.keys()];
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data, error } = await (supabase.from("prompt_rule_pack_rules") as any)
+    .select("id, rule_text, pack:prompt_rule_packs!inner(id, name, owner_id)")
+    .eq("context", context)
+    .eq("pack.is_published", true)
+    .in("pack.owner_id", ownerIds)
+    .order("sort_order", { ascending: true })
+    .order("created_at", { ascending: true });
+
+  if (error) {
+    console.error("[prompt-rules] pack fetch error:", error.message);
+    return [];
+  }
+
+  const rows = (data ?? []) as PackRuleRow[];
+  if (rows.length === 0) return [];
+
+  const { data: owners } = await supabase
+    .from("profiles")
+    .select("id, full_name, rank")
+    .in("id", ownerIds);
+  const ownerNames = new Map(
+    ((owners ?? []) as { id: string; full_name: string | null; rank: string | null }[]).map((p) => [
+      p.id,
+      [p.rank, p.full_name].filter(Boolean).join(" ") || "Your supervisor",
+    ]),
+  );
+
+  return orderInheritedRules(
+    rows.map((row) => ({
+      id: row.id,
+      rule_text: row.rule_text,
+      pack_id: row.pack.id,
+      pack_name: row.pack.name,
+      owner_id: row.pack.owner_id,
+      owner_name: ownerNames.get(row.pack.owner_id) ?? "Your supervisor",
+      depth: depthByOwner.get(row.pack.owner_id) ?? 1,
+    })),
+  );
+}
+
+/**
+ * Fetch the user's rules plus rules inherited from their chain of command and
+ * append both mandatory sections to a base prompt. Organization rules come
+ * last so they take precedence over the user's own.
+ */
 export async function appendUserRulesToPrompt(
   basePrompt: string,
   userId: string,
   context: PromptRuleContext,
 ): Promise<string> {
-  const rules = await getActiveRulesForContext(userId, context);
-  const section = buildUserRulesSection(rules);
+  const [ownRules, inheritedRules] = await Promise.all([
+    getActiveRulesForContext(userId, context),
+    getInheritedRulesForContext(userId, context),
+  ]);
+  const merged = mergePromptRules(ownRules, inheritedRules);
+  const section =
+    buildUserRulesSection(merged.userRules) +
+    buildOrganizationRulesSection(merged.organizationRules);
   if (!section) return basePrompt;
   return `${basePrompt}${section}`;
 }
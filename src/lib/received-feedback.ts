@@ -0,0 +1,29 @@
+/**
+ * Columns of a supervisor_feedbacks row a ratee may see once it's shared.
+ * session_settings (rater prep) and aca_worksheet (the rater's working copy of
+ * the ACA) stay with the supervisor, so every ratee-facing read selects this
+ * list instead of `*`.
+ */
+export const RECEIVED_FEEDBACK_COLUMNS = [
+  "id",
+  "supervisor_id",
+  "subordinate_id",
+  "team_member_id",
+  "feedback_type",
+  "cycle_year",
+  "content",
+  "reviewed_accomplishment_ids",
+  "status",
+  "shared_at",
+  "supervision_start_date",
+  "supervision_end_date",
+  "created_at",
+  "updated_at",
+] as const;
+
+/** Drops any column not in RECEIVED_FEEDBACK_COLUMNS */
+export function pickReceivedFeedbackColumns(row: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    RECEIVED_FEEDBACK_COLUMNS.filter((column) => column in row).map((column) => [column, row[column]]),
+  );
+}
@@ -1,4 +1,5 @@
 import type { CommentData } from "@/components/review/comment-card";
+import { OPB_MPA_DESCRIPTIONS } from "@/lib/constants";
 
 export interface ReviewSection {
   key: string;
@@ -91,6 +92,14 @@ export function loadReviewPageData(token: string): Promise<ReviewPageLoadResult>
             content: section.statement_text || "",
           });
         }
+      } else if (data.shellType === "opb" && data.sections) {
+        for (const section of data.sections) {
+          normalizedSections.push({
+            key: section.mpa,
+            label: OPB_MPA_DESCRIPTIONS[section.mpa as string]?.title || section.mpa,
+            content: section.statement_text || "",
+          });
+        }
       } else if (data.sections) {
         for (const section of data.sections) {
           normalizedSections.push({
@@ -0,0 +1,76 @@
+import { embedMany } from "ai";
+import { createAdminClient } from "@/lib/supabase/server";
+import {
+  MAX_EMBEDDED_CHARACTERS,
+  getSearchEmbeddingModel,
+  toVectorLiteral,
+} from "@/lib/search-embeddings";
+
+const BATCH_SIZE = 100;
+/** Caps one run's spend and duration; the next run picks up the rest */
+const MAX_BATCHES_PER_RUN = 20;
+
+type BacklogRow = {
+  source: string;
+  source_id: string;
+  body: string;
+  content_hash: string;
+};
+
+export type SearchEmbeddingRunResult = {
+  embedded: number;
+  pruned: number;
+  /** True when the run stopped at MAX_BATCHES_PER_RUN with rows still waiting */
+  hasMore: boolean;
+};
+
+/**
+ * Embeds rows that are new or whose text changed, and drops embeddings of
+ * deleted rows. Safe to overlap: writes are upserts keyed by row.
+ */
+export async function runSearchEmbeddings(): Promise<SearchEmbeddingRunResult> {
+  const model = getSearchEmbeddingModel();
+  if (!model) {
+    throw new Error("OPENAI_API_KEY is required to embed rows for workspace search");
+  }
+
+  const service = createAdminClient();
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const rpc = service.rpc as any;
+
+  const { data: pruned, error: pruneError } = await rpc("prune_search_embeddings");
+  if (pruneError) throw new Error(`prune_search_embeddings: ${pruneError.message}`);
+
+  let embedded = 0;
+  for (let batch = 0; batch < MAX_BATCHES_PER_RUN; batch++) {
+    const { data, error } = await rpc("get_search_embedding_backlog", { p_limit: BATCH_SIZE });
+    if (error) throw new Error(`get_search_embedding_backlog: ${error.message}`);
+
+    const rows = (data ?? []) as BacklogRow[];
+    if (rows.length === 0) return { embedded, pruned: pruned ?? 0, hasMore: false };
+
+    const { embeddings } = await embedMany({
+      model,
+      values: rows.map((row) => row.body.slice(0, MAX_EMBEDDED_CHARACTERS)),
+    });
+
+    const { error: upsertError } = await service
+      .from("search_embeddings" as never)
+      .upsert(
+        rows.map((row, i) => ({
+          source: row.source,
+          source_id: row.source_id,
+          content_hash: row.content_hash,
+          embedding: toVectorLiteral(embeddings[i]),
+          updated_at: new Date().toISOString(),
+        })) as never,
+        { onConflict: "source,source_id" },
+      );
+    if (upsertError) throw new Error(`search_embeddings: ${upsertError.message}`);
+
+    embedded += rows.length;
+    if (rows.length < BATCH_SIZE) return { embedded, pruned: pruned ?? 0, hasMore: false };
+  }
+
+  return { embedded, pruned: pruned ?? 0, hasMore: true };
+}
@@ -0,0 +1,52 @@
+/**
+ * Semantic half of workspace search. Every searchable row's text is embedded
+ * into `search_embeddings` by the search-embeddings cron, and each query is
+ * embedded here so `search_workspace` can match on meaning as well as words.
+ * Uses the app's OpenAI key; without one, search stays lexical.
+ */
+
+import { createOpenAI } from "@ai-sdk/openai";
+import { embed, type EmbeddingModel } from "ai";
+
+/** Must match the vector(1536) column in search_embeddings */
+export const SEARCH_EMBEDDING_MODEL = "text-embedding-3-small";
+export const SEARCH_EMBEDDING_DIMENSIONS = 1536;
+/** Longer bodies are cut before embedding; statements and citations never get close */
+export const MAX_EMBEDDED_CHARACTERS = 8000;
+/** A slow provider shouldn't hold up the palette; lexical results are still useful */
+const QUERY_EMBEDDING_TIMEOUT_MS = 2500;
+
+export function getSearchEmbeddingModel(): EmbeddingModel | null {
+  const apiKey = process.env.OPENAI_API_KEY?.trim();
+  if (!apiKey) return null;
+  return createOpenAI({ apiKey }).embedding(SEARCH_EMBEDDING_MODEL);
+}
+
+/** pgvector's text input format, e.g. `[0.1,-0.2]` */
+export function toVectorLiteral(embedding: number[]): string {
+  if (embedding.length !== SEARCH_EMBEDDING_DIMENSIONS) {
+    throw new Error(
+      `Expected a ${SEARCH_EMBEDDING_DIMENSIONS}-dimension embedding, got ${embedding.length}`,
+    );
+  }
+  return `[${embedding.join(",")}]`;
+}
+
+/** The query's embedding as a vector literal, or null to search lexically only. */
+export async function embedSearchQuery(query: string): Promise<string | null> {
+  const model = getSearchEmbeddingModel();
+  if (!model) return null;
+
+  try {
+    const { embedding } = await embed({
+      model,
+      value: query,
+      abortSignal: AbortSignal.timeout(QUERY_EMBEDDING_TIMEOUT_MS),
+      maxRetries: 0,
+    });
+    return toVectorLiteral(embedding);
+  } catch (error) {
+    console.error("[search] Query embedding failed:", error instanceof Error ? error.message : error);
+    return null;
+  }
+}
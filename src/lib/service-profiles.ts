@@ -0,0 +1,199 @@
+import {
+  CIVILIAN_RANK,
+  DEFAULT_MPA_DESCRIPTIONS,
+  ENLISTED_RANKS,
+  ENTRY_MGAS,
+  MAX_DUTY_DESCRIPTION_CHARACTERS,
+  MAX_HLR_CHARACTERS,
+  MAX_STATEMENT_CHARACTERS,
+  OFFICER_RANKS,
+  SPACE_FORCE_ENLISTED_RANKS,
+  SPACE_FORCE_ONLY_RANKS,
+  STANDARD_MGAS,
+  STATIC_CLOSEOUT_DATES,
+  type MPADescriptions,
+  type RankTier,
+} from "@/lib/constants";
+import { DECORATION_TYPES } from "@/features/decorations/constants";
+import type { DecorationConfig } from "@/features/decorations/types";
+import type { MajorGradedArea, Rank, ServiceBranch } from "@/types/database";
+
+// Service profiles — everything that differs between the Air Force and the
+// Space Force. Both are DAF services under DAFI 36-2406, so MPA keys and
+// evaluation tiers are shared; ranks, wording, competencies and medal names
+// are not. Air Force is the default for every existing user.
+
+export interface ServiceProfile {
+  key: ServiceBranch;
+  /** "Air Force" */
+  name: string;
+  /** "United States Air Force" */
+  fullName: string;
+  abbreviation: string;
+  /** "Airman" / "Guardian" */
+  memberNoun: string;
+  memberNounPlural: string;
+  /** Label for the career field code (AFSC / SFSC) */
+  specialtyCodeLabel: string;
+  enlistedRanks: { value: Rank; label: string }[];
+  officerRanks: { value: Rank; label: string }[];
+  ranks: { value: Rank; label: string }[];
+  /** SCOD close-out table by rank tier */
+  closeoutDates: Record<RankTier, { month: number; day: number; label: string }>;
+  entryMgas: MajorGradedArea[];
+  standardMgas: MajorGradedArea[];
+  mpaDescriptions: MPADescriptions;
+  limits: {
+    statement: number;
+    hlr: number;
+    dutyDescription: number;
+  };
+  decorations: DecorationConfig[];
+}
+
+export const DEFAULT_SERVICE: ServiceBranch = "usaf";
+
+// Guardian Ideal core values folded into the DAF MPAs as extra competencies
+const SPACE_FORCE_MPA_DESCRIPTIONS: MPADescriptions = {
+  ...DEFAULT_MPA_DESCRIPTIONS,
+  executing_mission: {
+    ...DEFAULT_MPA_DESCRIPTIONS.executing_mission,
+    sub_competencies: {
+      ...DEFAULT_MPA_DESCRIPTIONS.executing_mission.sub_competencies,
+      commitment: "Dedicates themselves to the mission, the team and the profession of space warfighting; sees tasks through to completion.",
+    },
+  },
+  leading_people: {
+    ...DEFAULT_MPA_DESCRIPTIONS.leading_people,
+    sub_competencies: {
+      ...DEFAULT_MPA_DESCRIPTIONS.leading_people.sub_competencies,
+      connection: "Builds trust and belonging across Guardians, Airmen, civilians, joint and commercial partners.",
+    },
+  },
+  managing_resources: {
+    ...DEFAULT_MPA_DESCRIPTIONS.managing_resources,
+    sub_competencies: {
+      ...DEFAULT_MPA_DESCRIPTIONS.managing_resources.sub_competencies,
+      character: "Acts with integrity and sound judgment when entrusted with people, funds and space capabilities.",
+    },
+  },
+  improving_unit: {
+    ...DEFAULT_MPA_DESCRIPTIONS.improving_unit,
+    sub_competencies: {
+      ...DEFAULT_MPA_DESCRIPTIONS.improving_unit.sub_competencies,
+      courage: "Challenges the status quo, takes calculated risk and speaks up to improve how the service fights and operates.",
+    },
+  },
+};
+
+const SPACE_FORCE_DECORATION_NAMES: Partial<Record<DecorationConfig["key"], Pick<DecorationConfig, "name" | "abbreviation">>> = {
+  afam: { name: "Air and Space Achievement Medal", abbreviation: "ASAM" },
+  afcm: { name: "Air and Space Commendation Medal", abbreviation: "ASCOM" },
+};
+
+const SHARED_LIMITS = {
+  statement: MAX_STATEMENT_CHARACTERS,
+  hlr: MAX_HLR_CHARACTERS,
+  dutyDescription: MAX_DUTY_DESCRIPTION_CHARACTERS,
+};
+
+export const SERVICE_PROFILES: Record<ServiceBranch, ServiceProfile> = {
+  usaf: {
+    key: "usaf",
+    name: "Air Force",
+    fullName: "United States Air Force",
+    abbreviation: "USAF",
+    memberNoun: "Airman",
+    memberNounPlural: "Airmen",
+    specialtyCodeLabel: "AFSC",
+    enlistedRanks: ENLISTED_RANKS,
+    officerRanks: OFFICER_RANKS,
+    ranks: [...ENLISTED_RANKS, ...OFFICER_RANKS, ...CIVILIAN_RANK],
+    closeoutDates: STATIC_CLOSEOUT_DATES,
+    entryMgas: ENTRY_MGAS,
+    standardMgas: STANDARD_MGAS,
+    mpaDescriptions: DEFAULT_MPA_DESCRIPTIONS,
+    limits: SHARED_LIMITS,
+    decorations: DECORATION_TYPES,
+  },
+  ussf: {
+    key: "ussf",
+    name: "Space Force",
+    fullName: "United States Space Force",
+    abbreviation: "USSF",
+    memberNoun: "Guardian",
+    memberNounPlural: "Guardians",
+    specialtyCodeLabel: "SFSC",
+    enlistedRanks: SPACE_FORCE_ENLISTED_RANKS,
+    officerRanks: OFFICER_RANKS,
+    ranks: [...SPACE_FORCE_ENLISTED_RANKS, ...OFFICER_RANKS, ...CIVILIAN_RANK],
+    // Guardians close out on the DAF enlisted/officer SCODs; Spc/Sgt map onto the E-3 to E-5 tiers
+    closeoutDates: STATIC_CLOSEOUT_DATES,
+    entryMgas: ENTRY_MGAS,
+    standardMgas: STANDARD_MGAS,
+    mpaDescriptions: SPACE_FORCE_MPA_DESCRIPTIONS,
+    limits: SHARED_LIMITS,
+    decorations: DECORATION_TYPES.map((d) => ({ ...d, ...SPACE_FORCE_DECORATION_NAMES[d.key] })),
+  },
+};
+
+export const SERVICE_OPTIONS: { value: ServiceBranch; label: string }[] = [
+  { value: "usaf", label: "Air Force (USAF)" },
+  { value: "ussf", label: "Space Force (USSF)" },
+];
+
+export function isServiceBranch(value: unknown): value is ServiceBranch {
+  return value === "usaf" || value === "ussf";
+}
+
+/** Profile for a stored service value; unknown or missing values fall back to the Air Force. */
+export function getServiceProfile(service: string | null | undefined): ServiceProfile {
+  return SERVICE_PROFILES[isServiceBranch(service) ? service : DEFAULT_SERVICE];
+}
+
+/**
+ * Service for a member whose service isn't stored (managed members): Space
+ * Force-only grades settle it, otherwise inherit the fallback (usually the
+ * supervisor's service).
+ */
+export function resolveServiceForRank(
+  rank: Rank | string | null | undefined,
+  fallback: string | null | undefined,
+): ServiceBranch {
+  if (rank && SPACE_FORCE_ONLY_RANKS.includes(rank as Rank)) return "ussf";
+  return isServiceBranch(fallback) ? fallback : DEFAULT_SERVICE;
+}
+
+export function isRankInService(rank: Rank | string | null | undefined, service: ServiceBranch): boolean {
+  if (!rank) return true;
+  return SERVICE_PROFILES[service].ranks.some((r) => r.value === rank);
+}
+
+export function getServiceDecoration(
+  service: string | null | undefined,
+  awardType: string,
+): DecorationConfig | undefined {
+  return getServiceProfile(service).decorations.find((d) => d.key === awardType);
+}
+
+/**
+ * Extra system-prompt section for non-default services. Appended after the
+ * user's (possibly customized) prompt so saved prompts don't need a new
+ * placeholder. Empty for the Air Force, whose wording the defaults already use.
+ */
+export function formatServicePromptContext(profile: ServiceProfile): string {
+  if (profile.key === DEFAULT_SERVICE) return "";
+
+  const enlisted = profile.enlistedRanks.map((r) => r.value).join(", ");
+  const competencies = Object.values(profile.mpaDescriptions)
+    .flatMap((mpa) => Object.keys(mpa.sub_competencies))
+    .filter((key) => !Object.values(DEFAULT_MPA_DESCRIPTIONS).some((mpa) => key in mpa.sub_competencies))
+    .map((key) => key.charAt(0).toUpperCase() + key.slice(1));
+
+  return `=== SERVICE CONTEXT: ${profile.fullName.toUpperCase()} ===
+The ratee is a ${profile.memberNoun} in the ${profile.fullName} (${profile.abbreviation}).
+- Refer to members as "${profile.memberNounPlural}" and the service as "${profile.name}" or "${profile.abbreviation}". Never call the ratee an Airman or the service the Air Force.
+- Use ${profile.name} echelons where the accomplishment supports them (squadron, Delta, Garrison, Field Command, ${profile.abbreviation}) instead of wing, NAF or MAJCOM.
+- Enlisted grades are ${enlisted}. Use these exact abbreviations in promotion and push language.
+- The career field code is the ${profile.specialtyCodeLabel}.${competencies.length > 0 ? `\n- Show the ${profile.memberNoun} Ideal values where the facts support them: ${competencies.join(", ")}.` : ""}`;
+}
@@ -10,15 +10,23 @@
  * - refreshUserSignatures() - Regenerates all stale signatures for a user
  * - getChainStyleSignature() - Loads the chain-of-command style for a user
  * - getUserStyleSignature() - Loads a user's own style signature
+ * - generateMentorPersona() - Builds a mentor's opt-in persona from accepted review feedback
+ * - getMentorPersona() - Loads a mentor persona a mentee may write with
  */
 
 import { getDecryptedApiKeys, type DecryptedApiKeys } from "@/app/actions/api-keys";
-import { createClient } from "@/lib/supabase/server";
+import { createAdminClient, createClient } from "@/lib/supabase/server";
 import { STYLE_SIGNATURE_MODEL } from "@/lib/style-signatures/constants";
 import { getModelProvider, isUsingDefaultKey, MissingApiKeyError } from "@/lib/llm-provider";
+import {
+  buildMentorPersonaPrompt,
+  collectMentorPersonaSources,
+  MIN_MENTOR_PERSONA_SOURCES,
+  type MentorPersonaComment,
+} from "@/lib/mentor-personas";
 import { generateText } from "ai";
 import { createHash } from "crypto";
-import type { Rank } from "@/types/database";
+import type { MentorPersona, Rank } from "@/types/database";
 
 // Rank hierarchy for determining highest rank in a chain (index 0 = highest)
 const RANK_HIERARCHY: string[] = [
@@ -115,6 +123,62 @@ Then on a new line, output a JSON block with structured factors:
 }
 \`\`\``;
 
+/**
+ * Split a fingerprint response into the prose signature and the structured
+ * factors from its JSON block.
+ */
+function parseFingerprintResponse(rawResponse: string): {
+  signatureText: string;
+  signatureFactors: Record<string, unknown>;
+} {
+  let signatureText = rawResponse;
+  let signatureFactors: Record<string, unknown> = {};
+
+  const jsonMatch = rawResponse.match(/```json\s*([\s\S]*?)```/);
+  if (jsonMatch) {
+    // Remove the JSON block from the signature text
+    signatureText = rawResponse.replace(/```json[\s\S]*?```/, "").trim();
+    try {
+      signatureFactors = JSON.parse(jsonMatch[1].trim());
+    } catch {
+      // If JSON parsing fails, still keep the text signature
+      signatureFactors = {};
+    }
+  }
+
+  return { signatureText, signatureFactors };
+}
+
+// Mentor personas fingerprint accepted review feedback (rewrites, edits and
+// comments) instead of finished statements.
+const MENTOR_PERSONA_META_PROMPT = `You are a military writing style analyst. You will be given feedback one mentor left on Air Force performance statements: full rewrites, replaced or cut phrases, and comments. The writers accepted every item.
+
+Your task: Describe HOW this mentor wants statements written, so another AI can write new statements the way this mentor would edit them.
+
+CRITICAL RULES:
+- Do NOT reproduce, quote, or paraphrase any statement content.
+- Do NOT include any accomplishment details, metrics, names, units, or mission-specific information.
+- Focus ONLY on the structural and stylistic changes the mentor makes and the advice they repeat.
+
+Cover: sentence structure, verb choice and intensity, abbreviation habits, how actions are tied to impact, metrics placement, what the mentor cuts, and recurring advice from the comments.
+
+Output format: Write a concise style fingerprint in 150-250 words as a continuous paragraph. Start with "This mentor's style is characterized by..." and describe all key patterns naturally.
+
+Then on a new line, output a JSON block with structured factors:
+\`\`\`json
+{
+  "statement_patterns": {
+    "verb_intensity": "<low|moderate|high>",
+    "abbreviation_density": "<minimal|moderate|heavy>",
+    "impact_chain_depth": <1-4>,
+    "formality": "<casual|professional|formal|clinical>",
+    "word_economy": "<loose|moderate|tight|compressed>",
+    "voice": "<active|passive|mixed>"
+  },
+  "recurring_advice": ["<short theme>", "..."]
+}
+\`\`\``;
+
 // ------------------------------------------------------------------
 // Core Functions
 // ------------------------------------------------------------------
@@ -320,21 +384,7 @@ export async function generateStyleSignature(
     throw error;
   }
 
-  // Parse the response: extract signature text and structured factors
-  let signatureText = rawResponse;
-  let signatureFactors: Record<string, unknown> = {};
-
-  const jsonMatch = rawResponse.match(/```json\s*([\s\S]*?)```/);
-  if (jsonMatch) {
-    // Remove the JSON block from the signature text
-    signatureText = rawResponse.replace(/```json[\s\S]*?```/, "").trim();
-    try {
-      signatureFactors = JSON.parse(jsonMatch[1].trim());
-    } catch {
-      // If JSON parsing fails, still keep the text signature
-      signatureFactors = {};
-    }
-  }
+  const { signatureText, signatureFactors } = parseFingerprintResponse(rawResponse);
 
   // Upsert the signature
   const newVersion = existing
@@ -697,6 +747,160 @@ export async function getChainStyleSignature(
   };
 }
 
+export type MentorPersonaGenerateResult =
+  | "generated"
+  | "skipped"
+  | "not_enough_feedback"
+  | "quota_exhausted";
+
+/**
+ * Count the accepted review-link feedback a mentor has left while signed in.
+ * Comments are only readable by the package owner, so this uses the admin
+ * client; nothing but the derived fingerprint leaves the server.
+ */
+async function loadMentorPersonaComments(mentorId: string): Promise<MentorPersonaComment[]> {
+  const admin = createAdminClient();
+  // reviewer_user_id and feedback_comments are missing from generated Database types.
+  const { data: sessions } = await admin
+    .from("feedback_sessions" as never)
+    .select("id")
+    .eq("reviewer_user_id" as never, mentorId);
+
+  const sessionIds = ((sessions || []) as { id: string }[]).map((s) => s.id);
+  if (sessionIds.length === 0) return [];
+
+  const { data: comments } = await admin
+    .from("feedback_comments" as never)
+    .select("id, status, original_text, highlighted_text, comment_text, suggestion_type, replacement_text, is_full_rewrite, rewrite_text, created_at")
+    .in("session_id" as never, sessionIds)
+    .eq("status" as never, "accepted");
+
+  return (comments || []) as MentorPersonaComment[];
+}
+
+/** Accepted feedback that would go into the mentor's persona right now. */
+export async function countMentorPersonaSources(mentorId: string): Promise<number> {
+  return collectMentorPersonaSources(await loadMentorPersonaComments(mentorId)).length;
+}
+
+/**
+ * Opt in to (or refresh) a mentor persona. Skips the LLM call when the
+ * accepted feedback has not changed since the last build, but still saves a
+ * new display name.
+ */
+export async function generateMentorPersona(
+  mentorId: string,
+  displayName: string,
+  userKeys: Partial<DecryptedApiKeys> | null,
+): Promise<MentorPersonaGenerateResult> {
+  const supabase = await createClient();
+  const sources = collectMentorPersonaSources(await loadMentorPersonaComments(mentorId));
+
+  if (sources.length < MIN_MENTOR_PERSONA_SOURCES) {
+    return "not_enough_feedback";
+  }
+
+  const sourceHash = computeSourceHash(sources.map((s) => s.id));
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const fromPersonas = () => supabase.from("mentor_personas" as never) as any;
+
+  const { data: existing } = await fromPersonas()
+    .select("id, display_name, source_hash, version")
+    .eq("mentor_id", mentorId)
+    .maybeSingle();
+
+  const current = existing as Pick<MentorPersona, "id" | "display_name" | "source_hash" | "version"> | null;
+
+  if (current && current.source_hash === sourceHash) {
+    if (current.display_name !== displayName) {
+      await fromPersonas().update({ display_name: displayName }).eq("id", current.id);
+    }
+    return "skipped";
+  }
+
+  if (isUsingDefaultKey(STYLE_SIGNATURE_MODEL, userKeys)) {
+    const reserved = await reserveStyleSignatureAppKeyCall(mentorId);
+    if (!reserved) {
+      return "quota_exhausted";
+    }
+  }
+
+  let rawResponse: string;
+  try {
+    const model = getModelProvider(STYLE_SIGNATURE_MODEL, userKeys);
+    const result = await generateText({
+      model,
+      system: MENTOR_PERSONA_META_PROMPT,
+      prompt: buildMentorPersonaPrompt(sources),
+      maxOutputTokens: 800,
+      temperature: 0.3,
+    });
+    rawResponse = result.text;
+  } catch (error) {
+    if (error instanceof MissingApiKeyError) {
+      return "skipped";
+    }
+    throw error;
+  }
+
+  const { signatureText, signatureFactors } = parseFingerprintResponse(rawResponse);
+
+  const { error } = await fromPersonas().upsert(
+    {
+      mentor_id: mentorId,
+      display_name: displayName,
+      signature_text: signatureText,
+      signature_factors: signatureFactors,
+      source_comment_count: sources.length,
+      source_hash: sourceHash,
+      version: current ? current.version + 1 : 1,
+    },
+    { onConflict: "mentor_id" }
+  );
+
+  if (error) {
+    console.error("[style-signatures] Mentor persona upsert error:", error.message);
+    return "skipped";
+  }
+
+  return "generated";
+}
+
+/**
+ * Load a mentor persona for generation. RLS only returns the mentor's own
+ * persona or one from a mentor who reviewed the caller's work, so a revoked
+ * or foreign id simply yields null.
+ *
+ * @param personaId - Explicit pick from the request; falls back to the
+ *   persona saved on the caller's profile.
+ */
+export async function getMentorPersona(
+  subjectId: string,
+  personaId?: string | null
+): Promise<MentorPersona | null> {
+  const supabase = await createClient();
+  let id = personaId ?? null;
+
+  if (!id) {
+    const { data: profile } = await supabase
+      .from("profiles")
+      .select("writing_mentor_persona_id")
+      .eq("id", subjectId)
+      .maybeSingle();
+    id = (profile as { writing_mentor_persona_id?: string | null } | null)?.writing_mentor_persona_id ?? null;
+  }
+  if (!id) return null;
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const { data } = await (supabase.from("mentor_personas" as never) as any)
+    .select("*")
+    .eq("id", id)
+    .maybeSingle();
+
+  return (data as MentorPersona | null) ?? null;
+}
+
 /**
  * Build a style signature section for injection into an LLM system prompt.
  * Returns empty string if no signature data is available.
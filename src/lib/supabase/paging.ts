@@ -0,0 +1,39 @@
+// PostgREST caps each response at 1000 rows by default.
+export const PAGE_SIZE = 1000;
+/** Ids per `.in()` filter; keeps the request URL well under proxy limits */
+export const IN_FILTER_CHUNK_SIZE = 100;
+
+type PageResult = PromiseLike<{ data: unknown; error: { message: string } | null }>;
+
+/** Pages through a query until a short page comes back. Order the query by a unique column. */
+export async function fetchAllRows<T>(
+  label: string,
+  page: (from: number, to: number) => PageResult,
+): Promise<T[]> {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw new Error(`${label}: ${error.message}`);
+    const batch = (data ?? []) as T[];
+    rows.push(...batch);
+    if (batch.length < PAGE_SIZE) return rows;
+  }
+}
+
+export function chunkIds(ids: string[], size = IN_FILTER_CHUNK_SIZE): string[][] {
+  const chunks: string[][] = [];
+  for (let i = 0; i < ids.length; i += size) chunks.push(ids.slice(i, i + size));
+  return chunks;
+}
+
+/** fetchAllRows once per chunk of ids, for queries filtered with `.in(column, ids)` */
+export async function fetchAllRowsIn<T>(
+  label: string,
+  ids: string[],
+  page: (ids: string[], from: number, to: number) => PageResult,
+): Promise<T[]> {
+  const chunks = await Promise.all(
+    chunkIds(ids).map((chunk) => fetchAllRows<T>(label, (from, to) => page(chunk, from, to))),
+  );
+  return chunks.flat();
+}
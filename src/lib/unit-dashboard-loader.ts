@@ -0,0 +1,262 @@
+import { createAdminClient } from "@/lib/supabase/server";
+import { getActiveCycleYear, getCyclePeriodOverride } from "@/lib/constants";
+import { fetchAllRowsIn } from "@/lib/supabase/paging";
+import {
+  resolveUnitFlights,
+  summarizeUnitMember,
+  type UnitDashboardEntry,
+  type UnitDashboardFeedback,
+  type UnitDashboardShell,
+  type UnitMemberRow,
+  type UnitTreeNode,
+} from "@/lib/unit-dashboard";
+import type { EvaluationPeriodFields, Rank } from "@/types/database";
+
+const EVAL_PERIOD_COLUMNS = "eval_period_start, eval_period_end, eval_period_reason";
+const ENTRY_COLUMNS =
+  "id, user_id, team_member_id, date, mpa, cycle_year, assessment_scores, assessed_at, updated_at";
+
+type ServiceClient = ReturnType<typeof createAdminClient>;
+
+type UnitProfile = EvaluationPeriodFields & {
+  id: string;
+  full_name: string | null;
+  rank: Rank | null;
+};
+
+type UnitManagedMember = UnitProfile & {
+  supervisor_id: string;
+  parent_profile_id: string | null;
+  parent_team_member_id: string | null;
+};
+
+type UnitEntryRow = UnitDashboardEntry & {
+  user_id: string;
+  team_member_id: string | null;
+  cycle_year: number;
+};
+
+type UnitShellRow = Omit<UnitDashboardShell, "sections"> & {
+  id: string;
+  user_id: string;
+  team_member_id: string | null;
+  cycle_year: number;
+};
+
+type UnitSectionRow = UnitDashboardShell["sections"][number] & { shell_id: string };
+
+type UnitFeedbackRow = UnitDashboardFeedback & {
+  subordinate_id: string | null;
+  team_member_id: string | null;
+  cycle_year: number;
+};
+
+type UnitRatee = {
+  key: string;
+  name: string;
+  rank: Rank | null;
+  override: ReturnType<typeof getCyclePeriodOverride>;
+  cycleYear: number;
+  parentKey: string;
+  matches: (row: { user_id?: string | null; subordinate_id?: string | null; team_member_id: string | null }) => boolean;
+};
+
+function displayName(person: { rank: Rank | null; full_name: string | null }): string {
+  return [person.rank, person.full_name?.trim()].filter(Boolean).join(" ") || "Unnamed member";
+}
+
+function profileKey(id: string): string {
+  return `profile:${id}`;
+}
+
+function memberKey(id: string): string {
+  return `member:${id}`;
+}
+
+function unwrap<T>(result: { data: unknown; error: { message: string } | null }, table: string): T[] {
+  if (result.error) throw new Error(`${table}: ${result.error.message}`);
+  return (result.data ?? []) as T[];
+}
+
+/**
+ * The viewer's subordinates at every depth and each of their active managed
+ * members, with entries, the active-cycle EPB shell and supervisor feedback.
+ * Runs on the service client: every id queried comes from the viewer's own
+ * supervision chain.
+ */
+async function loadUnitRatees(service: ServiceClient, viewerId: string) {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const from = (table: string) => service.from(table as never) as any;
+
+  const chainResult = await service.rpc("get_subordinate_chain", { supervisor_uuid: viewerId } as never);
+  const chain = unwrap<{ subordinate_id: string; depth: number }>(chainResult, "get_subordinate_chain");
+
+  // A subordinate reachable by more than one path keeps its shallowest depth
+  const depthById = new Map<string, number>();
+  for (const link of chain) {
+    if (link.subordinate_id === viewerId) continue;
+    const known = depthById.get(link.subordinate_id);
+    if (known === undefined || link.depth < known) depthById.set(link.subordinate_id, link.depth);
+  }
+  const subordinateIds = [...depthById.keys()];
+  const supervisorIds = [viewerId, ...subordinateIds];
+
+  const [viewerResult, profiles, teams, managed] = await Promise.all([
+    from("profiles").select("id, full_name, rank").eq("id", viewerId).maybeSingle(),
+    fetchAllRowsIn<UnitProfile>("profiles", subordinateIds, (ids, start, end) =>
+      from("profiles")
+        .select(`id, full_name, rank, ${EVAL_PERIOD_COLUMNS}`)
+        .in("id", ids)
+        .order("id", { ascending: true })
+        .range(start, end)
+    ),
+    fetchAllRowsIn<{ supervisor_id: string; subordinate_id: string }>("teams", subordinateIds, (ids, start, end) =>
+      from("teams")
+        .select("supervisor_id, subordinate_id")
+        .in("subordinate_id", ids)
+        .order("id", { ascending: true })
+        .range(start, end)
+    ),
+    fetchAllRowsIn<UnitManagedMember>("team_members", supervisorIds, (ids, start, end) =>
+      from("team_members")
+        .select(
+          `id, full_name, rank, supervisor_id, parent_profile_id, parent_team_member_id, ${EVAL_PERIOD_COLUMNS}`
+        )
+        .in("supervisor_id", ids)
+        .eq("member_status", "active")
+        .order("id", { ascending: true })
+        .range(start, end)
+    ),
+  ]);
+  if (viewerResult.error) throw new Error(`profiles: ${viewerResult.error.message}`);
+
+  const viewer = viewerResult.data as Pick<UnitProfile, "id" | "full_name" | "rank"> | null;
+
+  const ratees: UnitRatee[] = [];
+
+  for (const profile of profiles) {
+    const depth = depthById.get(profile.id) ?? 1;
+    // Immediate supervisor: the link one level closer to the viewer
+    const parentId =
+      depth <= 1
+        ? viewerId
+        : teams.find(
+            (t) => t.subordinate_id === profile.id && depthById.get(t.supervisor_id) === depth - 1
+          )?.supervisor_id ?? viewerId;
+    const override = getCyclePeriodOverride(profile);
+    ratees.push({
+      key: profileKey(profile.id),
+      name: displayName(profile),
+      rank: profile.rank,
+      override,
+      cycleYear: getActiveCycleYear(profile.rank, override),
+      parentKey: profileKey(parentId),
+      matches: (row) =>
+        row.team_member_id === null && (row.user_id === profile.id || row.subordinate_id === profile.id),
+    });
+  }
+
+  const managedIds = new Set(managed.map((m) => m.id));
+  for (const member of managed) {
+    const parentKey =
+      member.parent_team_member_id && managedIds.has(member.parent_team_member_id)
+        ? memberKey(member.parent_team_member_id)
+        : profileKey(member.parent_profile_id ?? member.supervisor_id);
+    const override = getCyclePeriodOverride(member);
+    ratees.push({
+      key: memberKey(member.id),
+      name: displayName(member),
+      rank: member.rank,
+      override,
+      cycleYear: getActiveCycleYear(member.rank, override),
+      parentKey,
+      matches: (row) => row.team_member_id === member.id,
+    });
+  }
+
+  return { viewer, ratees, subordinateIds, managedIds: [...managedIds] };
+}
+
+export async function loadUnitDashboard(viewerId: string, now: Date = new Date()): Promise<UnitMemberRow[]> {
+  const service = createAdminClient();
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const from = (table: string) => service.from(table as never) as any;
+
+  const { viewer, ratees, subordinateIds, managedIds } = await loadUnitRatees(service, viewerId);
+  if (ratees.length === 0) return [];
+
+  const cycleYears = [...new Set(ratees.map((r) => r.cycleYear))];
+  const forRatees = <T>(table: string, columns: string, subordinateColumn: string) =>
+    Promise.all([
+      fetchAllRowsIn<T>(table, subordinateIds, (ids, start, end) =>
+        from(table)
+          .select(columns)
+          .in(subordinateColumn, ids)
+          .is("team_member_id", null)
+          .in("cycle_year", cycleYears)
+          .order("id", { ascending: true })
+          .range(start, end)
+      ),
+      fetchAllRowsIn<T>(table, managedIds, (ids, start, end) =>
+        from(table)
+          .select(columns)
+          .in("team_member_id", ids)
+          .in("cycle_year", cycleYears)
+          .order("id", { ascending: true })
+          .range(start, end)
+      ),
+    ]).then((results) => results.flat());
+
+  const [entries, shells, feedbacks] = await Promise.all([
+    forRatees<UnitEntryRow>("accomplishments", ENTRY_COLUMNS, "user_id"),
+    forRatees<UnitShellRow>(
+      "epb_shells",
+      "id, user_id, team_member_id, cycle_year, workflow_state, duty_description, duty_description_complete",
+      "user_id"
+    ),
+    forRatees<UnitFeedbackRow>(
+      "supervisor_feedbacks",
+      "subordinate_id, team_member_id, cycle_year, feedback_type, status",
+      "subordinate_id"
+    ),
+  ]);
+
+  const sections = await fetchAllRowsIn<UnitSectionRow>(
+    "epb_shell_sections",
+    shells.map((s) => s.id),
+    (ids, start, end) =>
+      from("epb_shell_sections")
+        .select("shell_id, mpa, statement_text, is_complete")
+        .in("shell_id", ids)
+        .order("id", { ascending: true })
+        .range(start, end)
+  );
+
+  const viewerKey = profileKey(viewerId);
+  const names = new Map<string, string>([
+    [viewerKey, viewer ? displayName(viewer) : "You"],
+    ...ratees.map((r) => [r.key, r.name] as [string, string]),
+  ]);
+  const nodes: UnitTreeNode[] = ratees.map((r) => ({ key: r.key, name: r.name, parentKey: r.parentKey }));
+  const flights = resolveUnitFlights(nodes, viewerKey);
+
+  return ratees.map((ratee) => {
+    const shell = shells.find((s) => s.cycle_year === ratee.cycleYear && ratee.matches(s));
+    return summarizeUnitMember(
+      {
+        key: ratee.key,
+        name: ratee.name,
+        rank: ratee.rank,
+        override: ratee.override,
+        flight: flights.get(ratee.key) ?? { key: ratee.key, name: ratee.name },
+        supervisor: { key: ratee.parentKey, name: names.get(ratee.parentKey) ?? "Unknown supervisor" },
+        entries: entries.filter((e) => e.cycle_year === ratee.cycleYear && ratee.matches(e)),
+        shell: shell
+          ? { ...shell, sections: sections.filter((s) => s.shell_id === shell.id) }
+          : null,
+        feedbacks: feedbacks.filter((f) => f.cycle_year === ratee.cycleYear && ratee.matches(f)),
+      },
+      now
+    );
+  });
+}
@@ -0,0 +1,463 @@
+/**
+ * Unit dashboard: EPB readiness rolled up across a supervisor's whole subtree
+ * (subordinates at every depth plus their managed members). Each member row
+ * reuses the single-ratee portfolio math; rows are then grouped by flight (the
+ * viewer's direct report heading that branch), by immediate supervisor or by
+ * EPB routing step (the suspense board) and exported as CSV.
+ */
+
+import {
+  ACA_PORTFOLIO_MPA_KEYS,
+  buildCyclePortfolio,
+  type AcaPortfolioMpaKey,
+} from "@/lib/cycle-portfolio";
+import {
+  ENTRY_MGAS,
+  MPA_ABBREVIATIONS,
+  formatCycleDate,
+  getActiveCyclePeriod,
+  getDaysUntilCloseout,
+  getStaticCloseoutDate,
+  type CyclePeriodOverride,
+} from "@/lib/constants";
+import {
+  EPB_WORKFLOW_STEPS,
+  getEPBWorkflowStep,
+  getEPBWorkflowSuspense,
+} from "@/lib/epb-workflow";
+import { isSubstantialEpbStatement } from "@/lib/fuse-to-epb";
+import type {
+  Accomplishment,
+  EPBWorkflowState,
+  FeedbackStatus,
+  FeedbackType,
+  Rank,
+} from "@/types/database";
+
+/** Shell sections tracked for completion, in EPB order. */
+export const UNIT_DASHBOARD_SECTIONS = [
+  { key: "duty_description", label: "Duty Description", shortLabel: "Duty" },
+  ...ACA_PORTFOLIO_MPA_KEYS.map((key) => ({
+    key,
+    label: ENTRY_MGAS.find((mpa) => mpa.key === key)?.label ?? key,
+    shortLabel: MPA_ABBREVIATIONS[key],
+  })),
+  { key: "hlr_assessment", label: "HLR Assessment", shortLabel: "HLR" },
+] as const;
+
+export type UnitDashboardSectionKey = (typeof UNIT_DASHBOARD_SECTIONS)[number]["key"];
+
+/** complete = marked complete; drafted = has a real statement; empty otherwise. */
+export type UnitSectionStatus = "complete" | "drafted" | "empty";
+
+export type UnitDashboardGroupBy = "flight" | "supervisor";
+
+export type UnitDashboardEntry = Pick<
+  Accomplishment,
+  "id" | "date" | "mpa" | "assessment_scores" | "assessed_at" | "updated_at"
+>;
+
+export interface UnitDashboardShell {
+  workflow_state: EPBWorkflowState;
+  duty_description: string | null;
+  duty_description_complete: boolean;
+  sections: { mpa: string; statement_text: string | null; is_complete: boolean }[];
+}
+
+export interface UnitDashboardFeedback {
+  feedback_type: FeedbackType;
+  status: FeedbackStatus;
+}
+
+export interface UnitMemberInput {
+  /** "profile:<id>" or "member:<team_members.id>" */
+  key: string;
+  name: string;
+  rank: Rank | null;
+  override: CyclePeriodOverride | null;
+  flight: { key: string; name: string };
+  supervisor: { key: string; name: string };
+  /** Entries already limited to the member's active cycle_year */
+  entries: UnitDashboardEntry[];
+  /** The member's EPB shell for the active cycle, if one exists */
+  shell: UnitDashboardShell | null;
+  /** Supervisor feedback recorded for the active cycle */
+  feedbacks: UnitDashboardFeedback[];
+}
+
+export interface UnitOutstandingFeedback {
+  type: FeedbackType;
+  /** A draft exists but hasn't been shared with the member yet */
+  hasDraft: boolean;
+}
+
+export interface UnitMemberRow {
+  key: string;
+  name: string;
+  rank: Rank | null;
+  flightKey: string;
+  flightName: string;
+  supervisorKey: string;
+  supervisorName: string;
+  entriesPerMpa: Record<AcaPortfolioMpaKey, number>;
+  acaEntryCount: number;
+  assessedCount: number;
+  /** 0-100, null without ACA entries */
+  assessedShare: number | null;
+  avgQuality: number | null;
+  hasShell: boolean;
+  sections: Record<UnitDashboardSectionKey, UnitSectionStatus>;
+  /** Share of tracked sections marked complete, 0-100; null without a shell */
+  shellCompletion: number | null;
+  scodDate: string | null;
+  daysUntilScod: number | null;
+  outstandingFeedback: UnitOutstandingFeedback[];
+  /** Routing step of the shell; null without a shell */
+  workflowState: EPBWorkflowState | null;
+  /** DD-MMM-YYYY suspense for the current step; null once finalized */
+  workflowDueDate: string | null;
+  workflowDaysUntilDue: number | null;
+  workflowOverdue: boolean;
+}
+
+export interface UnitDashboardTotals {
+  memberCount: number;
+  entriesPerMpa: Record<AcaPortfolioMpaKey, number>;
+  acaEntryCount: number;
+  assessedShare: number | null;
+  avgQuality: number | null;
+  shellCount: number;
+  avgShellCompletion: number | null;
+  /** Members within 60 days of their SCOD */
+  dueSoonCount: number;
+  outstandingFeedbackCount: number;
+  /** Shells past the suspense for their routing step */
+  overdueCount: number;
+}
+
+export interface UnitDashboardGroup {
+  key: string;
+  name: string;
+  rows: UnitMemberRow[];
+  totals: UnitDashboardTotals;
+}
+
+/** Matches the "EPB draft due to immediate supervisor" milestone. */
+export const UNIT_DUE_SOON_DAYS = 60;
+
+function emptyMpaCounts(): Record<AcaPortfolioMpaKey, number> {
+  return Object.fromEntries(ACA_PORTFOLIO_MPA_KEYS.map((key) => [key, 0])) as Record<
+    AcaPortfolioMpaKey,
+    number
+  >;
+}
+
+function percent(part: number, whole: number): number | null {
+  return whole > 0 ? Math.round((part / whole) * 100) : null;
+}
+
+function sectionStatuses(
+  shell: UnitDashboardShell | null
+): Record<UnitDashboardSectionKey, UnitSectionStatus> {
+  const statuses = {} as Record<UnitDashboardSectionKey, UnitSectionStatus>;
+  for (const { key } of UNIT_DASHBOARD_SECTIONS) {
+    if (!shell) {
+      statuses[key] = "empty";
+      continue;
+    }
+    if (key === "duty_description") {
+      statuses[key] = shell.duty_description_complete
+        ? "complete"
+        : isSubstantialEpbStatement(shell.duty_description)
+          ? "drafted"
+          : "empty";
+      continue;
+    }
+    const section = shell.sections.find((s) => s.mpa === key);
+    statuses[key] = section?.is_complete
+      ? "complete"
+      : isSubstantialEpbStatement(section?.statement_text)
+        ? "drafted"
+        : "empty";
+  }
+  return statuses;
+}
+
+/**
+ * Initial feedback is owed as soon as the period starts and Midterm once the
+ * period is half over. Only a shared session clears one; a draft still counts
+ * as outstanding. Members without an evaluation period owe nothing here.
+ */
+export function getOutstandingFeedback(
+  period: { start: Date; end: Date } | null,
+  feedbacks: UnitDashboardFeedback[],
+  now: Date = new Date()
+): UnitOutstandingFeedback[] {
+  if (!period) return [];
+  const midpoint = period.start.getTime() + (period.end.getTime() - period.start.getTime()) / 2;
+  const due: FeedbackType[] = ["initial"];
+  if (now.getTime() >= midpoint) due.push("midterm");
+
+  return due
+    .filter((type) => !feedbacks.some((f) => f.feedback_type === type && f.status === "shared"))
+    .map((type) => ({
+      type,
+      hasDraft: feedbacks.some((f) => f.feedback_type === type && f.status === "draft"),
+    }));
+}
+
+export function summarizeUnitMember(member: UnitMemberInput, now: Date = new Date()): UnitMemberRow {
+  const period = getActiveCyclePeriod(member.rank, member.override);
+  const portfolio = buildCyclePortfolio(member.entries as Accomplishment[], { period });
+  const entriesPerMpa = emptyMpaCounts();
+  let acaEntryCount = 0;
+  let assessedCount = 0;
+  for (const key of ACA_PORTFOLIO_MPA_KEYS) {
+    entriesPerMpa[key] = portfolio.mpaStats[key].entryCount;
+    acaEntryCount += portfolio.mpaStats[key].entryCount;
+    assessedCount += portfolio.mpaStats[key].assessedCount;
+  }
+
+  const sections = sectionStatuses(member.shell);
+  const completeSections = Object.values(sections).filter((s) => s === "complete").length;
+  const closeout = getStaticCloseoutDate(member.rank, member.override);
+  const workflowState = member.shell?.workflow_state ?? null;
+  const suspense = workflowState
+    ? getEPBWorkflowSuspense(workflowState, member.rank, member.override)
+    : null;
+
+  return {
+    key: member.key,
+    name: member.name,
+    rank: member.rank,
+    flightKey: member.flight.key,
+    flightName: member.flight.name,
+    supervisorKey: member.supervisor.key,
+    supervisorName: member.supervisor.name,
+    entriesPerMpa,
+    acaEntryCount,
+    assessedCount,
+    assessedShare: percent(assessedCount, acaEntryCount),
+    avgQuality: portfolio.fingerprint.avgOverall,
+    hasShell: !!member.shell,
+    sections,
+    shellCompletion: member.shell ? percent(completeSections, UNIT_DASHBOARD_SECTIONS.length) : null,
+    scodDate: closeout ? formatCycleDate(closeout.date) : null,
+    daysUntilScod: getDaysUntilCloseout(member.rank, member.override),
+    outstandingFeedback: getOutstandingFeedback(period, member.feedbacks, now),
+    workflowState,
+    workflowDueDate: suspense ? formatCycleDate(suspense.dueDate) : null,
+    workflowDaysUntilDue: suspense?.daysFromNow ?? null,
+    workflowOverdue: !!suspense?.isOverdue,
+  };
+}
+
+export function summarizeUnitTotals(rows: UnitMemberRow[]): UnitDashboardTotals {
+  const entriesPerMpa = emptyMpaCounts();
+  let acaEntryCount = 0;
+  let assessedCount = 0;
+  let qualityWeighted = 0;
+  let qualityWeight = 0;
+  const completions: number[] = [];
+
+  for (const row of rows) {
+    for (const key of ACA_PORTFOLIO_MPA_KEYS) entriesPerMpa[key] += row.entriesPerMpa[key];
+    acaEntryCount += row.acaEntryCount;
+    assessedCount += row.assessedCount;
+    if (row.avgQuality !== null && row.assessedCount > 0) {
+      qualityWeighted += row.avgQuality * row.assessedCount;
+      qualityWeight += row.assessedCount;
+    }
+    if (row.shellCompletion !== null) completions.push(row.shellCompletion);
+  }
+
+  return {
+    memberCount: rows.length,
+    entriesPerMpa,
+    acaEntryCount,
+    assessedShare: percent(assessedCount, acaEntryCount),
+    avgQuality: qualityWeight > 0 ? Math.round(qualityWeighted / qualityWeight) : null,
+    shellCount: completions.length,
+    avgShellCompletion:
+      completions.length > 0
+        ? Math.round(completions.reduce((sum, c) => sum + c, 0) / completions.length)
+        : null,
+    dueSoonCount: rows.filter(
+      (row) => row.daysUntilScod !== null && row.daysUntilScod <= UNIT_DUE_SOON_DAYS
+    ).length,
+    outstandingFeedbackCount: rows.reduce((sum, row) => sum + row.outstandingFeedback.length, 0),
+    overdueCount: rows.filter((row) => row.workflowOverdue).length,
+  };
+}
+
+/** Nearest SCOD first; members without one last. */
+export function sortUnitRows(rows: UnitMemberRow[]): UnitMemberRow[] {
+  return [...rows].sort(
+    (a, b) =>
+      (a.daysUntilScod ?? Number.POSITIVE_INFINITY) - (b.daysUntilScod ?? Number.POSITIVE_INFINITY) ||
+      a.name.localeCompare(b.name)
+  );
+}
+
+export function groupUnitRows(rows: UnitMemberRow[], by: UnitDashboardGroupBy): UnitDashboardGroup[] {
+  const groups = new Map<string, { name: string; rows: UnitMemberRow[] }>();
+  for (const row of rows) {
+    const key = by === "flight" ? row.flightKey : row.supervisorKey;
+    const name = by === "flight" ? row.flightName : row.supervisorName;
+    const group = groups.get(key) ?? { name, rows: [] };
+    group.rows.push(row);
+    groups.set(key, group);
+  }
+
+  return [...groups.entries()]
+    .map(([key, group]) => ({
+      key,
+      name: group.name,
+      rows: sortUnitRows(group.rows),
+      totals: summarizeUnitTotals(group.rows),
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export interface UnitSuspenseColumn {
+  /** null collects members without an EPB shell yet */
+  state: EPBWorkflowState | null;
+  label: string;
+  rows: UnitMemberRow[];
+}
+
+/**
+ * Suspense board: one column per routing step in order, led by members with
+ * no shell. Each column lists the most overdue / soonest due first.
+ */
+export function groupUnitRowsByWorkflow(rows: UnitMemberRow[]): UnitSuspenseColumn[] {
+  const columns: UnitSuspenseColumn[] = [
+    { state: null, label: "No shell", rows: [] },
+    ...EPB_WORKFLOW_STEPS.map((step) => ({ state: step.key, label: step.label, rows: [] })),
+  ];
+  for (const row of rows) {
+    columns.find((column) => column.state === row.workflowState)?.rows.push(row);
+  }
+  for (const column of columns) {
+    column.rows.sort(
+      (a, b) =>
+        (a.workflowDaysUntilDue ?? a.daysUntilScod ?? Number.POSITIVE_INFINITY) -
+          (b.workflowDaysUntilDue ?? b.daysUntilScod ?? Number.POSITIVE_INFINITY) ||
+        a.name.localeCompare(b.name)
+    );
+  }
+  return columns;
+}
+
+export interface UnitTreeNode {
+  key: string;
+  name: string;
+  /** Immediate supervisor's node key; the viewer's own key for direct reports */
+  parentKey: string | null;
+}
+
+/**
+ * Flight for every node: the viewer's direct report whose branch the node sits
+ * in. Direct reports are their own flight. Nodes whose chain never reaches the
+ * viewer (broken or cyclic links) fall back to themselves.
+ */
+export function resolveUnitFlights(
+  nodes: UnitTreeNode[],
+  viewerKey: string
+): Map<string, { key: string; name: string }> {
+  const byKey = new Map(nodes.map((node) => [node.key, node]));
+  const flights = new Map<string, { key: string; name: string }>();
+
+  for (const node of nodes) {
+    let current = node;
+    const seen = new Set<string>();
+    while (current.parentKey && current.parentKey !== viewerKey && !seen.has(current.key)) {
+      seen.add(current.key);
+      const parent = byKey.get(current.parentKey);
+      if (!parent) break;
+      current = parent;
+    }
+    const head = current.parentKey === viewerKey ? current : node;
+    flights.set(node.key, { key: head.key, name: head.name });
+  }
+
+  return flights;
+}
+
+// ------------------------------------------------------------------
+// CSV export
+// ------------------------------------------------------------------
+
+const SECTION_STATUS_LABELS: Record<UnitSectionStatus, string> = {
+  complete: "Complete",
+  drafted: "Drafted",
+  empty: "",
+};
+
+function csvCell(value: string | number | null): string {
+  if (value === null) return "";
+  const text = String(value);
+  // Leading =, +, - or @ would run as a formula in spreadsheet apps
+  const safe = /^[=+\-@]/.test(text) ? `'${text}` : text;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+export function formatOutstandingFeedback(items: UnitOutstandingFeedback[]): string {
+  return items
+    .map((item) => {
+      const label = item.type.charAt(0).toUpperCase() + item.type.slice(1);
+      return item.hasDraft ? `${label} (draft)` : label;
+    })
+    .join(", ");
+}
+
+/** One row per member, nearest SCOD first; drafts show as "Drafted". */
+export function buildUnitDashboardCsv(rows: UnitMemberRow[]): string {
+  const header = [
+    "Flight",
+    "Supervisor",
+    "Member",
+    "Rank",
+    "SCOD",
+    "Days to SCOD",
+    ...ACA_PORTFOLIO_MPA_KEYS.map((key) => `${MPA_ABBREVIATIONS[key]} entries`),
+    "Assessed %",
+    "Avg quality",
+    ...UNIT_DASHBOARD_SECTIONS.map((section) => `${section.shortLabel} section`),
+    "Shell complete %",
+    "Routing step",
+    "Step due",
+    "Outstanding feedback",
+  ];
+
+  const lines = sortUnitRows(rows).map((row) =>
+    [
+      row.flightName,
+      row.supervisorName,
+      row.name,
+      row.rank,
+      row.scodDate,
+      row.daysUntilScod,
+      ...ACA_PORTFOLIO_MPA_KEYS.map((key) => row.entriesPerMpa[key]),
+      row.assessedShare,
+      row.avgQuality,
+      ...UNIT_DASHBOARD_SECTIONS.map((section) =>
+        row.hasShell ? SECTION_STATUS_LABELS[row.sections[section.key]] : "No shell"
+      ),
+      row.shellCompletion,
+      row.workflowState ? getEPBWorkflowStep(row.workflowState).label : null,
+      row.workflowOverdue ? `${row.workflowDueDate} (overdue)` : row.workflowDueDate,
+      formatOutstandingFeedback(row.outstandingFeedback),
+    ]
+      .map(csvCell)
+      .join(",")
+  );
+
+  return [header.map(csvCell).join(","), ...lines].join("\r\n") + "\r\n";
+}
+
+/** e.g. `Unit_EPB_Readiness_2026-10-18.csv` */
+export function getUnitDashboardCsvFileName(now: Date = new Date()): string {
+  const day = new Date(now.getTime() - now.getTimezoneOffset() * 60 * 1000).toISOString().slice(0, 10);
+  return `Unit_EPB_Readiness_${day}.csv`;
+}
@@ -0,0 +1,178 @@
+/**
+ * Weekly Activity Report (WAR) content model shared by /api/generate-war and
+ * the WAR view modal.
+ *
+ * `war_reports.content` keeps bullets as plain strings so history, search, and
+ * copy stay simple. Which accomplishments a bullet came from lives in
+ * `war_accomplishments`, keyed by category + bullet position.
+ */
+
+export interface WARCategory {
+  key: string;
+  label: string;
+  description: string;
+  order: number;
+}
+
+export interface WARSettings {
+  categories: WARCategory[];
+  unit_office_symbol: string | null;
+  synthesis_instructions: string | null;
+}
+
+// Default categories if the user hasn't customized war_settings
+export const DEFAULT_WAR_CATEGORIES: WARCategory[] = [
+  {
+    key: "key_accomplishments",
+    label: "Key Accomplishments/Highlights",
+    description: "Impact-driven achievements - the What. Focus on quantifiable results.",
+    order: 1,
+  },
+  {
+    key: "issues_roadblocks",
+    label: "Issues/Roadblocks",
+    description: "High-level challenges requiring attention - the So What.",
+    order: 2,
+  },
+  {
+    key: "upcoming_priorities",
+    label: "Upcoming Priorities/Key Events",
+    description: "Immediate actions or milestones planned for the following 1-2 weeks.",
+    order: 3,
+  },
+];
+
+export interface WARReportItem {
+  text: string;
+  /** Accomplishments this bullet was synthesized from (empty for hand-written bullets). */
+  accomplishment_ids: string[];
+}
+
+export interface WARReportCategory {
+  key: string;
+  label: string;
+  items: WARReportItem[];
+}
+
+export interface WARReport {
+  header: {
+    date_range: string;
+    unit_office_symbol: string | null;
+    prepared_by: string;
+  };
+  categories: WARReportCategory[];
+}
+
+/** Shape persisted in `war_reports.content`. */
+export interface StoredWARContent {
+  categories: { key: string; label: string; items: string[] }[];
+}
+
+export interface WARAccomplishmentLink {
+  war_id: string;
+  accomplishment_id: string;
+  category: string;
+  display_order: number;
+}
+
+/**
+ * Turn one LLM-returned bullet into a report item. The prompt numbers entries
+ * from 1, so `sources` are entry numbers; anything out of range is dropped
+ * rather than trusted. Plain strings (older prompt format) get no sources.
+ */
+export function resolveWARItem(raw: unknown, entryIds: string[]): WARReportItem | null {
+  if (typeof raw === "string") {
+    const text = raw.trim();
+    return text ? { text, accomplishment_ids: [] } : null;
+  }
+  if (!raw || typeof raw !== "object") return null;
+
+  const { text, sources } = raw as { text?: unknown; sources?: unknown };
+  if (typeof text !== "string" || !text.trim()) return null;
+
+  const ids: string[] = [];
+  if (Array.isArray(sources)) {
+    for (const source of sources) {
+      const index = typeof source === "number" ? source : Number.parseInt(String(source), 10);
+      const id = Number.isInteger(index) ? entryIds[index - 1] : undefined;
+      if (id && !ids.includes(id)) ids.push(id);
+    }
+  }
+
+  return { text: text.trim(), accomplishment_ids: ids };
+}
+
+export function toStoredWARContent(categories: WARReportCategory[]): StoredWARContent {
+  return {
+    categories: categories.map((c) => ({
+      key: c.key,
+      label: c.label,
+      items: c.items.map((item) => item.text),
+    })),
+  };
+}
+
+export function buildWARAccomplishmentLinks(
+  warId: string,
+  categories: WARReportCategory[],
+): WARAccomplishmentLink[] {
+  return categories.flatMap((category) =>
+    category.items.flatMap((item, index) =>
+      item.accomplishment_ids.map((accomplishmentId) => ({
+        war_id: warId,
+        accomplishment_id: accomplishmentId,
+        category: category.key,
+        display_order: index,
+      }))
+    )
+  );
+}
+
+/** Rebuild report categories from stored content plus its provenance rows. */
+export function attachWARAccomplishmentLinks(
+  content: Partial<StoredWARContent> | null | undefined,
+  links: Pick<WARAccomplishmentLink, "accomplishment_id" | "category" | "display_order">[],
+): WARReportCategory[] {
+  const byBullet = new Map<string, string[]>();
+  for (const link of links) {
+    const key = `${link.category}:${link.display_order}`;
+    const ids = byBullet.get(key) ?? [];
+    if (!ids.includes(link.accomplishment_id)) ids.push(link.accomplishment_id);
+    byBullet.set(key, ids);
+  }
+
+  return (content?.categories ?? []).map((category) => ({
+    key: category.key,
+    label: category.label,
+    items: (category.items ?? []).map((text, index) => ({
+      text,
+      accomplishment_ids: byBullet.get(`${category.key}:${index}`) ?? [],
+    })),
+  }));
+}
+
+/**
+ * Entries a week's WAR is generated from when the viewer hasn't picked any:
+ * their starred entries if the week has some, otherwise the whole week.
+ */
+export function getDefaultWAREntryIds(
+  entries: { id: string }[],
+  starredIds: ReadonlySet<string>,
+): string[] {
+  const starred = entries.filter((entry) => starredIds.has(entry.id));
+  return (starred.length > 0 ? starred : entries).map((entry) => entry.id);
+}
+
+/**
+ * Apply a week's entry selection, keeping feed order. Selected IDs that are no
+ * longer in the week (filtered out, deleted) are ignored; with no explicit
+ * selection the starred-or-all default applies.
+ */
+export function selectWAREntries<T extends { id: string }>(
+  entries: T[],
+  selectedIds: readonly string[] | undefined,
+  starredIds: ReadonlySet<string>,
+): T[] {
+  const ids = new Set(selectedIds ?? getDefaultWAREntryIds(entries, starredIds));
+  return entries.filter((entry) => ids.has(entry.id));
+}
@@ -0,0 +1,216 @@
+/**
+ * WAR roll-up: consolidate several saved WARs for one week into a single
+ * higher-echelon report.
+ *
+ * Bullets are flattened and de-duplicated here before the LLM sees them, so
+ * identical or near-identical items reported by multiple flights collapse to
+ * one numbered item. The LLM then re-categorizes (and may merge) items against
+ * the roll-up author's categories; bullet provenance is carried through by
+ * unioning the accomplishment IDs of every item a roll-up bullet cites.
+ */
+
+import {
+  attachWARAccomplishmentLinks,
+  resolveWARItem,
+  type StoredWARContent,
+  type WARAccomplishmentLink,
+  type WARCategory,
+  type WARReportItem,
+} from "@/lib/war-report";
+
+export interface WARRollupSourceReport {
+  id: string;
+  prepared_by: string;
+  unit_office_symbol: string | null;
+  content: Partial<StoredWARContent> | null;
+  links: Pick<WARAccomplishmentLink, "accomplishment_id" | "category" | "display_order">[];
+}
+
+export interface WARRollupItem {
+  text: string;
+  /** Category label the item had in its source WAR (a hint, not binding). */
+  source_category: string;
+  /** Who reported it, e.g. "MSgt Smith (1 FLT)"; several when duplicates merged. */
+  reported_by: string[];
+  report_ids: string[];
+  accomplishment_ids: string[];
+}
+
+/** Items with at least this much word overlap are treated as the same bullet. */
+export const WAR_ROLLUP_DUPLICATE_THRESHOLD = 0.8;
+
+/** Lowercase, strip punctuation and collapse whitespace for comparison. */
+export function normalizeWARItemText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9$%#\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function wordSet(text: string): Set<string> {
+  return new Set(normalizeWARItemText(text).split(" ").filter(Boolean));
+}
+
+/** Jaccard similarity of the two bullets' word sets (0–1). */
+export function getWARItemSimilarity(a: string, b: string): number {
+  const wordsA = wordSet(a);
+  const wordsB = wordSet(b);
+  if (wordsA.size === 0 && wordsB.size === 0) return 1;
+
+  let shared = 0;
+  for (const word of wordsA) {
+    if (wordsB.has(word)) shared++;
+  }
+  return shared / (wordsA.size + wordsB.size - shared);
+}
+
+function pushUnique(target: string[], values: string[]): void {
+  for (const value of values) {
+    if (!target.includes(value)) target.push(value);
+  }
+}
+
+/** Flatten every bullet of every source report, keeping who reported it and its sources. */
+export function flattenWARReportsForRollup(reports: WARRollupSourceReport[]): WARRollupItem[] {
+  return reports.flatMap((report) => {
+    const reporter = report.unit_office_symbol
+      ? `${report.prepared_by} (${report.unit_office_symbol})`
+      : report.prepared_by;
+
+    return attachWARAccomplishmentLinks(report.content, report.links).flatMap((category) =>
+      category.items
+        .filter((item) => item.text.trim())
+        .map((item) => ({
+          text: item.text.trim(),
+          source_category: category.label,
+          reported_by: [reporter],
+          report_ids: [report.id],
+          accomplishment_ids: [...item.accomplishment_ids],
+        }))
+    );
+  });
+}
+
+/**
+ * Collapse duplicate bullets. The longer wording wins (it usually carries the
+ * metrics); reporters, reports and accomplishment IDs are merged.
+ */
+export function dedupeWARRollupItems(
+  items: WARRollupItem[],
+  threshold = WAR_ROLLUP_DUPLICATE_THRESHOLD,
+): WARRollupItem[] {
+  const kept: WARRollupItem[] = [];
+
+  for (const item of items) {
+    const duplicate = kept.find(
+      (existing) =>
+        normalizeWARItemText(existing.text) === normalizeWARItemText(item.text) ||
+        getWARItemSimilarity(existing.text, item.text) >= threshold
+    );
+
+    if (!duplicate) {
+      kept.push({
+        ...item,
+        reported_by: [...item.reported_by],
+        report_ids: [...item.report_ids],
+        accomplishment_ids: [...item.accomplishment_ids],
+      });
+      continue;
+    }
+
+    if (item.text.length > duplicate.text.length) {
+      duplicate.text = item.text;
+    }
+    pushUnique(duplicate.reported_by, item.reported_by);
+    pushUnique(duplicate.report_ids, item.report_ids);
+    pushUnique(duplicate.accomplishment_ids, item.accomplishment_ids);
+  }
+
+  return kept;
+}
+
+export function buildWARRollupPrompt(
+  items: WARRollupItem[],
+  categories: WARCategory[],
+  synthesisInstructions: string | null,
+): string {
+  const sortedCategories = [...categories].sort((a, b) => a.order - b.order);
+
+  const itemsText = items
+    .map((item, i) =>
+      [
+        `Item ${i + 1}:`,
+        `  Reported by: ${item.reported_by.join("; ")}`,
+        `  Original category: ${item.source_category}`,
+        `  Text: ${item.text}`,
+      ].join("\n")
+    )
+    .join("\n\n");
+
+  const categoriesText = sortedCategories
+    .map((c, i) => `${i + 1}. "${c.key}" - ${c.label}\n   Description: ${c.description}`)
+    .join("\n\n");
+
+  const defaultInstructions = `
+- Keep bullets concise and leadership-focused: [Action taken] + [Result/Impact]
+- Merge items that describe the same effort into one bullet that keeps every metric
+- Do not drop an item unless it is fully covered by another bullet
+- Use no pronouns
+`;
+
+  return `You are an expert military staff officer consolidating subordinate Weekly Activity Reports (WARs) into a single higher-echelon WAR for leadership.
+
+## YOUR TASK
+The items below come from several WARs for the same week and have already been de-duplicated. Re-categorize every item into the categories below (the original category is only a hint), merge items that overlap, and tighten wording for a senior audience.
+
+## CATEGORIES
+The report must use these exact categories in this order:
+
+${categoriesText}
+
+## SYNTHESIS GUIDELINES
+${synthesisInstructions || defaultInstructions}
+
+## ITEMS TO CONSOLIDATE
+${itemsText}
+
+## OUTPUT FORMAT
+Return a valid JSON object with this exact structure:
+{
+  "categories": [
+    {
+      "key": "category_key",
+      "label": "Category Label",
+      "items": [
+        { "text": "Bullet point 1", "sources": [1, 4] }
+      ]
+    }
+  ]
+}
+
+IMPORTANT:
+- Include ALL categories in your response, even if empty (use empty items array)
+- Each item "text" should be a complete bullet point (no bullet character, just text)
+- Each item "sources" must list the Item numbers the bullet covers (at least one)
+- Order categories exactly as specified above
+- Do NOT include any text outside the JSON object
+
+Generate the consolidated WAR now:`;
+}
+
+/**
+ * Map one LLM roll-up bullet back to accomplishments: `sources` are item
+ * numbers, each item carries the accomplishment IDs of the bullets it replaced.
+ */
+export function resolveWARRollupItem(raw: unknown, items: WARRollupItem[]): WARReportItem | null {
+  const itemKeys = items.map((_, i) => String(i));
+  const resolved = resolveWARItem(raw, itemKeys);
+  if (!resolved) return null;
+
+  const accomplishmentIds: string[] = [];
+  for (const key of resolved.accomplishment_ids) {
+    pushUnique(accomplishmentIds, items[Number(key)].accomplishment_ids);
+  }
+  return { text: resolved.text, accomplishment_ids: accomplishmentIds };
+}
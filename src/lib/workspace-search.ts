@@ -0,0 +1,116 @@
+/**
+ * Workspace search (command palette). The `search_workspace` RPC does the
+ * full-text, trigram and semantic matching and ranking under the caller's
+ * RLS; these helpers clean up the query, split the highlighted snippets and
+ * map each hit to the page that opens it.
+ */
+
+export const MIN_SEARCH_QUERY_LENGTH = 2;
+export const MAX_SEARCH_QUERY_LENGTH = 200;
+export const DEFAULT_SEARCH_LIMIT = 25;
+
+export type WorkspaceSearchSource =
+  | "accomplishment"
+  | "statement"
+  | "epb_section"
+  | "award_section"
+  | "decoration";
+
+/** Row shape returned by the search_workspace RPC. */
+export interface WorkspaceSearchRow {
+  source: WorkspaceSearchSource;
+  id: string;
+  shell_id: string | null;
+  owner_id: string;
+  team_member_id: string | null;
+  title: string;
+  snippet: string;
+  score: number;
+  /** Matched on meaning only; none of the query's words are in the text */
+  semantic_only: boolean;
+  updated_at: string;
+}
+
+export interface WorkspaceSearchResult extends WorkspaceSearchRow {
+  href: string;
+}
+
+export interface SnippetSegment {
+  text: string;
+  match: boolean;
+}
+
+export const SEARCH_SOURCE_LABELS: Record<WorkspaceSearchSource, string> = {
+  accomplishment: "Entries",
+  statement: "Library",
+  epb_section: "Archived EPBs",
+  award_section: "Awards",
+  decoration: "Decorations",
+};
+
+/** Trims and collapses whitespace; null when too short to search. */
+export function normalizeSearchQuery(raw: string | null | undefined): string | null {
+  const query = (raw ?? "").replace(/\s+/g, " ").trim().slice(0, MAX_SEARCH_QUERY_LENGTH);
+  return query.length >= MIN_SEARCH_QUERY_LENGTH ? query : null;
+}
+
+/** Splits a `[[match]]`-marked snippet from ts_headline into render segments. */
+export function splitSnippet(snippet: string): SnippetSegment[] {
+  const segments: SnippetSegment[] = [];
+  const pattern = /\[\[(.*?)\]\]/g;
+  let last = 0;
+  let m: RegExpExecArray | null;
+
+  while ((m = pattern.exec(snippet)) !== null) {
+    if (m.index > last) segments.push({ text: snippet.slice(last, m.index), match: false });
+    if (m[1]) segments.push({ text: m[1], match: true });
+    last = m.index + m[0].length;
+  }
+  if (last < snippet.length) segments.push({ text: snippet.slice(last), match: false });
+
+  return segments;
+}
+
+/**
+ * The first word the database actually matched. The library filters by plain
+ * substring, so passing the stemmed hit ("backlogs") finds the statement where
+ * the raw query ("backlog") might not.
+ */
+export function firstHighlightedTerm(snippet: string): string | null {
+  return splitSnippet(snippet).find((s) => s.match)?.text ?? null;
+}
+
+/** Longest opening of a semantic-only snippet used as the library filter */
+const SEMANTIC_TERM_LENGTH = 60;
+
+/**
+ * The snippet's opening words, cut at a word boundary. A semantic-only hit
+ * doesn't contain the query, so filtering the library by it would show
+ * nothing; its snippet is the start of the text, which does.
+ */
+export function openingTerm(snippet: string): string {
+  if (snippet.length <= SEMANTIC_TERM_LENGTH) return snippet.trim();
+  const head = snippet.slice(0, SEMANTIC_TERM_LENGTH);
+  const lastSpace = head.search(/\s\S*$/);
+  return (lastSpace > 0 ? head.slice(0, lastSpace) : head).trim();
+}
+
+export function buildSearchHref(row: WorkspaceSearchRow, query: string): string {
+  const term =
+    firstHighlightedTerm(row.snippet) ?? (row.semantic_only ? openingTerm(row.snippet) : query);
+
+  switch (row.source) {
+    case "accomplishment":
+      return `/entries?entry=${encodeURIComponent(row.id)}`;
+    case "statement":
+      return `/library?q=${encodeURIComponent(term)}`;
+    case "epb_section":
+      return row.shell_id
+        ? `/library?archived=${encodeURIComponent(row.shell_id)}&q=${encodeURIComponent(term)}`
+        : `/library?q=${encodeURIComponent(term)}`;
+    case "award_section":
+      return row.shell_id ? `/award?open=${encodeURIComponent(row.shell_id)}` : "/award";
+    case "decoration":
+      return `/decoration?open=${encodeURIComponent(row.id)}`;
+  }
+}
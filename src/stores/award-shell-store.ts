@@ -1,5 +1,6 @@
 import { create } from "zustand";
-import type { AwardShell, AwardShellSection, AwardShellSnapshot, AwardClarifyingAnswer, Rank, AwardLevel, AwardCategory } from "@/types/database";
+import type { AwardShell, AwardShellSection, AwardShellSnapshot, AwardClarifyingAnswer, ImpactBoosterState, Rank, AwardLevel, AwardCategory } from "@/types/database";
+import { normalizeImpactBooster, type ImpactBoosterPrompt } from "@/lib/impact-booster";
 import {
   AWARD_MODEL_PREFERENCE_STORAGE_KEY,
   getStoredModelPreference,
@@ -31,6 +32,12 @@ export interface SectionSlotState {
   
   // Persisted clarifying answers from follow-up questions
   clarifyingAnswers: AwardClarifyingAnswer[];
+
+  // Persisted Impact Booster answers + assessment for this slot
+  impactBooster: ImpactBoosterState;
+
+  // Pending Impact Booster questions from the latest generate (not persisted)
+  impactBoosterPrompts?: ImpactBoosterPrompt[];
 }
 
 // Ratee info for the selected member
@@ -124,6 +131,7 @@ const getDefaultSlotState = (): SectionSlotState => ({
   selectedActionIds: [],
   linesPerStatement: 2,
   clarifyingAnswers: [],
+  impactBooster: { answers: [] },
 });
 
 const getSectionKey = (category: string, slotIndex: number) => `${category}:${slotIndex}`;
@@ -176,6 +184,7 @@ export const useAwardShellStore = create<AwardShellState>((set, get) => ({
         selectedActionIds: section.selected_action_ids || [],
         linesPerStatement: section.lines_per_statement || 2,
         clarifyingAnswers: section.clarifying_answers || [],
+        impactBooster: normalizeImpactBooster(section.impact_booster),
       };
     });
     
@@ -211,6 +220,7 @@ export const useAwardShellStore = create<AwardShellState>((set, get) => ({
       selected_action_ids: [],
       lines_per_statement: state.sentencesPerStatement,
       clarifying_answers: [],
+      impact_booster: { answers: [] },
       last_edited_by: null,
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString(),
@@ -282,6 +292,7 @@ export const useAwardShellStore = create<AwardShellState>((set, get) => ({
           selectedActionIds: section.selected_action_ids || [],
           linesPerStatement: section.lines_per_statement || 2,
           clarifyingAnswers: section.clarifying_answers || [],
+          impactBooster: normalizeImpactBooster(section.impact_booster),
         },
       },
     }));
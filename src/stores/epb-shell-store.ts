@@ -1,7 +1,7 @@
 import { create } from "zustand";
 import { createClient } from "@/lib/supabase/client";
 import { DEFAULT_MPA_DESCRIPTIONS } from "@/lib/constants";
-import { normalizeImpactBooster } from "@/lib/impact-booster";
+import { normalizeImpactBooster, type ImpactBoosterPrompt } from "@/lib/impact-booster";
 import type {
   EPBShell,
   EPBShellSection,
@@ -9,7 +9,6 @@ import type {
   EPBSavedExample,
   Rank,
   MPADescriptions,
-  ImpactLever,
 } from "@/types/database";
 
 function normalizeSection(section: EPBShellSection): EPBShellSection {
@@ -19,14 +18,7 @@ function normalizeSection(section: EPBShellSection): EPBShellSection {
   };
 }
 
-/** Fresh Impact Booster prompts from the latest generate (session UI state) */
-export interface ImpactBoosterPrompt {
-  question: string;
-  category: string;
-  hint?: string;
-  lever?: ImpactLever;
-  sentenceNumber?: 1 | 2;
-}
+export type { ImpactBoosterPrompt };
 
 // MPA workspace mode for each section
 export type MPAWorkspaceMode = "view" | "edit" | "ai-assist";
@@ -0,0 +1,120 @@
+import { create } from "zustand";
+import { createClient } from "@/lib/supabase/client";
+import { NOTIFICATION_FEED_LIMIT } from "@/lib/notifications";
+import type { AppNotification } from "@/types/database";
+
+interface NotificationsState {
+  notifications: AppNotification[];
+  isLoading: boolean;
+  realtimeInitialized: boolean;
+  fetchNotifications: (userId: string) => Promise<void>;
+  initRealtime: (userId: string) => void;
+  markRead: (id: string) => Promise<void>;
+  markAllRead: () => Promise<void>;
+  reset: () => void;
+}
+
+let realtimeChannel: ReturnType<ReturnType<typeof createClient>["channel"]> | null =
+  null;
+
+export const useNotificationsStore = create<NotificationsState>((set, get) => ({
+  notifications: [],
+  isLoading: true,
+  realtimeInitialized: false,
+
+  fetchNotifications: async (userId: string) => {
+    set({ isLoading: true });
+    try {
+      const supabase = createClient();
+      const { data, error } = await supabase
+        .from("notifications" as never)
+        .select("*")
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false })
+        .limit(NOTIFICATION_FEED_LIMIT);
+      if (error) throw error;
+      set({ notifications: (data as unknown as AppNotification[]) ?? [], isLoading: false });
+    } catch {
+      set({ isLoading: false });
+    }
+  },
+
+  initRealtime: (userId: string) => {
+    if (get().realtimeInitialized || !userId) return;
+
+    const supabase = createClient();
+    realtimeChannel = supabase
+      .channel(`notifications:${userId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "notifications",
+          filter: `user_id=eq.${userId}`,
+        },
+        (payload) => {
+          const next = payload.new as AppNotification;
+          if (get().notifications.some((n) => n.id === next.id)) return;
+          set({
+            notifications: [next, ...get().notifications].slice(0, NOTIFICATION_FEED_LIMIT),
+          });
+        },
+      )
+      .subscribe();
+
+    set({ realtimeInitialized: true });
+  },
+
+  markRead: async (id: string) => {
+    const target = get().notifications.find((n) => n.id === id);
+    if (!target || target.read_at) return;
+
+    const readAt = new Date().toISOString();
+    set({
+      notifications: get().notifications.map((n) =>
+        n.id === id ? { ...n, read_at: readAt } : n,
+      ),
+    });
+    const supabase = createClient();
+    const { error } = await supabase
+      .from("notifications" as never)
+      .update({ read_at: readAt } as never)
+      .eq("id", id);
+    if (error) {
+      set({
+        notifications: get().notifications.map((n) =>
+          n.id === id ? { ...n, read_at: null } : n,
+        ),
+      });
+    }
+  },
+
+  markAllRead: async () => {
+    const unreadIds = get().notifications.filter((n) => !n.read_at).map((n) => n.id);
+    if (unreadIds.length === 0) return;
+
+    const previous = get().notifications;
+    const readAt = new Date().toISOString();
+    set({
+      notifications: previous.map((n) => (n.read_at ? n : { ...n, read_at: readAt })),
+    });
+    const supabase = createClient();
+    const { error } = await supabase
+      .from("notifications" as never)
+      .update({ read_at: readAt } as never)
+      .in("id", unreadIds);
+    if (error) {
+      set({ notifications: previous });
+    }
+  },
+
+  reset: () => {
+    if (realtimeChannel) {
+      const supabase = createClient();
+      supabase.removeChannel(realtimeChannel);
+      realtimeChannel = null;
+    }
+    set({ notifications: [], isLoading: true, realtimeInitialized: false });
+  },
+}));
@@ -1,6 +1,14 @@
 import { create } from "zustand";
+import { normalizeImpactBooster, type ImpactBoosterPrompt } from "@/lib/impact-booster";
 import type { OPBShell, OPBShellSection, OPBShellSnapshot, Rank } from "@/types/database";
 
+function normalizeSection(section: OPBShellSection): OPBShellSection {
+  return {
+    ...section,
+    impact_booster: normalizeImpactBooster(section.impact_booster),
+  };
+}
+
 // MPA workspace mode for each section
 export type OPBWorkspaceMode = "view" | "edit" | "ai-assist";
 
@@ -26,18 +34,23 @@ export interface OPBSectionState {
   usesTwoStatements: boolean;
   statement1Context: string; // Custom context for statement 1
   statement2Context: string; // Custom context for statement 2
+
+  /** Pending Impact Booster questions from latest generate (not persisted) */
+  impactBoosterPrompts: ImpactBoosterPrompt[];
 }
 
-// Officer info for the current user
+// Officer the OPB is written for: the signed-in officer, a subordinate
+// officer, or a managed member (id is then the team_members id)
 export interface OfficerInfo {
   id: string;
   fullName: string | null;
   rank: Rank | null;
   afsc: string | null;
+  isManagedMember: boolean;
 }
 
 interface OPBShellState {
-  // Current officer info (from profile)
+  // Officer the loaded OPB belongs to
   officerInfo: OfficerInfo | null;
   
   // The loaded OPB shell for the current cycle
@@ -132,6 +145,8 @@ const getDefaultSectionState = (): OPBSectionState => ({
   usesTwoStatements: false,
   statement1Context: "",
   statement2Context: "",
+
+  impactBoosterPrompts: [],
 });
 
 export const useOPBShellStore = create<OPBShellState>((set, get) => ({
@@ -178,7 +193,7 @@ export const useOPBShellStore = create<OPBShellState>((set, get) => ({
     if (shell?.sections) {
       const sectionsMap: Record<string, OPBShellSection> = {};
       shell.sections.forEach((s) => {
-        sectionsMap[s.mpa] = s;
+        sectionsMap[s.mpa] = normalizeSection(s);
       });
       set({ sections: sectionsMap });
     } else {
@@ -194,7 +209,7 @@ export const useOPBShellStore = create<OPBShellState>((set, get) => ({
   setSections: (sections) => {
     const sectionsMap: Record<string, OPBShellSection> = {};
     sections.forEach((s) => {
-      sectionsMap[s.mpa] = s;
+      sectionsMap[s.mpa] = normalizeSection(s);
     });
     set({ sections: sectionsMap });
   },
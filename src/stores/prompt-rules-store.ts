@@ -1,8 +1,14 @@
 import { create } from "zustand";
-import type { PromptRule, PromptRuleContext } from "@/types/database";
+import type {
+  InheritedPromptRule,
+  PromptRule,
+  PromptRuleContext,
+} from "@/types/database";
 
 interface PromptRulesState {
   rulesByContext: Partial<Record<PromptRuleContext, PromptRule[]>>;
+  /** Read-only rules published by the user's chain of command. */
+  inheritedByContext: Partial<Record<PromptRuleContext, InheritedPromptRule[]>>;
   isLoading: Partial<Record<PromptRuleContext, boolean>>;
   isSaving: boolean;
   fetchRules: (context: PromptRuleContext) => Promise<void>;
@@ -21,6 +27,7 @@ interface PromptRulesState {
 
 export const usePromptRulesStore = create<PromptRulesState>((set, get) => ({
   rulesByContext: {},
+  inheritedByContext: {},
   isLoading: {},
   isSaving: false,
 
@@ -44,9 +51,16 @@ export const usePromptRulesStore = create<PromptRulesState>((set, get) => ({
         }));
         return;
       }
-      const data = (await res.json()) as { rules: PromptRule[] };
+      const data = (await res.json()) as {
+        rules: PromptRule[];
+        inherited?: InheritedPromptRule[];
+      };
       set((state) => ({
         rulesByContext: { ...state.rulesByContext, [context]: data.rules ?? [] },
+        inheritedByContext: {
+          ...state.inheritedByContext,
+          [context]: data.inherited ?? [],
+        },
         isLoading: { ...state.isLoading, [context]: false },
       }));
     } catch {
@@ -8,7 +8,13 @@ export type EnlistedRank =
   | "TSgt"
   | "MSgt"
   | "SMSgt"
-  | "CMSgt";
+  | "CMSgt"
+  // Space Force-only grades (E-1 to E-5); TSgt and above are shared
+  | "Spc1"
+  | "Spc2"
+  | "Spc3"
+  | "Spc4"
+  | "Sgt";
 
 // Officer Ranks
 export type OfficerRank =
@@ -26,22 +32,47 @@ export type OfficerRank =
 // All Ranks (Enlisted + Officer + Civilian)
 export type Rank = EnlistedRank | OfficerRank | "Civilian";
 
+/** Branch of service; selects the ServiceProfile (ranks, MPAs, limits, decorations). */
+export type ServiceBranch = "usaf" | "ussf";
+
+/**
+ * Why a member's evaluation period does not follow the rank SCOD: Guard or
+ * Reserve component cycle, change of reporting official, or an evaluation
+ * directed by the commander.
+ */
+export type EvaluationPeriodReason =
+  | "ang_cycle"
+  | "afr_cycle"
+  | "cro"
+  | "directed_by_commander"
+  | "other";
+
+/** Per-member evaluation period override; all three are set or all are null. */
+export interface EvaluationPeriodFields {
+  eval_period_start: string | null;
+  eval_period_end: string | null;
+  eval_period_reason: EvaluationPeriodReason | null;
+}
+
 export type UserRole = "member" | "admin";
-export type WritingStyle = "personal" | "community" | "chain_of_command";
+export type WritingStyle = "personal" | "community" | "chain_of_command" | "mentor";
 
-export interface Profile {
+export interface Profile extends EvaluationPeriodFields {
   id: string;
   email: string;
   full_name: string | null;
   first_name: string | null;
   last_name: string | null;
   rank: Rank | null;
+  service: ServiceBranch;
   afsc: string | null;
   unit: string | null;
   role: UserRole;
   supervisor_id: string | null;
   avatar_url: string | null;
   writing_style: WritingStyle;
+  /** Mentor persona used when writing_style is "mentor"; null once revoked. */
+  writing_mentor_persona_id: string | null;
   terms_accepted_at: string | null;
   billing_terms_accepted_at: string | null;
   /** null = legacy, never asked. false = declined. true = opted in. */
@@ -53,6 +84,11 @@ export interface Profile {
     | "settings"
     | "resend"
     | null;
+  /** Weekly team digest email; off until the supervisor turns it on. */
+  supervisor_digest_opt_in: boolean;
+  supervisor_digest_sent_at: string | null;
+  /** Notification types muted in Settings; matching events are not written. */
+  notification_muted_types: NotificationType[];
   trial_intro_seen_at: string | null;
   earn_tokens_intro_seen_at: string | null;
   coaching_features_intro_seen_at: string | null;
@@ -354,6 +390,36 @@ export type FeedbackType = 'initial' | 'midterm' | 'final';
 export type FeedbackStatus = 'draft' | 'shared';
 
 // Supervisor feedbacks - feedback sessions conducted by supervisor
+/** Mirrors ACAProficiencyLevel in constants (both rubric tiers). */
+export type AcaWorksheetLevel =
+  | "does_not_meet"
+  | "meets"
+  | "exceeds"
+  | "far_exceeds"
+  | "significantly_exceeds"
+  | "not_applicable";
+
+/** The rater's call on one ACA rubric subcategory. */
+export interface AcaWorksheetRating {
+  level: AcaWorksheetLevel | null;
+  /** Accomplishment ids backing the level */
+  evidence_ids: string[];
+  note: string;
+}
+
+export interface AcaWorksheetKnowingYourAirman {
+  goals: string;
+  stressors: string;
+  mentorship: string;
+  growth: string;
+}
+
+export interface AcaWorksheet {
+  /** Keyed by ACA rubric subcategory key (e.g. task_knowledge) */
+  ratings: Record<string, AcaWorksheetRating>;
+  knowing_your_airman: AcaWorksheetKnowingYourAirman;
+}
+
 export interface SupervisorFeedback {
   id: string;
   supervisor_id: string;
@@ -369,6 +435,8 @@ export interface SupervisorFeedback {
   shared_at: string | null;
   supervision_start_date: string;
   supervision_end_date: string | null;
+  /** Private rubric worksheet; null until the rater saves one. */
+  aca_worksheet: AcaWorksheet | null;
   created_at: string;
   updated_at: string;
   // Joined fields
@@ -389,7 +457,7 @@ export interface PendingManagedLink {
 // Managed Team Member (placeholder subordinate without an account)
 export type ManagedMemberStatus = "active" | "prior_subordinate" | "archived" | "pending_link";
 
-export interface ManagedMember {
+export interface ManagedMember extends EvaluationPeriodFields {
   id: string;
   supervisor_id: string;
   parent_profile_id: string | null; // Who this member reports to (real profile)
@@ -423,6 +491,29 @@ export interface PendingPriorDataReview {
   supervisor?: Profile;
 }
 
+// In-app notification center (rows are written by database triggers)
+export type NotificationType =
+  | "team_request"
+  | "managed_link"
+  | "prior_data_review"
+  | "award_request"
+  | "shell_share"
+  | "review_feedback"
+  | "supervisor_feedback";
+
+export interface AppNotification {
+  id: string;
+  user_id: string;
+  type: NotificationType;
+  title: string;
+  body: string | null;
+  /** App path that opens the page or dialog handling the event */
+  link: string | null;
+  actor_id: string | null;
+  read_at: string | null;
+  created_at: string;
+}
+
 // Award sentences per category configuration
 export interface AwardSentencesPerCategory {
   executing_mission: number;
@@ -464,6 +555,38 @@ export interface PromptRule {
   updated_at: string;
 }
 
+export interface PromptRulePackRule {
+  id: string;
+  pack_id: string;
+  context: PromptRuleContext;
+  rule_text: string;
+  sort_order: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PromptRulePack {
+  id: string;
+  owner_id: string;
+  name: string;
+  is_published: boolean;
+  created_at: string;
+  updated_at: string;
+  rules: PromptRulePackRule[];
+}
+
+/** A published pack rule from someone in the user's supervisor chain. */
+export interface InheritedPromptRule {
+  id: string;
+  rule_text: string;
+  pack_id: string;
+  pack_name: string;
+  owner_id: string;
+  owner_name: string;
+  /** 1 = direct supervisor, 2 = their supervisor, and so on. */
+  depth: number;
+}
+
 export interface UserLLMSettings {
   id: string;
   user_id: string;
@@ -673,6 +796,15 @@ export interface AwardCatalog {
 
 export type EPBShellStatus = 'active' | 'archived';
 
+/** Where an EPB sits in the routing chain; see src/lib/epb-workflow.ts */
+export type EPBWorkflowState =
+  | 'drafting'
+  | 'ratee_review'
+  | 'rater'
+  | 'additional_rater'
+  | 'senior_rater'
+  | 'finalized';
+
 export interface EPBShell {
   id: string;
   user_id: string;
@@ -685,6 +817,9 @@ export interface EPBShell {
   status: EPBShellStatus; // 'active' or 'archived'
   archived_at: string | null; // Timestamp when archived
   archive_name: string | null; // Custom name for the archived EPB
+  workflow_state: EPBWorkflowState; // Routing step, defaults to 'drafting'
+  workflow_state_changed_at: string;
+  workflow_state_changed_by: string | null;
   created_at: string;
   updated_at: string;
   // Joined fields
@@ -694,6 +829,16 @@ export interface EPBShell {
   creator_profile?: Profile;
 }
 
+/** One routing step change, written by trigger when workflow_state changes */
+export interface EPBShellWorkflowTransition {
+  id: string;
+  shell_id: string;
+  from_state: EPBWorkflowState;
+  to_state: EPBWorkflowState;
+  changed_by: string | null;
+  created_at: string;
+}
+
 /** Impact levers the Impact Booster assesses / prompts for */
 export type ImpactLever = "time" | "money" | "resources";
 
@@ -899,6 +1044,7 @@ export interface AwardShellSection {
   selected_action_ids: string[];
   lines_per_statement: 2 | 3;
   clarifying_answers: AwardClarifyingAnswer[];
+  impact_booster: ImpactBoosterState;
   last_edited_by: string | null;
   created_at: string;
   updated_at: string;
@@ -935,6 +1081,7 @@ export type OPBShellStatus = 'active' | 'archived';
 export interface OPBShell {
   id: string;
   user_id: string;
+  team_member_id: string | null; // Set for managed members (user_id is then the supervisor)
   created_by: string;
   cycle_year: number;
   duty_description: string;
@@ -956,6 +1103,7 @@ export interface OPBShellSection {
   mpa: string;
   statement_text: string;
   is_complete: boolean;
+  impact_booster: ImpactBoosterState;
   last_edited_by: string | null;
   created_at: string;
   updated_at: string;
@@ -1160,6 +1308,20 @@ export interface ToggleUsedPayload {
   fill_to_max: boolean;
 }
 
+/** Opt-in mentor style fingerprint built from accepted review-link feedback. */
+export interface MentorPersona {
+  id: string;
+  mentor_id: string;
+  display_name: string;
+  signature_text: string;
+  signature_factors: Record<string, unknown>;
+  source_comment_count: number;
+  source_hash: string | null;
+  version: number;
+  created_at: string;
+  updated_at: string;
+}
+
 // ============================================
 // PROJECTS SYSTEM TYPES
 // ============================================
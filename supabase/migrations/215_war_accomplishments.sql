@@ -0,0 +1,77 @@
+-- WAR bullet provenance
+-- Links each synthesized WAR bullet back to the accomplishments it was written from.
+-- A bullet is addressed by (category, display_order), matching its position in
+-- war_reports.content.categories[].items. Links are rewritten whenever the report
+-- is saved, through replace_war_accomplishment_links so a failed save keeps the old ones.
+
+CREATE TABLE war_accomplishments (
+  war_id UUID NOT NULL REFERENCES war_reports(id) ON DELETE CASCADE,
+  accomplishment_id UUID NOT NULL REFERENCES accomplishments(id) ON DELETE CASCADE,
+  category TEXT NOT NULL,
+  display_order INT NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (war_id, category, display_order, accomplishment_id)
+);
+
+-- Enable RLS
+ALTER TABLE war_accomplishments ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (access follows ownership of the parent report)
+CREATE POLICY "Users can view own WAR accomplishment links"
+  ON war_accomplishments FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM war_reports
+      WHERE war_reports.id = war_accomplishments.war_id
+        AND war_reports.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can insert own WAR accomplishment links"
+  ON war_accomplishments FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM war_reports
+      WHERE war_reports.id = war_accomplishments.war_id
+        AND war_reports.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can delete own WAR accomplishment links"
+  ON war_accomplishments FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM war_reports
+      WHERE war_reports.id = war_accomplishments.war_id
+        AND war_reports.user_id = auth.uid()
+    )
+  );
+
+-- Replace a report's links in one transaction. SECURITY INVOKER: the policies
+-- above still decide whose report this can touch.
+CREATE OR REPLACE FUNCTION public.replace_war_accomplishment_links(p_war_id UUID, p_links JSONB)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = ''
+AS $function$
+BEGIN
+  DELETE FROM public.war_accomplishments WHERE war_id = p_war_id;
+
+  INSERT INTO public.war_accomplishments (war_id, accomplishment_id, category, display_order)
+  SELECT p_war_id, link.accomplishment_id, link.category, link.display_order
+  FROM jsonb_to_recordset(COALESCE(p_links, '[]'::jsonb))
+    AS link(accomplishment_id UUID, category TEXT, display_order INT)
+  ON CONFLICT DO NOTHING;
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.replace_war_accomplishment_links(UUID, JSONB) TO authenticated;
+
+-- Indexes
+CREATE INDEX idx_war_accomplishments_accomplishment ON war_accomplishments(accomplishment_id);
+
+-- Comments
+COMMENT ON TABLE war_accomplishments IS 'Per-bullet provenance for WAR reports: which accomplishments each bullet was synthesized from';
+COMMENT ON COLUMN war_accomplishments.category IS 'WAR category key the bullet lives in';
+COMMENT ON COLUMN war_accomplishments.display_order IS 'Zero-based index of the bullet within its category items';
@@ -0,0 +1,32 @@
+-- WAR roll-ups
+-- A roll-up consolidates several WARs for the same week from the author's
+-- supervision subtree into one higher-echelon report. Roll-ups are stored in
+-- war_reports alongside team WARs and remember which reports they merged.
+
+ALTER TABLE war_reports
+  ADD COLUMN report_type TEXT NOT NULL DEFAULT 'team' CHECK (report_type IN ('team', 'rollup')),
+  ADD COLUMN source_report_ids UUID[] NOT NULL DEFAULT '{}';
+
+-- Supervisors read subordinate WARs (and their bullet provenance) to roll them up
+CREATE POLICY "Chain supervisors can view subordinate chain WAR reports"
+  ON war_reports FOR SELECT
+  USING (
+    user_id IN (SELECT subordinate_id FROM get_subordinate_chain(auth.uid()))
+  );
+
+CREATE POLICY "Chain supervisors can view subordinate chain WAR accomplishment links"
+  ON war_accomplishments FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM war_reports
+      WHERE war_reports.id = war_accomplishments.war_id
+        AND war_reports.user_id IN (SELECT subordinate_id FROM get_subordinate_chain(auth.uid()))
+    )
+  );
+
+-- Indexes
+CREATE INDEX idx_war_reports_week_start ON war_reports(week_start);
+
+-- Comments
+COMMENT ON COLUMN war_reports.report_type IS 'team = generated from accomplishments, rollup = consolidated from other WAR reports';
+COMMENT ON COLUMN war_reports.source_report_ids IS 'For roll-ups: the war_reports that were merged into this one';
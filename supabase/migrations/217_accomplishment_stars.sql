@@ -0,0 +1,41 @@
+-- Accomplishment stars
+-- Per-viewer flags supervisors use to curate feed entries for their WAR.
+-- Stars are private to the user who set them: two supervisors in the same
+-- chain can star different entries from the same subordinate.
+
+CREATE TABLE accomplishment_stars (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  accomplishment_id UUID NOT NULL REFERENCES accomplishments(id) ON DELETE CASCADE,
+  starred_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (user_id, accomplishment_id)
+);
+
+-- Enable RLS
+ALTER TABLE accomplishment_stars ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies (a user only ever sees and manages their own stars)
+CREATE POLICY "Users can view own accomplishment stars"
+  ON accomplishment_stars FOR SELECT
+  USING (user_id = auth.uid());
+
+-- The accomplishment must be visible to the user under accomplishments' own RLS
+CREATE POLICY "Users can star visible accomplishments"
+  ON accomplishment_stars FOR INSERT
+  WITH CHECK (
+    user_id = auth.uid()
+    AND EXISTS (
+      SELECT 1 FROM accomplishments
+      WHERE accomplishments.id = accomplishment_stars.accomplishment_id
+    )
+  );
+
+CREATE POLICY "Users can delete own accomplishment stars"
+  ON accomplishment_stars FOR DELETE
+  USING (user_id = auth.uid());
+
+-- Indexes
+CREATE INDEX idx_accomplishment_stars_accomplishment ON accomplishment_stars(accomplishment_id);
+
+-- Comments
+COMMENT ON TABLE accomplishment_stars IS 'Per-user starred accomplishments, used to curate entries for WAR generation';
@@ -0,0 +1,20 @@
+-- Local / OpenAI-compatible model endpoints (Ollama, vLLM, LM Studio, on-prem gateways)
+-- Catalog rows for an admin-configured endpoint use provider 'local' and IDs
+-- prefixed with 'local:'. Users on self-hosted deployments can also save their
+-- own endpoint; the URL and optional key are encrypted like the provider keys.
+
+ALTER TABLE llm_model_catalog
+  DROP CONSTRAINT IF EXISTS llm_model_catalog_provider_check;
+
+ALTER TABLE llm_model_catalog
+  ADD CONSTRAINT llm_model_catalog_provider_check
+  CHECK (provider IN ('openai', 'anthropic', 'google', 'xai', 'local'));
+
+ALTER TABLE user_api_keys
+  ADD COLUMN IF NOT EXISTS local_base_url TEXT,
+  ADD COLUMN IF NOT EXISTS local_key TEXT,
+  ADD COLUMN IF NOT EXISTS local_models TEXT[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN user_api_keys.local_base_url IS 'Encrypted base URL of the user''s OpenAI-compatible endpoint (only honored when LOCAL_LLM_ALLOW_USER_ENDPOINTS=true)';
+COMMENT ON COLUMN user_api_keys.local_key IS 'Encrypted optional bearer key for the local endpoint';
+COMMENT ON COLUMN user_api_keys.local_models IS 'Model IDs (local: prefixed) discovered via GET /v1/models when the endpoint was saved or refreshed';
@@ -0,0 +1,127 @@
+-- Prompt rule packs
+-- A supervisor groups house-style rules into named packs. Once a pack is
+-- published, its rules are appended to the prompts of everyone below the owner
+-- in the supervision chain (see get_supervisor_chain), after the subordinate's
+-- own user_prompt_rules. Subordinates can read published packs but never edit
+-- them; only the owner manages a pack and its rules.
+
+CREATE TABLE prompt_rule_packs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(trim(name)) > 0 AND char_length(name) <= 80),
+  is_published BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE prompt_rule_pack_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  pack_id UUID NOT NULL REFERENCES prompt_rule_packs(id) ON DELETE CASCADE,
+  context prompt_rule_context NOT NULL,
+  rule_text TEXT NOT NULL CHECK (char_length(trim(rule_text)) > 0 AND char_length(rule_text) <= 500),
+  sort_order INT NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Indexes
+CREATE INDEX idx_prompt_rule_packs_owner ON prompt_rule_packs (owner_id);
+CREATE INDEX idx_prompt_rule_packs_owner_published
+  ON prompt_rule_packs (owner_id)
+  WHERE is_published = true;
+CREATE INDEX idx_prompt_rule_pack_rules_pack_context
+  ON prompt_rule_pack_rules (pack_id, context, sort_order);
+
+-- Enable RLS
+ALTER TABLE prompt_rule_packs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE prompt_rule_pack_rules ENABLE ROW LEVEL SECURITY;
+
+-- Packs: owner manages, chain subordinates read published packs
+CREATE POLICY "Owners can view own rule packs"
+  ON prompt_rule_packs FOR SELECT
+  USING ((select auth.uid()) = owner_id);
+
+CREATE POLICY "Chain subordinates can view published rule packs"
+  ON prompt_rule_packs FOR SELECT
+  USING (
+    is_published = true
+    AND owner_id IN (
+      SELECT supervisor_id FROM get_supervisor_chain((select auth.uid()))
+    )
+  );
+
+CREATE POLICY "Owners can insert own rule packs"
+  ON prompt_rule_packs FOR INSERT
+  WITH CHECK ((select auth.uid()) = owner_id);
+
+CREATE POLICY "Owners can update own rule packs"
+  ON prompt_rule_packs FOR UPDATE
+  USING ((select auth.uid()) = owner_id)
+  WITH CHECK ((select auth.uid()) = owner_id);
+
+CREATE POLICY "Owners can delete own rule packs"
+  ON prompt_rule_packs FOR DELETE
+  USING ((select auth.uid()) = owner_id);
+
+-- Pack rules: readable whenever the pack is readable, writable by the pack owner
+CREATE POLICY "Users can view rules of visible packs"
+  ON prompt_rule_pack_rules FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM prompt_rule_packs
+      WHERE prompt_rule_packs.id = prompt_rule_pack_rules.pack_id
+    )
+  );
+
+CREATE POLICY "Owners can insert pack rules"
+  ON prompt_rule_pack_rules FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM prompt_rule_packs
+      WHERE prompt_rule_packs.id = prompt_rule_pack_rules.pack_id
+        AND prompt_rule_packs.owner_id = (select auth.uid())
+    )
+  );
+
+CREATE POLICY "Owners can update pack rules"
+  ON prompt_rule_pack_rules FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM prompt_rule_packs
+      WHERE prompt_rule_packs.id = prompt_rule_pack_rules.pack_id
+        AND prompt_rule_packs.owner_id = (select auth.uid())
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM prompt_rule_packs
+      WHERE prompt_rule_packs.id = prompt_rule_pack_rules.pack_id
+        AND prompt_rule_packs.owner_id = (select auth.uid())
+    )
+  );
+
+CREATE POLICY "Owners can delete pack rules"
+  ON prompt_rule_pack_rules FOR DELETE
+  USING (
+    EXISTS (
+      SELECT 1 FROM prompt_rule_packs
+      WHERE prompt_rule_packs.id = prompt_rule_pack_rules.pack_id
+        AND prompt_rule_packs.owner_id = (select auth.uid())
+    )
+  );
+
+-- updated_at triggers (reuse the user_prompt_rules trigger function)
+CREATE TRIGGER prompt_rule_packs_updated_at
+  BEFORE UPDATE ON prompt_rule_packs
+  FOR EACH ROW
+  EXECUTE FUNCTION update_user_prompt_rules_updated_at();
+
+CREATE TRIGGER prompt_rule_pack_rules_updated_at
+  BEFORE UPDATE ON prompt_rule_pack_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION update_user_prompt_rules_updated_at();
+
+-- Comments
+COMMENT ON TABLE prompt_rule_packs IS 'Named groups of prompt rules a supervisor publishes to everyone in their subordinate chain';
+COMMENT ON COLUMN prompt_rule_packs.is_published IS 'Only published packs are visible to and applied for chain subordinates';
+COMMENT ON TABLE prompt_rule_pack_rules IS 'Per-context rules inside a prompt rule pack; appended after the user''s own rules and take precedence over them';
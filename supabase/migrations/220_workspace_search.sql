@@ -0,0 +1,340 @@
+-- Workspace search
+-- One RPC behind the command palette that searches everything the caller can
+-- already read: accomplishments, library statements, archived EPB sections,
+-- award sections and decoration citations. It runs as SECURITY INVOKER, so
+-- every source is filtered by that table's own RLS policies.
+--
+-- Matching is English full-text search (stemmed, websearch syntax: quotes,
+-- OR, -exclude) with a trigram word-similarity fallback, so misspellings and
+-- partial words ("tcto backlg") still find results. On top of that, each row's
+-- text is embedded (search_embeddings, filled by the search-embeddings cron)
+-- and the route passes the query's embedding, so "aircraft maintenance
+-- backlog" also finds "cleared 40 overdue TCTOs on F-16s".
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+CREATE EXTENSION IF NOT EXISTS vector WITH SCHEMA extensions;
+
+-- ============================================
+-- INDEXES
+-- ============================================
+-- Expressions must match the ones in search_workspace exactly. Every column is
+-- COALESCEd: impact has been nullable since 084, and one NULL would null out
+-- the whole body and hide the entry from search.
+
+CREATE INDEX IF NOT EXISTS idx_accomplishments_search ON accomplishments
+  USING GIN (to_tsvector('english',
+    COALESCE(action_verb, '') || ' ' || COALESCE(details, '') || ' ' || COALESCE(impact, '') || ' ' || COALESCE(metrics, '')
+  ));
+CREATE INDEX IF NOT EXISTS idx_accomplishments_search_trgm ON accomplishments
+  USING GIN ((
+    COALESCE(action_verb, '') || ' ' || COALESCE(details, '') || ' ' || COALESCE(impact, '') || ' ' || COALESCE(metrics, '')
+  ) extensions.gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_refined_statements_search ON refined_statements
+  USING GIN (to_tsvector('english', statement));
+CREATE INDEX IF NOT EXISTS idx_refined_statements_search_trgm ON refined_statements
+  USING GIN (statement extensions.gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_epb_shell_sections_search ON epb_shell_sections
+  USING GIN (to_tsvector('english', statement_text));
+CREATE INDEX IF NOT EXISTS idx_epb_shell_sections_search_trgm ON epb_shell_sections
+  USING GIN (statement_text extensions.gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_award_shell_sections_search ON award_shell_sections
+  USING GIN (to_tsvector('english', statement_text));
+CREATE INDEX IF NOT EXISTS idx_award_shell_sections_search_trgm ON award_shell_sections
+  USING GIN (statement_text extensions.gin_trgm_ops);
+
+CREATE INDEX IF NOT EXISTS idx_decoration_shells_search ON decoration_shells
+  USING GIN (to_tsvector('english', citation_text));
+CREATE INDEX IF NOT EXISTS idx_decoration_shells_search_trgm ON decoration_shells
+  USING GIN (citation_text extensions.gin_trgm_ops);
+
+-- ============================================
+-- EMBEDDINGS
+-- ============================================
+-- One row per searchable row, keyed by the same source names search_workspace
+-- returns. content_hash is md5 of the text that was embedded; the cron
+-- re-embeds rows whose text has changed since. Kept apart from the source
+-- tables so writing an embedding never touches their updated_at.
+
+CREATE TABLE IF NOT EXISTS search_embeddings (
+  source TEXT NOT NULL CHECK (source IN (
+    'accomplishment',
+    'statement',
+    'epb_section',
+    'award_section',
+    'decoration'
+  )),
+  source_id UUID NOT NULL,
+  content_hash TEXT NOT NULL,
+  embedding extensions.vector(1536) NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (source, source_id)
+);
+
+ALTER TABLE search_embeddings ENABLE ROW LEVEL SECURITY;
+
+-- An embedding is as private as its text: readable only while the source row is
+CREATE POLICY "Users can view embeddings of rows they can see"
+  ON search_embeddings FOR SELECT
+  TO authenticated
+  USING (
+    CASE source
+      WHEN 'accomplishment' THEN EXISTS (SELECT 1 FROM accomplishments x WHERE x.id = search_embeddings.source_id)
+      WHEN 'statement' THEN EXISTS (SELECT 1 FROM refined_statements x WHERE x.id = search_embeddings.source_id)
+      WHEN 'epb_section' THEN EXISTS (SELECT 1 FROM epb_shell_sections x WHERE x.id = search_embeddings.source_id)
+      WHEN 'award_section' THEN EXISTS (SELECT 1 FROM award_shell_sections x WHERE x.id = search_embeddings.source_id)
+      WHEN 'decoration' THEN EXISTS (SELECT 1 FROM decoration_shells x WHERE x.id = search_embeddings.source_id)
+      ELSE false
+    END
+  );
+
+-- Written by the search-embeddings cron (service role) only: no INSERT/UPDATE/DELETE policies.
+
+COMMENT ON TABLE search_embeddings IS 'text-embedding-3-small vectors of searchable rows for the semantic half of search_workspace';
+
+-- ============================================
+-- SEARCH FUNCTION
+-- ============================================
+-- Returns at most p_limit (capped at 50) results ordered by score.
+-- Snippets mark matched words with [[ ]]; trigram and semantic matches get
+-- the first 200 characters instead. p_embedding is the query's embedding;
+-- without it (no embedding key, or the provider failed) search is lexical.
+-- A row matches on meaning alone at cosine similarity >= 0.4.
+
+DROP FUNCTION IF EXISTS public.search_workspace(TEXT, INT);
+
+CREATE OR REPLACE FUNCTION public.search_workspace(
+  p_query TEXT,
+  p_limit INT DEFAULT 25,
+  p_embedding extensions.vector DEFAULT NULL
+)
+RETURNS TABLE (
+  source TEXT,
+  id UUID,
+  shell_id UUID,
+  owner_id UUID,
+  team_member_id UUID,
+  title TEXT,
+  snippet TEXT,
+  score REAL,
+  semantic_only BOOLEAN,
+  updated_at TIMESTAMPTZ
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public, extensions
+AS $$
+  WITH matches AS (
+    SELECT
+      'accomplishment'::text AS source,
+      a.id,
+      NULL::uuid AS shell_id,
+      a.user_id AS owner_id,
+      a.team_member_id,
+      a.action_verb || ' · ' || to_char(a.date, 'DD Mon YYYY') AS title,
+      COALESCE(a.action_verb, '') || ' ' || COALESCE(a.details, '') || ' ' || COALESCE(a.impact, '') || ' ' || COALESCE(a.metrics, '') AS body,
+      COALESCE(1 - (se.embedding <=> p_embedding), 0)::real AS semantic,
+      a.updated_at
+    FROM accomplishments a
+    LEFT JOIN search_embeddings se ON se.source = 'accomplishment' AND se.source_id = a.id
+    WHERE to_tsvector('english',
+            COALESCE(a.action_verb, '') || ' ' || COALESCE(a.details, '') || ' ' || COALESCE(a.impact, '') || ' ' || COALESCE(a.metrics, '')
+          ) @@ websearch_to_tsquery('english', p_query)
+       OR p_query <% (COALESCE(a.action_verb, '') || ' ' || COALESCE(a.details, '') || ' ' || COALESCE(a.impact, '') || ' ' || COALESCE(a.metrics, ''))
+       OR 1 - (se.embedding <=> p_embedding) >= 0.4
+
+    UNION ALL
+
+    SELECT
+      'statement',
+      rs.id,
+      rs.source_epb_shell_id,
+      rs.user_id,
+      NULL::uuid,
+      'Library statement · ' || rs.cycle_year,
+      rs.statement,
+      COALESCE(1 - (se.embedding <=> p_embedding), 0)::real,
+      rs.updated_at
+    FROM refined_statements rs
+    LEFT JOIN search_embeddings se ON se.source = 'statement' AND se.source_id = rs.id
+    WHERE to_tsvector('english', rs.statement) @@ websearch_to_tsquery('english', p_query)
+       OR p_query <% rs.statement
+       OR 1 - (se.embedding <=> p_embedding) >= 0.4
+
+    UNION ALL
+
+    SELECT
+      'epb_section',
+      s.id,
+      s.shell_id,
+      e.user_id,
+      e.team_member_id,
+      COALESCE(NULLIF(e.archive_name, ''), 'Archived EPB ' || e.cycle_year),
+      s.statement_text,
+      COALESCE(1 - (se.embedding <=> p_embedding), 0)::real,
+      s.updated_at
+    FROM epb_shell_sections s
+    JOIN epb_shells e ON e.id = s.shell_id
+    LEFT JOIN search_embeddings se ON se.source = 'epb_section' AND se.source_id = s.id
+    WHERE e.status = 'archived'
+      AND (
+        to_tsvector('english', s.statement_text) @@ websearch_to_tsquery('english', p_query)
+        OR p_query <% s.statement_text
+        OR 1 - (se.embedding <=> p_embedding) >= 0.4
+      )
+
+    UNION ALL
+
+    SELECT
+      'award_section',
+      s.id,
+      s.shell_id,
+      w.user_id,
+      w.team_member_id,
+      COALESCE(NULLIF(w.title, ''), 'Award package ' || w.cycle_year),
+      s.statement_text,
+      COALESCE(1 - (se.embedding <=> p_embedding), 0)::real,
+      s.updated_at
+    FROM award_shell_sections s
+    JOIN award_shells w ON w.id = s.shell_id
+    LEFT JOIN search_embeddings se ON se.source = 'award_section' AND se.source_id = s.id
+    WHERE to_tsvector('english', s.statement_text) @@ websearch_to_tsquery('english', p_query)
+       OR p_query <% s.statement_text
+       OR 1 - (se.embedding <=> p_embedding) >= 0.4
+
+    UNION ALL
+
+    SELECT
+      'decoration',
+      d.id,
+      d.id,
+      d.user_id,
+      d.team_member_id,
+      upper(d.award_type) || ' citation' || COALESCE(' · ' || NULLIF(d.duty_title, ''), ''),
+      d.citation_text,
+      COALESCE(1 - (se.embedding <=> p_embedding), 0)::real,
+      d.updated_at
+    FROM decoration_shells d
+    LEFT JOIN search_embeddings se ON se.source = 'decoration' AND se.source_id = d.id
+    WHERE to_tsvector('english', d.citation_text) @@ websearch_to_tsquery('english', p_query)
+       OR p_query <% d.citation_text
+       OR 1 - (se.embedding <=> p_embedding) >= 0.4
+  ),
+  ranked AS (
+    SELECT
+      m.*,
+      (
+        ts_rank_cd(to_tsvector('english', m.body), websearch_to_tsquery('english', p_query))
+        + word_similarity(p_query, m.body)
+        + m.semantic
+      )::real AS score,
+      NOT (
+        to_tsvector('english', m.body) @@ websearch_to_tsquery('english', p_query)
+        OR p_query <% m.body
+      ) AS semantic_only
+    FROM matches m
+    ORDER BY score DESC, m.updated_at DESC
+    LIMIT LEAST(GREATEST(COALESCE(p_limit, 25), 1), 50)
+  )
+  SELECT
+    r.source,
+    r.id,
+    r.shell_id,
+    r.owner_id,
+    r.team_member_id,
+    r.title,
+    CASE
+      WHEN to_tsvector('english', r.body) @@ websearch_to_tsquery('english', p_query)
+        THEN ts_headline(
+          'english',
+          r.body,
+          websearch_to_tsquery('english', p_query),
+          'StartSel=[[, StopSel=]], MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "'
+        )
+      ELSE left(r.body, 200)
+    END AS snippet,
+    r.score,
+    r.semantic_only,
+    r.updated_at
+  FROM ranked r
+  ORDER BY r.score DESC, r.updated_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_workspace(TEXT, INT, extensions.vector) TO authenticated;
+
+COMMENT ON FUNCTION public.search_workspace(TEXT, INT, extensions.vector) IS
+  'Ranked full-text + trigram + embedding search over accomplishments, library statements, archived EPB sections, award sections and decoration citations visible to the caller under RLS';
+
+-- ============================================
+-- EMBEDDING BACKLOG (search-embeddings cron)
+-- ============================================
+-- Rows with text but no embedding, or whose text changed since it was
+-- embedded. Bodies must match the ones search_workspace builds.
+
+CREATE OR REPLACE FUNCTION public.get_search_embedding_backlog(p_limit INT DEFAULT 100)
+RETURNS TABLE (
+  source TEXT,
+  source_id UUID,
+  body TEXT,
+  content_hash TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public, extensions
+AS $$
+  WITH docs AS (
+    SELECT
+      'accomplishment'::text AS source,
+      a.id AS source_id,
+      COALESCE(a.action_verb, '') || ' ' || COALESCE(a.details, '') || ' ' || COALESCE(a.impact, '') || ' ' || COALESCE(a.metrics, '') AS body
+    FROM accomplishments a
+    UNION ALL
+    SELECT 'statement', rs.id, rs.statement FROM refined_statements rs
+    UNION ALL
+    SELECT 'epb_section', s.id, s.statement_text
+    FROM epb_shell_sections s
+    JOIN epb_shells e ON e.id = s.shell_id
+    WHERE e.status = 'archived'
+    UNION ALL
+    SELECT 'award_section', s.id, s.statement_text FROM award_shell_sections s
+    UNION ALL
+    SELECT 'decoration', d.id, d.citation_text FROM decoration_shells d
+  )
+  SELECT d.source, d.source_id, d.body, md5(d.body)
+  FROM docs d
+  LEFT JOIN search_embeddings se ON se.source = d.source AND se.source_id = d.source_id
+  WHERE btrim(d.body) <> ''
+    AND se.content_hash IS DISTINCT FROM md5(d.body)
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 100), 1), 500);
+$$;
+
+-- Embeddings whose source row is gone
+CREATE OR REPLACE FUNCTION public.prune_search_embeddings()
+RETURNS INT
+LANGUAGE sql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  WITH pruned AS (
+    DELETE FROM search_embeddings se
+    WHERE NOT CASE se.source
+      WHEN 'accomplishment' THEN EXISTS (SELECT 1 FROM accomplishments x WHERE x.id = se.source_id)
+      WHEN 'statement' THEN EXISTS (SELECT 1 FROM refined_statements x WHERE x.id = se.source_id)
+      WHEN 'epb_section' THEN EXISTS (SELECT 1 FROM epb_shell_sections x WHERE x.id = se.source_id)
+      WHEN 'award_section' THEN EXISTS (SELECT 1 FROM award_shell_sections x WHERE x.id = se.source_id)
+      WHEN 'decoration' THEN EXISTS (SELECT 1 FROM decoration_shells x WHERE x.id = se.source_id)
+      ELSE false
+    END
+    RETURNING 1
+  )
+  SELECT count(*)::int FROM pruned;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_search_embedding_backlog(INT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.prune_search_embeddings() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_search_embedding_backlog(INT) TO service_role;
+GRANT EXECUTE ON FUNCTION public.prune_search_embeddings() TO service_role;
@@ -0,0 +1,382 @@
+-- OPB parity with EPB: supervisors write OPBs for subordinate officers and
+-- managed members, share them, and co-edit with per-MPA section locks.
+--
+-- Ownership follows epb_shells:
+--   * Real subordinate: user_id = subordinate, team_member_id IS NULL
+--   * Managed member:   user_id = creating supervisor, team_member_id set
+
+-- ============================================================================
+-- OPB_SHELLS: managed member ownership
+-- ============================================================================
+
+ALTER TABLE opb_shells
+  ADD COLUMN IF NOT EXISTS team_member_id UUID REFERENCES team_members(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_opb_shells_team_member ON opb_shells(team_member_id);
+
+-- A supervisor can now hold their own OPB and one per managed member in the same cycle
+ALTER TABLE opb_shells DROP CONSTRAINT IF EXISTS unique_opb_shell_per_user_cycle;
+ALTER TABLE opb_shells
+  ADD CONSTRAINT unique_opb_shell_per_user_cycle
+  UNIQUE NULLS NOT DISTINCT (user_id, team_member_id, cycle_year, status);
+
+COMMENT ON COLUMN opb_shells.team_member_id IS
+  'Set when the OPB belongs to a managed member; user_id is then the supervisor who created it';
+
+-- ============================================================================
+-- ACCESS HELPER
+-- ============================================================================
+-- One definition of "may edit this OPB" shared by the section, snapshot,
+-- share and lock policies below. SECURITY DEFINER so the nested lookups do not
+-- recurse through opb_shells RLS.
+
+CREATE OR REPLACE FUNCTION public.can_edit_opb_shell(p_shell_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $function$
+DECLARE
+  v_me UUID := auth.uid();
+  v_shell public.opb_shells%ROWTYPE;
+BEGIN
+  IF v_me IS NULL THEN
+    RETURN false;
+  END IF;
+
+  SELECT * INTO v_shell FROM public.opb_shells WHERE id = p_shell_id;
+  IF v_shell.id IS NULL THEN
+    RETURN false;
+  END IF;
+
+  -- Own shell, or a shell this user built for someone else
+  IF (v_shell.user_id = v_me AND v_shell.team_member_id IS NULL) OR v_shell.created_by = v_me THEN
+    RETURN true;
+  END IF;
+
+  -- Real subordinate anywhere in the chain
+  IF v_shell.team_member_id IS NULL AND EXISTS (
+    SELECT 1 FROM public.get_subordinate_chain(v_me) sc
+    WHERE sc.subordinate_id = v_shell.user_id
+  ) THEN
+    RETURN true;
+  END IF;
+
+  -- Managed member in the visible set
+  IF v_shell.team_member_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.get_visible_managed_members(v_me) vm
+    WHERE vm.id = v_shell.team_member_id
+  ) THEN
+    RETURN true;
+  END IF;
+
+  -- Explicit share
+  RETURN EXISTS (
+    SELECT 1 FROM public.opb_shell_shares oss
+    WHERE oss.shell_id = p_shell_id
+    AND oss.shared_with_id = v_me
+  );
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.can_edit_opb_shell(UUID) TO authenticated;
+
+-- ============================================================================
+-- OPB_SHELLS POLICIES - Supervisor chain
+-- ============================================================================
+
+-- The officer's own policies from 094/116 only match team_member_id IS NULL rows
+-- by virtue of user_id; tighten insert so a managed-member shell goes through
+-- the chain policy below.
+DROP POLICY IF EXISTS "Officers can create own opb shells" ON opb_shells;
+CREATE POLICY "Officers can create own opb shells"
+  ON opb_shells FOR INSERT
+  WITH CHECK (
+    user_id = (select auth.uid())
+    AND created_by = (select auth.uid())
+    AND team_member_id IS NULL
+  );
+
+CREATE POLICY "Supervisors can create opb shells for subordinates in chain"
+  ON opb_shells FOR INSERT
+  WITH CHECK (
+    created_by = (select auth.uid())
+    AND team_member_id IS NULL
+    AND user_id IN (
+      SELECT subordinate_id FROM get_subordinate_chain((select auth.uid()))
+    )
+  );
+
+CREATE POLICY "Supervisors can create opb shells for managed members in chain"
+  ON opb_shells FOR INSERT
+  WITH CHECK (
+    created_by = (select auth.uid())
+    AND team_member_id IS NOT NULL
+    AND team_member_id IN (
+      SELECT id FROM get_visible_managed_members((select auth.uid()))
+    )
+  );
+
+CREATE POLICY "Supervisors can view subordinate opb shells"
+  ON opb_shells FOR SELECT
+  USING (
+    (team_member_id IS NULL AND user_id IN (
+      SELECT subordinate_id FROM get_subordinate_chain((select auth.uid()))
+    ))
+    OR
+    (team_member_id IS NOT NULL AND team_member_id IN (
+      SELECT id FROM get_visible_managed_members((select auth.uid()))
+    ))
+  );
+
+CREATE POLICY "Supervisors can update subordinate opb shells"
+  ON opb_shells FOR UPDATE
+  USING (
+    (team_member_id IS NULL AND user_id IN (
+      SELECT subordinate_id FROM get_subordinate_chain((select auth.uid()))
+    ))
+    OR
+    (team_member_id IS NOT NULL AND team_member_id IN (
+      SELECT id FROM get_visible_managed_members((select auth.uid()))
+    ))
+  )
+  WITH CHECK (
+    (team_member_id IS NULL AND user_id IN (
+      SELECT subordinate_id FROM get_subordinate_chain((select auth.uid()))
+    ))
+    OR
+    (team_member_id IS NOT NULL AND team_member_id IN (
+      SELECT id FROM get_visible_managed_members((select auth.uid()))
+    ))
+  );
+
+-- Shared editors already see the shell; let them save the duty description too
+CREATE POLICY "Shared users can update opb shells"
+  ON opb_shells FOR UPDATE
+  USING (
+    EXISTS (
+      SELECT 1 FROM opb_shell_shares oss
+      WHERE oss.shell_id = opb_shells.id
+      AND oss.shared_with_id = (select auth.uid())
+    )
+  );
+
+-- ============================================================================
+-- SECTIONS, SNAPSHOTS, SHARES
+-- ============================================================================
+-- The create_opb_shell_sections trigger runs as the inserting user, so section
+-- insert must follow shell access rather than ownership.
+
+DROP POLICY IF EXISTS "Officers can insert opb sections for own shells" ON opb_shell_sections;
+CREATE POLICY "Officers can insert opb sections for own shells"
+  ON opb_shell_sections FOR INSERT
+  WITH CHECK (public.can_edit_opb_shell(shell_id));
+
+DROP POLICY IF EXISTS "Officers can update opb sections of accessible shells" ON opb_shell_sections;
+CREATE POLICY "Officers can update opb sections of accessible shells"
+  ON opb_shell_sections FOR UPDATE
+  USING (public.can_edit_opb_shell(shell_id));
+
+DROP POLICY IF EXISTS "Users can insert opb snapshots for accessible sections" ON opb_shell_snapshots;
+CREATE POLICY "Users can insert opb snapshots for accessible sections"
+  ON opb_shell_snapshots FOR INSERT
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM opb_shell_sections oss
+      WHERE oss.id = opb_shell_snapshots.section_id
+      AND public.can_edit_opb_shell(oss.shell_id)
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can insert opb duty description snapshots" ON opb_duty_description_snapshots;
+CREATE POLICY "Users can insert opb duty description snapshots"
+  ON opb_duty_description_snapshots FOR INSERT
+  WITH CHECK (public.can_edit_opb_shell(shell_id));
+
+-- Owner or supervisor chain may share; recipients of a share may not re-share
+DROP POLICY IF EXISTS "Officers can create opb shell shares" ON opb_shell_shares;
+CREATE POLICY "Officers can create opb shell shares"
+  ON opb_shell_shares FOR INSERT
+  WITH CHECK (
+    owner_id = (select auth.uid())
+    AND public.can_edit_opb_shell(shell_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM opb_shell_shares existing
+      WHERE existing.shell_id = opb_shell_shares.shell_id
+      AND existing.shared_with_id = (select auth.uid())
+    )
+  );
+
+-- Anyone who can edit the shell sees who else has access
+CREATE POLICY "Editors can view opb shell shares"
+  ON opb_shell_shares FOR SELECT
+  USING (public.can_edit_opb_shell(shell_id));
+
+-- ============================================================================
+-- OPB SECTION LOCKS (mirrors epb_section_locks from 050/066)
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS opb_section_locks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  section_id UUID NOT NULL REFERENCES opb_shell_sections(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  acquired_at TIMESTAMPTZ DEFAULT NOW(),
+  -- Locks expire after 5 minutes of inactivity (heartbeat required)
+  expires_at TIMESTAMPTZ DEFAULT (NOW() + INTERVAL '5 minutes'),
+  UNIQUE(section_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_opb_section_locks_user ON opb_section_locks(user_id);
+CREATE INDEX IF NOT EXISTS idx_opb_section_locks_expires ON opb_section_locks(expires_at);
+
+ALTER TABLE opb_section_locks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view opb section locks"
+  ON opb_section_locks FOR SELECT
+  USING (
+    EXISTS (
+      SELECT 1 FROM opb_shell_sections oss
+      WHERE oss.id = opb_section_locks.section_id
+      AND public.can_edit_opb_shell(oss.shell_id)
+    )
+  );
+
+CREATE POLICY "Users can manage their own opb locks"
+  ON opb_section_locks FOR ALL
+  USING (user_id = (select auth.uid()))
+  WITH CHECK (user_id = (select auth.uid()));
+
+CREATE OR REPLACE FUNCTION public.acquire_opb_section_lock(p_section_id uuid, p_user_id uuid)
+RETURNS TABLE(success boolean, locked_by_name text, locked_by_rank text)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $function$
+DECLARE
+  v_existing_lock public.opb_section_locks%ROWTYPE;
+  v_profile public.profiles%ROWTYPE;
+BEGIN
+  IF p_user_id IS DISTINCT FROM auth.uid() OR NOT EXISTS (
+    SELECT 1 FROM public.opb_shell_sections s
+    WHERE s.id = p_section_id
+    AND public.can_edit_opb_shell(s.shell_id)
+  ) THEN
+    RETURN QUERY SELECT false, NULL::TEXT, NULL::TEXT;
+    RETURN;
+  END IF;
+
+  -- Clean up expired locks first
+  DELETE FROM public.opb_section_locks WHERE expires_at < NOW();
+
+  SELECT * INTO v_existing_lock
+  FROM public.opb_section_locks
+  WHERE section_id = p_section_id;
+
+  IF v_existing_lock.id IS NOT NULL THEN
+    IF v_existing_lock.user_id = p_user_id THEN
+      -- User already has the lock, refresh it
+      UPDATE public.opb_section_locks
+      SET expires_at = NOW() + INTERVAL '5 minutes'
+      WHERE id = v_existing_lock.id;
+
+      RETURN QUERY SELECT true, NULL::TEXT, NULL::TEXT;
+    ELSE
+      SELECT * INTO v_profile FROM public.profiles WHERE id = v_existing_lock.user_id;
+      RETURN QUERY SELECT false, v_profile.full_name, v_profile.rank::TEXT;
+    END IF;
+  ELSE
+    INSERT INTO public.opb_section_locks (section_id, user_id)
+    VALUES (p_section_id, p_user_id);
+
+    RETURN QUERY SELECT true, NULL::TEXT, NULL::TEXT;
+  END IF;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.release_opb_section_lock(p_section_id uuid, p_user_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $function$
+BEGIN
+  DELETE FROM public.opb_section_locks
+  WHERE section_id = p_section_id AND user_id = p_user_id AND user_id = auth.uid();
+
+  RETURN FOUND;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.refresh_opb_section_lock(p_section_id uuid, p_user_id uuid)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $function$
+BEGIN
+  UPDATE public.opb_section_locks
+  SET expires_at = NOW() + INTERVAL '5 minutes'
+  WHERE section_id = p_section_id AND user_id = p_user_id AND user_id = auth.uid();
+
+  RETURN FOUND;
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.get_opb_shell_section_locks(p_shell_id uuid)
+RETURNS TABLE(
+  section_id uuid,
+  mpa_key text,
+  user_id uuid,
+  user_name text,
+  user_rank text,
+  acquired_at timestamptz,
+  expires_at timestamptz
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $function$
+BEGIN
+  IF NOT public.can_edit_opb_shell(p_shell_id) THEN
+    RETURN;
+  END IF;
+
+  DELETE FROM public.opb_section_locks WHERE public.opb_section_locks.expires_at < NOW();
+
+  RETURN QUERY
+  SELECT
+    l.section_id AS section_id,
+    s.mpa AS mpa_key,
+    l.user_id AS user_id,
+    p.full_name AS user_name,
+    p.rank::TEXT AS user_rank,
+    l.acquired_at AS acquired_at,
+    l.expires_at AS expires_at
+  FROM public.opb_section_locks l
+  JOIN public.opb_shell_sections s ON s.id = l.section_id
+  JOIN public.profiles p ON p.id = l.user_id
+  WHERE s.shell_id = p_shell_id;
+END;
+$function$;
+
+GRANT EXECUTE ON FUNCTION public.acquire_opb_section_lock(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.release_opb_section_lock(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.refresh_opb_section_lock(UUID, UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_opb_shell_section_locks(UUID) TO authenticated;
+
+-- Realtime: lock changes and co-editor saves
+ALTER PUBLICATION supabase_realtime ADD TABLE opb_section_locks;
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+    AND tablename = 'opb_shell_sections'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE opb_shell_sections;
+  END IF;
+END $$;
+
+COMMENT ON TABLE opb_section_locks IS 'Per-MPA edit locks for OPB shells; expire after 5 minutes without a heartbeat';
@@ -0,0 +1,121 @@
+-- External mentor review links for OPB shells.
+-- Reuses the review_tokens / feedback_sessions flow built for EPBs: the link
+-- stores a content snapshot at creation time and reviewers submit through
+-- submit_mentor_feedback, which already copies shell_type from the token.
+
+-- ============================================================================
+-- ALLOW: 'opb' shell type on review tokens and feedback sessions
+-- ============================================================================
+
+ALTER TABLE review_tokens
+  DROP CONSTRAINT IF EXISTS review_tokens_shell_type_check;
+
+ALTER TABLE review_tokens
+  ADD CONSTRAINT review_tokens_shell_type_check
+  CHECK (shell_type IN ('epb', 'opb', 'award', 'decoration'));
+
+ALTER TABLE feedback_sessions
+  DROP CONSTRAINT IF EXISTS feedback_sessions_shell_type_check;
+
+ALTER TABLE feedback_sessions
+  ADD CONSTRAINT feedback_sessions_shell_type_check
+  CHECK (shell_type IN ('epb', 'opb', 'award', 'decoration'));
+
+-- ============================================================================
+-- FUNCTION: Get OPB Shell for Review (for public access)
+-- Returns the snapshot if available, otherwise falls back to live data
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION get_opb_shell_for_review(p_token TEXT)
+RETURNS TABLE (
+  shell_id UUID,
+  duty_description TEXT,
+  cycle_year INT,
+  ratee_name TEXT,
+  ratee_rank TEXT,
+  link_label TEXT,
+  is_anonymous BOOLEAN,
+  sections JSONB
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_token_record RECORD;
+  v_snapshot JSONB;
+BEGIN
+  -- Validate token
+  SELECT * INTO v_token_record
+  FROM validate_review_token(p_token) vrt
+  LIMIT 1;
+
+  IF v_token_record.token_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF v_token_record.status != 'active' THEN
+    RETURN;
+  END IF;
+
+  IF v_token_record.shell_type != 'opb' THEN
+    RETURN;
+  END IF;
+
+  -- Get the snapshot from the token
+  SELECT rt.content_snapshot INTO v_snapshot
+  FROM review_tokens rt
+  WHERE rt.id = v_token_record.token_id;
+
+  IF v_snapshot IS NOT NULL THEN
+    RETURN QUERY
+    SELECT
+      v_token_record.shell_id,
+      (v_snapshot->>'duty_description')::TEXT,
+      (v_snapshot->>'cycle_year')::INT,
+      v_token_record.ratee_name,
+      v_token_record.ratee_rank,
+      v_token_record.link_label,
+      v_token_record.is_anonymous,
+      v_snapshot->'sections';
+    RETURN;
+  END IF;
+
+  -- Fallback to live data
+  RETURN QUERY
+  SELECT
+    os.id,
+    os.duty_description,
+    os.cycle_year,
+    v_token_record.ratee_name,
+    v_token_record.ratee_rank,
+    v_token_record.link_label,
+    v_token_record.is_anonymous,
+    (
+      SELECT jsonb_agg(
+        jsonb_build_object(
+          'mpa', oss.mpa,
+          'statement_text', oss.statement_text
+        )
+        ORDER BY
+          CASE oss.mpa
+            WHEN 'executing_mission' THEN 1
+            WHEN 'leading_people' THEN 2
+            WHEN 'managing_resources' THEN 3
+            WHEN 'improving_unit' THEN 4
+            WHEN 'hlr_assessment' THEN 5
+            ELSE 6
+          END
+      )
+      FROM opb_shell_sections oss
+      WHERE oss.shell_id = os.id
+    ) as sections
+  FROM opb_shells os
+  WHERE os.id = v_token_record.shell_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_opb_shell_for_review(TEXT) TO anon;
+GRANT EXECUTE ON FUNCTION get_opb_shell_for_review(TEXT) TO authenticated;
+
+COMMENT ON FUNCTION get_opb_shell_for_review(TEXT) IS 'Public OPB content for an active review token (snapshot first, live sections as fallback)';
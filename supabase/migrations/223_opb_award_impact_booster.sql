@@ -0,0 +1,9 @@
+-- Persist Impact Booster Q&A + assessment per OPB MPA section and per AF 1206 award slot.
+-- Same shape as epb_shell_sections.impact_booster (197):
+--   { strength?, missingLevers?, summary?, answers: [...], freeform? }
+-- Answers stay on the section only — never copied with statement text.
+ALTER TABLE opb_shell_sections
+ADD COLUMN IF NOT EXISTS impact_booster JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE award_shell_sections
+ADD COLUMN IF NOT EXISTS impact_booster JSONB NOT NULL DEFAULT '{}'::jsonb;
@@ -0,0 +1,9 @@
+-- Migration: Add Space Force enlisted grades to user_rank enum
+-- Guardians share TSgt and above with the Air Force; E-1 to E-5 are unique.
+-- Kept separate from 225 so the new values are committed before functions use them.
+
+ALTER TYPE user_rank ADD VALUE IF NOT EXISTS 'Spc1';
+ALTER TYPE user_rank ADD VALUE IF NOT EXISTS 'Spc2';
+ALTER TYPE user_rank ADD VALUE IF NOT EXISTS 'Spc3';
+ALTER TYPE user_rank ADD VALUE IF NOT EXISTS 'Spc4';
+ALTER TYPE user_rank ADD VALUE IF NOT EXISTS 'Sgt';
@@ -0,0 +1,47 @@
+-- Migration: Per-user service branch (service profiles)
+-- Selects the rank list, MPA competencies, limits and decoration catalog in
+-- the app. Existing users stay on the Air Force profile.
+
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS service TEXT NOT NULL DEFAULT 'usaf'
+  CHECK (service IN ('usaf', 'ussf'));
+
+COMMENT ON COLUMN profiles.service IS 'Branch of service: usaf (default) or ussf';
+
+-- Sgt (E-5) supervises like SSgt
+CREATE OR REPLACE FUNCTION public.can_supervise(rank_value public.user_rank)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = ''
+AS $function$
+BEGIN
+  -- NCOs (SSgt/Sgt+) and all Officers can supervise
+  RETURN rank_value IN (
+    -- Enlisted NCOs
+    'SSgt', 'Sgt', 'TSgt', 'MSgt', 'SMSgt', 'CMSgt',
+    -- Company Grade Officers
+    '2d Lt', '1st Lt', 'Capt',
+    -- Field Grade Officers
+    'Maj', 'Lt Col', 'Col',
+    -- General Officers
+    'Brig Gen', 'Maj Gen', 'Lt Gen', 'Gen',
+    -- Civilians (can also supervise)
+    'Civilian'
+  );
+END;
+$function$;
+
+CREATE OR REPLACE FUNCTION public.is_enlisted_rank(rank_value public.user_rank)
+RETURNS boolean
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = ''
+AS $function$
+BEGIN
+  RETURN rank_value IN (
+    'AB', 'Amn', 'A1C', 'SrA', 'SSgt', 'TSgt', 'MSgt', 'SMSgt', 'CMSgt',
+    'Spc1', 'Spc2', 'Spc3', 'Spc4', 'Sgt'
+  );
+END;
+$function$;
@@ -0,0 +1,38 @@
+-- Migration: Per-member evaluation period overrides
+-- RegAF cycles follow the static close-out dates (SCOD). ANG and AFR members
+-- run on their component's cycle, and change-of-reporting-official (CRO) or
+-- directed-by-commander evaluations close out off-cycle. When set, the
+-- override window replaces the SCOD cycle for that member until it ends.
+
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS eval_period_start DATE,
+ADD COLUMN IF NOT EXISTS eval_period_end DATE,
+ADD COLUMN IF NOT EXISTS eval_period_reason TEXT
+  CHECK (eval_period_reason IN ('ang_cycle', 'afr_cycle', 'cro', 'directed_by_commander', 'other'));
+
+ALTER TABLE profiles
+ADD CONSTRAINT profiles_eval_period_override_check CHECK (
+  (eval_period_start IS NULL AND eval_period_end IS NULL AND eval_period_reason IS NULL)
+  OR (eval_period_start IS NOT NULL AND eval_period_end IS NOT NULL AND eval_period_reason IS NOT NULL
+      AND eval_period_start < eval_period_end)
+);
+
+ALTER TABLE team_members
+ADD COLUMN IF NOT EXISTS eval_period_start DATE,
+ADD COLUMN IF NOT EXISTS eval_period_end DATE,
+ADD COLUMN IF NOT EXISTS eval_period_reason TEXT
+  CHECK (eval_period_reason IN ('ang_cycle', 'afr_cycle', 'cro', 'directed_by_commander', 'other'));
+
+ALTER TABLE team_members
+ADD CONSTRAINT team_members_eval_period_override_check CHECK (
+  (eval_period_start IS NULL AND eval_period_end IS NULL AND eval_period_reason IS NULL)
+  OR (eval_period_start IS NOT NULL AND eval_period_end IS NOT NULL AND eval_period_reason IS NOT NULL
+      AND eval_period_start < eval_period_end)
+);
+
+COMMENT ON COLUMN profiles.eval_period_start IS 'First day of a custom evaluation period; NULL follows the rank SCOD';
+COMMENT ON COLUMN profiles.eval_period_end IS 'Close-out of the custom evaluation period';
+COMMENT ON COLUMN profiles.eval_period_reason IS 'Why the SCOD does not apply: ang_cycle, afr_cycle, cro, directed_by_commander, other';
+COMMENT ON COLUMN team_members.eval_period_start IS 'First day of a custom evaluation period; NULL follows the rank SCOD';
+COMMENT ON COLUMN team_members.eval_period_end IS 'Close-out of the custom evaluation period';
+COMMENT ON COLUMN team_members.eval_period_reason IS 'Why the SCOD does not apply: ang_cycle, afr_cycle, cro, directed_by_commander, other';
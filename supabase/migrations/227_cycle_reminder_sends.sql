@@ -0,0 +1,31 @@
+-- Migration: Send log for scheduled EPB cycle reminder emails
+-- /api/cron/cycle-reminders claims a row before each send so a variant goes
+-- out at most once per recipient, ratee and close-out. Rows are keyed by the
+-- close-out date rather than cycle_year so a custom evaluation period (CRO,
+-- ANG/AFR cycle) that closes out in the same year gets its own reminders.
+--
+-- Ratee:
+--   * Own EPB:         ratee_user_id = recipient_id
+--   * Real subordinate: ratee_user_id = subordinate
+--   * Managed member:  ratee_team_member_id set, ratee_user_id NULL
+
+CREATE TABLE IF NOT EXISTS cycle_reminder_sends (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  -- recipient:ratee:closeout:send
+  dedupe_key TEXT NOT NULL UNIQUE,
+  recipient_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  ratee_user_id UUID REFERENCES profiles(id) ON DELETE CASCADE,
+  ratee_team_member_id UUID REFERENCES team_members(id) ON DELETE CASCADE,
+  send TEXT NOT NULL CHECK (send IN ('supervisor_soon', 'chief_soon', 'catchup')),
+  closeout_date DATE NOT NULL,
+  sent_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (ratee_user_id IS NOT NULL OR ratee_team_member_id IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_cycle_reminder_sends_closeout
+  ON cycle_reminder_sends(closeout_date);
+
+-- Service role only (cron + admin dry run); no app-user policies.
+ALTER TABLE cycle_reminder_sends ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE cycle_reminder_sends IS 'One row per scheduled EPB cycle reminder email sent (idempotency log for the cycle-reminders cron)';
@@ -0,0 +1,14 @@
+-- Migration: Opt-in weekly supervisor digest email
+-- Supervisors turn this on in Settings. /api/cron/supervisor-digest stamps
+-- supervisor_digest_sent_at before sending so a digest goes out at most once
+-- a week even when the cron is retried.
+
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS supervisor_digest_opt_in BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS supervisor_digest_sent_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_profiles_supervisor_digest_opt_in
+  ON profiles(id) WHERE supervisor_digest_opt_in;
+
+COMMENT ON COLUMN profiles.supervisor_digest_opt_in IS 'Weekly team digest email (entries, unassessed, weak MPAs, close-out countdown); off by default';
+COMMENT ON COLUMN profiles.supervisor_digest_sent_at IS 'Last weekly supervisor digest send; the cron skips anyone stamped in the last 6 days';
@@ -0,0 +1,383 @@
+-- Migration: In-app notification center
+-- One row per event a user should hear about: supervision requests, managed
+-- account links, prior-data reviews, award requests, shell shares, review-link
+-- feedback and shared supervisor feedback. Rows are written by the triggers
+-- below (never by the client), delivered over Realtime, and carry a deep link
+-- into the page or dialog that handles the event.
+--
+-- Muting: profiles.notification_muted_types lists types the user turned off in
+-- Settings. Muted events are not written at all; the dashboard cards still
+-- show anything pending.
+
+CREATE TABLE IF NOT EXISTS notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  type TEXT NOT NULL CHECK (type IN (
+    'team_request',
+    'managed_link',
+    'prior_data_review',
+    'award_request',
+    'shell_share',
+    'review_feedback',
+    'supervisor_feedback'
+  )),
+  title TEXT NOT NULL,
+  body TEXT,
+  -- App path, e.g. /team?action=pending-requests
+  link TEXT,
+  actor_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created
+  ON notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_user_unread
+  ON notifications(user_id) WHERE read_at IS NULL;
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notifications"
+  ON notifications FOR SELECT
+  USING (user_id = (select auth.uid()));
+
+-- Only read_at changes from the client; see the column grant below.
+CREATE POLICY "Users can update their own notifications"
+  ON notifications FOR UPDATE
+  USING (user_id = (select auth.uid()))
+  WITH CHECK (user_id = (select auth.uid()));
+
+CREATE POLICY "Users can delete their own notifications"
+  ON notifications FOR DELETE
+  USING (user_id = (select auth.uid()));
+
+REVOKE UPDATE ON notifications FROM authenticated;
+GRANT UPDATE (read_at) ON notifications TO authenticated;
+
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS notification_muted_types TEXT[] NOT NULL DEFAULT '{}';
+
+COMMENT ON TABLE notifications IS 'In-app notification center feed; written by triggers, read/unread per user';
+COMMENT ON COLUMN profiles.notification_muted_types IS 'Notification types the user muted; matching events are not written';
+
+-- ============================================================================
+-- REALTIME
+-- ============================================================================
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+      AND schemaname = 'public'
+      AND tablename = 'notifications'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+  END IF;
+END $$;
+
+-- ============================================================================
+-- HELPERS
+-- ============================================================================
+
+-- "SSgt Jane Doe", or "Someone" when the profile is gone or unnamed.
+CREATE OR REPLACE FUNCTION public.notification_display_name(p_profile_id UUID)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $function$
+  SELECT COALESCE(
+    (
+      SELECT NULLIF(TRIM(CONCAT_WS(' ', p.rank, p.full_name)), '')
+      FROM public.profiles p
+      WHERE p.id = p_profile_id
+    ),
+    'Someone'
+  );
+$function$;
+
+-- Writes one notification unless the recipient muted the type or is the actor.
+CREATE OR REPLACE FUNCTION public.create_notification(
+  p_user_id UUID,
+  p_type TEXT,
+  p_title TEXT,
+  p_body TEXT,
+  p_link TEXT,
+  p_actor_id UUID
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $function$
+BEGIN
+  IF p_user_id IS NULL OR p_user_id = p_actor_id THEN
+    RETURN;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE id = p_user_id AND p_type = ANY(notification_muted_types)
+  ) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, type, title, body, link, actor_id)
+  VALUES (p_user_id, p_type, p_title, p_body, p_link, p_actor_id);
+END;
+$function$;
+
+REVOKE EXECUTE ON FUNCTION public.create_notification(UUID, TEXT, TEXT, TEXT, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================================
+-- EVENT TRIGGERS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION public.notify_team_request()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $function$
+DECLARE
+  v_actor TEXT := public.notification_display_name(NEW.requester_id);
+BEGIN
+  IF NEW.status <> 'pending' THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM public.create_notification(
+    NEW.target_id,
+    'team_request',
+    CASE NEW.request_type
+      WHEN 'supervise' THEN v_actor || ' wants to be your supervisor'
+      ELSE v_actor || ' asked you to be their supervisor'
+    END,
+    NULLIF(TRIM(NEW.message), ''),
+    '/team?action=pending-requests',
+    NEW.requester_id
+  );
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS notify_team_request ON team_requests;
+CREATE TRIGGER notify_team_request
+  AFTER INSERT ON team_requests
+  FOR EACH ROW EXECUTE FUNCTION public.notify_team_request();
+
+CREATE OR REPLACE FUNCTION public.notify_managed_link()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $function$
+DECLARE
+  v_supervisor_id UUID;
+BEGIN
+  IF NEW.status <> 'pending' THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT supervisor_id INTO v_supervisor_id
+  FROM public.team_members
+  WHERE id = NEW.team_member_id;
+
+  PERFORM public.create_notification(
+    NEW.user_id,
+    'managed_link',
+    public.notification_display_name(v_supervisor_id) || ' has been tracking your entries',
+    'Link your account to bring their records into your own.',
+    '/dashboard',
+    v_supervisor_id
+  );
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS notify_managed_link ON pending_managed_links;
+CREATE TRIGGER notify_managed_link
+  AFTER INSERT ON pending_managed_links
+  FOR EACH ROW EXECUTE FUNCTION public.notify_managed_link();
+
+CREATE OR REPLACE FUNCTION public.notify_prior_data_review()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $function$
+BEGIN
+  IF COALESCE(NEW.status, 'pending') <> 'pending' THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM public.create_notification(
+    NEW.subordinate_id,
+    'prior_data_review',
+    public.notification_display_name(NEW.supervisor_id) || ' has prior records for you',
+    COALESCE(NEW.entry_count, 0) || ' entries and ' || COALESCE(NEW.statement_count, 0) || ' statements to review.',
+    '/dashboard',
+    NEW.supervisor_id
+  );
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS notify_prior_data_review ON pending_prior_data_review;
+CREATE TRIGGER notify_prior_data_review
+  AFTER INSERT ON pending_prior_data_review
+  FOR EACH ROW EXECUTE FUNCTION public.notify_prior_data_review();
+
+CREATE OR REPLACE FUNCTION public.notify_award_request()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $function$
+BEGIN
+  IF NEW.status::TEXT <> 'pending' THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM public.create_notification(
+    NEW.approver_id,
+    'award_request',
+    public.notification_display_name(NEW.requester_id) || ' requested an award',
+    NULLIF(TRIM(NEW.award_name), ''),
+    '/team?tab=awards',
+    NEW.requester_id
+  );
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS notify_award_request ON award_requests;
+CREATE TRIGGER notify_award_request
+  AFTER INSERT ON award_requests
+  FOR EACH ROW EXECUTE FUNCTION public.notify_award_request();
+
+-- Shared by the four *_shell_shares tables; the table name picks the wording and link.
+CREATE OR REPLACE FUNCTION public.notify_shell_share()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $function$
+DECLARE
+  v_noun TEXT;
+  v_link TEXT;
+BEGIN
+  CASE TG_TABLE_NAME
+    WHEN 'epb_shell_shares' THEN
+      v_noun := 'an EPB';
+      v_link := '/generate';
+    WHEN 'opb_shell_shares' THEN
+      v_noun := 'an OPB';
+      v_link := '/generate';
+    WHEN 'award_shell_shares' THEN
+      v_noun := 'an award package';
+      v_link := '/award?open=' || NEW.shell_id;
+    ELSE
+      v_noun := 'a decoration';
+      v_link := '/decoration?open=' || NEW.shell_id;
+  END CASE;
+
+  PERFORM public.create_notification(
+    NEW.shared_with_id,
+    'shell_share',
+    public.notification_display_name(NEW.owner_id) || ' shared ' || v_noun || ' with you',
+    NULL,
+    v_link,
+    NEW.owner_id
+  );
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS notify_shell_share ON epb_shell_shares;
+CREATE TRIGGER notify_shell_share
+  AFTER INSERT ON epb_shell_shares
+  FOR EACH ROW EXECUTE FUNCTION public.notify_shell_share();
+
+DROP TRIGGER IF EXISTS notify_shell_share ON opb_shell_shares;
+CREATE TRIGGER notify_shell_share
+  AFTER INSERT ON opb_shell_shares
+  FOR EACH ROW EXECUTE FUNCTION public.notify_shell_share();
+
+DROP TRIGGER IF EXISTS notify_shell_share ON award_shell_shares;
+CREATE TRIGGER notify_shell_share
+  AFTER INSERT ON award_shell_shares
+  FOR EACH ROW EXECUTE FUNCTION public.notify_shell_share();
+
+DROP TRIGGER IF EXISTS notify_shell_share ON decoration_shell_shares;
+CREATE TRIGGER notify_shell_share
+  AFTER INSERT ON decoration_shell_shares
+  FOR EACH ROW EXECUTE FUNCTION public.notify_shell_share();
+
+CREATE OR REPLACE FUNCTION public.notify_review_feedback()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $function$
+BEGIN
+  PERFORM public.create_notification(
+    NEW.user_id,
+    'review_feedback',
+    NEW.reviewer_name || ' left feedback on your ' || CASE NEW.shell_type
+      WHEN 'epb' THEN 'EPB'
+      WHEN 'opb' THEN 'OPB'
+      WHEN 'award' THEN 'award package'
+      ELSE 'decoration'
+    END,
+    CASE WHEN NEW.comment_count = 1 THEN '1 comment' ELSE NEW.comment_count || ' comments' END,
+    CASE NEW.shell_type
+      WHEN 'award' THEN '/award?open=' || NEW.shell_id
+      WHEN 'decoration' THEN '/decoration?open=' || NEW.shell_id
+      ELSE '/generate?feedback=' || NEW.id
+    END,
+    NULL
+  );
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS notify_review_feedback ON feedback_sessions;
+CREATE TRIGGER notify_review_feedback
+  AFTER INSERT ON feedback_sessions
+  FOR EACH ROW EXECUTE FUNCTION public.notify_review_feedback();
+
+-- Fires when a supervisor shares feedback with a real subordinate (managed
+-- members have no account to notify).
+CREATE OR REPLACE FUNCTION public.notify_supervisor_feedback()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $function$
+BEGIN
+  IF NEW.status <> 'shared'
+    OR NEW.subordinate_id IS NULL
+    OR (TG_OP = 'UPDATE' AND OLD.status = 'shared') THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM public.create_notification(
+    NEW.subordinate_id,
+    'supervisor_feedback',
+    public.notification_display_name(NEW.supervisor_id) || ' shared your ' || NEW.feedback_type || ' feedback',
+    NULL,
+    '/entries?feedback=supervisor',
+    NEW.supervisor_id
+  );
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS notify_supervisor_feedback ON supervisor_feedbacks;
+CREATE TRIGGER notify_supervisor_feedback
+  AFTER INSERT OR UPDATE OF status ON supervisor_feedbacks
+  FOR EACH ROW EXECUTE FUNCTION public.notify_supervisor_feedback();
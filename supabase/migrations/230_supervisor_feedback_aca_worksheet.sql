@@ -0,0 +1,10 @@
+-- Structured ACA worksheet per feedback session: a proficiency level, evidence
+-- accomplishments and a note for every rubric subcategory, plus the Knowing
+-- Your Airman answers (AF Form 931 Section IX / AF Form 932 Section VIII).
+-- Private to the rater like session_settings; exported as a 931/932 layout PDF.
+
+ALTER TABLE supervisor_feedbacks
+  ADD COLUMN IF NOT EXISTS aca_worksheet JSONB;
+
+COMMENT ON COLUMN supervisor_feedbacks.aca_worksheet IS
+  'Private ACA worksheet: { ratings: { <rubric subcategory key>: { level, evidence_ids, note } }, knowing_your_airman: { goals, stressors, mentorship, growth } }. NULL until the rater saves one.';
@@ -0,0 +1,97 @@
+-- Migration: Mentor style personas
+-- A mentor who reviews packages through review links can opt in to a persona:
+-- a style fingerprint built from the rewrites and comments their mentees
+-- accepted. Mentees who received feedback from that mentor can pick the
+-- persona as their writing style in generation. The mentor can revoke it at
+-- any time by deleting the row; profiles pointing at it fall back to personal.
+--
+-- Like style_signatures, a persona stores writing PATTERNS only, never the
+-- mentees' statement text.
+
+-- ============================================
+-- REVIEWER IDENTITY ON REVIEW-LINK FEEDBACK
+-- ============================================
+-- Set by /api/feedback when the reviewer submits while signed in. Anonymous
+-- review-link feedback keeps it NULL and never counts toward a persona.
+ALTER TABLE feedback_sessions
+ADD COLUMN IF NOT EXISTS reviewer_user_id UUID REFERENCES profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_feedback_sessions_reviewer_user
+  ON feedback_sessions(reviewer_user_id) WHERE reviewer_user_id IS NOT NULL;
+
+COMMENT ON COLUMN feedback_sessions.reviewer_user_id IS 'Signed-in reviewer who submitted the feedback; NULL for anonymous review links';
+
+-- ============================================
+-- MENTOR PERSONAS TABLE
+-- ============================================
+CREATE TABLE IF NOT EXISTS mentor_personas (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  mentor_id UUID NOT NULL UNIQUE REFERENCES profiles(id) ON DELETE CASCADE,
+
+  -- Shown to mentees in the writing style picker, e.g. "SMSgt Lee"
+  display_name TEXT NOT NULL CHECK (char_length(display_name) BETWEEN 1 AND 100),
+
+  signature_text TEXT NOT NULL,
+  signature_factors JSONB DEFAULT '{}' NOT NULL,
+
+  -- Source tracking for staleness detection (accepted feedback_comments ids)
+  source_comment_count INTEGER DEFAULT 0 NOT NULL,
+  source_hash TEXT,
+
+  version INTEGER DEFAULT 1 NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT now() NOT NULL,
+  updated_at TIMESTAMPTZ DEFAULT now() NOT NULL
+);
+
+ALTER TABLE mentor_personas ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Mentors can view own persona" ON mentor_personas
+  FOR SELECT USING (mentor_id = (select auth.uid()));
+
+CREATE POLICY "Mentors can insert own persona" ON mentor_personas
+  FOR INSERT WITH CHECK (mentor_id = (select auth.uid()));
+
+CREATE POLICY "Mentors can update own persona" ON mentor_personas
+  FOR UPDATE USING (mentor_id = (select auth.uid()))
+  WITH CHECK (mentor_id = (select auth.uid()));
+
+-- Revoking a persona deletes it
+CREATE POLICY "Mentors can delete own persona" ON mentor_personas
+  FOR DELETE USING (mentor_id = (select auth.uid()));
+
+-- Mentees: anyone the mentor has left signed-in review-link feedback for
+CREATE POLICY "Mentees can read their mentors' personas" ON mentor_personas
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM feedback_sessions fs
+      WHERE fs.reviewer_user_id = mentor_personas.mentor_id
+      AND fs.user_id = (select auth.uid())
+    )
+  );
+
+CREATE OR REPLACE FUNCTION update_mentor_persona_timestamp()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trg_mentor_persona_updated
+  BEFORE UPDATE ON mentor_personas
+  FOR EACH ROW
+  EXECUTE FUNCTION update_mentor_persona_timestamp();
+
+COMMENT ON TABLE mentor_personas IS 'Opt-in mentor style fingerprints built from accepted review-link feedback; selectable by mentees';
+
+-- ============================================
+-- WRITING STYLE: MENTOR
+-- ============================================
+ALTER TABLE profiles
+ADD COLUMN IF NOT EXISTS writing_mentor_persona_id UUID REFERENCES mentor_personas(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN profiles.writing_mentor_persona_id IS 'Mentor persona used when writing_style = mentor; cleared when the mentor revokes it';
+
+ALTER TABLE profiles DROP CONSTRAINT IF EXISTS profiles_writing_style_check;
+ALTER TABLE profiles ADD CONSTRAINT profiles_writing_style_check
+  CHECK (writing_style IN ('personal', 'community', 'chain_of_command', 'mentor'));
@@ -0,0 +1,93 @@
+-- Migration: EPB routing workflow (suspense tracking)
+-- `status` only says active vs archived. workflow_state tracks where the EPB
+-- sits in the routing chain:
+--   drafting -> ratee_review -> rater -> additional_rater -> senior_rater -> finalized
+-- Each state's due date comes from the ratee's SCOD milestones (see
+-- src/lib/epb-workflow.ts). Every change is recorded in
+-- epb_shell_workflow_transitions by the trigger below, never by the client, so
+-- the history holds no matter which code path updated the shell.
+
+ALTER TABLE epb_shells
+  ADD COLUMN IF NOT EXISTS workflow_state TEXT NOT NULL DEFAULT 'drafting'
+    CHECK (workflow_state IN (
+      'drafting',
+      'ratee_review',
+      'rater',
+      'additional_rater',
+      'senior_rater',
+      'finalized'
+    )),
+  ADD COLUMN IF NOT EXISTS workflow_state_changed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  ADD COLUMN IF NOT EXISTS workflow_state_changed_by UUID REFERENCES profiles(id) ON DELETE SET NULL;
+
+COMMENT ON COLUMN epb_shells.workflow_state IS 'Routing step: drafting, ratee_review, rater, additional_rater, senior_rater or finalized';
+COMMENT ON COLUMN epb_shells.workflow_state_changed_at IS 'When workflow_state last changed; maintained by trigger';
+COMMENT ON COLUMN epb_shells.workflow_state_changed_by IS 'Who last changed workflow_state; maintained by trigger';
+
+CREATE TABLE IF NOT EXISTS epb_shell_workflow_transitions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shell_id UUID NOT NULL REFERENCES epb_shells(id) ON DELETE CASCADE,
+  from_state TEXT NOT NULL,
+  to_state TEXT NOT NULL,
+  changed_by UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_epb_shell_workflow_transitions_shell_created
+  ON epb_shell_workflow_transitions(shell_id, created_at DESC);
+
+ALTER TABLE epb_shell_workflow_transitions ENABLE ROW LEVEL SECURITY;
+
+-- Visible to anyone who can see the shell (epb_shells RLS applies to the subquery)
+CREATE POLICY "Users can view workflow history for accessible shells"
+  ON epb_shell_workflow_transitions FOR SELECT
+  USING (shell_id IN (SELECT id FROM epb_shells));
+
+-- Permanent record: no INSERT/UPDATE/DELETE policies (written by trigger only).
+
+COMMENT ON TABLE epb_shell_workflow_transitions IS 'Who moved an EPB shell between routing steps and when; written by trigger';
+
+-- ============================================================================
+-- TRIGGER
+-- ============================================================================
+
+-- Runs on every update so the stamps can't be rewritten without a state change,
+-- and refuses to let a ratee route their own shell past ratee_review (the same
+-- rule as EPB_WORKFLOW_STEPS roles in src/lib/epb-workflow.ts). Service-role
+-- writes (auth.uid() IS NULL) aren't gated.
+CREATE OR REPLACE FUNCTION public.record_epb_shell_workflow_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $function$
+BEGIN
+  IF NEW.workflow_state IS NOT DISTINCT FROM OLD.workflow_state THEN
+    NEW.workflow_state_changed_at := OLD.workflow_state_changed_at;
+    NEW.workflow_state_changed_by := OLD.workflow_state_changed_by;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.team_member_id IS NULL
+    AND NEW.user_id = auth.uid()
+    AND (OLD.workflow_state NOT IN ('drafting', 'ratee_review')
+      OR NEW.workflow_state NOT IN ('drafting', 'ratee_review'))
+  THEN
+    RAISE EXCEPTION 'Only the supervision chain can route an EPB past ratee review'
+      USING ERRCODE = '42501';
+  END IF;
+
+  NEW.workflow_state_changed_at := NOW();
+  NEW.workflow_state_changed_by := auth.uid();
+
+  INSERT INTO public.epb_shell_workflow_transitions (shell_id, from_state, to_state, changed_by)
+  VALUES (NEW.id, OLD.workflow_state, NEW.workflow_state, auth.uid());
+
+  RETURN NEW;
+END;
+$function$;
+
+DROP TRIGGER IF EXISTS record_epb_shell_workflow_transition ON epb_shells;
+CREATE TRIGGER record_epb_shell_workflow_transition
+  BEFORE UPDATE ON epb_shells
+  FOR EACH ROW EXECUTE FUNCTION public.record_epb_shell_workflow_transition();
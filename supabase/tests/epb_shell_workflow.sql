@@ -0,0 +1,82 @@
+-- Integration checks for the epb_shells workflow trigger (232).
+-- Run against local MyEPBuddy Postgres (54322). Wrapped in a transaction that
+-- always rolls back so seed data is left untouched.
+--
+-- Invoked by: src/lib/__tests__/epb-shell-workflow.integration.test.ts
+
+\set ON_ERROR_STOP on
+
+BEGIN;
+
+INSERT INTO epb_shells (id, user_id, created_by, cycle_year)
+VALUES (
+  'e2e2e2e2-0000-4000-8000-000000000232',
+  '55555555-5555-5555-5555-555555555555',
+  '55555555-5555-5555-5555-555555555555',
+  2099
+);
+
+DO $$
+DECLARE
+  v_shell CONSTANT UUID := 'e2e2e2e2-0000-4000-8000-000000000232';
+  v_ratee CONSTANT UUID := '55555555-5555-5555-5555-555555555555';
+  v_changed_at TIMESTAMPTZ;
+  v_changed_by UUID;
+  v_state TEXT;
+  v_blocked BOOLEAN := false;
+BEGIN
+  PERFORM set_config('request.jwt.claim.sub', v_ratee::TEXT, true);
+
+  -- 1) The ratee may send their own shell to ratee review
+  UPDATE epb_shells SET workflow_state = 'ratee_review' WHERE id = v_shell;
+  SELECT workflow_state_changed_at, workflow_state_changed_by
+    INTO v_changed_at, v_changed_by
+  FROM epb_shells WHERE id = v_shell;
+  IF v_changed_by IS DISTINCT FROM v_ratee THEN
+    RAISE EXCEPTION 'ratee_review: expected changed_by %, got %', v_ratee, v_changed_by;
+  END IF;
+
+  -- 2) Stamps can't be rewritten without a state change
+  UPDATE epb_shells
+  SET workflow_state_changed_at = '2000-01-01T00:00:00Z',
+      workflow_state_changed_by = NULL,
+      duty_description = 'stamp rewrite attempt'
+  WHERE id = v_shell;
+  IF NOT EXISTS (
+    SELECT 1 FROM epb_shells
+    WHERE id = v_shell
+      AND workflow_state_changed_at = v_changed_at
+      AND workflow_state_changed_by = v_ratee
+  ) THEN
+    RAISE EXCEPTION 'stamps: expected changed_at/by to keep their old values';
+  END IF;
+
+  -- 3) The ratee can't route past ratee review
+  BEGIN
+    UPDATE epb_shells SET workflow_state = 'rater' WHERE id = v_shell;
+  EXCEPTION WHEN insufficient_privilege THEN
+    v_blocked := true;
+  END;
+  IF NOT v_blocked THEN
+    RAISE EXCEPTION 'ratee: expected ratee_review -> rater to be refused';
+  END IF;
+
+  -- 4) Their supervisor can
+  PERFORM set_config('request.jwt.claim.sub', '99999999-9999-9999-9999-999999999999', true);
+  UPDATE epb_shells SET workflow_state = 'rater' WHERE id = v_shell;
+  SELECT workflow_state INTO v_state FROM epb_shells WHERE id = v_shell;
+  IF v_state <> 'rater' THEN
+    RAISE EXCEPTION 'supervisor: expected rater, got %', v_state;
+  END IF;
+
+  IF (SELECT count(*) FROM epb_shell_workflow_transitions WHERE shell_id = v_shell) <> 2 THEN
+    RAISE EXCEPTION 'history: expected 2 transitions';
+  END IF;
+
+  RAISE NOTICE 'PASS epb workflow: ratee gated at review, stamps kept, history written';
+END $$;
+
+ROLLBACK;
+
+-- Visible on stdout for the Vitest harness (NOTICEs go to stderr).
+SELECT 'PASS epb workflow: ratee gated at review, stamps kept, history written' AS status;
@@ -0,0 +1,123 @@
+-- Integration checks for OPB shell access (221): can_edit_opb_shell and the
+-- section update policy built on it.
+-- Run against local MyEPBuddy Postgres (54322). Wrapped in a transaction that
+-- always rolls back so seed data is left untouched.
+--
+-- Invoked by: src/lib/__tests__/opb-shell-access.integration.test.ts
+
+\set ON_ERROR_STOP on
+
+BEGIN;
+
+-- handle_new_user creates the matching profiles
+INSERT INTO auth.users (id, email, aud, role, raw_user_meta_data)
+VALUES
+  ('0221aaaa-0000-4000-8000-000000000001', 'opb-officer@221.test', 'authenticated', 'authenticated', '{"full_name": "Opb Officer"}'),
+  ('0221aaaa-0000-4000-8000-000000000002', 'opb-supervisor@221.test', 'authenticated', 'authenticated', '{"full_name": "Chain Supervisor"}'),
+  ('0221aaaa-0000-4000-8000-000000000003', 'opb-manager@221.test', 'authenticated', 'authenticated', '{"full_name": "Member Owner"}'),
+  ('0221aaaa-0000-4000-8000-000000000004', 'opb-recipient@221.test', 'authenticated', 'authenticated', '{"full_name": "Share Recipient"}'),
+  ('0221aaaa-0000-4000-8000-000000000005', 'opb-stranger@221.test', 'authenticated', 'authenticated', '{"full_name": "Unrelated User"}');
+
+-- The supervisor is one level above the officer's own supervisor
+INSERT INTO teams (supervisor_id, subordinate_id)
+VALUES
+  ('0221aaaa-0000-4000-8000-000000000002', '0221aaaa-0000-4000-8000-000000000003'),
+  ('0221aaaa-0000-4000-8000-000000000003', '0221aaaa-0000-4000-8000-000000000001');
+
+INSERT INTO team_members (id, supervisor_id, full_name)
+VALUES ('0221bbbb-0000-4000-8000-000000000001', '0221aaaa-0000-4000-8000-000000000003', 'Managed Officer');
+
+-- The officer's own shell, shared with the recipient
+INSERT INTO opb_shells (id, user_id, created_by, cycle_year)
+VALUES (
+  '0221cccc-0000-4000-8000-000000000001',
+  '0221aaaa-0000-4000-8000-000000000001',
+  '0221aaaa-0000-4000-8000-000000000001',
+  2099
+);
+
+INSERT INTO opb_shell_shares (shell_id, owner_id, share_type, shared_with_id)
+VALUES (
+  '0221cccc-0000-4000-8000-000000000001',
+  '0221aaaa-0000-4000-8000-000000000001',
+  'user',
+  '0221aaaa-0000-4000-8000-000000000004'
+);
+
+-- A managed member's shell, built by someone other than the member's owner so
+-- only the managed-member branch can grant the owner access
+INSERT INTO opb_shells (id, user_id, created_by, team_member_id, cycle_year)
+VALUES (
+  '0221cccc-0000-4000-8000-000000000002',
+  '0221aaaa-0000-4000-8000-000000000002',
+  '0221aaaa-0000-4000-8000-000000000002',
+  '0221bbbb-0000-4000-8000-000000000001',
+  2099
+);
+
+SET LOCAL ROLE authenticated;
+
+DO $$
+DECLARE
+  c_officer_shell CONSTANT UUID := '0221cccc-0000-4000-8000-000000000001';
+  c_managed_shell CONSTANT UUID := '0221cccc-0000-4000-8000-000000000002';
+  c_supervisor CONSTANT UUID := '0221aaaa-0000-4000-8000-000000000002';
+  c_manager CONSTANT UUID := '0221aaaa-0000-4000-8000-000000000003';
+  c_recipient CONSTANT UUID := '0221aaaa-0000-4000-8000-000000000004';
+  c_stranger CONSTANT UUID := '0221aaaa-0000-4000-8000-000000000005';
+  v_rows INT;
+BEGIN
+  -- 1) An unrelated user can't edit either shell, and their section update matches nothing
+  PERFORM set_config('request.jwt.claim.sub', c_stranger::TEXT, true);
+  IF public.can_edit_opb_shell(c_officer_shell) OR public.can_edit_opb_shell(c_managed_shell) THEN
+    RAISE EXCEPTION 'stranger: expected no edit access';
+  END IF;
+  UPDATE opb_shell_sections SET statement_text = 'stranger edit' WHERE shell_id = c_officer_shell;
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  IF v_rows <> 0 THEN
+    RAISE EXCEPTION 'stranger: expected 0 sections updated, got %', v_rows;
+  END IF;
+
+  -- 2) A supervisor up the chain can edit the subordinate officer's shell
+  PERFORM set_config('request.jwt.claim.sub', c_supervisor::TEXT, true);
+  IF NOT public.can_edit_opb_shell(c_officer_shell) THEN
+    RAISE EXCEPTION 'chain supervisor: expected edit access to the subordinate''s shell';
+  END IF;
+  UPDATE opb_shell_sections SET statement_text = 'supervisor edit' WHERE shell_id = c_officer_shell;
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  IF v_rows = 0 THEN
+    RAISE EXCEPTION 'chain supervisor: expected section updates to go through';
+  END IF;
+
+  -- 3) The managed member's owner can edit that member's shell
+  PERFORM set_config('request.jwt.claim.sub', c_manager::TEXT, true);
+  IF NOT public.can_edit_opb_shell(c_managed_shell) THEN
+    RAISE EXCEPTION 'member owner: expected edit access to the managed member''s shell';
+  END IF;
+  UPDATE opb_shell_sections SET statement_text = 'owner edit' WHERE shell_id = c_managed_shell;
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  IF v_rows = 0 THEN
+    RAISE EXCEPTION 'member owner: expected section updates to go through';
+  END IF;
+
+  -- 4) A share recipient can edit the shared shell, and only that one
+  PERFORM set_config('request.jwt.claim.sub', c_recipient::TEXT, true);
+  IF NOT public.can_edit_opb_shell(c_officer_shell) THEN
+    RAISE EXCEPTION 'share recipient: expected edit access to the shared shell';
+  END IF;
+  IF public.can_edit_opb_shell(c_managed_shell) THEN
+    RAISE EXCEPTION 'share recipient: expected no access to an unshared shell';
+  END IF;
+  UPDATE opb_shell_sections SET statement_text = 'recipient edit' WHERE shell_id = c_officer_shell;
+  GET DIAGNOSTICS v_rows = ROW_COUNT;
+  IF v_rows = 0 THEN
+    RAISE EXCEPTION 'share recipient: expected section updates to go through';
+  END IF;
+
+  RAISE NOTICE 'PASS opb shell access: stranger denied; chain supervisor, member owner and share recipient can edit';
+END $$;
+
+ROLLBACK;
+
+-- Visible on stdout for the Vitest harness (NOTICEs go to stderr).
+SELECT 'PASS opb shell access: stranger denied; chain supervisor, member owner and share recipient can edit' AS status;
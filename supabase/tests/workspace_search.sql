@@ -0,0 +1,82 @@
+-- Integration checks for search_workspace over accomplishments: full-text,
+-- trigram and embedding matches.
+-- Run against local MyEPBuddy Postgres (54322). Wrapped in a transaction that
+-- always rolls back so seed data is left untouched.
+--
+-- Invoked by: src/lib/__tests__/workspace-search.integration.test.ts
+
+\set ON_ERROR_STOP on
+
+BEGIN;
+
+-- impact is nullable (084); the entry must still be searchable by its details
+INSERT INTO accomplishments (id, user_id, created_by, action_verb, details, impact, metrics, mpa)
+VALUES (
+  'a5a5a5a5-0000-4000-8000-000000000220',
+  '55555555-5555-5555-5555-555555555555',
+  '55555555-5555-5555-5555-555555555555',
+  'Overhauled',
+  'quizzical flux capacitor calibration workflow',
+  NULL,
+  NULL,
+  NULL
+);
+
+-- Written by the search-embeddings cron in production (service role only)
+INSERT INTO search_embeddings (source, source_id, content_hash, embedding)
+VALUES (
+  'accomplishment',
+  'a5a5a5a5-0000-4000-8000-000000000220',
+  md5('Overhauled quizzical flux capacitor calibration workflow  '),
+  array_fill(0.01::real, ARRAY[1536])::extensions.vector
+);
+
+SELECT set_config('request.jwt.claim.sub', '55555555-5555-5555-5555-555555555555', true);
+SET LOCAL ROLE authenticated;
+
+DO $$
+DECLARE
+  v_fts INT;
+  v_trgm INT;
+  v_semantic_only BOOLEAN;
+BEGIN
+  SELECT count(*) INTO v_fts
+  FROM search_workspace('quizzical capacitor', 50)
+  WHERE id = 'a5a5a5a5-0000-4000-8000-000000000220';
+  IF v_fts <> 1 THEN
+    RAISE EXCEPTION 'NULL impact: expected full-text hit, got % rows', v_fts;
+  END IF;
+
+  SELECT count(*) INTO v_trgm
+  FROM search_workspace('quizical capacitr', 50)
+  WHERE id = 'a5a5a5a5-0000-4000-8000-000000000220';
+  IF v_trgm <> 1 THEN
+    RAISE EXCEPTION 'NULL impact: expected trigram hit, got % rows', v_trgm;
+  END IF;
+
+  -- No shared words with the entry; only the (identical) embedding matches
+  SELECT semantic_only INTO v_semantic_only
+  FROM search_workspace(
+    'zebra xylophone',
+    50,
+    array_fill(0.01::real, ARRAY[1536])::extensions.vector
+  )
+  WHERE id = 'a5a5a5a5-0000-4000-8000-000000000220';
+  IF v_semantic_only IS DISTINCT FROM true THEN
+    RAISE EXCEPTION 'Expected a semantic-only hit, got %', v_semantic_only;
+  END IF;
+
+  SELECT count(*) INTO v_fts
+  FROM search_workspace('zebra xylophone', 50)
+  WHERE id = 'a5a5a5a5-0000-4000-8000-000000000220';
+  IF v_fts <> 0 THEN
+    RAISE EXCEPTION 'Without a query embedding: expected no hit, got % rows', v_fts;
+  END IF;
+
+  RAISE NOTICE 'PASS workspace search: NULL impact entry found by full-text, trigram and embedding';
+END $$;
+
+ROLLBACK;
+
+-- Visible on stdout for the Vitest harness (NOTICEs go to stderr).
+SELECT 'PASS workspace search: NULL impact entry found by full-text, trigram and embedding' AS status;